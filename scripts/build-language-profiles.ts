@@ -0,0 +1,202 @@
+/**
+ * Regenerate src/data/language-profiles.ts from the Universal Declaration
+ * of Human Rights, a prose text translated into hundreds of languages.
+ *
+ * The translations come from a pinned release of the `udhr` npm package,
+ * checked against its published sha512 integrity, so every run builds
+ * the same profiles.
+ *
+ * Usage:
+ *   npm run build:languages                        # download from the npm registry
+ *   npm run build:languages -- ./udhr-6.0.0.tgz    # use a local copy of the tarball
+ */
+
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import { gunzipSync } from 'zlib';
+import { join } from 'path';
+import { textTrigrams } from '../src/utils/language-utils';
+import { getTextContent, parseHtml, querySelectorAll } from '../src/utils/html-utils';
+
+const SOURCE_URL = 'https://registry.npmjs.org/udhr/-/udhr-6.0.0.tgz';
+const SOURCE_INTEGRITY = 'sha512-WBPHElJCq9m1qzkjIPH1enWi94TRzbm4lIbhvoH2/QzCVUJ6sOkofxuK1DP3n0kk05ypoOgdeckywyFG044MhA==';
+const OUTPUT = join(__dirname, '..', 'src', 'data', 'language-profiles.ts');
+
+/** Trigrams kept per language */
+const PROFILE_SIZE = 2000;
+
+/** Characters of text a language needs for a usable profile */
+const MIN_CORPUS = 5000;
+
+/**
+ * Languages to build, with the UDHR translations (declaration codes) they
+ * are built from. Minor languages that sit next to major ones (Asturian
+ * and Occitan next to Spanish, Catalan and Portuguese) are left out, as
+ * they would take text from their neighbours, and so is Malay, whose
+ * translation is too close to the Indonesian one to tell the two apart. Scripts written in one
+ * supported language (Greek, Thai, Hangul, ...) need no profile; see
+ * SCRIPT_LANGUAGES in language-utils.
+ */
+const LANGUAGES: Record<string, string[]> = {
+  af: ['afr'], az: ['azj_latn'], br: ['bre'], ca: ['cat'], cs: ['ces'], cy: ['cym'],
+  da: ['dan'], de: ['deu_1996'], en: ['eng'], eo: ['epo'], es: ['spa'], et: ['est'],
+  eu: ['eus'], fi: ['fin'], fr: ['fra'], ga: ['gle'], gl: ['glg'], hr: ['hrv'],
+  hu: ['hun'], id: ['ind'], is: ['isl'], it: ['ita'], lt: ['lit'], lv: ['lav'],
+  nb: ['nob'], nl: ['nld'], pl: ['pol'], pt: ['por_BR', 'por_PT'],
+  ro: ['ron_2006'], sk: ['slk'], sl: ['slv'], sq: ['als'], sv: ['swe'], tl: ['tgl'],
+  tr: ['tur'], vi: ['vie'],
+  be: ['bel'], bg: ['bul'], kk: ['kaz'], ky: ['kir'], mk: ['mkd'], mn: ['khk'],
+  ru: ['rus'], sr: ['srp_cyrl'], uk: ['ukr'],
+  ar: ['arb'], fa: ['pes_1'], ug: ['uig_arab'], ur: ['urd'],
+  hi: ['hin'], mr: ['mar'], ne: ['nep'],
+  bn: ['ben'],
+};
+
+async function main(): Promise<void> {
+  const source = process.argv[2];
+  const tarball = source ? await fs.readFile(source) : await download(SOURCE_URL);
+  verifyIntegrity(tarball, SOURCE_INTEGRITY);
+  const files = readTar(gunzipSync(tarball));
+
+  const profiles: Record<string, Record<string, string>> = {};
+  const skipped: string[] = [];
+
+  for (const [language, codes] of Object.entries(LANGUAGES)) {
+    const texts = codes.map((code) => {
+      const html = files.get(`package/declaration/${code}.html`);
+      if (!html) {
+        throw new Error(`${SOURCE_URL} has no declaration ${code} (${language})`);
+      }
+      return declarationText(html.toString('utf-8'));
+    });
+    addProfile(profiles, language, texts.join('\n'), skipped);
+  }
+
+  const lines = [
+    '// Generated by scripts/build-language-profiles.ts; do not edit.',
+    `// Built from the Universal Declaration of Human Rights (${SOURCE_URL}, ${SOURCE_INTEGRITY}).`,
+    '',
+    `/** Trigram profiles by script and language, ${PROFILE_SIZE} most frequent first */`,
+    'export const LANGUAGE_PROFILES: Record<string, Record<string, string>> = {',
+  ];
+  for (const script of Object.keys(profiles).sort()) {
+    lines.push(`  ${script}: {`);
+    for (const language of Object.keys(profiles[script]).sort()) {
+      lines.push(`    ${language}: ${JSON.stringify(profiles[script][language])},`);
+    }
+    lines.push('  },');
+  }
+  lines.push('};', '');
+
+  await fs.writeFile(OUTPUT, lines.join('\n'));
+  const count = Object.values(profiles).reduce((sum, languages) => sum + Object.keys(languages).length, 0);
+  console.log(`Wrote ${count} profiles to ${OUTPUT}`);
+  if (skipped.length > 0) {
+    console.log(`Skipped (too little text): ${skipped.join(', ')}`);
+  }
+}
+
+async function download(url: string): Promise<Buffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Check data against a Subresource Integrity string ('sha512-<base64>')
+ */
+function verifyIntegrity(data: Buffer, integrity: string): void {
+  const [algorithm, expected] = integrity.split('-', 2);
+  const actual = createHash(algorithm).update(data).digest('base64');
+  if (actual !== expected) {
+    throw new Error(`Checksum mismatch: expected ${integrity}, got ${algorithm}-${actual}`);
+  }
+}
+
+/**
+ * Regular files of a tar archive by path
+ */
+function readTar(data: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  let offset = 0;
+
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512);
+    const name = field(header, 0, 100);
+    if (!name) {
+      break;
+    }
+
+    const size = parseInt(field(header, 124, 12) || '0', 8);
+    const type = String.fromCharCode(header[156]);
+    const prefix = field(header, 345, 155);
+    if (type === '0' || type === '\0') {
+      files.set(prefix ? `${prefix}/${name}` : name, data.subarray(offset + 512, offset + 512 + size));
+    }
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+
+  return files;
+}
+
+/**
+ * A NUL-terminated string field of a tar header
+ */
+function field(header: Buffer, start: number, length: number): string {
+  const raw = header.subarray(start, start + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end < 0 ? length : end).toString('utf-8').trim();
+}
+
+/**
+ * The paragraphs and list items of a declaration page
+ */
+function declarationText(html: string): string {
+  return querySelectorAll(parseHtml(html), 'p, li')
+    .map((element) => getTextContent(element).replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Rank a language's trigrams and file the profile under its dominant script
+ */
+function addProfile(
+  profiles: Record<string, Record<string, string>>,
+  language: string,
+  text: string,
+  skipped: string[]
+): void {
+  if (text.length < MIN_CORPUS) {
+    skipped.push(language);
+    return;
+  }
+
+  const ranked = Array.from(textTrigrams(text))
+    .filter(([trigram]) => trigram.trim().length > 0)
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+    .slice(0, PROFILE_SIZE)
+    .map(([trigram]) => trigram);
+
+  const script = dominantScript(text);
+  profiles[script] = profiles[script] || {};
+  profiles[script][language] = ranked.join('|');
+}
+
+/**
+ * Script most letters of a text are written in
+ */
+function dominantScript(text: string): string {
+  const counts = new Map<string, number>();
+  for (const script of ['Latin', 'Cyrillic', 'Arabic', 'Devanagari', 'Bengali']) {
+    counts.set(script, (text.match(new RegExp(`\\p{Script=${script}}`, 'gu')) || []).length);
+  }
+  return Array.from(counts).sort((a, b) => b[1] - a[1])[0][0];
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,80 @@
+/**
+ * Regenerate src/data/public-suffix-list.ts from the Public Suffix List.
+ *
+ * Usage:
+ *   npm run update:psl                      # download from publicsuffix.org
+ *   npm run update:psl -- ./list.dat        # use a local copy
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { domainToASCII } from 'url';
+
+const SOURCE_URL = 'https://publicsuffix.org/list/public_suffix_list.dat';
+const OUTPUT = join(__dirname, '..', 'src', 'data', 'public-suffix-list.ts');
+
+async function main(): Promise<void> {
+  const source = process.argv[2];
+  const text = source ? await fs.readFile(source, 'utf-8') : await download(SOURCE_URL);
+
+  const lines: string[] = [];
+  let rules = 0;
+
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (/^\/\/ ===(BEGIN|END) (ICANN|PRIVATE) DOMAINS===$/.test(line)) {
+      lines.push(line);
+    } else if (line && !line.startsWith('//')) {
+      lines.push(toAsciiRule(line.split(/\s/)[0]));
+      rules++;
+    }
+  }
+
+  if (rules < 1000 || !lines.includes('// ===BEGIN PRIVATE DOMAINS===')) {
+    throw new Error(`Source does not look like the Public Suffix List (${rules} rules)`);
+  }
+
+  const output = [
+    '// Generated by scripts/update-public-suffix-list.ts; do not edit.',
+    `// Source: ${SOURCE_URL}`,
+    '// License: Mozilla Public License 2.0 (https://mozilla.org/MPL/2.0/)',
+    '// Rules are converted to punycode.',
+    '',
+    '/** Date the snapshot was taken */',
+    `export const PUBLIC_SUFFIX_LIST_DATE = '${new Date().toISOString().slice(0, 10)}';`,
+    '',
+    `/** Public Suffix List rules (${rules}) with their section markers */`,
+    'export const PUBLIC_SUFFIX_LIST = `',
+    ...lines,
+    '`;',
+    '',
+  ].join('\n');
+
+  await fs.writeFile(OUTPUT, output);
+  console.log(`Wrote ${rules} rules to ${OUTPUT}`);
+}
+
+async function download(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+  }
+  return response.text();
+}
+
+/**
+ * Punycode each label, keeping '*' wildcards and the '!' exception marker
+ */
+function toAsciiRule(rule: string): string {
+  const exception = rule.startsWith('!');
+  const labels = (exception ? rule.slice(1) : rule)
+    .split('.')
+    .map((label) => (label === '*' ? label : domainToASCII(label) || label));
+
+  return (exception ? '!' : '') + labels.join('.');
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
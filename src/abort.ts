@@ -0,0 +1,96 @@
+import { AbortError, TimeoutError } from './errors';
+
+/**
+ * Abort a controller when a parent signal aborts or a timeout elapses.
+ * Returns a function that removes the listener and timer.
+ */
+export function linkAbortController(
+  controller: AbortController,
+  parent?: AbortSignal,
+  timeoutMs?: number,
+  onTimeout?: () => void
+): () => void {
+  const abortFromParent = () => controller.abort();
+
+  if (parent?.aborted) {
+    controller.abort();
+  } else {
+    parent?.addEventListener('abort', abortFromParent, { once: true });
+  }
+
+  const timer = timeoutMs
+    ? setTimeout(() => {
+        onTimeout?.();
+        controller.abort();
+      }, timeoutMs)
+    : undefined;
+
+  return () => {
+    parent?.removeEventListener('abort', abortFromParent);
+    if (timer) {
+      clearTimeout(timer);
+    }
+  };
+}
+
+/**
+ * Run an operation with a timeout and optional cancellation.
+ *
+ * The operation receives a signal it should pass on to cancel its own
+ * I/O; the returned promise settles on timeout or abort either way.
+ */
+export async function runWithTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: { url: string; timeoutMs?: number; signal?: AbortSignal }
+): Promise<T> {
+  const { url, timeoutMs, signal } = options;
+
+  if (signal?.aborted) {
+    throw new AbortError(undefined, { url });
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const unlink = linkAbortController(controller, signal, timeoutMs, () => {
+    timedOut = true;
+  });
+
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener(
+      'abort',
+      () =>
+        reject(
+          timedOut
+            ? new TimeoutError(`Request timed out after ${timeoutMs}ms`, { url })
+            : new AbortError(undefined, { url })
+        ),
+      { once: true }
+    );
+  });
+
+  try {
+    return await Promise.race([operation(controller.signal), aborted]);
+  } finally {
+    unlink();
+  }
+}
+
+/**
+ * Wait for a delay, resolving early when the signal aborts
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
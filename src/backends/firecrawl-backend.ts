@@ -0,0 +1,216 @@
+import FirecrawlApp, {
+  CrawlParams,
+  FirecrawlDocument,
+  ScrapeParams,
+} from '@mendable/firecrawl-js';
+import {
+  BackendCapabilities,
+  BackendCrawlOptions,
+  BackendFormat,
+  BackendPage,
+  BackendScrapeOptions,
+  BackendScreenshot,
+  ExtractionBackend,
+  Logger,
+} from '../types';
+import { normalizeDate } from '../utils/metadata-utils';
+import { extractImages } from '../utils/image-utils';
+import { createHttpError } from '../errors';
+import { silentLogger } from '../logger';
+
+/**
+ * Firecrawl backend configuration
+ */
+export interface FirecrawlBackendConfig {
+  /** Firecrawl API key */
+  apiKey: string;
+  /** Firecrawl API URL (default: https://api.firecrawl.dev) */
+  apiUrl?: string;
+  /** Logger for problems that do not fail a page, e.g. a screenshot that could not be downloaded */
+  logger?: Logger;
+}
+
+type FirecrawlFormat = NonNullable<ScrapeParams['formats']>[number];
+
+/**
+ * Extraction backend powered by the Firecrawl API.
+ *
+ * The Firecrawl client cannot cancel requests; WebExtractor stops
+ * waiting for them when a timeout or abort signal fires. Screenshots are
+ * downloaded from the URL Firecrawl returns (a failed download leaves
+ * the page without one); images are read from the page's HTML.
+ */
+export class FirecrawlBackend implements ExtractionBackend {
+  readonly name = 'firecrawl';
+  readonly capabilities: BackendCapabilities = { screenshots: true, images: true, documents: true };
+  private app: FirecrawlApp;
+  private logger: Logger;
+
+  constructor(config: FirecrawlBackendConfig) {
+    this.app = new FirecrawlApp({
+      apiKey: config.apiKey,
+      apiUrl: config.apiUrl,
+    });
+    this.logger = config.logger || silentLogger;
+  }
+
+  async scrape(url: string, options: BackendScrapeOptions): Promise<BackendPage> {
+    const formats = this.toFirecrawlFormats(options);
+    if (options.includeLinks) {
+      formats.push('links');
+    }
+
+    const params: ScrapeParams = {
+      formats,
+      onlyMainContent: options.onlyMainContent,
+    };
+
+    if (options.waitFor) {
+      params.waitFor = options.waitFor;
+    }
+
+    if (options.userAgent) {
+      params.headers = { 'User-Agent': options.userAgent };
+    }
+
+    if (options.timeout) {
+      params.timeout = options.timeout;
+    }
+
+    const response = await this.app.scrapeUrl(url, params);
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return this.toBackendPage(response, url, options);
+  }
+
+  async crawl(url: string, options: BackendCrawlOptions): Promise<BackendPage[]> {
+    const params: CrawlParams = {
+      limit: options.limit,
+      maxDepth: options.maxDepth,
+      scrapeOptions: {
+        formats: this.toFirecrawlFormats(options),
+        onlyMainContent: options.onlyMainContent,
+        headers: options.userAgent ? { 'User-Agent': options.userAgent } : undefined,
+        timeout: options.timeout,
+      },
+      allowExternalLinks: options.allowExternalLinks,
+      allowSubdomains: options.allowSubdomains,
+    };
+
+    const response = await this.app.crawlUrl(url, params);
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    return Promise.all((response.data || []).map((doc) => this.toBackendPage(doc, url, options)));
+  }
+
+  /**
+   * Map SDK formats to Firecrawl formats (Firecrawl has no plain text
+   * format; images need the HTML)
+   */
+  private toFirecrawlFormats(options: BackendScrapeOptions): FirecrawlFormat[] {
+    const mapped = options.formats.map((format: BackendFormat): FirecrawlFormat =>
+      format === 'text' ? 'markdown' : format
+    );
+    if (options.includeImages) {
+      mapped.push('html');
+    }
+    if (options.screenshot) {
+      mapped.push(options.screenshot === 'fullPage' ? 'screenshot@fullPage' : 'screenshot');
+    }
+    return Array.from(new Set(mapped));
+  }
+
+  /**
+   * Convert a Firecrawl document to a backend page
+   */
+  private async toBackendPage(
+    doc: FirecrawlDocument<unknown>,
+    fallbackUrl: string,
+    options: BackendScrapeOptions
+  ): Promise<BackendPage> {
+    const metadata = doc.metadata || {};
+    const url = metadata.url || metadata.sourceURL || doc.url || fallbackUrl;
+
+    return {
+      url,
+      markdown: doc.markdown,
+      html: doc.html,
+      text: doc.markdown,
+      links: doc.links,
+      screenshot: doc.screenshot ? await this.fetchScreenshot(doc.screenshot, url, options.signal) : undefined,
+      images: options.includeImages && doc.html ? extractImages(doc.html, url) : undefined,
+      metadata: {
+        title: metadata.title,
+        description: metadata.description,
+        language: metadata.language,
+        statusCode: metadata.statusCode,
+        sourceURL: metadata.sourceURL,
+        canonicalUrl: metadata.ogUrl,
+        authors: toList(metadata.author, /;/),
+        publishedAt: normalizeDate(metadata.publishedTime || metadata.dctermsCreated || metadata.dcDate),
+        modifiedAt: normalizeDate(metadata.modifiedTime),
+        siteName: metadata.ogSiteName,
+        image: metadata.ogImage,
+        keywords: toList(metadata.keywords || metadata.dctermsKeywords, /,/),
+      },
+    };
+  }
+
+  /**
+   * Download a page's screenshot; a failure is logged and leaves the page
+   * without one (screenshot URLs expire)
+   */
+  private async fetchScreenshot(
+    location: string,
+    pageUrl: string,
+    signal?: AbortSignal
+  ): Promise<BackendScreenshot | undefined> {
+    try {
+      return await downloadScreenshot(location, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Screenshot download failed: ${message}`, { url: pageUrl });
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Fetch a screenshot from the URL (or data: URI) Firecrawl returned
+ */
+async function downloadScreenshot(location: string, signal?: AbortSignal): Promise<BackendScreenshot> {
+  const dataUri = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(location);
+  if (dataUri) {
+    return {
+      data: Buffer.from(dataUri[2] ? dataUri[3] : decodeURIComponent(dataUri[3]), dataUri[2] ? 'base64' : 'utf-8'),
+      mimeType: dataUri[1] || 'image/png',
+    };
+  }
+
+  const response = await fetch(location, { signal });
+  if (!response.ok) {
+    throw createHttpError(response.status, response.statusText, location);
+  }
+  return {
+    data: Buffer.from(await response.arrayBuffer()),
+    mimeType: response.headers.get('content-type')?.split(';')[0].trim() || 'image/png',
+  };
+}
+
+/**
+ * Split a delimited metadata string into trimmed, non-empty values
+ */
+function toList(value: unknown, separator: RegExp): string[] | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const items = value.split(separator).map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
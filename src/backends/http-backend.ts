@@ -0,0 +1,165 @@
+import {
+  BackendCapabilities,
+  BackendCrawlOptions,
+  BackendPage,
+  BackendScrapeOptions,
+  ExtractionBackend,
+} from '../types';
+import { extractFromHtml } from '../html-extractor';
+import { detectDocumentType, extractDocument } from '../document-extractor';
+import { Crawler } from '../crawler';
+import { createHttpError } from '../errors';
+import { linkAbortController } from '../abort';
+
+/**
+ * HTTP backend configuration
+ */
+export interface HttpBackendConfig {
+  /** Extra request headers */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Extraction backend that fetches pages directly over HTTP.
+ *
+ * Needs no API key. Pages are converted with extractFromHtml, which
+ * finds the main content when onlyMainContent is set; PDF, DOCX and
+ * plain-text responses are parsed with extractDocument. Cached pages are
+ * revalidated with If-None-Match and If-Modified-Since. Pages are not
+ * rendered, so screenshots are not supported.
+ */
+export class HttpBackend implements ExtractionBackend {
+  readonly name = 'http';
+  readonly capabilities: BackendCapabilities = { images: true, documents: true, revalidation: true };
+  private headers: Record<string, string>;
+
+  constructor(config: HttpBackendConfig = {}) {
+    this.headers = config.headers || {};
+  }
+
+  async scrape(url: string, options: BackendScrapeOptions): Promise<BackendPage> {
+    const headers: Record<string, string> = options.userAgent
+      ? { 'User-Agent': options.userAgent, ...this.headers }
+      : { ...this.headers };
+    if (options.ifNoneMatch) {
+      headers['If-None-Match'] = options.ifNoneMatch;
+    }
+    if (options.ifModifiedSince) {
+      headers['If-Modified-Since'] = options.ifModifiedSince;
+    }
+    const controller = new AbortController();
+    const unlink = linkAbortController(controller, options.signal, options.timeout);
+    let response: Response;
+    let body: Buffer;
+
+    try {
+      response = await fetch(url, { headers, signal: controller.signal });
+
+      if (response.status === 304) {
+        return {
+          url: response.url || url,
+          notModified: true,
+          metadata: { statusCode: 304, sourceURL: url, ...validators(response) },
+        };
+      }
+      if (!response.ok) {
+        throw createHttpError(
+          response.status,
+          response.statusText,
+          url,
+          response.headers.get('retry-after')
+        );
+      }
+
+      body = Buffer.from(await response.arrayBuffer());
+    } finally {
+      unlink();
+    }
+
+    const pageUrl = response.url || url;
+    const contentType = response.headers.get('content-type') || undefined;
+    if (detectDocumentType(contentType, pageUrl)) {
+      return this.toDocumentPage(body, url, response, contentType);
+    }
+
+    const html = new TextDecoder().decode(body);
+    const extraction = extractFromHtml(html, pageUrl, { onlyMainContent: options.onlyMainContent });
+
+    return {
+      url: pageUrl,
+      markdown: options.formats.includes('markdown') ? extraction.markdown : undefined,
+      html: options.formats.includes('html') ? html : undefined,
+      text: extraction.text,
+      links: extraction.links,
+      images: options.includeImages ? extraction.images : undefined,
+      metadata: {
+        ...extraction.metadata,
+        statusCode: response.status,
+        sourceURL: url,
+        contentType,
+        ...validators(response),
+      },
+    };
+  }
+
+  /**
+   * Page for a PDF, DOCX or plain-text response
+   */
+  private toDocumentPage(
+    body: Buffer,
+    url: string,
+    response: Response,
+    contentType: string | undefined
+  ): BackendPage {
+    const pageUrl = response.url || url;
+    const document = extractDocument(body, pageUrl, contentType);
+
+    return {
+      url: pageUrl,
+      // Documents have no HTML, so Markdown stands in for it
+      markdown: document.markdown,
+      text: document.text,
+      links: document.links,
+      documentPages: document.pages,
+      metadata: {
+        ...document.metadata,
+        title: document.title,
+        statusCode: response.status,
+        sourceURL: url,
+        contentType,
+        documentType: document.type,
+        ...validators(response),
+      },
+    };
+  }
+
+  async crawl(url: string, options: BackendCrawlOptions): Promise<BackendPage[]> {
+    const crawler = new Crawler((pageUrl) => this.scrape(pageUrl, options), {
+      maxPages: options.limit,
+      maxDepth: options.maxDepth,
+      includeSubdomains: options.allowSubdomains,
+      followExternalLinks: options.allowExternalLinks,
+      includeDocuments: options.includeDocuments,
+      signal: options.signal,
+    });
+
+    const pages: BackendPage[] = [];
+    for await (const outcome of crawler.crawl(url)) {
+      if ('page' in outcome) {
+        pages.push(outcome.page);
+      }
+    }
+
+    return pages;
+  }
+}
+
+/**
+ * ETag and Last-Modified of a response, for revalidating cached copies
+ */
+function validators(response: Response): { etag?: string; lastModified?: string } {
+  return {
+    etag: response.headers.get('etag') || undefined,
+    lastModified: response.headers.get('last-modified') || undefined,
+  };
+}
@@ -0,0 +1,229 @@
+import {
+  BackendPage,
+  BackendScrapeOptions,
+  CrawlChanges,
+  CrawlManifest,
+  ExtractionResult,
+  ManifestEntry,
+  PageChange,
+  SitemapEntry,
+} from './types';
+import { normalizeUrl } from './utils/url-utils';
+import { diffLines, diffSections, hashContent, hashSections } from './utils/diff-utils';
+
+/**
+ * What a fetch revealed about a page beyond its extracted content
+ */
+interface PageObservation {
+  lastmod?: string;
+  etag?: string;
+  lastModified?: string;
+  links?: string[];
+}
+
+/**
+ * Tracks a crawl against the previous run's manifest.
+ *
+ * During the crawl it decides which pages need no request (sitemap lastmod
+ * not newer) and which can be fetched conditionally (ETag/Last-Modified);
+ * pages that were not fetched again reuse their manifest links so the
+ * crawl still reaches what they link to. Afterwards it builds the new
+ * manifest and the changes.
+ */
+export class ChangeTracker {
+  private previous: Record<string, ManifestEntry>;
+  private lastmods = new Map<string, string>();
+  private observations = new Map<string, PageObservation>();
+  private hasPrevious: boolean;
+
+  constructor(previousManifest?: CrawlManifest) {
+    this.previous = previousManifest?.pages || {};
+    this.hasPrevious = previousManifest !== undefined;
+  }
+
+  /**
+   * Remember the lastmod dates of sitemap entries
+   */
+  addSitemapEntries(entries: SitemapEntry[]): void {
+    for (const entry of entries) {
+      if (entry.lastmod) {
+        this.lastmods.set(normalizeUrl(entry.url), entry.lastmod);
+      }
+    }
+  }
+
+  /**
+   * A page standing in for one that needs no request because its sitemap
+   * lastmod is not newer than the manifest's, else undefined
+   */
+  unchangedBySitemap(url: string): BackendPage | undefined {
+    const key = normalizeUrl(url);
+    const entry = this.previous[key];
+    const lastmod = this.lastmods.get(key);
+    if (!entry?.lastmod || !lastmod || isNewer(lastmod, entry.lastmod)) {
+      return undefined;
+    }
+
+    this.observations.set(key, { lastmod });
+    return { url, links: entry.links, notModified: true, metadata: { sourceURL: url } };
+  }
+
+  /**
+   * Validators for a conditional request, from the page's manifest entry
+   */
+  conditions(url: string): Pick<BackendScrapeOptions, 'ifNoneMatch' | 'ifModifiedSince'> {
+    const entry = this.previous[normalizeUrl(url)];
+    return entry ? { ifNoneMatch: entry.etag, ifModifiedSince: entry.lastModified } : {};
+  }
+
+  /**
+   * Record a fetched page. A not-modified page gets its manifest links,
+   * so the crawler can follow them.
+   */
+  observe(url: string, page: BackendPage): BackendPage {
+    const key = normalizeUrl(page.metadata.sourceURL || page.url || url);
+    const observation: PageObservation = {
+      lastmod: this.lastmods.get(key),
+      etag: page.metadata.etag,
+      lastModified: page.metadata.lastModified,
+      links: page.links,
+    };
+
+    if (page.notModified) {
+      const entry = this.previous[key];
+      this.observations.set(key, { ...observation, links: entry?.links });
+      return { ...page, links: entry?.links };
+    }
+
+    this.observations.set(key, observation);
+    return page;
+  }
+
+  /**
+   * Build the manifest of the finished crawl and, when there was a
+   * previous manifest, the changes since.
+   *
+   * `unchanged` lists the URLs that were not fetched again. Entries of
+   * pages the crawl did not get to (it stopped early, or they failed or
+   * were skipped) are carried over; they only count as removed when the
+   * server answered 404 or 410, or a complete crawl no longer found them.
+   */
+  finish(
+    result: ExtractionResult,
+    unchanged: string[],
+    complete: boolean,
+    includeContent = false
+  ): { manifest: CrawlManifest; changes?: CrawlChanges } {
+    const pages: Record<string, ManifestEntry> = {};
+    const changes: CrawlChanges = { added: [], modified: [], removed: [], unchanged: [] };
+
+    for (const page of result.pages) {
+      const entry = this.createEntry(page.url, page.content, includeContent);
+      const previous = this.previous[page.url];
+      pages[page.url] = entry;
+
+      if (!previous) {
+        changes.added.push(page);
+      } else if (previous.contentHash === entry.contentHash) {
+        changes.unchanged.push(page.url);
+      } else {
+        const change: PageChange = {
+          url: page.url,
+          page,
+          previousHash: previous.contentHash,
+          sections: diffSections(previous.sections, entry.sections),
+        };
+        if (previous.content !== undefined) {
+          change.lines = diffLines(previous.content, page.content);
+        }
+        changes.modified.push(change);
+      }
+    }
+
+    for (const url of unchanged) {
+      const key = normalizeUrl(url);
+      const previous = this.previous[key];
+      if (previous && !pages[key]) {
+        pages[key] = this.carryOver(previous, includeContent, this.observations.get(key));
+        changes.unchanged.push(key);
+      }
+    }
+
+    const gone = new Set(
+      result.failed
+        .filter((failure) => failure.statusCode === 404 || failure.statusCode === 410)
+        .map((failure) => normalizeUrl(failure.url))
+    );
+    for (const [key, previous] of Object.entries(this.previous)) {
+      if (pages[key]) {
+        continue;
+      }
+      if (gone.has(key) || (complete && !this.observations.has(key) && !wasReached(result, key))) {
+        changes.removed.push(key);
+      } else {
+        pages[key] = this.carryOver(previous, includeContent);
+      }
+    }
+
+    const manifest: CrawlManifest = { version: 1, createdAt: new Date().toISOString(), pages };
+    return this.hasPrevious ? { manifest, changes } : { manifest };
+  }
+
+  private createEntry(url: string, content: string, includeContent: boolean): ManifestEntry {
+    const observation = this.observations.get(url) || {};
+    const entry: ManifestEntry = {
+      url,
+      contentHash: hashContent(content),
+      sections: hashSections(content),
+      lastmod: observation.lastmod,
+      etag: observation.etag,
+      lastModified: observation.lastModified,
+      links: observation.links,
+    };
+    if (includeContent) {
+      entry.content = content;
+    }
+    return entry;
+  }
+
+  /**
+   * A previous entry for the new manifest, with validators from a
+   * revalidation when there was one
+   */
+  private carryOver(
+    previous: ManifestEntry,
+    includeContent: boolean,
+    observation: PageObservation = {}
+  ): ManifestEntry {
+    const { content, ...entry } = previous;
+    return {
+      ...entry,
+      lastmod: observation.lastmod || previous.lastmod,
+      etag: observation.etag || previous.etag,
+      lastModified: observation.lastModified || previous.lastModified,
+      ...(includeContent && content !== undefined ? { content } : {}),
+    };
+  }
+}
+
+/**
+ * Whether a sitemap date is later than another (unparseable dates count as newer)
+ */
+function isNewer(date: string, than: string): boolean {
+  const time = Date.parse(date);
+  const previous = Date.parse(than);
+  return Number.isNaN(time) || Number.isNaN(previous) || time > previous;
+}
+
+/**
+ * Whether a crawl reached a URL without extracting it (failed, skipped or duplicate)
+ */
+function wasReached(result: ExtractionResult, key: string): boolean {
+  return [...result.failed, ...result.skipped, ...result.duplicates].some((item) => {
+    try {
+      return normalizeUrl(item.url) === key;
+    } catch {
+      return false;
+    }
+  });
+}
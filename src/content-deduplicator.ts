@@ -0,0 +1,57 @@
+import { DedupeContentOptions, DuplicateExtraction, ExtractedPage } from './types';
+import { LshIndex } from './lsh-index';
+import { minHash } from './utils/fingerprint-utils';
+
+/**
+ * Finds pages whose content nearly matches an earlier page.
+ *
+ * Pages are compared by MinHash signatures (from `metadata.fingerprint`
+ * when present) through an LSH index, so each check only looks at
+ * likely candidates. The first page seen is the canonical one. Only
+ * signatures and URLs are kept, not the pages.
+ */
+export class ContentDeduplicator {
+  private threshold: number;
+  private action: 'drop' | 'merge';
+  private index = new LshIndex();
+  private indexed = new Set<string>();
+
+  constructor(options: DedupeContentOptions) {
+    if (!(options.threshold > 0 && options.threshold <= 1)) {
+      throw new Error(`Dedupe threshold must be between 0 and 1, got ${options.threshold}`);
+    }
+
+    this.threshold = options.threshold;
+    this.action = options.action || 'drop';
+  }
+
+  /**
+   * Duplicate record if the page nearly matches an earlier page,
+   * otherwise undefined (and the page becomes a candidate for later ones)
+   */
+  check(page: ExtractedPage): DuplicateExtraction | undefined {
+    if (!/[\p{L}\p{N}]/u.test(page.content) || this.indexed.has(page.url)) {
+      return undefined;
+    }
+
+    const signature = page.metadata.fingerprint?.minHash || minHash(page.content);
+    const [match] = this.index.query(signature, this.threshold);
+
+    if (match) {
+      const duplicate: DuplicateExtraction = {
+        url: page.url,
+        duplicateOf: match.key,
+        reason: 'content',
+        similarity: match.similarity,
+      };
+      if (this.action === 'merge') {
+        duplicate.merged = true;
+      }
+      return duplicate;
+    }
+
+    this.index.add(page.url, signature);
+    this.indexed.add(page.url);
+    return undefined;
+  }
+}
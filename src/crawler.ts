@@ -0,0 +1,232 @@
+import { BackendPage } from './types';
+import {
+  CRAWL_URL_OPTIONS,
+  normalizeUrl,
+  deduplicateUrls,
+  filterUrlsByPattern,
+  isSameDomain,
+  isSameRootDomain,
+  extractDomain,
+} from './utils/url-utils';
+import { RobotsChecker, RobotsVerdict } from './robots';
+import { abortableDelay } from './abort';
+import { isDocumentUrl } from './document-extractor';
+
+/**
+ * Fetches a single page for the crawler
+ */
+export type PageFetcher = (url: string) => Promise<BackendPage>;
+
+/**
+ * Crawler options
+ */
+export interface CrawlerOptions {
+  /** Maximum pages to emit */
+  maxPages: number;
+  /** Maximum link hops from the start URL */
+  maxDepth: number;
+  /** Follow links to other hosts of the start URL's registrable domain */
+  includeSubdomains: boolean;
+  /** Follow links to other domains */
+  followExternalLinks: boolean;
+  /** URL patterns to include (regex) */
+  includePatterns?: RegExp[];
+  /** URL patterns to exclude (regex) */
+  excludePatterns?: RegExp[];
+  /** Follow links to PDF, DOCX and plain-text documents */
+  includeDocuments?: boolean;
+  /** Queue seed URLs on any host; scope then only limits discovered links (default: false) */
+  unscopedSeeds?: boolean;
+  /** robots.txt checker (omit to ignore robots.txt) */
+  robots?: RobotsChecker;
+  /** Stop crawling when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Crawl frontier entry
+ */
+export interface CrawlTarget {
+  /** URL to fetch */
+  url: string;
+  /** Link hops from the start URL */
+  depth: number;
+}
+
+/**
+ * Outcome of crawling a single URL
+ */
+export type CrawlOutcome = CrawlTarget & {
+  /** URLs left in the frontier */
+  queued: number;
+} & ({ page: BackendPage } | { error: unknown } | { skipped: string });
+
+/**
+ * In-process breadth-first crawler.
+ *
+ * Keeps a frontier of URLs, discovers links on each fetched page and
+ * applies scope and pattern filters before anything is fetched.
+ */
+export class Crawler {
+  private fetchPage: PageFetcher;
+  private options: CrawlerOptions;
+  private lastFetchByHost = new Map<string, number>();
+
+  constructor(fetchPage: PageFetcher, options: CrawlerOptions) {
+    this.fetchPage = fetchPage;
+    this.options = options;
+  }
+
+  /**
+   * Crawl from startUrl, yielding each page, failure or skip as it completes.
+   *
+   * Seed URLs (e.g. from a sitemap) are queued at depth 0 after the start
+   * URL, subject to the same scope and pattern filters as discovered links
+   * (only the pattern filters with `unscopedSeeds`).
+   */
+  async *crawl(startUrl: string, seeds: string[] = []): AsyncGenerator<CrawlOutcome> {
+    const { maxPages, maxDepth } = this.options;
+    const seen = new Set<string>([normalizeUrl(startUrl, CRAWL_URL_OPTIONS)]);
+    const frontier: CrawlTarget[] = [{ url: startUrl, depth: 0 }];
+    let emitted = 0;
+
+    for (const seed of this.filterLinks(seeds, startUrl, !this.options.unscopedSeeds)) {
+      const normalized = normalizeUrl(seed, CRAWL_URL_OPTIONS);
+      if (!seen.has(normalized)) {
+        seen.add(normalized);
+        frontier.push({ url: seed, depth: 0 });
+      }
+    }
+
+    while (frontier.length > 0 && emitted < maxPages && !this.options.signal?.aborted) {
+      const target = frontier.shift()!;
+
+      // The start URL is always fetched to discover links, but only
+      // reported when it matches the patterns
+      const reportable = target.depth > 0 || this.matchesPatterns(target.url);
+
+      if (this.options.robots) {
+        let verdict: RobotsVerdict;
+        try {
+          verdict = await this.options.robots.check(target.url, this.options.signal);
+        } catch (error) {
+          if (this.options.signal?.aborted) {
+            return;
+          }
+          throw error;
+        }
+        if (verdict.error) {
+          if (reportable) {
+            emitted++;
+            yield { ...target, queued: frontier.length, error: verdict.error };
+          }
+          continue;
+        }
+        if (!verdict.allowed) {
+          yield {
+            ...target,
+            queued: frontier.length,
+            skipped: verdict.reason || 'Disallowed by robots.txt',
+          };
+          continue;
+        }
+        await this.waitForCrawlDelay(target.url, verdict.crawlDelay);
+        if (this.options.signal?.aborted) {
+          return;
+        }
+      }
+
+      let page: BackendPage;
+      try {
+        page = await this.fetchPage(target.url);
+      } catch (error) {
+        // Requests cut off by cancellation are not failures
+        if (this.options.signal?.aborted) {
+          return;
+        }
+        if (reportable) {
+          emitted++;
+          yield { ...target, queued: frontier.length, error };
+        }
+        continue;
+      }
+
+      // Don't fetch the page again under its redirect target or canonical URL
+      for (const alias of [page.url, page.metadata.canonicalUrl]) {
+        try {
+          if (alias) {
+            seen.add(normalizeUrl(alias, CRAWL_URL_OPTIONS));
+          }
+        } catch {
+          // Not an HTTP(S) URL
+        }
+      }
+
+      if (target.depth < maxDepth) {
+        for (const link of this.filterLinks(page.links || [], startUrl)) {
+          const normalized = normalizeUrl(link, CRAWL_URL_OPTIONS);
+          if (!seen.has(normalized)) {
+            seen.add(normalized);
+            frontier.push({ url: link, depth: target.depth + 1 });
+          }
+        }
+      }
+
+      if (reportable) {
+        emitted++;
+        yield { ...target, queued: frontier.length, page };
+      }
+    }
+  }
+
+  /**
+   * Space out requests to the same host by its Crawl-delay
+   */
+  private async waitForCrawlDelay(url: string, crawlDelay?: number): Promise<void> {
+    const host = extractDomain(url);
+    const last = this.lastFetchByHost.get(host);
+
+    if (crawlDelay && last !== undefined) {
+      const wait = last + crawlDelay * 1000 - Date.now();
+      if (wait > 0) {
+        await abortableDelay(wait, this.options.signal);
+      }
+    }
+
+    this.lastFetchByHost.set(host, Date.now());
+  }
+
+  /**
+   * Links that are in scope (unless checkScope is false) and match the
+   * patterns; document links only with includeDocuments
+   */
+  private filterLinks(urls: string[], startUrl: string, checkScope = true): string[] {
+    const links = deduplicateUrls(urls).filter((link) =>
+      (!checkScope || this.isInScope(link, startUrl)) && (this.options.includeDocuments || !isDocumentUrl(link))
+    );
+
+    return filterUrlsByPattern(
+      links,
+      this.options.includePatterns,
+      this.options.excludePatterns
+    );
+  }
+
+  /**
+   * Check domain restrictions relative to the start URL; with
+   * includeSubdomains, any host of the same registrable domain is in scope
+   */
+  private isInScope(url: string, startUrl: string): boolean {
+    if (this.options.followExternalLinks || isSameDomain(url, startUrl)) {
+      return true;
+    }
+    return this.options.includeSubdomains && isSameRootDomain(url, startUrl);
+  }
+
+  private matchesPatterns(url: string): boolean {
+    return (
+      filterUrlsByPattern([url], this.options.includePatterns, this.options.excludePatterns)
+        .length > 0
+    );
+  }
+}
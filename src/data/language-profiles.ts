@@ -0,0 +1,69 @@
+// Generated by scripts/build-language-profiles.ts; do not edit.
+// Built from the Universal Declaration of Human Rights (https://registry.npmjs.org/udhr/-/udhr-6.0.0.tgz, sha512-WBPHElJCq9m1qzkjIPH1enWi94TRzbm4lIbhvoH2/QzCVUJ6sOkofxuK1DP3n0kk05ypoOgdeckywyFG044MhA==).
+
+/** Trigram profiles by script and language, 2000 most frequent first */
+export const LANGUAGE_PROFILES: Record<string, Record<string, string>> = {
+  Arabic: {
+    ar: " ال|ية | في|في | وا|الح|وال|الم|حق | أو|الت|لحق|أو |كل |لى |الأ|ان | لك|لكل|مة |أن |ات |الا|الع|ته |من |ها |شخص| أن|اء | لل|لا | عل|فرد|ما |ون | شخ|رد | إل| من|على|حري|الإ|خص | ول|دة |رية| أي| فر|حقو|قوق| حق| كا| لا|أي |جتم|ين |اية|ام |لك |له | حر|ترا|لة |وق | عن|إلى|امة|مع |نسا|الق|إنس|سان|كان|لتع|ماع|مل | دو| وي|اسي|الج|اً |حما|ذا |لأس|لعا|ماي| إن| با|أسا|الد|ساس|سية|عية|يات| له|الف|علي|نون|هذا|هم |ير |يه | مت| هذ| يج|الو|بال|تما|دول|ذلك|رام|ساو|عام|غير|لإن|لاد|لمج|اد |ال |الب|انو|تعل|تمع|عمل|قان|لأم|لجم|لحر|لمت|ليه|مجت| قد| كل|اعي|انت|تمت|جوز|دم |رة |شتر|قدم|لتم|لقا|لمي|مم |ني |وز |ول |يجو| مع| يع|أسر|اة |اجت|الر|الش|تسا|حدة|ريا|عن |فيه|لدو|لزو|لمس|ليم|مان|واج|يم | أس| بح| تع| ذل|أمم|اع |الس|بية|تحد|تع |تنا|جمي|دون|را |راك|ضما|قة |كرا|لاج|لي |متع|مسا|معي|ملا|ميع|ود |وله|يد |يز | بل| تم| جم| عا| مر| مس| مم| وأ| وإ| وع|أول|إلي|اته|اج |اخت|ادة|اشت|اعا|اف |اك |الز|الض|الط|امل|بلا|بين|تمي|تي |تيا|جري|ختي|ده |زوا|عال|عيش|لإع|لان|لحم|لضم|متح|متس|مية|ولة|يار|يع |يها| بم| تن| حم| غي| ما| وس| وف| وم| يك|ادل|ار |ارس|اس |اق |بات|جرا|جنس|حرا|راد|ره |عات|عاد|لات|لتي|لما|مار|محا|مما|مي |ميي|ولي|وين|يته|ييز| أح| أم| إر| اخ| به| بي| تو| جر| عق| عم| وت| وح| وق| يح| ين|أية|إرا|إعل|احت|است|اعت|الذ|الك|الل|الن|اوي|بر |ترب|تعس|تلك|جة |جما|حتر|خصي|خل |دان|دته|دين|ذه |راء|رض |طة |عة |عسف|علا|علم|عند|قد |قيد|كاف|كام|لأو|لاش|لبل|لتر|لدي|لسل|لشع|لفر|لفن|للم|لمص|مبا|مرا|مرض|مست|نت |ند |نه |نية|هذه|وري|ولا|وية|يره| بر| تح| خا| سو| شر| قي| كم| يت| يخ|أجر|أحد|اب |ادت|اكم|الة|امه|اوا|باد|بهذ|تام|تحق|تكا|تهم|جر |جمع|جه |حاك|حة |حد |حيا|داء|ذي |راع|راف|ربي|رته|رها|رى |ري |سرة|سرت|سفا|سلا|سوا|سيا|شعو|عتر|عما|عنه|عوب|عي |غرا|قه |كما|كمة|كون|لاس|لاق|لد |لذي|لعم|لعن|لقي|لم |لمح|لمر|مته|ناق|نما|نمو|وأن|واة|وب |وسا|وعل|ولم|ويت|يعت|يكو| أج| أخ| أد| أع| أغ| أك| إد| بج| بع| بك| بن| تأ| تج| تق| تل| سي| فق| لح| مج| نت| هي| وب| يق|آخر|أخر|أدا|أدب|أعم|أغر|إدا|إلا|إنم|ئل |ئها|ائل|ابا|ادئ|اده|ادي|ارت|اض |اقض|الث|الخ|الص|اهم|بة |بحق|بشر|بطا|بلد|بما|تبر|تجر|تفا|تقل|تنم|تها|توق|توى|جب |حال|خرى|دئه|دبي|در |دلة|دية|راض|ربا|رتك|رضى|رعي|رما|ريم|سائ|ستو|شة |شرع|صلح|صيت|ضع |ضمن|ضى |طال|طبي|طني|عتب|عقو|فا |فاه|فس |فع |فني|قت |قض |قل |قوم|كاب|كذل|لأد|لأع|لال|لام|لاً|لبط|لتا|لرج|لطب|لعل|لغي|لكر|لهم|لوط|ماء|مال|مام|متا|مصل|ملك|نات|نتا|نسي|نضم|نفس|هدف|هما|هي |وإل|وا |واء|واس|وحد|وطن|وفي|وقت|وقه|ولأ|وم |ومب|ومة|وى |ياة|ياس|يجب|يحق|يشة|يشت|يق |يمة|ًا | آخ| إج| اح| ان| بس| بش| بو| تت| تر| تغ| ته| جن| حي| دي| لأ| لب| لت| لش| لض| لم| مح| نز| نف| وض| وك| يض| يل|أعض|أكا|أم |إجر|إذا|إست|إقا|إن |ارة|ارد|اضع|اط |افة|افي|اقة|اقت|امت|اه |باء|بب |بحم|بسب|بغي|بكر|بوا|تجا|تخا|تدخ|ترك|تضا|تغي|تقد|تهد|ثل |جأ |جهو|حدو|حقق|خاص|خر |دخل|دف |دل |دود|دور|رأي|راح|راغ|ردة|رده|رسة|رك |رور|ريق|زام|زيه|ساع|سبب|سة |ستق|سته|سكن|سلط|سي |ضاء|ضرو|ضمي|ضيا|طري|ظام|عضا|علن|عنص|غي |غيي|فاء|فة |فه |قام|قتض|قوب|قيا|قيق|قيو|كار|لاع|لبق|لتز|لتف|لجأ|لجن|لحك|لرا|لشخ|لضر|لقب|للت|للر|للع|للن|لمع|لني|لوح|مات|مثل|مجه|مسك|مقت|مها|مو |موا|مير|ناس|نبغ|نته|نزي|نس |نصر|نظا|نها|هة |همة|هود|واح|وار|وحر|ولى|يا |ياد|يام|يخو|يس |يلج|ينب|ينت|يهة|يود|يير| أش| أف| إذ| إس| إق| إك| ار| اش| اع| بأ| بص| بط| تؤ| تث| تد| تض| تف| حا| حد| حس| دا| رب| رض| زي| سل| سن| عي| قا| كذ| لس| لظ| لغ| مب| مص| مل| نا| نح| نص| نق| نم| نو| هر| ور| وغ| وه| يب| يد| يش| يص| يغ| يي|ءة |آبا|أة |أثن|أحو|أخل|أسي|أشد|أصل|أطف|أقل|أما|أمر|أمو|أمي|أنه|ؤمن|ؤون|إرغ|إكر|إلز|إما|إمت|إنت|إنك|ئاً|ئة |ئجه|ئف |ئقة|ئم |اءة|ائج|ائف|ائق|ائم|اتج|اثل|اجب|اجه|اح |احل|اخل|ادر|ارا|ارج|اره|ارو|ازم|اسط|اشر|اصت|اضط|اطة|اطي|اعة|اعد|اغب|افظ|اكا|الآ|الغ|اله|الي|اما|امح|امي|انا|انح|انض|انه|اهي|او |اول|اون|اّ |با |باش|باط|بان|بت |بجر|بجن|بحا|برض|برم|بري|بس |بطر|بعض|بعم|بقع|بكا|بلغ|بمح|بمف|بنف|بول|بي |بيع|تأس|تأم|تؤم|تا |تائ|تاج|تاح|تار|تاع|تبة|تتن|تثب|تجة|تحر|ترت|ترف|ترق|ترم|تزو|تصو|تضم|تضي|تعا|تعب|تعز|تعه|تغذ|تفر|تفع|تمل|تيج|تين|ثاق|ثبت|ثقا|ثلي|ثنا|جاء|جال|جان|جبا|جرم|جز |جل |حاف|حاو|حته|حده|حرم|حسب|حفظ|حقه|حقي|حكم|حكو|حل |حلا|حله|حمل|حو |حوا|خاب|خار|خاض|خة |ختا|خدم|خضع|خلا|خوخ|داخ|دار|داق|دت |درا|دفا|دما|دهم|ديد|ديم|ذات|ذية|رأة|رائ|راط|راه|رتب|رجا|رجة|رجل|رره|رس |رست|رضي|رعا|رغا|رفا|رفي|رقا|رقة|رقي|رم |رمل|روط|روف|رون|ريئ|ريد|رًا|زمة|زوج|زوم|زيا|زيز|ساء|سام|ساه|سب |ستر|ستف|ستم|سر |سري|سطة|سلم|سن |سيت|سيس|شأ |شؤو|شته|شد |شرة|شرو|شعب|شمل|شيخ|صال|صتي|صح |صحة|صدا|صدر|صري|صل |صوي|صية|ضاف|ضد |ضطه|ضعة|ضم |ضية|طرف|طفا|طفو|طها|طي |ظائ|ظة |ظر |ظرو|عاو|عاي|عب |عبر|عته|عجز|عدة|عرض|عزي|عقد|عقي|عم |عمم|عنا|عها|عهد|عود|عيا|عين|غا |غاد|غام|غبي|غذي|فاد|فاع|فال|فرق|فظ |فظة|فقا|فقد|فقط|فل |فنو|فول|فين|قاب|قاف|قاق|قاً|قبو|قتر|قدا|قرا|قرر|قط |قع |قعة|قق |قلا|قلد|قول|قيع|كا |كفا|كفل|كم |كن |كه |كوم|لآب|لأح|لأخ|لأط|لأق|لإر|لإم|لائ|لار|لاز|لاض|لاّ|لبس|لبش|لتج|لتح|لتد|لتس|لتص|لتغ|لتق|لتل|لثق|لجر|لح |لحة|لحت|لحف|لحي|لخا|لخد|لدف|لده|لرأ|لرف|لرق|لزا|لسر|لسي|لشؤ|لشي|لصح|لصد|لطة|لطر|لطف|لظر|لعج|لعق|لعو|لعي|لغا|لقو|لكف|لكه|للآ|للأ|للا|للج|للح|للد|للز|للق|للو|لمق|لمل|لمه|لنا|لنس|لنظ|لنق|لها|لوا|لوظ|لين|ماث|ماد|ماً|متر|متن|مجا|مح |محل|مرأ|مصا|مصد|مفر|مقر|ملب|ممث|مه |مهن|موم|ميا|مين|ناء|ناع|ناي|ناً|نتخ|نتف|نتي|نحل|نحو|نشأ|نظر|نعم|نقا|نقل|نكا|نمي|نهم|نوع|هاد|هرب|هني|هية|وأث|وإم|واخ|وبة|وبم|وتأ|وتن|وج |وخة|ودة|ورع|وضع|وط |وظا|وع |وعن|وغي|وف |وفق|وقد|وقع|وقي|وكذ|ولت|ومر|ومي|ونا|وني|ويج|ويش|ويع|يئا|يبر|يت |يتا|يتض|يجة|يحا|يخت|يخض|يدا|يسر|يش |يشم|يصح|يضم|يعا|يعب|يعر|يعم|يعه|يعي|يغا|يقة|يقر|يقو|يكف|يلا|يما|يمق|ينش|ينض|ينع|يني|ييس| آذ| إط| إي| اج| تا| تس| جد| جو| حت| حج| ذا| رأ| سر| شع| ضد| ضم| طر| عض| عط| غا| غن| فإ| فع| فل| قض| قو| كه| لإ| لد| لي| مث| مط| نظ| هد| هم| هن| هو| وج| وش| ون| ير| يس| يم| يه| يو| يُ|ءات|آذت|آرا|أحر|أدي|أعي|أفس|أفض|أفك|أكد|أنب|أهم|أوض|أوق|أوي|أين|ؤها|إجت|إخا|إدر|إطر|إعت|إعر|إنص|إيم|ئر |ئية|اءا|اؤه|ائر|ائي|ابت|اتخ|اتي|احة|اذ |ارً|ازد|اسل|اسه|اصة|اعه|اغ |افئ|افه|الظ|انب|انة|اني|بأج|بأي|بتة|بثا|بحر|بدا|برو|برى|بشخ|بصف|بصو|بض |بقا|بمق|بنش|بنظ|بها|بوس|بوي|بير|تأد|تأص|تأو|تبد|تة |تتح|تحت|تدا|تدف|تزا|تست|تصا|تعذ|تفق|تفك|تقا|تقي|تلق|تمر|تنظ|توج|توط|تول|تى |ثاب|ثرو|جار|جد |جدي|جزه|جغر|جنا|جو |جية|حاط|حت |حتى|حجز|حدي|حر |حرر|حزم|حشي|حظر|حها|خاء|خاذ|خري|خصه|خول|داد|دره|دفع|دفه|دلا|دمً|دها|دوا|دي |ديا|ذاع|ذت |ذيب|رء |راؤ|راب|رار|راس|راً|ربو|رر |رف |رفع|رفه|رنو|روة|روح|ريض|رين|زدر|زع |زمت|زه |ساط|ستب|ستع|سح |سرا|سعى|سفي|سمع|سه |سيل|سيم|شاط|شر |شرف|شري|شعا|شية|صاد|صاف|صاي|صب |صة |صر |صفت|صلة|صه |صور|صوص|ضاع|ضاه|ضطر|ضعي|ضلا|ضهم|ضوا|ضيت|ضًا|طان|طر |طرا|طرد|طلا|طيد|ظرا|ظلم|ظم |عائ|عاة|عاً|عبا|عبي|عتد|عتن|عدل|عذي|عرا|عضه|عضو|عضً|عطل|عقل|عهم|عى |غاي|غة |غنى|فإن|فئة|فاق|فاً|فته|فرا|فزع|فسح|فصل|فضل|فضي|فعا|فق |فكا|فكي|فلن|فية|قا |قاء|قات|قاس|قاع|قبض|قتص|قدر|قضي|ققا|قلة|قهم|قي |قيه|كال|كبر|كدت|كنه|كهذ|كير|كيل|لآخ|لآر|لأص|لأف|لأن|لأه|لأي|لإج|لإخ|لإد|لإس|لثا|لثر|لجغ|لحا|لحد|لذا|لسا|لطا|لظل|لعد|لغة|لفا|لفز|لفص|لكب|لكي|للإ|للغ|للف|لمش|لمم|لمن|لمّ|لن |لنم|لهذ|لوص|لوض|لوف|لون|ليس|مت |متأ|متك|متم|مجي|محك|مر |مرء|مرد|مره|مشت|مطر|معا|معت|معق|منح|منص|ميث|ميل|مًا|مّا|نائ|ناد|ناك|نبا|نبث|نة |نتم|نحه|نشا|نص |نصا|نصب|نصو|نظم|نفي|نو |نى |نيا|هبو|هد |هدت|هدم|همج|همي|هنا|هو |هيئ|وأي|وإذ|وإق|وات|واز|واض|وام|وبا|وبح|وبك|وة |وتج|وتل|وجد|وجه|وح |وحز|وحش|ورة|وسل|وسم|وسي|وشع|وص |وصا|وضا|وضد|وضم|وطي|وعا|وفا|وفض|وقا|وكا|ولد|ولك|ولل|ومو|ونظ|وهب|وهي|ويح|ويل|يئة|يان|ياً|يب |يتح|يتف|يتم|يتو|يثا|يحظ|يدة|يدت|يرن|يرً|يسع|يض |يضط|يلة|يله|يمن|ينم|ينه|يهد|يهم|يول|يُخ|ُخل|ّا ",
+    fa: " و | با|ند | حق|که | در| که|در |رد |دار| دا|از |یت | از|هر | هر|حق |ای |ود |ین |کس | را|ارد|ان | خو| کس|را |یا | بر| آز| یا|آزا|باش|شد |ار |ده |زاد| اس|ید | آن|خود|رای|ری | ان|دی |ور |اید| اج|اشد| نم|تما|حقو|قوق| تا| من|ادی|ام |نه |وق |است|انه|مای|ایت|با | کن|ست | بی| هم| ای| مر| شو| مو|ات |ون |کند|آن |برا|می | زن| مل|انو|جتم|عی |های|وان| به| کا|اجت|دان|ماع|نی |ورد| آم| می|ئی |اسا|این|بای|شود|کار|یگر| شد| عم| مس| گر|ائی|شور|ملل|وی |گرد|گی | بد| بش| مح| مق| کش|اری|اعی|اه |توا|دیگ|مین|کشو| اع| شر|ادا|اده|انی|رند|مل |مور|یه | اح| حم| مت|اد |ره |ساو|هد | مج| هی|بشر|بعی|خوا|زش |لل |لی |مقا|نمی|هٔ |هیچ|ومی| او| دی|آمو|ارن|انت|جام|حما|ران|عمو|عیت|مند|موز|موم|میت|نما|نوا|نون|وزش| ها|او |اوی|أم|تأ|تخا|تی |دد |دیه|ردد|زند|ساس|سان|شده|مسا|نجا|ندگ|همه|واه|ٔمی| ار| بم| خا| قا|اب |اسی|اً |بر |بهر|خاب|دگی|رفت|رور|سی |علا|قان|لام|مه |نتخ|یر | فر|ابع|بین|دوا|ردا|شرا|ها |هره|واد|یتو|یده|یل | بع| بو| تع| تم| تو| رف| شخ| عق| ما| پر|اجر|احد|ازد|اشن|اعل|امل|اند|انس|اهد|ایط|تاب|ته |حد |حدی|خان|خور|رار|رش |سائ|شخص|شر |شند|طور|عقی|عه |مال|مام|مرد|ملی|نسا|ورش|پرو|یط | ام| تش| شن| مخ| یک|ابل|اج |ارا|اقع|الم|بدو|بل |بی |تها|دون|ردی|شنا|قاب|قع |له |مجا|مرا|نند|واق|کلی|گر |یما|یها|یک | تس| جم| لا| مذ| نظ| وا|اتی|اع |ال |امع|برخ|بوس|تا |تحد|تشک|جا |جرا|حدو|خصی|دم |دود|ذهب|راد|رت |رخو|رکت|زدو|سیل|شرک|شکی|فت |قرا|لیه|متح|مذه|نین|واج|وسی|وع |وم |چنی|چه |کام|کت |کیل|یرد|یله| ال| بط| تب| جا| دو| عل| قر| وس| کر| کل|آنج|ئل |ائل|ابر|احت|اره|ازم|امی|بطو|تار|تبع|ترا|تعل|تفا|داد|دگا|رها|زن |ضای|عمل|فاه|میه|نوع|هائ|هنگ|ودی|وری|وسا|کرد|گان|یان|یچ | اب| اخ| اد| بت| بخ| جر| حی| ده| رض| رع| هن| پی| چه| گی|اخت|اخل|اش |انج|باز|بت |به |بور|تسا|جرم|جمع|حتر|خصو|خلا|دسر|دهد|دید|راب|رام|رضا|رعا|رم |روم|سرا|شون|صوص|صی |صیت|عای|عنو|عیض|فرد|قید|لاز|للی|لمل|لیت|مات|ماد|مت |محد|محر|معه|موا|مچن|میب|ناه|هم |همچ|ودس|ول |وند|کنن|گاه|گرا|گیر|یبا|یته|یز |یم | ات| تف| رو| طر| مد| مع| نخ| نژ| وض|ادر|اشت|امت|امو|بات|بار|بیک|تدا|تضم|حیث|دائ|داش|دهٔ|دیت|ردم|رهن|زم |صفا|ضع |ضی |علی|فان|فره|قام|قل |مان|معی|منا|منص|مود|موق|ناس|نخو|ندا|نصف|نمو|نژا|نگی|هب |وار|وضع|وقع|ژاد|کان|کن |یضی|یکن| اش| اص| اف| اق| بن| تح| تر| تق| حا| دف| رش| سا| شک| صو| طب| عد| نا| نس| نو| پن| کم| کو|ابا|ابت|اتح|ارت|اشو|اصد|اصو|اعا|اعم|افع|اقب|الف|الک|الی|اهم|أی|اکم|بال|بتد|بخش|برو|بعن|بمو|بوط|تحا|ترک|تعق|توس|تکا|تیک|جاز|جه |حاد|حرو|حکو|خال|خته|خشی|داخ|دت |دری|دفا|دنی|دول|دکا|راق|رأ|ربو|رتک|رده|رشد|رفا|روی|ریا|ریق|زد |زنا|سبت|ستف|ستق|سعه|سهی|سیا|شوئ|شی |صد |صور|صول|طبی|طری|عات|علم|عما|فاد|فاع|فتا|فرا|فع |فه |قاص|قبت|قی |قیب|لات|لف |لمی|لکی|لیم|مخا|مرب|مست|میش|ناخ|ناش|ناف|نسب|نیا|هنر|هی |وئی|ودک|ورت|وسع|وصی|وط |ونه|ویت|ٔی |پنا|چکس|کاب|کود|کوم|کیت|گون|یاس|یب |یچک|یکا| آی| بح| تغ| جه| حس| خل| دع| ذی| شئ| صل| طو| عض| غی| فع| فق| مب| نب| نی|آمد|آنه|آید|ئون|ادو|ادگ|ازا|اس |اضر|اعض|اف |افت|افر|اقا|اقت|انن|اهی|اوا|بتن|بتو|بدن|بع |بعل|بیم|تر |تغی|تنی|ثر |جب |جبو|جها|حاض|حت |حسن|خص |دا |دتر|درب|دست|دعو|دوس|ذیح|ذیر|رات|راه|ربا|رج |رسی|زات|ساز|ستا|سن |شئو|شت |شته|شرف|شری|شکن|صلح|ضر |ضمن|ضو |ظر |عال|عاً|عدا|عدم|عضا|عضو|عقا|علق|عوا|غیر|غیی|فته|فعا|فی |قای|قعی|لاف|لت |لح |لق |لهٔ|ما |مبت|متض|متع|مجب|مخص|مرو|مع |معا|مله|من |منش|منف|موج|مک |مکا|میک|ناً|نبا|نجه|نظر|نظم|نفر|نها|نگا|نیت|نیز|هان|هبی|هدا|همی|وات|وای|وجب|وره|وست|ولت|پذی|پیش|چگو|کر |کمک|کمی|کنج|کی |گرف|گری|یات|یث |یح |یحق|یشر|یق |یند|یهٔ|یچگ|یکه|ییر| آب| آث| آو| اث| اک| بج| بز| تد| تص| تض| تک| جس| جو| حد| حر| حف| حک| خد| خص| دس| دم| ذک| رس| رک| سط| سل| سه| سی| شا| صح| صد| عب| فن| فو| قد| لح| لز| مش| مم| نق| نگ| هد| وج| وظ| وق| پد| پذ| چن| گذ| گن|آبر|آثا|آمی|آنر|آنچ|آور|ئد |ئیس|اء |ائد|ااق|ابی|اثر|اجب|اخذ|ادت|ارج|اسم|اطت|اظ |اغل|افق|اقل|اقی|الغ|امر|امن|انح|اهگ|اول|اک |ایم|باس|بتع|بته|بجر|بحد|بدا|بدی|برد|برس|برن|بزه|بشو|بعم|بمح|بمز|بمش|بمن|بنا|بنم|بهم|بیا|بیع|بیو|تجو|تحت|تری|تسه|تصم|تضی|تع |تعد|تعه|تقص|تقل|تقو|تقی|تمت|تهم|تکم|تیا|ثار|ثیت|جان|جبا|جدا|جرت|جری|جست|جمل|جو |جوی|حاظ|حاک|حرز|حرف|حسو|حصر|حفظ|حقی|حل |حلا|حمل|حیح|خار|ختی|خدم|خذ |خفی|خل |داق|داً|دای|درا|درت|دما|دمو|دند|دهن|ذشت|ذکر|راز|راس|راع|راً|راک|ردن|ردگ|رز |رزن|رسا|رفه|روح|رک |رکن|رکی|رین|زار|زه |زوم|ساط|ساع|سال|ساً|ستج|ستع|ستی|سر |سطح|سلا|سم |سوب|سکن|شأ |شار|شاغ|شام|شتر|شدی|شوه|شکل|صحی|صدا|صرا|صمی|صیر|ضاء|ضمی|ضیا|طت |طح |ظم |ظور|ظیر|ظیف|عاش|عبو|علل|عهد|غل |غی |فرز|فظ |فق |فقط|فنو|فوا|قت |قتض|قتی|قدر|قص |قصی|قط |قعا|قه |قوی|قیم|لاا|لاق|لال|لحا|لزو|لغی|لمت|لوی|مار|متم|مته|متی|محس|محل|محک|مخف|مد |مدا|مدت|مده|مدی|مزد|مسک|مشا|مشت|معن|مقت|ملا|منح|منظ|منی|مهٔ|موک|مگا|میا|میز|میس|میل|میم|میگ|نا |نائ|نحص|نحل|نرا|نره|نری|نشأ|نظو|نظی|نقص|نهٔ|نوی|نچه|همد|همک|همگ|هند|هگا|هیل|هیم|وائ|واس|واف|وب |وجد|وح |ورا|وظی|وقت|وقی|ولو|ومت|ومن|ونا|وهر|وکر|وگی|وید|پدر|پیر|کرا|کمل|کنو|گام|گذش|گنا|یار|یاف|یتی|یثی|یدت|یرس|یری|یست|یسر|یشد|یشو|یعی|یفه|یقه|ینی|یوگ| آخ| آر| اض| اط| اظ| اه| إ| بآ| بب| بق| بگ| تج| ثر| جز| جن| حب| دن| ذا| رج| رن| زب| ست| سر| صا| ضد| ظا| ظل| ظه| فا| فش| فک| قض| قل| قی| مز| مک| ند| هس| وح| ول|آخر|آرم|آما|آنا|آنس|ئما|ئیک|ائم|ابد|ابط|اتب|اتر|اته|احظ|اذ |ارز|ارغ|ارک|اسخ|اضط|اطل|اظه|اغت|افک|اقض|الا|الت|الح|الز|الس|اما|اوز|اوه|إت|اپذ|ایز|ایش|بآن|بان|باو|ببر|بتم|بحق|بخص|بخو|بد |بدس|بده|برق|بس |بشک|بط |بعص|بقی|بهت|بوج|بود|بگذ|بیت|بیر|تان|تبا|تجا|تحر|تحق|تد |تدر|ترب|ترس|تشا|تشو|تصا|تفر|تفس|تقا|تمع|تن |تند|تهی|توج|توق|تگا|ثرو|جاه|جاو|جدد|جزا|جمی|جنس|جود|جوع|جی |حبس|حری|حشی|حظا|حه |حیا|حیط|خاذ|ختا|خری|خله|داب|دال|ددا|درج|دمخ|دین|ذات|ذار|راح|راغ|راف|ربی|رجو|رخص|ررا|رزش|رزم|رزی|رس |رسم|رغ |رفی|رقر|رما|رنگ|رو |روا|روت|رکا|ریت|ریج|ریح|ریک|زائ|زام|زبا|زبو|زما|زمه|زمی|زی |سب |ستد|ستر|ستن|سخ |سرز|سمش|سوی|سید|سیر|شتن|شوی|شیا|صا |صاد|صال|صیا|ضائ|ضد |ضطر|طرا|طرف|طلا|طی |ظات|ظال|ظلم|ظمی|ظها|ظهو|عصی|عقل|عقو|علن|عید|غت |فار|فری|فسی|فشا|فقر|فکا|فکر|قال|قتص|قر |قرر|قض |قضا|قلم|قول|قیا|قیر|قیف|قیو|لاج|لاح|لاد|لاع|لاو|لتی|لحه|لزا|لسو|لم |لما|لمر|لنا|لیِ|متگ|مجت|مجد|مجم|محا|محی|مخت|مرخ|مرز|مزب|مش |معق|مقر|ممن|ممک|منت|منو|موه|مؤ|مکن|مید|میع|ناب|ناق|نان|ناپ|نتش|نتق|نته|ندر|نس |نست|نشو|نگ |نگر|نگو|هار|هام|هتر|هدت|هست|هن |هور|واب|وت |وجه|وجو|وحش|ودم|وده|ورن|وز |وص |وصا|ولا|وه |وهن|ؤث|ویق|ویه|ٔثر|ٕتخ|پید|چیک|کات|کدی|کسا|کسب|کم |کما|گذا|یائ|یاب|یام|یای|یجی|یدا|یدگ|یش |یض |یطی|یع |یف |یلا|ینگ|یوم|یِ |یچی|یکد|یکس|یکی",
+    ug: " ئا| ھە|ىنى|ىلى|نىڭ| ئى| ۋە| بو|ۋە |ىڭ |ىن |بول| ھو|قۇق|وقۇ|ھوق|نى |قا |قىل|ەن |لىك| ئە|شقا|لىش| قى|ھەم|ئاد|دەم|ادە|ىغا|ىي |غان|كى |ىشى|ەت | بى|دىن|تىن|لىق|گە | تە|ندا|ىش |لەت|ىدى|ولۇ|ۇق |غا |ىگە|ەم |كىن|ىكى|قان|ىتى| با|اند| دۆ|دۆل|دە |نلى|لۇش| ئۆ| قا|مە |ھەر|ئەر|لۇق|ممە|ەمم|ىلە|ۆلە|ۇقى|اق | بە|ان |ىشق|ەرق| يا|ركى|لغا|مەن|ىق |ەرك|ارا|دا |رىم|لار|ار |رقا|شى |داق|ىلا|ۇقل|دۇ |نىش|ەر | مە|ىك |ئار|قلۇ|لىن|ىمە|ەھر| ئې|ئۆز|اكى|لەن|ياك|كە |لەر|ھرى| كې|ئىي|بىل|بەھ|ەتل| ئو|اسى|ىنل|ەك | ئۇ|رلى|شكە|ۇشق|ئىگ|ايد|تنى|يەت|بىر|قى |مائ|ەشك|بار|ولم|ارى|الى|ماي|ىدا|يدۇ| مۇ|ائى|لما|ۇشى|ەمد| قو|انل|كىل|ىيە|ېلى| تۇ|ئال|اۋا|تلە|راۋ|رنى|قىغ|مدە|ىپ |ۆزى|ئىش|رەك|سىي|كېر|لىد|ىرى|ىقى|ېرە| جى|ىسى|ىشل|ېتى|ەتت| ما|اسا|اشق|جىن|ساس|شلى|لەش|منى|چە | جە|ادى|اش |ايى|باش|تىد|مەت|ناي|ىما|ىنا|ېرى| سا| ھۆ|ارل|الغ|تى |تۇر|ۇنى|ەلى| خا|ئاس|انۇ|تەش|سىز|كەن|لىم|نۇن|ىر | تو| خى| خە|ئېل|ائا|انى|تىش|دىل|رىش|شىش|گەن|ۇش |ەمن| تا| تى| كا| پا|ئىل|اتن|اتى|اپا|تتى|تىم|تەۋ|زىن|سى |شكى|قتى|كاپ|مۇش|ىرل|ىيا|پال|ۇرۇ| ئۈ| دە| كى|ئىج|الە|تەر|رقى|سىت|نىي|ولغ|ىز |ەۋە|تلى|جتى|خەل|دىغ|شۇ |قات|كىد|مىن|ولى|ىجت|ىكا|ىل |ىم |گىل|ۇند|ۈن |ەتن|ەلق|ەلگ| بۇ| بې| تې| يو|ئاش|ارق|اپ |اۋە|تكە|دىك|رلە|رىن|رىپ|رۈش|شىل|قار|قوغ|كىش|لىت|لىر|مئى|ىدە|ىمى|ىيى|چۈن|ھۆر|ۆرم|ۈرۈ|ۈچۈ|ۋەر|ۋەل|ەرن|ەمئ| سۈ| شۇ| قە| كە|ئىر|ئۈچ|امى|را |زگە|قلى|قىن|يى |ھەق|ۋال|ەتك|ەقس|ئۇن|اقل|ال |الل|بېر|تىل|تە |جەم|رمە|شلا|شنى|قاي|قنى|كار|كلى|لات|لان|نغا|نىك|وغد|ىدۇ|ىرا|ىشك|ىلد|ىلم|ىنس|ىپى|ۇن |ەرە|ەپ | دى| زۆ| زې| شە|ئوم|ئېت|ئەت|تىر|تىگ|جەھ|دار|ردى|رۈر|زۆر|زېم|سىد|سىن|سۈر|شتى|شۇن|قسى|لا |لاش|لمى|لگى|مۇم|مەق|مەل|نام|ومۇ|ىچە|ىگى|يىت|چەك|ھەت|ۆرۈ|ۆز |ۇرم|ۇشۇ|ۇلا|ېمى|ەكى|ەمە|ەند|ەھە| جا| لا| نى| ھا|ئاۋ|ئۆت|ئەم|اشۇ|ايا|تا |تېگ|خىل|رتى|رمۇ|رىي|رۇش|زەت|ساق|سلى|شىن|قال|قلا|كاھ|للا|لىغ|لىي|لگە|نلا|ىقت|ىنغ|ىڭد|يان|يول|گىش|ۇرى|ۇم |ۈر |ۈزگ|ۈش |ۋان|ېگى|ەقى|ەكل| قې| چە| گۇ|ئائ|ئاي|ئوخ|ئىن|ئۇل|ئۇچ|ئەھ|ابن|ارن|از |اسل|الا|بنا|بوي|بەل|تاب|تىك|خال|خشا|خىت|داش|دەپ|راپ|رىد|رىك|رىل|زى |شاش|شىغ|شىپ|كتى|لاي|لاپ|لى |لىپ|لىگ|لۇك|لۈك|لە |ماد|ملى|مەج|وخش|ويى|ىتا|ىزز|ىشن|ىكت|ىلغ|ىۋى|يىچ|پار|پنى|ھۋا|ۇل |ۇلۇ|ۇمي|ۇپ |ەنى|ەھۋ| سە| مۈ| پە| چۇ|ئات|ئىت|ئىز|ابى|اشل|الد|انغ|اي |ايس|ايل|اھ |بىئ|بۇن|تال|تتە|تكۈ|توي|تىپ|خاس|دەك|راد|ززە|سان|ستى|سىل|سىپ|شسى|شقى|شۇر|شەك|غدا|قوي|قىي|قۇل|قەت|كنى|كۈز|كۈم|لام|لقئ|للى|للە|لىل|لۇپ|مسى|ناھ|ندە|ويۇ|ىجى|ىشت|ىشس|ىكن|ىلل|ىۋې|يال|يسى|يۇش|پى |چىل|چۇش|ڭدە|ھۆك|ۆتك|ۆكۈ|ۆلى|ۇسى|ۇك |ۇلغ|ۇچر|ۇۋا|ۋاب|ۋاز|ەرت|ەرد|ەرل|ەرى|ەنگ| اس| زى| سو| قۇ| يۈ| يې| ۋا|ئەس|ارد|ارە|ازى|اما|انك|انچ|اپى|بۇ |بۇر|تىي|جبۇ|جۇم|دان|دىي|رمى|رى |رىغ|رگۈ|رۇھ|زا |زلى|زىي|ستە|قئا|ككە|كەش|كەم|لدى|لدە|مىش|مىي|مىگ|ميۈ|مۇۋ|مۈل|مەي|نسا|نسى|نكە|نىد|نچە|ورا|ىرق|ىقن|ىكە|ىنچ|ىپن|يلا|يىس|يۈر|ۇرا|ۇمل|ۇنا|ۈرگ|ۈشى|ۈك |ەجب|ەسى|ەش |ەشل|ەل |ەمس|ەنئ|ەيت| دۇ| زو| شا| پر| چى|ئان|ئور|ئىد|ئىچ|ئۆي|ئۇي|ئەز|ئەي|ادد|ازا|است|ام |امە|انا|ايە|اپل|اھس|اھل|اھى|بال|بىق|تاۋ|تول|تۇغ|تۇل|تەڭ|خار|ختى|ددى|دىد|دىس|دۇر|دەر|رائ|رات|ردە|رقل|رىج|رۇم|رۇن|رەپ|زور|زىم|زگى|سال|ساي|سوت|سىۋ|سەت|سەر|سەن|شار|غدى|غۇ |غۇل|غۇچ|ققا|قلە|قىد|قىق|قېل|كېت|كېل|كەس|لاز|لاھ|مىت|مىد|مىغ|مىل|مۇ |مۇس|مەھ|نئە|ناس|ندى|نغۇ|ننى|نىل|نپە|نگە|وشۇ|ول |وي |ىئا|ىئى|ىبا|ىزل|ىكل|ىلگ|ىمۇ|ىچى|ىڭغ|يات|يار|ياس|يتى|يدى|يىغ|يۇل|پان|پرى|پىغ|پەر|چرى|ڭغا|گىد|گۈز|ھاس|ھرۇ|ھسى|ھلى|ۆي |ۇتۇ|ۇرل|ۇشك|ۇغۇ|ۇيۇ|ۇچ |ۈلۈ|ۈمە|ۋى |ۋىت|ۋېت|ەدە|ەزا|ەسە|ەق |ەقق|ەنل|ەنپ|ەي |ەڭ | جۇ| دا| دو| را| سى| كۆ| نە| ىگ| يى| ۋى|ئىق|ئىپ|ئۈس|اتا|اتق|اجى|اد |اشك|اقت|اكت|ايت|بىك|تئى|تقا|تلۇ|تىب|تىغ|تىق|تۇت|تېر|تەس|تەن|جاز|جدا|جىس|دقا|دوس|دىر|دۇن|دۈر|دەن|راق|راك|رلۇ|رىس|رە |رەق|رەل|زلۈ|ساد|ستل|شكا|شىد|غىن|قاد|ققى|قىس|قىم|قېر|قەر|قەي|كتې|لاق|لدۈ|لق |لقن|لكى|لمە|لىس|لچە|لۇم|مدى|مكا|مۇن|مۇھ|مەد|ندق|ندۇ|نمە|نىن|نيا|نچل|وست|وچۇ|ىجد|ىرن|ىس |ىشچ|ىغى|ىقا|ىكك|ىند|ىپا|ياش|يت |يرى|يلى|يىب|يۈز|يېت|پائ|پاد|پىق|پىي|چلى|چىق|گىر|گۇر|گەر|ھىم|ۆتۈ|ۆزگ|ۇست|ۇشن|ۇقت|ۇمى|ۇنل|ۇني|ۇھ |ۈزل|ۈست|ۈشك|ۈلك|ۋاج|ۋاس|ۋاق|ۋاپ|ۋىج|ۋەك|ەتئ|ەتى|ەتە|ەدى|ەشت|ەلل|ەنت|ەنم|ەيى| ئر| ئق| اد| جو| دې| رە| شې| غە| كو| كۈ| نا| ىز| ىش| يۇ| يە| پى| پۇ| ھۇ| ھې| ۇن|ئام|ئاپ|ئرز|ئقل|ئو |ئوب|ئوز|ئول|ئوڭ|ئىخ|ئىس|ئىم|ئېر|ئېغ|ئېچ|ئېھ|ئەخ|ئەق|ئەل|ائە|اتل|اج |ادم|ادۇ|ارت|اس |اسق|اشت|اغۇ|اقا|اقۇ|ايق|اۋۋ|باس|باي|ببۇ|بدا|بلە|بو |بىۋ|بۇس|بېچ|بەد|تار|تام|تاپ|تبى|تتا|توخ|تور|تىج|تىز|تىۋ|تچى|تۇش|تۈر|تۈش|تېخ|تېپ|تەب|تەت|تەد|تەق|تەل|جاد|جام|جاي|جرۇ|جوم|جىد|جىغ|جىگ|خسى|خلا|خنى|خىز|خەت|خەم|داۋ|دمن|دىئ|دىش|دېم|دەل|راغ|رام|راي|رز |رزە|رسى|رسە|رق |رلا|رپى|رگە|رۇل|رەت|زدە|زلۇ|زمە|زىگ|زۈش|زەر|زەل|زەن|سا |سقۇ|سىس|سىگ|سيا|سپى|سۈپ|سە |سەل|سەۋ|شتۇ|شقۇ|شلە|شمۇ|شىك|شچى|شۇش|شۇم|شېر|شەب|شەخ|شەن|غىر|غىل|غەي|قسە|قور|قوش|قىر|قۇر|قۇچ|قەد|كا |كرا|كلە|كوچ|كىر|كىي|كىگ|كچى|كۈچ|كېس|كەت|كەل|لتۇ|لدا|لسا|لسە|لغۇ|لىى|لىڭ|لەق|ماق|مال|مام|ملۇ|موك|مى |مىس|مىك|ميۇ|مچە|مۇئ|مۇل|مەز|مەس|مەك|نبى|نتل|نكا|نكى|نلۇ|نلە|نىم|نىۋ|نچ |نگى|نۇم|نەت|نەز|وبد|وتت|وخت|ورل|ورم|ورۇ|وزى|وغى|وقا|وكر|ولت|ولس|ومل|ويل|وڭچ|ىبل|ىتە|ىجا|ىخت|ىرد|ىزم|ىزگ|ىزە|ىسا|ىقل|ىقە|ىكچ|ىلس|ىلچ|ىمل|ىنب|ىنك|ىنن|ىى |ىين|ىۋا|ياج|ياۋ|يقل|يوش|يوق|يىق|يىم|يۇز|يۈل|يېم|پاي|پلا|پلى|پىت|پىد|پىز|پىك|پىل|پۇر|پەئ|پەت|پەن|چتا|چرا|چىد|چىگ|چىۋ|چۇن|چەي|ڭدى|ڭچە|گىن|گىچ|گۇز|گۇن|ھاپ|ھتى|ھلا|ھىد|ھىي|ھۇج|ھېچ|ۇجۇ|ۇرس|ۇز |ۇزل|ۇزە|ۇشم|ۇقق|ۇقن|ۇلل|ۇمچ|ۇنك|ۇنن|ۇنۇ|ۇچت|ۇھا|ۇھل|ۈزۈ|ۈكك|ۈم |ۈپى|ۈچە|ۋىي|ۋۋا|ۋېل|ۋەھ|ېخن|ېسە|ېغى|ېلا|ېمو|ېمە|ېپى|ېچ |ېچى|ېچە|ېھت|ەئى|ەبب|ەبى|ەتب|ەتچ|ەجر|ەخس|ەخل|ەرز|ەرپ|ەرگ|ەزگ|ەزە|ەسپ|ەشە|ەقت|ەلۇ|ەمك|ەيد|ەير|ەپن|ەھى|ەۋى| ال| خۇ| رو| رې| زا| زۇ| سي| سۆ| سۇ| سې| شۆ| غۇ| مو| ىج| پۈ| چو| چې| ۈچ|ئاز|ئاى|ئوچ|ئى |ئىا|ئىب|ئىك|ئۆل|ئۆم|ئۇس|ئۇم|ئېق|ئېن|ئەۋ|ابب|اجل|اخس|اخى|ادا|ارز|ارس|اسي|اشا|اغا|اغل|اقى|اقە|اكا|امر|امن|اىل|اير|اپب|اپت|اپپ|اچق|اۋى|اۋۇ|باب|باد|باغ|باپ|ببا|بنى|بىخ|بىي|بۇز|بۇل|بەخ|بەن|تاق|ترا|تسى|توز|توغ|تون|تىس|تۈن|تەك|جاق|جلى|جىي|خس |خش |خپى|خۇس|دائ|داخ|دام|دبى|درى|دىگ|دۇچ|دەت|دەش|راش|رال|ران|ربى|رتا|رتك|رزۇ|روھ|رىت|رىگ|رۇر|رۇپ|رېئ|رەن|رەڭ|رەھ|زاس|زاغ|زال|زان|ززى|زىت|زىد|زىر|زۇس|زۇش|زۇل|زۇم|سما|سور|سىر|سىغ|سي |سۆز|سۇس|سۇك|سېت|شاي|شىي|شىۋ|شچا|شۆھ|غاي|غاچ|غرى|غق |غلى|غۇر|غۇز|غە |قئى|قاق|قتا|قوب|قول|قىت|قىش|قۇت|كال|كان|كدى|كسى|ككۇ|كىت|كۆت|كۆر|كۆز|كۇت|كۇل|لاج|لاك|لتى|لتۈ|لدۇ|لغە|لقى|للۇ|لىۋ|لۇۋ|لەي|لەپ|ماز|ماس|مان|مرا|مرى|ممى|موئ|مىز|مۇد|مۇر|مۈن|مەخ|مەر|مەم|نئى|ناش|نت |نوم|نىق|وئا|وبۇ|وتن|وتى|ورت|ورن|وزۇ|وغر|ومى|ونو|وڭ |وھ |ىار|ىبن|ىخە|ىد |ىزد|ىسم|ىسي|ىغق|ىغۇ|ىقق|ىكد|ىلت|ىمس|ىمك|ىمم|يا |ياخ|ياق|يتا|يدا|ينا|ينە|يىۋ|ييە|يۇر|يۇك|يە |يەن|پبا|پتو|پپا|پۈت|چار|چان|چقا|چوڭ|چىڭ|چۇر|چۇق|چېك|چەم|ڭگى|گى |گۈن|ھاز|ھاق|ھال|ھاي|ھشى|ۆرس|ۆزد|ۆزل|ۆلچ|ۆم |ۆھر|ۇئا|ۇئە|ۇت |ۇدا|ۇر |ۇرت|ۇزۇ|ۇسۇ|ۇشە|ۇكس|ۇكى|ۇكۇ|ۇلى|ۇمد|ۇمن|ۇچا|ۇچۇ|ۇھى|ۈتۈ|ۈرل|ۈرى|ۈرۇ|ۈنا|ۈنل|ۋات|ۋاك|ۋج |ۋرە|ۋۇز|ېئا|ېرل|ېقى|ېكى|ېنى|ەتر|ەتس|ەخش|ەخپ|ەدب|ەدر|ەرب|ەرۇ|ەس |ەست|ەسل|ەكك|ەلت|ەلە|ەمر|ەمۇ|ەيي|ەڭگ|ەھش|ەۋج|ەۋر",
+    ur: "ور | او|اور|یں |کے | کے| کی| کا| حق|کی |کا | کو|ئے |نے |سے |کو |ہے |یا | ہے|میں| می|وں | ہو| شخ|شخص| اس| ان| سے| کر|حق | جا|خص |ہر | ہر|اس |ہیں|سی |ام | یا| آز|آزا|ائے|ادی|زاد|ری |جائ|ہو |دی |ان |گی | مع|ار | پر|پر | کس|کرن| حا|کہ | جو|کسی| ہی|جو |رے | نہ|تی |رنے| ای|ئی |نہ | مل|حقو|قوق|نی |وق | اپ|اصل|اپن|حاص|صل |معا| تع|سان| گا|ایس|نہی|گا |یت | دو| لئ|لئے|وہ |کیا| بن| قو| کہ|اشر|انس|انہ|عاش|قوم|نسا|اد |مل |ملک|می | وہ| گی|ائی|ات |لیم|یم | قا| و |دوس|دہ |وام|یہ | با| جس| مس| یہ|انے|تعل|دار|علی|وری|یوں| عا| من|اقو|جس |خلا|قوا| سک| مر| پو|ائد|انو|انی|دگی|ریق|لک |ندگ|نیا|وسر|ومی| اق| شا|ادا|اری|دان|سب |نا |یاد|یسے|ین | بچ| بی| رک| طر|اف |بر |رائ|رتی|ون |پور|کر |ہوں|یر | بر| خل| دی| ذر| مح| پی|ال |اوی|بنی|جا |ذری|رکھ|ریع|ساو|قان|لاف|لاق|مسا|من |نون|وئی|وی |پنی| زن|امن|اہ |تا |دیو|زند|شرے|عام|علا|غیر|ود |پنے|گے | ام| بھ| تح| رو| عم| لی| مق| چا|اح |امل|برا|تحف|شرت|عمل|مت |ورا|کام| تم| جر| را| سا| عل| مت| مم| کئ| گے|است|اسے|الا|انت|بھی|تحد|تما|حدہ|رام|طری|قی |مام|متح|نکہ|ونک|کئے|کوئ|ھی |ہوئ|یاس|یسی| اع| ال| تر| خا| طو| فر| مذ| مف|ئم |ائم|ابر|اسب|الت|امِ|امی|اند|اً |بات|بنا|بند|حفّ|دوں|ذہب|راب|روز|رہ |زگا|شام|طور|عیا|فری|فّظ|لت |مذہ|منا|مِ |میت|ناس|نتخ|نکا|وزگ|وقت|ول |ونے|ّظ |ّہ |گار|ہون|یار|ینے| اح| اخ| بغ| بے| تو| خو| عو| نظ| چو|ئد |ابت|اج |احت|اسی|اعل|انج|اں |اہر|بے |تدا|ترا|جرم|حقد|خصی|داد|دے |رضی|رم |سرے|سکت|صد |صیت|ضی |عے |قدا|مرض|نشو|نما|وئے|وم |پیش|چاہ|چون|کار|کرے|کم |یعے|یق | بہ| تب| تف| سب| سر| شر| ضر| عد| عق| فو| لا| ما| نک| پا|ائن|اب |اخل|اقت|بغی|بین|تخا|تفر|توں|تیا|جان|جمن|حتر|حرو|خاب|دال|در |دین|را |ران|رف |رمی|روا|رور|روم|زت |ست |سلی|شاد|صول|ضرو|ظام|عدا|عزت|فائ|قائ|قے |لی |لین|مار|محر|مفا|ناہ|نجم|ند |وائ|پنا|کاح|یال| اد| اُ| اہ| بڑ| حد| حر| حص| در| رہ| سی| مط| نس| نش| وا| وق| گئ|اؤ |ابق|ابن|ازم|اہم|اہے|بار|بتد|بق |بچا|بڑھ|بی |بیا|ترق|تے |حدو|دا |دائ|دیا|رتو|ردو|رقی|روں|سائ|سرو|سیا|شوو|طاب|عائ|عال|عقی|عور|قید|لان|لکو|لے |ما |مرد|مست|مطا|مقا|موں|ندر|ندی|نسل|نوں|ورت|ومو|ونم|وون|پاب|پید|چاؤ|ڑھا|کتا|کرا|کن |کوں|کھن|ھنے|ہب |ہی |یان|یدا|یدے|یش |یقے|یل |یک | اب| اض| اف| اٹ| تس| تن| حک| دہ| ری| شم| ظا| عز| عی| غی| فا| فل| پن| کم| گر| گھ|ئدا|ئدہ|ئنس|ئیں|اتھ|اخت|ادب|ارت|اصد|اضا|افع|افہ|اٹھ|اک |اہل|باہ|بلی|بود|بہب|تاً|تبد|تسل|تعز|تفی|تو |تھ |تیں|جہ |جی |حال|حکو|خان|ختی|دبی|دود|دہن|رنا|رکت|ریا|زیر|سات|ستف|ستی|سکے|شما|ضاف|ضام|طرف|عزی|عقو|فاد|فعا|فلا|فہ |فید|قاص|قت |قتا|قول|لات|لاح|لتی|لنے|لیا|مان|مبر|مدا|معق|معی|ممب|ممک|منی|مکن|نظا|نیں|وجہ|ومت|ّی |ٹھا|چّہ|کاج|کت |کرت|کوم|کھت|گئے|ھا |ھان|ہبو|ہل |ہند|ید |یری|یقی| آ | آئ| ار| اص| اک| اگ| تا| تص| ثق| جب| جن| حی| دن| رس| زب| سل| ضم| قد| قس| لو| مج| مش| مص| مو| مِ| وج| پہ| کھ| یک|ئیو|ادہ|ارر|ارہ|ارے|اشت|اصو|افت|اُن|اکم|اگر|ایا|بت |بدی|بور|تبل|تنہ|ثقا|ثیت|جبر|جبو|حاک|حت |حرم|حض |حفو|حیث|خوا|درم|دست|دنی|دیل|دیٔ|ذا |رار|راک|ررو|رمت|روہ|رگر|ساں|سرگ|سری|سل |سلو|سم |شہ |صفا|ضمی|ظاہ|عاو|علم|عہ |فتی|فرو|فوظ|قاف|قتد|قدر|قرا|قسم|قصد|قل |لاز|لاو|لمی|لوک|لیغ|مات|مجب|محض|محف|مرا|مقص|ملا|منش|مِل|میا|میر|میو|ندا|نس |نظر|نہا|واہ|وست|وظ |ولت|ونڈ|وک |ُن |چار|چے |کتی|کسا|کھل|گر |گرم|گرو|گھر|ھائ|ھتا|ہا |ہبی|ہمی|یاں|یثی|یشہ|یعہ|یغ |یٔ |یکس| آت| آر| آگ| از| بس| بع| بل| تج| تل| تھ| ثا| جل| جم| جُ| حف| حم| خف| خی| دئ| دا| دے| ذا| رض| زچ| زی| سم| سہ| شک| صح| صر| صف| ضا| عہ| غر| غل| فس| فط| فع| فن| قب| لگ| مد| مک| نا| نج| نق| نم| نے| ور| وس| وو| پُ| چل| چک| ڈھ| گن| ہم|آئی|آتی|آگے|ئط |ئند|ائط|ابا|اتا|اتی|اجی|اخو|ادّ|ارِ|ازد|اص |اظت|اعا|اعت|اعز|اق |اقی|الد|الز|الص|الغ|الم|امد|امّ|انک|اوض|اوق|اوّ|اوہ|اُص|اپا|اپس|اکا|اہِ|ایذ|ایک|باع|بال|برد|برق|بری|بسا|بضۂ|بعد|بلن|بچن|بچو|بچّ|بچے|بہت|بیم|بیو|تار|تاو|تجا|تخب|تصن|تظا|تعم|توج|تکا|تھا|تیک|ثاب|ثر |جات|جار|جدا|جرا|جلا|جمہ|جوں|جُل|حرک|حصّ|حصہ|حفا|حفظ|حقی|حمل|خاص|خال|خب |خفی|خلت|خود|خوذ|خور|خیا|دئے|داخ|درت|درج|دوا|دون|دّی|ذات|ذاش|ذور|راد|راس|راع|راہ|رت |رتا|رتک|رجو|رح |ردس|ردہ|رسا|رض |رضا|رقر|روگ|رِ |رکا|رہی|ریک|زام|زبر|زدو|زما|زمت|زچّ|زیا|ستع|سخ |سرک|سما|سکو|سکی|سہو|شاک|شاہ|شت |شتر|شرا|شرک|شری|شش |شور|شکل|صاً|صحت|صرف|صنف|صنی|صّہ|صہ |ضۂ |ضے |طرح|ظت |ظر |عات|عت |عد |عذو|عل |علق|عما|عوا|عوں|عہد|غرض|غلا|فاظ|فاہ|فت |فسخ|فطر|فظ |فعل|فنّ|فوا|فوج|فوق|فیہ|قبض|قتی|قع |قِ |قیق|قین|لا |لائ|لاج|لام|لاً|لای|لدی|لزا|لصا|لغ |لند|لوا|لِ |لگا|لہ |لیٰ|مائ|ماخ|ماد|مال|متی|مشا|مصن|معذ|مفت|ملہ|ملے|منت|مند|منو|موق|مّہ|مکا|مہو|نت |نتظ|نجی|ندو|نسی|نف |نقل|نوع|نّی|نڈن|نیف|واج|واد|واز|وال|واپ|وتے|وجد|وذ |وشا|وشش|وضے|وف |وقع|ونت|ونو|ووٹ|وّل|وٹ |وگذ|وگی|وہو|ُرا|ُصو|ُلن|ِلن|ّلی|پا |پس |پوش|پُر|پہل|چلا|چنے|چوں|چکا|ڈنے|ڈھو|کائ|کاب|کان|کس |کل |کوش|کون|کھا|کیو|کیں|گائ|گذا|گنا|ھاپ|ھر |ھلی|ھون|ہت |ہد |ہرے|ہلے|ہم |ہمت|ہنے|ہوت|ہور|ہول|ہِ |یات|یاق|یاہ|یب |یذا|یعو|یف |یقِ|یما|یون|یوگ|یٰ |یکہ| اث| اج| اذ| اش| اظ| بت| بَ| تخ| تق| تک| خط| دس| ذل| رن| سخ| سز| سو| صد| عب| فض| فک| قر| لح| لہ| مخ| نو| نی| وح| ود| وغ| پب| پڑ| چی| کت|آئے|آرا|آرز|ئرہ|ئض |ئل |ائر|ائض|ائل|ااخ|ابل|اتح|اثر|اجز|اجل|ادت|اذی|ارا|ارٹ|ازی|اسط|اسم|اش |اظ |اظہ|اقا|اقہ|اقے|اما|امت|امر|انب|انص|انگ|اوت|اوط|اون|اپر|اکث|اکِ|اکہ|اہت|اہی|ایت|باا|باد|بان|بدا|بغا|بلِ|بلک|بَر|بھا|تاب|تان|تاک|تبا|تحت|تحق|تخر|تدر|تر |ترغ|ترک|تری|تصا|تصد|تعا|تعط|تعی|تقا|تقو|تلا|تلف|تنخ|تور|تول|تکم|ثّر|جام|جز |جسم|جل |جن |جنر|جنس|جوئ|جود|جھ |حاظ|حتی|حدب|حشی|حصو|خت |ختا|خری|خط |خوف|دبن|دت |دری|دش |دمہ|دمے|دوب|دول|دیع|دیق|ذلی|ذیّ|ربا|ربن|رتے|رحد|رد |رزو|رسم|رصت|رغی|رفت|رل |رنگ|روش|روف|رّر|رٹر|رک |رکن|رہن|ریب|ریج|رین|ریں|زا |زبا|زم |زو |زی |سار|سای|ستا|ستب|ستح|ستو|سخت|سرح|سزا|سطے|سمب|سمج|سمی|سوز|سیع|شا |شی |شیا|صاد|صاف|صت |صدم|صدی|صرو|ضا |طن |طیل|طے |ظال|ظرب|ظہا|عاج|عبا|عتب|عطی|عقل|عیت|عین|غاو|غیب|فان|فتا|فرا|فرد|فرص|فضا|فوں|فکر|فیت|قاب|قات|قال|قام|قتص|قدم|قرّ|قفو|قوی|قہ |لاس|لاش|لاپ|لتو|لحا|لدا|لف |لق |لقا|لم |لما|لون|لکی|لہٰ|لیت|لیل|لیے|ماع|مبل|مجھ|مخت|مر |مشت|مصر|مقد|مقر|ملد|ممن|منص|موث|مہ |میش|میل|مے |ناق|نام|نب |نتق|نجا|نخو|ندش|نرل|نشا|نصا|نصف|نوا|نٹو|نچے|نڈی|نگ |نگی|نیت|نیک|واس|وان|وبا|وت |وثّ|وجو|وحش|ودی|وز |وسا|وسی|وشی|وطن|وع |وعی|وغی|وقف|ولا|ولِ|ولی|ویت|َرد|ِل |ّت |ّر |ّرہ|ٰذا|ٹر |ٹوں|پان|پبل|پرو|پڑے|پہن|چیز|ڈی |ڑے |کثر|کرد|کری|کمی|کِ |کھے|کہن|کیف|گئی|گرف|گھن|ھای|ھتے|ھرب|ھلے|ھنٹ|ھے |ہار|ہاں|ہتے|ہنچ|ہٰذ|ہیئ|یئے|یاج|یاز|یتی|یج |یرہ|یز |یع |یعت|یفی|یلا|یّت|یہا|یے ",
+  },
+  Bengali: {
+    bn: "ের |ার |কার|প্র| প্|িকা|বে |ধিক| অধ|অধি| এব|এবং|বং |্য | সম|্রত| ই | নি| কর|য়ে|্বা|ত্য|্যে|েকে| ও |ছে |িক |রত্|রয়|বাধ|ক্ষ|যেক|স্ব| স্|্যা|কের|েছে|করা|াবে| কা|রা |বা |বার|তা |তি |ন্য|মান|য় |়েছ|্তি|নের|িত | বা| রয| পর| বি|কে |জাত|ধীন|না |ব্য|াধী| সা|নির|তে |ত্ত| মা|পরি|সমা|ায়| জা| অন| না|ক্ত|ারে|ন্ত|ভাব|র্য| কো| শি|কোন|রের| এ | হব| ব্|ত্র|নতা|পত্|ান |ার্|ীনত|্ত | পা|য়া|হবে|োন | তা| যে|মাজ|মূহ|র্ব|সমূ|িত্|্যক|্ষা| যা|তার|যাব|াতি|ির্| জন|জন্|তিক|ত্ব|রতি|রে |িবা|দেশ|সম্|িয়|্রয| এক| দে|ধ্য|রিব|শিক|়ে |িক্|ীয়|্রে|অন্|নিজ|পূর|যক্|যে |ষা |ূর্|কাজ|জের|টি |যোগ|র্ণ|লাভ|সংঘ|্ণ | থা| লা| শা|ওয়|চ্ছ|থাক|নে |রার|স্ত|াকব|াপত|্তা| ওয| ধর| সং| সক|কা |গ্র|তিত|দ্ধ|পার|ভের|ষ্ট|সকল|াজ |াভে|ির |িশ্|োগ | অপ|কবে|চিত|ণের|ম্প|াজে|াধ্| কি| থে|ঙ্গ|থেক|বাস|র্থ|শ্র|িরা|্তর|্রা| অব| আ | আছ| ইন| উক| এম| ক্| পূ| রা| সু|ংবা|অপর|আছে|উকে|এমন|কিং|ট্র|তাঁ|তিস|তীয|বিক|বিশ|রাপ|শাস|স্থ|়া |াতী|ানব|ান্|িংব|িজ |ূহ |েশে|্র | গো| বৈ| ভি|কল |জীব|দের|ধার|ধে |ন্ন|পর্|মন |মূল|যায|রক্|র্ম|লিক|ানে|ামা|ারণ|ীবন|ূহে|োষণ|্বে| ভো|একট|কটি|কাশ|ণ্ড|তির|নিয|পরা|বের|ভোগ|ময়|মর্|য়ত|যাদ|রকা|রাধ|রাষ|ল্য|ষ্ঠ|সঙ্|সময|সাম|ারী|াষ্|িতে|েন |্চি|্ট্|্যব| অং| উন| উপ| ঘো| জী| বে| মৌ| সঙ| সহ|অংশ|অনু|ঘোষ|জিক|তর্|ধর্|নৈত|পন |বস্|বিব|ভিত|মতা|মাধ|মৌল|যমে|য়ন|রণ |রসম|রহণ|শ্য|ষণা|হের|়তা|াজি|াদা|াধ |ানু|াস |াস্|ীন |েহে|ৈতি|ৌলি|্থা|্যম|্রহ|্ষে| অভ| মর| সে| হ |ঁর |ংঘে|ইনে|করব|কৃত|গে |ঘের|তাম|তু |দার|দে |নার|নিশ|নুষ|ন্ধ|বিয|মে |যেহ|র্জ|শের|শ্চ|সাধ|হেত|়ার|াঁর|াধা|ারস|ারা|াসন|িসং|েতু|েবে|েশ |্গে|্ম |্রক| আন| আশ| উদ| দ্| ন্| সর|ংঘট|অভি|আশ্|উদ্|উন্|জ্ঞ|তনে|তর |তায|তাস|থায|দ্ব|নভা|নীত|বন্|বর্|বেক|বৈষ|য়ো|রবে|রী |র্ত|লিত|সে |হণ |়োজ|াধি|াধে|ালন|াসম|িচা|িশে|ুক্|োজন|্ত্|্থন|্পত|্ভূ| আদ| ইচ| কল| কে| গণ| দণ| যথ| সী| হি|ংশগ|অবা|আদা|আন্|ইচ্|করে|কল্|কেব|গত |গ্য|জনী|ডযো|দণ্|দান|দোষ|দ্দ|ধরন|নীয|পন্|বাচ|বাহ|বিচ|বোধ|ভূক|মত |মাত|মিক|যবস|যাণ|যাত|যাপ|য্য|রনে|লক |লনী|লা |লে |শগ্|শে |শেষ|সন |সার|সীম|সেব|স্য|হিস|়ের|াত |ায্|ারি|াহব|িজে|িতা|িবে|িসে|ীমা|ীর |ূক্|ূলক|ৃতি|েতে|েবল|োগ্|োত্|্ছে|্জা|্ঞা|্ডয|্ন | অথ| অর| আপ| চল| দা| মধ| মূ| সদ| সন|ংরক|অথব|আপন|করত|ক্র|খে |গঠন|গোত|ঘটন|চার|ত্ |থবা|দস্|নবি|ন্ম|পাল|বদ্|ভিয|মধ্|মাব|মিত|মের|ম্য|য়ি|যের|রতে|রাজ|রূপ|র্ভ|শান|ষম্|ষে |ষেত|সংর|সদস|সহ |স্ক|়নে|িন্|িষ্|ীনভ|ুতর|ৃত্|েক |েত্|ৈষম|্ক |্তন|্থ |্ধত|্ধা|্ব |্বি|্ষণ| অগ| গঠ| চা| চি| ছি| দো| নর| নে| নৈ| বঞ| বস| বৃ| মত| মে| রক| লক| হয|ঁদে|অগ্|উপা|একা|কর্|কলা|কলে|কুর|কূল|চয়|চাক|চাল|ছভা|ছা |ছিল|জনৈ|ঞান|ঞ্চ|টনে|ঠিত|ড়া|ণাপ|তান|তিট|থনা|থমি|থী |থেচ|দা |দাল|দির|ধান|নবা|নরন|নিক|নুক|নেব|ন্থ|পকল|পক্|পাব|প্ত|বঞ্|বন |বপূ|বল |বাব|বেছ|বেন|বেশ|ভিন|ভূত|যথে|যান|যুক|যেত|রগত|রটি|রনা|রাথ|রিচ|রিত|রিপ|রীত|রীর|রেন|রো |লক্|লতে|লনা|ল্প|শিল|শিশ|শ্ব|ষণে|ষমত|ষী |ষ্য|সন্|সরক|সাহ|সুয|হবন|হয়|়াস|াঁদ|াকু|াচন|াজন|াণে|াতে|াত্|াথম|াদি|াপন|াবা|ামত|ারো|ালত|ালি|াশ |াশ্|িটি|িপন|িল্|িশু|ীতি|ুকূ|ুত্|ুযো|ুরী|ুরু|ুষ্|ূত |ূল |ূলন|েকা|েচ্|েবা|েয়|েশ্|োধ |োষী|্ছভ|্ছা|্ঠি|্তব|্থী|্দে|্ধন|্পক|্বপ|্ভব|্মে|্রট|্রদ|্রম|্রি|্ষম|্ষ্| অঙ| অত| অস| আচ| উচ| উত| উল| গু| গ্| পী| বন| ভা| ভূ| মি| শ্| সব| হচ| হত|ংশী|ংস্|অঙ্|অর্|অস্|উত্|উল্|একে|কর |কাছ|খণ্|খিত|গতি|গুর|গোপ|গোষ|ঘটি|চলব|চ্চ|ছুক|ছেদ|জে |টিত|টির|ঠন |ঠী |ণা |তন |তভা|তরা|তিন|তৃত|থ্য|দন্|দায|দাস|দিত|দৃঢ|দ্ভ|দ্য|ধতা|ধাব|ধি |ধুত|নদে|নব |নয়|নযা|নরূ|নান|নিব|নীন|ন্ড|পায|পীড|বজন|বধা|বনয|বায|বির|বীক|বেত|ভব |ভূখ|মিল|মুক|ম্ভ|ম্ম|যবধ|য়ম|যা |রণে|রদ্|রাং|রুত|র্ক|র্ধ|লন |লবে|লেখ|লের|ল্ল|শীদ|ষণ |ষার|সত্|সবা|সমত|সর্|সা |সাং|সুত|হচ্|হতে|হে |়ন |়মি|়িত|াং |াংস|াছ |াতন|াতৃ|ানি|াব |াবদ|াবো|ারব|িগত|িচ্|িজ্|িতভ|িনি|িবর|িযো|িলি|িসম|ীকৃ|ীড়|ীত |ীদা|ুদ্|ুর |ুশী|ুষ |ূখণ|ূপ |ৃঢ়|েখি|েতন|েষ |েষে|োনর|োপন|োষ্|্কৃ|্টি|্ঠী|্ধ |্ধি|্ধু|্নয|্পর|্বজ|্বী|্লে|্ষ | অক| আঘ| আত| এগ| ঐ | খা| খে| চে| চৌ| ছা| ট্| দন| দি| পদ| পি| পু| পো| বয| বর| বহ| মন| মু| যত| যো| রচ| রে| লঙ| লভ| শৈ| সত| হল| হস| হা| হো|ংখল|ংঘভ|ঃপক|অক্|অত্|অধী|অনি|অপা|অবৈ|অরা|আঘা|আচর|আত্|ইন |ইনা|উচ্|উনি|উপভ|একক|এগি|কক |কতা|কবা|কিত|ক্য|খলা|খাদ|খান|খুশ|খেয|গণত|গণশ|গণে|গণ্|গতা|গদা|গরী|গিত|গিয|গীক|গের|ঘভূ|ঘাত|ঙ্ঘ|চতর|চন |চনে|চরণ|চলা|চিক|চেয|চেষ|চৌহ|ছাড|ছেন|জন |জনগ|জনব|জনে|জব্|জ্য|ঝোত|টদা|টাব|টিগ|ঠনে|ঠার|ডনী|ডের|ঢ় |ণতা|ণভা|ণমূ|ণশৃ|ণিত|ণুত|ণে |ণ্য|তঃপ|তক্|ততঃ|তনি|তবা|তব্|তাত|তিপ|তিম|তিষ|তুল|তের|ত্ন|ত্ম|থনে|থাদ|থান|থে |দাম|দি |ধক্|ধতি|ধন |ধনজ|ধব্|ধিত|ধিদ|নকে|নগণ|নজা|নবো|নমা|নস্|নায|নিধ|নিষ|নীয়|নুগ|নুস|পদ্|পনে|পভো|পা |পিত|পোষ|ফল |ফের|বদে|বধি|বনম|বনে|বয়|বলম|বলি|বলী|বসব|বহি|বাভ|বিজ|বৃত|বৈজ|বৈত|বৈধ|ভোট|ভ্য|মঝো|মতি|মতু|মনে|মপক|মপর|মভা|মষ্|মাণ|মাল|মুখ|মেট|মেধ|ম্ব|যকর|যকা|যজী|যতা|যত্|যথ |যথা|যদে|যন্|যস্|য়স|যাগ|যাল|যিক|যেখ|যোজ|রকৃ|রচয|রণভ|রত |রবা|রভা|রমা|রমি|রযো|রাহ|রি |রিক|রিগ|রিশ|রীব|রুদ|রেখ|রেড|রোচ|র্দ|র্ন|লখু|লঙ্|লট |লভ্|লমা|লাফ|লীক|শবা|শীম|শু |শুর|শৃং|শেব|শৈশ|ষভা|ষয়|ষাল|ষিত|ষেপ|ষের|ষ্ণ|সমঝ|সমপ|সমভ|সমর|সমষ|সমি|সস্|সহয|সহি|সাব|সুদ|সুফ|হণে|হদ্|হবা|হবি|হযো|হলে|হস্|হাত|হায|হিত|হির|হিষ|হোক|হ্য|়ন্|়স্|়ান|়াল|়িক|়েত|াগ |াগত|াচি|াজব|াড়|াণম|াণি|াতা|াদ্|ানক|ানা|াপ্|াফে|াবর|াবল|াবস|াবি|াব্|াভ |াভা|াম |ামূ|াম্|াযথ|ারগ|ারত|ারভ|ালখ|ালট|ালা|াশে|াসস|াহা|াহি|াহ্|িকত|িকি|িগর|িতি|িদে|িদ্|িধি|িপূ|িবধ|িমূ|িযু|িরক|িরু|িল |িলন|ীকা|ীকে|ীতে|ীবে|ীমত|ীয় |ুক |ুখে|ুগ |ুতা|ুদৃ|ুনা|ুফল|ুল্|ুষে|ুসা|ৃংখ|ৃত |েখা|েখে|েটা|েড |েদে|েধা|েপ |েরা|েষ্|ৈজ্|ৈতন|ৈধব|ৈশব|ৈষয|োক |োগদ|োগি|োগে|োজ্|োটদ|োতা|োধে|োষ |ৌহদ|্গত|্গী|্ঘন|্চত|্চয|্ছু|্জন|্ঠা|্ড |্ডন|্ডে|্ণু|্তক|্তত|্থে|্থ্|্দি|্দো|্ধক|্ধে|্নত|্নদ|্নী|্পন|্বদ|্বল|্বশ|্মত|্মপ|্মা|্মু|্যজ|্যত|্যদ|্যন|্যস|্যি|্রগ|্রী|্ষভ|্ষি| অছ| অম| আব| এই| এখ| এজ| এদ| এহ| গৃ| ঘট| ঘৃ| চো| ছু| জ্| তথ| দৃ| দৈ| নস| পত| পৃ| পে| ফল| ফৌ| বল| বু| বো| ভ্| যু| রূ| লি| শং| শু| সচ| সৃ|ংকা|ংগঠ|অছি|অতি|অবজ|অবম|অবস|অবি|অভা|অমা|আচা|আনী|আবদ|উচি|উপয|উপর|উপল|এই |এখন|এজন|এদে|এহে|করছ|করণ|কাঙ|কান|কাম|কিছ|খন |খা |খ্য|গৃহ|ঘন |ঘনে|ঘৃণ|ঙ্খ|চনা|চিঠ|চিন|চোখ|ছিত|ছিভ|ছুট|জদা|জমা|জাগ|জার|ঞা |ঞাপ|ঞ্ছ|টনা|টা |ঠদা|ঠিপ|ঠুর|ডলে|ড়ন|ঢ়প|ণাক|ণায|ণার|তকর|ততর|তথ্|তদা|তনস|তন্|তরী|তরো|তাদ|তিগ|তিজ|থনৈ|থা |থিব|দত্|দন |দেও|দেহ|দৈহ|দ্র|ধিব|নতত|নতন|নতি|নদন|ননা|নর্|নসহ|নাক|নাগ|নাম|নি |নিয়|নুব|নুশ|নোভ|পণে|পদে|পনী|পযু|পর |পরে|পলব|পাঠ|পাদ|পাস|পুন|পুর|পৃথ|পে |পেক|পেশ|ফত |ফলে|ফল্|ফৌজ|বকে|বজ্|বভৌ|বমা|বরো|বলে|বশা|বশে|বশ্|বসম|বসর|বসা|বসু|বাক|বিদ|বিধ|বীর|বুদ|বৃদ|বৃহ|বেদ|বোচ|ব্ধ|ব্র|ভবক|ভাষ|ভৌম|ভ্র|মগ্|মণ্|মত্|মনভ|মনো|মস্|মা |মার|যক |যবি|য়ব|যাখ|যাচ|যার|রই |রচে|রছে|রথা|রদত|রপে|রফত|রবদ|রব্|ররো|রাত|রাম|রিম|রিষ|রিহ|রীণ|রীয|রুষ|রেছ|রেপ|রোত|রোহ|লনে|লব্|লভ |লাঞ|লিপ|শংক|শাগ|শীল|শুন|ষদ |ষাদ|ষিদ|সংগ|সচে|সনত|সনদ|সনা|সব |সবস|সব্|সমস|সরে|সহজ|সাফ|সিত|সীর|সুন|সুল|সৃষ|সেজ|সের|হজা|হত্|হার|হিক|হেন|়ত্|়প্|়বি|াক |াকর|াকে|াখ্|াগ্|াঙ্|াচা|াজম|াঞ্|াঠদ|াদন|াদে|ানদ|ানন|ানভ|াপা|াফল|াবশ|ামন|ামু|ারফ|াষা|াসত|াসব|াসি|াসী|াসে|িছু|িঠি|িতক|িধ |িপত|িপ্|িবী|িভূ|িমণ|িরপ|িরূ|িষদ|িষি|িসঙ|িহা|িয়ে|ীণ |ীতদ|ীত্|ীনস|ীলন|ুকে|ুটি|ুনর|ুবে|ুলভ|ূপণ|ূপে|ূল্|ৃণা|ৃথি|ৃদ্|ৃষ্|ৃহ |ৃহত|েওয|েক্|েজন|েদি|েদ্|েনা|েপ্|েরই|েশা|ৈহি|োখে|োচন|োচি|োচ্|োভা|োহ |ৌজদ|ৌমত|্খা|্গ |্চ |্ছি|্ঞ |্ট |্টা|্ঠু|্ডল|্তে|্পদ|্পা|্বভ|্বর|্বস|্বো|্ব্|্মগ|্রচ|্রথ|্রর|্রস|্রো|য়ে ",
+  },
+  Cyrillic: {
+    be: " пр| і |пра|ава|на | па|рав| на|ць |ва |ны |або| аб| ма|ае | ча|аве|ацы| св|ала|сва|льн|анн|лав|не |чал| не|ння|ай |век| ко|га |ых | ад| як|кож|ожн|ня |жны| за| ў |ага|ек |мае|пры|ца |цца|пав|бод|дна|він|ваб| да| вы| са|ам |асц|аць|ван|ных|ств|тва|бо |ста|аві|го |дзе|нне|цыя|ьна|ара|мі |наг|одн|най|то | бы|ама|оўн|ыць|ці | ас| яг|аль|енн|лен|яго| ра|рац|інн|іх |ад |аро|ым |які|аво|пад|сці| дз|чын|быц|оль| гр| та|нас|род|рым|што|ыя |да |дзя|ні |рам|ўна| шт|оў | у | ўс|кац|ля |нан|нац|ры |ука| гэ| ін|адз|адс|амі|ана|гра|гэт|нна|нст|ным|ход|ымі|ыі |ьны|іна|ўле| ні| шл|аба|агу|аду|кі |мад|нал|нен|рад|ую |цыі|энн| ка|аны|дст|дук|зна|нар|ыма|эта|яўл|асн|воў|ду |жна|люб|уль|ыцц| дл| су|ах |ацц|аў |бар|вы |для|нав|авя|ада|адн|ако|але|аюц|заб|зе |нае|оду|пам|раз|роў|сам| ро| ус|алі|аса|ахо|бес|ве |жыц|кія|нні|пер|рыс|сац|удз|чы |чэн|ія | пе| ст|авы|ані|ачы|аюч|ера|есп|жав|кар|маю|нах|ніч|од |раб|так|тан|цця|чац|чна|шлю|ынс|ыст|ючы|яна| мо|абе|ары|асо|буд|ваг|вол|гул|ецц|зак|кра|мас|ноў|ода|сно|соб|спр|тац|ыял|яко|яль|ім |інш| бе| кр| ме| сп| ся|ая |аўн|выб|ейн|ены|зей|зяр|кла|льк|ну |ова|ога|па |рас|ржа|ту |хто|час|ярж|іча|ўны|ўст| з | мі| рэ| то|ʼяў|ака|акі|амо|аін|бав|бы |вай|вал|ваю|ган|дзі|жа |кан|клю|кон|ку |кім|лач|леж|люч|лів|мож|нны|ніх|ожа|раі|се |сту|тар|ый |ыпа|юць|ячэ| жы| зʼ| зл|адк|ас |аты|бе |бра|дап|дно|ежа|ека|жан|зʼя|зла|ка |кам|ков|ліч|нам|неа|ншы|няў|ой |рыя|рэс|сям|тай|туп|цый|чны|шча|яў |іне|іцц|ўля| ар| дэ| лю| по|абх|ажы|апа|аст|бхо|вам|вар|ваё|вык|вяд|гу |дзь|дка|дны|еаб|ебу|ен |зал|зац|зь |лі |ліг|між|неб|ную|овы|одз|она|пяч|рга|рэл|сна|спя|та |там|тры|цыю|чва|ычн|ыю |элі|юча|як |ямʼ|ігі|іза|іхт|ічн| ах| зн| ув| ўч|ʼяд|абʼ|ак |апр|арг|ату|бʼя|бяс|ваі|дав|дац|джа|длі|ды |ежн|еза|за |йні|кав|кой|кіх|лад|меж|над|нез|ніз|обы|пар|поў|ран|рон|ру |сав|сад|ся |тав|тур|тым|тыч|усе|ця |чым|чыц|ыба|ыян|ькі|юцц|ядл|ядн|яец|ясп|іра|ўсе|ўчы| аж| ап| ва| га| мэ| іх|абр|ача|аю |аёй|аіх|аўл|вац|ву |вым|вып|вяз|віц|год|дас|дку|дэк|еаг|ена|еян|зел|зея|зяц|лар|лас|ло |ліс|мав|маг|мог|му |мэт|нак|нню|ныя|ню |ону|пак|печ|рак|рал|рыт|сеа|спе|суп|сць|ува|хов|ццё|чан|ыка|экл|яка|янн|ёй |іся| аг| бо| бя| во| го| до| зд| ср| уд|абв|абм|абя|аву|аго|азб|азв|арэ|асл|афе|ацо|ацу|без|бме|был|гал|даб|еда|ез |есі|ечв|зві|зян|йна|кал|ког|кір|люд|ляе|лях|літ|ман|мар|мац|нол|ніш|одк|оўя|паз|паў|рат|раф|раў|рны|рын|саб|сро|суд|сія|таг|тве|тол|тра|упа|фес|хам|цоў|цтв|цяў|шля|ызн|ыне|ыту|ька|эты|юб |юдз|янс|яха|яцц|іва|іжн|ішч|іян|ўва|ўну|ўя | др| кі| тэ| ук| ўм|ʼі |абы|адт|азе|ано|асу|атр|аём|вае|ват|веч|грэ|дам|даў|дру|дтр|ей |ель|еры|еча|зен|зум|кры|кул|лед|мʼі|маё|мен|моз|мін|мір|ная|неп|нов|нта|нцы|нша|няц|ніц|ову|ое |озе|оўв|пал|пац|пач|пла|рыз|слу|спа|сум|сім|ты |тэр|удо|укл|уме|урн|уць|чаю|шым|шых|ыкл|ыло|эры|эту|язк|ёма|іі |ўні|ўсі| ба| бу| ві| ды| лі| пу| ты| уз| ця| чл| ям| іс| ўз| ўл|аб |абс|агр|агч|агі|ады|азн|азу|акл|арч|атк|аюз|баў|блі|бую|быт|вук|вых|выя|гру|гчы|гі |гіі|дат|дыс|епа|жаў|зас|зба|зда|зро|зы |зі |зіц|каб|каг|кас|коў|лат|ма |мес|мяш|нач|нос|нік|обн|одж|оды|оля|осі|оўл|пна|пуб|пяр|раг|роб|роз|рта|рэч|саю|саў|ска|скр|сле|стр|сін|сіх|таў|тко|тор|тых|убл|ужб|уко|упн|упя|ура|усі|уша|цей|цу |цып|цю |цяр|цё |ча |чай|чат|чле|ыва|ынц|ыны|ыня|ыск|ыяй|ыяц|ьні|эса|эчы|юбе|юбу|юзы|яй |яму|яры|ярэ|яцы|івы|іка|імі|інт|іну|існ|іты|іць|ўла| ак| б | бр| жа| ку| му| ск| сл| ха| шу| ян| ён| ім|аас|абі|адр|аец|айн|ало|аму|анч|апе|апл|ар |ару|асы|ата|атн|аха|ацт|ачв|бам|бві|бле|бна|бол|ваз|вас|вач|вел|вер|вод|гар|гля|гій|дак|дро|дыч|ект|елі|жчы|жыв|жыл|зад|зам|зне|йны|кае|кая|каў|лод|луж|ль |льс|льт|льш|ляд|мак|мер|мкн|мле|млі|мов|муж|муш|мян|наа|наў|нул|нчы|няю|ове|огу|озн|оры|пат|раж|рах|руж|руп|скі|су |сцю|сы |сяк|тае|тна|тое|ужч|узя|улі|умл|упр|уся|хар|чае|шаг|шай|шан|шук|ылл|ымл|ыму|ыра|ыто|ыхо|ыяд|ьту|яды|ялі|яны|яшч|яюц|ён |іж |ійн|ілі|імк|іру|ўмо| аў| ве| вя| ду| зг| зм| зр| сх| уж| ул| уч| фо| хв| хт| це| чы| эф| яч| ўд| ўк| ўр|ʼю |ʼя |агл|адʼ|адп|аді|аем|айг|акр|акс|акт|аку|амя|анд|арт|аср|ася|атэ|ац |ацк|аця|ачн|ачэ|аё |аўд|аўс|аўт|бак|бац|бве|бны|бок|бор|бот|бро|бры|бсл|бст|бу |бяз|бяр|бір|біс|вах|вая|вен|вет|веш|вух|вую|выг|вын|выр|выш|вяр|від|гло|гну|гоў|гіх|гію|дар|даю|дву|дня|доб|дов|дог|дол|дос|доў|дпа|дск|дуц|дых|дыц|дэм|діл|еві|еды|еку|ел |ем |ема|енш|ень|еру|есн|есц|етн|ефа|еці|ечн|ешч|ешы|жах|жач|жаю|жбе|жбы|жка|жыт|жэн|зае|зах|збо|зго|здз|здо|зец|зко|зкі|змя|йго|йка|йша|кай|кну|кое|кса|кта|кты|кую|кід|лал|лет|лец|ллё|луг|лял|ляю|лё |лід|мʼю|мʼя|мал|мат|мах|мед|наз|нап|нат|нва|нев|нед|нем|неф|нск|ные|нь |няе|обл|обр|обу|огл|одв|оку|онн|оны|орм|ору|ост|ота|оты|оўс|пас|пек|пу |пім|раш|рва|рм |рна|ров|рот|рпі|руг|руц|руш|рч |рчы|рыв|рэд|рэн|са |сап|све|сло|сну|спл|срэ|схо|сца|сце|сця|сяг|сяр|сіф|тас|тат|таю|тны|тні|той|туц|тык|тыў|тэт|тэх|уве|уго|угі|удж|уду|уе |ужы|уза|ула|ума|упу|ух |учы|фал|фек|фор|фік|хав|хва|хні|ху |цап|це |цеш|цкі|цуе|цці|цы |цын|цьк|цяж|цях|цёв|цін|чам|чую|чых|чэй|шац|шая|шыц|шэй|шэн|ыбр|ыбі|ыгн|ые |ын |ыні|ыта|ытэ|ыцы|ычы|ышэ|ыяр|ыяў|ыўн|ьне|ьня|ьсі|ьш |эдн|эйк|эйш|эма|эсе|эсу|эфе|эхн|юба|ючн|ючу|ягн|яд |яда|яжк|яза|язд|яку|яні|яро|ярп|ярт|яру|ях |яце|яць|яці|яша|яюч|ёвы|іву|іда|ідн|іду|іко|іма|ін |інв|інс|ірн|іст|іта|іфі|іцт|ічы|ічэ|ію |ўдз|ўды|ўзн|ўзр|ўкл|ўмя|ўня|ўра|ўта| ат| ву| ге| дн| жо| мя| ор| ры| ут| ца| ці| эк| юр| ід| ўв| ўж| ўн|ʼек|ʼем|абг|абу|адб|адж|ажэ|аза|азг|айм|акш|алк|алю|аля|амб|амп|ан |ане|анс|аня|апо|арв|ард|арм|арн|арс|асв|асп|аху|ацв|аце|ашк|ашт|ашы|аім|аўе|бʼе|бвя|бгр|бог|боч|бур|бух|бым|бых|быў|біц|вав|ваў|вед|вес|вец|вог|вуч|выз|выс|выт|вял|вяш|віш|гас|ген|гле|гна|гне|гон|гуц|дʼе|дʼя|дад|дай|дал|дах|дач|дбу|джв|дом|дпу|дуз|дум|дух|дык|дэн|дэі|еад|едж|едн|ежы|еле|емн|емс|ене|епр|ерд|ерэ|еса|есч|есь|ету|еты|етэ|ецт|ець|ечы|ея |жал|жва|жор|зай|зар|зат|згл|зка|зні|зям|зят|зіл|зін|зіў|йма|йну|кат|ках|каш|кне|код|кол|ктн|кту|кур|кцы|кш |ла |лер|леч|лея|лка|лля|лов|лоў|лу |лум|ляп|ліз|лін|мам|мач|мбл|мей|мец|мкі|мна|мны|моў|мпе|мст|міч|нда|ндэ|нер|нес|неч|нтн|нуц|нфа|няв|няг|ніж|ніт|нія|ніі|об |ові|одп|озу|ока|оле|олу|ом |орв|орг|орс|оць|оча|ошн|паг|пан|пах|пе |пет|пол|пош|про|пус|пут|пшэ|рай|рап|рач|раю|рда|рдз|рма|роц|рса|рск|рст|рук|рун|рыг|рые|рый|рык|рыш|рыі|рэб|рэп|сас|сды|ск |ску|сок|стк|сты|суб|сув|сур|сча|сь |сюд|сіў|ткі|тлу|тоў|тру|туа|тус|тую|тыр|тыт|тэн|тэц|уал|убʼ|уда|ужа|ужэ|укт|умк|умн|унт|упе|урс|уры|уса|уск|ута|утр|ухт|уху|уце|уцц|уцы|учэ|ушэ|фар|хаў|хоў|цал|цве|цел|ццю|цёў|ців|чаг|чыя|шае|шко|шня|шт |шчэ|шыл|ывя|ыгл|ыем|ыкц|ыла|ылі|ына|ысд|ысо|ытл|ытр|ышт|ыў |ьну|ьст|ьша|эба|эка|энт|энц|эні|эпу|эсп|эсі|эце|эі |юбн|юбы|юдж|юры|яво|яга|ям |яме|яня|япш|яты|ёўл|ідэ|іжа|інф|іны|ітэ|іц |ішт|іяк|іўн|іўс|ўе |ўжы|ўсю|ўся",
+    bg: " на|на | пр|то | и |да |рав| да|ств|ва |пра|ите|та |но |во |ван|ени| за|ото|не |те | вс| не|ки |ие |ове|аво|чов| чо|ане|ни | об| по| им| св|ест|има|ние|век|ия |ава|ани|сво|все|ост|ма |тво|вот|ек |еки|сек|или|ли | в |ова| ра|ват|ето| се|при| ил| съ|лно| бъ| ос|ата|бъд| ко|ат |раз|ъде|бод|воб|за |обо|оди|пре| тр|бра| е |се |аци|тел| от|ния|ред|де |нит| ка|алн|от |ята| де| из|общ|ран| до|бва|ен |ка |ряб|тря|ябв|ява|про|ден|его|нег|нов|щес|вен|ено|ст |тве|нос|вит|ият|как|нот|обр| с |гов|йст|ува|ция|ато|дър|ейс|лен|рес|ржа|тва|ърж|авн|акв|нац|нен|пол|ри | ли| ни|кой|оет|осн|род|сно| бе| та| те|вни|ез |зи |иче|она|без|бще|ели|елн|еоб|жен|зак|нст|си | ст|азо|ака|аро|ган|гра|ди |дру|ежд|еме|жав|зов|нар|сто| дъ| мо| то|вси|дей|дно|ичк|кое|лит|ник|одн|ой |под|сич|стр|стъ|тъп|чки| ре|вид|дос|едв|еди|жда|изв|ине|ита|кат|клю|лни|люч|по |раж|тви|уча|ход| гр| ме| со| ср|вол|елс|ира|ичн|кри|лич|нал|нео|ода|оят|са |сре|ста|тно|чит| бр| др| къ| са| си|аве|ажд|бхо|въз|гур|дим|иал|игу|ико|ко |лас|лст|обх|ово|рез|руг|сиг|той|чен|чес|чре|що |ави|ан |аст|вно|дви|иво|ион|към|нет|нич|ови|ра |рак|същ|тер|тра|чно|ъм | ед| му| сп| че| чр|ако|ано|ащи|вед|гат|гла|дин|зна|ии |ими|имо|ито|ква|кон|лаг|меж|мо |му |обе|оже|оси|уги|ции|щит| въ| жи| ин| ус| уч|ази|ате|бщо|вет|ви |вие|воя|дат|дит|жду|иет|изб|ити|ла |лед|нак|нас|обс|олз|оци|пле|пос|рат|рем|руд|соц|стт|таз|тан|тру|тта|ца |циа|че |ъпл| вр| ор|азв|акр|акт|ана|вър|ги |дан|ери|жде|зад|защ|зва|изн|кто|ло |луч|мат|мей|мож|низ|овн|ога|оиз|ойн|орг|осъ|отв|оти|пъл|рга|рил|рои|сем|слу|тов|час|ще |ълн|ъще| ог| ро| сл|ара|бед|бст|вяв|дли|дов|дст|ед |едл|едн|едс|ека|екл|еси|зац|згл|иги|ид |иза|ила|ина|ище|йто|каз|лив|лиг|оит|ойт|ора|рел|рин|ров|соб|спр|стн|съо|със|тие|убе|цио|шен|ща |ъот| вз| вк| тъ| уб|або|ага|адъ|беж|бир|бот|ващ|веш|взе|вин|вия|вкл|вре|го |два|до |еск|ехн|ешк|ещу|же |зан|зби|звъ|зе |зра|иви|иск|лиш|мир|нав|нци|оде|олн|ори|раб|рещ|рия|сле|сти|тав|так|тех|тив|тст|упр|урн|уст|хни|щу |ъда|ърш|ючи| би| бл| ви| ми| пъ| ск| уп| це| чл|авл|аго|аза|анс|бил|бла|вис|вор|вув|гия|дав|дек|дец|дна|дни|дун|дъл|еца|жан|зви|зво|зув|ица|йно|йнс|кви|кво|кла|ког|лар|лет|лзв|лна|ме |мен|мес|нап|огр|оле|оли|оля|рас|рац|риз|рит|ряв|скл|ско|съд|тву|тич|тър|уна|цел|чва|чле|ъзг|ълж|ючв|яни|ят | ди| ма|амо|асо|вои|вся|гле|дис|доб|еде|еза|ези|ере|етс|ечи|жи |ише|лов|луж|ми |мин|нат|нач|нищ|няв|овъ|овя|од |олу|оре|отн|рен|рим|рио|рни|сам|сео|ски|скр|сло|сув|съв|сяк|тез|тор|тоя|тре|тур|уже|улт|уря|ха |чни|яте| во| гл| же| пу| сд| хо| ця|агр|ажн|азу|ай |ала|али|асе|аси|асу|ася|ауч|ача|ачи|аща|бли|бор|бро|важ|вал|вле|вля|вое|гва|гри|ддъ|ду |езп|езр|ект|ена|есл|ете|ещи|жва|жив|жит|жня|зав|зач|збо|ижи|изк|ика|ило|инс|инт|инц|ипи|ичи|кит|кот|лзу|лос|ляв|мор|наг|нам|нау|нез|нте|одд|одл|ор |осо|офе|оце|пит|пуб|пус|рал|реч|риж|рис|рно|рос|рот|роф|роц|рси|руж|сдр|сен|сио|твя|тиц|тка|тна|тни|уал|убл|уд |удо|ужд|ури|усл|учн|фес|хор|цип|цял|чав|чал|чат|чи |чин|шав|щи |щот|ъзн|ъпн|ъс |ъст|яка|яло| бо| ку| мъ| пе| см| ув|аде|аже|азб|азя|айк|але|апр|аса|ати|ату|бви|би |ве |вес|гос|гру|дад|дел|дея|див|дич|дла|доп|дуа|дък|дяв|едо|едъ|едя|ежи|ейн|енс|ент|епо|еса|ет |ета|ети|етн|еян|жес|жет|жиз|жил|зне|зпр|зяв|ивн|иде|иду|изи|изр|инд|ину|иод|иха|ици|йки|кои|кти|кул|лат|леж|лек|лже|лжи|лиц|лищ|лта|лту|май|мог|мос|мъж|нди|нуж|обв|обн|одо|оме|оно|опр|осл|оче|оян|пер|пла|пом|пон|пот|риа|рид|роб|руп|ршв|све|сил|сме|соч|спо|сте|съб|тат|тен|тет|ти |тро|шва|шка|шко|ъбр|ъве|ъже|ък |ърс|ъщо|яко| а | ав| ак| вл| га| го| ес| еф| зд| кл| ов| он| сч| тя| уд| ун| ху| ще| що| юр|авт|авъ|адо|азг|азл|азт|аи |айн|ак |аки|акъ|ало|аме|ами|анц|апу|аре|ару|асл|асъ|атн|ащо|бен|бле|бно|бол|бре|бсл|бща|вар|вдо|виж|вла|вме|вна|вос|връ|вто|вън|вят|гар|гио|гит|гна|год|гол|гоп|дем|дещ|дик|дих|диц|дож|док|дпо|дра|дур|дчи|еви|ега|еду|ежк|езд|езу|ел |емо|емя|енк|ену|ера|ес |етв|етк|ефе|ехр|жби|жищ|жко|жно|зас|збр|зве|зде|здр|зис|зкл|зку|зли|змо|зни|зпл|зтр|зул|зум|зхо|ива|ида|идв|идн|ижв|иже|изх|икц|илв|им |инв|ини|иоз|иор|ирн|исд|исе|иси|исш|исъ|иту|иша|ищо|йна|кив|кия|кле|кло|коя|кра|кус|кци|кът|лаж|лва|лес|лид|лне|лож|ля |лям|лят|маг|мед|мет|мит|мок|мом|мот|мят|над|най|нва|нев|неп|ним|нки|нол|нск|нта|нув|обл|овд|овл|огв|огл|одп|одч|ожа|ожи|ожн|озн|ока|окр|ома|он |оне|опъ|орм|оря|осв|осе|ота|отк|оха|пи |пим|пни|пно|пру|пря|реп|рех|рич|ро |рог|рпи|руз|руш|рча|рше|рши|ръщ|ряк|сди|сег|сещ|сие|сим|скв|сла|сне|сов|счи|сше|съг|съп|сър|сът|съю|ся |тай|тар|теж|тес|тиг|тиж|тир|тож|тях|уго|уда|уди|удн|ужб|ужв|узи|уни|упи|ура|уре|уск|усн|учи|учр|уша|фек|фор|хра|худ|цат|цед|цес|цин|чаи|чай|чие|чия|шет|шил|щод|ъвм|ъгл|ъзм|ън |ъп |ъпр|ърп|ърч|ът |ътр|ъща|ъюз|юзи|юри|юча|яма|ятн|ято|яхн| ар| бу| ва| вя| ду| ез| зн| ид| ик| кр| мя| ня| пл| ри| су| ти| фо| цв| ча|абр|авя|ада|адв|адл|ажа|азп|аня|апъ|арв|арс|атс|ах |аче|бе |бек|бет|бна|бог|буж|бун|буч|бяв|бяг|вер|веч|вих|вка|във|вяд|вяр|вящ|дал|дар|дбу|деи|дет|дле|дло|дох|дух|ебр|егв|еж |еи |ело|ене|енц|еот|епя|ерк|есо|есп|есу|еув|ече|ечо|еши|ея |жа |жат|жих|заб|зат|згн|зда|зик|зит|зпо|зст|зте|ибя|ивк|ига|игн|идъ|изг|изп|изт|иит|ик |иля|име|ин |инф|исн|ист|их |ице|ича|кож|кол|ком|кор|кре|кро|ктн|кув|къд|лия|лку|лск|лян|мав|мац|мер|мис|мич|мно|моу|мпе|мяр|нан|нде|неб|нес|неу|неч|нея|ниц|нно|ном|ноп|нош|нт |нтн|нфо|ням|оби|обу|обя|ого|одб|ози|ойс|око|ол |оло|оми|омп|онд|онс|опе|опу|осу|отд|отм|отп|отр|оуп|очи|оше|па |паз|пет|печ|пов|поп|поч|пят|рад|рах|ращ|рва|рго|рди|рег|рет|реш|риб|рии|рка|рки|рма|рми|рой|рск|рху|рят|свя|сит|ск |ска|сни|сох|спа|суб|сур|съз|сък|съл|сяв|сят|твъ|тди|тис|тит|тме|тоз|ток|тпу|туа|тут|туц|тъл|уве|ум |умн|унт|упа|урс|уси|ут |ух |уци|уче|хна|хно|ху |цвя|це |ци |чив|чна|шим|шки|щет|щож|ъв |ъд |ъзд|ъзс|ъкр|ълк|ълт|ърг|ърд|ърх|яве|яви|ягв|ядв|ямо|янн|яра|ярк|ятс|ящо",
+    kk: "ен |не | құ| қа|ұқы| ба|тар|ға | бо|құқ| жә|ада|дам|ың | ад|жән|әне|ар |ық |ына|ылы| не| әр|ан |де |ықт|қта| жа|ін |на |ары|лық|мен|ның|уға|қыл|ған|ала| ме|ығы|әр | өз|асы| бі| де|еме|лы |еке|бас|іне| қо|ам |бол|ын |ды |ілі|да |тан|анд|ара|нды|ің |ста|мес|нде|ері|етт| ке|ып | ти|тиі|ғы |бар|ге |олы| бе|есе|иіс| та|бір|лар|нем|се |іс |қығ|тын|ік |інд|қық|алы|аты|луы|рын|ана|ост|іні| ар| те|нда|ры |ім |ғын| ер|алу|дық|еті|лға|мны|сы | са|амн|бос|егі|рде|рін|айд|нің|сын|тті|уы |ген|ей |мыс|рға|сқа|ыры|қа |асқ|дар|ру |тта|уын|ыны|қар|кін|тер|ті |тік|ынд|ір |өзі|ама|бер|біл|гіз|еге|лік| мү|аны|ард|ді |жас|зде|зін|кет|лан|лып| же| от|аза|аса|дай|дей|ден|ке |нан|нег|рды|қам| ал| то|ауы|луғ|лім|мет|ікт|қор|өз | жү| тү|еле|елі|кел|лге|оға|рал|рыл|тық|тін|уге|ыс | ел| на| ұл|атт|ау |аға|дер|ек |елг|жағ|йда|кті|лде|лма|ркі|сыз|ігі|ұлт| кө|арқ|ауд|ағд|гін|дал|ең |кім|лтт|оны|орғ|рлы|рік|рқы|сіз|тең|тты|тыр|шін|ылм|ғда|қты|құр| ас| кұ|айы|алғ|ерк|кұқ|мас|тол|түр|уда|шіл|імд|қат|әсі| ау| ет| ос| қы|айл|амд|елд|зі |лін|олу|осы|тал|із |ірі|ғам|қал|қоғ| да| еш| жұ| ма| со| тұ| ха| әд| әл|ағы|ақт|гі |дан|еру|кен|лер|мді|пен|рек|тте|ты |ция|ыла|ізі|әре| ай| ең| жо| за|ады|амт|емл|ешк|жұм|заң|йла|лау|лек|лмы|мақ|мем|мле|нек|рме|рі |сай|сты|сыр|сін|хал|шкі|ыру|ірд|ұмы| үш|ану|аст|аци|дау|дел|еп |ес |жек|жүз|йды|кез|кем|мда|олм|оты|руғ|там|тің|ылу|ым |қол|үші|әді| бұ| мә| па| пе|ай |арл|ат |ауғ|аңд|бал|дыр|дың|діл|ені|ер |ере|есі|ете|еңб|зег|йым|леу|мін|нен|ным|нға|пай|пта|ра |рас|рат|рып|сат|таб|ша |ызд|ыра|ыст|іп |қса|ңбе|үзе|өзд| ді| ем| кі| нә| се| ту| өм|алд|алп|арт|ақс|гіл|дек|деп|дығ|дін|езд|ерд|еум|жет|зар|йты|кте|лет|лпы|лыс|мір|нал|ни |нін|нәс|ол |олғ|тың|тұр|уме|уін|қан|ұру|әле|өмі| аз| кү| кә| он| тә| ұй|ап |арғ|ас |ата|дем|діг|еде|ену|жал|зда|йын|кке|лал|лды|лі |ліг|мат|мды|мел|мта|нша|ола|сіп|ту |ыз |ымы|ынш|ысу|ысы|ыға|ікк|іле|іст|ғал|қай|қас|ңда|үрд|ұйы| ан| мі| ол| ор| қу|айт|ал |анғ|асп|дет|дір|дің|екл|ерл|ет |жол|жүр|згі|кла|көз|лас|лым|май|мал|мау|наз|ны |нім|ойы|отб|пал|пан|рац|сал|сен|спа|та |тау|тба|туғ|ыме|ізг|ісі|ғыл|үрі|ұл |ұрм|әрт| ақ| сү| ше| шы| іс| ға|абы|аді|бек|бел|бой|был|бұл|ект|енд|жаз|зам|кір|күн|кәс|лай|лат|мде|мты|мын|мүш|нас|нба|ну |ныс|орл|пығ|рес|рет|рия|рле|рма|руі|са |сап|сау|сон|сте|суғ|сүр|таң|тет|теу|тыл|ықп|ізд|іл |ілг|ілд|ғар|ғау|қад|үру|үше|ұра|әде| ат| ек| зо| ті| іш| ұш|амс|анб|арм|ару|аси|асс|ауқ|ағи|ақы|аңм|бай|бей|біт|гер|дағ|дыл|дік|ейб|ейі|етк|ету|жар|ида|ие |иет|йбі|йін|лгі|лді|лме|лын|лығ|мсы|мүл|над|нуі|нуғ|ора|рлі|рым|ріл|сие|сіл|тек|тор|тый|тып|тыс|уғы|шек|шы |шыр|ымд|ыш |ықа|ясы|імі|інш|іру|іші|ғат|ғид|қағ|қпа|қуғ|ңме|ұшы|әрі| дү| иг| ие| ре| си| ық| ғы|айр|айш|айғ|алм|апт|ари|ату|аяс|бағ|бег|дақ|дде|дег|дес|дын|дүн|ебе|еді|ем |емд|емс|ени|епт|есс|жес|зат|зге|зді|зор|зуг|иац|игі|ина|ияд|иял|иім|йел|йры|йшы|йыр|йға|кег|ксі|кі |кіз|көп|лад|лда|мағ|мек|ми |мкі|мсі|мүд|мүм|мәд|нағ|нді|ние|нші|нын|ода|от |оци|под|пте|пші|рам|рді|ртт|рту|рті|руг|сан|сая|си |сия|сот|соц|ссо|ссы|сті|су |сіт|тағ|тей|ткі|тығ|тіп|тір|түс|тұт|тәр|уат|уды|уыш|уі |уқа|циа|шел|ылғ|ыми|ынт|ысс|ыққ|яда|яла|яси|ізу|ікс|іме|інә|іпо|іту|ққа|құл|үдд|үмк|үнд|үни|үсі|өзг|өпш| аш| би| бә| до| ег| пр| ра| ты| ша| ык| ыл| із| ұс| әй|аже|аул|ашы|аң |бил|бәр|гей|гре|дең|дос|еже|ез |елм|енг|ерз|ерр|ерт|еу |еңг|еңд|жоғ|зме|зім|ика|илі|ито|ия |иян|ияс|йып|йық|кал|кед|кер|кпа|кіл|лап|лен|ліс|мер|меу|мі |мән|нат|нау|нге|нуг|нық|огр|опт|ор |про|пын|ргі|ред|реж|рзі|рит|рог|рри|рта|рты|ріп|ске|сі |тег|тел|тке|топ|туг|туы|тші|тіл|тәу|уел|уыр|уыс|хат|ше |шыл|шық|ызм|ыкп|ынғ|ыпт|ыр |яны|іни|іпт|ірл|ітш|қаж|қон|қыз|құн|ңге|ңді|үкі|үлі|ұнд|ұры|ұст|әйе|әуе| ав| аж| дә| ес| жи| ки| лә| мо| ож| ру| сы| сұ| ын| қи| үк| ұм| ұя| өк| өн| өт|аба|аби|абі|авт|ажы|айн|аль|алқ|амқ|ани|апы|апқ|арш|ате|ати|атқ|ауа|аха|аян|бау|бая|беп|би |биғ|быр|бұз|бұр|вто|гед|деб|диц|діс|дәр|еби|еди|ейд|екі|елс|елт|елу|ема|емо|ери|ерм|ест|есу|етс|еуг|еул|еуш|еуі|ехн|жай|жау|жақ|жда|жед|жин|жыр|жәр|за |зад|зды|зза|зіл|иал|ием|иже|ици|иыл|ияа|ияп|ияғ|ияқ|иғи|йді|йлы|йна|йы |кар|кес|киі|кон|кра|кық|күт|кәм|көм|көр|лей|лес|лкі|лсі|лты|лті|лу |луг|льд|ліп|лқы|лүі|ләз|мед|мей|мні|мок|мор|мқо|мүг|мәр|нар|нер|ник|нту|нты|ныл|ніс|нәр|нәт|ожд|ой |окр|ори|орн|ота|пар|пат|пті|пы |пқа|рай|рап|рау|рах|рағ|рге|рда|риа|рке|рна|рте|руд|рух|руы|рша|рші|рық|сад|сағ|себ|сеп|сол|сск|сый|сым|сім|сір|сұғ|тай|тап|те |теб|теп|тех|тиж|тия|тсі|туа|туд|тус|тім|тқа|уап|уді|улы|улі|усі|уха|ушы|уші|хан|хни|цин|шағ|шақ|шыд|шын|шығ|ыда|ый |ыйд|ыйт|ырм|ытт|ықш|ьді|яал|ялы|янд|япа|яға|яқт|іке|ілү|імн|ірг|ірш|іт |ғи |ғыт|қаб|қиы|қпе|қуа|қша|қы |құк|ңды|үге|үлк|үр |үрг|үрм|үті|үі |ұзы|ұкы|ұлд|ұмт|ұрғ|ұты|ұяс|ұғы|әзз|әл |әлд|әме|ән |әнд|әрд|әрк|әти|өза|өкі|өме|өне|өрк|өтк| аб| ағ| бү| жы| зы| ид| ко| мұ| ны| нұ| оз| ой| пі| су| сө| уа| эк| юр| үй| үл| үн| үр| ұғ| әк|абу|ажд|азы|алт|амб|амм|аму|амш|амы|амғ|арс|асу|атп|аят|ақп|аңы|бед|бен|бес|бет|беу|бле|буы|бъе|бын|бін|бүк|бүр|ган|гез|гел|гем|гы |гім|гіп|гіс|дас|дат|дая|дея|дик|ека|екш|емі|енс|ерг|етп|еуд|ешб|еші|ея |еял|жад|жат|жбү|жды|жел|жер|жор|жоя|жын|жұр|жәб|зал|зап|збы|зом|зсі|зы |зыл|зыр|зыс|зығ|зқа|иде|иег|икц|исд|иту|иям|йыл|кең|кци|кше|көт|ла |лед|лем|лея|лса|лт |лшы|лык|літ|маң|мбл|мбы|мге|мик|мме|муы|мшы|мы |мым|мыш|мға|мұқ|мәж|нам|нақ|нбе|нні|ном|нст|нсі|нуд|нше|нып|нығ|нұқ|обы|озб|олд|олс|омб|оми|онд|оно|онс|орг|орт|оры|оря|оса|оят|пия|пке|пты|пік|ран|рбі|рга|рей|реу|рис|рла|рой|рсе|рст|рсы|ртү|руш|рял|ріг|рім|рғы|сам|сақ|сди|соғ|сс |сса|ссу|сти|суб|сур|суы|сыб|сыл|сып|сөз|таж|тас|тат|тем|тен|тит|ткт|тоб|тпа|тпе|тум|туц|туш|тыг|тым|тіб|тіс|тқы|тән|уағ|убъ|уде|ула|умы|урс|уци|уқы|шар|шбі|шес|шеш|шім|ъек|ыбі|ыге|ыгы|ызы|ыйы|ыка|ыл |ыма|ымн|ынб|ырд|ыре|ырл|ыро|ыса|ысқ|ығу|эко|юри|яме|ятт|яты|ібі|ізс|ікі|імг|інб|іну|іпк|іре|іск|ітк|ғуы|ғуғ|ғыз|ғыр|ғыс|қой|қос|қыг|қым|қын|құд|құз|құп|ңыз|үзі|үйе|үлт|үне|үнн|үні|үре|үрл|үрс|ұда|ұза|ұлш|ұпи|ұрт|ұту|ұтқ|ұғу|ұқс|ұқт|әбі|әжб|әке|әрб|өзқ|өте",
+    ky: " жа|на |ана| би|жан|уу |бир|га |уку| ук|ар | ка|луу|ен |кук|укт| ад|ууг|тар|ада|уга| ар|дам| ме|ын |ык |олу| бо|ам |ган|ене|ир |мен|ан |нен|ары|бол|ин |туу| ал| ба|анд|нда|кту|үн | же|ара|да | эр|эрк| өз|кта| ко|ала|ард|ына|үү |рки|дык|иш | та|гө |ийи|кин|алу|нди|инд|рды|тер|тий| ти|аны|или|кыл| ма|йиш|ук |үгө|же | кы|лар|алы|им | ту|нын|рга|улу|кар|ун |үүг|баш|рүү|тта|тур| эм|бар|етт|лга|лык|рын| ээ|дар|өз | бе| мү|алд|дик|ке |нды|гон|иги|күн|ры | са|ери|икт|ка |кан|уп |үнө|үчү| ке|атт|кте|лим|нан|он |ушу| ан| эл|алг|бил|гин|дай|дын|кам|тук|түү|үнү| ки| со|амд|еги|ерд|лды|рин|сыз|чүн|ыз | иш| не|диг|кет|лук|мес|рди|руу|эме| де| тү| эч|дин|еке|ес |кор|тал|ул |ыгы|ылу|эч |өзү| то|айд|аты|ге |гиз|ине|лан|лго|мсы|не |нег|олг|орг|рде|угу|шка|ээ |амс|ашк|дей|ей |зүн|иле|ирд|ктө|мда|нуу|нүн|рго|тын|ыкт|ынд| кө| те| ул| үч| өл|ект|ик |кал|лут|мак|мкү|ник|ого|тык|уну|утт|өн |өсү| жо|аса|бер|ген|дыг|жал|зги|кат|кен|коо|лде|мам|мду|мүм|оо |оци|рал|соц|тан|циа|ция|ылы|үмк| ни|ага|ай |акт|ашт|де |дыр|ер |ике|лоо|луп|оом|сал|тол|ттү|уна|өнү| ди| мы| эс|алп|ану|аци|ги |гун|гын|ди |иал|ий |лек|лик|лкө|лмы|лпы|лөр|мат|мыш|нү |нө |рма|сан|шүү|ылм|өлк| бу|абы|айы|амл|гил|дан|ды |еге|ерү|жыр|ири|ким|мле|ндо|омд|онд|пте|раб|сүн|тоо|ург|урм|шты|ыны|ыра|үзү|үлү|өлө|өрү| уш| ша| үй|акы|арг|арт|дуу|дө |елг|енд|жас|жаш|зам|икк|йза|кка|кке|көм|луш|мил|муш|мый|ну |ону|пы |раж|рак|рда|ркы|рыл|ске|тин|түр|ыйз|ыру|ыш | ай| ак| бү| да| кү| ую| че|айл|арк|ат |бын|го |гол|дал|дон|дун|еси|ипт|йды|нде|нун|рас|тте|тту|укк|уру|уун|учу|шай|шул|ыр |үй |үлө|үшү| жү| ку| уч|агы|ашы|бул|гы |дөн|еде|жет|изг|илд|ишт|кты|ктү|көр|нал|нба|рат|рдө|тка|түз|чур|шыр|ыл |элд|ээн|үкт| аш| га| жы| за| ми| па| үг| өн|ади|ап |ата|баг|бал|бүл|гек|дет|дил|етк|зар|изи|ини|ирү|йда|кел|кес|кол|лбо|лге|лда|лет|лын|лүү|мге|мун|нин|ны |оол|осу|пай|рик|сат|сун|уюм|чыл|шуу|шы |ылг|ып |эмг|эск|үз |үрү|өмө| до| пр| ты| эк|аан|акс|ама|атк|дек|дер|екл|жат|жек|жол|здө|ими|кла|кса|куг|лер|лүк|мөк|нга|ой |оог|рац|рге|рүн|ста|сын|тто|тыш|уда|унд|чек|шар|шу |шун|шү |ырг|ышы|энб|юму|өкт|өшү| гр| ин| ош| ур| ын|аба|аби|ажд|айт|аке|алч|асы|бел|бий|бою|гал|гра|дап|до |дой|дук|езг|елү|епт|ең |жар|жда|зү |изд|инс|ирг|иял|йло|кег|кти|кто|кы |көс|лги|ле |лин|лчы|лыш|мал|мез|нса|нча|нөө|олб|ор |орд|ошо|ошу|оюн|рду|рму|руп|сак|сиз|сип|суз|сүз|таа|тен|тең|тик|тти|ты |тыл|тү |төр|төш|урд|ууд|уш |ча |чил|шон|шта|ыла|ымд|ышу|эла|эле|юнч|яла| аг| аж| ас| ат| жу| ра| чы| ыр| үл|аал|ажа|ажы|аза|ак |апт|ару|арш|асс|аң |гу |даг|ден|еле|ели|жаз|жум|жүр|згө|зин|зүү|ишү|йт |кир|кош|кул|куу|ла |лор|лу |лым|лөс|ма |маа|мды|мүл|нат|нту|ным|обу|оло|оон|орк|рес|ри |рти|ртт|ршы|тип|тор|түш|уму|унт|чө |ынч|үгү|үлк|үрд|үүн|үүч|өзг| аб| гө| ду| ил| мо| оо| ор| эн| өк|аат|ады|ал |ало|анг|ани|аст|аш |аяс|бай|бед|буз|буш|гоо|гор|гре|гыч|гөн|дел|деп|доб|ейл|енг|енм|еп |есс|жай|жак|жог|жүз|зда|зма|зүл|иац|из |ийл|ина|инц|ипч|йла|йли|йлө|йма|кай|кед|ки |кий|кил|ку |кыз|күч|кө |лай|лам|лат|лба|лгы|лгө|лди|лдо|лен|лөө|мий|мор|мын|мүч|наа|нге|ндө|нел|нер|нме|нул|нци|ныл|нөн|огр|ол |олд|оор|ора|ору|оюз|при|про|пти|пчи|рам|рку|ркө|рог|рсү|рүл|сая|сеп|сий|сот|сою|ссо|сти|таң|тей|тел|тки|тос|тты|тый|төө|уз |ура|усу|уул|ууш|уша|ушс|ушт|цип|чты|шсу|шти|шту|шуп|шын|шүн|ыга|ызм|ысы|ыч |ышт|эке|эне|эсе|юзд|яси|үтү|үчө|өкү|өлг|өм |өр |өрд|өрк|өрс|өөл|өөн|өөс| ая| жө| из| лө| му| на| се| тө| шү| ыл|айм|айр|алб|ами|амк|арл|ату|аша|ашо|аял|бас|бог|гыт|гүз|гүш|гөр|дег|дос|дуг|дүү|ек |ере|ерс|ест|ет |ети|жер|жок|зал|зи |ика|ил |инч|иши|ишк|ияд|йры|йты|йык|йын|йыр|кек|кем|кер|ккө|кын|күт|көз|лал|лап|ли |лиг|лкү|луг|лө |лөн|мад|ний|нтү|нче|нчт|нүг|нүк|нүү|ок |оос|орт|ост|отт|пта|ргү|ргө|рке|рлы|рсе|рто|ртү|рыя|рөл|син|соо|сск|сту|су |сы |сү |та |тат|таш|тир|тиш|тке|тө |узу|урл|че |чул|чыг|чү |ши |шке|шоо|ште|ынг|ырм|ытт|ыял|яда|ялд|үк |үнд|үнч|үрг|өрт|өрө|өө | ав| зо| лү| р | ст| сы| сү| фо| ча| чо| ү | ө | өт|аар|авт|ажб|айс|ака|аку|алк|алм|амз|амт|анб|арм|ате|ати|атү|ачы|беп|бес|биг|бой|боо|бос|бош|бур|быр|бү |вто|гиш|гул|гый|гып|гээ|гөт|гөч|даб|дем|дең|дис|диц|дөм|дөр|ебе|еди|езд|ейи|екү|емо|емс|ени|енү|ерч|етс|етү|ехн|ече|еңг|жбу|жес|жөн|за |зат|зде|зди|зду|зуу|игы|ийб|инт|инү|ирө|иск|ици|ишм|ия |ияг|иян|ияс|йбе|йго|йжа|йим|йин|йир|йсы|йым|йып|каб|кад|кбо|кез|кеч|кмө|кон|кра|кри|кси|кус|кыр|кыс|күл|көд|көл|лду|лдө|лка|лкк|лма|лун|лчу|лыг|лып|лү |лүп|лүш|лөк|лөл|маж|май|мач|мга|мдо|мдү|мед|мей|мел|мер|мза|мин|мко|мок|мси|мты|мөт|нац|нгө|ни |нч |нчү|нык|ныш|нэч|нөр|огу|одо|ойг|окр|ом |оод|опт|орм|пке|пто|пты|пыг|раа|ран|рап|рдо|ре |риа|рим|рис|риш|рк |рла|рло|рлө|рту|ру |рун|рчи|рыг|рө |саб|саг|сад|себ|сир|скр|ссс|сүү|таб|там|тап|те |тег|тех|ти |тиг|тия|тку|ткө|топ|тси|тул|тып|тыр|түк|түн|узд|укб|улд|улч|уту|уют|фор|хни|цин|чег|чен|чог|чын|чүл|шме|штү|ый |ыйж|ыйт|ылб|ым |ыма|ымы|ыну|ырд|ырт|ыс |эки|элг|эн |ээл|ютк|яга|яло|ялы|яны|ясы|ңгэ|үзд|үлд|үнэ|үп |үрл|өдө|өзд|өкм|өлү|өмд|өнг|өнд|өнө|өрг|өти|өтк|өтт|өчө| аң| бл| ге| дү| дө| ид| ич| мк| н | ой| от| рг| ре| су| сө| уб| ум| ус| ый| эг| эз| эт| эң| юр|авд|аж |аже|айг|акк|акш|алө|амб|амы|арб|асо|ашу|аян|бак|бая|бек|блб|бле|бун|бъе|был|бөш|вда|вдү|гар|гас|гем|гог|гуу|гыс|гү |гүн|гөл|гөу|дея|дир|дү |дүй|дүр|дөө|еан|ези|екк|екы|елд|елт|ем |еме|ент|ера|ерг|есу|ете|ечи|ея |еял|жеа|жоо|жын|жөр|зга|зго|здү|зим|зом|зор|зул|зөм|иба|ивд|иге|иде|икс|икц|илг|ипк|ире|исд|иси|иту|ичи|ише|йга|йно|йнө|йрө|каа|кже|коз|ком|кою|кпо|кпр|кт |куд|кур|кци|кшы|кый|кыт|кыч|кү |көн|лаг|лбө|лег|лел|лея|лсу|лти|лыб|лыс|лүг|ман|мбл|мбу|ми |мик|мке|мпе|мту|му |мук|мыс|мү |мүн|мөл|наж|нам|нду|ндү|нже|ниг|ном|ноо|нст|нчө|ныс|нүт|нөз|нөт|озг|олс|омб|оми|омп|оно|онс|ооп|опк|оск|от |отп|ош |оюл|пет|пог|пус|раг|рай|рба|рек|рет|рил|ркп|ркс|рст|ртк|рук|рыж|рым|рөн|сам|сас|сди|се |сег|сед|сез|сив|ск |ско|сса|сси|стр|суб|сур|сый|сым|сыя|сөз|тав|таж|тек|тиб|тил|тит|ткы|тоб|тпу|тру|тун|тус|тут|туц|тыю|түс|төл|уба|убъ|узг|укж|ула|улг|умт|урс|уск|уст|уус|уут|ууч|уци|чак|чар|чеч|чин|чиш|чка|чне|чөл|чөс|шаг|шен|шыш|шүр|ъек|ыбы|ыгу|ыжа|ыйм|ыйн|ыйы|ыкп|ымг|ымс|ырк|ыры|ытк|ычт|ышк|ыюу|ыяр|эге|эзү|эко|эл |эс |эти|эчк|эчн|эң |юлг|юмг|юри|юу |янд|ярл|үйн|үйр|үлб|үнж|үсү|үч |өзө|өта|өук",
+    mk: " на|на | пр| и |во | се|то |та |ите|рав|пра|те | не|да | да|ува|ва |ата|но |ој |еко|кој| за| им|ств| со| во|аво|ма |ни | по|ова|ост|от |се |има|ат |ање|ње |сек|ја | сл|вањ|ото|сло| би|ија|обо| ќе|бод|ли |лоб|ста|бид| од|ава|вот|ред|ќе | ил| об|ен |или|при| ко|иде|нос|его|нег|тво| ра|бра|гов|пре|со |ст |што| ни|аат|про| де|раз|ани|ват| др|едн|ест| шт|аци|акв|ако|ено|ове|ови| е |ди |ето|одн|де |нит|од | ос|вен|осн|сно|тит|алн|ени|ран|сто|циј| до| ед|ваа|за |как| ка| си| ја|дно|еме|кон|лно|нов| ст| чо|еди|жив|ние|нот|обр|оди|чов|јат| оп|ви |дна|дру|нац|род|ден|ие |не |тве|чно| вр|век|вни|дни|држ|опш|пшт|шти| це|ара|аро|ед |ели|ело|ичн|ка |луч|нст|сит|цел|ште| ме|або|азо|ашт|бед|без|бот|ван|зем|зов|иот|нув|он |раб|руг| из|дел|заш|ко |лас|нар|ник|пор|тен| жи| зе| ов|им |ист|ита|ков|ло |нак|нет|нио|олн|слу|ти |чув| бе|авн|вол|го |дат|дин|еду|ема|емј|жав|ивн|ине|ки |кот|кри|лит|нив|ово|рем|ржа|тес|јќи|ќи | сп| то|вит|вре|гла|деј|дос|еде|ез |ејс|ење|иво|иту|нап|нем|обе|ода|ора|оре|јст|њет| ли| мо| ре|аа |вно|вув|ги |дув|жен|зво|иви|ии |ико|инс|кви|лни|мет|му |мја|оја|под|ри |тап|тор|уна|ции| го| та|али|аѓа|вој|дек|ети|еѓу|ика|меѓ|огл|оде|оле|рив| бр| гр| кр| ог| су|ади|адо|дит|етн|иве|ипа|лат|лен|лос|мен|мож|ниц|нич|овн|оиз|она|ор |пол|рат|рип|рис|рои|рот|тер|чни|јал| св| ун|асн|вин|вич|гра|жув|зак|зна|ива|ква|клу|ку |над|ори|оти|паѓ|пот|рак|рек|сем|тив|тни|тув|уги|учу| ба| ви| ин| лу| ма| ми|авј|апр|ате|ај |бар|вед|екл|ејќ|иги|ида|изб|ион|ира|ичк|кво|кое|лиг|луѓ|меј|нал|нци|ого|одр|ое |оже|ок |опс|оте|оци|очи|пов|пос|поч|пст|рад|рас|рел|рет|рим|рог|соц|сти|тав|так|тат|тва|тел|тно|тој|уча|уѓе|цио|чај|чит|чле|јав| вк| са| уж| ус|аве|аву|аед|амо|ана|аса|ба |вкл|вна|га |док|едо|ека|еку|ера|ет |зае|збе|ици|кла|лар|лед|лич|нав|нео|огр|оме|ра |рац|сам|сво|соп|спо|стр|ужи|урн|ѓаа|јан| гл| зд| ис| см| чл|азв|анс|ајќ|ања|вал|вер|вет|вра|врз|вја|гиј|гур|дец|дол|дот|еал|ел |ену|еоп|еца|здр|игу|иет|изв|изл|ина|иро|иск|ичу|лиш|мес|мор|нев|неп|оа |оин|олж|опх|ота|пхо|рен|риј|сиг|ски|сме|спр|сре|тич|тоа|тои|тур|уде|усл|учн|ход|цат|ѓун|ња | а | ги| ди| му| ро| те| ум|азу|ак |анц|бир|вај|вид|гле|гол|гон|дар|дис|дов|дом|езб|ек |епо|ере|еси|етс|жат|же |зал|зле|изн|изр|ину|ица|кит|ког|ла |лем|лна|лов|луж|маа|мее|мир|мо |нат|нач|обв|ога|одл|одо|ожа|око|ону|оси|пла|рал|рањ|рес|ржу|рз |рза|риз|рин|рни|ром|си |ска|скр|сни|сог|суд|тву|тст|ту |уг |ушт|ца |чес|чки|чко|ѓе |ѓу | ав| бл| ид| ср| тр| уб| уч|авт|аго|ака|акт|ало|анд|апа|апн|ард|аст|ати|ату|ауч|ачн|бил|бла|бор|веа|вие|вис|вор|гар|гри|гув|две|дви|дењ|дст|евр|егу|едс|ее |елс|ему|ена|енк|ерз|ери|жа |жи |жно|зад|збо|идн|ижа|ило|ими|ин |инт|ити|ишт|кат|кол|кор|лаг|лег|лжн|лож|лја|ман|ме |мин|нау|нда|нек|нки|нте|оби|ов |одв|ола|оли|олј|омо|оно|оод|осе|отн|оце|рач|риж|рит|рно|роб|рск|руж|сањ|сен|сле|соо|сте|сув|тан|ток|тпо|тра|тре|убе|уга|уже|улт|уме|уни|уче|јно| ак| бо| вл| вм| же| ку| па| пл|аде|ажи|азб|ази|азн|ан |апо|апу|аре|атн|ато|аче|бви|би |вес|виј|вла|вме|вои|врс|гру|дав|дал|дик|дле|доб|дре|ела|ем |емо|ешу|жби|жит|зас|зби|зло|зра|зув|инд|исл|каз|кну|кти|кул|леж|лек|лик|лку|лст|лту|маж|мат|мај|мед|меш|мис|нас|нди|нед|нуд|обл|овр|оит|олк|ома|ојн|пад|пак|по |пог|пом|раа|рд |роп|руп|сна|соб|сов|суш|тар|тир|тол|ужб|упр|ура|ури|уст|учи|цит|чин|чиј|шув|ѓа |ѓет| аз| вд| га| дв| еф| зл| ок| он| оц| ск| ти| уг| уп| хр| чи|ави|адв|аже|азл|акн|ала|але|амк|ап |ари|ас |асе|аск|асл|асо|асу|атс|ачи|ачл|аја|ајг|ајк|ајн|бвр|бер|бес|бит|бле|бна|бол|бро|вар|вдо|веч|виж|вик|воз|вон|вст|вте|вто|вје|гио|гит|год|гос|дад|дбр|дво|дем|дет|дзе|диц|дло|дме|дмо|до |дод|доп|дра|дур|дуч|еба|ебн|еви|едв|едм|ежи|еза|екн|еле|елн|елу|енс|ент|есп|ета|ете|етп|ефи|ехн|ец |ече|ечк|жењ|зав|зар|зач|зај|збр|зил|зли|змо|зни|зре|зум|ив |игн|идо|иже|ик |ил |име|инв|ино|инц|иоз|ипи|ири|ирн|исо|ит |ито|ише|иј |каа|каж|кас|кин|кне|ком|кра|кув|ле |лер|лес|лет|лењ|лжи|лид|лиј|лне|лот|лув|луг|мки|мок|мос|мош|мји|наа|нај|нбр|нва|нез|нец|ним|нол|нск|нсо|нти|нтр|овс|одб|одз|одм|оду|оед|озм|озн|ока|окр|ому|онб|онт|опо|опр|опу|орм|орс|осл|оср|отк|отп|оче|очн|ош |ојб|пат|пи |пит|пни|пно|пое|прв|пус|пуш|рам|раѓ|рве|рди|реб|реч|рир|ров|рол|рос|роц|рст|рув|руч|сат|све|себ|син|скл|ско|снс|сок|сор|сот|соч|спл|тај|тви|тех|тењ|тик|тка|тот|точ|тро|тру|тск|тус|ужу|ум |упи|уру|ус |фик|фор|хни|хра|цед|цен|ци |цин|цип|че |чел|чен|чи |шен|шта|јак|јба|јго|је |јит|јки|ќел| ап| ва| ве| ге| ду| ек| зн| ле| ом| ор| ру| ту| фо| че| ју|абр|авд|авр|ага|адл|адн|аен|ажу|ал |аму|ане|апк|апс|арв|арс|аув|ачк|аш |бат|бда|бли|бов|бој|бре|бри|бун|важ|вау|вач|вда|вел|веш|вио|вир|врд|вро|гаа|ган|гаш|ген|гна|гне|гну|гре|дба|деа|деи|див|диг|диу|диј|длу|дне|дуа|дух|ега|еда|едб|еен|ежн|езу|еи |елб|ене|енц|еот|епи|епр|ерб|ерк|есу|етм|ету|еху|ешт|ејз|жба|жни|заа|заб|зат|зда|зди|зик|зин|зир|зул|ид |иду|иед|ижу|изд|изи|иит|ики|икн|ику|икц|ини|инф|исд|исе|исн|итв|иум|ифе|ице|кад|кио|кло|кои|крш|кт |кци|лба|лез|лив|лиз|лиц|лск|лти|маг|мал|мац|маш|мел|мер|ми |мит|мно|мов|мот|моу|мск|нае|нен|нер|нес|нех|неј|ниж|ниф|ниј|ном|нфо|об |обд|обу|ожб|озд|ои |ол |омс|они|орг|орт|отв|отт|оту|отч|оуп|ојо|пац|пис|пки|поб|пон|псе|пув|рба|рва|рга|рго|реа|рез|реп|рии|рки|рма|рми|рту|руш|рша|са |сди|сег|сењ|сив|сир|сла|соз|сур|таа|там|твр|тек|тем|тет|тиг|тие|тиј|тма|трг|тти|тук|туѓ|тчи|уал|уве|угл|угн|уго|уд |удо|ука|ума|уми|умн|упа|уро|ухо|уше|уѓи|фес|хот|хум|цет|чењ|чка|шат|шењ|шт |штв|ѓањ|ѓив|јаз|јзи|јна|јот|јур",
+    mn: " эр|эрх| хү|ний|тэй|эй | бо| бү|ийг|эн |хүн|ан |ах |бол|йн | ба|ийн|оло|уул| ха|эх |ий |бай|бүр|гаа|йг |рх |гүй|рхт| бу|хтэ|үн |аар|үр | хэ|он |үнд|лэх|өлө|лах| за| ор|лөө|аа |ар | үн|үй | ул|эр |ула|эл | гэ|хий|ын | ни| ху| чө|сэн|улс|чөл|өөр|ндэ|сан| ту| ёс|ох |үлэ|лон|ны | тэ|лаг|оро|эд |үүл| нь|гээ|нь |ээ | нэ| ч | ша|ай |лс |гуу|дэс|тай|хан| то|хам|ыг |ээр| тө| хө| эд|гэм|лго|лий|рол|рэг| ал| зо|бую|дсэ|лд |уюу|эг |юу |үни|ад |ол |эрэ|өөт| дэ| са| өө|йгэ|лла|сон|хар|өтэ|ава|гэр|лга|лов|рга| тү|ага|айг|нд |төр|эгт|эни| ав| ам|аал|арг|бус|вср|гий|луу|нэг|рий|хуу|хэн|өрө| мө|айх|амг|дэл|мга|ой |рла|той|ура|хүр|эс | ар| би| га| ол| со| ял|аг |ал |ана|ард|дээ|мий|овс|хэр|үйл|өр | аж| та| үй|аан|аса|вах|гөө|илг|ин |йгм|йх |лал|оо |сро|тэг|хүү|эдэ|үрэ|өх | яв|ата|бие|лаа|олг|ори|тгэ|хээ|үү |өн | да| хи| хо| эн| үз|алд|али|арл|ас |га |гла|гох|гтэ|гш |зор|их |лох|лын|лэл|лэн|мөр|раа|рон|рхи|тоо|эгд|эгш|эж |өри|өөг| ад| мэ| су| ши|ади|алу|амь|бүл|гми|дил|длэ|йгу|лан|лж |лыг|лөх|нха|олц|онг|үүн|өг | эс|айл|анг|аши|бүх|ваа|гдс|даг|дар|ива|ийт|ил |лив|маа|нэ |огт|охи|ргэ|рил|тог|шин|эм |эрл|үл |үрт|үх | ду| нө| шү|ааг|аж |ала|ам |ахи|дла|жил|йлд|йнх|ль |лүү|но |онд|рлэ|ртэ|сгү|сто|уу |уха|шгү|эмж|эрг|ээн|ёсг|өгө| эх| үү|аас|ажи|айд|айн|алт|алы|ама|амж|аху|дах|дөл|игл|лха|лцо|лээ|мт |мэн|мөн|на |наа|ндс|омж|ор |орн|рам|рөн|сад|тус|тээ|ули|улл|уса|хэд|шаа|шүү|эмт|энэ|этг|ялг|ёст| бө| на| өм|агл|аха|бөг|вар|гэх|дал|дур|зай|ирг|лшг|мар|нга|нөх|огд|ож |олн|рал|рдл|рүү|рөө|сай|стн|тий|тни|хув|ъяа|эдл|эмэ|эст|эхү|өд |өнг|өө |өөд| зү| зө| ил| шу| эв| ям| үл|агы|вэл|гав|гах|гто|гэж|дэв|зох|зэл|ие |илх|йлш|лмө|лсы|лцэ|мж |нго|одо|олд|оор|руу|рэл|рэн|сни|сур|сын|тун|тэд|түм|түү|уда|уй |унх|уур|хаа|хаг|хад|хир|хур|хэл|хөд|шаш|эвс|эсн|эхэ|ээд|ээс|язг|яма|үзэ|үйг|үүх|өдө|өлм|өхц| аш| хя| эм|аат|агд|агу|айв|айс|ара|аръ|арь|вуу|вшө|гар|гат|гда|глэ|дол|дэх|дөх|зам|зах|зга|зүй|зөв|иг |йц |лгү|лда|лдэ|лно|лом|мд |мжи|мжт|мьд|мэд|оол|осо|охо|ран|ргү|риг|рны|рхэ|рчи|ръя|свэ|тул|улг|уль|ус |ута|хгү|хин|хуй|хэм|хяз|хүл|цаа|чиг|члө|шөө|энд|эсв|яал|үйн|өвш|өхө| ан| дө| ну| үе| өв|агү|алл|аль|ари|арс|арч|бод|буй|вал|влэ|вч |гон|гт |гын|гэн|дра|дын|дэн|ед |жий|жла|заа|зас|зүү|ийх|иол|йга|йда|йдл|лам|лгэ|лца|лэг|нги|нгу|нхэ|нэр|од |рги|рса|рт |сах|сгэ|слэ|сны|тах|тох|тух|уви|ур |хио|хоо|хөг|хөм|хөр|цох|шуд|шүт|ьдр|эвл|элц|элэ|эрү|эсл|үед|үзү|үли|үүс|өгж|өм |өрт|өөл| ах| до| зэ| л | ти| ух| ча| чи|айр|амт|анд|анх|аны|арш|боо|гаг|гдо|гжү|гоо|дий|доо|дуу|жээ|жүү|зан|зар|ийл|йлг|йлэ|йса|йтэ|лбо|лол|лоо|лт |лта|лто|лтэ|мжэ|мэг|ндл|ндо|ноо|ныг|нэх|ойл|олб|олы|орх|ото|охг|рдө|рта|рьс|сга|сды|таа|тал|тлэ|туу|тэт|улж|усг|усд|хай|хал|ход|хол|хцө|хүй|цөл|шиг|ший|шил|эвш|эгж|эдг|элд|элж|ээм|ява|явд|яву|ёс |үгэ|үйц|үмэ|үсэ|үтл|үүд|үүр|өлд|өрд|өс |өөс| ас| ги| ер| жу| зу| ир| ой| сэ| ур| цу| ёө| үр|аад|авч|алб|алз|асл|атн|ашг|бур|вий|вши|вэр|гад|гал|гдэ|гж |гиш|гно|го |даа|дан|двэ|дгэ|длы|дор|дот|дох|елү|жир|жли|жлэ|жтэ|жур|зэр|иар|иел|ийс|илл|илт|илц|имд|ими|инж|ира|ишү|йва|йсэ|йти|йхэ|лаж|лба|лдо|лдс|лза|лиа|лнэ|лса|лтг|лхи|лэж|лэс|мгө|мжл|мьж|мээ|мүү|нал|нар|нас|нгө|нжл|нох|нээ|нёл|огн|ойг|олт|ооц|оцо|рви|рд |рно|рог|рха|рч |саг|сла|суу|сэл|таг|тга|тны|тор|тэр|түг|төл|уны|урл|урт|уру|ууд|уун|хас|хдэ|хни|хүм|хүс|хөл|цож|цэн|цэх|чим|чих|шан|шат|шим|ших|ьжи|эли|элн|элх|эхд|ээг|ээл|яас|ялл|ёил|ёлэ|ёсн|ёөл|үйд|үмү|үнэ|үнё|үрг|үс |үхэ|өв |өлс|өлт|өмг|өрг|өрч| но| эз| эц| яс| өн| өр|аги|агц|адт|аду|ажл|амд|ары|аср|ач |ашн|баг|бог|вда|вны|всг|всэ|вчл|вьд|гам|ган|гмэ|гос|гта|гтм|гцх|гэв|гэд|гө |гөл|дло|дта|дэг|дэт|ерө|жто|ир |йвн|йго|йдэ|йл |йтг|лин|лма|лцу|мни|мнө|мол|мши|нут|нуу|нх |нхи|нхү|нэм|нө |одл|оом|оон|оос|орш|оёл|раг|рах|рда|рсө|рхо|рчл|рши|ршл|рыг|рэх|соё|сра|срэ|ста|сэр|тан|тмо|тод|тэж|төө|увь|уд |уйц|улд|урв|ууц|хих|хой|хор|хцл|цуу|цхү|чла|шны|ьс |эзэ|элт|эмд|эмш|энх|эри|эхи|ээх|ял |яс |ёлы|үмн|үтэ|өмн|өни|өнх|өрл|өрс|өрү|өөн| бэ| дү| жа| ит| ма| ня| он| оч| те| уг| уд| ут| ца| ян| үг| өт|аав|аах|аву|авъ|ада|адв|азр|айж|алг|алц|амр|амч|арв|арх|асн|ате|ату|ахд|аяа|ба |бад|бар|бат|бах|бут|бэл|бэр|бүт|бөр|ван|вдл|виж|вил|вис|врэ|вца|въя|вё |вёи|газ|гай|гас|гду|гдө|гжл|гло|год|гож|гой|гчд|гыг|гэл|гүү|дав|даж|даш|два|дир|длү|днэ|дог|дсо|дут|дёи|дөг|дөж|дөө|енэ|ери|ехн|жам|жуу|зая|зра|зуг|зуу|зэм|иал|игд|иен|ижу|ийд|ийм|ики|илд|илр|илс|илү|ино|ирд|ирх|иса|итг|йдв|йи |йлу|йлё|йм |йр |йра|йсн|йха|йхн|кий|лбэ|лбө|лдв|ллы|лна|лны|лрэ|лтө|лчл|льч|лэв|лёи|лөг|мат|мда|мра|мта|мтр|мч |мчи|мчл|мь |мэл|мэр|мөш|най|нди|нз |ник|нир|нйи|ног|нс |нхн|нцг|нял|овч|овё|ог |олж|олч|они|оно|онц|оог|оож|ору|орч|охы|очи|оёр|ргө|рдё|рж |риа|рлө|рма|рох|рсэ|ртө|рхл|рчн|рш |рьц|рээ|рөх|саа|сам|слы|сна|сув|сэг|сөн|тад|таж|тар|тас|тач|тгү|тер|тех|тлө|тра|тэв|тэл|тэх|төн|увц|угл|угт|угү|уди|уйн|улм|улн|уна|урх|урч|усл|утг|уту|ууг|уут|уух|ух |уца|уцл|хах|хаш|хда|хди|хло|хны|хоё|хун|хыг|хэв|цан|цас|цах|цго|цлу|цлө|цог|цоо|цуг|цуц|цэг|чад|чан|чдө|чил|чло|чни|шал|шга|шгө|шлу|шуу|ьд |ьда|ьст|ьца|ьчл|эв |эвр|эвё|эгл|эгэ|эгү|эжл|элб|элг|эмч|эрч|эсэ|эцэ|ялх|янз|ёих|ёр |үги|үд |үдн|үйс|үлг|үлц|үнй|үнс|үри|үрс|үсг|үхд|үхи|үүг|өвч|өгд|өгч|өж |өл |өлб|өлү|өмч|өнд|өрх|өтл|өшг| ай| ач| аю| гү| жи| иж| их| иш| му| од| ою| ст| сү| уч| цэ| чу| эл| эт| яз|ав |авс|авт|агт|алж|алм|алш|амб|анц|арм|арн|асс|ахы|ачи|аюу|бал|бас|бий|биш|бле|бос|вло|всн|вта|вшү|вөл|гач|гдв|гдм|гин|гс |гса|гтн|гч |гшл|гэг|гэс|гөн|двө|дги|дин|длө|дма|дни|дож|дэд|дүр|дүү|ей |ерт|еэ |жиг|жид|жло|жлы|жру|зав|згу|злэ|зов|зон|зэв|зэж|зүг|зөр|ивч|игш|ид |ида|иеэ|ижи|ийц|или|илэ|имт|ина|инд|инт|ирт|ист|иул|иш |ишр|йж |йжр|йла|йли|йлт|йна|йрн|йс |йсг|йцэ|йцү|йчү|лас|лей|лжл|лзл|лйд|лли|лсу|лсэ|лты|лхт|лэр|лөн|мад|май|мал|мбл|мдэ|мсо|мтл|мты|муш|мэт|нан|нгү|нос|нот|нта|нца|нци|нчл|нэн|нөл|нөө|овл|омс|орл|ос |оху|оюу|рва|рды|рив|рим|рли|рло|рлү|рмэ|рн |рна|ром|рхг|рхш|рхү|рцг|рэм|рөл|сал|сий|сло|сно|соо|сор|сох|сру|сса|схү|сэт|сүс|сөг|тат|тла|тно|тол|тыг|тын|төг|уга|угс|ун |ург|урм|ухи|уц |учи|ушг|хид|хил|хис|хиу|хт |хтө|худ|хшэ|хын|хэг|хүч|хөн|хөө|цаг|цал|цги|ций|цли|цси|цэт|цээ|цүү|чар|чин|чир|члэ|чух|чүү|шги|шла|шли|шрэ|шээ|эвэ|эгч|эди|эдн|эйч|элз|элл|эрж|эрм|эрц|эср|эсх|эт |этэ|эхг|эцс|юул|юун|ёсл|ёсо|үг |үгү|үди|үлж|үлй|үлс|үлт|үнч|үрн|үчи|өгс|өлх|өнц|өрж|өт |өц |өөц",
+    ru: " пр| и |рав|ств| на|пра|го |ени|во |ове|ани|ть | об| ка|ия | в | по| св|сво|лов|ния|ет | че|на |ост| со|ажд|ело|ие |чел|ест|ова|ый |аво| им|век|име|ого| не|ать|льн|каж|ние| до|жды|но |дый|ли |ек |еет|мее|при|ся | ра|обо|ых |ван|его|или|бод|воб|тво|ва |ии |лен|ом |аци|ой |тва| бы| за|ных|бра| ил|енн|их |аль|ми |ьно|дол|ое |олж|сти|то | вс|нов|сто|ног|ти |ако|ию |раз| ос|ий |не |пол|про|тел|тор|ель|нос|оди|щес| во|быт|лжн|ным|ыть|общ|ред|сов|сту| ег| ко|жен|зов|туп|тьс|ься| ли|бще|пре|сно|вле|нны|оль|ран|рес|тве|шен| де|ват|все|ей |нно|чес| ст|аст|жно|как|ном|обр|одн|осн|осу|чен|ым | мо|иче|ля |ак |вен|вер|оже| ни| от| то|бес|есп|има|нац|ним|нию|ны |ото| ме|азо|ем |ите|кот|мож|нии|ное|она|род|стр|ьны| вы|ам |дно|дос|ду |оро|печ|рин| бе| дл| к | та|аро|вов|гос|ден|дин|для|ежд|ен |лич|нар|обе|ста|тоя|уще|ую |ход| го| др|ава|авн|ами|ате|дов|дру|дст|ели|еоб|еск|ече|ка |льс|нал|нен|ной|суд|тер|тра|уча|что|ые | бр|ав |ащи|ая |вно|гра|еди|едс|ере|жет|защ|нст|оци|под|рак|сем|соц|спе|сре|уда|циа|ции|щит| ре| се| чт| эт|ве |вое|дей|ейс|изн|ион|кой|ни |ово|олн|пле|пос|слу|так|тся|упл|ьст|арс|вны|ерш|зак|иал|имо|йст|ког|кон|му |ник|овн|од |рат|рга|руг| ин| сл|аве|без|вам|вит|вля|воз|вол|дар|жде|зна|икт|ина|ить|ичн|кто|ний|нич|оде|оду|осо|от |по |раб|ри |ров|рст|рше|ско|сущ|ту |чно|ыми| ис| тр|ави|ано|гат|жда|жду|им |ира|иск|иту|клю|луч|люч|нак|нас|овл|огр|раж|рем|спр|сть|тру|уги|яни| гр| жи| сп| те| уб| ус|або|авл|анн|ающ|беж|бла|вст|ека|есс|ива|ино|ити|лаг|льз|ман|нео|ов |орг|рас|ром|руд|се |соб|сос|убе|ций| вн| из| ор| су|аже|ах |бо |бот|бхо|бъе|вед|вою|ган|дим|дит|едо|ез |емь|ено|етс|ибо|иги|ими|ине|ини|инс|лас|либ|лиг|лно|ло |меж|ную|ные|обх|оры|оти|ою |рел|сод|удо|упа|щег|ют |ющи|явл| бл| вр| лю| од| пе| с | ср| ув| це| яв|ара|бе |бы |вом|вор|вре|выб|гла|да |дер|дет|дли|едл|емя|ерж|ечи|зац|иво|иза|лет|лив|мя |нач|низ|ный|объ|ода|оле|ому|оре|оян|пер|пор|рит|рои|тно|тре|ты |цио|чая|ъед|ьзо|ью | вк| их| ог| пу| уч|ают|был|бяз|вин|вкл|вни|вои|дам|дан|дек|дея|ее |екл|ери|жиз|зан|зво|изв|кла|ков|кое|ком|лар|лже|люд|мат|мая|мен|мог|обя|озн|оиз|оих|оли|ори|оср|оящ|пут|рац|ржа|риз|ряд|сам|сео|ски|сси|тав|тан|твл|тем|тив|тны|тол|цел|цию|час|чив|щих|юча|яза| бо| ви| же| ма| ми| он|аго|аде|азв|анс|асс|бир|бор|бст|важ|ваю|веч|вис|гих|дел|ди |дны|дун|еми|ех |еют|жан|жны|за |зав|зви|ких|ко |лит|льк|ляе|мею|мир|мущ|нан|нах|неп|обс|овы|оло|они|ора|оря|офе|пам|рез|рен|рим|роф|сио|спо|та |тви|тич|тур|ува|ужд|уна|уст|уте|фес|чае|чит|чны|щей|ыбо|ыло|ько|эти|ютс|яет|ям | ас| вл| ро|ает|ака|аки|али|амо|ату|бол|вла|вой|вос|гим|гол|дат|две|дде|дог|ды |ежи|езр|еля|ему|ены|ерг|ете|ждо|зни|ида|иму|ины|ито|лад|лед|луж|льт|мьи|нег|нол|нош|ну |нци|одв|одд|озм|оин|он |оно|опр|отн|оше|пат|пла|ра |рал|рио|рот|рые|сле|сло|сте|тат|тей|тои|уль|урн|щем|ьи |это|ядк|яте| бу| ди| ем| оп| са| уд| чл|ага|ае |аке|аку|ану|апр|ауч|ахо|ача|аче|бно|буд|вид|вме|вну|ву |вым|гии|гре|дис|ебе|еза|еле|емо|емы|ене|ень|епо|ера|есл|есо|етв|ети|еян|жбе|же |жес|жищ|жна|зби|змо|зра|зы |иац|ивы|ией|изб|инт|инц|ипа|иси|иты|ици|ицы|ише|ище|йно|кат|ке |ким|кри|лат|лиш|лос|лям|мес|мин|мо |мое|мор|мос|нау|нез|нте|нуж|нь |няе|обл|обы|огл|оды|оег|оей|оем|ожн|оля|опо|ор |оюз|пны|пок|пон|ре |реч|рия|рны|рог|рон|рос|себ|сех|сим|скр|сою|ссо|сст|стн|тв |тех|тие|тих|тиц|тоб|тог|той|том|тью|уд |уде|ужб|упн|ут |учн|цие|цип|цы |чал|чле|шие|ща |щую|ья |юди|юзы|юще|яем|яще| гл| ед| ку| му|аем|аза|азл|айн|асн|асы|аще|бви|бов|вел|вес|вие|вия|вод|вся|вып|выр|выс|гио|гру|даю|дич|дко|доп|ебо|ед |еде|еже|ект|ена|енщ|ерр|ета|еть|еят|жив|жил|жит|жчи|зат|згл|зда|зли|зны|ивн|иод|иоз|исп|ись|ихс|ичи|ища|ият|каз|кий|кул|лаш|лис|лищ|лне|лож|люб|ляю|мер|муж|мый|нам|нап|нев|нит|нщи|обв|ови|одо|ожи|озг|озд|оки|опе|опл|орм|осл|отр|рах|ращ|реб|рис|рно|рой|рри|руж|руп|ска|со |соз|сы |сь |сяк|тай|тет|тию|тия|тож|тст|уве|ужч|упп|упр|уро|усл|фор|хся|чер|чин|чия|шат|шей|щее|щим|щин|ыпо|ыра|ьту|ьше|эта|юде|яли|ях |ящи|ящу|яющ| ав| вд| вз| вм| вх| да| ес| зд| мл| пи| сч| тя| уг| ун| уп| ур| ут| ух| фо| ху| эф| яч|абс|авт|аву|агр|ада|азб|азу|аим|ай |акж|акл|акт|ала|ало|ана|ане|аня|ару|аса|аси|асл|асо|ати|атн|ато|аты|ачи|ачн|аше|аща|беи|блю|бое|бсл|бую|вал|вар|вах|вдо|вет|вза|виг|вне|вра|вто|вхо|вши|выв|вые|вых|вья|гам|гда|гию|гло|гоп|гши|дав|дае|дви|де |деб|деж|дем|див|дил|диц|дка|дне|дни|до |дож|дор|дут|ебн|еви|едв|езд|езн|езу|еих|ейк|ела|емл|енч|епр|ерп|еся|етн|ефа|ехн|еча|ечн|еша|ея |жел|жко|зад|заи|збр|звр|зде|здо|зло|зме|зне|знь|зул|зум|зую|ивш|ига|игш|иде|идн|иес|изл|изм|ико|имы|ин |инв|ину|иня|иор|ирн|иро|ист|ися|ита|ифи|иц |ичт|ищу|иям|йко|йну|кас|кач|кже|кид|кие|кос|кра|кти|ку |кус|кую|лаж|лах|лее|лез|лей|лид|лиц|лня|лол|лью|лял|мал|мед|меш|мла|мле|мно|мок|моп|мощ|мых|мью|мья|наг|над|нва|неж|неф|них|нну|ноз|нск|нче|ньш|нят|обн|овм|овс|овь|огд|ожд|озв|ойн|ока|окр|омо|онн|оны|орж|осс|ося|ота|отд|оты|ощь|оят|па |паю|пим|пищ|пом|поп|ппа|реп|рже|риа|рик|рм |рое|рпи|руш|рый|рых|сае|сии|сиф|скл|ску|сла|сог|соо|сот|спл|ссе|суж|счи|сше|сяг|сящ|тар|таю|тву|тен|тес|тиг|тим|тни|тяж|уг |удн|уду|уже|ужи|уни|усс|утр|ухо|уют|фал|фек|фиц|ффе|хни|худ|цин|цир|чай|чащ|чей|чну|шее|щат|щаю|ще |щед|щен|щий|щу |щь |ыби|ыва|ысш|ьзу|ьси|ьта|эфф|юбу|юче|ючи|яга|ядо|яжк|яки|ятн|ять|яче| ак| ар| ва| ве| гд| ге| дн| ду| зн| ид| кр| мы| ну| ох| пы| ри| ти| ул| ха| цв| ча| эк| юр| яз|адл|амб|ан |аны|арв|аре|асп|атс|аха|аша|аях|бег|бле|бли|бог|бос|боч|бре|бря|бща|бщу|бым|вае|вещ|вии|вий|вог|вын|га |где|ген|гна|гне|гну|гов|гро|гут|дах|дач|деи|дик|дле|дня|док|дом|дтв|дух|дъя|дых|дящ|ебр|ево|ега|едн|едъ|еи |ейн|еме|енс|ент|енц|еня|еот|епу|епя|ерд|еро|еру|еса|есу|есч|еши|еща|еще|жат|жаю|жи |зал|зап|згн|зму|зре|зык|ибе|ив |иве|иду|ием|ижа|изг|ика|икц|илс|инф|исд|ису|исх|ит |ица|йся|кам|кож|кор|кро|кта|кте|ктн|кту|кци|ла |лач|леж|лем|лея|лий|лко|лся|льш|лях|мац|мбл|ме |мей|мет|мея|мил|мит|мич|мой|мом|мот|моу|мпе|мым|мыс|ная|нде|неб|нер|нес|нет|ниж|ниц|ноп|нтн|нут|нфо|ня |нял|огу|одс|одт|одя|оис|ок |око|ола|олк|олу|оме|оми|омн|омп|онд|онс|ооб|оот|орр|осв|отв|отп|отъ|оуп|охр|оче|пе |пет|пов|ппе|пуб|пус|пыт|пят|рва|ргн|рго|рди|реж|рек|реш|рещ|ржи|риб|рив|рид|рии|рий|рма|рож|роп|рре|рса|рск|ру |рук|рша|са |све|сди|сив|сил|ск |сли|смо|сок|сса|ссм|ссу|стя|су |суб|сув|суг|сур|схо|сче|там|тац|тде|тды|те |тий|тир|тит|тка|ток|тпу|туа|тус|туц|тъе|тях|уал|убл|убъ|уга|угн|уго|укт|улу|умн|умо|урс|уса|уси|уск|ута|ухе|уци|уче|учш|уша|уше|уща|ха |хар|хе |хож|хра|цам|цве|цен|чат|че |чег|чи |чше|шае|шаю|шил|ъек|ъем|ъяв|ыка|ыл |ыну|ысл|ысо|ытк|ьна|эко|юбы|юри|язы|яко|янн|яти|ятс",
+    sr: " пр| и |рав|пра| на|на |ма |да | св|има| по|во |ко |ва |ти | у |ако| да| за|аво| им|ост|сва|вак| ко| сл|је |ава|ња |не |ом |но | не|кој| др|им |их |сло|обо|бод|или|ли |лоб|сти|ју | ра|ств|јед|ог | би| ил| је|при|ста|ње |ања|ити|ова| ос|ање|вањ|едн|нос|ају|се |ја | де|дру|ни |про|ује| су|ово|род|циј| ни| се|ија| об| од|жав|оја| ка| ст|авн|ве | из|држ|ени|нов|ржа|аци|вој|ним|них|ран|су |гов|дна|ове|оди|осн|ред| тр| ње|за |одн|сно|тва|ара|бит|де |ичн|пре|ту |шти|без|вно|ву |ења|оји|раз|реб|тре|њег| са|аро|еђу|ка |ода|сво|чно| кр| ов|аве|бра|вољ|ду |ико|ло |ме |нак|ном|сту|тит|што| вр|алн|ан |ашт|вим|дел|дно|его|ком|нар|ник|нст|ошт|пос|пош|ји | до| мо|ављ|ани|жив|заш|ку |нац|ног|рив|тав|те |туп|њу | бу| ли|анс|ба |буд|дни|ено|ика|кри|ла |ну |руг|сме| ме| см|вич|еба|еди|ист|ови|ој |пор|рад|то |уги|уде|штв| он| оп|ави|ао |вар|вре|вља|дст|езб|збе|ива|иту|као|кол|од |пот|рем|сам|ст |тво|тер|јућ|аст|беђ|вни|гла|ем |ена|ере|иви|ило|ица|ниц|обе|ора|оју|рак|руш|слу|тву|ушт|ца |њен| бр| ве| зе|ада|акв|ама|вер|ела|еме|емљ|ен |ест|зем|как|лас|мај|међ|нич|овн|оду|оје|под|пун|пшт|ра |рим|тно|шен|ште|ђен| бе| шк| ја| љу|ати|аје|бил|врш|диц|дск|едс|еза|зак|зна|ке |кла|ког|лов|луч|мен|она|опш|оро|рот|са |сви|тан|тич|тра|удс|чов|шко|људ|ће | ми| те| чо|амо|ват|гра|дов|же |збо|иво|ира|ите|ице|иче|ичк|иње|лик|мов|мор|нап|ову|огл|рац|риј|ужи|уно|упа|це |ци |јав|јал| пу| ро| ус| уј| ци| ће|азв|ак |аки|аку|ате|ању|век|вен|вин|вог|гим|дињ|дос|зај|зво|изв|имо|ици|ије|кон|кљу|лно|нез|оже|оло|оно|оља|рањ|рог|рше|сле|сре|сто|тив|тни|тов|уна|уча|уче|учу|ући|циљ|чај|чуј|ђењ|ђуј|љан|љу |ључ| во| жи| му| со| уж| уч|азу|бав|вај|вих|вот|ди |ез |ека|екл|ене|ењу|ина|ине|ију|кар|лич|мог|мож|нас|оба|оде|они|оти|оци|раж|рај|рен|рои|ски|соц|тањ|упр|ују|чењ|љењ|њем| гл| гр| ик| ин| ма| ог| ск| ср| уд| ук| уп|адо|апо|аса|атн|бор|ви |вна|вом|вуј|дек|дец|дим|ебн|ева|еви|еду|еко|ели|ело|ери|етн|еђе|ење|жен|зад|зап|звр|изб|изн|ки |лар|лат|лед|мир|му |нит|огр|опр|осл|отп|отр|ојо|ољн|пад|рас|рат|рет|риз|све|ску|сни|тве|тељ|тој|тпу|укљ|уме|учн|чес|чко|чна|ђун|јан|ље |љно|ћи | ва| ок| с | та| ум|ади|азл|али|апр|вез|виш|вод|гих|гу |дин|ед |ера|еса|ељи|жно|зли|ив |изр|ишт|ким|ких|лиц|лни|мет|нач|ноп|обр|огу|оис|омо|оре|отн|оту|пла|пов|пол|рал|рис|рит|рно|рск|скл|сте|суђ|тар|ужб|уст|уђе|цу |ђу |љањ|љи |ћу | бл| вл| ку| ут| чл|аго|ад |ано|ану|апа|асн|ауч|аче|бла|бне|ван|вис|вла|вор|га |гле|гну|гос|дар|дго|дит|док|ема|епо|ета|етк|еца|ељс|зав|здр|зум|инт|ион|ипа|исн|ису|ито|ише|ији|иље|иљу|кад|кве|кул|лаг|лан|лен|лим|лит|лиш|лне|луж|мат|мер|мо |мљу|нал|нау|неп|нис|нте|нут|одг|оле|оли|оме|ор |ори|очи|ође|оље|пом|пус|ре |рес|рил|рип|роп|рођ|руж|сањ|ско|стр|та |тви|теж|удо|удр|уже|ужн|улт|усл|цио|чел|чит|чла|шењ|јањ|јем|јих|јом|јој|ља |љав|љев| а | ак| бо| га| го| ду| же| зб| о | пл| си| ун|абр|аву|аду|адњ|ажа|ажи|азн|ака|акт|ам |анд|ард|аре|арс|асе|ата|атс|ату|ац |бе |бед|би |бог|бље|вес|врг|вље|гру|гур|дан|двр|дје|ега|еда|емо|жбе|жи |заб|зра|ивн|игу|иза|ике|име|иск|ицу|ичу|иша|ишљ|каз|кви|кра|куп|лаш|лту|миш|моћ|муш|над|нањ|нда|нек|ниж|овр|одв|одр|одс|одј|око|ола|олн|опт|оси|оћ |пај|пог|пон|пој|пту|ргн|рд |рек|ређ|роб|ров|ром|руп|сиг|ске|так|тем|туж|тур|уда|ума|уни|упк|упн|ура|урн|усм|ут |ушк|уће|че |чне|чу |ша |шав|шка|шље|јам|јат|јим|љст|њим| ба| ви| гу| ди| ег| зд| ис| књ| ле| ну| ом| ор| от| сп| тв| уб| уг| уз| хр| чи| шт| њи|аже|аке|акн|акљ|ала|анк|ант|апу|ар |ари|арц|атр|ахт|ача|ачи|ачн|аше|аја|ајв|ајк|ајн|бар|бес|бир|бић|бно|бол|бро|бу |вал|вед|вет|веч|веш|већ|виц|виђ|виј|вне|вну|вос|вра|врс|врђ|ган|гар|гањ|гзи|гон|гоњ|губ|гућ|дак|дбр|дви|дем|дећ|дик|дил|дис|длу|дмо|дну|доб|дом|дра|дуж|дуј|евн|ег |егз|егу|едв|ежа|ези|езн|ек |ему|енс|ену|енц|еро|ерс|еру|есп|ехн|ецу|еша|ењи|еће|ећу|жа |жбу|жев|жењ|жим|жња|зах|зва|зви|зир|зис|зри|зуј|идн|иже|ижи|из |изд|изл|ими|инв|инд|ини|ину|ио |ирн|иро|итн|ихо|иђе|ића|каж|кат|кву|кло|кна|кре|крш|кте|књи|лам|лап|лек|лес|лет|лењ|лид|лиј|лну|лоп|мев|меш|мин|мок|мом|мља|мљи|мљо|нат|нај|нва|нди|нев|нег|нем|нео|нес|ниј|нко|нол|ној|нск|нти|нуж|нуј|нци|оби|обу|ога|ого|одб|одл|одм|озв|оиз|ок |ока|окр|оку|он |оне|онс|опе|опс|опу|орг|осе|оср|осу|от |оње|па |пац|пач|пањ|пе |пељ|пи |пко|пна|по |поб|поз|прв|пст|пуњ|пља|рве|рга|реп|рир|риц|рос|роч|рпе|рст|ру |руч|рци|рша|рши|рђе|сав|сар|сед|син|ска|скр|сма|сну|спл|спр|суд|суп|тај|твр|тев|тег|тен|тех|тењ|тим|тин|тиј|тка|тку|тор|точ|трп|тру|тск|туд|убе|убљ|упи|упо|упљ|утв|уто|учи|уње|ућа|ућу|хва|хни|хов|хра|хте|цам|цат|цим|чањ|чиш|чиј|чка|чни|шањ|ши |јач|јев|јке|јни|јум|љал|љам|љив|љом|њањ|њењ|њиж|њих|ћа |ћав|ћел|ћен|ћим| ге| еф| ид| сх| ти| ту| ур| ух| ча| ши| јо| њо|авд|адл|адн|адр|ажн|ажњ|азо|але|ами|апш|арв|арн|ару|аси|асп|ат |аха|аца|аша|ашњ|ађа|ајњ|аље|аће|бда|бег|бзи|био|бли|бој|бољ|бре|бун|бух|бја|бје|важ|вас|вде|вељ|вир|вит|вуд|ген|ги |гне|гог|гње|дај|даљ|дба|деј|дле|дне|доп|дре|дуз|дух|дње|дњи|дњу|егн|едб|еде|ежи|ежн|ежњ|езе|ект|еми|еоп|еот|епи|епр|есе|ет |ету|ефи|еча|ечн|ечо|ешт|ешћ|еђа|еје|ељ |ећо|жан|жат|жио|жни|зал|зам|зац|зе |зик|зим|зла|зло|зне|зни|зон|зу |ибе|ивр|игн|иде|ижа|ин |ире|ири|исл|исп|ита|итв|ијо|иће|кас|ква|кво|ков|кт |кти|лад|лаз|лаћ|ле |леж|лна|лож|лта|мач|маш|мељ|мис|мих|мно|моу|муч|мље|нав|нер|неч|нећ|низ|ниш|нод|обд|обз|обл|обј|обљ|опх|оса|оте|отч|оуп|ољш|пис|пит|пку|пни|пу |пут|пхо|пци|пше|рам|рах|раш|рађ|рва|рго|рез|рењ|ри |риб|рин|рна|руј|сад|сву|сил|сис|сли|сна|спи|спо|суб|сув|схв|тал|тат|тиг|тир|тиц|тић|трг|тст|тум|тус|туђ|тчи|убј|уве|угл|уго|угњ|уду|уз |узи|узн|умн|умо|уму|уну|упу|упц|упш|уро|уса|уте|утр|уха|ухв|уху|уђи|фик|ха |хап|ход|ху |цањ|чан|час|чен|чил|чин|чињ|чки|шај|шир|шту|шњи|шћу|ђал|ђај|ђив|јве|јви|јез|јек|јње|љем|љен|љск|љша|њав|њет|њи |њој|ћем|ћој",
+    uk: "на | пр| і |пра|рав| на| за|ння|ня | по|ти |ого|во |люд|го | ко| лю| ма|аво|льн|юди|их |дин| не| як|кож|ожн|пов|ати|анн|жна| св|ина|сво|ає | бу|енн|має| до| ос|ови|ува|не | ви|аці|вин| та|аль|без|них|ні |обо|іль|або|ере|при|ть | аб| ві|бо |ом |ми |та |ий |инн|ою | об|ост|ся |ван|ног|ста| бе| в |бут|ств|ті |ути| мо| сп|ва |езп|ист| у |бод|воб|тис|до |нов|ват|ьно| що|ако|му |ний|но |ну |пер|під|сті|нні|ому|ій |ії | ін|від|ися|нан|ід | де|вно|дно|ду |кон|мож|ова|она|ої |род|соб|спр|чин|ідн| су|ля |нен|ним|нна|рів|сту|яко| пе| пі| ра| рі| її|аро|віл|нац|ном|овн|що |ють|ів |її |ава|буд|ві |им |ки |ков|нос|ово|одн|про| вс| од| ро|ав |вни|віт|заб|зпе|ими|лен|нар|сві|сно|спі|сть|чен|ьни| ст|абе|же |ніх|оже|осв|печ|рац|роз|тер|ту |ції|чи |івн| ні| со|ами|зах|зна|лив|ни |ові|оду|осо|піл|рес|тво| дл| ді|ага|ахи|дер|для|дь |ерж|за |оці|рат|роб|соц|так|тва|удь|хис|ціа|інш|іст|їх | шл|гал|дна|жен|ком|ку |льс|ною|осн|ржа|рим|сі |тан|то |час| кр| ре|авн|ани|заг|ину|кла|кра|нь |оро|сім|тав|цій|іал| во|асо|вле|вою|ди |дст|есі|жав|зас|ине|ини|ког|кор|кої|нал|ніс|об |оби|од |оло|ори|раз|ред|ри |сус|тор|усп|хто|ьст|яти|ім |іта|іхт| вч| гр| з | зд| мі|аги|азі|ано|ані|ара|аїн|ваг|всі|вчи|ган|ги |ез |ече|жит|жно|зак|зді|зі |ити|ичн|мін|нак|нст|оди|очи|раї|рис|іти| жи| зл| сі| є |але|би |бов|ви |вої|вст|дни|дія|ени|ені|зло|ият|леж|лоч|літ|нши|обі|ов |орг|рит|рия|ром|ряд|тьс|шен|ься|як |які| йо| ор| ці|ави|аст|ах |ают|бор|бра|бхі|вик|вим|дру|дій|ежн|елі|еоб|йог|йсн|клю|кі |люч|ліг|між|нео|обх|оді|ок |олі|орі|рга|рел|руж|руч|ст |ття|тя |уют|хід|ьки|ігі|ідс|ійн|ійс|іх | те| то| ув| ча| єд| їх|аве|ас |вед|виб|вом|гро|дли|дос|едл|еру|зал|зац|ких|лад|ли |люб|мад|меж|мов|мог|нню|ню |ніз|ній|ома|пор|рез|сов|сто|ськ|туп|усі|уча|цю |ціо|чно|шлю|ьні|ючи|єдн|іза|іон| бр| вк| гі| ме| ми| ус| уч| че| яз|ань|бер|вит|вкл|вог|гол|гід|дек|дит|дсь|еза|екл|еко|зпі|ись|ито|итт|лар|мат|маю|нез|нно|нув|обр|озв|оно|оїх|пок|рин|рог|сне|сув|сь |тат|три|тув|тур|учи|ько|юча|яки|єю |інн|ію |їй | вт| ди| ті| ци|авл|ада|адя|ам |ату|ацю|аче|аюч|бме|бі |біт|виз|вні|вол|вон|дже|дку|доп|дян|дів|діт|ед |еже|ена|ень|ечу|зви|ибо|изн|има|ипа|иту|ло |льк|лях|лід|ман|мор|ної|обм|обу|овл|одр|ора|оря|офе|оча|пам|поз|ран|рек|роф|ру |сам|сер|сну|суд|сій|тич|тіл|фес|хом|це |чер|шля|юдс|янс|яхо|ідт|іжн|іна|ітт| ас| б | вл| ї |аві|азн|айн|аки|амо|ате|аєм|вла|вор|вос|воє|гля|дич|дне|дов|дот|дтр|дув|ей |ери|ері|жні|заз|зум|ико|имо|имі|йни|ка |ке |кри|льт|май|мир|нав|нев|одж|озу|опо|осу|оти|пла|пол|поч|рал|рас|ров|ріо|слу|сте|сів|тко|тог|ток|удо|уль|урн|ує |цію|ціє|чаю|чни|шим|ших|ьне|юва|ядк|язк|яка|яль|ям |іду|іте|іял|ією| го| зб| зм| й | са| це| чи| чл| я | іс| їй|ади|ажа|ак |алі|ане|асн|атк|аук|бав|бам|бро|бст|бул|важ|вер|вий|вих|вну|втр|вув|гре|гії|дам|дат|дис|доб|ді |езр|ено|есл|ечи|жан|жли|жни|жін|зба|зро|ива|иви|иво|иві|икл|или|илю|ин |инс|инц|иск|итл|йна|кий|ків|ла |лат|лов|лос|ляд|лям|мої|нау|нач|ниц|нте|нут|нци|оба|обс|ову|огл|огр|одо|ожл|озб|озн|оки|оля|осе|ося|пно|пос|реч|рил|рни|рюв|скр|слі|суп|сяг|сіх|тві|тей|тни|том|тул|ужб|ужу|уко|улк|умо|упа|упе|упн|уту|уше|ход|цип|цих|цтв|ціл|чат|чит|чле|чую|щоб|юдн|явл|яду|яке|янн|ємн|єть|іац|іля|інт|існ|ітн|ічн|іян|їну| бо| вд| др| жі| зн| ку| оп| сл| ум| цю| ця| чо| шу|агн|азо|аси|атн|бви|бот|бу |біл|вал|вам|вач|вид|вищ|вия|вля|вік|віс|гру|гій|дан|де |ден|дко|ебу|ен |ера|есу|ето|еї |жув|жую|згл|змі|зне|зом|ивн|иму|ира|иру|ить|ища|ияв|йно|кар|кат|кою|кул|лас|лош|луж|льш|мет|муш|над|нам|ноо|ншо|ньо|обв|обл|ог |ода|оде|озг|ока|окр|омо|они|онн|оос|опл|орм|ору|ото|оше|оїй|пом|пре|пря|раб|раг|рах|рва|рон|рун|руп|рям|си |стю|тає|тет|тив|тно|тою|тра|тру|тю |ука|умі|унт|уть|фор|ця |ці |чні|чол|шог|шук|ща |ьна|ьну|ьту|ямо|ідп|іж |іод|іту|ґру| а | ав| ба| бл| вв| вз| вх| да| ду| еф| ж | зг| зо| лі| оз| се| ти| тя| ук| уп| ур| фо| хв| хо| ху| ю | їж| ґр|абс|авт|аго|аде|адк|адо|адс|акл|акт|ало|ана|асу|ато|ать|аць|ачн|бат|бир|бис|бла|бле|бли|бно|бок|бом|бсл|був|бур|бів|бір|вад|ваз|вар|вах|вва|вда|вді|ве |вел|вен|вза|вил|вип|влі|вню|вод|вро|вто|вті|ву |вхо|гам|гли|гло|гну|гов|год|гор|гу |гію|даю|дем|днь|дні|дог|дод|дож|дор|дпо|дут|діб|еви|еві|еди|едк|едн|едо|едс|ежа|езд|езу|ект|ели|емо|епо|ерп|ерт|ету|ефа|ефе|ехн|ецт|жат|жах|жби|жбі|жди|жив|жу |жче|зав|зад|зає|збо|збі|зго|здо|зки|зко|зни|зоб|зпл|зпо|зул|зір|ибі|иве|иву|иду|икі|ирн|иро|ите|итк|ифі|ицт|йні|кан|кин|клу|кти|лаг|лис|лки|лко|лку|лод|лок|лол|лув|луг|лят|лі |лін|ма |мал|мед|мис|мни|мно|мок|мос|міс|наг|нах|нва|нед|неп|неф|неї|ник|нит|нки|нод|ноз|нок|нол|нту|нші|нює|нів|ніч|ове|огу|ож |ожи|оза|озі|оку|ону|оня|оре|орк|орч|орю|охо|оє |оєю|пад|пат|пим|по |пон|прі|пу |пів|пік|реб|рен|реш|рир|рка|рми|рно|рож|рос|рпи|рст|рта|руш|рчо|рі |ріа|різ|рін|сил|сиф|спо|сти|стр|сце|тар|те |тех|тец|тин|тку|тли|тло|тні|тос|ттє|тті|тую|тує|тьк|тяж|тєв|тіш|уго|уде|удж|уду|уже|укл|ула|уло|упр|упу|урю|уря|ута|уєт|фал|фек|фік|хво|хні|хоч|худ|цим|ць |цюю|ча |чан|чає|че |чий|чна|чом|чує|шат|шує|ші |щод|ьо |ьог|ьси|ьта|ьше|юб |юбо|юбу|юбі|ючн|ююч|юєт|яга|ягл|яд |ядо|яжч|яза|яку|ятл|єви|ємо|ібн|іве|івр|івс|ізн|іки|ікл|іко|ілк|іло|іма|ін |інв|іни|інк|іор|ір |ірв|ісц|іша|їжу|їна|їно|їні| ак| ар| бі| ва| ве| га| ге| гн| дн| ек| жо| зу| ну| ок| ох| ри| си| ха| ць| шк| юр| яв| єк| єм| ід|авд|авж|аді|айм|акш|ала|али|алу|амб|ан |ану|арв|аре|арс|аса|атр|аті|ахо|аху|ачу|бог|боч|бря|бґр|ваю|вжд|виг|вир|вис|вне|вов|вря|вір|ген|гна|гне|гно|гос|гою|гів|дав|дах|дбу|дей|деї|джу|дик|дил|дня|доз|док|дом|дон|дпу|дтв|дум|дус|діл|дії|ева|ежи|езн|езс|ейн|елю|еми|ене|ент|енц|епу|ерд|ерс|еса|еси|есо|есп|ест|ете|еті|ехт|ешк|ешт|ея |жор|жут|жує|зай|зан|зат|зве|зві|зкі|зму|зрі|зст|зус|зях|игн|ида|ижу|изв|икц|ило|иль|ино|иня|ирю|ирі|исд|исо|ицю|иці|иче|ище|йма|йне|ким|код|кол|кре|крі|кте|ктн|кту|кті|кці|кше|кій|кір|лач|лея|лич|лля|лою|луз|лум|ль |льо|лян|ліп|мац|мач|мбл|мей|мим|мки|мне|мом|мпе|мув|міч|нде|неб|нел|нер|нес|нех|ниж|нищ|ннь|ноб|ноп|нош|нтн|нто|нуж|нул|нфо|нці|нюв|нял|ням|нят|няю|нім|ніт|ніщ|нія|нії|обґ|овр|овс|ожу|озр|оке|око|оль|омп|омі|онд|онс|оні|опр|опі|орд|орс|орт|оси|осл|осі|отр|очо|оши|ошу|оєм|пет|пох|пош|пус|пут|пше|пі |піч|рак|ргі|рди|рдо|рем|реп|ржу|рив|риз|рма|рні|рот|рсь|рсі|рту|рук|рюю|рій|рім|ріш|рія|рії|сди|сив|син|сло|сок|стк|су |суб|сур|сіб|тац|тве|тен|тим|тир|тит|тла|тлу|тов|туа|тус|тут|туц|тів|уал|уб |уве|уда|ужд|ужн|ужі|узя|укт|ули|ума|умк|умн|упі|ур |ури|урс|уси|уст|усу|уті|уці|уче|ушу|хар|хор|хту|ху |цьо|цін|чез|чес|чну|чог|чув|ше |шил|шир|шко|шкі|шту|шій|щен|ьор|ьші|юде|юри|юют|яді|яли|яну|ях |яют|єкт|єму|іб |івл|ідб|іде|ідо|ікі|іле|ілл|іме|іно|інф|іню|іпш|іри|іру|іши|іщо|ія |іяк|іят|їни",
+  },
+  Devanagari: {
+    hi: "के | प्|प्र| का| के| और|और |ों |का | को|कार|ति |ने |को |ार |िका|्रत| है|या |धिक|है | अध| कि|अधि| सम|की |व्य|से |्ति|्यक|क्त| की| व्| हो|ें |ता |यक्|मान|त्य|न्त|में|सी |रत्| स्| मे|येक|ेक |्ये| जा|क्ष|िक | कर|त्र| या| वि|भी |स्व|्य | अप| से|गा |किस| पर|िया|रों|िसी|्रा| अन|ित |्त्| सा|समा|ान |ना |वार|्त | उस|तन्|देश|षा | रा|था |वतन|ष्ट|्वत|्षा| मा|प्त|्वा|हो |ट्र|राष|ाप्|ाष्|िवा|्ट्| भी| सं|अन्|अपन|करन|जाए|राप|री |होग| न |ओं |किय|रा |ाओं|ारो|िए | ऐस|रता| जि| तथ| दे| द्|तथा|द्व|पने|यों|रने|सके|ारा|ार्|ीय | इस| लि| सभ|कि |पर |माज|रक्|श्य|सम्|ाने|िक्|्री|परा|पूर|ाएग| नि|द्ध|लिए|्तर| शि|राध|शिक|सभी|स्थ| जो|एगा|चित|जो |वाह|ाव |ूर्|्र | सु|अपर|कता|गी |जिस|रूप|ेश |ोगा|्ध | उन| पू|कृत|दी |परि|र्व|ूप |्या| भा| रू|इस |कर |जीव|न्य|भाव|रति|रीय|र्य|विव|ाना|ियो| बु|ताओ|तिक|म्म|विक|साम|सार|स्त|हित|ाज |ारी|ाह | ले| सक|उसक|ऐसी|तर्|नून|ये |रिव|र्ण|ले |लेन|ाध |ानू|ास |ेने|्रो| आव| वह|आवश|च्च|जात|निक|निय|बन्|याद|योग|रका|वश्|विध|ाएं|ादी|ानव|ान्|ामा|िधा|्था|्म | उद| उप| चु| जन| दण| पा| मन| रख| सह| हक़|ंरक|उद्|ऐसे|चुन|जिक|ण्ड|दण्|दिय|द्द|नाव|बुन|मय |मिल|रिक|वह |संर|समय|सुव|हक़ |ाजि|ाहि|ित्|िश्|िस्|ुक्|ुनि|ुवि|ून |ृति|ेश्|ोगी|्ण |्दे|्मा|्रक| उच| बन| बा| वै| शा| सद| क़ा|उसे|कोई|च्छ|तों|धार|नव |न्ध|युक|र्म|विश|शों|षण |ाया|ुद्|ेशो|ोई |्षण| कल| घो| चू| जी| नह| यह| वा| हि|ंकि|ंयु|उस |कान|कास|घोष|चूं|डनी|णा |धी |नही|नी |नीय|यता|रण |राज|रुद|र्त|वास|विर|संय|हीं|ाम |िकत|िता|िद्|िरु|ीं |ीवन|ुना|ूंक|ूरी|ेगा|्डन|्थि|्यो|्व | अक| एक| दू| धर| ही|अनु|उचि|एं |काम|गे |जाय|तर |दस्|दूस|धर्|नता|पान|बना|म्ब|यह |रखन|विच|सदस|सा |स्य|ही |ाता|ाये|ारण|िति|िना|ूसर|्न |्बन|्यव|क़ान| अव| आध| आन| आर| आज़| गय| दि| ना| पु| बच| बि| भे| मत| मि| रक| सर| सि|ंग |आज़ा|इसक|उनक|उन्|खने|गत |गया|गरि|चार|जिन|ज्ञ|तित|त्त|त्व|नमा|नाग|न्द|न्न|बच्|बिन|भेद|मनम|मात|माम|यकत|रना|रव |राय|र्ग|र्थ|र्र|लित|वन |वस्|षणा|साध|सिद|हैं|हों|ाए |ागर|ाजन|ाति|ात्|ामल|ास्|िस |ैं |ोग |ोषण|्गत|्छा|्ञा|्मि|्सा|ज़ाद| इन| एव| गौ| चा| ढं| बी| बे| मज़| यो| रह| सी| ज़र|ंगे|ंस्|आधा|इन |एवं|करत|केग|गौर|ग्य|चा |चाह|जनत|जन्|जा |जान|ढंग|त्न|त्म|थित|दान|दूर|धान|नैत|न्म|भाग|भौम|मा |मित|मूह|मज़द|यक |यत्|याप|रयत|रे |ली |वं |वभौ|वीक|श्व|सकी|सरो|ससे|सुर|होन|ां |ाई |ाग |ात |ाधी|ालत|ासन|ीकृ|ीमा|ुरक|ृत |ैति|ोग्|ोने|ौम |ौरव|्तव|्ता|्रय|्वभ|्वी|्षे|ज़दू| अत| अद| अस| आज| आप| इच| कम| कृ| खा| तक| नै| मक| वं| सत| हु|ंचि|ंत्|अदा|अनि|आजी|आपस|इच्|उपय|एंग|एक |कम |कला|कल्|छा |जनि|ज्य|ञान|तक |तदा|ताप|तिय|दभा|दर |दाल|धाए|नके|नान|निर|निव|निश|नुस|नो |न्ह|पनी|पयो|पस |पुर|बेक|भिक|मक |मतद|मति|मले|मार|मी |म्भ|यवस|याण|रम्|रात|रार|रिय|रिस|रुष|लत |ल्य|वंच|वक |वजन|वहा|वाल|वे |वैज|शास|श्च|षेप|षों|सका|सन |समे|सरक|स्म|स्स|हर |हां|हिक|हिस|हुए|हें|ांत|ाज्|ाण |ादि|ानि|ापन|ापू|ाय |ारम|िग़|िचा|ितो|िनक|िलि|िष्|िसम|ीवि|ुए |ुरु|ुषो|ुष्|ुसा|ेका|ेक्|ेदभ|ेप |ैज्|्चा|्टि|्तो|्धा|्धी|्भि|्मक|्मत|्यत|्रद|्रम|्वक|्वज|्ष |्हे| अथ| आद| उत| गए| ग़| तो| दी| बद| बढ़| मज| लो| वे| सब| हस|अके|अति|अथव|अवि|आरो|आर्|उत्|उपा|एगी|करा|कर्|कूल|केल|क्र|गए |ग़ु|गों|जनक|जनी|जबू|टि |टों|तः |तक्|तव्|ताय|ते |त्प|थवा|थाप|थिक|दा |धों|नक |नका|नकी|निष|नीत|नुक|नुष|नों|पत्|पन |पित|बसे|बात|बीच|बूर|बढ़ा|भा |मजब|मर्|माओ|मुच|मे |यवह|यां|याय|रकट|रदे|रबन|रिए|रोप|लकर|लाम|लेग|लोग|वना|वर्|वा |शान|शेष|श्र|षिक|षित|सता|सत्|सबस|सभा|समु|समू|सहा|सहि|सां|साथ|सीम|स्क|हस्|हाय|हार|हे |़ुल|ांस|ातन|ाथ |ादा|ाधन|ाधा|ानु|ायत|ारे|ाली|ाले|ावन|ावो|ाहे|िच्|िये|िरप|िलक|िले|िशे|िसक|िसस|ीच |ीति|ुकू|ुचि|ुला|ुल्|ूर |ूल |ेले|ेष |ोगो|्का|्कृ|्तक|्द |्धि|्नि|्रि|्षि|ज़रि| अभ| आक| आग| इक| इत| इर| उल| कप| क्| खु| गु| गै| घा| चि| छो| जच| जब| जह| टे| ठी| तत| तब| था| दच| ने| नौ| न्| पत| पद| पह| पि| पे| बर| बस| मं| यर| ये| रच| रु| रो| लग| ला| शर| श्| सफ़| हर| क़ि|ंगी|ंघ |ंति|ंभव|ःशु|अकृ|अक्|अवस|असम|असल|आगे|आदर|आनन|आने|आनो|इका|इतन|इरा|उच्|उनम|उपल|उल्|उसस|उसी|एकम|कटन|कपड़|कमा|करि|करे|कल |काई|काल|काव|कित|किम|कें|केव|क्न|खा |खान|खास|खित|खुल|गर |ग़ |ग़ा|गार|गुप|गैर|घार|चतर|चय |चयि|चलि|चिक|चे |चों|छान|छेड|छोड|जच्|जब |जहा|ञा |टन |टेक|ठीक|ड़न|ढाप|णतः|णुत|णों|तत्|तन |तनी|तब |तरा|तव |ताध|तार|तिज|तिन|तो |त्क|त्स|थता|थाओ|थ्य|दच्|दि |द्घ|द्भ|धति|धन |धव्|धा |धाओ|धाज|धित|धिय|ध्य|नति|नने|नन्|नमे|नवी|नसे|नस्|नाए|निः|निग|निध|नुम|नौक|पद्|पना|पन्|पर्|पलब|पसी|पहल|पाए|पाओ|पाय|पुष|पे |पेक|पेश|पों|पड़ा|बद्|बनन|बर्|बसन|बार|बाल|बाह|बीम|बुढ|बू |ब्ध|भव |भार|भाष|मंत|मका|मके|मजा|मजी|मण |मता|मना|मनु|मलो|मिक|यं |यगा|यम |यरि|यात|यिक|यित|रखा|रचय|रचल|रजा|रणा|रती|रते|रपर|रमज|रमण|रहक|रहन|राद|रुक|रूर|रोज़|लगा|लब्|लाओ|लाभ|लास|लिख|लिग|लिय|लीन|लों|ल्क|ल्ल|वटो|वनस|वयं|वरू|वल |वाए|वाप|वाभ|विष|वी |वीय|वैध|वैव|वों|शरण|शां|शुल|षणो|षय |ष्ण|ष्य|संघ|संभ|संस|सकत|सद्|सने|समझ|समर|समि|सरे|सर्|सली|सहम|सहय|साज|सास|साह|सीप|सेव|सफ़ा|हकर|हने|हमि|हयो|हले|हिए|हिष|़नो|़ाह|ाधि|ाधो|ापस|ापे|ाबू|ाभ |ाभा|ामी|ामू|ायग|ालि|ावट|ावि|ाश |ासा|ासि|ाहर|िःश|िकल|िकि|िखि|िज्|िधि|िनस|िनि|िमी|िवर|िषय|िसे|ीक |ीन |ीपा|ीयत|ीवी|ुका|ुढा|ुता|ुने|ुप्|ुमा|ुली|ूनी|ूरा|ूहि|ूहो|ेड |ेद |ेवल|ेवा|ैधव|ैर |ैवा|ोंग|ोड़|ोत्|ोप |ोषि|ोज़ग|ौकर|्क |्चत|्चय|्चि|्चे|्चो|्छे|्ड |्णत|्णु|्तन|्थत|्थ्|्दर|्धत|्नत|्नो|्पन|्भा|्मज|्यि|्रच|्रज|्रब|्रभ|्लि|्वय|्वर|क़ाब|क़िस|ज़गा|ज़रू|ड़ा |ढ़ाय|फ़ाई| अग| अब| अम| अर| आत| उक| ऊं| ख्| गि| गो| घं| घर| घृ| छु| जग| जु| तर| दा| दु| दृ| धा| नर| नज़| फल| फ़| फौ| बत| भय| मर| मु| मू| मै| यद| वर| वृ| सन| सफ| हद| हा|ंक्|ंगठ|ंचा|ंटो|ंलग|ंवि|अगर|अत्|अध्|अपम|अब |अभा|अभि|अमा|अर्|अवक|आका|आक्|आत्|आदि|आधे|इसल|ईचा|उकस|उन |उपे|ऊंच|एका|ऐसा|कट |करक|कसा|कां|काश|खते|खना|ख्य|गठन|गति|गह |गात|गान|गिर|गोर|ग्न|ग्र|घंट|घर |घि |घृण|चना|छिन|छुट|जगह|जनै|जाग|जी |जुल|झना|टिय|ट्ट|ठन |णाल|तता|तना|तरह|तरो|ताव|तिम|तिर|ती |तीत|तोर|दक |दबन|दय |दलन|दार|दास|दुह|दृष|दे |देन|द्र|धनो|धि |धीन|धेप|नजन|नरन|नवा|नाक|नार|नाश|निज|निभ|निह|न्व|नज़र|पक |पक्|पमा|परव|परस|पाद|पार|पाल|पास|फलत|फलस|फ़र|फौज़|बता|बदल|बर |बुद|बेह|भय |भाई|भान|भिव|भुस|मझ |मझन|माध|मुक|मूच|मैत|मों|म्प|यतः|यदि|ययु|यहा|याच|योच|रके|रखत|रगत|रगर|रत |रथा|रदा|रपे|रभा|रभु|रवा|रव्|रशा|रस्|रह |रहण|रहि|राम|राव|रिम|रीप|रीर|रें|रेग|रोत|रोह|र्द|र्ब|रक़ |रफ़्|लग्|लता|लतो|लन |लने|लस्|ला |लिं|ल्म|वका|वसा|वाई|वाध|विद|विन|वृद|वेष|वैय|वोच|वोत|शार|षिद|षेत|ष्क|ष्प|संग|संल|संव|सना|सन्|सफल|सलि|साय|सित|सिय|सुन|स्प|हण |हतर|हदब|हरा|हाल|़रक़|ांक|ाईच|ाकर|ाग्|ाचा|ाद |ादक|ाध्|ानज|ानत|ापक|ापा|ामो|ायय|ायो|ारग|ारि|ालन|ाला|ावे|ाषण|ाषा|ासत|िंग|िकृ|िजी|िन्|िभा|िम |िमि|ियम|िरि|िर्|िरफ़|िव्|िषि|िहि|ीत |ीनत|ीपू|ीरि|ुट्|ुनव|ुषि|ुसत|ुहर|ूचन|ूपो|ूह |ृणा|ृद्|ृष्|ेंग|ेगी|ेत्|ेन |ेपो|ेषण|ेहत|ैत्|ैयक|ोचि|ोच्|ोपि|ोर |ोरव|ोह |ौज़द|्घ |्घि|्च |्छि|्तत|्थ |्दय|्दी|्धो|्पक|्पत|्पर|्पा|्बर|्यम|्रग|्रण|्रथ|्रव|्रश|्रह|्वस|्वे|्वो|ज़दा|ज़रब|ढ़ान|फ़्त",
+    mr: "्या|या |त्य|चा |याच|ण्य| व |ाचा|कार|प्र| प्|िका|धिक| अध|अधि|च्य|ार |हे | आह|आहे|्ये|्रत| स्|ास |ता |िक | या|स्व| अस| कर| त्|ल्य|्वा|यां|ांच|रत्|वा |येक|्य | का| सं|त्र|ाहि|क्ष|ष्ट|मान| को|कोण|ेका|ात | मि| रा| सा|र्य|ामा|मिळ|कास|ाच्|ून |ना |व्य| सम|चे |ट्र|राष|ाष्|्ट्|क्त|ने | मा|ये |समा|ंत्|र्व| कि|ंवा|किं|िंव|काम|तंत|यास| आप| पा|करण|वात|िळण|ोणत|्षण| दे|ही |ीय | जा|ळण्|ातं|्र्| नि|ांन|्यक| वि|आपल|ली |ार्| व्| शि|रण्|रां|ले |शिक| आण|ंच्|ची |जे |पाह|बंध|षण |हि |हिज|ान |िजे|मा |माज|ारा|ाही| नय|ंना|नये|लेल|िक्|्रा|्री| सर| हो|आणि|णि |णे |पल्|सर्|्व |असल|देश|द्ध|ला |्त |ंबं|ध्य|संब|ील |त्व|यक्|यात|रक्|रीय|स्थ|ाचे|न्य| उप| ज्|ंचा|च्छ|ज्य|णत्|याय|ीत |ेण्|्वत|ंधा|वी |ानव|्ती| के|ंरक|याह|रता|संर|सार|ाने|िवा|ेल्|ोणा| अश|करत|पूर|भाव|साम|िष्|ीने|ूर्|ेल | अथ| शा|ंचे|अथव|कां|कृत|केल|ठी |तील|थवा|राध|वस्|शा |साठ|स्त|ाजा|ाठी|ायद|ासा|ेशा| न्|असे|तो |त्त|धात|धार|याव|योग|रति|र्ण|सले|ांत|ाची|ारण|ित |ेक |ेच |ेत |्ध | आल| इत| जी| धे| वा| हक|अशा|इतर|क्क|ती |तीन|देण|द्द|द्य|नवी|निर|यत्|र्थ|विव|साध|हक्|ुक्|ेश | अप| अर| कृ| मु|जाह|जिक|णार|तता|तिक|मध्|रका|रून|रे |वतः|श्र|हीर|ाजि|्क |्रक| उद| धर| मू| ये| वे| वै|काय|कीय|गण्|जीव|णाच|परा|पास|मत्|माण|मूल|यद्|यान|रणा|राव|र् |वार|वाह|शी |संघ|ाता|ाला|ाली|िर्|ीवन|ेले| गु| तो| दं| पू| भा| लो| सु|ंडन|अर्|घटन|जात|डनी|तः |तिष|दंड|निव|नीय|मिक|य्य|राच|र्त|र्म|लोक|विक|शास|श्य|षा |ष्ठ|सेल|हित|होण|ाती|ाधा|ाना|ाय्|ारच|ारे|ाव |ावर|ृत्|्ण |्त्|्यव|्र |्रम| आव| इच| एक| कु| झा| ना| बा| यो| सद| हि|ंघट|ंतर|ंयु|अपर|असत|असो|इच्|उद्|उपभ|कुट|ग्य|जाण|झाल|तःच|तीत|थी |द्व|धेत|पभो|भेद|भोग|यक |युक|राख|ळी |वर |वश्|वाच|वेळ|षणा|संय|से |ाम |ाय |ावा|ासन|िवड|ीयत|ुटु|ेता|ेली|ेळी|ोग्|्छे|्टी|्ति|्थी|्रद|्षा| अन| आर| जग| ठर| तस| दि| न | पर| भे| मत| म्| री|ंत |ंमध|असण|ईल |करू|गे |टने|टुं|डून|णता|णून|तसे|ताह|तिम|तीच|दभा|नाम|पणे|बाब|भाग|भूत|मात|म्ह|यवस|रना|रमा|रीत|रूप|लभू|वन |वां|वास|वे |शां|शाच|सण्|सदस|सून|सेच|हणू|होत|ह्य|ांद|ांम|ांश|ांस|ाणे|ाण्|ाधि|ाध्|ाबत|ारख|ावि|ावे|ासू|ास्|िमत|ीरन|ुंब|ुला|ूत |ूलभ|ेदभ|ोगे|्था|्थे|्न |्रय|्रि|्वे|्हण| आं| कल| घड| घे| जन| ठे| दृ| धा| ला| सह| ही|आंत|आले|आवश|उपल|गति|गी |चार|चाल|छंद|छेन|ज्ञ|ठा |ढवळ|णते|तर |तरर|तरा|ति |तीस|तेह|थित|दान|नाच|निक|पण |पलब|पाय|फत |बती|ब्ध|मुल|मुळ|याम|रण |रत |ररा|लब्|लां|ळे |वच्|वडण|वत्|वसा|विच|विर|वून|षित|सता|सली|सल्|स्य|होई|ात्|ाध |ान्|ाह |िळा|िश्|ीस |ुद्|ुळे|ेच्|ेतल|ोका|ोण्|्छं|्ठा|्म |्रस|्वच| आद| घट| चा| नस| मर| सक| सभ| ह्|ंगत|ंची|ंतत|ंदत|ंदा|ंनी|ंशी|आदर|आरो|चप्|जाग|ठेव|णपण|णाल|णुक|दतः|दस्|दा |दिल|धर्|नात|नी |नेच|परि|बद्|मर्|म्य|यता|याप|याब|यिक|रस्|रिक|वळ |वाय|विण|सक्|सभा|ाग |ाचप|ाधन|ापा|ाबद|ामु|ाम्|ायो|ालन|ासं|िती|ित्|ीती|ेनु|ेही|ोगण|्ञा|्तव|्थ |्थि|्धा|्यत|्वस| आश| गो| चौ| जर| तत| तर| ती| दो| फा| बं| बे| मद| मो| वस| श्| सो| हा| हे|आपण|आश्|उपा|एक |कडू|कला|कशी|का |काल|क्य|खण्|खेच|गता|गोष|घटक|घडल|चौक|च्च|छा |जकी|जनत|जाच|जाव|ञान|टक |टां|टीन|ट्य|डणु|डले|णा |णान|तत्|तदा|तन |तव्|तसं|तान|ताप|तुत|तेच|थेत|दत |दल |दृष|देत|दोष|धती|धन |धां|धाच|धीच|धेण|नते|नाक|नाव|निध|निय|नुर|न्न|पद्|पले|पाच|पार|पुर|प्त|फाय|बेक|मतद|मदत|मार|माल|मुक|याश|येण|योज|रखे|रचे|रणे|रदे|रद्|रय |रले|रस |रा |राज|री |रीप|रील|रुष|र्फ|लना|लाग|लाह|ळाल|वता|वना|वरू|विश|वेत|वेश|वैज|शात|शिव|शीत|षी |संप|सकी|सना|सुर|सो |सोत|हा |हाच|हिक|हिर|ां |ाकड|ाखण|ागत|ागी|ाच |ाजक|ाण |ानि|ापन|ाप्|ामध|ालम|ालू|ावस|ावू|ासक|िचा|िच्|िण्|ितस|िद्|िया|िरा|िळव|ीची|ीच्|ीपा|ीर |ुका|ुरक|ुरु|ुरू|ूप |ृष्|ेची|ेती|ेने|ेला|ेहि|ैज्|ोईल|ोत |ोतो|ोषी|ोष्|ौकश|्छा|्तन|्ता|्तु|्दल|्धत|्धी|्फत|्षि|्षे| अत| क्| गट| ग्| छळ| ढव| ता| द्| ध्| पु| बद| मग| रह| वं| वर| हद|ंद |ंध |ंधी|ंब |ंमत|ंश |ंस्|ःचा|अत्|अशी|आली|एकट|कट्|कबु|करा|केव|खला|खा |खाल|गटा|गत |गुल|ग्र|घेण|घेत|चित|चेह|जगण|टुँ|ठेस|णाम|णास|णी |ते |त्न|त्म|थाप|दर्|दलण|दार|द् |धरू|धा |नवा|नसल|नुस|न्ह|पणा|पन |बदल|बुद|भा |भाष|मक |मग |मती|माच|माध|यंत|येई|येत|रगत|रयत|रहि|रात|रुद|रूर|रोप|र्ध|लण्|लाम|लाव|लील|ल्ल|ळवि|ळाढ|वंश|वतं|वर्|वळा|वान|वाभ|वेक|शाह|षां|संम|सद्|सन |सां|सिद|स्क|हद्|हेत|ाखल|ाजव|ाढव|ाबा|ाभा|ाया|ायि|ाल्|ावन|ितत|िरु|ींच|ीचा|ीमा|ीही|ुन्|ुषा|ुसा|ूपा|ूर |ृति|ृद्|ेईल|ेकब|ेचा|ेणे|ेवत|ेस |ोग |ोता|्कृ|्च |्ठे|्णप|्तत|्दे|्धि|्मक|्यं|्यम|्रग|्रव|्वर| अं| अम| आच| आज| आध| आन| इस| उच| और| कड| कौ| खट| खर| खा| गृ| घो| जे| जो| ति| ते| दर| दु| नी| नै| पद| बच| बर| भव| भौ| मह| मै| वय| वृ| शर| सल| सि| से| हम| हल|ँबि|ँरह|ंघ |ंद्|ंधन|ंपा|ंपू|ंबर|ंबा|ंबि|ंशि|ंस |ंहा|ःचे|ःच्|ःला|अंत|अधी|अनु|अनौ|अन्|अपं|अमा|अरा|आचर|आजा|आणण|आधा|आनं|आला|आवा|इसम|ईपर|उच्|उदर|औरस|कडक|कर्|कल्|कळे|कशा|काह|की |कूल|कौट|खटल|खरे|खर्|खुर|ख्य|गल्|गिर|गुण|गुन|गुप|गृह|गेल|घेल|घोष|चरण|चां|चाव|चीह|छळा|छेद|जगत|जगा|जता|जना|जनि|जन्|जर |जरू|जव्|जाक|जाप|जाम|जार|जित|जी |जेत|जेस|जोड|टना|टल्|टी |टीं|ठरत|ठरव|ठरे|डक |डण्|डला|डीद|णवत|णात|णाब|णीम|णुत|तःल|तका|तना|तरच|तरत|तर्|तली|तले|तल्|तां|तात|तिच|तिज|तिन|तीप|तीम|तेप|थमि|था |थान|दना|दर |दरन|दरभ|दां|दिश|दिष|दीत|दुस|दृढ|दे |देख|धक्|धने|धपण|धबँ|धरल|धव्|धाल|धिम|धी |धीं|धीन|नंद|नपद|नसे|नाह|निद|निश|निष|नीत|नुक|नुष|नेत|नेन|नैत|नौर|न्म|पंग|पत्|पन्|पर |परत|पर्|पाल|पित|पेक|बँर|बचा|बर |बरह|बरो|बर्|बाल|बाह|बिक|बिय|भवल|भास|भौत|मगि|मजत|महत|मां|माब|माव|मास|मी |मुच|मुद|मूह|मैत|मोक|मोफ|यकी|यतक|यदा|यदे|यमि|ययो|यवह|याख|याज|याण|याध|यीच|येच|येय|रक |रख्|रच |रचा|रची|रच्|रणप|रणी|रथि|रनि|रपण|रपर|रभा|रमि|रवि|रवे|रसं|रहा|रही|राथ|राप|रास|राह|रिण|रिय|रिश|रिस|रेख|रेल|रोग|रोध|रोब|र्ज|र्ब|र्भ|लन |लमत|लमा|लात|लिक|लू |लून|लोख|ळणा|ळाप|ळाव|ळेप|वजन|वडल|वणी|वण्|वया|वरी|वले|वहा|वाक|वाध|वाप|वाव|विष|वृद|वेच|वेध|वैद|वैध|वैव|शर्|शेष|षयी|षेत|षेप|ष्ण|ष्प|संच|सती|सद |समज|समु|सरे|सलो|सहक|सहभ|सहि|सही|साघ|साज|साय|साह|सुव|सेव|सोई|सोड|हका|हणी|हत्|हभा|हमी|हल्|हार|हाव|हिष|हीत|हेर|ांप|ांब|ांव|ांह|ाका|ाक्|ाखा|ाखु|ागण|ागल|ागे|ाघे|ाजे|ाथम|ानप|ानु|ापर|ापि|ापू|ाबर|ामग|ामू|ायय|ारक|ारत|ारप|ारल|ारि|ारी|ालि|ाले|ावण|ावश|ावी|ाव्|ाशि|ाशी|ाषण|ासद|ासह|ाहण|ाहा|ाहे|िकर|िज्|िणा|िदा|िधब|िधि|िनि|िमा|ियत|ियो|िरप|िरी|िरो|िली|िल्|िवे|िशा|िशे|िषय|िस्|ींग|ीचे|ीति|ीदा|ीन |ीपु|ीमु|ुँब|ुकू|ुचि|ुणव|ुत |ुतः|ुता|ुप्|ुर्|ुले|ुव्|ुष |ुसर|ूल |ूला|ूहि|ृढ |ृती|ृही|ेक्|ेख |ेखर|ेणा|ेतन|ेत्|ेदन|ेधप|ेपण|ेपे|ेप्|ेरी|ेवण|ेवळ|ेवे|ेष |ेसे|ैति|ैत्|ैद्|ैधव|ैवा|ोई |ोईप|ोकळ|ोकश|ोखा|ोजन|ोजि|ोडी|ोडू|ोधी|ोप |ोफत|ोबर|ोषि|ौटु|ौति|ौरस|्जा|्टा|्णु|्ते|्दि|्दी|्धक|्पन|्बं|्भा|्मा|्मि|्यि|्रथ|्ला|्वज|्वि|्ह्| अख| अट| अब| अह| आक| आघ| आत| ई | उक| उभ| उल| एख| कम| की| गर| घर| चि| जव| जु| डो| दड| दा| नम| नष| पग| पड| पत| बृ| भं| भय| भी| भू| मज| मन| सत| सन| सी|ँवा|ंकर|ंक्|ंग |ंघन|ंड |ंति|ंती|ंधु|ंने|ंपक|ंपत|ंरा|ंवर|ंवि|ंसह|ंसा|ःच |ःपक|अखे|अटक|अध्|अनि|अप्|अबह|असा|अहर|आका|आघा|आणख|आता|आपव|आरा|आर्|आल्|उक्|उभा|उल्|एकम|एखा|कमी|कमे|कर |करी|कवण|काध|कान|किक|कीत|कुर|क्र|खाज|खाद|खास|खी |खेर|गणू|गती|गरज|गां|गाच|गार|घडव|घडू|घन |घर |घात|चाह|चिथ|छळ |जकु|जगी|जवा|जवी|जा |जुल|ञा |ञेच|टका|टास|ठरा|ठेब|डपश|डवू|डू |डोळ|ढे |णखी|णणा|णण्|णतह|णती|णय |णस्|णीय|णीव|णूक|णूस|तत |तप्|तव |तवी|तस्|तहि|ताव|तास|तीं|तीह|तून|थाव|थिक|थेख|थेच|थेन|दडप|दती|दन |दपा|दसद|दसव|दाय|दास|दी |द्स|धनस|धास|धि |धिं|धिन|धीव|धुत|ध्व|नदे|नबद|नमा|नमू|नव |नवज|नष्|नसं|नां|निः|नित|नेव|पकी|पक्|पगा|पडू|पने|पला|पवी|पशा|पात|पाद|पुढ|पुन|बंड|बत |बदा|बहे|बाग|बाळ|बून|बृद|भंग|भयं|भले|भार|भीत|भूम|भौम|मका|मजक|मत |मतः|मतप|मतस|मना|माह|मित|मीप|मूद|मेक|यंक|यनि|यपू|यमा|यसि|यार|रखा|रज |रते|रव्|रशक|रहण|राग|राम|रिप|रीस|रूद|र्श|लंघ|लचा|लस्|लाभ|लूम|लौक|ळगण|ळवू|वक |वजा|वणु|वनम|वनि|वने|वभौ|वरण|वलौ|वाख|वाग|वाज|वाब|वाल|विद|वोच|शक्|शान|श्च|श्व|षणस|षपा|षभे|षम |सगी|सतत|सनद|सने|सवि|सह |सा |सास|सी |सीम|सुट|सुध|सुन|हण |हरण|हाल|हिव|हेल|होय|ांक|ांर|ाजग|ाणी|ाणू|ातू|ादन|ादी|ानब|ापु|ाभल|ामक|ायत|ायन|ारश|ारस|ाल |ालच|ाळग|ावत|ावल|ाषा|ासग|ासी|िंग|िःप|िकव|िके|िणे|िथा|िनु|िपू|िरू|िले|ीतव|ीत्|ीनु|ीपण|ीव |ीवर|ीसा|ुँव|ुकी|ुट्|ुढे|ुत्|ुदत|ुदा|ुधा|ुना|ुरा|ुलू|ुषभ|ूक |ूद |ूद्|ूम |ूमि|ूलस|ूस |ेखा|ेद |ेबू|ेय |ेयस|ेरच|ेलन|ेवर|ेवा|ोक |ोच्|ोणे|ोपा|ोय |ोळ |ौकि|ौमत|्का|्चा|्चि|्ञे|्ट |्णय|्दप|्मत|्यप|्रण|्रह|्रू|्लं|्वक|्वन|्वभ|्वो|्श |्षप|्षम|्सद|्हा",
+    ne: "को | र |ने | प्|प्र|कार|ार |क्त|िका| गर|्यक|धिक|्रत|व्य|अधि| अध|्ति| व्|यक्|मा |िक |त्य|ाई |लाई| सम|न्त|र्न|्ने|गर्|त्र|मान| छ |रत्|तिल| स्|येक|ेक |्ये| वा| वि|वा |क्ष|हुन|िला| हु|्त्| सं|स्व|समा|नेछ|हरू|ुने| रा|ेछ | मा|ति |ले |हरु|तन्|वतन|ट्र|ष्ट|िने|्र | का|्ट्|्वत|राष|ाष्|ता |ना |ाको|ान | अन| नि|गरि|तिक| कु|स्त|ित | पर|कुन|था |नै |ुनै|ैन |्त | सा|रता| छै|छैन|वार|ार्| ला|परि|रु | तथ|तथा|देश|सको|िवा|्षा|माज|रक्|ाहर|्रा|रू |्य |का |द्ध|धार|नि |ामा| त्| शि|ताक|री |लाग| यस| सब|ंरक|भाव|रको|शिक|श्य|संर|सबै|सम्|िक्|्यस|्या|्वा| अप| सु|एको|यस्|रिन|वाह|ाउन|ारक| उस| सह|अन्|द्द|पनि|रा |स्थ|ुक्|ूर्|्रि|्षण| अर|गि |द्व|परा|बाट|राध|षा |ागि|ात्|ान्|ारम|ारा|ाव |ित्|ुन | अभ| आव| उप| पा|अपर|उसक|जको|निज|पूर|रका|रति|रिय|साम|ाट |ानव|ुद्| आध| दि| पन| बा| सक|कान|तो |त्प|बै |युक|रिव|रूक|र्य|विध|िको|्तर|्तो|्न | भए| भे|अनु|काम|जिक|णको|नमा|रण |रमा|रहर|र्द|विक|सार|ाजि|ाय |ारी|िएक|िय |्दे| दे| मत| सि|उने|कता|चार|च्छ|नको|यता|यहर|योग|रिक|रोज|र्ण|र्व|विव|सकि|हित|ानि|ाम |ूको|ोग |्ण |्ध |्धा| उद| जन| जी| पू| बि| भन|ंयु|आधा|उद्|किन|जात|जीव|त्व|निक|निर|न्य|पाउ|भेद|मिक|राज|रुद|र्म|र्स|संघ|संय|समय|ाति|ानु|ेश्|्था|्यह| उच| कल| पु| मन| मौ| वै|अभि|आवश|इने|घको|चित|ताह|नी |नुन|नैत|बन्|यमा|रात|रुक|रुप|लिक|वश्|विच|षण |सहि|ारह|ास |ाह |ाहि|िकत|िश्|िष्|ुको|ेको|ैति|्छा|्दा|्प |्यव| घो| ना| नै| या| यो| शा| सर|ंघक|उपभ|घोष|तको|दभा|दा |धान|नव |नु |न्द|पभो|बिन|भोग|मनम|म्म|यको|र्फ|विर|साध|िजक|िद्|िधा|िना|िमा|िरु|िर्|िले|ीवन|ुला|ेदभ|्तक|्रय|्व |्वक| आम| इच| चु| जा| धर| बढ| बन| मु| रु| रो| र्| सज| हो|इच्|उचि|एका|कास|गको|गरे|गले|गार|ङ्ग|चुन|छा |जगा|जनत|तदा|दान|दिइ|धर्|धाह|नता|नाग|पमा|पर्|पुर|भएक|मतद|मयम|मौल|यक |यस |राख|ल्ल|वर्|विप|विश|शको|श्र|षणा|षाक|सरक|सिद|सुव|स्क|हिक|ागर|ाजक|ाध |ानी|ारि|ालत|िपर|िहर|ुना|ुरु|ुवि|ेशक|ैला|ोजग|ोषण|ौलि|्यत|्रव|्री| आफ| उक| एक| कस| खो| दा| भा| लि|ंस्|आफ्|उक्|कसै|कोल|गति|चाह|जनि|जाय|ज्न|णाम|तर्|तित|दाय|धन |नद्|नुस|नून|न् |न्ध|पत्|पार|फ्न|मको|मार|मूह|म्प|म्ब|यवस|यसक|यसम|याप|रिए|रुल|रूल|ल्न|वजन|वास|षणक|सजा|समू|ाख्|ानू|िइन|िचा|िधि|ियो|ीय |ुसा|ेश |ोज्|ोले|्थि|्बन|्मा|्मि|्रक|्रम|्वज|्सा| अद| आर| उल| ढङ| द्| पह| बस| भि| मि| रह| सद| सी| से| हर| हा|ँग |अदा|अरा|अरु|अरू|आमा|उपा|उल्|कला|कल्|काल|कुल|कृत|खोल|गरी|छन्|जना|जनै|ज्र|ठहर|ढङ्|तिन|त्त|त्न|थित|थ्य|दमा|दार|दाल|दास|दिए|धहर|नाव|निय|निष|नुक|परी|पले|पहु|पाय|बाल|भई |भन्|भाग|भिक|भित|भिय|भिव|मात|मिल|मुद|म्भ|यत्|यसल|याण|यात|यिक|यी |यो |रगत|रमि|रम्|रयत|राउ|रान|रार|रित|रिश|रिस|रीत|रुष|रेक|रोप|र्त|ला |लिन|ल्य|वक |वनम|वसा|वैज|वैव|शास|सँग|संस|सले|सीम|सेव|सैल|हको|हरा|हार|हुँ|हो |ाँड|ाजन|ाणक|ाधह|ाधा|ाना|ापन|ारण|ाले|ासक|ासन|ासि|ास्|ाहक|िति|िनि|ियन|िव्|िस्|ीत |ीमा|ुँच|ुकु|ुनि|ुल |ुल्|ृति|ेदम|ेर |ेरो|ेवा|ैको|ैज्|ैवा|ोगक|ोल्|्क |्गल|्छ |्तव|्ता|्पत|्फ |्भि|्म |्मक|्रग|्रण|्ष |्षे| अत| अव| आप| उत| गो| घर| चा| छन| ती| धा| नग| यी| रू| वे| हस|अभा|आधि|आपस|आरो|इएक|उत्|उन |एकल|करण|कलै|गत |गोप|ग्न|ग्य|घर |ङ्घ|चना|चरण|जन्|ज्य|ठा |ढाउ|ढि |णाल|ण्ड|तक्|तन |तना|तमा|तरर|तरा|तहर|तिम|तिष|ती |त्म|थै |दण्|दर |दस्|ध्य|नगर|निह|नैप|नो |न्न|न्म|पचा|पन |पसम|प्य|बढा|बढि|बाँ|बीच|बैक|भए |भने|मबा|मय |मर्|मित|मुक|यले|यवह|याइ|ररा|रहन|राम|रिण|रूप|रूम|र्ग|र्थ|लेख|लै |वको|वना|वन्|वस्|वहा|वेश|शान|श्व|षित|षेप|ष्ठ|सदस|साथ|सिम|सुर|स्य|हनु|हस्|ाँस|ाइन|ाज्|ातन|ाथै|ाधन|ाध्|ामब|ायि|ाला|ाली|ावन|िणा|ितक|ियत|ीच |ुपम|ुपल|ुरक|ुर्|ूनक|ूमा|ूले|ेका|ेप |ेशि|ैपन|ोग्|ोप्|ोस |्का|्ग |्ठा|्द |्नक|्ना|्नु|्नो|्पा|्यल|्रभ|्रह|्ले| अघ| आक| आद| आन| इन| औष| कद| कप| कम| कर| कृ| को| खा| खु| चो| ट्| ठह| ति| दण| दो| नठ| नभ| नह| ने| न्| पत| फा| बच| बे| भई| भर| रच| वन| वय| वर| वू| शन| शर| सङ| सन| सव| हक| हि| हे|ँच |ँचक|ँड |ँडफ|ँदै|ँस्|ंघ |ंभा|ःशु|अघि|अति|अनि|अपह|अभ्|अर्|आदर|आनन|आम |आवथ|आवद|इदा|इन्|उको|उच्|उन्|उसल|एमा|औषध|कपड|कम |कमस|करु|कर्|काई|काक|काय|क्छ|खान|खुल|ख् |ख्न|ख्य|गरा|गी |गू |गेक|घि |चको|चाउ|चोट|च्च|छाल|छेद|जमा|जर्|जला|जहर|जेल|झदा|टिम|डनब|डनी|डफा|डयु|डा |ढसक|ढिक|णतर|णद्|णाक|णुत|तका|तति|तरय|तले|तवि|तव्|तान|ताप|तिप|तिब|तिह|तै |थता|थमि|थाप|थास|थेग|दढि|दष्|दाम|दाह|दिन|दैन|दोब|दोष|द्घ|धको|धमा|धवा|धा |धिह|धी |धोप|नठह|नन्|नबा|नभई|नवअ|नवी|नहर|नहु|निँ|निः|निए|निध|निन|निव|नीय|नुर|नुष|नेक|नेत|न्क|न्च|न्ज|पक्|पडा|पना|पहर|पात|पी |पीड|फनि|फाँ|फाइ|बचा|बने|बसे|बसो|बस्|बाब|बास|बाह|बिर|बुल|बेर|बैल|भएम|भनि|भरथ|भहर|भूत|भेल|भ्य|मक |मझद|मत |मति|मसे|माग|माव|मी |मूद|मेक|मौत|यकत|यकर|यन |यन्|यबा|यम |या |याय|यास|युन|रचन|रचा|रजा|रडय|रणक|रणत|रणा|रथे|रपर|रभा|रभू|रयु|रयो|रला|रवर|रवि|रवे|राइ|राथ|रि |रुब|रुम|रूस|रे |र् |र्छ|र्ज|र्ढ|र्ध|लतम|लतल|लबा|लभ |लात|लान|लाभ|लाह|लित|लीद|लेर|ल्क|वअध|वथ्|वद्|वन |वयस|वरा|वव्|वशा|वाध|वाभ|वाम|विद|विष|वीय|वूर|वेच|वेर|शन्|शमा|शरण|शित|शिश|शुल|शुह|शेष|षको|षणद|षधो|षयम|षहर|षाम|षी |ष्ण|ष्प|संभ|सका|सक्|सङ्|सन |सन्|समझ|समर|समु|सला|सवत|सवस|सहभ|सहम|सहा|साँ|साय|सिर|सिल|सुज|सुद|सुल|सेक|सेर|सोब|हभा|हमत|हरण|हहर|हाँ|हाय|हाल|हास|हिन|हिर|हिष|हेर|होस|ाइ |ाइए|ाइद|ाउक|ाखि|ाग |ागी|ागू|ागे|ाग्|ाज |ाजम|ाजर|ात |ाता|ाथम|ाधक|ाधी|ानक|ानद|ापी|ापू|ाबु|ाभह|ाभा|ामक|ामी|ामू|ायक|ायत|ायम|ायह|ारभ|ारल|ाल |ालब|ालि|ावि|ासँ|िँद|िःश|िकर|िचर|िच्|िज |िजल|िजह|िधव|िन |िपू|िबा|िरक|िरप|िरा|िल |िलि|िवर|िशु|िशे|िषय|ीडन|ीद्|ीवि|ुजन|ुता|ुदा|ुनी|ुप |ुबी|ुमा|ुलभ|ुषक|ुषह|ुहर|ूका|ूत |ूदा|ूनद|ूपम|ूला|ूसँ|ूहह|ूहि|ेकम|ेख |ेगक|ेच्|ेति|ेरच|ेल |ेला|ेशम|ेष |ोप |ोपच|ोबस|ोबा|ोषी|ौति|्कृ|्गत|्घ |्घक|्च |्चि|्छे|्जन|्जे|्टि|्डन|्ढस|्णु|्तत|्तन|्तह|्तै|्थत|्थ्|्दढ|्दष|्दो|्द्|्धन|्धम|्धि|्नह|्पक|्पी|्फन|्मे|्यब|्यि|्रज|्रड|्रो|्ला|्वर|्वव|्वे|्षि|्सम|्सव| अं| अथ| अम| आच| आत| एव| कि| क्| ख्| गत| गि| चि| जस| जह| ढा| दम| दी| नउ| नज| नप| नर| फु| फौ| बद| बी| भङ| भड| मर| मह| मै| यु| लग| वृ| शक| श्| सञ| सभ| सू| है|ँका|ँगल|ँधा|ँसु|ंक्|ंगल|ंलग|ंवि|अंग|अत्|अथव|अना|अपम|अमा|अवछ|अवर|अवह|आका|आक्|आचर|आत्|आर्|आवध|इँ |इको|उठा|उनु|उपच|उपर|एर |एवं|कदम|कदर|कदा|कां|किय|किस|कुठ|कुत|कै |क्न|क्स|खि |खित|खिन|खोज|गरू|गाइ|गिर|घका|घन |घात|चिट|छिन|जदा|जनक|जर |जसम|जहा|जिय|ञ्च|टको|टै |ट्य|ठान|ठार|ढाँ|णमा|णा |तबा|तर |तला|तार|तिग|तिर|तिव|तिश|तृत|थवा|थाक|थि |थिक|दक |दछ |दमन|दमह|दयी|दरक|दल्|दाक|दीक|दै |द्र|धि |धिच|धिम|नः |नउठ|नक |नजन|नजर|नपा|नर |नरह|नवक|नवह|नाइ|नाद|नार|नाल|नास|निम|नुव|नू |पको|पति|पदण|पर |पाए|पाद|पुन|पुस|प्त|फत |फुर|फौज|फ्त|बदल|बना|भङ्|भड |भात|भाल|भाष|भुश|मजा|मतल|मतह|मद्|मनक|मनु|मरक|महत|महर|माथ|माध|माप|माह|मुन|मेत|मैत|म्त|यतम|यमद|यहा|याख|याच|याद|यित|योस|रणम|रद्|रन्|रफ्|रभु|रय |रसा|रहि|रहे|राघ|राद|राप|रिम|रिह|रीय|रीर|रीह|रून|रोत|रोध|रोह|लगा|लग्|लङ्|लतक|लतब|लना|लाइ|लिङ|ली |वं |वका|वछि|वधि|वनक|वबा|वरो|वहर|वहे|वाइ|वाक|वृद|वेत|वोत|शक्|शत्|शार|शाल|शील|षाद|षिक|षेत|षेध|ष्क|ष्य|संल|संव|सजि|सञ्|सतक|सत्|सद्|सनद|सनर|सभा|समे|सर्|सहय|सां|साह|सित|सिय|सिव|सीक|सुक|सुन|सूच|सैक|स्ट|स्र|हक |हकद|हट |हत्|हमा|हयो|हे |हेक|हेल|हैस|ाँक|ाँग|ाँध|ांक|ांस|ाइँ|ाइक|ाएर|ाक |ाघा|ाचा|ाटै|ातृ|ाथि|ादक|ादर|ादा|ादे|ाद्|ानज|ापद|ापा|ाप्|ावब|ावश|ावे|ावो|ाषा|ासत|ासी|ाहट|ाहे|िइए|िगत|िङ्|िट |िदा|िन्|िम |िमक|िमि|िम्|िया|िरन|िरफ|िरि|िरो|िव |िवि|िशी|िषे|िसि|िहा|िहि|ीको|ीक्|ीरि|ील |ीहर|ुकै|ुठा|ुति|ुनः|ुनु|ुवा|ुशत|ुषि|ुष्|ुस्|ूचन|ून्|ूपल|ूहम|ृत्|ृद्|ेखि|ेछन|ेत |ेतन|ेत्|ेध |ेलन|ैत्|ैसि|ोट |ोटक|ोत |ोत्|ोध |ोपक|ोपन|ोषि|ोह |ौजद|्कर|्कु|्घन|्चा|्ड |्दछ|्दय|्दै|्नि|्नू|्फत|्मज|्मर|्यम|्रद|्रस|्लङ|्वन|्वश|्सत",
+  },
+  Latin: {
+    af: "ie |die|en | di| en|an |ing|ng |van| va|te | re|reg|et | be| te|ens| ge|een|le |ver|lik|eg | he| in|lke|het|ke |nie| ve|de | el|id | op|aan|nde|om |eid| vr|al |and|der|elk| ni|hei| we| aa| sa| to|men|er |ord|in |kee|of | vo|ers| me|ot |ge |tot|erk|sal| of| om|dig| wa|vry|asi|nd |wor|ige|at |ede|ns |rd | de| n | wo|aar|bes|ere|gte|sie|eni|oor| on|aak|edi|egt|se |ska|vol|eli|esk|ik |rdi|din|ele|erd|kap|sy |ak |lle|sta|uit| st|es |is |ker|nig|ond|ap |ryh|yhe| hu| vi|el |eme|gem|ien|ike|ir |op |vir| as|ang|wat|wer| sy|del|gel|min|nge|nse|ten| is| so|as |end|oed|re | al|ale|eur|ewe|ger|it |nas|rin|ur | ma|deu|gin|ies|red|ter| da| hi| na|ees|hie|ier|ig |kin|nsk|ema|ind|ite|per|rde|wet|eke|eri|man|nte|ans|ese|ges|lan|nal|ske|tel|voe|waa|wee| gr| ty|ely|hed|hul|ion|lyk|maa|ndi|ona|ont|opv|ort|pvo|ren|sia|sio|soo|daa|eem|ent|erm|esi|gen|iem|nsp|oon|raa|sek|spr|ste|str|voo|wel| le|all|ame|bar|em |mee|met|nee|osi|rmi|sos|taa|tee|yke| ka| pe|arb|are|dee|den|kan|nli|pra|rs |rse|rso|sel|uwe| la| mi| oo| se| sl|aat|ar |ard|eel|ene|est|ete|evo|ghe|igh|ins|kul|lin|nsl|ods|olg|rkl|spe|tyd|und|vor| an| bu| ho| ui|ari|ass|beh|gro|gs |huw|ili|lge|nda|ne |pli|rki|saa|sen|tan|tre|yde|ye | ar| fa| fu| ne| no|ag |ami|beg|bev|dam|doe|ek |ern|fam|fun|gde|gti|ial|lie|lig|loo|lui|mil|olk|raf|slu|son|sse|toe|tra| ki|eer|egi|els|epe|erh|erw|gev|idd|igd|igt|khe|ldi|lew|nin|noo|nst|oll|pe |pen|res|rk |rsk|rtr|ser|sku|sli|tie|tig|tte|uld|we | do| ei| ko| ku| mo|ade|bep|dde|dsa|eit|enb|esp|gan|han|hom|ikh|il |int|itg|kla|kli|mid|nba|ngs|oep|on |ope|org|ras|rbi|rel|rge|rhe|rna|sdi|tei|tin|tus|ul |ull|vre|wit| af| ba| go| or| ra| sp| tr|aad|ad |ati|bin|bit|bur|dit|dom|dsd|ege|eho|eie|enl|erp|ets|god|hoo|ias|iek|iet|igi|ikk|itr|kel|ken|kik|kke|kti|kun|lar|nne|nni|ntw|oef|oms|oos|or |pek|roe|rt |rye|rêr|ski|skr|sso|trê|tsy|twi|uns|urg|was|wen|wik|wil|êre| er| tu|af |akl|alg|ali|baa|bel|efe|egs|egv|ekt|ela|eld|elf|enn|erg|fen|ged|gee|gve|imi|ina|kom|kri|laa|lee|lem|lit|mag|ms |na |odi|oel|ok |onl|ood|ook|orm|ou |oue|ree|rga|rie|rim|rke|rou|rpl|rui|tge|uss|wes|win| bi| eg| ha| ke| li| ou| pl| po| sk| wi|afb|afg|alm|apl|ate|atu|bet|bui|dad|dat|dis|dru|eeg|eil|elo|elw|erv|eta|fba|fge|geb|ikb|iks|inn|isk|itt|kba|kie|kle|klo|kos|ld |leg|lg |lid|lma|ls |lsy|lwi|mal|moe|mst|ndh|ndo|nds|nel|nme|nod|nsw|ntê|oen|oof|orp|os |osh|pro|rat|rei|rg |rko|rne|ron|rpe|rte|ruk|rwe|rwo|ryd|ryl|sam|see|she|sin|sla|sle|sor|sti|swa|syn|tat|tli|try|tye|têr|ure|use|val|vin|ydi|yf |yli|yn |êr | ag| ak| kl| pr| ti| un|aal|adi|agt|akt|anv|awe|bas|bie|diu|div|dwi|edw|egr|eko|emi|eng|eno|eoe|epa|erb|erl|gad|gew|gre|gri|idu|ied|iew|iki|ini|inm|ip |isd|iti|ium|ive|ivi|iwi|kor|law|ltu|me |med|nem|net|ngi|nhe|niv|ntv|nva|nve|oeg|oli|ops|ore|orn|oru|oud|pei|pol|rbe|rdr|rip|rks|rm |rms|rva|sas|sis|tas|tga|the|tiw|tur|tva|uen|ug |ulp|ult|uni|us |vid|vri|vro| ef| et| gu| hy| ow| r | si| su| sw|aag|aam|aas|afh|afs|akb|ala|amh|ani|ank|ann|art|arv|asl|aso|asv|ats|att|awi|ban|bei|bew|bly|bon|bro|bun|by |ded|dem|dha|dhe|dir|dra|dsg|dsk|dst|due|dus|duw|ebi|ebo|ed |edr|eds|edu|ee |eed|eff|ega|egl|egn|ehe|ehu|ein|eis|emm|emo|enh|env|enw|epr|eps|ert|eru|eso|ess|etl|etn|ett|eus|eva|evi|evu|fde|fek|fes|ffe|fha|fst|geo|gep|gli|gni|goe|gra|gsk|gun|haw|hee|ho |hou|hui|hy |ibu|ids|iel|ikt|ill|ipe|ira|ire|isa|isi|ist|ito|kaa|kbo|keu|kki|kon|kou|kra|kry|ksm|kso|kte|kth|lat|lde|ldo|ler|let|lf |lfd|lgi|lli|lp |lwa|lyf|mat|mer|mew|mhe|mik|mis|mmi|mok|moo|mor|mse|naf|nat|nis|nkl|ntb|ntl|ntn|nwo|ny |odu|oes|ofe|okr|old|olw|one|ong|ons|oot|opg|opi|ose|owe|pas|pes|pge|pin|pla|ple|pru|pse|psi|ran|rbl|rby|rdo|rek|rgo|ri |rib|rku|rla|rli|rny|rod|rof|rre|rst|rug|rus|rvo|ryf|ryw|sda|sed|sge|sig|sit|sko|sma|so |soe|som|ssi|sul|svi|swe|tad|tal|tbi|teg|tek|tem|tes|tip|tis|tne|tni|tri|tro|ts |tuu|ude|uee|uer|uis|uk |ukk|ulk|ums|una|uri|url|uur|vak|vul|wed|weg|woo|ywi| bl| br| ee| ek| ga| id| im| ju| kn| kr| lu| ob| ru| ta| vl| wr|ald|anb|anh|anm|arn|arr|ars|asp|ath|bek|ben|beo|ber|bid|bje|blo|boo|bor|ddi|dik|du |dve|dwe|eft|egd|eha|eik|eka|ekl|eku|emb|emt|enk|ep |epu|era|esl|fre|fte|gaa|geg|geh|get|gst|her|hoe|ide|imp|ine|inh|inl|iod|ise|itd|its|iva|jek|jur|kad|kei|kne|ks |ksi|ksu|kur|lag|lak|led|leu|lfr|lis|lof|lpb|lug|mar|mba|mek|mie|mpe|mpl|mto|naa|nag|nbi|ndv|ndw|ned|neg|new|nho|nik|nit|nke|nmo|nom|nsa|nsi|obj|oe |oek|oew|ogi|ogs|omi|omp|oni|onm|onn|ono|onv|oog|ora|ork|orr|ote|otg|pal|pbr|pir|pog|pon|pre|pri|pst|put|pyt|ra |ral|rba|rep|ret|rew|rho|rig|rio|ris|rit|riv|rlo|roo|rot|rpr|rto|rvr|ry |spi|spo|spy|st |sur|tdr|tir|too|tru|tso|udi|um |ust|uta|vaa|vat|ves|vla|vra|won|wre|yd |yk |ykh|yte",
+    az: " və|və |ər | hə|ir | bi|lar| ol|in | hü|hüq|üqu|na |quq|lər|də |hər|bir| tə| şə|lik|mal|an |lma|şəx|əxs|dir|ən |ali|una|uqu| ma|ası|ilə|ini|qla|ikd|yət|əsi|aq |ar |mək| ya|arı|qun|ək |əti|ilm|sin|yyə|ın |iyy|kdi|nda|əri|ət | mü| mə|ni |rin| az|dən|lmə|tin|nin|xs | et|olm|olu|zad|ün |ını|ərə| qa|ara|ndə|aza|lıq|lə |nın|rın|tmə|ına|lun|əmi|da |ind|maq|etm|sın|dan| on|il |mas|rlə| in| öz|bil|nun|nə |ya | va|adl|dil|dlı|si |un |ama|ik |inə|alı|irl|sı |ınd| di|anı|bər|li |lət|nı |ığı|əya| bə| sə| da| ed| he|eyn|iş |müd|nma|ələ| al| də| iş|asi|dır|ifa|ola|raq|ətl|ala|ins|min|nla|rı |üda|ıq |əra| əs|adə|həm|kil|lan|mi |məs|sil|unm|uq |xsi|ır | is| ta|afi|daf|edi|eç |fiə|heç|ili|ina|ist|lıd|osi|sia|sos|tər|ıdı|əni| bu| ha| ki| se|hsi|ill|man|məz|sas|seç|təh|öz |əhs|əsa| as| cə| ni| üç|aql|axi|bu |dax|lığ|mil|miy|nik|nsa|san|tlə|təm|uql|xil|çün|üçü|ıql|əmə|əz | mi| so|al |alq|iə |kim|lı |onu|ril|rə |siy|sti|xal|yin|zam|ğın|ədə| ey| za|ana|ial|ika|kah|kəs|məh|mən|qu |tam|tif|yar|yni| dö| öl|am |ayə|aşl|fad|ild|iya|iyi|liy|lkə|tün|ulm|uğu|var|yan|ölk|ılı|şlı|ətə|əyi| ci| nə| qo|ad |aşı|baş|cin|cəm|dig|gər|igə|kdə|lli|miş|mət|qan|ri |rmə|rəf|sər|tir|vlə|örə|əli| bü| it| xa|abə|alm|anu|ard|aya|büt|daş|din|duğ|döv|həy|ida|ira|iri|itə|lən|nay|rab|tən|yat|övl|ütü|ğı |ım |ənd|əqi| ai| il| ir| kə| ye| üm| əm|ail|amə|azı|diy|eri|idi|im |kət|ldu|ma |may|mka|mum|old|rək|sit|stə|tın|təl|umi|und|vas|ümu|şın|şər|əkə|əm |əst| ay| tö|aha|anl|eçi|eçk|fin|ha |itt|izl|kiş|kən|la |lmi|mad|mam|məl|nam|nan|nəl|qal|rma|tti|tör|ver|yaş|yi |zli|çki|ünü|ış |ədi|əfi|ərl|əyə| ba| be| el| la| sa| əd|ada|ah |ans|atı|ayr|bəy|cəs|dud|han|iti|ki |ldi|ldə|lid|ləy|ləş|məy|nsı|nət|onl|qar|qi |qət|sıl|tdə|ti |tə |unu|yrı|zər|özü|ğu |ılm|əna|ətd| do| ke| qə| sü|ak |ann|arş|at |blə|bəs|dar|di |dım|ham|ila|imi|keç|laş|llə|lql|məd|məq|nil|nna|nün|nəz|qad|qid|qsə|ra |rak|rbə|rdı|rla|rşı|siz|st |səd|uz |yal|yə |yən|zün|çir|üna|ırı|şmi|şək|əki|əqs|ərb|ərd|əzə|əşm| ar| gö| hö| im| qu| uş| üz| əl|afı|ai |ait|alə|arl|ata|axt|ayı|bey|caq|dal|dəs|elə|eti|eçm|gün|hkə|hör|imk|inc|ink|işa|işt|kan|kar|kəm|laz|lq |lxa|ncə|nki|rad|rai|rum|rıl|rəd|sən|tan|tid|təq|uşa|vət|vəz|yas|yer|ynə|zba|zım|çmə|örm|özb|ğun|ız |şaf|şaq|şti|əda|əhd|əkd|əlx|ənə|əru|əsə|ətb|əzi| gü| lə| qr| ri| yo| öd|adı|ahi|amı|aqə|as |ass|atm|ayi|aşa|dəy|hdu|idə|iha|iq |irq|lat|lu |ləs|muş|mış|mə |mər|nsi|qor|qru|qın|raz|rdə|rif|rli|rqi|rup|ruz|rət|sah|ta |tic|tih|tli|tma|təş|uş |xta|yaq|yiş|yol|ödə|ınm|şki|əbl|ərk|əvi|əşk| an| fə| ic| po| pr| si| sı| xi| zi|ab |aca|adi|ahı|ahə|aln|aqı|ari|arə|ağa|aşm|bar|bi |biq|bti|dai|dd |dmə|dın|dəl|dər|edə|elm|erm|esa|fah|faq|for|hes|hru|ias|icə|idd|idm|ifə|iki|ipl|irə|işi|işs|kiy|klə|lki|lnı|lsu|lüy|mla|mül|nac|nah|nal|nas|nat|nlə|nu |nız|ona|orm|oru|plə|poz|pri|qa |qay|qda|qib|qlı|qqi|qul|qı |ras|rat|rda|rkə|rəq|sab|sip|sso|sve|sığ|səs|tar|tbi|tək|tət|təy|udi|ul |um |uqa|xid|yda|yet|yış|yəs|zid|zif|ülk|üst|üyə|üzv|ğul|şay|şsi|şı |əbi|əcə|əd |əhk|əhr|əmk|əqq|əs |əsv| ax| ağ| bm| du| dü| fo| ge| gi| gə| id| if| iq| i̇| me| mö| nü| qe| qi| ti| yö| ən| əq| ər|aki|aml|aqq|arm|asl|axş|azi|ağl|aşd|bmt|bur|bəb|bət|bəş|cbu|cda|cəz|dah|ddə|dey|dik|doğ|etd|eyr|fı |fın|fəa|fəl|giz|gör|hak|haq|hüd|hət|ibd|ibl|ibə|ide|inl|iqa|iqt|işm|lav|lhü|lil|luq|ləb|maz|mağ|mlə|mt |mün|müt|müə|məc|ndu|nli|nmu|oyu|ozu|oğu|qey|qoy|qqı|qti|rdi|ris|rk |sax|sib|sla|sun|sül|sız|sə |səb|səv|tdi|tib|tiq|təs|udu|uni|ur |usi|viy|xla|xşı|yax|yay|yri|yul|yön|zlı|zul|züm|çil|önə|üdu|ülh|üml|üta|üzü|ğa |ğla|ınl|ısı|şdı|şma|şmə|şıl|şıs|əal|əbə|əcb|əla|əld|əml|əsd|ətm|əza|əşə| aç| aş| de| fa| ib| ik| nö| pe| pu| ra| rə| st| su| te| to| tu| ve| vi| xü| xə| yı| ça| çı| öh| üs| əx|abi|add|afe|ahd|ahs|alt|and|apm|aqd|aqi|ark|ars|art|asa|asə|ati|ava|ayd|ayğ|azl|azy|açı|ağı|aşk|aət|bağ|bbi|bdə|bel|bii|but|bəx|ca |cal|cba|cil|cti|cəd|cək|das|ddi|dem|did|dol|dos|dul|dun|duq|döz|dəb|dək|dəm|dət|ekt|ela|emo|etk|exn|eya|eyd|eyi|eşə|fay|fel|fi |gey|gəl|hda|hdə|hhə|hib|hid|hsı|hü |hı |hın|həq|həs|həz|ib |ibb|ibt|icb|icd|ici|ict|ifi|ii |ikl|ima|imə|int|iql|iqə|itu|işl|iəd|i̇b|kba|kda|kin|kra|ktu|kün|kə |kəl|lam|laq|lay|lda|lif|llu|lmu|lqı|ltı|luğ|lül|lıc|ləc|mai|mar|mey|mkü|mlü|mok|möh|müm|müs|müy|mıy|nad|naf|nar|naə|nc |nca|ndi|nim|nlü|nta|nul|nve|növ|nü |nüm|nış|nəv|oca|okr|ols|ond|ost|oxu|oşu|peş|pla|pma|pul|qab|qil|qiq|qli|qoc|qoş|qur|qən|qəs|ric|riy|rlı|rsa|rsə|rtı|run|rəc|rən|rər|sa |say|sdi|sdə|slə|ssə|stl|stü|sub|sus|suz|süb|sür|səh|səy|tal|tap|taq|tbə|tex|tik|tim|tki|tlu|tmı|tox|tsi|tus|tut|tır|təb|təd|ull|uls|uma|unv|up |upl|uri|url|urm|ut |vah|val|vi |vic|vin|vü |vün|xan|xni|xsl|xun|xüs|xş |xəs|yim|yiq|ynl|yün|yğı|yır|yıt|yığ|zin|ziy|zun|zvü|zya|zz |zı |zıl|çat|çıq|çıx|öhd|öhk|övü|übu|üdd|ülm|ülü|üma|ümk|ünd|ünl|üsu|üyü|üəl|ğır|ıca|ıla|ımi|ınc|ıqd|ıtm|ıxa|ıya|ıyı|ışı|şil|şka|şlə|şul|şıy|şığ|şə |əf |əhh|əkb|əkl|əll|ərs|əss|əts|əxl|əxş|əyy|əzz|̇bt| at| bö| ca| cü| ef| eh| ev| hi| ko| kö| o | or| re| ru| sö| uy| yu| zü| zə| şü| əh| ək|aar|aba|acd|aci|akt|ald|alx|alç|amb|amn|anc|ane|ani|anm|arb|asu|atu|avr|avə|axl|axı|aym|az |aş |aşq|ban|bat|bax|bda|bit|bla|ble|bli|bsə|bun|bye|böy|can|car|cib|cla|cüm|cə |cəh|cəy|dad|dav|dağ|dbi|dda|diq|dla|dlə|dri|du |dua|dük|dün|düz|düş|dıl|dəh|eff|ehr|eht|eni|enl|erd|ere|esu|evi|eəs|fek|ffe|fli|frə|fsi|fuz|fçi|fə |fər|gen|gin|gös|göt|göz|gən|gət|har|hbə|hdd|his|hiy|hri|hti|hun|hvi|hün|hşə|həb|həd|həl|iba|ica|ifr|ifç|iks|inf|ipə|irm|is |isa|isd|isi|iss|iv |iyə|iz |iza|izm|işg|iəs|i̇n|kli|kon|ks |ksi|kte|kti|ktl|köl|lab|lak|ley|lin|lir|lmü|lti|lur|lxm|lça|lıl|ləa|ləd|ləm|maa|mbl|meh|mlu|mna|möv|müş|mın|məş|ncl|neə|nfo|ngi|nif|niy|niz|niş|nst|nsu|nya|nüf|nıl|nşə|on |ons|orq|orx|oza|pa |pun|pər|qe |qin|qip|qiy|qəd|qəy|rah|ran|rba|rdü|ren|res|rgü|rhə|rib|rit|riz|rpa|rqa|rsl|rtə|ru |ruh|ruk|rur|rvə|rxu|rül|rəh|rəl|rəo|sad|sam|sb |sir|slı|son|ssa|ssi|sta|str|sud|sur|suv|söz|səl|tat|ter|til|tis|tit|tiv|tiy|tlt|tru|tua|tub|tul|tur|tür|təf|ua |ual|ub |ubl|uby|udl|udə|uhu|ukt|uld|ulu|uml|upu|uqi|urs|uru|usu|uta|utu|uve|uyğ|uzu|vac|vax|vqe|vra|vər|xar|xas|xma|xt |xu |xıl|yac|yam|yek|ylə|yma|yum|yur|yyu|yük|yğu|yəd|yər|zan|zay|zil|zlə|zm |zv |zvl|züi|zül|çal|ölə|öst|ötü|övq|öyü|özl|üfu|üid|ük |ükl|üm |ünc|üny|ünə|ürd|ürg|ürü|üur|üş |üşü|üəy|ğan|ırl|ızl|şam|şdi|şgə|şi |şin|şmı|şqa|şün|şüu|şğu|şət|şəy|əah|əb |əbs|ədb|ədd|ədl|ədr|əfl|əfs|əhb|əhv|əhş|əhə|əks|əkt|əl |əlm|ənc|əng|ənl|əns|ənş|əol|ərh|ərm|ərp|ərt|ərv|əsb|əy |əyl|əzu|əşd|əşğ|̇ns",
+    br: " de|en | ha|et |ar |zh |où |ezh| ar| da| di|da | pe|añ | gw| an|an | en|wir| e |ha |gwi|enn| ga|el |den| ma|ir |us | he|eus|ez |ant|ep |ll |nt |ioù|deu|vez| a |ur |ag |hag|rez|eze|pep| ho|pe | be| d |gez|gan|ut | ke| ve|out| re|lez|ade|eza|oll| ne| o |ere|nn |dig|ell| vo|oad|zañ|net| c | ge|aou|hel|hol|roa|del|eo |re |red|gao| eo| fr|evr|ran|ank|are|doù|ele|fra|kiz|nki|vo |adu|dur|edi|iri|ne |rio| al|bet|er |eve| ev|ige|vro|ber|dio|uzh|vre|war| ur|ado|ouz| le|all|iz |ma |zio| h | hi| la|ege|hin|iñ |ni |nne| pa| vr|evi|ini|vit| br| em|al |bou|ed |eme|it |ure|nno|oue| dr| zo|obe|tañ| se| st| wa| zi|ab |at |aze|bro|dez|ebe|mañ|our|vel| ob| un|abo|lab| eb|dre|esk|gel|gev|nna|rc |zel| do| ou|ad |bez|dis|ent|gwa|hañ|izi|kad|per|rel|rzh|ven|zet|zha|ask|die|ezi|iez|iou|lle|mab|mez|nan|noù|ren|skl|zen| na| sk|ane|des|dia|eiz|eli|isk|ken|ro |rve|ver| eu| ko|ave|ime|izh|nad|nta|oar|rei|sev|ud |zhi| ba| ez| oa|ann|deg|eg |erv|eñv|her|iaz|kev|le |len|lla|oan|one|ont|ret|rie|ska|ski|sta|uhe|una|zeg|zez|zhe|zo |ñve| go| kl|dil|erc|erz|eur|hen|hoa|iog|kla|klê|lad|lêr|mer|oc |oge|tre|uez|êri| bo| et| ta| z |aat|ana|bev|der|ede|etr|eva|fe |gem|gou|hep|ieg|iga|ion|mar|men|nel|on |par|pen|rea|roù|tad|tro|un | ao| ka| pr| tu| vu|abe|ale|ama|arz|bab|ead|ene|ero|gal|gar|iad|iba|ive|ket|las|let|nie|or |orr|rev|ria|rou|zho|ziñ| fe| gr| te| ti|dan|diw|ec |ek |em |for|gen|hez|iañ|iji|jio|lij|mm |nto|pre|rao|roe|sk |sko|tud|uga|ul |vañ|wal| ab| dl| du| gu| iv| kr| me| po| pu| vi|aen|aka|amm|aok|arn|ban|bar|bli|dim|dle|dou|dud|emb|ers|fel|hed|hom|ied|iet|ifo|ik |ior|ira|keñ|lav|lik|llo|mba|met|mmo|moù|nem|orc|ouj|pa |pub|res|rn |rol|rre|rso|son|st |str|tie|ubl|zib|zif|zim| bu| li| ro| to| ze|aet|aez|ak |aoz|arv|as |añs|añv|beg|dir|diz|doa|edo|eet|emm|eoc|han|har|ian|igo|ile|ind|ita|iwa|kel|kem|kia|kon|kre|lak|lañ|liñ|mpr|nav|nañ|nda|ner|no |nte|nti|nve|obl|omm|oul|peo|rae|reo|spe|sti|tam|tle|toù|tu |uen|uet|uja|uni|urz|var|vet|vou| ae| er| eñ| lo| mo| ra| sp| tl| uh| va| wi| yo|aba|abl|alc|ali|anv|aot|aro|atu|ava|azi|bal|ben|blu|bri|di |dib|dif|din|eat|ega|ena|eno|ern|es |est|eub|eñ |fen|gas|get|gom|goù|gra|gui|hev|hia|idi|ieu|ife|ign|ike|ila|jañ|kaa|kas|kin|koa|laz|lc |lec|lep|ler|lio|loù|lus|mam|man|mou|na |nae|nag|neb|nep|nez|oa |oaz|od |oet|ok |ol |omp|otr|ous|ozh|pro|rak|rat|rer|rne|rze|sav|se |stu|taa|tel|ten|udi|uit|uri|ust|ve |vug|vuh|you|zam|zer|zoù| ad| eg| gl| n | sa| tr| ul| ye|ac |ada|aee|ast|ata|blo|bob|buh|che|dal|ded|dek|diñ|don|egi|ela|elr|eng|eoù|eun|gla|gno|gre|he |het|heñ|hi |hio|ho |hpe|ier|ilh|ine|ist|iza|ker|kiñ|kor|kou|lea|lek|lfe|lid|liv|llf|llz|lro|lve|lzi|mal|mma|nat|ngo|nni|non|nst|oda|oez|oke|oni|oua|oud|oun|ozi|pae|peu|ra |rfe|rzo|ske|tal|ti |tiz|to |tor|tur|uar|ub |vat|ved|vig|vod|von|was|zhp|zoa|ñs |ñv | am| as| ee| in| ki| ku| mi| mu| on| si| we|abd|adr|age|agn|aon|ape|ara|arb|arg|arp|asa|ase|ate|av |avo|bap|bas|bde|beu|bl |bod|bug|dao|dar|dav|dañ|dem|deo|dev|dik|dra|dro|dru|eañ|eb |eeu|efe|ego|eis|eiñ|ekn|ema|emo|enl|ens|env|enw|epu|esp|eta|eue|eut|evo|fed|gab|gav|gie|gne|gop|gor|gum|hab|had|hal|has|hde|hes|hie|iab|ibr|ich|id |iha|ijo|ika|in |inn|ins|ioc|ish|iti|iwe|jei|jet|joù|kab|kar|kle|klo|kni|kol|koz|kra|kte|kuz|lee|leu|lev|lha|lit|lli|llv|lod|loj|lor|lot|lou|mac|mad|mae|mat|mel|mes|mic|mme|mok|mui|mun|nao|ndi|ned|neg|nes|nig|nik|nla|nob|noz|ntr|nwi|oel|oio|oje|oka|okr|oli|ond|opr|orf|ose|ota|ou |oza|pad|pal|pea|ped|pob|poe|pol|pr |pri|pu |ras|rep|reñ|rgo|rid|rme|roi|ros|rp |rro|rt |rvi|rzi|san|ser|set|seu|sez|she|sin|skt|sku|stl|tag|ted|tek|ter|tia|tik|tio|tou|tra|tru|tum|ude|ued|ues|uio|uje|umm|umu|ura|urt|vad|vef|vei|vev|vih|vij|voc|waz|wer|yec|zad|zal|zed|zhd|zi |zig|zis|zok|zon|ñvo| ak| at| az| ch| ei| fo| iz| ja| or| pi| pl| so| su|ach|aga|ago|ahi|akt|alv|amz|ans|aoù|ard|ari|arl|arm|arr|art|asf|aso|bac|bao|bed|bep|bra|bui|cho|dac|dad|did|dij|dor|dsk|eds|eh |eie|eil|eko|elv|emp|emr|enf|eni|eol|eon|eou|ept|eri|erm|ese|eud|eul|ev |fei|fre|gad|gañ|gil|gna|go |gol|hec|hir|hou|hus|iar|ide|idr|iek|iem|ien|ije|il |ili|ina|int|inv|ism|iv |iva|izo|jah|jan|je |jid|kae|kañ|kig|kom|kri|kto|kui|kul|laa|led|lei|leo|lhe|li |lia|lie|liz|lo |lue|lvo|lz |meg|mre|mz |mze|nak|nas|nfe|niñ|nor|nre|ns |nsa|nvi|nvr|ofe|ole|om |omz|onr|ori|orz|oñj|pin|ple|pon|ptu|rba|rbe|rde|rek|rem|reu|ri |rin|riv|riz|rlu|rof|rrf|rse|rta|rub|rud|rue|rug|ruj|rvr|sfe|siñ|sme|soc|soñ|soù|spo|sto|suj|ta |tat|tav|teg|teu|tin|tir|tl |tok|tri|ube|ubu|uil|uiz|uji|ule|uli|ulz|urs|uti|uza|vak|veu|vid|vin|vra|vru|wel|wez|yez|zan|zeh|zeu|zhu|zia|zil|zir|zou|ñj |ñsi|ñso",
+    ca: " de| i |es |la | la| a |de |ent| pe|per|tat| se|at |nt |ret|ió |dre|men| el|ts | dr|ona|ls |ció|aci|na |al |el |en | co|que| en| to|et |tot|ers|ns | pr| qu|er | un|ion|ta |ons| ll| l |ita|rso|son| té|té |cio|del|res|als|cia|est|les| re|con|pro| in|ame|els|ia |lli|ota|ue | al| o |ar | le|sev| es|nac|nci|rà |va | no|nal|ser|ual| d |ant|eva|sta| ca| na|ats|ert|re |ues|com|no |rta|és | so|una| pa|cci|ber|ibe|lib|sen|ets|nta|ter|tre|ure|igu| as|da |ici|lit|ran| ma|ali|ect|ene|erà|gua|man|oci|om |soc| di| ig|cte|eme|ens|tes|vol|alt|ass|des|ial|nte|se | aq| fo| ni|aqu|cti|ess|ir |ote|par|ra |seg|uni|us | po|eta|hom|ica|pre|tra|ènc| ac|ada|ble|dic|ecc|egu|hum|ide|lic|mit|ntr|sse|ssi|ten|uma|un |ura| hu| te| és|eli|ria|tal| ha| tr|act|ans|esp|ist|iur|iva|liu|ltr|nit|nse| am| mi|amb|art|cie|eix|era|gur|le |ll |mat|ndi|olu|rot|tiu| ex| fa|an |bli|cla|ele|eri|fon|ing|int|lia|lig|nam|ome|ont|os |rac|rti|seu|sos|spe|tec| ob| si|cap|duc|ere|gú |ic |ies|ime|inc|itj|ius|lle|més|ngú|nin|ol |ots|pec|pos|qua|ral|te |tic|tri|tur|vid|àri| ar| ed| ga| li| mo| vi|arà|dir|ern|for|iar|iet|igi|ina|ins|iqu|ive|lar|mb |nde|ni |omp|one|oth|ple|reb|rec|sso|sti|tar|tho|ver| ta| vo|amí|ap |ara|ati|cac|cas|cip|dis|efe|ell|fam|ind|ixe|míl|nen|obl|ond|or |pen|pri|ren|rim|rna|sar|tac|tiv|tèn|íli| ju| me| or| pl| sa| su|abl|all|atu|bal|bit|ca |cul|der|eba|edu|ena|eu |evo|is |lse|mun|nes|nsi|nst|opi|rat|rel|rom|rs |sa |sal|sat|sid|tja|tor|uca|uci|ís | be| cu| do| fi| fu| ho| op| pú|aís|ben|ei |end|env|esc|ese|fic|ict|imi|in |its|jan|lei|lem|mis|nid|niv|nvo|nça|ori|ort|paí|púb|rem|ri |rie|rit|riv|ràr|stè|upa|úbl| au| s | ve|arb|asa|aud|aut|col|dec|eco|ecu|eny|erc|gau|ida|itu|lec|lim|mes|nei|nom|nti|omu|oni|ora|pli|rop|si |sot|st |str|tam|tir|trà|udi|vat|xem|ça | at| ci| eq| gr| mé| ra|alm|ana|ani|are|atr|dig|don|ecl|equ|eus|fun|gió|gni|gui|han|idu|ien|ign|imo|ipa|ira|iss|itr|ivi|li |lme|lun|lup|min|mon|mpl|mpo|nic|nsa|nts|nya|omé|osa|ot |pac|pam|qui|rbi|roc|sec|sio|sis|sió|tan|tòr|ucc|unt|ur |uri|urs|vit|yam|ífi|òri| hi| ne|acc|anç|ari|ate|bje|bre|cad|cam|can|cat|ces|cit|cre|cs |cur|eci|ego|emb|exe|fac|gon|hi |iam|iga|ili|inf|isf|itz|ixi|jec|len|lir|lta|mor|mpr|mès|nad|nat|ner|nfo|obj|odr|omi|omo|pie|pob|pod|què|rci|rin|rsa|sam|sfa|sup|tim|tis|tit|tza|ult|unc|uts|uè |vel|ves|ès |ón | cr| ef| fr| im| mè| va|abi|agi|ala|ama|as |bil|car|ced|ci |cri|ctò|cuc|def|dem|den|dep|eal|ece|edi|efi|egi|eni|epe|erv|esa|exi|exp|fan|fec|fen|fer|fil|fin|fiq|gar|gat|gen|gi |gin|gra|gut|iac|il |imp|ini|ior|ipi|isc|jus|jà |lam|ler|mbr|mem|mom|mou|nca|nec|nef|nfa|nió|ntí|ocl|ogr|opo|orm|oso|otm|our|pis|rar|reu|rig|rio|ris|rme|rog|rse|ruc|sco|scr|ssa|sts|tab|tin|tiq|tjà|tmè|tru|tíf|uin|uit|upe|usa|ust|ut |uto|uït|vot|xer|xi |xpr|çan|èri|éss|ïta| ap| ce| fe| ge| só|acu|ami|anc|anv|apl|au |aça|bas|bé |cer|ciè|cus|deg|dei|din|div|drà|dua|dèn|een|emo|enç|err|esu|eur|fes|fra|fro|git|gru|gré|ha |icc|ics|ill|it |ièn|iòd|jur|lla|llu|lor|lti|ltu|lur|mbé|nim|nsc|nvi|ole|oli|ord|orn|pau|pin|raç|rca|rdr|rea|ree|rep|riò|ron|rtà|rup|rés|sci|scl|sig|sol|spo|ste|són|tad|tud|tàn|ud |ula|uns|val|via|xen|zar|ànc|òdi| ab| ad| af| ba| du| em| er| go| id| ja| mó| n | nú| oc| om| pu| tè| àd| èt| ún|aba|acs|ací|ade|afi|ai |ale|alu|amp|apa|asc|asi|ast|ata|atg|atò|aur|aus|avi|aïs|bsi|bun|cab|cal|cce|ccé|cic|cir|clo|cni|coo|crà|cta|cup|cut|cèn|cés|cíf|dar|dat|det|deu|dhu|dim|dra|dur|duï|ecr|eda|eis|emn|emp|emu|enc|enf|epr|esi|eso|ete|eto|etr|eun|fa |fom|fut|gan|ge |gio|gov|gèn|hab|hag|hau|huc|ibl|ibu|idè|igè|im |inh|inn|inv|iol|ios|irc|ire|irà|ite|ito|iu |ja |jud|lal|lav|leg|let|liq|lls|lou|lpa|luc|lut|lít|mai|mal|mar|me |mei|met|mic|mna|moc|mot|mpa|mèd|mèr|món|nab|nar|nas|nce|ncl|nda|ndr|ngu|nia|nno|noc|nve|nye|núb|oc |oca|oce|ocr|ocu|ocè|odu|ofe|oll|olí|onf|oop|ope|org|orç|osi|oss|oti|ou |ove|ovi|pab|paï|pel|pi |pir|poc|pol|por|pot|ps |pug|rag|rcu|ref|rga|rib|ric|rn |rni|rod|rof|rov|rre|rri|rte|rts|rtu|rtí|rve|ràn|ràt|ríd|scu|sib|sic|sil|sin|sor|spi|ssà|stà|stí|sub|suf|sum|sàr|tei|tge|tia|tie|tni|tol|tro|tuc|tui|tuï|tà |tèc|tíc|tís|uan|ubs|uc |ude|ufr|ugu|ui |uir|uiv|ulp|ume|und|une|ups|urà|urí|utu|utè|vad|van|var|vei|vi |vio|voc|xig|xis|yer|zac|àdh|àny|àti|ècn|èdi|ènt|ètn|íci|ídi|íst|íti|ïso|úbi|úni| da| ec| jo| lí| on| rè| ti| ul| àm| úl|aca|adm|adv|aga|aix|alo|any|aon|arc|arm|arr|asp|atj|atè|ava|aó |bar|bel|bir|bse|bte|bàr|cau|cep|cid|cil|cià|cor|cru|dan|dav|dea|dee|dif|diq|dit|dmi|dom|dot|dve|ea |ebe|ebr|ees|egr|ela|eng|enu|epc|epu|erm|erp|esf|esl|eti|exa|far|fe |fi |fid|gac|gad|gim|gre|her|hib|hon|ibi|icu|idi|ie |ife|ifi|ifo|ige|isd|isp|isè|iàr|jat|jor|lac|lau|lea|leu|lev|lie|lin|lió|llo|lte|lím|ma |mac|mbl|mil|mog|mol|mpe|mís|mú |nai|ndè|neg|nhe|nhu|nif|nio|nir|nis|nor|nsp|ntm|nun|nyi|nys|nòm|obi|obs|obt|ogu|ohi|olo|olt|omè|omí|omú|on |onc|ono|onò|op |opr|orr|ose|pag|pci|pet|pon|prà|prò|put|rad|rao|raó|rbà|rma|rmi|roh|rpr|rra|rue|rva|rvi|ràc|ràf|rç |rça|règ|ròp|sab|sac|sad|sca|sdi|sem|ses|sex|sfo|siv|sll|sob|spr|sto|sur|sèr|teg|tem|tif|tme|tos|tun|tut|tèr|tòn|ua |uel|up |upr|uta|utò|vac|vam|veg|ven|xam|xe |xin|yi |ysp|àct|àfi|àmp|çad|ègi|ími|òmi|òno|òpi|últ",
+    cs: " pr|ní | a | ne|prá|ráv|ost| po| sv|na |ho |ch |nos| na|ání|má |ti | má|vo | ro| je| ka|ažd|kaž|ávo| př| za|dý |ždý|sti|ou | st| v |neb|svo|bo |ebo| sp|vob| zá|obo| by|bod|ého|ých|rod|mi |ně |pro|spo|ván| ná|ter|ení|né |ny |ová|roz| ma|by |nár|áro|at |jak|kte|tní| ja| kt|byl|it |odn|stn|ím | li| vš|zák| bý|být|en |mu |stá|to |ví |ích|ýt | do| se| vy|ají|do |em |je |kla|li |lid|nýc|ným|oli|pří|rov|vol| k |eho|ejn|jeh|ké |mí |pod|pol|se |vé |ým | so| ve|dní|ečn|ran|své|vše|áva|čin|nes|nu |tví| ze|ci |hra|maj|nou|néh|ole|ova|tát| i | vz|stv|žen| ta|ave|chr|eré|esm|jí |kol|kon|lad|mez|ním|ovn|pra|smí|sou|va |ými| ni| oc| to|děl|ech|leč|lně|níc|och|při|rav|stu|vat|vou|ákl|ému| ji| os| s | vo| či|ako|aké|bez|du |ids|ivo|kdo|lní|oci|oko|st |sta|ste|tup|zem|áln|řís| ab| od| pl| vý|aby|dsk|dy |jin|len|lán|nez|nit|odů|oln|ské|slu|sob|tej|vin|vzd|zdě|zen|ělá| tr|adn|chn|din|dů |inn|iál|jíc|ky |odi|pln|rac|rok|áv |čno| mo| že|anu|ast|cké|ens|erá|est|ikd|jen|kéh|las|nik|ném|obe|pov|ré |tí |za |zac|ího|čen|že | dů| me| mu| ob|aji|byt|cho|ciá|dno|dně|ený|ezi|hov|iný|ku |le |luš|nem|něn|od |odu|oje|ože|pok|por|res|ský|soc|spr|tak|tře|ven|věd|zaj|ící|ísl|řed|ště|živ| be| uz|aso|atn|ezp|hla|jno|jné|lit|liv|lo |ly |níh|oji|oso|ozv|pos|ru |rá |sov|tre|ušn|ve |ved|átn|ává|ění|ům | de| kd| vl| úč| ži|ach|ani|bec|bož|dli|ecn|edl|els|išt|la |měn|nno|náb|pře|ro |stí|tu |ábo|áko|ém | ně| z | čl|aci|ami|ano|anž|bě |cí |dem|dě |důs|edn|ek |eře|ick|ina|iny|kým|led|lád|man|mě |ni |nže|obn|oby|ojn|ok |oti|pla|poj|ros|rot|sto|svě|tni|tné|veř|vyh|ylo|ze |zná|řej|ři |šno|ší |žel| js| op| tě|ara|bno|bud|dek|ekl|emi|emě|eob|ez |ině|jiš|jso|kdy|kov|lar|lat|lno|moc|nic|nsk|ný |obě|odm|ody|oho|ome|oru|ově|rác|tit|ty |uje|upn|uzn|vlá|vot|vým|yla|yly|zás|áci|ěst|řen|šec|šeo| bl| bu| cí| dě| hl| vě| vů|ada|adě|aje|ak |amě|any|ate|bla|cen|chá|cné|cíl|dec|dob|dov|dru|dět|eck|edk|eze|hny|hok|hán|iná|ist|jed|jet|ji |jný|koj|kož|kýc|lah|liš|měs|no |nst|ná |odl|oku|oro|ový|pad|peč|pom|pož|stř|ta |tic|toj|tě |těn|ují|umě|vaj|vní|vně|vod|voj|vév|yt |zam|zin|zpe|zvo|záj|záv|ám |átu|évo|ípa|íru|íva|či |čle|říp|šem|ůst|ůvo|žív| o | om| or| ra| si| sk| zb| zd| út|abe|ací|ade|aho|aví|bav|ce |ctv|cím|dbo|de |dle|dmí|dom|dpo|dův|emí|eno|ené|hni|hod|ich|ide|il |in |iné|iti|kro|kém|lný|lsk|lu |mat|mín|nan|nné|nný|nov|nut|nán|náv|odb|odp|okr|org|oto|ovi|ové|oči|ož |poč|ras|rní|rom|si |sku|sle|tat|tav|tná|tro|tvo|upi|val|vni|vu |váv|výc|yl |zab|zba|zi |zán|ádn|ása|áte|ávn|ázá| ať| dr| nu| pé| sd| sm| sň| um| ur| us|ace|alo|avř|ať |bor|cov|cíc|dam|dat|diž|dku|dky|dra|dro|děn|ejm|eln|emo|ena|eny|eza|ezá|gan|hle|hob|inu|isl|ivé|iza|išo|iž |jem|jis|jiv|jmé|jmů|jně|kou|kud|kům|let|lné|lož|lst|lze|lé |mor|mož|mén|mír|mů |nas|niz|nky|not|něž|odr|odá|olb|olu|omo|omí|on |ona|orá|ota|ouk|ove|ovo|oví|ozl|ozp|ozu|ožn|oží|pem|pné|poh|pou|pác|péč|rga|rob|ruž|rál|rát|sad|sam|sdr|spá|str|svý|sňa|taj|tan|tek|tel|teč|tna|toh|tot|tra|tst|těž|ud |udi|uko|upe|usp|uto|uza|uče|uže|vis|vla|výk|věn|vůl|yhl|zav|zdr|zej|zli|zpo|zum|ách|ájm|án |ána|áty|ávi|éna|éči|íle|íli|íst|ít |úto|úča|ýko|čas|ěde|ědo|ěle|ěn |ěna|ěno|ěti|ěž |ňat|řov|šov|žno| an| ch| ho| jd| ko| ku| my| mí| ot| sa| sh| sn| sá| tu| té| tí| up| uv| ví| zm| úc| úz| žá|aco|alé|am |atř|avi|azy|ba |bar|ben|bov|bvi|cht|del|dné|dný|dok|dop|dám|dán|dém|díl|dče|ed |ele|esp|esv|et |etk|ezb|eče|ež |hro|hto|hu |ict|idu|imi|inů|iro|ite|jde|jev|klá|kul|kup|ká |káz|lec|lem|lov|ltu|luž|láš|mné|muž|měř|můž|mž |nam|nat|nek|nel|nep|nev|nil|nim|nuc|něk|něm|nů |obv|odí|ohl|omá|one|onn|onu|opa|opo|otn|otr|out|ouz|oze|pat|pin|přá|rat|roj|ruč|rém|rči|shr|ská|slý|smě|sám|tec|tku|tou|tur|tut|tét|tím|těc|uce|ude|ult|upl|urn|urč|ut |uze|vaz|vid|vné|vný|vyš|vád|vím|vír|vět|vši|vům|yho|ytn|yšš|zak|zal|zby|změ|ádě|ány|ávů|áše|éko|éto|íl |ími|ínk|úct|úze|úče|čel|čit|čný|čně|ěch|ědč|ěni|ěny|ěřo|řes|řir|řsk|řád|řát|šen|šic|šle|šuj|šší|ůže|ždé|žuj|žád| al| az| ba| di| dá| lz| lé| mů| ní| ok| ov| sc| sl| te| tv| tř| ul| va| vi| vn| vr| vs| zl| zn| zt| zv| úr| ús| úž| ří| ša|acu|aha|ahr|ajn|ajo|akl|akm|ala|ale|aly|amé|apo|aru|ase|ati|atk|ats|avk|avo|ařs|ažu|ažď|bam|bdo|bha|bil|bu |byd|bíc|chu|chť|cký|cně|cty|cuj|cíh|ců |da |daj|dav|den|dis|dič|dl |dmě|dni|dos|drž|dso|dyb|dáv|dé |dře|eb |eba|eby|eda|edi|edo|eji|elz|elů|ema|emn|emu|ene|enl|enn|enu|epo|eri|ero|ete|eto|evi|evo|evu|eču|eň |eřs|ešk|for|ha |haj|hat|hna|hno|hop|hos|hou|hrn|hyb|hť |idé|ile|ilo|im |ino|isk|itr|ité|itř|ivu|ivý|iče|išť|jej|jic|jná|job|jád|kař|ker|kmi|ko |kra|kri|kut|kék|lba|lbu|les|lky|lod|los|loč|lék|lýc|lýv|lů |maž|men|mil|min|mo |moh|mok|muk|mus|myš|máh|mém|míc|měl|nac|nap|nec|nen|než|nli|noc|nol|nuj|nás|náš|níž|něj|nům|obd|obh|obi|obí|oc |oce|oct|oda|ods|odě|ohy|oká|oků|oma|oná|opl|opn|opu|orb|orm|orn|osp|osá|osí|otk|otl|oud|ouh|oup|ouš|ouž|ovd|ozh|ozš|očá|očí|oň |ořá|oža|oži|pců|pit|plo|plý|pno|pní|pon|poň|poř|pus|půs|rad|rby|rim|riá|rnu|rné|roc|ron|rou|ruh|ruš|rvá|rár|rže|sah|sch|sem|sko|skr|sná|sáh|sí |síl|tal|tam|teř|tko|tky|tla|tný|tok|tos|toč|trv|trá|táv|tář|téh|tíh|tř |uch|udo|uh |uhl|ukr|ulo|upc|upo|ust|usí|ute|utn|utí|uve|uvn|učo|ušt|ušu|uži|užo|uží|vac|važ|vdo|vec|veň|veš|vků|vno|vor|vos|vrá|vst|vyj|vyp|vys|vyu|vzá|váz|véh|víd|výd|výh|výt|výž|věk|vře|vří|vůč|ybo|yby|ydl|yjá|ylu|ypl|ysl|ytí|yuč|yšl|zah|zar|zho|zlo|zne|zpl|způ|ztr|zvi|zvl|zvá|zyl|áda|ádk|ády|ádř|áha|áhn|áje|ále|álk|árn|ásl|ást|áti|áří|ášt|éka|íc |ída|íhá|ímo|íne|íta|íze|íž |úro|úči|úží|ýdě|ýhr|ýtě|ýva|ýži|če |čiš|člo|ční|čov|čuj|čát|čít|ďov|ěja|ěk |ěkt|ěmž|ěnu|ěné|ěný|ěts|ěžc|ěžš|řeb|řis|řit|řst|ří |řím|řít|říz|šat|ške|šné|štn|šťo|ťov|ůle|ůli|ůsl|ůso|ůči|žad|žcí|žeb|ži |žit|žov|žít|žďo|žší| bo| br| co| du| fo| hr| in| kr| le| no| oh| pů| su| ty| u | uc| zo| új| úk| úp| če| řá|adu|adá|adů|ahu|ahů|aku|aká|aký|aln|amo|amý|ann|ans|arb|ars|art|arv|asa|asy|atr|atč|azb|aze|azk|azn|ače|ašu|aži|bch|bní|boh|boj|bou|bra|buď|břa|cha|chy|ciz|cno|co |ctu|dln|dlo|dna|don|dou|dst|duc|duj|dyž|dál|dář|dí |důr|ebu|ec |ede|edu|edá|ejv|ejí|elh|eli|emá|emů|enc|eni|enk|enů|epř|epš|ere|erý|esa|ese|euz|evz|ezc|gán|hal|har|hlá|hnu|hot|hoš|hrd|hrá|hyl|háp|ház|hům|ic |ice|id |ii |ijí|iko|ilí|imž|ine|inf|ipo|ity|itá|ive|ivě|izi|izn|iřo|ižu|jaz|jež|jim|jmu|jvy|jím|ka |kor|kru|kyt|lac|lak|lav|lač|laš|lep|lha|lni|lup|lím|lým|mac|mem|mik|mko|mos|mov|mto|muč|my |mys|máž|méh|mím|mýc|mýš|nad|nal|naž|nce|nde|nej|neu|nfo|nii|niž|něc|oba|obc|obř|ocí|ohr|oj |oky|omé|omě|ond|oni|onů|ore|osk|osl|ot |otu|oul|ouč|ovu|ozd|oři|ošt|ožt|pný|pot|pán|pěl|pší|pův|raz|rba|rdá|ren|rgá|rma|rmy|rný|roh|rpě|rsk|rst|rtě|rut|rvy|rán|ráž|réh|rék|rý |sel|sen|sil|sky|sli|slé|smý|sna|spl|suv|sy |tah|til|tli|tly|tně|trp|trs|tva|tyr|tá |tál|tém|tče|těm|tět|těš|tší|tů |udy|ula|ume|umn|upr|urá|uté|uči|uď |uší|užb|užů|ver|vná|vom|vov|voř|vy |vyb|vyk|vym|vyt|vyv|vza|vzn|vzt|víj|vý |výz|vě |věs|všu|ybu|yhn|yka|ykl|yme|yra|yst|ytl|ytv|yví|yž |zas|zat|zbě|zci|zdí|zdů|zek|zit|zku|zna|zni|zno|zot|zta|zyk|zši|zší|ád |ádl|ádá|áni|áno|áně|ápá|átů|áve|áze|ářs|ážd|áže|émk|íje|íma|ímu|írn|íři|újm|úko|úpl|úsi|úst|útl|ýzn|ýšl|čes|ěco|ěkd|ěl |ěmt|ěmu|ět |ěta|ětě|ětš|ěši|řad|řev|řij|řip|řiz|še |šit|šiř|ští|šud|šíř|ůra|žbo|ždě|žej|žil|žto|žů ",
+    cy: " i | a | y |ol |yn |dd |an |au |ydd| ha| ga|gan|awl|haw| yn|th |eu |eth| cy| gy|edd|aet|ith| ma| un|ddi|mae|wl |rhy|ae | ba|awb|wb | rh|baw|ddy|nol| ne|ad | eu| r | dd|eit| gw|iau|wn |hyd| ac|lia|wyd| o |iad|od |yw |ac |id |ddo|dyl|edi|oed|rwy|neu| dy|tha|nt |yd |ll |nrh|dei|cyf|fyn|ni |ymd| am| sy| ym|ned| ch| na|add|hyw|iae|nia|wli|ynn| ar| ll|edl|has|mde|red|unr| di|as |ch |ewn|idd| me|eb |fre|gyf|ir |lad|on |ysg| hy| ni|ait|dau|fod|yr | ad| he| u |di |rai|wla|wy | dr|chy|mew|rha|sg |yli|ai |dol|hau| ce|dda|ffy|fyd|io | te| yr|al |dyn|el |hyn|lid|rio|ys | go|awn|cen|cym|do |dys|ed |gae|ill|lai|mdd|rei| an| fe| fo| we|adw|ail|amd|ant|dig|dra|eid|gen|hed|hol|ig |lae|odd|wei|yfr|yng| bo| da| ge| n |all|ani|ddf|did|dif|fra|gwl|ian|int|lla|loe|na |neb|sol|thr|wch|wed|yla|yni| er| wa|ael|ann|dia|efy|ene|far|gym|gyn|ion|lli|ryd|tia|yfa| de| pa| po|art|bod|ddu|dfr|ein|gol|hre|iol|lei|nhe|nig|nti|oli|ros|rth|yno| hw| id| â |aen|ar |dio|dir|dlo|gu |law|lu |oda|rdd|ref|sy |syl|tal|uni| by| pe|aso|das|dat|dwy|enh|han|iff|in |iod|nai|nny|nwy|ono|ose|pob|ria|sed|wai|wys|ynt| el| ff| fy| my| si| w |ada|ag |ain|dde|du |ell|eul|gwy|lfa|rad|sio|tho|un |wri|yff| gr| hu| sa| tr|aid|cyd|din|diw|dro|fae|ffr|grw|gyd|hoe|hwn|le |lle|lly|nna|nno|ob |odi|rch|rhe|rta|teu|ulu|une|wyl|wyn|ych|yda|yho|ylf| br| hi| ho| ph| pr|ach|ara|dla|eil|eis|enn|eno|era|ers|ewi|gel|gwa|hun|icr|igo|il |ily|is |isi|lyg|lyn|myn|nau|nu |obl|oes|os |osb|per|ran|rso|sic|son|thi|udd|una|wah|ymy|ynh| be| ca| ei| ry| wl| wr|amc|at |ben|bl |byd|can|chr|cyn|ddw|dli|dod|drw|dus|dwr|ech|gia|gor|gwe|hag|igr|ino|iog|led|lig|lio|lir|lys|mca|nha|nio|ola|oly|rae|urd|us |wrt|yll|yst| at| os| th|atg|awd|cho|crh|elf|eni|fel|gar|gyh|heb|hio|hyr|nab|neg|nni|nnw|nod|pwy|rfo|tga|was|ydr|ygu|ymo|ymr|yrw|ywo| cr| oe| pl|af |aha|ana|arc|arf|arn|arw|bad|ble|bob|byn|byw|chw|da |dan|dew|dil|dyd|elw|ent|er |es |euo|fwy|fym|gos|hei|hu |hwa|hyf|idl|ifa|len|lwc|mpw|mys|ny |nyd|og |oge|oll|orf|pan|sba|ud |uog|wis|wyo|ydw|yfy|ymp|ymu|yol| ag| ai| aw| bl| fa| fw| no| or| ur| yw|ado|and|ang|atb|bar|bly|cae|cyh|deb|dna|eg |ei |eny|fa |fei|fer|ffe|fia|fla|gwr|gyr|hef|hil|hos|hwy|iaw|iga|iwe|lwy|lyd|lyw|mgy|mwy|nan|nde|ng |nnu|odo|odr|ori|phr|ral|rie|roe|rwc|saf|sai|sod|tbl|ter|ull|wod|wyb|wyr|ydn|yfi|yfl|yne|âl | ae| bu| dâ| eg| ew| mo| of| on| yc| ys| ôl|abo|adu|ago|amo|aol|arb|asa|blo|bri|bud|cha|chi|cre|dae|ddh|der|dha|dle|doe|don|dor|dre|dur|dyc|dâl|edo|efn|egw|elo|enr|eol|erb|erf|erl|ert|eso|eud|ewy|fad|fal|fen|few|fn |fur|gof|gre|gwn|hai|hao|hdr|hen|heo|hia|hon|hri|hym|idi|iec|lan|lfe|li |llt|lod|lon|mat|med|moe|mry|nae|nd |ndd|nge|ngi|ngw|nty|ofa|ond|ore|osi|oso|par|paw|ple|pri|ra |rby|rfe|rfy|rle|rn |rod|rof|ryn|ryw|san|sta|swy|thd|tro|trw|tyn|ur |wdu|wle|wne|wnw|ybo|yfe|ym |ymw|yrc|yrr|ywy|ôl | al| bw| co| gi| lw| og| p | ro| ta|afo|ahâ|ais|ano|anw|ard|ath|ber|bre|bry|chu|dag|dal|dea|def|dw |dwc|dyf|eal|egi|en |end|esw|fat|fe |fon|fyr|gei|gil|gro|gys|hal|ham|har|her|hra|hrw|hry|hud|hwe|hân|ied|ist|iwa|iwy|lde|lga|llg|mod|mol|myr|nac|nad|naw|new|nga|ngl|ngy|nir|no |nog|nul|off|oga|ogy|ohe|old|olw|ong|pen|raw|rbe|rol|rra|ryf|sia|sty|sym|teg|thu|thw|thy|tre|tyr|uno|war|wdd|wel|wid|wng|wym|ygi|yhu|yma|ymg|ynu|yrd|yri|ân | af| du| ef| et| fu| le| mh| mw| ng| oh| ra| ri| se| tu| uw|abl|ade|aed|afi|afl|afu|ali|am |amg|ane|anu|asu|ata|ate|atu|awf|bau|bos|bwy|byg|cad|cai|cel|chl|chn|cos|cra|cro|crw|dec|deg|del|dem|dfa|die|dlu|dry|dul|dwd|dwe|dwl|dyg|dym|eba|eby|edy|eff|efg|ego|egu|eia|eif|ela|ely|emo|ena|ero|erw|esi|ets|fam|fed|fes|fet|ffu|fga|fha|fie|fio|fir|fle|fo |fry|fud|gau|gdo|gi |gir|gln|god|gon|gwi|gyl|hel|hes|hi |hie|hiw|hle|hlo|hne|hob|hod|hro|hys|iaf|iar|ibl|iby|ica|idy|ien|ieu|igw|ili|ilw|irg|iri|iti|iyn|laf|lch|let|lfy|lit|ln |ltw|lwe|lwn|mac|mai|mdr|mho|moc|mor|mos|mrw|mu |mud|mun|myw|nat|ndo|ngd|ngu|nib|nne|nry|nta|nwl|nyr|nyw|ocr|ofi|ofy|ogi|ort|pha|phl|pia|pla|pra|pro|rat|rdo|rec|res|rfa|rfi|rge|rhw|rnu|rti|rwp|ryc|rym|sb |sef|sgu|sib|siy|sti|sto|su |taf|tai|tan|teb|tei|tic|tig|tis|tod|tsw|tu |tur|twr|und|urf|uri|uwc|wal|wan|wdo|wf |wir|wnt|wol|wpi|wr |wra|wry|ydl|yfh|yg |ygo|ylc|yle|ylw|yna|ynd|ynr|yrf| dw| ec| ia| ly| ol| pw| so| ti| uc| wy|aby|adn|age|agw|alf|aml|anh|anl|anr|ans|are|asi|asn|ast|ato|aw |awi|awr|bi |bia|bla|bma|bo |bol|bwr|car|cof|con|cys|daw|ded|deh|den|dge|dim|dis|dno|due|dyh|ead|ebi|eco|edu|ef |efo|eho|eng|enw|epg|ery|esy|fan|fas|ffi|ffo|ffw|fin|fni|fno|for|fyw|gal|ged|gli|goh|grp|gwb|hac|had|haf|hea|hep|hga|hur|hyh|hâl|iai|idu|im |ini|ira|irm|iw |iwo|la |lac|lal|lfr|liw|llu|lry|lti|ltu|lwg|ly |ma |man|mes|mhe|mia|mly|mo |mro|mwa|myg|nda|ndr|ngo|nid|nly|nom|nso|nw |nyn|nys|obm|odl|oen|of |ofn|ofr|olr|oma|ona|onn|ord|orm|oro|pgo|poe|pol|pre|rag|rba|reu|rff|rin|rme|rmy|rp |rry|rte|rtr|rwa|sbi|sbr|sga|sna|soe|sof|str|swm|syd|syn|tad|tar|thg|thâ|tir|to |try|tud|uch|udi|ued|ulo|wbl|wer|wg |wia|wio|wm |wnd|wni|wo |wya|yaf|yby|yde|ydg|ydi|yfn|yfo|yhe|yme|ymh|ymi|yny|ysb|yso|ysy|ywi",
+    da: "er |og | og|der|et | de|til| ti|for|en | fo|il | re|ret|de | ha|lig|ing|nde|hed| en|lle|ar |und|els|ver|den|ed |ge |har| fr|se |lse|ede|at | me|hve| at|ell|enh|ige|ng |nne|ska| af| i |and|es |ghe|ig |igh|ler|af | be|le |nge|nhv|esk|gen|ne | el| sk|fri|nin|enn|or |re |al |tig| st| in|ion|ati|eli|om |ske| al|men| på| so| si| un|end|nat|tio| er|ens|kal|med| an|del|ett|han|på |det|tti|ke |ter| he| na| ve|ale|dig|ent|ndl|ns | ud|ere|ren|sky|tte|ind|som|lde|sam| li|ger|ihe|lin|rih|sni|vær| gr|ans|nes|nte| hv| sa|age|hol|kel|old|run|str|te |vil| vi| væ|arb|bes|gru|gte|kab|mme|nd |ner|all|bej|ejd|ene|nal|ona|rbe|res|ære| fa|ers|fre|ilk|kke|sig|ste|tel| ar| må|fun|igt|isk|it |lan|ors|rel|rin|tet|ets|ld |per| da| mo|em |erv|kyt|orm|vis|ytt|øre| fu| ku|dli|erk|ie |isn|må |nst|ore|ove|rt |rvi|sta|tes|ved|ven|ærd| et| om| op|dre|ern|ikk|kra|lag|lit|lke|rdi|rem|rke|ts | ik| kr| la|amf|dt |emm|eri|int|ken|lem|mfu|od |rho|rit|yld| bl|ab |av |beg|da |gt |gør|kun|mod|one|raf|rav|rsk|ten|tra| ge| no| tr| va|cia|dan|dom|el |ffe|ial|jde|ker|me |mål|ndi|nog|oci|oge|rie|rli|ræn|ser|sk |soc|sti|ve |ål |øve| pe|abe|ami|an |bar|eds|fam|fte|gel|hel|hen|hvi|ili|ive|kyl|len|lie|lst|mil|ndr|ned|nem|nse|orh|ran|sin|tag|tal|ves|ået|ægt| fø| lo|art|ful|fæl|get|græ|igi|ils|ite|jds|ket|kår|lkå|lov|nta|ora|ort|ppe|rid|rmå|rs |tis|ude|uld|vel|æns| of| ov| æg|ade|afb|alg|ali|ast|dla|ekt|etf|fba|fen|fær|id |ift|in |klæ|lev|liv|mel|nds|ndt|nsk|ntl|off|olk|rer|rne|rso|son|sse|tat|tfæ|tli|tri|tyr|uns|val|var|åde| bø| ej| pr| ta|alm|alt|ank|ann|ate|ave|ber|bli|bør|dis|dle|ds |døv|egr|eha|elv|eni|fol|ide|irk|je |min|mæs|nød|pri|rde|ssi|sty|tan|træ|udv|udø|vir|ynd|æld|æss| di| go| så|ame|ang|are|beh|bet|des|dvi|edl|ege|eje|ele|erd|fra|fød|gan|gge|god|gåe|her|igg|ikl|ill|jen|kla|kli|ldi|lge|lli|læg|lær|løs|nda|nke|nli|nsy|oli|oms|on |onl|ra |ral|ris|rkl|rn |rna|rst|rør|sel|sik|sit|st |syn|tid|tur|vik|vin|yde|årl|æri|ørn| fæ| gi| gu| hj| hø| ra| se| ua|ace|ane|bel|bla|ble|dam|dst|efo|elt|ems|era|eru|esp|ess|ges|giv|giø|hjæ|ikr|iti|itt|iøs|jæl|kre|kri|kt |lad|les|lmi|mer|myn|nho|nkl|nsn|ode|opr|orn|pek|pli|rac|red|rup|sat|sen|ses|skr|sst|stå|tem|tni|tol|try|tåe|upp|yre|åel|æll|ælp|ænd|øse| ad| eg| få| gø| hi| my| næ| or| po|adg|afs|ag |agt|ald|ant|bev|ce |cem|cip|dga|dgå|dlæ|drø|dsl|egå|emb|eme|emn|emæ|enf|erh|ert|erø|est|ev |eve|evæ|fag|fas|fat|fst|før|ggø|gio|gjo|gre|gti|gun|hav|hid|høj|idr|ilf|ilj|inc|ine|ipp|iss|jor|kas|kni|kom|kte|lfæ|lg |lje|lp |lsb|lta|ltn|lvæ|mni|mor|mrå|mst|mul|nci|ndg|ndo|nfo|ngs|ntæ|omr|org|pol|rat|rfo|rka|rla|rnø|ryg|råd|røv|sbe|set|sfo|she|slø|spe|stn|sts|sva|såd|tro|tsa|tær|uli|un |unn|vid|væl|yn |åbe|åda|æde|æge|ægg|ælg|æng|ær |øde|øje|øn |ør |øsh| ka| kv| le| lø| mæ| nå| nø| pa| pl| sl| su| sø| to| tv|afg|am |aml|amv|anc|ats|att|bag|bef|bry|dbl|dde|deg|din|dko|dni|dsd|dtr|dve|døm|edk|enk|erf|eræ|eth|ety|fgø|fyl|geh|ham|hva|hvo|ids|idt|ilb|iod|is |iv |kan|kes|kif|kul|kvi|lav|lba|ldt|lsk|lt |ltu|løn|msk|mvi|måd|mæn|nce|ndb|nis|nyd|odi|odt|ole|omm|opf|opl|orb|ord|orf|orp|par|pe |reg|ri |rio|rme|ro |rpl|rsa|ryd|ræl|sdy|sfr|ski|sla|smæ|sor|søg|tab|ted|thv|tor|tvi|tyd|ult|ure|vad|vit|vne|vor|ydn|ygh|ygt|ykk|yrk|år |æft|ærl|ødt|øge|ømm|ørs| as| bo| do| ef| em| ev| ga| id| kl| ko| læ| ma| mi| mu| mø| ob| sy| sæ| te| us|abt|afh|agf|agl|als|ama|amm|amt|ara|asy|ato|atu|bed|ben|bol|bri|bt |dda|dem|dhe|dir|dne|dsa|dse|dsg|dsp|dss|dsv|dtg|dti|dyg|eb |edd|egg|egi|ehj|ej |ekn|ela|emo|eng|epr|erl|erå|esf|eva|evn|fer|fhæ|fod|fti|få |fåe|føl|gar|gat|gdo|gfo|ggj|gif|gig|gli|gra|gsm|gås|gæn|hem|hje|hæn|idø|iel|ien|ier|ies|iga|ilg|ilv|ire|iva|jem|jer|kev|kræ|kti|kyn|kæf|ldr|lds|lgr|lgt|lgæ|lk |lkn|lme|lsi|lsv|lv |lvf|læd|mar|mat|mbe|mbr|mes|mfa|mle|mok|mso|mss|mty|mød|ndh|nel|ngi|ngr|nhe|nkt|nsf|nt |nti|nåe|næg|næv|obl|okr|omf|ons|oph|ori|orl|oru|oræ|ov |pfy|pho|plø|pre|pro|præ|prø|pun|påb|rag|rbr|rdo|reb|rek|rep|rfø|rg |rga|riv|rm |rre|rsv|rte|rtj|rv |ryk|råb|ræd|ræf|ræk|rær|ræs|sal|sgr|sha|sid|skæ|små|spu|stm|sto|stæ|stø|sun|svi|syg|syl|såv|sær|tek|tgj|tie|tif|tje|tmu|tne|tny|tre|tsh|tsm|tyk|tæn|tør|uaf|uar|udd|uds|udt|unk|ur |url|usk|vat|vef|vfo|væg|ygd|yl |ynt|ås |åve|ækk|æse|ævn|ødn|ødr|ødv|ølg|ørt|øsn| ba| br| bå| ek| f | fe| fy| ho| hæ| ib| ju| kø| ne| nu| ny| ri| sp| ty| uf| um| up| uu| yt| ån| ær| øj| øk|ads|aff|anh|ani|anæ|arf|ari|arv|atn|be |bek|bje|boe|bro|bud|båd|dbr|dik|dra|dsf|dsk|dsm|dso|dsr|dta|dtu|dvæ|dyr|ebe|edb|eff|efi|eft|egn|ehe|eho|ejs|eki|ekr|eks|ema|emf|ena|esl|esm|esæ|eta|ete|evi|far|fek|fes|fin|fry|ft |fur|geb|gne|gs |gsf|gud|hæv|hør|ibo|idd|ikt|ild|ile|ime|isa|isd|ivt|jek|jes|jne|jsn|jur|keh|kil|kon|kor|ks |kso|kue|køn|lam|ldo|lel|lpe|ltp|lut|lvs|lys|mad|mdø|mfø|mhe|mid|mis|mli|mpe|mue|nar|ndv|ni |nit|nni|nom|nss|nu |nuf|ny |når|nær|oen|okl|ol |omd|omh|omi|omp|ond|ono|opd|ork|orr|orv|osf|pag|pdr|pet|pfa|ple|ply|pon|pån|rba|rbu|rd |rej|rfa|rhe|rif|rim|rks|rky|rmu|rmy|rnu|rod|rog|rok|ros|rta|rti|rto|rtr|rtu|rus|rve|ræb|sdi|sku|sli|slu|smi|spo|spr|sre|ssk|ssu|stg|sub|suv|sæt|tgø|tiv|tpe|tsl|tss|tud|uan|ubj|ud |uef|uel|ufo|uft|ume|upa|uri|uso|utt|uun|uve|van|vde|veh|vej|vet|vev|vnt|vst|vt |yk |yra|ysn|ytr|ånd|åny|åre|æbe|æff|æni|ænk|ætt|ævd|ød |øds|øjn|øko|ørr",
+    de: "en |er |der| un|nd |und|ein| de|ung|cht|ich|sch|ng |ie | ge|che|ech|rec|ine| di|die|gen|eit| re| da|ch |ht | zu| au| ha|ver|hen|lic|ten|it | ve| be|nde|rei| ei|in | in|auf|ede|den|zu |ter|uf | je|at |das|jed|sei| se|and|as |ere|fre|hat| an| fr|es |ne |run| al|lle|nge|hei|nte|hte|ner|nsc|ens|rde| we|all|ese|men| od|ers|ode|wer| gr| st|ige|lei| so| vo|ben|ent|nen|te |ege|bei|cha|le |ren|aft|chu|haf|kei|erd|gru|len| si|ges|ion|ist|sen| er| wi|em |gem|lun|tli|unt| gl|ei |end|ft |st |sta| me| na|chl|eic|gun|ite|lie|tig|ati|eih|erk|ern|gle|ihe|sse| sc|de |fen|geh|on | ni|ach|ang|des|hre|ies|mei|mit|nat|tio|uch|abe|dar|hab|he |hli|spr|aat|alt|ehe|erf|int|nie|rch|taa|tz |urc| du|ale|dur|eme|gke|her|ied|igk|sic| ar| is| mi|arf|dig|ndl|rf |ruc|ste|tun| fa|arb|hul|ieß|nun| ih|ber|esc|ffe|pru|rbe|str|tra|wie| bi|ans|bes|bil|ell|ema|geg|ger|gew|hut|ild|ins|utz| en|ebe|eru|han|igu|ind|isc|ls |nsp|ntl|ohn|raf|rn |rt | fü|ats|aus|dem|err|et |für|ken|lan|lte|man|nne|one|ric|rli|rst|sel|von|vor| öf|als|ass|bar|chr|dlu|dun|eli|erh|fal|ge |iem|ill|nds|sow|um |wil|öff| eh| le|ami|det|ehö|erl|erw|etz|gel|hal|hör|ial|ltu|mme|ozi|re |rel|rie|rke|sam|soz|ss |tei|tte|uss|wäh|zia|ßen|ür | la|eie|era|ert|ete|gt |ihr|kun|ldu|lig|lls|lsc|nic|nst|oll|owi|son|wis|zum| im| no| pe|ahr|ate|beg|elt|fam|fri|hle|ili|im |itt|kün|lge|llg|mil|nem|nes|or |per|ran|rig|rri|ser|uld|vol|wir|woh| mu| wa| wo|an |ar |art|chs|da |dsc|edi|eil|eis|for|htu|ig |igi|ing|ini|inn|its|ler|lt |mus|nal|ona|rat|rer|rkl|rsc|rso|rän|san|se |set|sie|sol|stä|tel|tet|tsa|tät|ulu|ur |wah|zus|änd|öri|ünd|ürl| ke| oh|ahl|amm|ane|bt |eig|ele|ene|enr|ess|est|eße|fol|geb|hne|hrä|iel|iss|iti|klä|lde|leb|los|lär|nac|ndi|not|nre|nzu|rau|sti|sun|tes|tre|une|zie|änk|äru|übe| ac| fo| he| ki| ku| wä| wü|afb|chk|ed |ehr|ehu|el |eln|enn|enz|eri|eßl|fba|fe |gio|gli|hke|hl |hme|hti|hun|ien|kin|kür|leg|lit|lke|lkü|ll |llk|maß|nah|nig|ohl|olg|ord|org|ort|otw|reu|rfa|rfo|rhe|rna|sor|tan|tis|twe|tän|weg|wen|wür|zei|zun|ßli|ähl|ürd| fö| ma| or| ra| zi| zw|afe|age|ann|anz|are|atl|aub|chi|eha|eni|ewi|ewä|fah|fli|fäh|för|hel|hie|hig|hm |hnu|hse|hän|ier|ihm|irk|itä|ldi|ln |mäß|nft|nkt|nli|nnu|nve|omm|pfl|ras|rd |rfe|rit|rkü|rla|rsa|rsö|rte|rts|ruf|rüc|sbe|ses|sge|sin|sön|teh|tfa|tsc|tur|tze|tzu|ufs|uha|unv|usa|wec|wun|zt |zuh|ßer|äch|ähi|ähr|äng|ät |önl|örd|ück| am| kü| mü| nu| te| ze| üb|ahm|am |ame|ank|aßn|bef|chw|ck |dei|dsä|efr|eid|eir|elb|enü|erb|ewe|fte|fti|ftl|gan|gat|ged|gig|hri|hrl|hru|hwe|idi|ieh|ilz|inh|ira|itg|ker|kra|kul|las|lch|lgu|loh|lts|lzu|min|ngi|ngu|nhe|nis|nku|ntf|nts|ntu|nur|nz |och|oli|ons|ori|osi|pol|pre|ral|reg|res|ret|rfü|rge|rha|rle|rti|rwi|sig|slo|ssc|sät|tgl|tor|tsl|tsp|tum|tzt|uen|ult|ums|uns|usg|ust|uße|völ|wel|wor|zen|zug|zur|zut|ßna|ätz|ölk| ho| ob| pf| sk| su| ta| tä| ur|abt|al |ara|auc|aut|ave|be |bed|beh|bre|bun|chg|dfr|din|dla|dle|dni|dnu|edr|ega|eht|eiz|elm|enh|eno|erm|erz|eso|eun|ewa|ezw|fes|fra|gab|gei|gez|gre|grü|hes|hin|hlo|hlt|hn |htl|ide|igt|ilt|imm|inu|ird|is |itz|kan|keh|kla|kt |kte|lag|lau|lav|llu|lmä|lve|mac|mat|mer|mög|ndf|ndn|nei|nfo|nha|nn |nom|ns |olc|ond|orf|oss|ppe|rbr|rdn|rif|rks|rku|rma|rup|rwo|rün|sfr|sfä|skl|ssu|suc|säc|süb|tat|tge|tha|tim|tsb|tsf|tsä|tt |ufe|unm|upp|ure|urt|usü|uwi|wal|wei|wic|zuw|zwi|zwu|ßig|ßt |äti|äßi|übu|ünf|ütz| as| dü| eb| el| em| es| ex| fe| fä| ga| ir| ka| kl| ko| kr| li| lo| lä| mo| mä| mö| of| po| pr| to| um| vö| äm| är|abg|abh|afv|agt|alb|ali|anf|ant|ard|asy|ato|att|atu|atü|aue|auß|aße|bee|bek|bev|bew|bez|bga|bhä|bie|bli|bor|bst|chh|ckl|cks|ckz|dam|dan|dhe|dis|dit|dli|dro|dru|dst|dür|ebi|ebo|eck|eda|edl|eds|eei|egr|ehm|eim|emo|emp|emä|ena|enf|erg|erp|erä|esu|ets|eue|eug|evö|exi|ezu|eßt|eßu|eüb|fac|flö|fss|fsw|fve|fäl|füg|fül|gar|gba|geü|giö|gla|gri|grö|gän|hau|heb|heg|hem|hge|hhe|hlv|hoc|hsc|htp|hts|ick|idu|iet|iff|iga|ilw|ime|imi|inv|inz|irg|isk|itp|itr|itw|iva|izu|iös|kes|khe|kle|klu|kom|kri|ksc|ksi|kzu|lb |lba|lbs|ld |lem|les|let|lgt|lid|ltl|lus|lwe|län|lös|mab|mel|mma|mok|mor|ms |mst|mte|män|müs|müt|nab|nar|nda|ndh|neh|nez|nfa|ngr|ngs|ngt|nke|nkh|nmi|noc|nsa|nsb|nse|nsf|nso|nss|ntg|nth|nti|ntr|ntw|ntz|nva|nze|nzt|nüb|nüg|obl|off|oge|oht|okr|ola|ole|olk|ora|ore|orm|orr|ors|owo|oße|pen|pri|pun|rac|rag|reh|rfr|rfä|rga|rgu|rgä|rho|rhä|rim|ris|riv|rlu|roh|rpf|rra|rru|rsi|rsp|rtr|rur|rwa|rwe|rze|rzt|räc|röß|sag|sdr|sis|skr|smi|so |ssi|sst|sto|stu|stü|swa|syl|tal|tie|tlo|tol|toß|tpo|tpu|trä|ts |tsm|tso|twi|twu|tzm|tzo|tär|tür|tüt|ube|ubt|uck|ufl|uga|uge|ugu|uke|una|unf|unk|urh|urü|usc|usd|ut |ute|uto|utr|val|vat|wac|war|wid|wit|xis|yl |ze |zeu|zma|zog|ztl|zuk|zwe|ßun|äls|ämt|änn|änz|ärk|ärz|äuß|äß |ögl|öre|öse|ösu|ößt|übt|ügb|üge|üll|üns|ürf|ürs|üss|ütt| ak| ba| br| ch| et| fu| gi| go| hi| hö| id| kö| ru| rü| sp| tr| ty|afr|ahi|akt|alv|ani|au |auu|bem|bot|brü|bur|chb|chü|cku|dah|dea|del|dre|dri|drü|eal|ebu|efü|egi|egn|egt|ehi|eib|eif|eii|eke|ekr|ela|elc|elf|emü|eng|enu|enw|erü|esd|esi|etw|euh|eut|eza|ezi|fan|far|fas|fhe|fst|ftv|fur|füh|gef|gie|gil|gne|got|gra|gsf|gsä|gut|gül|har|hbe|het|hgü|hob|hoh|hol|hr |hrt|hst|hta|höc|hüt|ibe|ife|ift|ihn|iis|ina|inf|irt|isa|ize|kli|krä|ksa|kön|lec|leh|lf |lne|lta|lth|lti|me |med|mes|mlu|mml|mmu|mpf|mpö|mun|müh|nan|ndr|neu|nit|nme|nnt|npa|nt |ntb|nus|nwä|nün|ob |obe|ohe|olt|olu|ot |ote|ott|ouv|par|pe |pfa|pra|pör|rar|rba|rbo|rdr|reb|red|rka|rme|rmö|rne|rni|rnu|rnü|rre|rrs|rta|rzi|räf|räu|rüd|sat|sdi|sit|sou|stg|sts|stö|sze|szu|säu|ta |tbe|tle|tsg|tst|tsz|tve|twa|tyr|töß|ub |ufh|uhä|unp|url|usz|utf|uun|uve|uüb|ven|wa |wär|yra|zah|zel|zte|zuü|ßte|äft|äni|ärt|öch|öge|önn|ört|öru|öße|üde|ühe|ühr|ült",
+    en: "the| th|he | an|nd |and|ion| of| to|of |to |tio|on | in|al |ati|igh|ght|rig| ri|ll |ent|as |or |ed |ne | be|is |one|all|in |ver|eve| ha|ty | fr|ht | ev|ery| pr|ng | co|be |yon| sh|ryo| re|his|ing|sha|has|men| or|hal|ts | hi|ce |es |fre|ree|nal|pro|nat|nt | pe|for|her|ly | fo|ity|nce|ry |ect|ons|er |res| no| un|cti| as| de|ers|ona| a | na| wh|ter| wi|an |dom|edo|eed|ns |re | en|hts|nit|nte| ma|equ|ny |oci|soc| ar| di| on|any|lit|sta|ted| fu|ch |ess|ith|ote|per|uni| ac| se| so|ial|nti|om |oth|st | al| eq|are|cia|enc|ere|qua|th |wit|ali|ic |int|ive|le |te |ual| by| ch| st|by |con|ge |man|tat|und|ve | wo|ary|com|en |tec|thi| is| la| li| me|age|at |duc|edu|led|ntr|rot| fa|ate|hum|ms |oun|uma| ed| he| hu| pu|anc|ave|ble|cat|ces|cie|eme|no |nta|ple|rea|rom|se |tit|uca|unt|wor| ot| su|cou|hic|ich|ily|inc|nda|oms|ose|ral|tra|whi| at|din|dis|eas|eli|ena|era|ful|hou|iti|pen|rat|sec|ssi|tan|whe|act|aw |ct |der|ee |imi|it |ite|itl|law|ld |nde|omm|pri|rar|ren|son|tho|tic|tle|uri| ag| it|abl|ame|art|ass|ecu|ern|gni|hoo|ien|min|nst|od |ood|rec|rin|rit|ull| ex|ami|ay |chi|eac|est|fam|fen|ffe|fro|hav|ica|lic|mil|mit|ort|out|ove|pos|ria|rou|rs |rso|rth|spe| ca| ge| ju| pa| tr|acc|ain|arr|bli|dam|elo|end|fun|gen|igi|ind|les|lig|med|ndi|ork|our|pre|rel|tal|tin|try|ura|ut |uti| du| mo| we|ace|ade|ara|cal|cla|cri|ell|ely|erv|ety|gio|ice|iet|ime|ina|ist|lon|mar|mot|off|ont|ord|par|pec|pub|rim|rri|sen|ser|sso|sti|ten|tha|tur|ubl|ust|vel| gr| ho| wa|ach|aga|arb|ard|ari|bel|bit|cha|clu|cur|de |den|dic|ece|eco|elf|emb|emp|ene|enj|eop|eri|esp|ete|gai|hin|ies|ign|ine|ins|ir |joy|jus|lar|lud|may|me |mon|mpl|mun|ncl|ner|njo|not|ong|ope|opl|ous|oy |peo|riv|sci|sel|sis|sse|tiv|tri| ba| bo| el| gu| im| ne| op| po| sp| te|cho|cip|cte|dec|dep|dev|dig|ecl|eir|ele|epr|ert|ese|har|hat|hei|hil|him|iag|iat|ild|imp|ire|ita|itr|its|ivi|lem|lim|lop|loy|lty|mse|nec|omo|omp|opm|oym|plo|pme|pur|rac|ran|rbi|rie|rk |rna|rpo|rty|sar|sed|ses|sio|ss |ssa|ult|une|ure|urp|ved|was|wel|yme| ad| go| le| ra|alo|ant|asi|bas|ber|bje|bor|cco|cog|det|eal|ein|eld|erm|esu|et |gov|gro|han|hea|hel|hes|ife|ims|isc|jec|kin|lf |lly|mmu|mor|nci|nio|niv|nor|ogn|oli|ond|orm|ot |oug|oup|pea|rde|rem|ret|rio|rn |rop|rsa|rt |rti|rvi|sal|scr|sub|suc|tie|tte|ubj|uch|udi|ugh|us |van|ven| am| au| cr| ob| ow| sc| ti| vo|ack|alt|amo|ang|arg|ase|atu|aut|avo|bei|car|cas|cce|cis|ck |cor|cts|cut|dar|dir|dre|due|dur|eav|eel|eni|enu|erc|erf|exe|fav|fe |fic|ged|gh |gui|hen|hor|hro|ibl|ifi|ill|ilt|ipl|ise|iss|itt|itu|iva|ks |ldr|lea|lie|lif|liv|mbe|mem|mmi|mpe|nem|nly|nme|nts|nui|oce|ole|ome|onl|ora|ore|ori|own|pin|pol|ppl|qui|rab|rad|rci|rd |rge|ril|ris|rmi|rnm|roc|sib|sin|sol|str|sts|sur|tar|thr|tif|tim|ue |uil|uin|uth|ves|vic|vit|vot|vou|who|wil|wn |xer| cu| ea| ef| if| ki| ou| sl|adv|aim|ast|bly|bse|cul|des|dow|ech|edi|eek|ef |eff|efo|ek |eng|ens|erh|eth|exi|exp|ey |fer|fes|fou|fri|fur|ghe|gre|gs |gua|het|hey|hig|hip|ide|ief|ier|if |ini|iod|ip |iza|lat|lav|liz|lle|ltu|mad|mat|mbl|mea|mmo|mpo|ned|nge|ngs|nin|non|nsc|obs|odi|old|omi|opi|orn|ory|oti|pay|pel|rag|rep|rfe|rho|rm |rse|rst|rva|sab|see|sem|set|shi|sla|sor|spo|sul|tes|tia|tly|tor|tre|tut|uct|ude|up |urt|vem|wed|wom|xpr|zat| ap| av| ci| cl| em| es| gi| jo| ol| om| pl| sa| si| ta| vi|abi|aci|ad |ail|ake|ale|ani|ans|app|aso|asy|att|ava|avi|bar|bef|ben|bet|bey|bil|bun|cab|ced|cef|cem|cen|chn|cir|ckn|cks|clo|co |cra|cre|ctl|cum|def|dem|deq|dge|dho|did|dit|dlo|ds |dsh|dut|dva|ean|ear|eat|eci|ecr|edg|edl|een|ees|eet|efe|efi|efu|ega|elv|emo|ems|emu|epe|err|esi|eso|eti|etu|eyo|fai|far|fec|ffr|fit|foo|fra|gan|gar|ges|giv|gra|gth|had|hem|hie|hni|ho |hoi|hol|hos|hy |ibu|ici|ick|ict|id |ido|ied|iev|iho|il |ila|ili|im |inh|inn|inv|iol|ior|iou|ipa|irc|isa|isd|isi|ito|joi|jur|ke |ked|kne|lab|lac|lai|ldh|lec|lel|len|ler|lfa|lih|loc|lot|lso|lth|lti|lum|lut|lve|mai|mee|mer|mes|mis|moc|mov|mpa|mpu|mst|nab|nan|nct|nds|nef|nel|nes|ngt|nic|nie|nno|noc|nse|nsu|nto|nvo|ock|ocl|ocr|odu|ofe|ogr|oic|oin|oke|ol |ola|olu|ono|oos|org|orl|oss|oul|owh|pat|pir|pli|pon|pou|ps |pul|rcu|rdi|rds|red|reg|rei|req|rga|rib|rks|rld|rod|rof|rog|rol|ros|rov|rre|rry|rts|sam|sdi|sho|sic|sid|spi|ste|suf|sum|sup|syl|tac|tag|tak|tea|tee|tem|thy|til|tis|tol|tro|tru|tta|tus|uar|uat|uff|uir|uiv|ul |uld|uls|um |ume|ums|una|upp|ups|ur |urn|urs|use|usi|ute|vai|val|vie|vin|vio|vok|wid|xis|ylu| ai| bi| br| ec| ei| fe| id| ke| mi| ru| ty| up|acy|adi|aff|air|ait|als|ank|ann|ano|ar |aro|asp|asu|atm|ays|bee|bir|bot|bro|can|cei|cit|col|cru|cy |dan|dat|day|dea|deg|dia|div|dle|dly|dua|dve|dy |eaf|ebe|edy|eec|eep|egr|eig|eis|eit|eiv|el |ela|epi|epu|erp|ett|etw|ex |fea|ffi|ffo|fir|gag|gat|ger|gin|gnt|hib|hme|hom|hon|ia |ibe|ibi|ida|idu|iga|ile|inf|ira|iri|irm|irt|ish|isp|isr|isu|ize|kee|lan|las|lei|lib|lid|lio|lli|lou|ls |lte|lyi|mic|mpt|ndl|ndo|nfo|nga|ngu|nhe|nhu|nif|nis|niz|nki|nny|nom|nou|now|nsa|ntl|nty|obl|ohi|olo|opp|orr|ors|ow |owa|owe|pee|pet|ply|por|ppr|pra|pt |pun|put|rba|rce|rda|rdl|reb|ref|rfo|rki|rma|rme|rmo|rms|rni|roh|ron|rpr|rsh|rta|rte|rtu|ruc|rue|rul|rus|ryw|sex|shm|siv|sou|sov|sre|tme|tow|tud|twe|tyr|uag|uel|ule|upo|urc|uta|utr|vac|vat|vid|wan|war|wee|xil|yin|yra|ys |ywh|zed",
+    eo: "aj | la|la |kaj| ka|oj | de|on |de |raj|iu | ra|ajt|as | ĉi| li| pr|eco|ĉiu|aŭ | al| es|est|ia |pro|jto|jn | ki|en | ko|an |tas|kon|co | en| aŭ| po|ro |ta |ibe|io |to |ber|lib|toj| ne| ti|do |ere|aci| in|taj|cio|kiu| se|ala|ekt| re|sta|eni|ita|nta| pe|iuj|lia| si|ado|iaj|jta|rec|stu|ton|al |tu |ajn|nac|per|ter| ha| je|je |nec|ent|hav|int|uj | ri| so|sia|cia|por|vas|ava|kto|sen| na|ali|oci|or |soc| di| pl|ega| fa| ho|evi|hom|igi|laj|nte|tra|tiu| aj| eg| el|ata|bla|ebl|era|gal|is |lan|no |pre|re |er |ika|iĝo|ojn|pri|ĝi |art|ers|ili|ioj|li |ne |rim| ju| ku|cev|don|ice|iĝi|men|ont|ric|tan|tat|tek| ed| pu|duk|edu|ena|for|ian|igo|ntr|ons|ple|ren|res|unu| un| vi|coj|el |go |len|lo |nen|ote|raŭ|rot|un | ce| ma| pa| su|abo|ato|bor|con|ive|ke |lab|ndo|ni |oma|son|vi |ĝo | ek| ŝt|ame|ami|ant|edz|kad|laŭ|nda|niu|sti|tig|ŝta| ag| ke| me|and|dis|ele|ern|erv|far|kom|moj|ra |rto|uka|uzi|ĉi | ge| kr|ara|ces|dev|imi|kun|le |mal|olo|opr|par|pli| ar| sa| ĝi|aro|eli|enc|ka |kla|lig|loj|na |ora|pun|ran|roj|sek|ser|ti | fo| fu| ok|ale|cel|cer|dam|dek|dzi|edo|eed|eri|eso|esp|fam|fun|gee|gno|iel|jur|kaz|kia|kri|kti|lik|lio|mil|mo |nfa|noj|ono|oro|po |pol|rso|spe|tio|und|ura|ven|vig|viv|vol|ziĝ|zo | ak| il| te| vo|ago|ano|aso|aĵo|cie|ece|eks|elo|ina|ion|klu|kul|lek|lim|luz|mem|ndi|nit|onf|orm|ral|rat|rin|rit|rti|sol|une|ziv| as| mo| ĉu|ane|azo|bli|doj|eku|end|ene|goj|ini|iun|jus|kre|med|neb|niv|nui|oka|ole|omo|ond|one|pub|rac|rel|ron|sal|so |ten|tor|tur|ubl|uiĝ|ure|ust|ver|vo |ĉu |ĝin| gr|alo|arb|aŭt|dif|dig|eno|ert|esa|eve|gon|gu |ien|ign|igu|imo|inf|ink|iva|ma |maj|man|nkl|nst|nto|num|opo|org|ras|reg|rna|rpr|saj|sci|tik|tis|upo|ve |ĝon| ia| or|ate|avi|aŭe|bit|efe|ekl|ekv|eme|epr|eti|fan|fer|gi |gio|gis|git|ime|iri|iro|ist|itr|izo|kie|lar|lem|lit|me |mig|min|mun|nce|nci|nfo|nla|nsi|omp|omu|ore|ori|orp|pek|poj|pop|rbi|rne|rop|rvo|sam|ski|sub|te |top|tre|ulp|ult|vat|vir|viĝ|voj|zu | ad| an| ap| at| ba| ef| sp| ĝe|aga|aku|apa|em |emb|emp|evu|fin|gad|gan|gru|ial|ide|ifi|iga|ike|ipo|isk|isv|ito|kiĝ|kur|kuz|lta|mpo|nas|nca|nco|ner|nig|non|oce|olv|onc|pac|pen|pos|rdo|reb|rez|roc|rsa|rte|rup|se |sin|skl|skr|svo|taŭ|tem|tia|tie|ujn|uni|uro|von|ĝen|ĵoj| bo| le| lo| on| sc| st|ade|agn|aki|alj|als|alt|am |ani|ask|atr|atu|avo|azu|aŭa|bon|bro|can|cii|cip|der|dik|dze|enk|enl|ese|evo|fav|fek|ga |iam|iet|iiĝ|inc|ind|ine|ire|iti|ivi|ivo|keb|kir|kst|kta|kut|kva|leĝ|lir|lju|lon|loĝ|lpa|lpo|lvo|mat|mbr|mor|nio|nos|nse|nti|ntu|oli|oni|ord|ort|osk|oĉd|pa |pat|pec|pet|pon|pov|poz|rea|red|rek|rep|rgo|ri |rie|rio|ris|riz|rko|rmi|rse|san|sed|sid|soj|ste|sto|sup|taĵ|tit|tiv|tri|ukt|umo|una|val|vor|voĉ|vu |zec|zit|zoj|zor|ĉdo|ĝis|ŭen|ŭto| am| ev| fr| he| nu| ob| op| sk| to| tr| ĝu| ŝa|aco|ajr|ama|anĝ|baz|bse|da |eal|eci|ek |eko|ekz|elu|emo|enp|ens|enu|ero|eru|esi|ezu|fen|fes|gra|gre|ici|ife|ilo|ima|in |ing|ino|ins|jo |jro|juĝ|kte|kzi|lav|lin|ltu|lvi|mer|mi |mik|mit|mon|mpe|mpr|nal|nan|nat|nde|nek|nep|npa|nsc|nso|nĝi|obs|ofe|ogr|ola|ona|opi|os |ost|pin|pra|ret|rga|rib|rma|rme|rog|ru |rva|rve|sko|spr|str|suf|tad|tec|tru|tul|ub |ufe|ui |umi|uno|uo |uta|uzo|vad|vel|vid|zil|zul|ŝan| az| ci| du| eb| fi| ga| ol| uz| va| ve|abl|ace|adi|ako|akt|alf|alk|alm|alv|anc|apl|ari|asa|ase|ati|ave|azi|aĝa|aŭl|aŭn|bal|bar|big|blo|bun|caj|ced|cem|cig|cin|cir|daj|das|def|dem|dep|di |dic|dio|diĉ|dum|dur|dvi|eag|eda|edi|egi|egu|ejo|ekn|ekr|ela|elp|ema|epa|epe|erd|es |esk|eta|eto|eze|eĝe|eĝo|fal|fir|fon|fru|fuz|gar|gas|geb|gep|gia|gul|hel|ibu|ica|idv|ie |iec|ies|ifo|ifu|ige|ikc|imk|irk|irm|isd|ite|ivn|ivr|iĉo|jti|jun|kap|kat|kci|kec|kig|kni|ko |koj|kra|kse|ksk|kup|kvi|lam|ler|lev|lfa|lif|liĝ|lka|lme|lor|lot|lsa|lse|lu |mar|miĝ|mku|mok|mov|nad|naj|naĝ|naŭ|nea|nik|niz|nko|nku|nua|nuo|nut|nve|odu|oke|okl|okr|oku|ol |ork|ose|otr|ova|ovi|ovo|ozu|oĝe|oĝi|pab|pag|pir|pru|rad|rak|raĵ|rba|rev|ria|rif|rip|riv|rmo|rod|rof|rok|rta|rua|ruk|ruv|sas|sdi|sev|si |sis|spi|spo|tak|tar|tim|tin|tol|tro|tua|uad|ual|uav|ubi|uki|ula|ulo|um |unl|unv|upl|upu|uri|us |uto|utr|uvo|uza|uĝi|vaĵ|vec|ves|vic|vin|vis|vit|vni|vok|vos|vri|zad|zen|zis|ĉoj|ĝaj|ĝe |ĝej|ĝia|ĝit|ĝui|ĵo |ĵon|ŭaj|ŭas|ŭe |ŭle|ŭne|ŭte| be| fe| id| ie| im| iu| kl| of| ĉa|ada|all|alp|are|asp|avk|aze|aŝo|aŭg|bel|bez|ble|bpr|bu |ca |ce |cid|dad|daĵ|dec|den|deo|det|din|div|dli|dor|duo|dut|eas|ebu|efi|efo|eho|ej |ejm|eo |eoj|epu|erc|erm|erp|ete|etr|ezo|fik|fra|gni|gvo|haŭ|hej|hon|hor|ico|ida|idi|idu|iju|ila|imp|inr|iod|ipa|ira|ism|isp|itu|jmo|kan|kit|klo|kol|kor|kru|kso|lag|lat|lec|lej|leo|les|lic|lid|lie|lli|lop|lpe|lti|ltn|lui|lus|mad|mas|mbl|mes|mia|mpl|nar|ndl|ndu|nef|neh|ngi|ngo|ngv|nia|nif|nis|nom|nor|nre|nu |nun|oda|odo|ojo|olu|ome|omi|orh|ozi|ozo|paŝ|pod|put|rav|rco|rdi|rem|rho|rig|rij|ril|riĝ|rol|rtu|rue|rui|rvu|sem|sit|ske|smo|sur|suv|tac|teb|tir|tko|tni|tuc|ubp|uci|uel|uig|uli|uos|urb|ute|uti|uve|uĝo|va |van|vko|vus|vut|ze |zic|zon|ĉar|ĉie|ĝoj|ĝuo|ŝoj|ŭgr|ŭtk",
+    es: " de|os |de | la|la | y | a |es |ere|rec|ón |ión|der|el |ien|ent|en |cho|ech| co| el|as |ció|aci|na | en|al |ona|da | to|ene|ad |nte|ho |tod| pe| su|ers|per| pr| se| ti|tie|ida|los| lo|cio|rso|cia|con|dad|res|son|ion|te |to | es|men|oda| po|ne | in| li| re|est|que|pro| qu|nci|tad|ue |do | na| un| pa|ia |lib|su |nac|nes|or |rá |se |tra|por|ar |del|er |ra |ual|ado|com|io |one|sta|des|ica|nal|ser|cci|rta| o |ber|dos|las|nto|ale|les|ter| as|ert|oci|ame|ant|era|ibe|imi|par| di|ici|hos|tos|una| cu| so|cas|enc| fu|ali|ara|mie|ndi|nta|re |so |bre|dic|ten|ial|nid|soc| al| ca| ig| ma|gua|igu|no |ntr|ria|sar|ade|pre|tiv| ac|das|esa|esp|fun|ios|lid|man|nda|uni|ari|dis|eli|nad|omo|qui|uma| me|die|ecc|ele|ido|ito|mat|mo |ori|ran|rse|tal|tic|und|vid| ha| le| tr|aso|cua|drá|edi|erá|hum|iva|lo |med|rim|seg|tor|tri| hu|ada|bli|cla|cti|eda|ibr|ier|ind|isf|ist|lic|odo|ple|spe|ta |act|ami|art|ca |cie|egu|gur|ias|ico|lar|nio|ond|ote|ral|rot|sus|tar|ura|us | ni| sa|ase|baj|co |cto|ect|eme|end|ern|ese|ie |ili|lig|ont|rac|rar|rio|ste|tec|un | fa| ju| no| si| vi|adi|atr|aís|cac|duc|ide|imo|int|le |len|mbr|mon|nos|oni|paí|pod|ros|sti|uie|ís | ed| mo| te|aba|ajo|an |ars|ará|ati|ena|eto|ied|igi|in |inc|ita|ivi|jo |lec|mis|ndo|nst|ons|pen|pue|rab|sal|sin|tan|tes| ar| ob| ot| pú| ta| vo|alq|ces|dio|ece|eci|efe|ens|fam|ivo|lia|lqu|mil|mun|odr|ome|opi|otr|pri|púb|rop|án |úbl| ex| op| or| pl| pu|ano|arr|ble|cim|dam|dec|den|ebe|edu|eri|esc|esi|for|ina|jer|nen|noc|nsi|oll|omp|rel|rem|rol|rro|rán|sid|sto|str|uca|ver|vos| ci| ho|abl|anc|asi|cer|cip|cul|eco|eno|eso|ey |fic|fru|gen|idu|ins|ive|ley|lim|lit|mpl|nde|nec|ner|niv|ole|olu|on |pec|ren|rut|sen|sfr|sió|tac|tro|tur|ucc| au| e | gr| mi| ra|abr|acc|alg|and|arb|aut|cid|ecl|ecu|fac|gun|hab|hom|ir |lam|lgu|lla|mpo|más|nti|omb|omu|onc|ono|ora|pet|pos|raz|rit|rna|roc|rom|rte|sat|sfa|sos|tid|tis|uci|ueb|ult|ás | ba| eq| ne| u |ana|ate|bie|bit|brá|cam|car|dar|deb|dia|dig|div|eje|emp|equ|err|ez |gió|gni|gre|ian|iga|ign|itr|lem|llo|lun|met|min|ndr|ni |nic|nsa|ntí|omi|orm|pio|rad|rat|rbi|riv|rme|rti|ruc|sis|tru|ues|uit|unt|vol|ífi|ún | ad| am| fi| ge| mu| ve|ama|amb|así|ato|blo|col|cre|dem|dep|ebl|epe|esu|eta|ete|fue|gar|gra|iam|iem|ini|inv|iza|jet|mad|mit|mor|mpr|nfo|nse|obl|ocl|onf|ort|pli|pon|rci|rin|rri|rsa|sa |sco|sec|spo|sí |tam|tre|uer|uje|ure|uta|vad|val|za | bi| cr| ef| ej| ga| go| im| má| mé| só| él|ald|amp|ani|ata|atu|be |ben|bil|bro|cad|cce|cir|clu|cog|cri|def|dez|ea |eal|ell|emb|emo|eni|eo |erc|erv|eti|exi|exp|fec|fen|fer|fin|gio|gún|han|iac|iar|icc|imp|inf|ipa|ipi|irc|isc|isi|itu|jur|jus|lda|leo|ma |mbi|me |mom|mov|nce|ncl|nió|oca|oce|ogr|opó|ore|oso|oto|ove|pie|pin|po |pós|ras|rcu|rea|rid|rig|rni|ro |rog|scr|sem|ses|sio|sit|sol|sup|sól|tat|tud|tíf|ud |udi|unc|une|uri|uro|usa|ust|ute|uto|vot|xpr|zar|él |ólo|ósi| ap| du| fo|abi|ace|acu|aja|ala|alm|apl|asa|avo|az |aza|azó|bas|bia|bje|bra|cen|cor|cos|cur|cus|dan|did|dir|dua|duo|dur|een|egi|egr|emá|erm|eva|fes|fra|gad|gan|gid|gin|gru|ige|ime|inj|iso|iód|ja |lav|liz|lme|ltu|mic|muj|nam|nim|obj|oma|ord|orr|osi|paz|rde|ree|rep|ret|rió|rma|ron|rre|rue|rup|rvi|sca|scl|sea|sic|som|tab|tin|tir|upo|urs|vam|var|vas|vel|ves|voc|zón|ódi| an| at| be| bu| ce| da| do| ec| fr| hi| id| nú| om| pé| té| va| ét| ún|ací|adr|aer|aga|agi|alu|anz|aní|aqu|ave|avi|aya|bar|bid|bsi|bun|bus|cab|cat|ce |ced|cel|cep|cic|cni|coo|crá|cta|cuc|cui|cun|cíf|det|dim|dre|ebr|ecr|ede|efi|egú|emu|enf|epr|ero|esf|esq|eun|eña|fan|fav|fut|gat|ger|gir|gob|goz|hay|hij|ibi|ibu|ice|ict|ijo|il |ilo|ing|ino|ior|ipo|ira|ire|isd|ism|ite|iud|iño|jez|jos|jud|jui|leb|leg|ler|let|lev|lio|lir|lor|lpa|lte|lto|luc|lud|lus|luy|lít|mar|moc|mot|mpa|mpe|méd|mér|mún|nab|nat|nef|nfa|nfe|ngú|nie|nin|niz|niñ|nje|nva|nvo|nza|nía|nóm|núb|obi|oco|ocr|ode|odu|ofe|oge|ogi|ola|olo|olí|omú|onó|oop|ope|opo|opu|org|oti|oza|pab|pac|pad|pir|poc|pol|pru|pér|rae|rag|rav|rdi|ref|reg|reu|rga|rib|ric|ris|rno|rod|rof|rtí|rác|rát|ríd|sad|sam|sdi|señ|sil|sim|smo|spi|squ|stu|stá|sub|suf|suj|sul|sum|taq|tas|tem|tim|tip|tit|tni|tol|tom|tuc|tui|tán|téc|tén|tía|tís|uad|uan|ubs|ude|ued|uel|ufr|uic|uid|uiv|ula|ulp|uno|uns|uo |upe|upr|urí|usc|uso|utu|uté|uye|va |van|ve |vej|vic|vie|vit|viu|viv|vo |vor|xig|xis|yan|ye |zac|zad|áct|áti|écn|édi|ént|érd|éri|étn|ía |ías|ídi|íst|íti|ñan|ños|ómi|úbi|úni| ah| em| fe| oí| ré| ul| ín|aca|adm|adv|afi|aho|alo|ans|arc|are|asp|aus|ayo|azo|bel|bir|bié|bse|bte|can|cau|cib|cil|cru|cte|cue|cum|cuy|dea|deg|dif|dmi|dol|dom|dot|dum|dve|eaf|ean|eca|ela|elt|epc|ept|epu|erp|erz|exa|exo|ezc|fe |fid|fie|fir|fri|fro|gac|gim|ha |hag|har|hib|hon|hor|ich|idi|ife|ifu|inh|iol|iom|irl|irm|irá|ise|isp|ién|jan|lab|lac|lea|lez|lie|lió|loc|ltr|mac|mas|may|mbl|mol|mue|nas|nfi|nfr|nhu|nif|nis|nja|nom|nra|nso|nsp|nve|obe|obs|obt|ohi|onr|opr|orz|osa|ose|osp|ota|ovo|oíd|pag|pal|pci|pel|prá|pto|put|raj|rba|reb|rie|rla|rmi|roh|rov|rpr|rra|rtu|rva|rza|rzo|rég|rín|sab|sac|sas|sex|sfo|sfu|si |siv|sob|spr|sue|teg|tig|trí|tón|uen|uev|umb|ump|uos|utó|uya|vac|vea|ven|vio|xam|xo |ya |yor|zca|zo |zon|ánd|égi|én |ída|índ|íns|óno",
+    et: "sel|se |le |ja | ja|ste|use|ust|ise|mis|õig| va|gus|us |ele|igu|dus| võ| õi|st | on|te |on |ma | in|el |ini|nim|al |iga|da | te|ime| ig|ist|või|lik|mes|ami|est|adu| ka| ko|end| ra|ese|iku|gal|õi | se|aba|ema|vab| ku|tus|ud |ast|lt | mi|lis|es |tsi|val| ta|rah| pe|ali|ida|ks |sta|ta |tam|ne |atu|ine|stu|tes|nda|ole|ava|ga |ell|kon| ol|ada|bad|ik |is |lus|ing|kul|tel| ei|ahe|ei |iel|kus|vas| om|ees|ioo|oma|kõi|min|sus|tse|tud|ühi|aal|ab |abi|ahv|aja|as |dse|eks|gi |igi|its|pea|ul |uta|vah| ee| ni| üh|ari|mat|teg| ab| sa|asu|dam|ete|ili|lle|ni |oni|oon|sio|vus|ait|de |eab|ndu|nin|nna|rid|saa|sli|töö| kõ| põ|ats|dis|elt|har|idu|nen|nud|sed|tem|teo|võr|õrd| ki| pi|ata|ega|ng |nis|onn|põh|rds|sek|usl| al| tä| tö|dad|des|eli|ite|kor|lem|lma|ots|ses|si | ke| ne| ri| so| su| vä|ad |ale|bie|ed |eis|elu|emi|eva|ilm|imi|isk|kai|koh|lev|na |pid|täi|uma| ha| mõ|aga|aks|alt|ead|et |jal|rit|sa |sea|set|ule|uri| ar| sü| ül|hvu|kin|lii|lli|rii|sik|tag|tum|umi|õik|üks| et|ama|and|ara|asa|dum|ene|eos|ess|eta|his|iaa|id |ide|isi|ita|lu |maa|mal|nni|per|sia|sil|sko|sot|ult|vad| kä| ma| or| si| ük|eda|eel|een|eri|etu|hel|hin|iig|ile|ind|lit|lse|mee|mõi|nde|ndi|ost|sse|tat|tei|äär|õhi| as|ade|ald|als|itu|kod|lat|mid|mus|nem|ond|ras|rat|ssi|sut|tas|tmi|ugu|äie|üld| ai| el| me| to| tu|aa |aas|ate|bal|ege|gas|gil|hul|ike|iks|imõ|ka |kur|met|ndl|nõu|olu|ool|orr|rra|sat|tad|ter|uda|udu|õim| li| na| sõ| us| ve|ahu|alu|ani|eko|ela|ere|gan|hva|isa|kaa|kas|kel|ku |kui|las|llu|mas|oht|ood|org|rek|res|rga|rik|rim|sol|sti|sug|sul|süü|ti |tul|tun|ui |unn|uur|var|äri|õtt| de| ju| la| mu| os|aad|aha|ala|ass|dek|dsu|eni|enu|hav|hen|ill|ima|ldi|lel|mil|muu|odu|osa|pii|ra |ren|sva|tav|tta|usu|usv|uul|vaj|vee|vää|võt| aj| au| av| en| il| is| nõ|agi|all|ame|ase|av |dag|dav|dlu|ee |ekl|eso|htu|hus|il |inu|kla|ksi|ksk|lar|lds|ngi|nus|oda|ohu|oos|os |poo|puu|ral|skõ|suu|tee|tet|tte|uli|umu|va |vii|ära|üüd| an| po| pr| vi|aat|aid|ako|anu|are|arv|dak|das|dat|eb |esm|gem|gre|he |het|hi |igl|iik|iir|iis|iit|inn|isu|kau|ke |ked|ksu|kun|käe|kät|lek|len|les|lla|ltu|mär|mõn|ogr|ohi|pro|raa|rak|rju|rog|sal|sam|see|sei|sid|smä|sun|tah|tak|toh|uhu|und|ute|uti|uud|uva|vat|väl|äes|älj|õhj|õis|õne| ho| jä| lo| pu|ain|aud|bi |dit|du |esa|esi|hte|ikk|imu|jas|ki |kku|koo|kri|kse|kuu|lak|lda|let|lin|lut|mõt|nad|nee|ngu|nnu|nst|ori|rgi|ril|ris|rja|rvi|seg|sem|sii|soo|suh|sõl|tal|tli|too|tsu|tu |tuo|ude|ulu|une|uol|usi|uss|uut|vai|ärg|õlt|öö |ööp|üdi|ühe| am| di| er| he| hu| hä| le| lu| mo| mä| ot| pa| är|aik|ake|alg|aln|aol|arj|at |atm|aus|aut|dud|eal|eao|eer|eil|eo |err|etü|evu|gev|gla|gun|gut|hea|him|huv|hää|ii |ika|ikm|ipi|irj|iti|ito|iva|jad|juh|jup|jus|ken|kes|kid|kir|kme|kst|kud|kut|la |lah|ldu|lim|lja|lne|loo|ltk|men|mit|mor|mää|nav|nds|nei|nel|nig|nii|oli|oll|oom|ora|ord|pai|pol|puh|ran|rda|rki|sen|skr|su |sõi|tea|til|tki|tuu|tüh|uht|una|uns|upa|ure|usk|uts|utu|uvi|van|vid|ähe|äle|ärk|ätt|ääl|õte|öpu|ööt| es| hü| lä| pä| rü| sä|aam|ais|aki|amu|ann|ars|aru|asi|atl|ba |bin|di |dla|dmi|egi|eha|ekt|esl|gad|gam|gat|gid|gim|git|hiv|hja|hku|hoo|htl|hu |hum|hut|ia |iin|iiv|iki|ina|inõ|ira|ium|ivs|jan|jen|jär|kar|kuk|leg|lga|luv|läb|maj|mel|mu |mut|nai|nat|nip|odi|old|omu|oor|orj|orm|ort|rio|riu|rri|rte|rus|rva|rüh|sak|sku|sle|stö|säi|süd|sün|tar|teh|ten|tin|tut|täh|uks|upi|uun|vse|äbi|äil|äit|õud|õus|üda|ühm| ef| em| jo| pö| pü| re| tõ| vo|aab|aan|abu|ahk|aht|aig|ajä|aku|alh|alk|ana|ane|aps|ask|asp|ati|atä|aüh|bat|bil|bum|daj|dal|deg|dei|dem|dha|did|din|dma|dsa|eav|efe|egu|ehn|eht|eid|eig|eku|els|em |eme|emo|ena|eod|epo|er |era|erv|esu|esõ|fek|gab|gak|gav|gaü|gel|gen|gha|gig|glu|gu |gui|gup|hai|hal|hem|hes|hil|hiõ|hju|hmi|hni|hoi|ht |hüv|iab|iat|ib |idm|ids|ien|iet|iia|iid|iie|im |imk|imv|ins|inv|ire|isl|isõ|it |itm|itt|ius|ivu|iõi|jat|joh|jul|jäl|jää|keb|keh|kem|kis|kit|kiu|kog|kom|kra|kti|kts|kum|kõr|laj|lap|ldh|leb|lg |lgh|lgu|lhu|lid|liv|lje|lki|lmi|lnu|loe|lts|lud|lug|luk|lum|luu|mad|mam|mko|mok|mul|mvä|mõl|nal|nas|nau|nd |ndm|neb|nil|nit|nsa|nuü|nva|od |ods|oet|ogu|oha|oid|oit|okr|ol |olg|oln|olt|ong|pan|pet|pru|pse|pää|pöö|püü|ram|rdu|rge|ria|rie|rmi|rst|rut|sas|seh|sim|sin|ske|spo|sso|ssu|stm|suv|sõp|taj|tan|ted|tep|tia|tid|tii|tik|tke|tle|toi|tor|tua|tuk|tuv|ua |uet|uhk|uid|uke|uko|uld|ulg|ume|uni|usa|uso|utm|uto|uua|uük|ves|vil|vis|vit|vor|väh|väi|võl|äik|äis|äli|ämi|äsu|ätk|ääm|ääs|õib|õin|õle|õlm|õpr|õrg|õue|õut|öde|öle|örd|öta|öti|ööd|ööl|öör|üle|üli|ünd|ütu|üve|üül|üüt| ba| eb| eg| hi| id| jõ| kr| lü| rõ| st| tü| ul| õp|aai|aar|ael|aes|age|ahi|ail|aim|aka|amb|an |ant|aot|apo|arb|au |aub|avi|avä|baa|bai|bak|ban|bar|bet|bik|bje|ble|bra|dan|dde|den|dik|dil|dli|dõi|eaa|eaj|eba|eed|eet|eia|eik|elg|elo|enn|ent|epu|erä|esr|etm|evi|for|gio|gip|gud|ha |hik|hir|hje|hke|hma|hts|hül|iak|ibi|ies|ihu|iib|iim|ikl|ikt|iml|inf|ipu|iri|irm|isd|iss|jak|jav|jek|jum|jur|juu|jõu|kae|kan|kao|kea|kee|kih|kli|ktu|kuj|kup|lad|lal|lan|ldd|lee|lei|lge|lgi|li |lig|lsü|lul|lun|lüh|mbe|mbl|mei|mi |mli|mpe|naa|nae|nah|nam|nfo|nia|nik|niv|nsu|nts|ntu|omb|omi|omp|ons|oss|ota|pag|par|pin|put|päe|pär|põl|rap|rav|rba|rdõ|re |rel|rem|rep|ri |rip|rma|rmu|rre|rsu|rtu|ruk|rvu|rää|rõh|san|sdi|sis|sit|sma|sri|ssa|stl|str|sub|sõb|sõn|tab|tit|tol|tru|tst|tõl|tõu|tür|uaa|uad|uba|ubj|uhe|uju|ukt|ula|ulm|um |upu|ur |usm|uus|uve|vaa|vag|ven|ver|vär|võõ|äev|äht|äns|ärt|ärv|ään|õbr|õhu|õla|õlg|õna|õpe|õra|õun|õup|õõr|öga|öpä|ös |öög|öös|üdl|üdm|ülg|üll|ünn|üra",
+    eu: "ko |eta|ta |en | et|eko|ide|bid|an | es|esk|sku| ba|iza|tze| be|kub|ubi|ea |ber|na |era|dea|art| du| ez|rri|zek|asu|ak |sun|ere|ntz|tek|ren|tas| er|arr|ate| iz|ald|ik |ako|atu| da|ez |tza| or| he|du |oro|ra |ert|rte|abe|ask|re |te |are|ria|giz|zat|err| gi|egi|koa| as|de |ezk|nor|ona|za |go |rok| de| pe|rts|zko|oa |ri |tso|una|zar| eg|per|rre|son| ed|edo| ja|ari|ngo| la|ok | au|atz|ek |her|lde|rra| bi|ean|ita|kat|tu | ar|lan|zan|da |kon|orr| ga|bat|do | al| di| na|bai|int|bes|ezi|ia |ien|rik|tea|unt| ha| in| no|aur|rta|est|ino|io |ska|uzt|azi|dut|har|rat|tat|tik|ute|ata|ite|nar|ont|rak|gin|itu|tan| ho|eri|rtz|tak|ten|une| gu| za|den|gab|itz|izk|kun|tua|ang|dez|eza|iar|la |rbe|ste|ago|ial|ika|raz|zio| ko|ara|ela|guz|hor|iko|kar|ker|nez|tar|tzi|un |zai|zin|zti|ait|ati|be |ena|in |ina|ing|ket|rit|ske|ter|urr|zen|ahi|dag|ema|git|nah|naz|nta|ori| em| le|aio|del|iak|orb|rka|uen| oi|adi|ai |aso|dee|din|dir|ear|ene|hau|jas|kor|leg|lia|nda|nik|oin|oki|pen|riz|uan|uko|uru|ain|ala|bak|ege|ioa|ira|iz |izi|lak|ltz|ndu|or |ua |urk|zia| el| zi|aku|bab|beh|biz|bur|dar|die|een|gat|ger|ire|nak|ort|uta|zki| bo|agu|aki|ar |ent|gar|ila|kio|lda|lit|rek|tuk|tuz| ge| ma|ana|ani|dit|elk|end|erb|gok|hez|hiz|ine|ion|kia|kid|ldi|lka|men|nea|net|on |otz|sar|sot|tie|tue|zak|zit| bu| fa| ir|agi|ail|ami|auk|aza|bal|dik|eha|erd|ete|fam|gun|ian|ili|ind|ka |kas|ke |mai|mil|one|rdi|rez|sta|uga|uke|ult|zie|zku|zte| ad| go| jo| mu|aba|ane|bet|dek|eak|elb|erl|ero|gor|iek|iji|jio|kak|kum|lag|lij|oar|ond|ord|rab|rli|ro |tez|tor|tut|ume|und|ura|zta| ik| ki| os| sa| se| si|ake|dat|ein|eli|esa|ezt|gai|gez|goz|ike|iri|izo|kie|mak|mat|mug|nde|nek|nen|nga|nko|nte|ntu|oan|oko|ota|ozk|rag|rea|rru|rtu|sin|tur|urt|zei|zke|zon|aga|aka|ape|beg|dak|der|det|dia|doz|dun|ego|ei |eki|hel|ier|iot|jab|kap|kea|ki |lbu|ndi|ner|oze|ral|res|rie|rua|tel|zea| ek| on| pa| pu|ali|and|at |az |azo|bad|bil|bit|bli|bot|dau|due|dui|eek|erm|eti|gir|gur|ibi|iur|ler|lik|man|me |mun|oak|oir|ola|ong|par|pid|pub|rde|rdu|rer|ret|ru |run|sa |ski|tal|ubl|uin|uz |zer|zi |ziu|zoi| ag| az| hi| lu|ada|ant|asa|aut|ban|bar|bez|dai|eiz|es |etz|gi |hon|iet|igo|ime|ink|jar|jo |ken|kit|kus|lab|lar|lur|mee|nol|oek|omu|ore|ote|rar|rei|rma|sal|sen|so |sor|spe|tet|tiz|tzu|uak|uni|ur |uzi|zab|zal|zik|zpi| ep| ih| je| ka| ke| ku| li| me| mo| ta| ul| zu|aie|aik|alt|anb|ans|ard|arg|ark|auz|baz|bor|bul|dua|ebe|eet|egu|eng|epa|eze|hik|hit|iat|iha|ilt|iru|ito|izp|jai|jan|jen|kiz|kom|kul|lat|lot|ltu|nbi|ngi|nit|no |nsa|osa|oso|oto|pai|pek|ras|rba|rel|ron|san|seg|sme|tes|tia|to |tok|uar|uet|ule|ust|uze|zib|zim|zuz| ai| lo| po| pr| so| to| uk| uz| ze|abu|aha|al |ame|ank|arp|ase|ato|aue|azt|bea|duk|ehe|eku|eni|esm|eto|etu|gak|gil|hi |iku|ile|inb|isi|jat|kin|kla|koe|koi|ldu|maz|mek|nbe|ne |nes|nom|non|oga|omi|ono|ora|orn|otu|oz |rai|ran|rau|reg|rna|ros|rpe|ruj|sak|skl|teb|tsa|txi|tz |uja|uka|utz|ze |zig|zun| am| an| at| do| fr| fu| ib| is| it| te| ti|aim|aix|aiz|ale|anp|arn|aro|atx|au |aud|aun|aus|azp|bei|ben|boz|bre|dad|dem|deo|dis|doh|ede|edi|eei|ega|ehi|ekn|eme|emo|enb|eok|ern|ese|esp|fro|fun|gal|gan|gee|goa|gob|goi|gus|gut|hai|hal|han|hen|hin|iag|iba|ibr|iez|ill|ilp|ima|imo|inp|isk|iti|ixo|izu|jaz|joa|kan|kik|kni|kra|kua|lba|le |leh|lek|lib|lle|lpe|med|mer|mi |mod|mok|mor|mot|nag|nal|nat|nba|npe|npo|nua|oag|obe|odu|oha|oim|oit|okr|oli|osp|oza|pet|po |pol|pri|rbi|rga|rgu|rib|rig|rki|rme|rne|rnu|roa|rog|ror|rud|rug|sas|sat|sem|sia|sil|soe|soz|sti|sur|tad|taz|tee|teg|tei|uag|ude|udu|uer|ure|usa|usi|uso|xot|zag|zah|zaz|zil|zir|zka|zua|zul| ah| en| fe| ju| ne| oh| op| su| tr| tx| un|abi|aez|ais|alk|apa|arl|ats|aup|azk|azl|bas|bek|bel|bu |bue|but|deb|ded|deu|dio|diz|dor|dur|edu|eka|eke|eld|enp|er |erk|eso|etx|eur|eus|exu|fed|for|ga |ge |gea|gim|goe|gog|gue|iab|ibe|iei|ies|ilo|inf|ini|ioz|irt|ism|ize|jok|jom|jus|kae|kol|kur|lee|lio|lku|lor|mia|nad|ndo|neu|nfo|nia|nib|nid|nis|nke|npi|nst|nto|nts|oer|oho|oia|oka|olo|oni|ons|opo|ork|orm|osk|ost|oti|ots|pal|pea|peg|por|pos|pre|rda|rem|rio|rk |rke|rla|rot|rut|sam|sed|set|sex|sez|si |soa|sus|ti |tin|tir|tit|tol|ton|tra|tse|txa|txe|unk|upe|use|usp|uto|utx|xar|xea|xie|xil|xin|xua|zap|zet|zle|zpe",
+    fi: "en |ise|on |ja | ja|ta |ist|an |ais|sta|ike|keu|oik| on| va|ell| oi|lla|sen| jo|aan|een|kai|lis|la |uks| ka| ta|ksi|lli|in |sa |mis|sel|eus|us |än |tai|ans|den|nen|kse|kun|nsa|ään|kan|apa|jok|tta|oka|ssa|tä | yh|taa|ien|eis|aa |ill|see|vap| se|est| tu|ai |itt|ses|ttä|aik|all|ust|ast|lai|per|stä| pe|tei|ine|unn| ku|ia |sia|tää|ett|hän|isi|ste|ude|yht| hä| tä|ti |ain|ess|kä |sti|val|yks|äne| mi|sek|tuk|utt|llä|ava|lta|tav|tee|ami|dis|hte|lä |tam|ten| ke| sa|ide|sal|sty| ei| ol|alt|et |etu|oll|pau|si |sä |hmi|ikk|isu|lle|maa|suu|toi|vaa|ämä| to|ekä|iit|ssä| ih| ma| mu| ra| te|euk|ihm|iss|muk| ri| su|att|iin|isk|nna|ois|sku|tet|tur|täm|un | he|ei |eru|mää|rus|stu|tie|uut|vat| la|kaa|lii|min|oli|oma|rva|sil|urv|väl|ää | ed| si|ali|aut|avi|kki|nno|oon|ope|paa|pet| ju| ko| ty|ala|eid|iaa|jul|lin|saa|sii|suo|tti|tyk|uol|yhd| sy|aas|jen|le |mai|mie|oit|sie|tun|tus|työ|vai|ytt| jä|aat|at |auk|ens|hdi|ka |lit|na |omi|rii|uka|unt|ute|va |voi| av| pa|ama|eel|ita|ite|joi|oht|oja|tte|täv|täy| al| na| pu| yk| yl|eud|hen|htu|int|ity|kil|kka|lee|nan|nee|nkä|nni|nta|oim|ole|uoj|uom|uud|van|vas|yyt| om| op| so|aal|eet|eks|eli|enk|htä|idä|iel|ilö|itu|itä|jaa|jot|kie|koh|kää|lei|lma|man|mat|olt|osa|ost|sko|usk|vio|yde|äli|ön | us| vä|aku|ilm|imi|inn|ioi|iol|iva|kis|kon|läi|nei|nki|non|ntä|sak|sis|syy|tio|ttu|tty|tul|täl|ulk|älä|ävä| ai| et| ha| os|aht|ail|alk|des|edi|eut|inv|iso|iä |kin|mas|nau|nti|oin|ova|pit|puo|sin|soi|tuo|tyn|vis|yle|yne|äär| ov| pi| pä|ata|ehi|erh|etä|han|hei|hto|huo|ika|ime|ino|jär|kei|lki|lti|muu|net|onn|pää|rhe|set|tap|teo|ttö|tu |tys|töm|yös|äis| as| il| ni|ana|ang|ein|ent|ikä|ink|ito|its|kel|lev|liv|lon|mit|nii|nio|nos|oje|otk|pai|rit|sai|sit|sää|tah|tek|tia|tka|tse|ua |uli| hu| lu| my| ve| vo|aam|ajo|ako|amm|arv|ass|atu|del|det|dä |eil|elt|ene|gai|hal|hin|hit|hta|ihi|iki|iko|joh|keh|ket|ko |luo|men|mma|myö|nga|nne|nsä|ntu|oid|ont|osi|ota|otu|pak|pal|raj|ran|rau|rik|rje|rvo|sva|to |ton|tto|tuj|tuv|täh|vel|vin|vät|ys |ysi|yst|yte|äys| an| ki| li| me| no| ti|ait|aks|aud|dän|elä|eri|eva|he |iih|iip|ina|ipp|jes|kau|ki |kol|käy|lke|mä |nal|nto|nva|nvä|oss|ott|pid|ppu|pum|rot|sam|san|tar|tas|too|tua|tyi|tym|uin|uje|ule|uma|une|usv|ut |uun|vak|vol|yöt|äin|älk|äll|ält|äri|ärj|äst|ätt|äyt| el| er| hy| kä| lo| mä| py| ro|aka|ann|ara|ati|auh|ees|elv|eoi|esk|evä|eyd|hde|hee|hyv|ies|iet|isä|kea|kok|koo|lou|ltä|läm|mal|män|mät|nel|nla|nnu|nol|nom|nou|nso|nus|näi|oko|olu|oud|pah|puu|pyr|rja|rke|rki|soj|sos|sto|säl|tel|tum|täe|uha|umu|utu|uva|uvi|var|vä |yll|yvi|ämi|änl|ärä|ät |äyd|ääm|öll| am| ar| ky| le| lä| nä| or| äl| ää|aav|ahd|aih|ake|anh|ano|aps|arp|asa|ase|asu|da |dat|dot|dus|ede|edu|ee |eit|ena|enm|ete|etk|evi|hdo|het|ihe|iht|iid|iis|ion|iop|irj|is |jin|jäs|kee|ken|kir|kui|kuk|köö|lap|lip|lkk|lkö|llo|lmi|ltt|lue|lus|lvo|löl|lön|mee|mio|mui|mys|myy|nes|nin|nis|nmu|not|nss|nty|nvo|oa |olm|opu|orj|ot |ouk|pee|psi|ria|riä|rji|rpe|rta|sem|siv|ske|sol|soo|sop|syn|syr|tak|tan|teh|tke|tos|tut|täs|tön|uda|uis|ull|ulo|uso|uul|vit|vää|yis|yje|ymi|ynt|yrj|yyd|yä |äes|äid|ärk|äse|äss|ääs|ömy|ömä|ös |ött|öön| ep| it| ys|aai|aha|ahv|aja|aki|ale|alu|ank|anv|art|atk|ave|avo|ea |edo|eek|eht|eik|eko|emu|env|enä|epä|ero|ert|ety|hvi|ipi|isa|isy|ivi|kes|kev|kor|kos|kot|kuu|laa|lat|lem|les|let|lly|lto|lyt|lää|lö |mak|mii|mik|mil|mmi|naa|nai|nas|nka|npa|nä |oks|ona|ork|out|pol|pui|raa|ryh|räa|sar|sav|siä|skä|tis|toa|tom|tuu|tyj|tyy|uit|ukk|umi|unk|uon|uuk|vah|ver|vie|vii|von|yhm|yrk|yön|äai|äht|ähä|ätä|ävi|ösk|öst| aj| ap| en| es| ev| ik| mo| ne| sä| ul| yd| ym| äi|aad|aah|ada|aid|aim|air|aji|akk|amp|ant|apu|ark|aso|ate|aum|aus|dei|din|doi|dol|dos|dui|dyt|eam|ehd|eho|eiv|eke|ekn|ele|elu|ely|emi|emm|enp|eon|eos|ers|erv|erä|es |ese|esi|eä |hak|har|hdä|hem|hil|hok|hun|huu|hön|ida|ido|ieh|iik|ija|imu|inl|inp|iot|ira|iri|isv|ivä|iyh|jai|jal|jan|jat|jee|jel|jie|jos|jou|juu|jäl|kal|kam|kar|kat|key|kia|kit|kiä|kko|kku|kni|koi|kop|ksu|kua|kup|kyj|kyk|kys|käi|kö |lan|las|lel|li |lko|lty|lun|lyä|lyö|läh|läp|mah|mes|mia|mih|mim|mmä|mor|mpa|mär|mäs|nak|ne |nhe|nhu|nly|npi|nsi|odi|odu|ohd|ohe|oih|oil|oiv|okk|ons|ora|ori|ory|osk|ote|ous|ove|pat|pur|päp|ral|ram|rav|rju|rka|rko|rma|rod|rso|rte|rtä|rve|rää|sev|she|sij|ska|sov|sui|sun|sut|suv|sym|tae|taj|ter|teu|teä|tim|tiy|tko|tod|toj|tor|tot|tou|tui|ty |tyä|täk|uee|uhu|uid|uim|uki|uko|uor|uos|uot|urk|urm|ush|uta|uto|uuh|ved|vey|via|vil|vyy|ydi|ydy|yky|ymm|ymy|ymä|ynn|yri|yse|ysy|ytö|yyl|yöe|yöh|yöp|äde|ähu|äit|äki|äkö|ämy|äni|änt|äpi|äpo|ärt|ävy|äyn|ääd|ääk|öeh|öhö|önn|öpa|ötä| eh| oh| po| ry| vi| vu|aak|ael|aen|alo|ane|anp|api|are|arj|asi|ats|aup|dek|dut|dät|eha|eim|eki|elj|elm|elo|ema|emp|emä|eng|eno|epo|erk|eta|eto|ges|git|hek|him|hje|hmä|hon|häi|häv|ial|ian|idu|ied|iim|iir|ijä|ilt|ima|imm|inh|io |ioo|ios|ipa|ism|jak|jas|jey|jon|jä |jät|jää|kap|kid|kii|kij|kke|koj|kou|kov|ksy|kul|kuv|kyt|käs|lak|len|lep|lil|lje|lka|lku|llö|lmä|loi|lom|los|luu|lvi|lök|lös|mav|mei|mer|miä|mpi|muo|nat|nge|ngi|nhi|nia|nkk|nnö|noj|nte|nut|nöl|odo|oha|ohj|oho|oi |olo|onk|ono|ort|osä|oti|oum|ovu|pa |pan|par|pel|pie|pii|pin|poo|päi|rat|rem|ris|rjo|rky|rto|räk|rät|sat|se |seh|sjä|ski|sma|soa|sor|spi|sse|ssy|stö|suh|suk|svä|syk|syt|tal|tau|tii|tku|toh|tso|typ|tyt|tyv|tän|tär|tät|ue |uei|uht|uja|uku|ulm|ulu|una|unu|uod|uok|uov|upa|upe|upu|usj|usp|uu |voo|vuo|vut|väh|vär|yih|yin|yjä|ype|yt |yty|yvä|yy |yöa|äen|ähd|ähe|äir|äks|änn|äsi|äte|ätö|ääv|öaj|öko|ömi|önk|önt|önä",
+    fr: " de|es |de |nt |ion|et |ent| et|tio|le |ne | la|oit|la | le|on |it |roi| dr|dro|té | à |ati|men|te |ns | co|re | au| to| l |tou| un| pe|des| qu|con|que|son| so| pr|eme|les| pa|onn|ts | en|ons| a | li|out|ant|ers|ute| sa|ont|ue |per|ux |er |tre|ité|res|ce |cti|en | in|lle|rso|lib|nne|ire|un | d | re|nat|une| ou|par|ur | se|ans|aux|ou |pro|dan|nce|nte|sa |ond| dé|us | fo| na|air|ect| po|au |ert|iqu|its|nal|és | da|me |omm|our|qui|ali| ce| ch| es| ne|al |ale|com|lit|pou|san| êt|ber|fon|ibe|ien|rté|été|êtr| as| ét|aut|tra|ui | ac|du |ell|est|iss|mme|oci|pri|soc|tes| do| ma|age|ge |ous|rs | di|anc|ar |bli|int|éga|éra| pl| su|ain|ens|ona|sur|ter|ut | du| ég|ass|bre|cia|eur|rai|ran|st |ure|il |ir |ndi|rat| ho| mo|cun|ein|ill|nsi|nta|ote|peu|qu |ser| fa| on| ré|art|ess|gal|lic|nda|ntr|rés|tés| ex| il| tr|act|cat|ces|doi|ibr|ie |ine|ins|lig|ple|rit|sen|soi|tat|tec|uni| nu| vi|abl|ais|cla|ign|ind|ive|nse|nté|oir|pay|rel|rem|rot|ssa|sse|ssi|uit|ul |ée | pu|ami|ari|ava|ays|eut|fai|ivi|iét|nna|pré|rec|se |utr|ys |éta| te|as |ble|eux|hom|ict|ies|mar|nts|nul|pub|ses|ssu|tan|ubl|urs|ver| ai| ar| lo|ail|auc|cha|cte|dam|dis|duc|era|ern|for|ial|ieu|is |ist|ite|lei|leu|lie|mai|mis|mun|nti|onc|rav|ten|ucu|vai|édu|éri| vo|ait|ame|dre|déc|el |enc|enf|fam|hum|iag|ica|idé|in |iti|ls |mil|nde|nem|nit|omp|ria|rti|sat|sid|sti|tis|tér|uma| bi| ca| hu| ju| s | éd|acc|bie|cie|end|esp|gne|igi|isa|ita|lus|mmu|ndé|nie|pli|ra |ren|rie|si |sio|sou|sta|tab|uca|ues|vie|ès | av| el| ni| or| él|ara|cas|cho|cié|cou|cul|dic|dit|div|dér|eco|eig|eli|hoi|idu|imi|liq|loi|mpl|nai|nfa|nst|opp|ori|oui|rer|rim|roc|sei|sso|tie|tte|tur|vid|vol| af| gr| im| ob| où| ra| éq|arb|der|dév|elo|erc|ile|ime|inc|ise|isf|isi|lar|lem|lop|nct|niv|nér|oi |ois|ort|ouv|où |pem|ppe|pre|pér|ral|rt |sci|sfa|spe|tal|tiq|tue|uis|ura|uri|vel|voi|écl|éné|équ|ése|éve| cu| ef| jo| me| mé| no| né| y |acu|ats|ave|bil|bit|che|cip|cri|ct |ctu|dev|dig|dél|eff|fan|fiq|gio|gni|hac|her|idi|ier|ifi|ils|ipe|itr|itu|ivé|jou|lan|lim|lon|lui|lém|mat|mit|mmi|ndr|ni |nio|olo|pec|pen|pes|plu|rbi|rce|ris|riv|rna|ron|sem|sis|sui|tai|tif|tiv|uel|ueu|ule|ult|val|van|vit|éli|élé|éme|ême| ap| gé| lu| mê| op|amm|at |atu|avo|diq|dir|don|dur|dée|ec |emb|eul|exe|exi|gau|gén|iau|ic |ice|ici|ide|igé|imp|ina|irs|ix |jus|lte|mes|moy|mêm|nfo|nqu|obl|ome|oye|rac|rio|rse|rte|rès|rée|rêt|sel|seu|sir|ste|séc|tam|tel|tem|toi|una|uti|uve|vec|ven|vé |yen|écu|ées| bu| ci| cr| ha| pé| sc| sy| ép|abi|aci|aff|ala|ang|ani|asi|but|cel|cer|cet|chô|cir|clu|cès|céd|déf|dép|els|err|eu |eup|eva|exp|fen|ffe|ffi|gar|gen|ger|gra|gé |hôm|iat|iel|ili|ini|inv|irc|isc|itt|iva|jur|lam|lec|ler|mag|mbr|mem|min|mom|mor|mpr|méd|nau|nci|not|néc|ocl|ogr|oin|omi|onq|opi|opr|ora|ord|orm|ors|ota|oum|pas|pin|pos|rdr|rid|rin|rié|rog|rop|rou|sai|scr|sil|suf|syn|tit|uff|uiv|umi|upl|uts|uté|vag|vic|vot|xer|xpr|ynd|éce|éco|édi|éfe|épe|érê|ésu|êts|ôma| ag| am| at| fe| si| sé| ta|ace|afi|agi|aix|amé|app|aqu|ate|att|aur|aus|cau|ccu|cen|cur|cus|cés|dem|eau|eil|emm|eni|enu|env|erv|esc|ett|evo|fav|fec|fem|fes|fin|fra|gan|gat|gem|gro|grè|gés|han|hon|iga|inf|iod|ito|lav|lis|ltu|nge|nir|non|nou|nsc|nu |nve|odi|oie|oiv|olu|orc|org|oul|oup|pai|pan|pei|pla|ppl|qua|rag|rch|rep|ret|rga|rme|rni|rri|rvi|rév|scl|siv|sol|str|sup|sée|tau|tei|tic|tin|tor|tri|tru|tua|tud|tut|tée|uan|uct|ude|uem|ula|upe|uré|ust|uto|vea|ves|vis|vor|ère|éci|épa| al| bé| fr| fu| ga| ge| id| lé| n | om| sp| ve| vu| âg| én|adi|aid|aie|amn|an |and|ano|apr|ard|are|arm|ato|até|bar|bsi|bén|cab|cco|ccè|ccé|cem|ceu|chn|cic|cif|col|coo|cra|cre|cs |cut|den|dia|die|dém|ech|ecr|ega|elc|eng|enr|epr|erm|eté|euv|eve|exc|ffa|ffo|ffr|fic|fil|fis|fli|fut|gag|gie|gis|hab|hau|hen|hni|hor|iai|ibl|ico|ics|iei|if |ige|imm|inh|inn|iol|ior|iso|isp|isé|ixt|ièr|ié |lad|lai|laq|lat|lco|len|lid|lir|log|lor|lpa|lu |lut|lég|lér|lét|mal|man|mer|mi |mic|mix|mné|moc|moi|mon|mé |mée|mér|nab|ncl|ncé|ndu|nel|ner|nes|nfl|nga|niq|nis|nno|nnê|noc|nom|nre|nub|nva|nvi|nvo|né |néf|nés|nêt|oce|ocr|ocè|océ|odu|ofe|oge|oix|oli|oll|olt|olé|onf|ono|onv|oop|opé|oqu|oss|oux|pab|pac|plé|pol|prè|péc|qué|rau|rci|rco|rcu|rd |reg|rev|ric|rig|rmi|rmé|rne|rod|rof|rre|rro|rsu|rsé|rts|rtu|rui|réh|rém|rép|réu|sal|sec|sib|sie|sit|spo|spr|spé|squ|sub|sul|sum|sé |teu|tir|tiè|tié|tol|tté|tui|uai|ubi|ubs|uic|uir|ulp|umé|uné|upé|uro|urr|usi|usq|uss|usé|utu|uva|uvo|ué |vem|veu|vio|voq|vue|xcl|xig|xis|xti|âge|éde|éel|éfi|éhe|éle|émo|ému|éna|éno|épo|ési|éte|étu|éun|évo|ête| ay| ba| eu| mi| ri| rè| st| sû| tu| ty| va| éc|acé|ada|agé|alo|ane|ann|arl|arr|aré|asp|avè|aya|ayé|bje|blé|bte|bun|bér|cal|cep|cev|cid|cil|cor|cro|cru|dom|dou|due|dui|dus|dé |déa|dég|dét|ece|ela|elq|elu|emp|epo|ept|erd|ero|erp|esu|fac|fet|foi|fro|gim|gin|gir|gre|grâ|gue|gée|haq|har|hér|ibu|ibé|ife|ilé|inq|ira|iri|isè|ivr|ién|jet|lac|liv|lié|lqu|lé |lée|mbl|mei|miq|mpa|mpo|mpt|mpé|méc|mép|més|nco|net|neu|ngu|ngé|nhu|nhé|nif|nni|nnu|nsa|nsé|nus|obj|obt|oca|ola|ole|ong|opu|orr|os |osi|oté|oué|ovo|pir|pon|pop|por|ppr|pra|prê|pte|pti|pui|pul|put|pén|pét|rad|rba|rdi|reu|rib|rle|rma|rov|rpr|rrê|rta|ruc|rue|râc|règ|rég|rét|rêm|sab|sex|sor|spi|sèr|sûr|tia|ton|tro|tun|tyr|tég|uat|uié|uns|upr|urc|usa|use|uta|ués|voc|vre|vèn|vée|xe |xil|yan|yra|yés|âce|ègn|ène|éal|égi|égr|égé|épr|épu|ére|éré|éso|éva|êté|ûre",
+    ga: "ach| ag| ch|an | an| a |ar |agu|gus|us |ear|ch |na |le |ine|ne |art|chu|ile|ta |cht|hun|uin|dh |rt | dh| ga|in |cea|un |is |ith| le| ce|as | bh| ar| na|nta|uil|omh|aoi|on | do|aon|tá | ui|hui|ir |ag |air|hai|gac|dhu| ná| tá|eac| go|cha|go |il | sa| i |hta|hea|sao|the| ao|tha|adh|isi| in| is|do |idh|cho|ann|ha |ht |och|th |ion|mha|oir|tea|ean|nn | ai| co| de| gc|dea|nái|siú|amh|eid|he |tac|ain|irs|áis| du| ní| th|iún|lac|ní | nó| sh|nó |far|lea|mh |íoc| ph|hao|oin|rth| d | ma|ais|dui|int|nna|rta|ide|irt|nea|se |éan| dl|aid|ana|hoi|inn|ná |áir|únt|aig|ant|dlí|hla|idi|lí |rea|che|com|hom|hái| oi|bha|héa|ona| bi|ait|aío|dir|eam|eas|ige|nt |rse|áil| fé|abh|ead|eal|eit|ge |hio|iri|rí |sa | at| io| mh|bai|de |eag|hei|ont|óir| ei| gh| te| tr|bei|bit|eil|féi|has|ina|ire|mai|onn|pho|sin|sí | bu| ea| fh| ne| ré| si|agh|coi|gha|hch|ial|lei|nac|oib|oid|oil|ora|íon| as| da| se| ái| é |ada|ath|aí |don|gan|igh|im |la |nai|nío|oba|rfa|ria|sta|te |áin| ac| ci| fa| fo| to|ala|aor|arb|bhe|bun|dao|gco|ghl|ite|iú |lta|mar|nfa|ogh|ra |réi|río|seo|sia|áth|éin|ír | be| có|ad |anf|bhé|dar|déa|har|hos|hói|irí|lán|nad|nas|oit|re |tai|tan|trí|éar|éir|íom|íte|óis| dé|ail|dha|eo |fao|fho|for|gh |nan|osa|rai|rbh|rit|rsa|rsí|tho| ca| cr| dí| li| mb| pá| ri| ts| tu|aim|al |arf|atá|bre|cin|eor|hír|hú |iom|ise|mhc|ntr|pái|rei|thi|uai| cé| dá| ha|asa|asc|bhr|bhu|bhá|chá|eir|hac|hdh|hin|ian|ime|it |iúi|laí|mhd|mhi|mlá|nne|ois|oml|onó|oth|rát|san|sha|thr|án |éim|ún | cu| dt| st|aom|ars|bh |bhf|bhí|blí|cio|dá |eis|en |had|heo|hní|hob|ibl|imh|ird|lai|len|mbe|mea|nam|nte|or |pós|reo|sad|sai|sc |stá|taí|thí|trá|tui|uit|ála|éad|ósa|úil| fe| pé| éi| ó |acu|all|arn|cre|cu |den|dhó|ena|fea|gai|gea|ghn|hor|hrí|iac|ibr|isc|ola|pé |rál|sea|tas|toi|tát|una|unú|ur |ás |át |úla| fi| gn| gá| id| n | nd| po| pó| sl| sé| só| ur|alt|bhú|cao|chi|ché|crí|dhe|dhm|dhé|eoi|gab|gce|gá |hal|hog|hus|hós|ing|iti|lin|lái|mhn|miú|nú |oi |orl|ort|orá|ost|phó|pói|rad|ras|rb |rd |rná|rra|rít|sac|spó|sé |sói|tre|tsa|uma|urr|usp|éas|óid|ós |óst| am| gu| hi| mo| no| so| t | éa|acn|aol|aot|arr|chr|cna|céa|cói|cón|dfa|eol|fai|fei|fre|fui|gcr|ghe|gur|hab|ham|han|hfu|hiú|hna|hrú|hío|ins|iúl|lua|lám|mac|mhá|ng |nit|oim|os |phe|rim|rlá|rú |sca|shá|thu|tua|uis|ách|áit|ált|íos|óna|óra|úin|úis|úna| ba| cú| dó| fr| fá| fó| ge| há| ia| im| la| pr| ro| rá| sr| sí| úd|aca|adf|aga|aic|alu|alú|anb|ard|bea|bhó|cad|ce |chó|cnt|con|cos|cás|céi|dch|deá|dhí|dim|dtí|dál|díf|dír|eat|eof|eái|fái|féa|gcá|gní|gra|gth|haí|hlá|hmi|hre|hum|hán|héi|hí |hís|hót|ibh|irb|ist|lit|lui|lít|lú |mao|me |mhl|mho|mor|mí |naí|nbh|ndá|nfh|nnt|no |nsi|ofa|ol |onf|org|osc|phí|pob|prí|rba|rdc|rdh|ris|roc|rár|saí|scn|sei|shl|shó|slá|sri|thú|tog|tos|tái|uac|uig|unt|ánd|árt|ású|éid|íd |ífh|íor|íre|íth|óib|ótá|úda| ab| br| eo| lo| lu| lé| me| ng| ob| or| pe| sc| ta| ti| tí| ua|agr|ano|ara|ast|bal|chú|ciú|cul|cúr|dua|dín|dó |fas|faí|fhi|fhá|fiú|fós|gcú|ghd|hde|hol|hri|hur|hác|hás|hó |húi|ias|ici|id |ie |ife|imí|irc|irm|las|ll |lla|lor|ltú|léi|lío|mhe|mhg|mío|neá|nge|nie|niú|noi|nse|nól|nós|nús|obh|orb|ori|pa |pea|raí|rg |ríd|sci|sío|súi|tar|tei|thc|tia|tic|tio|tío|tír|túr|ual|uir|ult|uni|áid|áig|ámh|éif|éil|ích|íni|ól |úra|úrs|úsa| ad| bp| dú| gl| gé| he| ho| mn| mí| nu| pí| ru| sn| sp| sá| tú| ár| ói|agt|alb|alg|am |ama|amp|and|ani|anú|apt|arl|arm|ará|asm|asp|asú|aít|bar|bia|bpó|bro|buí|ca |cab|cag|cai|car|cmí|cni|cot|cru|cui|cuí|cór|cúi|cún|dac|dai|das|dhn|dli|dob|doc|dto|dtr|dúc|dúr|eap|eic|eim|eác|eál|eán|fhe|fhl|fhu|fil|fir|fos|gad|gar|gas|gci|ghc|ghs|ght|glu|gné|gum|géa|hag|hfé|hgh|hia|hm |hne|hod|hot|hrá|hró|hsa|hsp|hth|hu |hul|hár|hát|hór|ia |iad|iar|ic |icm|icn|igt|ill|ilt|imi|imt|inc|inp|iní|irf|ism|isí|itr|lat|lbh|leo|leá|lga|lia|lig|lle|llt|lló|lte|lín|lói|man|mbr|mhs|mht|mir|mit|mná|mph|mth|mui|nch|nd |nde|ndí|nga|nní|noa|nph|nra|ntu|nua|nád|níi|nóf|nói|nún|oar|ob |odh|oll|omb|ono|onr|ons|orf|oró|osn|pei|ple|poi|pth|pío|ran|rce|rfe|rin|riú|rle|rma|rmi|rog|roi|rrf|rrt|rte|rti|rtú|rug|rut|rás|réa|ríc|róg|rói|sce|she|sho|shr|slí|smi|smu|sna|snó|soc|soi|spa|spe|spl|ste|sti|sás|sít|súl|tab|tal|teo|thl|thó|tig|tiú|tra|tro|tse|tál|tí |tú |tún|uga|ula|urb|uth|uí |uío|ádú|ál |áma|ána|ánú|árd|éag|éig|íit|íns|íob|íol|ís |ísí|ófa|úch|úrt| cl| e | fí| gi| gr| l | lá| on| pi| sm| í | úi|ac |acm|acú|adr|afá|agl|agá|amí|ang|anm|ans|aob|aqr|arc|ari|aui|bau|bhi|bin|bla|béa|bú |chl|chn|cle|cmh|cta|cur|cít|cú |dat|deo|dhr|dm |dom|dró|dun|dái|dáo|dí |díc|dón|eaq|edi|eif|ell|eon|erá|erí|eád|fad|fás|fí |fío|fói|ga |ger|gin|gla|grú|gái|hel|heá|hfi|hfr|hga|hná|hon|hra|hro|hrt|htu|htú|hua|háb|hín|hít|idm|idí|ifí|ila|ili|imn|iog|iol|isa|isl|ití|lad|lag|lam|lao|lsi|lát|líd|mba|mbé|meá|mhf|mne|mog|mpa|míd|nar|ndl|ndé|ner|nma|nni|noc|nre|nsa|nsc|nsí|nát|né |néa|nór|obl|oga|oli|ols|olá|om |omp|par|pio|qrt|rao|rbú|rc |rch|red|rga|rio|rla|rme|rna|rom|rr |rsi|rád|róc|ród|rúp|sag|sal|sam|sct|scí|shí|sil|sle|sma|sos|stó|sór|sún|tad|tao|tht|thá|tsí|tsó|tói|túi|uaf|uar|uid|unr|ábh|ádf|ádá|ánf|áon|ára|áró|ása|éis|ídh|ínt|óca|ódh|óga|ógr|ón |órt|úid|úpa",
+    gl: " de|de |os | a | e |ión|to |da |ció|en |ere|der|ito|ent|ón | se|eit|rei|ade| co|as |dad| pe|per|aci|men| te|ers| da| pr|nte|do |al |rso|ten|ida|soa| to|oa | po|es |que| do|tod| o |te |cia|res| in| li|pro| re|oda|tos| es| ou|dos|est| pa|nci| qu|ar |lib|ra |ue | na| á |con| en|ber|ia | no|er |nac|ns |rá | sú| un|ser|súa|com|erá|nto|ou |tra| as| ca|or |se |óns|des|ica|no |ter|is |úa |ado|cci|das|eme|io |por|sta|nal| ni|ame|era|erd|par|pre|rda|sen|ais|cto|ibe|ant|ona|ara|cio|nin|nta| di| me| so|cas|ha |nha|unh|enc|so |ese|ici| ma|ali|ect|ion|oci|soc|tiv| ac|dic|lic|lid|nid|ntr|tad| os|eli|ing|ont|seu| fu| ig|ase|gua|igu|ndi|re |ria|uni|fun|nda|ngu|rec|und|cti|ecc|esp|mat|na |omo|ori|ste|ual|vid| tr|act|aso|dis|egu|iva|lo |on |seg|tor|tri| el| ó |bre|ial|ibr|ido|ind|ios|lle|man|ome|spe|tar|tes| fa|ada|ari|art|ca |cie|co |edi|ele|gur|isf|med|ode|ote|pec|pod|rim|rot|ta |ura| sa| ós|ami|ati|bal|cal|ena|ili|ita|ixi|mo |nde|rac|rar|rio|tec|tic|uma|ós | mo| ne| vi| vo|alq|atr|aís|cac|cla|del|duc|ece|eci|guí|ico|imo|int|ist|ivo|le |len|lqu|mon|nio|non|olo|ond|oni|paí|ran|sti|uer|un |uín|ver|ín |ís | ex| tó| xu|aba|all|den|eda|ens|ern|esi|eñe|hum|ias|ied|inc|lar|lec|llo|nos|nst|nvo|pen|ple|pri|rab|ral|ren|tal|teñ|tód|vol|ñen| ar| hu| ob| su| ta|ble|bli|dio|efe|eno|eu |eus|fam|in |ive|la |lia|lix|ma |mil|mpr|opi|out|pol|rop|ros|tan|us |utr| ba| du| ed| op| or| pl| pú|abl|cem|dam|edu|end|env|eri|esc|eso|for|ivi|iza|los|lve|olv|omp|púb|rel|rem|str|uca|vos|xer|úbl| ci| le| ll|ald|anc|ará|ben|cip|col|cul|dol|eco|ei |ene|fic|gun|ict|idu|ien|ina|ins|lei|met|mun|niv|odo|ole|sió|tac|tro|tur|ucc|za | au| cu| ha| ra|acc|ala|arb|aut|cid|dec|dem|ecl|el |fac|fru|hab|iai|iga|ler|lim|me |mpo|nes|oma|pos|ras|raz|rit|rna|ro |roc|rom|rte|rut|rán|sat|sfa|sfr|sos|tam|tid|tis|tre|uci|vad|án |ódo| be| eq| fi| ás|abe|asi|ate|ato|bit|cam|car|cer|ces|coñ|dar|dia|dig|div|dun|ebe|emp|equ|err|ete|ez |gni|ian|ign|ime|imi|itr|lem|mor|ndo|nic|nió|nsa|nse|ntí|ons|oñe|pio|qui|rbi|riv|rti|ruc|sal|sar|scr|sin|sis|son|tru|ult|vem|von|xa |xió|ás |ífi|ñec| al| am| go| gr| mu| ve| xe|an |ana|ano|así|bri|cre|deb|dep|ecu|ela|emb|epe|exa|gar|iam|ide|ini|inv|inx|ir |iso|lam|las|mes|min|mit|mov|nad|nfo|nti|obe|obo|obr|ocl|onc|onf|orm|ort|pob|rav|rci|rig|rin|rmi|ron|rri|rsa|rta|sco|sec|sem|sí |tai|tem|tin|uai|ure|uta|val|vel|zo |ún | at| cr| ef| fo| ga| ho| id| im| má| mé| si| só|ace|ale|ama|amp|ani|ata|bas|be |bil|bro|cad|cce|cir|cis|cor|cos|dal|def|eal|ego|emo|erc|erv|esa|esu|eti|exe|exp|fec|fen|fer|go |gre|iac|iar|icc|imp|inf|ino|ipa|ipi|ira|irc|itu|lda|les|mai|mbr|mem|mis|mom|mái|mún|nce|ncl|nen|ner|nsi|nxe|oca|oce|ogr|ola|oll|omi|omu|omú|opo|opó|ora|ore|oto|ove|pie|pin|po |pós|rat|rax|rcu|rea|reg|rid|rix|rme|rog|rse|sa |ses|sex|sit|sup|só |tat|tud|tíf|udi|uit|unc|uri|uro|ust|uto|uxe|vo |vot|xei|xen|xio|xpr|xus|zad|zar|áis|óda|ósi|úas| ad| ap| ti|abi|acu|alm|amb|amé|apl|avo|az |aza|azó|bia|bos|bra|bxe|can|cen|cra|cur|cus|dua|duo|dur|ema|enz|erm|eta|exi|fes|fin|fra|gad|gan|goz|gru|gún|hom|ior|ire|isc|ixe|lez|liz|lme|ltu|mad|mar|mbi|mic|mpl|mul|mén|nam|nas|nat|nec|nel|nza|obx|olt|ord|orr|ose|osi|paz|pli|pon|rai|rde|rep|ret|rre|rup|rvi|sca|sic|sol|som|spo|tab|tas|tir|ull|uns|upo|urs|usa|ute|vam|vas|ven|ves|voc|xan|xe |xec|xin|xo |xur|zón|én | ax| bu| ce| có| ec| fr| fó| nu| nú| om| té| va| xa| é | ét| ún|ací|aer|aga|aix|aní|aqu|aro|ars|asa|atu|ave|avi|axa|axe|axi|aír|aúd|bai|bar|bid|bo |bsi|bun|bus|cab|cat|ced|cel|cep|cic|clu|clú|cni|coi|coo|crm|crá|cta|cuc|cun|cíf|cón|dan|det|dez|dir|dra|ebr|ecr|ede|efi|eir|ell|emu|enf|epr|ert|esf|esm|eto|eun|eva|fan|fav|fil|fir|fos|fut|fór|gat|gob|gra|ibi|ibu|il |ill|ilo|iod|ipo|isa|isd|isi|ite|ixo|iúv|lde|ldr|leb|let|lev|lit|lla|lli|lpa|lta|lte|lto|luc|lus|lít|lúe|mid|miz|moc|mot|mpa|mpe|méd|mér|nai|nar|nef|nfa|nfe|ngú|niz|noc|nun|nva|nxu|nía|nóm|núb|oam|ocr|odi|odu|ofe|oid|olu|olí|onó|oop|ope|org|orz|orá|oso|ost|oti|ouc|oza|pab|pac|pai|pir|pou|rad|rae|ref|reu|rga|rib|ric|ris|rma|rni|rno|rob|rod|rof|rtí|rác|rát|sad|sas|saí|saú|sdi|sfo|sid|sil|sio|six|sma|spi|sto|stu|stá|sub|suf|sul|sum|sux|taq|tim|tip|tit|tiz|tni|tol|tom|tuc|téc|tén|tía|tís|ubs|uco|ude|ues|ufr|uiv|ula|ulp|una|une|uo |upe|upr|usc|uso|utu|uté|uíz|va |van|ve |vez|vic|vit|viv|viú|vor|xes|xir|xis|xud|xux|xuí|zac|áct|áti|écn|édi|ént|éri|étn|ía |ías|ír |íst|íti|ízo|ómi|ónx|óra|úbi|úde|úe |úni|úns|úve| dí| em| fe| mi| oí| pu| rí| ín|abr|aca|adm|adv|afi|aio|alg|alo|amo|ane|ans|arc|are|asp|azo|bel|bir|bse|bte|cib|cil|cin|coa|cri|cru|cte|cum|dea|did|dif|dil|dit|dmi|dom|dot|dum|dve|díb|ea |ead|eaf|eca|eis|epc|ept|epu|erp|etí|exo|eza|ezo|fag|far|fe |fid|fri|fro|gab|gas|hib|hon|idi|ie |ife|ifu|ila|inh|iol|iom|irm|iro|irá|ise|isp|iód|lab|lac|lea|lgú|lie|lio|lió|loc|lor|mac|mbl|mig|mol|mou|nab|nei|nfi|nfr|nhu|nif|nis|nom|nra|nso|nsp|nve|nxa|oab|oal|obs|obt|ohi|oir|one|onr|opr|osp|ota|ous|ova|ovo|ozo|oíd|pag|pal|pci|pel|pet|plo|prá|pto|pub|put|rba|reb|rez|rie|rió|roh|rov|rpr|rra|rtu|rue|rva|rza|rzo|rár|ríd|rín|ríx|sab|sac|sai|sam|sea|siv|sob|spr|tei|tex|tig|toi|trí|tá |tán|tír|tón|ubl|uei|ume|ump|uos|urí|use|utó|vac|var|vex|vio|xam|xid|xim|zas|zoa|ánd|áro|íbe|ída|ídi|índ|íns|íro|íxi|ódi|óno",
+    hr: " pr| i |rav|ma |ima|pra|je | na|ti | sv|na |nje|anj|vo | po|ko |vat|no |avo| im|da |ja | za|va |sva|tko| u |ju | bi|van| sl|ova|ili|ne |atk|ih |li |nja| dr| ko| ne| ra|iti| os|jed|ava|ije|koj|ost|bod|lob|obo|slo|ati|im |pri| ob| mo| il| je|bit|stv|om |se | da| se|voj| ka|dje|dru|sti| su|raz|bra| nj|edn|enj|svo|vje| od|eno|mor|ni |ora|ra |ran|lo |nim|oda|pos|rod|žav|drž|eni|ji |mij|nih|nov|rža|aju|aro|iva|jel|og |oje|pre|sno|sta| iz|ako|jeg|jen|osn|avn|nar|nos|ovi|su | dj| ni|ovo|pro|za | st|bil|gov|jem|lju|odn|oji|stu|tit|vim|ist|ka |nit|nom|rad|red|tu |tva|ve |ći | do| sa| sm|elj|jer|lje|nst|obr|olj|uje|vno|aln|an |cij|dno|ilo|jan|nak|nu |te |živ|ani|ans|dna|oj |tup|ući|šti| ta|ašt|du |edi|elo|em |ija|ite|lja|nju|sam|tel|vol|zaš| op|aci|ego|nap|nog|rug|smi|tan|ada|ak |avi|azo|din|dni|itk|itu|nič|nji|oso|sob|tvo|vni|zov| sk|amo|ara|di |ivo|jet|ku |lji|mje|nic|obi|oja|oju|ona|ovj|pun|rim|tno|una|ven|vi |čov|štv| bu| mi| vj| vr| čo|bud|eđu|ina|inj|ičk|jek|odr|odu|ovn|pot|rij|to | br| te| ze|akv|ao |apr|ave|azn|eml|ere|ga |jev|kak|kaz|kla|maj|međ|mlj|mov|od |opć|pod|rak|ris|ruš|slu|sto|svi|tra|tve|ugi|ušt|zem|zna| be| ja| me| on| pu| un|adi|aje|avl|azv|dst|eds|gla|ika|jal|jih|jim|kom|las|lik|ljn|odi|oti|rat|reb|sre|sud|tak|tre|udu|uno|ura|vlj|čin| is| ro| tr| ži|ama|atn|de |duć|gra|gur|igu|ini|ičn|jav|juć|juč|kao|ke |klj|kon|mog|nac|nen|oči|ređ|rot|sig|skl|st |tiv|uži|vin|vot|vu |zaj|zak|zne|ću |čen| de| kr| ma| so| sr| uj|ate|bez|ca |eko|eme|evi|ez |eza|gim|ica|imo|ira|mu |obn|oci|oni|osi|osl|ove|ošt|poš|pće|sa |soc|ta |tni|var|vih|čko|čno|što|žen| mu| ov| uk| už|bno|bve|dos|ebn|eka|ekl|ena|gnu|izv|kri|la |luč|nan|nut|obv|ono|otr|pla|pol|pov|rac|ras|rem|ren|ril|riv|tov|udj|ukl|upa|uču|vak|vez|će |ćen|čuj|đen|điv|že | a | gl| li| lj| og| ud| us|aki|aku|apa|apo|ci |dek|dim|edu|eg |ela|eli|en |est|etn|ivn|iče|iše|išt|ječ|jno|jud|kup|lar|len|lim|lj |lni|lov|mat|me |nal|nep|ode|ogl|ogr|ojo|ođe|pad|raj|raž|ret|rno|rog|sle|spo|tav|ter|toj|uju|ust|uča|vij|vič|vri|zap|zva|čaj|čni|đun|šen| di| pl| s | to| um| vl|ast|azu|ačn|ba |be |bi |ce |cio|dar|dgo|dok|dov|dsk|ed |ega|ema|ene|epo|esa|eva|eđi|gon|gu |ice|ici|imi|ion|isk|iv |iza|izn|izr|joj|ki |lat|lać|lno|mir|moć|mož|nač|nes|odg|oga|ogu|oli|ops|opu|or |ori|ože|pom|pus|ral|rgn|riz|rop|ruč|skr|tar|tič|uds|upi|ut |viš|vla|vna|vog|vrg|vrš|zbo|zum|đu |šlj| bo| ci| gr| in| uz| uč| vo| zn| či| čl|ad |adn|ana|anu|ar |aso|atr|azl|aću|ače|bor|cil|cu |dan|dnj|dop|dre|duj|dvr|emu|era|eri|esp|eta|ete|etk|iko|ilj|int|ipa|izb|jam|jec|ješ|jiv|jka|jni|kad|kim|kog|kov|lan|lap|lit|liš|ljs|lne|mo |nam|nav|nez|nte|obe|odv|ogo|osj|ot |pač|pit|por|poč|pst|res|rip|rođ|ru |ruž|sje|sku|sma|sni|sov|str|tem|tež|tje|tku|tvi|tvu|udr|ugo|umj|urn|uto|uz |uže|vor|zli|zvi|zvo|ća |čel|čla|šte| du| ik| ku| ok| si| sp| ti| ut| že|abr|aja|aka|ake|ala|ali|and|ano|ard|are|asa|ats|aža|aže|bna|bnu|bol|cim|den|dis|eba|ede|ero|eru|eze|ečn|eđe|eša|gle|gos|hov|iho|iji|iju|ike|ine|ino|iro|ivi|išl|jat|jes|jst|juj|kar|kaž|klo|kul|kve|kvo|led|ltu|man|min|miš|muš|naj|nda|nek|neo|niž|noj|nop|noš|oba|okr|omi|omo|one|opi|opr|opt|ore|ose|otn|otp|otu|otv|oći|pin|ptu|rd |re |rob|rom|rov|rsk|rst|ska|ske|ski|sko|smj|tpu|tur|tuž|udo|ult|umi|upn|upr|usm|uće|uče|uči|učj|ušk|užb|vaj|ved|vne|vom|vrs|zab|zat|ze |zra|zvr|ćeg|čne|šan|šav|še |ška|žan|žno| au| ba| bl| go| hr| kn| mj| or| sn| tk| tu| ug| up| uv| vi| zd| zl|ado|ago|aht|ajk|ajn|ajv|akt|am |amj|ams|apu|arc|ase|asn|asp|aut|avj|avu|aži|ažn|bam|bar|bes|bir|bić|bla|bne|bro|cat|daj|dak|dat|dem|dij|dik|dit|dob|dra|duž|ebi|eca|ecu|eda|egu|ehn|emo|ens|eov|er |ers|evn|ezi|eći|eću|eču|eža|ežn|gan|ge |gih|gog|guć|hni|hra|htj|icu|ign|imj|ind|inu|irn|isu|itn|ito|iz |ića|iće|iže|iži|jeć|již|jne|jnu|jom|kam|kan|kat|kih|knj|kor|kođ|kra|krb|kre|krš|kvi|kvu|lad|lag|laš|les|lic|lij|lnu|lop|lot|loč|lož|lug|luž|mao|mel|men|mok|mst|nad|ndi|nev|nik|nis|niv|niš|njk|nol|obl|odj|ois|ojn|ok |oka|oku|ole|olo|oma|ome|org|orn|osr|ovr|ozi|oć |ošl|oža|pa |pan|pat|pci|plj|pnj|po |pog|poj|pon|poz|prv|put|pća|rb |rci|rek|reć|rga|ric|rio|rir|rna|roi|ros|rve|rša|rše|ršć|sav|seb|sin|slj|spl|spr|ste|stj|sur|sve|taj|teh|ten|tig|tih|tim|tka|tor|toč|tru|tsk|tuđ|tvr|ude|uge|un |unj|unu|up |upc|upl|usl|uta|ute|uvj|učn|učv|užn|vis|vit|vnj|vod|vos|vra|vre|zad|zah|zaz|zdr|zir|ziv|zlo|zri|ćim|čit|čiv|čiš|čja|čki|čku|čnu|ču |čvr|đer|ša |šće|šću|ža |žaj|žba|žev|žim|žit|žnj| ak| ga| id| o | oč| pe| uh| ur| va| zb| će| ča| ši| št|ac |aca|adl|adu|agd|aha|aj |aji|ale|alj|ami|ari|ars|asl|atv|avd|azi|aće|ači|ađa|aša|aše|aši|bav|bda|ben|bio|bič|bli|blj|bo |bog|boj|bre|bun|bzi|can|dal|dav|dbe|dej|dic|dil|dič|dle|dlu|dmo|dne|dom|don|duh|egn|eja|ek |elu|enu|eot|epr|esu|etu|eće|eča|ečo|eđa|ešć|eži|gdj|gi |gne|gnj|go |goj|gom|gru|ha |hić|hu |ide|ido|ijo|ik |io |iod|iop|isa|isi|isl|isn|izg|izm|iša|iža|jez|jeđ|jsk|jve|jvi|kol|kos|kru|kte|kti|kva|laz|le |lež|lna|luj|luš|mal|mač|mih|mis|mno|mom|mou|muč|neč|nij|nin|niz|nuć|obd|obu|obz|odl|odm|oko|ol |onu|oru|osa|osp|osu|oup|ovd|ovu|ošć|paj|per|pis|pku|pna|pob|psk|pću|pšt|rah|ram|rađ|rdi|rez|rgo|rid|roj|rub|rut|rđi|rši|san|sas|sat|seg|siv|sli|suv|tal|taš|tic|tin|tir|tić|tog|trg|tst|tuj|tum|ubo|ud |udb|udi|ugl|ugn|uhi|uhu|uma|umn|umo|umu|uni|upk|upš|uro|utn|utv|uve|uća|uđe|uđi|uša|vag|važ|vde|vdj|vel|ver|već|vrd|vrđ|zac|zal|zgo|zi |zik|zme|ćav|ćem|čan|čas|čil|čje|đaj|đal|đeg|đuj|ši |šic|šir|šta|žbe|žil|žni",
+    hu: " sz| a |en | va|és |min| és|ek | mi| jo|jog|nek|ind|an |sze|ság|sza|ala|nde| az|den|val|ele|az |oga| el|mél|ga | me|egy| eg|van|emé|zab|zem|ség|tás|aba|ak |bad|gy |gye|int|tel|ély| ne|lam| te|ben|ni |tet|tt |meg|zet|ete|nak|ény| se|lyn|yne| al|et |ez |hoz|oz |sen|eté|let| kö|ell|mel| ki|es |hez|nt |tek|em |ra |köz| le|atá|kin|agy|ely|nem|re |ásá| ál|ett|ok |yen|ese|szt|el |emb|mbe|tés|vag|ads|ami|dsá|gok|lap|len|sem|áll|ás |ame|enk|ló |nki|nte|on |éte| cs| ke|ban|lla|ébe|hog|lő |mén|nye|ogy|ágo|ég | ho| vé|elé|fel|lle|tat|yes| em|ly |ogo|vet|ág |ész| am|alá|emz|kel|lek|lis|mze|áza|art|ber|elő|het|ház|kül|nd |nyi|rés|ssá|tar|vel|át |ért|ésé|eki|enl|eri|kor|lat|lem|sít|ti |zás| fe| ha| há|aló|ehe|eve|ges|leh|más|nlő|os |ot |szo|tes|tos|zas|zto|zés|árs|ége|ól |ül | mu|ass|del|ll |nev|olg|ott|se |szá|tő |ába|ány| ak| bi| es| ny|ad |biz|elm|is |izt|ja |lt |sel|sül|tár|téb|véd|ána|éde|éle|ése| má| ér|ai |azá|csa|esü|eze|fej|ine|koz|mun|ny |ri |tot|unk|yil|zte|ált|áso| gy| él|ako|alk|asz|cse|ife|isé|it |kif|lés|osí|tan|ten|tko|tét|vez|vál|éke| né| tá|al |at |don|elj|ető|ezé|gai|got|las|leg|lmé|lás|nyo|nél|si |st |tal|zat|ála|özö| be| ta|ada|alm|atk|dal|ekm|end|enn|ere|esz|etb|gya|gít|haz|kmé|lta|lve|lye|nta|ozá|rsa|sal|szü|sán|tbe|tte|zer|zta|áli|ére|üle| id| mé| or| ti|dés|egv|eke|ene|ent|idő|isz|ját|ket|ki |kit|kén|lel|lgá|lkü|llá|nka|orl|rlá|rta|rtá|sok|ssz|toz|ágá|áho|éhe|élk|élt|éne|íté| ar| bá| er| ko| ré|aká|alo|arr|ava|bár|ege|erm|ess|gvá|gál|hat|jes|kal|lan|lom|lád|mi |mán|nké|nos|og |om |rde|rme|rra|sad|set|sne|ssé|sér|tis|tól|ve |ván|zni|ága|áno|ára|árm|érd|ét |öve| bü| ez|all|ani|apv|att|bün|ciá|dő |egf|ei |elh|elk|elt|elv|etl|gho|gát|ill|ilv|ina|ism|iál|ján|kra|kta|lje|lvá|lét|lön|mer|oci|okr|oly|ors|pol|pve|rsz|rvé|sa |sme|sre|tjá|tle|vén|yan|yos|zoc|ztá|zág|ágh|án |ár |ása|ésr|ósá|öss|ülö|ünt|ődé| il| ma| sa| tu| vá|ado|ajá|ann|ato|bb |ból|dek|eti|gár|iva|kat|kár|köt|lez|lma|lni|lát|mpo|méh|ndő|nna|okt|rat|rt |saj|sho|son|szí|ter|tó |vét|zak|zol|záj|ásh|áto|átó|ésn|ítá|ült| bé| cé| jó| lé| pi| tö|abb|amp|ana|ara|asá|bel|böz|cso|cél|egk|egs|eké|eni|evé|gi |gkü|gyé|gyü|iel|ily|kie|kép|köv|lak|lhe|lja|lka|lko|lté|lyi|lég|mag|maz|nbö|ncs|osa|oza|ret|rté|rül|sak|sse|sáb|tós|tör|yek|yet|yis|ysé|zav|zes|ást|égí|önb|özt| an| ir| je| ok| ol| pe| vi| ön|agá|aka|amo|apj|apí|ati|aza|be |dig|eg |egé|ein|eje|ejl|eli|etk|ezn|gal|gge|gon|ig |ila|ize|jel|jez|kan|kar|kot|ksé|kéb|lme|ltó|lya|lán|mek|men|nni|nté|nys|nép|nít|oka|olt|omá|ont|or |ozo|pít|rsá|she|szv|sáh|sét|te |tik|tkö|tni|tsé|tve|ték|tén|ula|vaz|vis|yer|yén|zi |zvé|zám|zít|zös|zük|zül|ágb|ájá|égé|élv|ésh|önk|özi|üks|ől | ad| bű| fa| fi| fo| fé| ig| ké| kő| la| nő| ug| vo| ös| út|ain|aiv|and|any|bék|bűn|dja|dol|dék|dős|edé|ega|egí|emh|emm|eny|ené|eré|faj|fiz|fér|gaz|get|gsé|iat|ie |iny|jlő|jáb|kai|ken|ker|kez|kka|kőt|lkö|ltá|lőd|lőt|mhe|mia|mmi|mok|nat|ndó|nie|okk|ozt|ren|rfi|san|seg|tev|tsá|tti|tán|tér|ugy|uló|vat|vék|vél|vés|yak|yei|yüt|zha|zt |zöt|ádj|ání|ék |épe|érf|ési|éss|ést|íte|íto|örv|ött|útj|ügy|ütt|őbb|ősz|őte|őtt| ba| fü| hi| ku| mű| ül|adá|ajd|ané|apo|ata|bar|bon|dem|dna|dom|dás|dó |döz|edi|egá|eiv|eln|els|emi|erk|erü|erő|esn|ets|fen|fin|fos|füg|gat|gba|gen|gfe|gfo|gna|gra|gén|gés|hel|hes|ia |ihe|ik |ika|irá|ive|jai|jdo|jól|ka |ke |kei|kon|köl|laj|lcs|ldö|les|lga|lmi|lső|lyt|lyé|lők|lől|mez|mil|moz|már|műv|nda|ned|nia|nká|nnt|nny|nya|nyu|nőn|ogá|ola|onk|ort|oss|osz|ped|pil|pjá|rkö|rmi|rmé|rtv|rán|rás|sna|szk|szó|sár|sén|sőb|ta |tag|tam|the|tud|tul|táb|tél|udo|ult|va |vei|vol|yi |yok|yt |yul|zai|zei|zel|zkö|zon|zot|zve|zár|zól|ződ|ádo|ák |ámá|ási|ásn|élj|ént|éve|ít |ítj|ító|ítő|ólé|óló|ölc|öte|ötn|öze|özv|özé|ügg|üld|üli|őne|űvé| ab| bí| go| is| ju| ka| kí| ra| sé| té| tő| ve|abs|adn|akó|alj|am |anc|apc|ará|ath|atl|até|ató|azo|azt|ba |bbó|bsz|bír|dje|dve|egg|ejt|ekh|ekk|elb|elü|eme|er |erv|erű|est|etn|etr|etv|ezz|ező|eér|fog|fol|gas|gei|ggy|gyo|győ|gáh|gán|hal|hen|hiv|ibe|ide|iga|iis|ile|ise|ják|jár|jöv|kap|khe|kho|kii|kke|kos|kul|kóh|kör|lad|lha|ljá|lki|lto|ltu|lyo|láv|lén|lér|lít|lül|ma |mék|ndo|nil|nyb|nyl|nés|obb|okh|ona|ond|opo|orv|ozn|pcs|pei|pen|pih|por|poz|ppe|rab|rek|res|rin|rok|rte|rve|rvo|rál|rát|rű |sol|sop|sso|sát|séh|tem|tfe|tla|tok|ton|tre|tta|tts|tur|tva|tát|tőr|urá|ven|ves|von|vos|vád|ybe|ye |yel|yle|yom|yét|yőz|zze|zín|ád |ágn|ámo|áro|árt|árá|ásr|áve|éni|épp|éré|ínv|íta|íti|íts|óhe|öre|örü|ülm|őrv|őző| ah| de| do| ga| hí| in| jö| kü| mo| po| re| ro| ru| si| sú| tü| ur| ár| ör| öz| üg|abn|add|afe|ag |aga|agi|agj|ahh|aji|ajo|aki|alh|ama|amá|amí|ant|anu|apu|as |ast|atb|azd|azg|azh|azó|bba|bbi|bbs|bea|bet|bis|bni|bsé|bér|chn|cs |csi|dad|dan|das|daz|ddi|deé|dni|dot|doz|dít|dül|dőh|dőt|eav|ech|edü|eeg|efo|eik|eit|ekb|ekr|elí|eml|emo|enü|erb|erj|err|ert|ezd|gbó|gel|ger|ghe|gla|gni|gos|goz|gsz|guk|gyn|gys|gáb|gér|gét|hag|hho|hni|hír|höz|ibo|ikn|iko|iku|ilá|inc|ing|iro|iss|iti|itk|itv|izá|je |ji |jon|jte|jto|jus|jék|jót|kaf|kbe|ked|kib|kis|kiz|kko|kne|kok|kre|kus|káh|kás|káé|kés|kív|köd|kűe|la |lag|lal|lbo|le |lee|lef|lgo|lho|lit|ljö|lln|llő|lmá|lne|lny|lvé|lyb|láb|lág|láz|lép|lós|lú |lői|lőm|mas|me |met|mib|mik|mog|mon|mul|mér|més|míg|mód|műk|nab|nag|nal|ndj|ne |nes|ngy|nho|nik|nle|nsá|nsé|nti|nts|ntá|nul|nvo|nyr|nyt|nyé|nyú|nát|nér|nül|nős|oda|ogl|ogn|ogr|oli|oln|onh|ons|ony|oná|oro|osi|oto|otó|ozd|ozi|per|pes|pja|pul|pvi|pés|ral|rbe|red|reg|rel|rhe|ris|rma|rni|rod|rol|roz|rre|rto|rtó|rtő|ruh|ról|rós|rőf|rős|sab|sin|sni|sra|ssa|stá|szm|szs|szé|sá |sév|súl|tak|tba|tec|teg|tho|tit|tja|tmű|tne|tsz|ttm|tám|tév|tür|tőe|től|uhá|uka|ulm|uln|ura|us |uss|veg|vil|vég|vül|yag|yal|yas|yba|yed|yez|yit|yni|yob|yre|yta|yéb|yér|yúj|yül|zda|zdv|zdí|zek|zen|zga|zik|zmé|zog|zre|zsz|zsé|zté|zér|zó |zön|züg|ző |ább|ági|ágr|ája|áné|áró|áss|ásé|áts|áér|éb |égg|égh|égi|ékk|éké|ékű|éln|élú|énn|ép |épv|épé|érh|érn|étf|été|étő|íg |író|íth|ívü|óla|óté|önl|öns|ös |öz |özh|özr|özs|özü|újt|úly|ülé|ülő|üre|ően|őhö|ői |őke|őké|őmo|őss|ősí|őta|űen|űkö|űnc|űnő| as| au| av| e | he| it| lá| mó| na| pá| s | za| zs| át| úg| új| őr|abá|acs|adi|adu|adé|agu|aid|ait|ajr|ake|akj|akl|akí|arb|arn|atn|aut|azs|bec|bev|buj|bál|bán|csü|deg|det|di |did|djé|dmé|dsz|dul|dóa|dőr|eal|ecs|ede|edj|edm|edn|egn|eho|eib|elf|emp|emr|enf|enj|env|ení|esk|esí|eta|etf|eth|ezh|ezt|fes|fia|fok|fon|for|fél|főb|gak|ge |gfő|gha|gja|gjá|gor|gse|gső|gva|gyi|gym|gyr|gyá|gyű|gzé|gás|géb|gús|has|hit|hol|iak|ial|ifé|ige|igé|ilo|isá|isí|ite|itt|itá|jbó|jen|jle|job|jra|jts|jtá|jut|jó |jön|keg|kia|kja|kla|kmá|kna|kod|ksá|kut|kín|kít|lac|lbu|lbó|lea|lev|leé|lfo|lid|lke|lly|lló|los|lte|lvr|lyz|lős|mar|mif|mis|mle|mlí|mod|mor|mot|mre|msá|műz|na |nds|neh|nfe|nit|njo|nlé|nok|nra|nre|ntj|nto|ntő|nva|nve|nyí|nás|nóm|nüg|nő |nők|odj|odn|ogh|ogi|ogs|ogú|okm|okn|oko|oks|ol |omo|onr|onó|orr|osl|otj|otm|ozh|ozz|pne|pok|pon|pár|rad|rbá|rgy|rho|riz|rje|rjé|rne|rno|rrá|rvá|sai|sar|sba|sei|sek|ske|sla|smó|sré|stv|stó|suk|sul|sz |szu|séb|ső |tha|til|tmá|tsa|tse|ttá|tvi|tvé|ták|tál|tóz|tős|ujt|uk |uta|uto|utt|uve|ved|ver|vev|vih|vre|vág|véb|vér|ya |yam|yeg|ymá|yon|yré|ysz|yze|yám|yít|yűl|zad|ze |zgy|zhe|zok|zsa|zsá|zth|zuv|zzo|ábó|ádi|águ|ágy|ály|áms|ámű|áná|árg|árh|ásb|ásm|ásu|áti|átv|ází|égs|égz|ékt|élb|én |énő|épn|éri|érv|ínr|íre|írn|írv|óan|ódn|ódo|óm |ósu|ósí|ózt|ödv|ödé|ön |ört|özg|úgy|újb|úsá|ülh|ülj|őfe|őfo|ők |őre|őri|őse|ősé|űlé|űnü|űzn",
+    id: "an |ang| da|ng | pe|ak | ke| me| se|ata|dan| be| di|kan|ber|hak|per|yan|ran| ya|nga|eng| ha|ara|gan|men|nya|asa|at |ora|tan| at|ala|erh|ya |ap |rha|pen|san| ba| or|as |uk | ma|ntu| un|eti|aan|eba|set|tia|tas|tuk|iap|aka|unt|ika| de|lam|ban|end|mem|ter|am |bas|beb| te|dal|keb|dak|den|ama|eri|ra |ah |nda|pun|sa | sa|ela|di |ebe|ri | ti|ma |ngg|ada|gar|lak|ta |tau| ne|har|neg|ole|al |ana|atu|ida|man|um |un |asi|dil|ers|ert|leh|tid|uka|ari|au |eh |ena|kat|ngs|ser|uat|dap|era|na |tu |aha|emp|gsa|ila|lan|ai |bat|rus|sam|sem|dar|erl|ia |mas|rta|sia|sua|uan|ung|apa|erb|kum|ndi|pat| su|adi|han|ka |nan|nta|aru|kes|nny|rga| hu| in| la|aku|ar |car|ega|ent|ian|in |us |ann|emb|eni|erk|huk|ind|mba|rik|uku|arg|gga|lai|lua|ut |aga|nak|rka|sya|ua |yar|ami|da |dik|dip|dun|ese|ik |lah|lin|mat|mer|min|ndu|pem|rak|rbu|si |emu|ina|mel|ni |uar|das|ema|iba|ili|ing|iny|kel|usi| an| pu|ain|aks|did|enj|ger|idi|il |mua|nja|rat|rma|rse|sar|uru| ja| ta|ant|aya|dir|eca|eka|eme|enu|ewa|ga |ini|ipe|jam|nas|pel|raa|ren|rin|tin| pa| um|aik|aup|elu|eor|kep|kuk|lih|nge|pan|seo|ses|tak|upa|upu|yat| ka| tu|anu|any|asu|bai|erd|erj|esu|ksa|mpu|mum|nus|rja|rli|umu|und| pr|aba|asy|bag|bol|bua|dit|eja|ern|gi |ih |iri|ker|pad|rsa|sec| ad| bo| so|ali|ege|epe|hat|ial|int|ita|jua|kem|kew|mbe|mpa|mpe|rut|saa|sen|uas|uju|uny|ura| ol| ra|art|ben|dia|eke|emi|erm|had|idu|ion|kar|keh|kua|mau|mil|nal|nti|nur|ona|sal|seb|sio|suk|ti |are|ati|bah|dup|ero|gal|gam|hid|imb|osi|pek|pri|rah|sas|sos|tik|tuj|usa|yai| ag| ak|aia|awi|bad|dah|gai|ggu|gka|is |itu|jah|kal|kek|ngh|ngk|nik|rlu|rol|sat|tah|uda|wa |war| as| pi| sy| wa|dib|dis|eku|enc|epa|jaa|jar|kaw|ken|lay|mar|nca|nim|nuh|rda|rti|taa|ten|uma|win| ca| ju| lu|aat|ahw|aja|aki|ani|buk|dam|din|duk|ebu|eli|ere|has|hka|hwa|ibu|iha|ket|ki |kny|li |maj|ngi|ngu|nia|pa |pak|ras|rek|ria|rib|rim|rna|rny|sah|tab|tar|tua|tun|uh |uta|yaa| le| na|aji|aju|amp|ark|awa|bud|but|cap|eda|eha|ehi|erc|eru|eta|gak|ira|jal|jib|ked|kka|lal|nte|orm|pai|pil|rke|rte|seh|sus|waj| it| re| us|agi|akk|akn|and|ank|anp|bed|edu|gad|hen|hir|hor|iah|iki|ikm|ima|imi|isk|ja |kej|kma|kri|la |lit|luk|mai|mak|mia|nka|npa|pah|rad|rla|sek|sil|skr|tel|tur|ul |ur | ap| il| po|ahi|aht|anj|atn|bih|bun|bur|dek|dic|ebi|ehe|ene|eny|erg|esa|gaa|gaj|gat|gej|ggo|gha|gho|got|gup|gur|ha |hte|hub|ilm|ipa|irk|iti|jad|jan|juk|jur|ke |kil|kti|laa|leb|lik|lu |mbu|nar|nis|ola|oli|omp|ota|pol|pro|pul|raw|rca|rde|rku|sej|sif|sny|sti|sud|sun|tam|tek|tim|tis|tny|tol|ubu|uki|ula|ump|uni|wak|wat|wen| al| hi| ia| ib| is| je| mu| ni| nu| wi|aca|aer|af |ahk|akt|aky|alu|amb|apk|bul|cay|daa|dae|day|dud|ead|egi|eko|elo|ete|fat|gec|ggi|gia|hab|hal|iat|ibe|ica|if |ifa|isa|ist|it |jat|jen|jug|kea|keg|kur|kya|lib|lka|lom|lui|mah|mi |mpo|nin|nit|ok |pka|pok|raf|rbe|rsi|rum|sak|sel|sep|tap|tem|tuh|tut|udu|uga|uha|uhk|ui |umb|up |wan|wil|yah|yak| ar| bu| ci| du| ef| fu| ga| gr| ji| li| mo| to| ut| we|abu|ahu|aim|alk|ame|anf|ans|apu|asn|ast|ate|aul|bal|baw|bel|bka|bu |cab|cac|cat|cer|cip|cit|dem|dep|der|dew|dig|diw|dua|efe|ekn|ekt|emo|er |es |etu|ewe|faa|fek|fun|gap|gem|get|gra|gsu|gua|guh|gun|gut|hi |hny|hua|iak|iam|ias|ibk|ici|iga|ike|ime|inn|ipi|ipt|ite|ito|iwa|jab|jas|ji |jik|juj|jut|kaa|kah|kai|kas|kir|kit|kni|koh|kok|kol|kra|kse|ksi|ksu|ktu|ku |lel|ler|lia|lmi|lmu|mew|mok|mor|mpr|mu |mun|nde|ner|nfa|nji|nju|nsi|oal|odu|oh |oko|okr|ori|pap|par|pas|pik|pta|rai|ram|rba|rce|rdi|rge|rhu|ril|rip|rit|rko|rod|rtu|ruh|rup|saj|sew|sik|soa|ste|sum|tal|tet|tib|tif|tub|tum|uak|ub |ud |uhi|uks|ukt|una|usn|wah|was| bi| ek| gu| he| ko| ku| mi| ru| st| up| ur|ad |afs|ahn|aje|akh|arn|atk|aud|bak|bek|bia|bic|buh|cam|can|cua|dag|dau|dih|dij|div|du |ecu|edi|ehk|eho|ekk|en |erp|erw|esi|est|for|fsi|gab|gau|gel|ghi|gin|gis|gre|gu |ham|iag|iai|iaw|ihu|ija|ikn|iks|inf|ir |ire|isi|ive|ivi|jaj|jel|kad|kap|kay|kec|khi|kib|kla|kom|kon|kte|kul|kut|lag|lar|lat|lim|lis|maa|mac|med|mes|mih|mpi|muk|mul|mut|naa|nam|nen|net|nfo|nil|niv|nom|nyu|ogr|okl|omi|ono|ont|org|pay|pet|pia|pid|pin|pra|rag|rbi|rbo|res|rog|rok|ron|rpa|run|rwa|sau|seg|sir|sta|sup|sur|sut|taf|tat|tir|tka|tla|uah|uai|ual|uhn|ukn|uli|ulk|utl|ver|vid|wal|wi |yam|yur",
+    is: "um | og|og |ver| að|að | sk|er |ann|ar |ur | ma|étt|rét|til| ti| þe|il |ða | ve|ing|ir |nn |ra | í | er|ta | hv|ska|inn| vi| fr| ha| me| ré|hve|enn|man|nda| ei| se|na |eða| eð|al |em |sem|tti|kal|nna|num|þjó|ein|ið |jál|jóð|sin| á |ind|men| þj|ndi|an |lag|tin|tt |eim|þei| he|di |ður|and|leg|nar|fél|ga |nnu|éla|da |gi |nga|sam| sa|ags|ess|frj|is |ngu|rjá|áls|ði |þes| en|ern|gu |gum|ns |við| be| ge| st|aðu|ber|eig|lu |nin|nni| al|han|lan|ni |era|rir| má|und|ka |ski| fy| um| þa|afn|fyr|im |kul|með|rík|sku|tur|yri|átt| la| tr|all|erj|ins|lög|mað|má |rnd|ss |sta|tak|tta| ef| rí|rju|rra|ulu| lö|jót|li |rum|óta|óða| at| gr| ja| va|gar|haf|inu|jaf|jum|ki |lli|njó|rði|vin|æði|íki| fé| þá|hei|la |ldu|nu |ri |rin|rið|st | af| nj|dum|egn|erð|eð |ma |ndu|nré|rt |sky|val| re| sí|arr|dar|eng|erk|gan|iga|kil|si |sín|ti |vir|ðfé|óðf|ögu| ko| si| sv| sé| ta|ald|eir|eru|fa |irr|ja |kyl|nnr|ryg|ttu|ygg|yld|ðan|önn|þát| le| mi| þv|afa|dur|eg |els|end|fna|irð|kis|lei|lit|mil|nds|nuð|rei|rn |ru |tar|trú|ví |öll|því| fu| hj| sö|agi|bor|egu|fir|fni|ful|gn |in |ipt|kap|ley|lla|llu|lsi|lum|lát|mei|nis|ref|ræð|ull|un |var|yfi|ðar|ðum| bo| sl| yf|aka|efn|eið|fra|fre|geg|gs |hag|imi|kip|kos|lar|ngi|ntu|run|rða|try|tun|uðu|ðru|ðu |örn| bö| kr| na| ne|af |ame|ang|ans|ari|dva|efs|egl|ers|fer|fi |fsi|glu|gre|gru|iði|kvæ|kyn|ldi|líf|lýs|ndv|ngs|ram|reg|rel|sto|tir|tu |tum|unu|ér |ínu|ðin|ótt|öfu| an| fa| fj| te| öl| öð|akl|alm|bör|ega|eit|eld|fjö|ger|get|ile|ina|jór|jöl|ld |lda|lin|lir|lme|lsk|lsr|lsu|lík|mið|mun|nan|nað|nd |ng |nns|nnt|nst|ori|rna|rúa|san|slí|sræ|stj|sér|tjó|ttl|ðsl|órn|öls|öðr| br| lí| op|ara|arl|au |bei|ds |efl|efu|eik|ert|eys|fan|fla|fur|ggi|gja|gri|hel|igi|ill|ilt|inb|irl|isf|ist|its|iðs|iðu|krö|lst|lt |lur|nbe|ofn|okk|opi|pin|pta|rar|rlý|röf|sko|sle|stö|su |svi|svo|tel|tlá|tof|una|urk|vo |ysi|ðir|ýsi|þau| bá| hú| ky| mö| no| sj| án| ör| þr|ana|apa|ark|atv|auð|ave|bág|dir|eft|eðþ|fri|fti|geð|gna|gsi|gsl|hjú|háð|hæf|ild|ita|jós|jús|ken|kki|kli|kmi|lja|mar|mön|nau|nle|nul|osn|rki|rkm|rkn|rku|rni|rs |rst|sfa|sjá|sla|sni|stu|ts |tvi|ule|uðs|ága|álf|án |æfi|ífs|ðal|ðþó|úar|úsk|ýtu|það|þeg|þá |þót| in| li| un| up|ale|amt|arf|ask|ath|dóm|eri|erl|far|fnr|fsk|fu |för|gil|hef|hen|hjá|höf|ign|iki|iln|ils|iða|jón|kin|kja|kum|lau|lgi|lis|ljó|lni|ls |min|mst|mál|naf|ngr|nir|nþá|ort|osk|oða|pa |rf |rke|rle|ros|ráð|rð |sa |sak|sis|skj|smu|ssa|sum|syn|sé |sök|tan|upp|vel|væm|væð|ynd|ynl|ynþ|áli|ætt|ðna|ðsy|óli|óms|ónu|ök |þar|þro| dó| ek| fe| ga| gæ| há| hæ| i | lj| lá| lý| né| of| pe| ví| óh|afi|akm|ala|ali|ama|amf|aml|ap |ars|ará|ast|aus|aði|aðr|brý|bun|bur|du |ekk|elg|elj|ell|ema|eti|etu|fum|fun|fð |gin|gsm|gt |gæð|hjó|hún|ika|ilg|ilj|iss|itt|ju |kmö|kna|kon|ku |kun|ldr|lfs|lge|llr|lp |lsa|mfö|mis|mle|mu |mör|nem|nok|nun|né |onu|ost|par|per|rre|rsó|rýt|sar|shj|ssi|stæ|stó|sve|són|sön|tis|tri|tól|tök|uð |vei|vil|vip|vís|yni|álp|átu|æma|æða|æðr|æðs|íkj|íns|ísi|ðil|ðla|ðra|ðri|ðst|ós |ögs|öku|öld|örf|örk|öru|ún |þri| bi| bu| bæ| fþ| hl| hn| hu| hé| hö| æð| ós|aft|aha|amk|amæ|arð|atr|aða|aðs|boð|bæð|dam|din|dre|emu|ett|eðl|fil|flo|fn |fræ|fs |fþr|ggj|gsþ|hal|her|hug|hvo|hér|ini|ipu|irs|irv|iðl|jar|kku|knu|koð|kra|kt |kur|las|lok|lsv|lub|mi |mik|mkv|mta|mur|mær|nef|nhe|nng|nnh|nur|nus|pp |pti|pul|rem|rré|rrí|rsk|rvi|rál|ræl|rðu|rú |sir|sið|slu|ste|sti|svæ|sók|sþe|tal|tef|thæ|tæt|tím|töð|ubu|ula|usa|ust|vor|völ|áta|áða|áði|áðu|æra|æta|æðn|íkr|íkt|íma|ðas|ðer|ðis|ðli|óhá|ókn|ósk|óðe|ör |öry|öðu|þan|þræ| ba| bú| bý| dv| dæ| el| fo| fá| fú| hi| ho| ið| já| ka| kj| kl| kö| læ| mæ| nú| ra| ri| rá| sá| sæ| tí| vö| áf| ár| át| ók| óp| ön| úr| þi| þy| þæ| þó| þö|aba|afb|afk|afr|ag |agk|agn|agr|agð|ahö|akb|aki|ami|amr|amv|amþ|anv|arb|arm|arn|art|aré|atf|atk|atu|aðg|aðn|ban|bar|bin|bra|bro|búi|být|dah|dan|dav|dis|dið|dle|dnu|dra|dsl|dsv|dvö|dæm|ef |egr|ei |eil|eka|elf|en |ent|epp|err|eyf|eyn|eyp|eyð|eðf|fas|fbr|fel|fko|fnf|fng|fnu|for|fru|fst|fsó|ftu|fái|föl|fús|gag|gfu|ggt|gis|gið|gkv|gni|gnv|gsh|gss|gst|gsv|gsó|gsö|gun|gve|gða|hin|hlu|hne|hon|hva|hát|höl|hús|ifa|ily|ima|ink|inl|iná|irn|irt|ish|isr|it |itv|ití|ive|izk|izt|iðg|iðh|iðn|ióð|jal|ji |já |ját|jör|kan|kbo|ker|key|kju|kjó|kjö|kka|kla|klæ|kni|kná|kom|kor|kot|kre|krá|kír|kól|kör|len|lfe|lfr|lji|ll |lln|lls|llt|llí|lnæ|lra|lri|ltr|lut|lyn|lyr|læk|læð|lín|líð|lýð|mal|mat|mbu|mme|mrá|mt |mtö|mvi|myn|mæð|mþy|nab|nah|nal|ndl|ndn|nep|ney|nfr|nil|nka|nlí|not|nræ|nsi|nsk|nsl|nsæ|nuþ|nva|nvi|nz |nám|nát|næf|næg|næð|nú |ofb|ofs|omu|ona|ore|ork|orn|orð|ot |ota|oti|oð |pis|ppa|pól|rag|rat|rbr|rfl|rfu|rgj|rit|rk |rkv|rla|rli|rlu|rly|rlí|rmu|rnu|ror|rot|rsa|rti|rá |ræt|róð|sek|set|siv|sk |skr|skí|skó|sli|slö|snæ|sré|ssk|sst|sté|sá |sæm|sæt|sót|sög|söm|tav|tfe|tið|tkv|tlæ|tni|toð|tve|tét|tís|tör|uli|umb|ume|umi|umm|ung|unz|urg|uri|urt|urð|usk|uþr|van|veg|vit|viz|væn|vör|yfð|ykk|yng|ypi|yrð|yða|zku|zlu|zt |áfö|águ|ái |ám |áti|átn|æfn|ægj|ækn|æla|æm |æmi|æmt|ænu|ær |æti|érs|ífi|íni|írs|ísk|íða|ðag|ðfe|ðfr|ðge|ðgæ|ðha|ðhö|ðnj|ðsa|óke|óla|óna|ónæ|ópó|ósa|óðr|óðu|öfð|ögf|ögv|ömu|örl|öro|úa |úið|úr |úsn|úsu|ýst|ýðf|þió|þyk|þyn|þág|þær|þó |þör| au| dr| fl| fó| fö| gi| gl| gu| gö| ke| kv| kú| mu| or| py| sp| tu| tó| tú| ák| æt| óm| ót| út|afl|afs|aga|alí|alþ|ams|amá|anf|app|arh|arv|arþ|asa|asv|atb|auk|aun|ayf|aðh|bel|bes|bet|bir|bre|bré|bró|bön|day|ddi|diz|dræ|dsi|egi|egt|eif|eki|elu|erz|erö|esk|est|etr|eyt|fal|fbe|fbo|fgi|fle|fnb|fns|fnt|fsa|ft |fær|fó |fól|gav|gel|ggð|gih|glæ|gmy|gns|grí|gsa|gur|guð|gæd|gæz|gð |göf|hli|hlj|hný|hví|hæt|iha|iku|ila|ilb|ili|ilv|imm|inh|irk|irm|itn|iðr|iþj|jan|kaf|kam|kar|kas|kir|kke|kkr|kn |kru|kuð|kve|kúg|lah|lav|lbe|ldó|liz|liþ|lka|llv|lof|lsh|lun|lve|lvæ|læg|læp|læt|lít|lþj|meg|mmi|mræ|msk|nbo|nes|nfe|nfæ|nge|nhv|nky|nmá|nnd|nnk|nnl|nno|nor|nri|nsa|nsó|nt |nut|nýs|of |orl|oði|pel|pil|pko|ppe|ppk|ppr|pru|psa|ptu|pyn|ran|ras|rey|rhá|rif|rim|rja|rka|rlo|rmy|rnm|rnn|rns|rtu|rvö|rzl|rás|ræg|ræm|ræþ|réf|ríp|rís|rðh|röl|rúf|rþi|rþr|saf|sas|sfr|she|ske|spi|ssu|str|sþj|tað|tbe|tdr|tek|ter|tha|thv|tne|træ|tsm|tte|tuð|tæð|tóm|túl|uga|ugm|ugs|ukn|umr|url|urs|ut |utd|utí|uðl|vaf|vak|væg|víl|ynf|yns|yta|áka|ál |ála|árá|áró|ásu|áð |áðs|ædd|æga|ægt|ægu|æld|æps|æri|æzl|æðu|æþi|éf |íf |ík |íku|íld|ína|ípa|ísa|íti|ðdi|ðið|ðré|ðs |ðsþ|ðun|ðus|óhl|ólg|ólu|óm |óma|óðd|óði|öfg|öfó|örþ|úfr|úgu|úlk|útl|ýsa|þet|þi |þin",
+    it: " di|to | de| in|la |ion|re |di | e |zio|ne |le |ni |rit|ess|itt|lla|dir|one|iri|ell|ent| al|del| co|tto|ti |ere| pr|te |tà |ndi|ind|azi|gni|men|uo |con| es| ha|idu|ivi|ogn| og|ale|div|duo|nte|vid|all|per| un|no |ser|li |pro|za | ne| pe| su|ato|sse| li|ha | la|ia |tti| so| il|il |na |ibe|ber|lib|nto|nza|ali|in |ta | ri|so |oni| qu|che|gli|ri | a | o |el |ond| po|ame|he |ssi|are|pri|ro |sta|un |ver| pa|ers|ua |una| si|nel|anz|era|io |ità|ual| ad| da| l | re|ant|ert|gua|ist|lle|naz|rtà|soc|tat| ch| ed| le| st|ei |ita|si |sua|al |dei|ed |er |on |rio|ter|ari|com|enz|eri|nit|res|sia| se|ad |cia|dis|ett|nal|oci|ona|tut|der|ll |ono|par|rso|tri|uzi| na| tu|dev|ese|ien|nda|tra|uni| eg|man|opr|pre|qua|rop| ma|att|eve|ico|nes|nti|que|ra |sci|son|str|tta|ve | fo| i |art|ati|do |est|fon|ial|ont|rat|se |sso|ste|utt| no|ann|cie|egu|int|nta|raz|rà |sen|sti|sun|uma|zza| cu| is| me| um|ica|ina|lit|nno|non|ost|pos|ria|ssa| ra| sc|dal|izi|lia|ore|ori|rim|ruz|sa |ssu|tan|tru| as| fa|alt|ani|ass|bil|dic|ern|età|ezz|gio|ich|ime|ini|ltr|mat|omu|otr|pie|pot|tal|ten|trà| mo|ami|ara|ca |cit|cos|da |ene|han|igl|nio|ntr|ran|rea|spe|taz|tor|ues| ai| at| pu| ve| è |ai |ata|cur|dam|din|iar|iet|isp|ite|lta|oro|ove|ral|rar|ric|sar|tro|ura|vit| ar| ci| go| im|abi|aes|avo|chi|eno|esi|ezi|hia|ici|ide|imi|imp|iva|lic|mig|mun|ndo|opo|ote|pae|pen|pet|ret|rie|rot|tic|ui |uto|vol|vor| pi| vo|bbl|bli|ces|egl|end|erc|fam|fic|gen|giu|ire|lig|lim|lo |mon|nsi|oli|osc|ris|rti| ca| fi| gi| vi|ate|ave|bit|co |eli|ens|ie |igi|imo|inc|ito|lav|lor|min|nan|nde|ner|ons|ort|pol|ppo|riv|rte|sid|sto|suo|tar|tez|tte|upp|ure| ge| te|adi|alm|asi|atr|cip|cui|den|eat|fin|for|icu|ile|ior|iso|leg|lme|nci|olt|ome|ora|oss|por|pub|rel|ren|rig|rna|sec|sic|sio|tad|tur|ubb|uri|vat|zi |zia| ac| do| lo| or| sv|acc|ace|alc|app|arb|ard|cas|ccu|ci |cun|deg|eci|eco|ena|evo|fes|fra|gge|god|igu|ili|ine|isc|iti|lcu|me |nat|nos|nzi|olo|omp|ott|po |sal|sce|sol|sot|tam|uar|une|van| av| ba| be| el| fr| gl| op| sa| sp| ta|agi|als|ana|aso|atu|ben|cat|cel|cen|cim|clu|ddi|dig|diz|eal|ece|egg|ele|elt|ero|ffe|ge |gre|ian|ias|ibi|ifi|ign|ilu|isf|iss|itr|ive|ivo|izz|llo|lon|lsi|lup|mit|ncl|nec|ntà|nze|oce|odd|ode|oi |ola|pi |rag|rav|rbi|rib|rno|roc|rta|sfa|sis|sod|svi|tec|tir|top|ttr|uel|uoi|vil|ze |zzi| au| en| eq| ga| gr| tr| uo|ano|aut|azz|car|cer|col|cri|dif|dov|edo|egr|emb|eme|enu|equ|erv|gar|gra|iam|ibu|idi|ier|ife|inf|ius|lus|mez|mis|mor|mpi|muo|niv|nor|nun|ole|omi|onc|orm|pac|pop|rca|rci|rdi|rdo|rez|rom|rsa|rvi|scr|seg|sib|siv|tes|tui|ult|uno|uom|uov|uso|ust|ute|val|vo | ab| am| cr| ef| fu| lu|agl|asc|cce|ce |ced|ciz|cla|cul|cup|dan|dar|dip|dit|don|dur|eff|egn|eni|esa|fac|far|fer|fet|go |gov|iat|iaz|ieg|ino|inv|ipa|ipe|ipi|itu|iur|lar|las|lat|lem|lez|ma |mbr|mem|mes|mic|mo |mom|nse|occ|ogr|omm|omo|onf|ope|orz|ova|paz|ram|rap|rin|rir|rog|rse|sin|spr|suf|sup|tel|tia|tie|tif|tit|tre|tua|uag|uan|uat|uff|ull|upa|upe|vot| ap| ce| mi| nu| né| to| ug|ada|aff|alo|amb|arà|ase|avi|bas|bia|bri|cch|cor|cre|cus|dat|ede|edi|edu|ela|erp|esp|ete|etr|ffo|gna|gru|iav|ice|iod|ira|itù|iun|les|liz|lti|ltu|lui|mbi|med|mmi|mpa|mpe|mpo|mpr|nam|nfo|nna|nsa|nso|né |odi|onn|opi|ord|osi|ota|pin|pli|ppr|può|red|rid|rma|rme|rri|rsi|rup|sab|sch|sil|spo|sul|tab|tet|tiv|tù |ugu|uis|uit|unc|usa|uta|uò |ven|vi |von|zat|zaz|zo | az| cl| du| et| fe| id| mu| ob| od| om| os| sf| ti|abb|aca|aci|ade|agg|aia|ala|alu|ama|ar |ars|ast|avu|bam|bar|bbi|bin|bun|buz|cab|ché|cif|cio|cir|cle|cni|coo|cra|cuz|dac|de |dem|det|duc|duz|ecc|ecn|ecu|efi|ega|egh|ego|emo|eo |erd|erf|erm|err|esu|eto|etu|fan|fav|ffi|ffr|fig|fli|fuo|fut|gal|gan|gat|ggi|ghi|gi |gnu|hi |hé |iai|iga|ige|ilo|ima|imu|inn|ins|inz|iog|iol|ios|irc|irv|iug|lam|len|leo|ler|let|lid|lin|lio|lli|lpe|lut|mal|mer|mme|moc|mov|mut|nar|nas|nch|nef|nfa|nfi|nfl|nic|nim|niu|niz|nne|noc|nom|nuc|nut|nva|nvo|obb|oca|ocl|ocr|od |odu|ofe|ogl|oll|olp|oop|org|orn|orr|ors|osa|oto|ovi|pec|peg|pev|pir|ppi|ppl|qui|raf|ras|rco|rda|rfe|rga|riu|riz|rni|rod|rof|rov|rpe|rre|rva|rza|rzi|sat|sco|sfo|sig|sog|spi|sue|sus|teg|tim|tin|tis|tol|ttu|ucl|ude|ue |ugi|uiv|unt|uor|uss|utu|vec|ved|ves|vim|vio|viz|voc|vut|zam|zie|zzo| ag| bi| ec| ev| of| on| ud| ul| va| vu|ago|amm|aro|arr|arz|asa|asp|ava|avv|bel|bis|ble|bro|bui|cam|caz|cev|cez|cis|ciu|ciò|cru|dav|dea|dec|dee|dia|die|dot|ea |ee |eng|epu|eta|evi|fed|fen|fid|fro|ga |ger|get|gin|gir|gno|gui|hev|hez|iaf|icc|iff|ing|inu|ipo|irn|isd|isu|iut|iò |iù |lan|lea|lie|lto|lud|luo|mag|mas|maz|mbl|mir|mol|mpl|nab|nce|nei|nev|nga|nge|ngu|nia|nif|nis|nni|nol|nul|num|oda|off|ogg|ogo|oib|opp|or |oso|ovr|più|pon|ppa|pra|pun|put|rad|rba|rep|rer|rip|rmi|rne|roi|rol|ron|rpr|rto|rtu|rud|rzo|san|sdi|sem|ses|sie|sim|siz|sor|sov|sur|sva|tem|tiz|ton|tuz|uca|uci|udi|uir|ung|uog|uol|uti|va |vag|vra|vuo|vve",
+    lt: "as | ir|ir |eis|tei| te|ti |uri|os |iek|us |is | pa|ai |tur|vie| ki| tu|ri | vi|ien|žmo| žm|ės |ali|ių |mog|ais|ini|isę|sę |vis| la|ena|kie|ekv|kvi|lai| bū| į | ka| ne| su|gus|nas| pr|mą |ogu|būt| jo| ta|mas|ant|mo |pri|tin|isv| ti| sa|isi|ūti|ama|kai|sav| ar|aci|val|rin|cij|gal|imo|imą|inė| ap|dar|oki| na| nu|men|ar |jo |oti|tai|ina|kur|lyg|ms |nim|sta| ku| mo| va|aus|li |arb|asi|je |jos|ntu|nės|tas|tuo|ima|mis|mok|sin|tie|tik|tų | at|aut|isu|išk|suo|vo |ybė|aik|eik|iam|ijo|jų |ma |rie| ga| ly|ara|lin|sty| re| įs|ad |jim|kad|kit|tyb| be| iš|din|ega|ek |mos|neg|nių|als|aud|aug|avo|es |gyv|nti|pag|tar|uot| da|isė|kal|kia|kim|mų |pas|rei|san|sau|si |tis|ven|yve|įst| or| ši|agr|aip|alt|avi|int|ip |ksl|tat|tim| sk| ve|am |ati|aty|eny|ieš|ika|iki|ink|io |ios|ito|nac|oje|ome|omi|ran|sva|tu |usi|uti|vai|šal|ška| ji| ša|gau|lst|nam|nt |ymo| as|ava|dam|ia |iai|kin|kla|nuo|oga|oja|tau|ter|tym|uok|uom|ver|ygi|yra|yti| gy| ni| vy|amo|ams|anč|aps|ary|cia|eka|eno|gar|gri|ing|jam|ją |kio|lie|lti|mon|ndi|nie|nki|nči|oci|oks|pat|psa|sla|soc|tą |udo|vę | me| to| yr|bės|enė|gas|gą |ies|iko|imų|ind|ipa|kių|min|nau|nyb|oma|paž|ra |vei|yst| ge|arp|ats|bo |dra|end|eni|ial|ijų|ikl|irt|ist|nus|nė |rbo|se |sie|svė|svę|ta |tok|tos|uo |vim|vės|ėji|ėmi| ba| bu| de| ja| pe| są|are|eig|eki|eli|ger|ita|jok|kan|kas|lig|mai|nėj|nę |oji|per|pra|rau|rga|sik|sir|su | ko| so| st|apr|asm|ei |eim|elg|gan|gia|ie |iks|inę|ioj|iso|jis|kam|kir|kom|kos|mu |mus|org|pad|par|pta|ria|rim|rti|rtu|ski|sme|suk|suv|sės|tsi|tum|tyt|uda|ugą|vyk|ybę|ytų|ėje|ada|aly|amą|ani|ba |be |bia|boj|bė |bę |dot|dži|ekl|eri|etu|gij|iau|iem|igi|imi|inį|iri|ise|iti|iza|kti|lau|lą |nes|nis|niz|nyt|nį |oda|oru|ras|rel|rik|rum|rym|sto|stė|sud|to |tūr|tųj|uos|uvi|ybi|zac|čių|ėl |ėms|ėti|ūri|ūtų|ųjų| dė| gi| in| pi| še|ben|dėl|emo|ent|ert|esa|gda|ian|iet|ija|iją|ią |ižv|ja |jan|lgd|liš|nda|nia|oni|onė|pak|pro|rat|rba|rbi|rio|sis|sit|siš|sių|siž|sėm|umo|vav|vel|ykd|ymu|čia|įsi|šei|žin|žve| di| dr| li| no| už|ald|at |ate|aži|bei|bus|bą |dal|dek|enk|ere|esi|gin|goj|grį|ibo|ik |imt|imu|ine|iu |ius|ka |kra|kri|kėj|lar|las|lav|lia|lyv|met|mta|nai|nal|nep|nga|ngu|nin|nka|nor|nėm|oka|oko|ors|ota|pil|rac|rad|rem|rib|rip|ris|rs |ses|som|svi|tam|ten|už |var|vau|yva|čio|šio|šta|žia| gr| ra| si| tv| įg|aga|al |ang|apt|ark|art|asa|buv|dom|dyt|emi|ems|epr|era|erb|ers|ešt|gim|glo|iav|ikė|ili|iš |išr|jas|joj|kar|kat|kdy|kil|kok|ksm|kym|kūr|lob|me |mot|ndr|no |nos|ori|ose|osi|otų|pam|pač|rai|ral|res|rpt|sio|ska|ste|sti|stą|sus|sąl|sė |sų |tor|tus|tva|ugo|uma|umą|uoj|uto|utų|uvo|vin|vyb|ymą|yta|ąly|įgy| au| gė| ju| jų| kū| ma| ri|adi|aka|alį|and|api|arn|aso|atl|atv|atū|au |auj|auk|ave|avy|aža|bal|bau|bin|bių|bėj|cio|cip|da |dan|das|dis|dėt|eda|ein|eiš|elb|ero|esn|ety|ešo|fes|gos|gėr|iac|iei|iga|igo|ikr|iky|inc|ino|ion|isk|ism|ite|ji |jie|jog|kel|ko |ktu|ką |kšt|lam|lit|lsa|ltu|lys|lį |mat|nar|nat|nci|ned|net|ngo|nio|niu|nkt|nod|nte|nut|ofe|og |oky|ol |omą|ona|osa|rbą|riv|rof|ros|rov|rp |rse|ryt|rą |rėt|rįs|sek|ske|skr|sos|sut|tir|tom|tot|tė |tės|tį |uja|umu|urt|urė|uso|ute|vių|vys|vėm|ąją|ėtų|ši |ški|ško|ūro|žan|žiu| br| gl| ie| kr| po| sl| yp| įv|adė|ake|ala|alė|ame|ank|apm|ari|aro|asė|ač |ači|būd|dik|dos|eko|ene|er |erg|ete|eša|ešk|gai|gom|gru|gti|gyb|ias|ikt|iln|iod|ira|isų|itu|iva|jai|juo|kei|kle|klą|kot|kul|kyb|kę |kų |lap|lbt|lda|lis|ltū|mi |mia|mė |mės|nag|neb|nek|nel|nem|ngą|nto|obo|odi|oli|omo|ote|pin|pmo|prū|ren|rij|rit|rių|rka|rom|rta|ruk|rup|rys|rūp|sam|slą|smu|sup|sąž|tan|tek|tel|tru|udž|uki|uku|ukū|ult|upr|ur |ust|va |vas|vid|vyr|yga|ygy|yma|ypa|ys |ąži|įvy|šią|šre|ūdi|ūpi|ūrą|žio| am| du| dv| eg| ei| el| es| id| im| it| je| ją| lą| lė| ry| se| sv| tr| tą| tė| ug| šk|abi|abu|agy|ait|akt|alo|alv|amy|amž|ana|apl|ask|ast|ata|atu|atą|aul|avą|ašl|aže|ažį|bar|bim|bos|bra|bsč|buž|bėm|bęs|būs|ced|chn|cin|dai|dau|dem|der|dic|did|die|diš|dod|doj|du |dum|duo|dva|dym|dės|dūr|ebu|ebė|ech|edi|edū|egl|egz|eji|eju|ekt|ekę|elė|emt|en |enu|ery|erč|est|esų|etą|eve|eči|eš |eži|for|ga |gdy|geb|gi |gią|gių|gu |gum|guo|gyn|gys|gzi|gį |gūs|gų |hni|ici|ida|ide|idu|idė|idž|ieg|iej|ieč|iež|igt|igu|ikš|ikų|ild|ime|imę|in |inv|iny|iną|iog|iom|irm|itų|ium|iuo|išd|iši|išs|išt|išv|iūr|jau|jei|ju |jun|kdo|kes|kiu|kiš|kli|kmė|koj|kol|kon|kys|kės|kūd|lab|ldo|ldž|les|lgi|lid|liu|lno|lo |lom|ląs|lė |lės|lėš|med|mom|mor|mou|mti|mui|myb|mąj|mę |mži|nan|nav|naš|ndo|ne |nei|nev|nij|nke|nky|noj|nom|not|nty|ntį|nu |num|nva|nys|ną |obs|oce|ogi|ojo|okr|oką|okė|oms|ora|orm|ost|ous|ovu|ovė|ovę|pan|pap|pei|pim|pio|pir|pių|pli|pol|rab|rag|ram|raš|rgi|riu|rko|rme|rna|rny|roc|rpi|rst|rtą|rtė|rtį|ryb|ryš|rči|rės|rįž|rų |sa |sen|sip|sli|slo|sma|smi|smė|smų|snė|sok|spa|stę|sug|sun|sve|svą|syt|sąj|sči|tav|tec|tij|tli|tly|toj|tol|tov|tra|tst|tve|tvė|tyk|tėt|tėv|tę |udi|uga|ugd|uge|ugy|ui |ukl|ukm|ukš|um |umų|ung|unk|uod|upi|usa|use|usm|usy|utr|uty|uži|važ|vej|vit|vus|vą |vąj|ybe|ybo|ybą|ygo|ygį|ygū|ygų|yki|ykt|yny|yse|yto|yši|zis|ąju|ąst|ėja|ėry|ėrė|ėsi|ėst|ėva|ėšo|ęs |įsk|įžt|šai|šdė|šia|šim|šiu|šką|šly|šo |šom|šos|šri|šsa|što|štu|šva|ūdu|ūra|ūs |ūst|žei|žiū|žių|žti|žįs| ai| ak| by| ek| fo| ig| kė| mi| o | od| sp| vė| įt| šv| že| ži| žo|aim|aiš|alb|alą|amb|ami|amų|ape|arė|atg|ato|atž|aur|aši|ašt|bai|beš|bje|blė|bot|bro|bta|bti|bto|bu |but|byl|dea|des|di |do |dą |dėj|eal|eat|ebū|eid|eky|ela|elk|emd|eng|ens|enų|epa|erų|esp|esv|eta|eti|ešp|ežm|gen|gio|giu|giš|go |got|gtų|idi|igy|ikc|ikm|iku|ikį|ilg|ilm|ils|ims|imy|imė|inf|iro|iry|isd|isy|iud|iui|ive|ivi|išl|išn|jek|jur|kci|kią|km |krą|kta|ktū|kuo|kus|kyt|kė |kį |lat|lba|lbi|ldi|lei|lgt|lik|lim|lio|lkę|lmė|lni|lsį|lva|lvo|lyj|lyt|lėj|lėt|mac|mal|mam|man|mbl|mda|mim|moj|mpe|mst|myn|mąs|mėj|nea|ner|než|nfo|ngi|ngt|nit|niš|ns |nst|nta|nėt|nų |odo|odž|oil|oj |ola|omp|ono|ons|pai|pal|pau|pet|pik|poi|pre|ptu|rak|rbu|rbę|rdo|rek|reš|riš|rma|rmų|rol|ron|rot|ryž|rėd|sdi|sia|sid|siv|sią|skl|sku|sne|snę|so |str|stu|stū|sub|sui|sym|sį |tet|tga|tit|tog|tre|tuc|tut|tvi|tūm|tųs|tžv|ubj|uci|udą|ugi|uim|uis|ukt|uli|uly|uol|upe|urd|urs|usu|uve|vam|vač|vi |vil|vir|voj|vėl|yba|yje|ylą|yni|yrų|yvy|yžu|ąsi|čiu|ėda|ėjo|įtv|šin|šis|šių|šku|škė|škų|šla|šna|špa|šte|štr|švi|ūmė|ųsi|žem|žod|žus|žvi",
+    lv: "as |ība|ies|tie| un|un |bas| ti|ai |esī|ien|sīb| ir|ir |vie| vi|bu |iem|em |ību|am | va| ne| pa|pie| sa| uz|šan| pi| iz| ka|ās | ci|ena|vai| ar|ar |uz |brī|dzī|nam| br|rīv|es | ik|ikv|kvi| at|cij|isk|inā|viņ| ap| no|āci|edr|dar|ot |pār| pr|drī|vis| la|nu | ie| jā|gu |tīb|arb|bai|ju |īgu| st|ana|ied|iņa|vīb|ija|iju|jas|īdz|als|līd|umu|val|ībā|īvī|aiz|ba |kas|kā |lst|mu |ska|stā|zīb|ām | da|ama|cil|ilv|lvē|nīg|īgi| tā|cie|līt|st | ai| ta|arī|iec|kum|izs|jum|ka |līb|sav|vēk|ņa | so|anu|gi |mat|nīb|pil|stī|tu |aut|bie|not|son|bā |cit|kst|ned|nāc|nāt|pam|rdz|rīk|sta|vēr|īks| dz| kā|abi|ajā|aul|enā|glī|izg|jot|kat|mie|nas|rīb|zgl| be| lī| pe|ais|bez|būt|evi|lau|nev|ojo|per|ras|sar|tik|ulī|zsa|ītī| li|ant|ard|atr|ciā|ier|ieš|kur|nod|oci|roš|sab|soc|tot|āda| pā| re|cīb|eci|enī|iet|iev|ikt|jāb|kād|os |oši|ta |tau|tis|tra|ts |umi|āt | je| ku|dro|ebk|ers|iku|isp|iāl|jeb|kt |lik|ma |mēr|oša|pre|ret|rso|sas|skā|spā|tā |vu |zma|āti|ēro|īga|īša|ūt | na| ve|aji|arp|atv|ekl|eno|esp|jai|jie|klā|man|na |onī|pat|paš|ram|rba|rie|tai|tar|tas|tās|tīt|vēl|zīv|ābū|āku|āša|īst| ga|alī|att|aud|du |eja|est|et |evē|iln|ils|izm|jā |kaj|men|nto|nāl|odr|rēj|rī |ter|ti |to |tur|tāt|uma|ālo|ārē|ēka|ēt |ēša|šam|šin|šu |adī|aps|das|ecī|ene|eri|ion|kri|lab|lo |lso|pri|pro|res|sie|tād|vi |zda|zvē|ēja|īti|īvi| de| di| mā| mē| nā| ģi|apv|atk|eli|epi|eša|gad|ime|iti|iģi|ja |ku |lai|lie|liģ|lnī|mai|nai|nea|nep|nes|nie|no |onā|par|pas|rel|rkā|roj|ru |rķi|sod|spē|sts|tāk|uru|zīg|ālā|ārk|ērķ|ģim| ba| or| ra|aci|ani|arā|atb|ašu|bij|bkā|bīb|cio|da |dal|dis|eik|enu|ez |gan|ika|imi|isi|isn|ito|itā|izā|jam|kai|kar|kla|kās|lit|lās|min|ms |mā |mīb|nac|niz|nād|nāš|org|oti|oto|pvi|rbu|rbī|rga|rim|rin|rtī|snī|sti|tam|tva|tīs|umā|us |vaļ|zti|ztu|zāc|ādi|ādu|ēlē|īju|īs |ņā |šaj| gr| in| ko| sp| šī|ain|anā|ara|ata|ava|avu|aļī|bež|bām|dek|die|dzi|dīj|eat|enl|esā|gum|iek|ina|izv|jām|jās|kāp|lar|lēt|nis|nlī|obe|oju|pēj|rob|rā |rāc|sap|tei|ten|toš|var|ves|ārl|ēju|ģij|īt |īta|īvu|ļīg|ņem| bi| ma| mi| zi| īp| īs| ša|aja|amī|avā|bil|bpā|din|dze|dām|eda|eej|ekm|ekt|ekļ|eni|ero|ezd|ešu|ežo|gri|iee|ijā|jāp|kam|kmē|kļa|kļi|lāt|mē |nek|nā |nās|oce|odā|pak|pra|pst|pta|rpt|rāl|rīg|sek|slu|ste|sto|tka|ttī|tāv|urā|urē|uti|uzt|uša|vā |zek|zim|zsk|ācī|ākļ|āpa|āta|ībp|īpa|ļie|ņam|šo |šīs| as| au| me| sl| te| vē| šo|aik|ait|ald|atz|atņ|bku|cin|cīg|dra|dēj|dīt|egu|ekā|emt|ere|erā|ga |ie |ieg|ieņ|inī|isa|ist|izp|izt|iņi|kie|kop|kļu|laj|li |mt |mus|ni |noz|nti|odi|rai|rau|rli|rāt|sa |sai|sko|skr|tbi|tor|tru|tzī|tīg|tņe|utā|vei|ver|zin|ziņ|ādā|āla|ārv|ēku|ēm |ērt|īve|ķir|ņu |ši |šķi|žoj| bē| bū| ce| dr| dē| kr| mo| po| se| si|abk|abu|akļ|alp|apm|apr|ask|aso|asā|ats|atī|av |aņā|ašc|bal|bau|bin|bkl|bēr|ces|cip|di |dib|dzt|dzv|dēļ|emē|esa|etr|eva|eši|gar|gie|gre|iba|ibi|icī|ikā|ild|inc|int|ipi|is |izd|izk|izr|iāc|iņu|jau|juš|jāš|jīb|kal|kaņ|kli|ks |ksl|kti|lpo|lud|lāj|lēš|līg|mi |mor|māc|māk|mās|nav|nci|nte|nāj|nāk|nīš|ogr|oli|onu|orā|ota|ote|ozi|pal|pol|pum|ra |reš|rib|ris|rni|roc|rog|run|rād|rēt|rēš|si |ski|sma|soš|spi|su |sā |sāk|tos|tēm|tī |tūr|udi|udē|ums|unā|vaj|vas|zie|zkl|zīš|ājo|ājī|āks|āpu|āse|ātn|ātu|ēks|ērn|ēļ |īva|ķie|ļau|ļu |ņie|šci|šie|šum|ūdz|ūra| ob| pē| to| tu| vī|aks|ali|amā|api|apz|apņ|asl|asī|ati|atu|aug|auk|bli|cen|dai|der|dā |dīg|dīš|ede|ei |eko|emo|ent|era|esi|esk|etu|eņa|gai|gas|gru|gst|gāt|ici|iej|im |imu|iod|ird|isā|ita|itu|iņā|jo |jāi|klē|ko |kos|krā|ktē|ktī|kul|kār|kša|les|lim|ltū|lā |mak|mek|mos|muš|neb|nei|nos|noš|nst|nīt|odu|ona|ori|pek|prā|psū|pzi|pēc|pēk|rad|ran|rij|rio|rit|rot|rp |rs |rup|rva|rās|sev|sli|spe|str|sām|sāt|sūd|taj|tat|tbr|tij|tkl|tne|tni|tti|tām|tāp|tēš|tīv|udz|ugs|ult|umo|ut |uta|uzs|va |vē |vēc|vīr|zem|āiz|āja|āju|ārt|ātā|ātē|āvī|ēc |ējo|ējā|īme|īri|ītā|īvē|ūtu| ab| al| ef| es| lo| sm| za| ze| ār| šķ|abv|ad |ada|adu|agā|aid|aka|alg|amo|ams|amē|ano|apd|apk|apu|apģ|aro|asa|asi|asu|at |ate|atg|atl|atn|atš|auj|auž|az |aša|bar|bis|bum|bva|bvē|būs|ced|cek|cel|cum|cēt|cīn|dab|dbi|dem|dic|dot|dri|duš|dzē|dāj|dē |dī |dīb|dūr|eai|ebi|ecu|edi|edz|edū|efa|efe|ehn|eic|eid|ek |ekr|ekš|elī|er |erd|erm|erē|ese|eso|esu|esv|eto|etē|etī|ev |ezm|ezt|fal|fek|fes|fic|for|gaj|gta|gāk|gās|hni|icē|ida|iel|iez|ifi|igā|imī|inf|ipr|iro|irī|ism|isu|ite|itn|itū|iņš|iša|jok|još|jān|kad|ki |kon|ksa|kāk|kšā|las|ldi|ldē|ldī|lgu|lig|lng|lno|loc|lsi|lu |lču|lēg|līm|mag|maz|med|mes|mo |mok|māj|māt|mēt|mīl|mša|nal|ne |nec|nef|nfo|nga|obl|oda|odb|ofe|okl|okr|okļ|opī|orm|ors|ošu|pap|pau|pdr|pka|pmi|pni|poj|poš|pt |pul|pā |pām|pģē|pīg|pņē|raj|raš|rbi|riā|riš|rla|rmā|rmī|ro |rod|rof|rpn|rst|rum|rvi|rār|rīd|rīt|rīš|sad|sel|sif|sio|sir|sla|slē|sme|soj|spr|stu|sur|svi|sīg|teh|tgr|tic|tip|tir|tit|tiz|tlī|tnī|toj|trā|tst|tte|tus|tvi|tvē|tāj|tēt|tšķ|tūc|uda|udī|uja|ukt|ukš|ulč|upā|ura|uri|usa|uto|utu|uši|uža|vec|vju|vok|vās|zau|zpa|zra|zri|zst|zēt|zīt|āba|ādī|āka|āle|āln|āma|āms|āmu|āno|āpi|āpj|ār |āra|ārs|āst|āvj|ču |ēgt|ēki|ēkā|ēli|ēlī|ēr |ērb|ēru|ēti|ēts|ētu|ētā|ģis|ģēr|ībv|īdī|īgā|īlī|īni|īto|īts|īvo|īvā|ķi |ķim|ļa |ņai|ņas|ņēm|ņš |šai|šas|šā |šās|ūci|ūrā|ūs |žas| ak| do| ek| go| id| ju| kū| ni| pu| ro| su| tr| vā| ād| ģe| šā|ab |abā|ace|adi|ail|akt|alo|amb|amu|and|apl|are|arg|ari|art|ase|asn|ast|atj|ato|atp|atū|aun|avi|aze|aļi|aņe|ašp|bad|bje|ble|boj|brā|bāk|bās|ceļ|cis|dej|den|des|dik|dnī|dom|dsa|dz |dzn|dzo|dēt|ebū|ed |els|elt|elā|elš|elū|ema|emī|emš|enc|ens|epu|erg|ete|eti|ets|etv|eļā|eņu|eņā|ežā|god|ide|idr|idī|ij |ikc|ikl|iks|ikš|ilz|ilē|ims|imt|imš|ino|ins|irt|irz|irā|isd|isl|izb|izc|izl|izn|išķ|jek|jur|jāa|jād|kau|kci|kom|kor|kot|ksm|ksā|ktū|kus|kļo|kūd|lat|lde|ldn|ldo|lej|lis|lko|lod|los|lsm|ltī|lzī|lāk|lēm|lša|lūd|mam|mbl|me |mil|mis|moj|mpe|mst|mtb|mum|mīt|nat|nce|nda|nde|ner|nic|nij|nit|noj|nom|nov|ntā|ntē|nām|nē |nīc|obj|odo|odī|omi|omp|omu|ond|oni|ono|ons|opt|opā|opē|ore|osk|otī|ove|ozī|ošo|ošā|ošī|ošķ|pai|pan|paz|pet|pj |pjo|pla|pli|pma|pmā|pon|psp|pub|put|pve|pēd|pīd|pņe|pūt|rat|rbo|rda|rds|rdī|ren|rep|rgu|rgā|rkl|rpā|rsi|rti|rtu|ruk|rzī|rān|rīj|rūk|sac|sam|sau|saņ|saš|sdi|ses|sis|sku|sni|spo|spī|stē|suv|sās|sīv|tan|tbū|tja|tnē|tpū|trs|trū|tse|tsi|tul|tum|tve|tāc|tē |tūt|ubl|ule|ulk|uno|upa|ur |urk|uro|urs|uve|ušā|ved|vel|vir|viš|vo |vus|vār|vīg|zbi|zce|zli|zni|znī|zot|zpi|zpl|zpr|zte|zvi|zīm|āai|ādē|āki|ākt|ākā|ālī|āni|āpt|āpē|ārd|āsa|ātī|āvo|ēce|ēci|ēcī|ēdē|ēmu|ēmā|ēta|ģen|īci|ītu|ķis|ķām|ļin|ļos|ļus|ļā |ņi |ša |špā|šut|šād|šī |šīb|šķā|ūdī|ūku|ūtn|ūto|žot|žām",
+    nb: "er | og|og |en | ha| ti|til| de|ett| re|for|ret|et |tt | fo|il |ing|ar |lle|ver| en|om |het|har|ell|nne| so|ng |lig|ter| fr|de | å |enn|hve|ska|som| me|ler|den|enh| i |re |av |le |els|or |se |nhv| el|and|ig |lse|nde| st|esk|fri| be| sk|al | av| er|ete|ghe|ke |ne |tte|te |ten|der|han|igh|men|unn| in|ed |es |nge| ut|itt|kal| på| al|ent|ge |nin|asj|eli|end|jon|ner|på |sjo| si|gen| sa| ve|dig|lik|mme|sam|ske|tig|kte|tti| an| gr|ige|lin|med|und| un|inn|nes|rin|ekt|ere|gru|ihe|nas|nte|ren|res|rih|sky|tel| li|det|ene|ens|sni| na|all|erd|kap|ste|arb|kke|run| ar|bei|eid|isk|rbe|ven|ale|ans|bes|del|ers|lan|ns |str| he| vi|bar|nn |nnl|per| et| må|id |rit|sta|vis|ære| bl| mo|ger|kyt|mot|ndi|ndl|one|rel|ytt| fa|at |dre|emm|hol|isn|jen|old|ot |rvi|vær| da| la|dli|dom|eri|erk|erv|ffe|ikk|kra|må |opp|ove|tat|tes|vil| ek| ik| kr|gan|ker|me |ore|org|ser|ta |ts | gj| hv| op|amf|an |ang|bli|da |el |eve|fun|ie |lag|mfu|nal|nd |ona|rav|rdi|rt |ute| ba| di| ku| lo| om| sl| ta|aff|dis|est|fen|gre|ial|ik |ike|ikt|lov|lt |lær|nse|osi|sia|sos|tet|tli|ved| no| nø| of| pe| tr| va| væ|ann|ap |ape|ate|att|beg|dve|egg|ets|gge|leg|lke|min|ndr|net|noe|ntl|nød|off|olk|on |raf|sik|sit|tra|tri| at| se|ami|egr|fam|fer|fol|fre|hel|ids|ili|ilk|ine|int|kel|klæ|lde|lie|lit|mil|nen|nla|nle|nom|ors|ppe|rli|sin|tis|tvi|vel|æri|ødv| or| ov|ali|amm|eie|fat|gel|gje|gjø|ide|igi|jør|ken|kre|kt |kun|kyl|ld |lem|lta|mel|mål|nno|nt |oen|oms|ran|rde|rho|rke|rso|set|sk |sli|son|spe|sse|tan|tem|val|yld|ål |øre| ei| go|age|ats|ele|elt|ert|esp|fel|fra|get|god|ien|ir |ite|kes|kev|kje|kår|len|lkå|nel|nsk|orm|pri|rd |rie|rkl|rs |rsk|seg|st |sti|tol|try|tyr|utv|var|vik|vit|øve| ad| fu| hj| ma| ne| pr|adg|alg|ant|are|arn|des|dga|dle|dt |eha|elv|ess|fba|ffb|fte|ful|gio|hje|ikl|ikr|ins|ion|ist|kri|lfe|lge|lir|løs|nke|nli|nng|nns|nst|oli|onl|ord|orh|pek|pet|rat|rim|rmå|rn |skr|sty|tfe|tid|ttf|tur|ull|ves|vin|ykk|yrk|yte|årl| få| fø| gi| kv| ra|ane|ani|ank|ase|bet|bla|eel|eg |ege|eng|eni|era|eta|få |hen|ift|imi|in |isa|iti|iv |jel|ll |lme|mes|ndo|nis|nnb|nsn|ode|ora|orf|ov |pel|pli|ppl|ras|red|rga|rge|rid|ris|rkj|rre|rup|ryk|sas|sel|sen|sfo|sla|stå|tal|tre|tøv|ult|upp|utø|vor|åel|år |ør | do| hø| ko| mø| sø| to| vo| yr|ag |amv|ati|beh|ber|bev|ble|bor|dsl|døm|edl|egå|eks|eme|enf|enk|erh|ern|eth|fød|føl|gåt|ha |høy|iel|ilf|ilj|ill|ils|ipp|iss|je |ket|kli|lat|ldi|lg |liv|lje|llm|lst|lvæ|mat|mer|mfa|mso|mst|mul|nfo|ngå|nsi|ntæ|omf|ort|pes|pol|ppr|pre|ral|ram|ree|rek|rem|rep|rfø|rg |ri |rna|rst|sbo|she|sip|slø|sor|sst|sto|stø|søk|thv|tro|tsb|tse|tts|tær|uli|uns|uts|utt|ått|øke|ølg|ømm|øsh| fe| id| ka| le| ny| nå| pl| sp| tv| up| yt| ån|ak |alm|alt|am |as |ast|ave|dan|dde|din|dsf|ede|elp|ese|evi|evn|fas|ff |før|ges|ggh|git|gs |ham|her|hvi|hvo|hør|ier|ilb|irk|jem|kan|kk |kla|kom|kti|kul|kvi|lav|lev|li |llo|llt|lmi|lom|lp |ltu|lv |mvi|myn|måt|nbl|nda|nds|nev|ngs|nkl|nsm|ole|orb|rer|rhe|ro |rtr|ryg|sfr|sis|sts|sva|tor|ttr|tåe|ure|vir|vnt|vst|ygg|ynd|yre|åde|ånd|åte|ødt|øye| as| bo| dø| ef| eg| ga| gå| im| kl| mi| mu| my| ob| po| ri| sy| tj| ua| um| us|agf|ags|ake|akt|ald|ama|amg|ams|amt|apt|ara|ard|art|asy|ata|atn|ato|atu|avh|avs|bak|bed|bef|bol|bry|dar|dem|dir|ds |dss|dsu|edd|efa|efe|eff|ekk|eld|elf|elg|elu|em |emn|emo|ems|emå|eom|ep |epr|erf|erg|ero|err|eræ|erø|esi|esl|eso|esu|fag|fek|fik|fyl|gar|gat|gfo|ggj|gif|gig|giø|gra|gte|gå |gåe|gås|hat|hem|hva|idø|ies|ifi|iga|igg|ika|ilh|ilt|ilv|imo|iod|ire|is |iva|iøs|kas|kdo|kle|ksi|ksn|kva|lba|ldr|lds|ldt|lgt|lhø|lif|lk |lli|lsb|luk|man|mar|mem|mga|mis|mni|mok|mor|mrå|mss|mty|mød|møt|nat|nbe|nek|ngi|ngj|ngr|nhe|nho|nsr|nta|nti|nyt|når|obl|od |odi|oe |okr|oks|ols|omm|omr|ope|ori|orl|orp|pho|plæ|plø|ppf|pph|pt |påb|rbr|rdo|rfo|rgi|rio|riv|rk |rla|rop|rpl|rsv|ryt|råd|rær|røv|sat|sbe|seo|sie|skj|smu|sne|sop|sre|ssu|stn|suf|sul|syk|syl|syn|tak|tas|ted|tef|tfy|tho|tie|tif|tiv|tje|tne|tni|tsa|tsf|tth|tyk|tår|tør|tøt|uav|ufø|ukk|upo|url|usk|utf|va |vat|veg|vei|vhe|vok|yer|ykd|yl |ylt|yn |åbe|ås |ær |ært|æru|ødr|ønn|ørh|øse|øsn|øte|øtt| br| bå| bø| f | ge| ho| kj| lø| pa| ry| su| ty| uu| ær| ød| øk|adi|alf|aml|arg|ari|arr|atl|avg|bek|bje|bro|bud|båd|bør|dee|deg|div|dni|dra|dri|dse|dst|ean|edr|edv|eer|eft|ehe|ei |ekr|elm|eru|esm|ety|evd|far|fea|fet|fry|ft |gi |gir|gjo|gsf|gsl|has|hev|idd|ile|ime|ind|itu|ivi|ivt|jek|jor|jøn|kaf|keh|kif|kjø|kon|kor|ks |kso|kst|lbe|ldo|lek|lel|les|let|lfo|lld|lsi|lsy|lut|lvs|lys|løn|mhe|mid|mli|mpe|msk|msv|mve|ned|neh|ni |nit|nni|nnv|nsf|nsy|nuf|nvæ|ny |nå |ol |omh|omi|omp|ond|ono|ons|orn|orr|orv|osf|ott|pak|par|pdr|pe |pfa|pfo|ply|pon|ppd|prå|prø|ra |rag|rak|rba|rbu|rdr|ref|reg|rfa|rhø|rks|rme|rnu|ror|ros|rsa|rse|rti|rtu|rus|rys|råk|rør|sak|see|ses|sid|sig|ski|sle|slu|smi|smy|spo|spr|ssi|sub|sur|suv|tad|tar|tsl|tss|tst|tta|tua|tve|tyd|ual|ubj|udt|uft|ume|umi|upa|ur |urs|uso|ut |uun|uve|vde|veh|vek|vev|vgj|vid|vt |ydn|yes|yhe|ykt|yra|yrt|ysn|yst|ytr|åk |ærl|ød |øde|øds|øko|ørr|ørs|ørt|øyh",
+    nl: "en |an |de | de| he|van| en| va|cht|ing|der|ng |et |een|ech| ge|rec| ee|ver| re|nde| be|er |het|ede|den|gen| op| te|ten| ve| zi|ht |zij|lij|eli|ijk| in|ere|te |and|op |ens|ijn|ied|jn |oor| vo|ke | on|ond|aan|eid|sch| ie| we|eft|rde|aar| vr|ft |in |ord|id |rij|eef|ren|hee|al |hte|wor|hei|men| wo|vri|eni|or | aa|nd | me|ati|le |lle|of |voo| of| st|dig|om | al| na|die|ege|erk|ste|wel| om|ige|nat|nge|sta|ij | za|jke|end|zal| da|at |erw|nig|re |ge |gel|ie |ig |nie|ter|tie|bes|ele|ers|gin|ns |vol| di|eke|est|ijh|jhe|jk |nst| to|cha|che|elk|hap|it |lke|min|tel|ard|eme|ich|ona|str|waa| do|eze|len|uit| gr| wa|ven|del|eve|gem|han|ijd|lin|toe| ni| zo|aat|gro|ion|met|taa|tio| ma|beg|dat|hed|ijs|ite|sti|wet|ach|el |esc|ien|ies|kin|lan|mee|per|rwi|wij| hu|all|bbe|bij|daa|dez|doo|ebb|edi|eit|es |ete|heb|her|iet|js |nin|nsc|ont|pen|rin|ze | la| ov|arb|ben|erm|ger|man|ove|tig|wer| bi|ale|ang|eer|ema|eri|igd|is |nte|oep|rmi|st | an| er|igi|ind|lit|nal|raf|rdi|ron|tra|ali|ame|app|ar |bar|ert|erz|ezi|gde|gev|gez|iem|ken|ker|loo|naa|tei|tin|zon| ar| ha| le| pe| wi|ap |are|ats|bel|eho|ije|lge|oon|oud|rki|roe|tan|teg|tre|uwe|wil|zen| is| so| ui|ag |ch |din|erv|gee|hts|iek|kel|ld |nen|olg|ot |rbi|sdi|sen|soo|tge|tij|tot|ude|weg|zin| ki| no|als|ans|dsd|epe|erb|erd|ern|gd |gri|huw|jd |ndi|nse|rkl|tst|und| go| mi| mo| sl|aal|ari|bei|ber|bet|bev|bie|egr|ela|eld|erg|erl|evo|geb|geh|ges|maa|nda|nli|oed|oge|oll|org|ort|pel|ppe|rbe|rd |rli|rso|rst|rwe|sel|zic| ei| ko| zu|alg|ate|baa|bep|cia|dan|dde|doe|eno|ent|ero|ged|ghe|god|hou|hul|ial|idd|igh|ins|ip |iti|jde|je |jkh|keu|khe|kom|led|mid|mis|nem|nne|oci|ods|oeg|ope|rt |soc|uld|ull|uri|val|voe|zul| ho| ti|art|beh|dom|eel|elo|etr|eur|gaa|ill|int|kan|kun|lag|lei|lev|ls |odi|raa|ree|ric|rig|rke|rvo|sla|ts |tsc|ure|vor|vre|zek| fu| oo| or|aak|ann|ant|ass|chu|dam|dee|dit|ed |ees|ega|egd|eig|ein|elf|ell|em |emm|enb|epa|etz|eva|ewe|fun|hem|il |itg|kie|kla|lar|lek|lic|lli|mag|nba|nds|nni|ok |olk|on |onl|ook|oos|ote|rac|red|ref|rga|rip|rna|rsc|rui|rva|rze|spr|tem|tri|tzi|uns|wen|zel| ec| ka| ne| pl| ra|aam|age|ak |as |ast|bin|dhe|dt |egi|enz|ep |erp|fen|gan|gek|gre|he |hti|idi|ids|inb|isc|laa|lec|lee|lgi|lid|lk |mat|mog|mst|nbe|ndh|ndo|nmi|nsp|nti|nze|oe |oel|oms|oot|ore|orp|pli|pra|ras|rel|roo|rpe|rpl|rto|rwo|she|sse|tat|tis|tva|zaa| ac| el| ev| fe| gu| ke| kr| ou| po| pr| sc|afb|afh|afr|amh|ani|ank|aro|asi|atu|cul|dza|eda|efe|elz|emi|ene|eng|enh|enn|enw|eps|era|err|esl|ett|eza|fba|fei|fha|fre|gew|gun|hoo|hor|htg|htv|hun|iez|ijp|im |its|jel|jp |klo|kra|lat|ldi|leg|lon|lui|lzi|md |me |mhe|mmi|naf|nhe|nke|nme|noc|nod|noe|noo|och|oef|oev|oli|ome|ong|oni|onm|oru|osh|ouw|pas|pij|pla|pol|ppi|ran|rbo|rdt|rge|rgr|rhe|rie|rou|rs |rti|rzu|sin|sle|slu|son|tti|tur|tuu|uim|un |uur|vaa|ves|wat|wez|zam|zie|zit|zor|zui| ba| cu| hi| je| kl| ku| li| lo| ze|ade|afv|arv|ave|bor|chi|dra|dsc|dsl|dst|dur|dwe|dwo|ebi|ebo|ebr|edw|ek |emd|erh|fti|fve|gad|geg|hij|hog|hui|iin|ijz|ikk|ina|inm|iod|isb|isd|jeg|kke|kle|kt |lav|lf |lot|lsm|ltu|med|nac|ne |ngi|nis|nom|nss|ntp|ntw|oen|oes|oii|ons|oof|oog|ooi|opg|opv|ots|pge|ple|plo|pro|pvo|ral|rdr|reg|rei|rio|rni|roc|rri|rte|rtu|rzi|sba|slo|sme|ssi|sst|stu|tga|tic|tpl|tui|tus|twi|uch|uig|uis|ult|ur |vak|vas|vin|vro|wik|won| am| as| br| id| ju| ri| sa| zw|aad|aaf|aag|adw|af |afd|agz|ake|akt|akv|alt|amb|avi|bac|bas|bew|bez|bod|bra|bro|ced|chz|cra|dba|dea|ded|dem|dha|dri|dsv|eaa|edu|edz|eed|eek|eg |eha|ehe|eim|eis|eko|eks|ekt|emo|enk|enl|enm|eoe|eru|esk|esr|eun|euz|evu|ezo|fd |fde|fdh|geo|gsu|gza|hav|hik|htm|htn|hze|ide|iel|ift|ijv|ikb|ime|inn|inv|isa|ise|iso|ist|isv|ito|itt|iël|jds|jkt|jkw|jne|jst|jur|jve|jzo|kba|kki|kos|koz|ks |kte|kve|kwa|kza|lde|ldo|let|lfd|lgd|lth|mba|mme|moc|moe|mor|mt |mva|nee|ngs|nij|not|nsm|nsw|nta|ntb|ntn|nts|ntz|nva|nve|nwe|nwo|oce|ocr|oda|ode|odz|oek|oem|oet|ofd|og |old|omi|omt|omv|onv|ood|opd|opl|ora|orw|orz|os |ost|otd|owe|oze|pal|par|pda|pru|pse|pso|rat|rba|rdo|rek|rep|rev|rg |rgi|rië|rk |rku|rkz|rla|rop|rre|rse|rtg|rts|ruc|rug|rus|rwa|rzo|sam|sat|sdr|see|sie|sis|sku|smi|sop|sre|stg|sui|sve|svo|swa|szi|tas|tbi|tda|tek|teu|tez|tha|tip|tma|tne|tno|tse|tsl|tso|tsp|tsz|tte|tze|ug |ulp|une|url|us |ust|uwb|uze|vat|vru|vul|was|wba|woo|zag|zak|zee|zeg|zo |zod|zoe|zow|zwa|ële| af| fo| og| pa| ru| sp| su| ta| tr| tu| ty| un| wr|aff|afk|aka|ako|am |ara|arh|arr|ars|atr|ban|be |bee|bon|boo|bre|bri|chr|cla|con|cti|dac|des|det|dic|dis|div|dre|dru|du |dve|eac|eco|edr|eem|eff|efw|ehu|eik|ekk|eso|eti|ets|euw|evi|evl|fbe|ffe|ffi|fin|fko|fol|fte|fwi|gea|gif|goe|gst|hen|hil|hit|hri|ict|icu|idu|ief|ier|ieu|ike|inh|ini|inl|iss|ive|ivi|jdi|jze|kar|kbe|koe|kon|kti|lac|lam|leu|lfb|lie|lig|lka|lp |lpb|lte|luc|mdb|nak|ndb|ndr|ndt|ndv|ndw|nha|nit|niv|nkb|nko|npa|nsh|ntl|ntv|oal|ocl|ogs|olt|omd|onn|ono|onp|oph|opn|ops|ori|orm|ors|pan|pbr|phi|pni|por|pre|pst|rag|rak|rem|res|rid|rif|ris|rka|rko|rm |rmd|rne|rot|rtd|rtr|ruk|rvr|se |shu|soe|som|spa|spo|sts|sup|tdu|teh|tev|tle|tro|tru|tsh|tsi|tyr|ud |ukk|uli|uni|unn|upr|uss|uw |vid|vlu|wis|wre|yra|zoa",
+    pl: " pr|nie| i |pra|ie | po|ani|nia|ia |raw|go | do|ego|wie|ch |iek|awo|do |owi|ści| ma| ni|ci | za|wo |ek |ośc| w |ych| cz|rze| na|prz|wa |ej |eni|noś| je|czł|zło| ka|łow|ażd|każ|ma |ny |stw|rod|dy |wol|żdy| lu| wy|oln|lno| wo|twa|owa|rzy|dzi|sta|ecz|wsz|zys|czn|est|ają|na | sp| sw|kie|ów |cze|lub|ub |yst|spo|mi |neg|pow|ńst|nyc|obo|wan| ko| z |ać |pos|szy|dow|jąc|ony|pod|rac|zan|zne| ja| ró| ws|aro|eńs|jak|ne |rów|zen|iej|jeg|nic|odn|sze| ro|awa|cy |nar|nej|no |owo|ówn|odz|orz|stę|tęp|zie|ami|bez|ien| in| st|aki|aln|edn|ym | od|acj|mie|ołe|poł|zec|łec| be| ob|czy|icz|inn|wob|zes| kr| or|aw |dni|ez |ełn|jes|kol|kra|ni |peł|st |zy |cza|iec|jed|lwi|nik|olw|owe|owy|ron|się|wia|wyc| os| si|iu |ię |któ|pie|raj|sza|war|zna|zyn|bod|cji|dno|dst|ieg|ji |ki |kor|nau|nym|odo|ora|pop|ran|swo|taw|wni|zaw|zeń| kt|du |em |gan|iko|ją |lud|ost|raz|roz|stk|tki|tór|zas| ta| wł|adz|ale|by |dów|ech|ejs|ier|ka |kow|ków|nny|oby|och|ods|ucz|wym|ymi|ywa|że | dz| mi| mo| oc| to|ada|ano|any|awi|chr|dzy|hro|ich|ini|ju |nan|niu|tan|tyc|wno|ze | ce|acy|ape|ałż|cel|chn|dne|ewn|god|lni|maj|mał|ogo|oso|ows|pew|sob|to |udz|wej|wią|wod|wyb|zap|zon| zw|bow|iem|lny|moż|mu |now|ocz|pst|swy|trz|wow|wła|yna|ące|ędz|ęps| by| de| go| op| pe| uc|ara|art|ate|auk|az |bor|cie|dek|eka|era|iad|ian|jsz|kog|kon|la |leż|mię|odó|oko|oni|opi|osz|rob|row|sam|sto|wne|woś|ybo|yni|za |zin|ący|łni|łże|żeń| pa| ra| rz| sa| są| uz| ży|ach|ako|asa|cia|cję|czo|dan|iza|iąz|ięd|ję |ku |mow|nin|ną |obr|org|ral|rga|rzą|sad|str|yci|zac|zaj|zal|zez|zia|óre|życ|żyw| o | pu| wz| zg| zj| zm| śr| że|ado|aju|ańs|bli|bro|ce |dpo|dze|dzk|eci|ega|ekl|ezp|glę|iał|ice|ied|iez|kar|kla|lar|lic|lęd|niz|noc|odk|odp|osi|ość|pań|pro|pub|ta |tak|tel|tni|tow|ubl|wat|weg|wzg|yzn|zar|zej|zgl|zje|zki|zny|ząd|ązk|śro|ść | og| sł| we|amo|ane|ała|aży|byw|być|ceg|dam|dku|dob|eko|eżn|gra|ies|ić |kic|ko |li |nio|nkó|od |om |ope|opr|oru|ozw|res|róż|sia|spó|stn|swe|są |ter|two|ty |uki|umi|uzn|wać|waż|we |wyż|wą |ycz|yra|yws|yć |zwa|óżn|ącz|ędu|łas|ły |łąc|żen|żni| ab| an| ch| dl| gr| mu| ur| wi| ze|aby|arz|asn|auc|bie|cyc|cą |dcz|dla|dle|dop|dos|els|esz|ewi|iaj|iać|iny|kim|leg|lit|lst|nak|ncj|nne|obe|obi|odl|okr|omo|ono|osó|oże|pad|poz|raż|roc|ru |run|rym|ski|sow|spr|sób|słu|tur|usz|wyr|wyz|wój|ypa|ysz|ywi|zad|zed|zmi|zro|ób |ój |ąc |świ|żon| on| te| ub| wa|adn|ak |aru|ary|aró|atn|awn|azi|dna|dny|ela|elu|emo|emu|erz|eż |gro|gru|hni|iel|iew|ite|koj|kom|ką |laj|lne|moc|oju|one|onk|ozu|ożn|pok|pom|por|pół|pła|ras|rat|re |rty|ry |rza|ska|sty|szk|tać|tec|unk|ura|wal|wi |win|włą|yżs|zam|zać|zgo|zni|zum|zwi|zym|ącą|łal|żna|ższ| da| ic| ku| ok| pł| re| sk| us| ut| św| ża|adk|ajo|akt|ala|as |ata|aty|baw|bec|boc|byt|cej|cho|chw|cio|ciu|ciw|cić|cja|dyn|dza|ec |ed |edy|eli|enc|esp|eza|ezr|han|hne|hwi|iat|iep|ili|imi|ina|iom|jal|jem|jow|kam|kan|kul|lam|let|liw|ltu|lu |mat|mor|naj|oce|oci|ocy|oda|odc|odu|ogr|ola|ole|oli|ona|opó|ozb|po |pog|pol|pu |ra |reg|rte|scy|sno|taj|te |teg|top|tra|tu |uka|ult|uro|ust|utr|wad|wil|wsp|wy |wyn|ysc|ytu|yśc|zba|zew|zka|zko|zkó|zpi|zwó|zyj|zyp|zyw|zyś|óry|ępn|ępo|łac|ład|łny|łon|ńsk|żad| ar| mę| su| tr| ty| ud| zd|acz|acę|aj |ana|arc|arż|aso|asy|awą|aza|aża|bra|bsz|był|będ|cha|cją|cę |deg|dem|dka|dkó|dro|dą |dę |egł|ejk|ejm|el |eln|epo|epr|ere|eso|et |ete|ewo|ga |gok|gło|iar|iet|ień|ież|ii |ika|ist|iw |iąc|ięc|iły|jko|kaz|kik|kob|kre|mad|mia|mus|męż|nac|nal|naw|nii|nić|niż|nor|nu |oba|obs|odę|oma|opu|opy|oro|osk|osp|otr|ową|oły|pam|pon|py |rom|rup|róc|ste|sum|sy |szt|sąd|tal|ten|tro|tw |ube|udo|ują|uko|unt|urz|wes|wid|woł|wró|wyp|yja|yma|zeg|zep|zet|zgr|zpo|zyc|zą |zęd|óci|óln|ół |ądk|ądz|ądó|ęci|ędn|ępu|ężc|łat|łuż|ływ|żcz|żde|żno|żny| a | ak| az| bą| bę| dy| dą| eg| le| li| oś| pi| so| sy| sz| tw| ug| uw| wd| wś| zr| śc|ack|acu|adc|ade|agr|aje|ajm|ajn|ajw|aką|akż|ali|alo|am |ama|anc|ars|atk|atu|awe|azy|ałc|ało|aźń|ażo|bar|bej|bis|bąd|ca |cac|ced|cen|ces|chu|cig|cki|cko|ctw|cuj|czę|daj|dar|dia|dki|dli|dma|dok|dol|doś|dur|dys|dzo|dąż|dłu|dź |eal|eby|ecj|eck|edl|eds|edu|edł|egz|eki|ekę|ele|eri|erw|esi|esu|esó|etn|ety|ezb|ezd|eń |eśl|eże|gać|ger|gij|glą|gni|gom|goś|gwa|gzy|hno|hor|hu |iac|ial|ica|ici|ict|icy|idz|iga|igi|ijn|ikt|im |ing|int|io |ion|iow|ity|iwy|iąg|iśc|iż |jaź|je |jmn|jmu|jne|jno|jny|jsc|jst|kaj|koś|kry|krz|kt |kut|kę |kże|lad|lek|lem|ler|lig|liz|lną|lon|lop|ląd|man|maw|min|mni|mog|mok|muj|mór|nag|nat|nde|nge|nię|nko|nol|nte|nto|ocj|odm|odą|ogl|ogw|ogł|ojn|omu|omó|oną|opa|opn|oró|owr|oza|ozs|oś |ośr|ośw|ożl|par|pec|pin|pna|pne|pni|poc|pot|poś|pry|puś|pók|pól|pót|rak|rci|rea|red|rel|ria|rką|rlo|roś|rsk|rus|rwa|rws|ryw|rzę|ród|rżo|sca|sie|sią|skr|sku|ską|sny|soc|spe|stu|su |swó|szc|szn|szą|szł|sów|tar|tej|też|tka|tna|tne|tno|tny|tol|tos|trw|tud|tuk|tys|tów|ubi|uch|uci|udi|udu|ug |ugr|uje|upa|upe|upr|url|ute|uwł|uzu|uśc|użb|wał|wdo|wed|wem|wic|wiś|wną|woj|wor|wsk|wys|wył|wśr|ybr|yl |ymo|ynu|ysk|yt |yła|yły|yłą|yźn|yży|zał|zcz|zdo|zdr|zeb|ześ|zic|ził|zmu|zpł|zst|ztu|zup|zwo|zyl|zyz|zyź|zęt|zły|ód |óki|óra|órk|óty|ółp|ądu|ądź|ągn|ędą|ępi|ęte|ęły|ła |łan|łce|łno|łną|łos|łoż|łpr|ług|łus|łyc|łżo|śla|śre|śró|źni|źń |ża |żby|żli| ba| br| bu| ca| dr| du| gł| ha| ho| im| ję| my| nę| ol| ot| up| zb| zn| zo|aci|adt|ajó|aka|akł|and|anu|ar |arb|are|arę|asi|asz|atr|awy|azn|ał |ałk|ań |aże|ba |bal|bam|bda|bno|bre|brz|bud|bun|byc|cał|cis|cił|cyd|cym|da |daw|dać|dec|dej|del|den|dję|dom|dto|dua|duc|dwo|dyw|dzą|dąc|dźm|ebn|ecy|elk|ent|epi|ern|ero|ers|eto|ezs|eć |eży|for|gna|gos|gu |gól|gła|głe|gły|hną|hod|hon|how|idu|ieć|ija|iki|imk|in |ind|inf|ioś|isa|isk|iwa|iwi|iwk|iwo|izo|ięg|ięk|iłe|iło|iża|jan|jaz|jej|jek|jmo|jwy|jwz|jów|jąt|jęz|jęł|kac|kać|kiw|kru|ksz|kto|kty|kuj|kąk|kła|lbr|le |lej|len|lki|lor|mac|mać|mem|mko|mod|mpe|muk|myw|myś|nad|nać|nań|ndy|nek|nfo|nił|nka|nku|nni|nom|nos|not|nou|nst|ntn|ntu|nęd|nęł|obd|ocą|ode|odj|odw|ody|ogó|olb|olo|omp|ond|onn|ons|ore|orm|ort|osu|oty|oup|ozp|ośl|pet|pis|płc|rać|rba|rcz|rem|ren|rma|rni|rst|rto|rtu|rut|rę |rże|sił|sko|snę|sun|suw|swą|sys|syt|szo|szu|szę|sło|tac|tat|tem|tku|tor|toś|tua|tuc|twu|tyk|tyr|tyt|uac|ual|ucj|udó|udź|ume|upi|usi|utn|uwa|uże|wac|wij|wis|wit|wię|wko|wny|wst|wu |wyd|wyg|wyw|wzn|yby|yda|ydo|yga|ygn|yje|yka|yko|ymy|ynk|yno|ypo|yro|ysi|ysu|ywr|yńs|yśl|zak|zat|zbu|zby|zbę|zde|zek|zel|zi |zku|zn |zno|zob|zow|zsą|zto|zuk|zyg|zyk|zyr|zyń|ząs|ąd |ądn|ąko|ąsn|ątk|ąza|ąże|ąży|ęde|ęgu|ęks|ęzy|łci|łe |łek|łko|łne|ło |łoś|łuc|łyb|śle|śli|źmi|żaj|żan|żeb|żne|ży |żył",
+    pt: "de |os | de| e |to |ão | a | se|ent|em | di|ito|do |eit|dir|ire|rei|as |da |ade| co|dad|ção|es |er |men| pr| to|nte|ser|tod|uma| da|ida| qu|no | o |que| pe| in|te | do|al | te|ess|dos|res| ou| re|cia|con| es| li|pro| na|tem|man| po|ar |hum| su|com|odo| hu|ia | pa|ou |est|açã|des|sso|ue |nto|ame|das|is | as| à |ano| em|tra|tos|ais|ra |ber|ado|sta|ter|ual|nci|erd|rda|sua|ua |ões|ibe|lib|nal|or |ica|na |ona|ma | no|çõe|ntr|par|so |oda| so|cio|ura| ao| um|pre|ria|nta|oci|por|soc|per| os|aci|ali|era|erá|nid|qua|rá |ara|ion|pes|soa|ido|ont|pri|ada|ime|io |lid|sen|nac|oa |ran|rio|uni| ca|gua|sse| ma|uer|und| ac| ex| fu|ese|int|ios|ons|ver| fa| ig|ass|açõ|ca |fun|igu|pel|raç|seu|ênc| me|ind|ndi|ta |tad|ém |cas|egu|eli|iva|nda|nst|omo|seg|um |vid|art|ing|ist|naç|ote|re |rot| tr|am |ant|eci|ere|nos|não|om |rar|tro| en| un|alq|esp|lqu|rec|sem|tiv| vi|cie|ela|ico|ita|lic|ngu|ode|out|pod|ros|se |tic|utr| at| ne| ni|ers|gué|ias|ivr|liv|ndo|nin|sti|uém|vre| al| nã|ces|dis|ens|ern|for|nsi|tar|ao |ati|dam|eda|ele|ied|len|sid|str|tes|uçã|ári|ça | le|aos|esc|gur|ial|lhe|mo | pl|aba|aís|eme|ide|ins|lho|lia|paí|ple|rem|vel| sa| tê|der|dev|inc|ião|la |lei|mpr|ome|pen|rel|têm|êm |íli| ju| mo|alh|amí|bal|bli|cid|eu |fam|ir |itu|lig|míl|nça|rab|rim|roc|rte|spe|tur| ar| cu| fo| pú|co |dec|dic|el |ena|eve|igi|içã|mun|ora|púb|úbl| be|cla|cçã|den|iai|nde|nvo|omu|ses|ste|são|tru|ís | fi| go| ob| é |col|cul|eco|fic|ho |imi|iss|lar|omp|ond|pos|ral|rso|ten|vad|ve |ânc| el| mu| or| vo|and|ato|ecç|ei |eri|ive|lit|oso|reg|rom|ruç|sin|ssi|taç|tór|us |óri| cr| ra|cim|cri|ece|elo|eno|eçã|iza|lo |mat|ner|ove|sco|teç|vol| ci| gr|act|ari|dem|eus|gre|hec|iam|ien|ino|nhe|nçã|olh|olv|onh|ori|rit|sal|stê|tai|tam|tec|tre|tên|vos|áve| ho| lh|ani|atu|bit|clu|cur|dar|diç|eja|env|eti|exi|he |ina|içõ|rna|ro |sej|tri|alg|ana|anç|arb|aso|aze|bem|cor|del|div|ecl|efe|enç|giã|goz|gum|ha |ior|isf|lem|lgu|lim|lvi|mai|mem|nas|nti|oce|ole|qui|rat|rav|sat|sci|scr|sfa|sos|tim|tin|tis|uai|ult|uos|zer|ífi|íve| si| ta|ate|cad|caç|cti|dig|edu|emp|erv|gni|go |gra|iga|ign|ira|itr|jus|min|mis|mit|ovo|pei|rad|rbi|rie|rig|riv|rát|sam|siv|tal|tor|ust|vim| am| au| ed| fr|ace|asa|atr|ató|cre|duc|duo|ego|eio|emb|faz|her|ici|ivi|ivo|iví|lha|mei|mov|mum|niv|ns |obr|opr|ord|ort|pov|rin|rsa|sa |sar|sis|son|ssa|tas|tid|tuo|uca|val|vo |víd|áti|ídu| eq| id| im|aut|az |bri|ce |cto|enc|end|equ|erc|esu|exe|exp|imp|inv|jei|lec|lta|lus|mor|méd|ncl|nec|omi|oza|paz|rde|rti|rár|rão|suj|tan|tit|tui|uit|uiç|uje|usi|uto|xer|zar|édi|éri| mé| op| ve|ald|aqu|asc|ben|bro|cip|cos|cíp|eal|ect|eis|ene|enh|erm|ez |fes|gio|hom|iaç|im |inf|ini|inç|ipa|jam|lda|lhi|ltu|mbr|mes|mom|ncí|nem|niã|ntí|ogr|oto|pio|rai|ram|rep|ret|rid|rog|rop|rvi|sob|spo|ssá|ssí|sár|sív|tíf|uda|uo |vei|von|vot|íci|ípi|íti| ap|abe|alm|avo|aça|dep|ecu|emu|epe|err|eta|gad|gar|ima|iên|ja |leg|lme|me |nsã|ore|oss|pli|ras|rea|ren|rno|ssã|uir|une|urs|usa|xpr|zad| ef| às|abi|acu|ale|alt|ama|ami|ata|bel|bil|car|cat|cen|cir|ciê|cra|cus|def|dio|dên|egr|elh|emo|ert|esa|esm|ete|fat|fil|gru|gui|gên|ili|irc|isc|isp|itó|iço|jur|lam|laç|liz|lpa|met|mpl|mud|mul|nad|nat|nef|nio|nsc|oca|ocl|ocu|opi|orm|orr|pin|prá|rci|rcu|rni|rre|rri|rse|rui|rup|stu|sub|suf|sum|tat|trá|tân|ulh|ulp|uns|ute|vam|viç|xis|às |ço | ba| du|amb|apl|ará|até|bje|dur|een|egi|eir|fav|fim|gan|gov|jet|le |mar|nia|niz|ob |obj|oma|org|pac|pec|pró|raz|ree|rga|rma|rta|róp|sol|sup|tab|tir|uan|ui |upo|ure|voc|vor|xig|ças|ópr| ab| ag| aq| er| fé| ga| ge| nu| nú| om| sã| té|ací|alo|anu|apa|are|arã|ase|asi|avé|aúd|bas|bsi|cap|cer|cni|coo|crá|cui|cun|cáv|cíc|cíf|det|dez|doe|duç|dão|ebe|ecr|efí|eiç|enã|epr|ero|erâ|esf|esi|eto|eun|exc|fec|fin|fis|foi|fro|fru|frá|fân|fíc|gat|gid|gir|hic|hid|hon|hos|ian|iar|ice|icá|idã|idê|igê|ilh|ilo|imô|iol|ite|iti|iuv|iód|ler|los|lui|luç|lít|mam|mas|miz|moc|mpa|mpe|mpo|mér|môn|nen|nfo|nfâ|nha|nhu|nic|noc|nse|nsá|nut|nva|ocr|odu|oen|ofi|oi |olu|olí|oop|ope|orç|ova|pab|pad|pai|pla|pol|pon|rac|rcí|reu|riç|rió|rmi|rmé|rod|rof|rol|ron|rov|rtí|rág|rân|rço|sad|saú|sce|sec|sfo|sil|sio|sma|ssõ|stâ|sáv|sõe|taq|tei|tia|tol|tom|tuá|tuí|té |téc|tís|ubs|ufr|uid|uiv|ula|una|unç|upe|uve|uár|uía|va |vas|ves|vez|vio|vis|viu|vés|xcl|zam|zaç|zo |ági|ços|écn|és |íam|íse|íst|ódi|ôni|úde| ad| ha| la| mi|aco|alv|ans|aus|bse|bun|bém|cam|ceb|cem|dei|ead|ega|erf|erã|erê|eso|fer|git|hor|ibu|idi|ine|iqu|isd|jul|las|lga|loc|mad|mbé|mic|nai|nar|nce|nco|nes|obs|oçã|pal|pír|rce|rdo|rez|rfe|rib|ris|rto|rtu|rvâ|rên|ríd|sdi|sim|spí|sul|tut|uel|ues|ulg|uri|urí|vân|ídi|íri| ai| aj| aç| ce| ec| fe| gé| gê| hi| lo| lu| ní| ri| só| ti| tu| va| vá| ví| ór|acr|acç|adj|adr|adv|agi|agu|ain|aio|air|aja|aju|ala|alá|amp|ape|arc|ard|atí|ava|ave|avi|azo|azã|ban|bar|bid|bme|bos|bra|bár|cel|cit|cle|coa|cru|cta|cçõ|dan|dea|deg|did|dju|don|dot|drã|dua|duz|dve|ebr|edi|efi|efo|egí|egó|eia|eix|enu|ená|eo |epo|epu|erp|evi|evo|exo|eza|ezo|fac|faç|fei|fet|fiq|fli|fra|fut|fé |fér|gal|gam|gem|gen|ger|gun|gão|gén|gít|góc|hab|ham|hip|iad|ibi|icç|idu|ie |ife|ige|il |ila|imó|iod|ipó|isa|isq|ixa|iça|iõe|jar|jud|juv|lad|lan|laz|leb|leo|les|let|lie|loj|lor|lto|lug|lva|lve|lár|maç|mbl|mbo|med|mel|mid|mir|mod|mot|moç|món|nam|ndê|neg|nel|nfl|ngi|ngr|nif|nis|niõ|nom|nou|nra|nsa|nub|num|nun|nvi|náv|nçõ|nív|núb|núc|oad|oal|oas|obe|oco|odi|oib|oja|ol |olt|one|onf|onr|onv|orc|orá|oré|osa|osi|ost|ota|oti|ous|ozo|oáv|pan|pat|pet|pir|pou|pra|put|pót|raj|rau|ref|rer|rev|rgã|rme|roi|rpr|rtâ|ráv|rém|sas|saç|sea|sex|siç|smo|spi|spr|squ|sto|stá|só |tel|tiç|tud|tá |tív|uar|uas|ube|ubm|udo|uem|ufi|uga|uin|ume|umi|unc|uro|uso|uta|utu|uva|uzi|vag|var|vat|vem|ven|vic|vál|vít|xar|xil|xo |xpa|za |zoá|zão|áli|éia|éne|êne|óci|óni|órg|óte|úbi|úcl| bá| lí| on| pu| ul| úl|afi|aga|ago|agr|alé|ane|arm|aro|asp|ast|aud|aur|avr|azõ|ble|blé|bre|cau|cep|cum|cíl|ded|dif|diê|dom|doç|déi|eaf|ein|emé|epç|esr|fal|fir|fre|gas|gaç|gim|gor|har|icu|icí|idé|iet|ifu|igo|imo|inh|inq|iom|irm|isé|lav|lio|liã|lti|ltr|lvo|léi|lém|lín|mea|mon|mpé|ndu|ne |nei|nho|nov|nqu|nsm|nsp|nu |nóm|nôm|ofr|olo|onc|oni|onu|onó|onô|opu|orn|oze|ozi|pag|pam|po |pop|pub|pul|pçã|péc|pér|rba|rbá|reb|riq|rmo|ror|rro|rue|rué|ráf|sai|sit|smi|sof|soz|spé|sre|sér|tau|teg|tig|tua|tun|tér|tón|uaç|ubl|udi|uez|uie|ump|upa|upr|utó|uéi|viv|vra|zem|zid|zin|zir|zõe|áfi|árb|áte|ãos|éci|éis|íng|ómi|óno|ômi|últ",
+    ro: " de|și |re | și| în|are|de |te |ul |ea |rep|dre|ept|tul|le | dr|ie |în | sa|ptu|ate| pe| pr|or |la |ori| la|ce | a | co| or|rea|ale|lor|ii |au | ar| ca| fi|tat|ice|per|ent|ers|al |ric|ați| li|nă | să|să | re|men|rso|uri| ac|ei |pri|ber|con|ibe|ilo|lib|tăț|tur|car|ană|oan|sau|soa|ăți| al|ter|ui |in |ții|că |ere|ia |ție| in|lă |ntr|ri |ril|tea|uni|fie|nal| un|ace|ita| nu|eni|ire| cu|ile|lui|pen|pre|se |tă | as| ni| se|ele|nte|pro| că|ert|est|rin|sal|eri|nu |tor|ală|inț|ră |ste|tre| mo| tr|oat|oci|soc| au| ce| di| po|ecu|ici|naț|ni |ona|uie|ări| o | om|ces|ega|fi |gal|iun|ulu|ând| na| so| su| to|din|ntu|ra |res|sa |tar|act|ara|bui|ebu|iei|int|leg|lit|rar|reb|rec|sta|eme|ili|mân|nic|văț| eg| fa|ite|nd |tru|va |ât |ți |at |bil|cu |ial|nit|nta|nvă|pli|ru |înv|ăță|ță | îm|cia|cți|dec|ect|mod|od |ons|poa|rtă|toa|ânt|ța | ex| pu| st|ali|art|dep|era|gur|ion|ită|lic|rel|rie|rot|tra|ămâ|țăm| lu|ame|asi|cur|iet|iil|mun|nde|nța|ura|țiu| vo|abi|ani|ar |ată|cla|ene|er |nți|oar|ral|rii|uma|împ|ăto|țio| ma| pa|alt|bli|ca |com|dic|ege|elo|ger|ica|ică|igu|it |ive|nt |par|riv|rta|sig|tri|un |unc|ură|înt| câ| el| es| lo| sc| va|ane|cop|cti|cât|eia|etă|eze|ic |ime|ind|lig|lin|man|nda|nim|om |omu|rim|rit|rte|sup|ta | le| mu| ne| vi|ai |ati|cie|iin|itu|iva|iza|ne |ocr|olt|ora|rez|st |tiv|tui|vol|ără|ște| fu| fă| me| si|ami|caz|chi|căs|dam|dem|eli|epl|fam|fun|gan|igi|imi|ini|lte|mat|mil|mpo|ndi|nil|nță|opi|org|pub|ran|rat|rga|rân|sti|săt|tit|ubl|uno|ăsă| ap| bu| gr| mi| oc| um|ase|cio|cro|cum|der|dez|el |enț|esp|eta|ezv|iaț|ide|inc|io |lar|mai|min|niz|nsi|nst|oti|pot|rac|raț|rio|rul|tab|tic|tir|tis|tut|um |upu|ute|zvo|ția|țil|țin| at| ec| fo| ur|anț|az |ață|bit|cat|cer|cte|deo|ena|fic|făc|ing|ină|iri|lie|lta|mei|mul|ner|nii|niv|omi|ond|otr|oți|pii|pus|păr|rir|roc|spe|ten|und|urm|uți|ver|vit|voi|zaț|zen|înd|ăcă|ăre|ști|țar| af| pă| te| ța|arb|ară|atu|cea|cel|cii|clu|ct |cul|cân|căr|den|dis|eas|ech|ecl|ecț|epe|ern|erâ|eșt|faț|for|fos|făr|iec|il |ilă|ine|isf|iu |ivi|jur|loa|mă |ncă|nea|nor|nțe|ole|ome|ont|opo|ost|ote|pec|pop|pt |rei|sat|sid|sin|son|sul|sun|tal|tec|tei|tel|tii|tăr|unt|ună|ure|vin|țel| fe| i | im| ju| ra| tu| ță|ama|aso|atâ|bun|cee|cet|cip|col|cri|ctu|cun|ebi|eca|ece|ecâ|edi|eea|emn|eos|ese|esu|exp|fac|gre|ifi|ino|ior|ist|itr|iv |lem|ltă|mbr|mni|nce|nci|nef|nia|nir|noa|nui|năs|oin|opu|orm|ose|pur|rbi|ret|riu|rmă|rna|rsa|sco|seb|sec|sem|sfă|siv|stă|toț|tr |tât|ult|une|unu|uto|utu|val|ătu|ățe|țen|țăr| ba| bă| ef| ge| oa|acț|adr|aju|apl|asc|ast|așt|buc|cad|cta|căt|dir|dru|eal|end|esi|ge |gen|gra|hit|idi|ier|ijl|ito|jlo|lia|lus|ma |mij|mpl|măr|ncl|nei|nfo|nge|nie|num|oac|oam|put|ras|rev|ror|răr|sel|sub|tem|ucu|upr|uro|urs|us |usi|via|vor|vâr|xpr|zil|înc| az| cr| ei| ob| op| vr| șo| șt|acc|afa|apă|ari|ato|aut|azi|ața|baz|bir|băt|cce|ci |cit|cra|cre|cuț|des|efa|efe|egi|emb|erc|es |esa|ete|eun|evo|exe|far|fec|fii|gia|gii|ibi|iii|ima|imb|ina|inv|ipi|ips|isc|iți|lam|lec|lel|lip|loc|lua|lul|maj|mem|mis|mit|mom|mor|mpr|na |nar|nat|ndu|nec|nev|ngr|nov|ntă|oas|oaș|oce|ocl|odi|ogr|oma|omp|onf|opr|ort|oru|pin|por|psi|rci|reu|ria|rma|rog|rop|rsu|rti|sar|scr|scă|sib|sit|spr|str|tan|tin|ua |uir|uta|ven|veș|vot|vre|xer|ze |îng|ăst|șom|țe |țif|țăt| av| pi| sp| ți|acu|aja|ala|alț|asu|ază|ba |bă |băr|cal|ced|cep|ciu|cut|cuv|cuz|cău|dea|diț|duc|ecr|ede|edu|eju|ela|erv|esf|exi|fel|fem|fes|fra|gio|gru|him|iat|ibu|icț|iga|imp|imă|inu|ioa|iod|ise|isp|ivă|ixt|jul|lav|lei|lim|ltu|lți|mba|mer|mix|mov|ndr|nel|ngu|nvi|năt|nșt|obl|ola|omo|ono|onv|onș|ord|ot |ove|pe |ped|pil|pra|pân|păc|rdi|rej|rib|rid|rom|rse|rup|rvi|răd|răs|rși|sch|scl|scu|ser|sfa|sil|săv|tiu|ub |ude|uia|uit|urg|use|uve|vat|vez|vie|voc|vă |xti|zar|zis|ză |ârș|îmb|ăci|ădu|ărb|ătr|ăut|ăvâ| ad| ai| aj| an| be| bi| bo| ci| du| er| fr| ga| ho| hr| ia| id| nă| pâ| ti| vâ| vă|abo|adu|afi|agi|aib|aj |als|amn|amă|ana|ang|aps|asa|ave|avi|aza|azu|ași|așn|bar|ben|bin|boa|bor|bre|bră|bur|bzi|cab|ceș|che|cir|cui|cup|căm|dat|dit|dui|dur|dus|duv|dă |eam|eap|eaș|efi|ehn|elu|emo|emâ|eoa|epr|erd|eră|et |etr|eve|evi|exc|ezu|eșe|eși|ețe|fal|fil|gaj|gar|gat|gie|giu|gri|gră|hei|hiv|hni|hot|hra|iar|iau|ibă|iit|iji|ilu|imț|inz|iol|ipa|ira|irc|isi|iti|iul|ize|ițe|jir|jus|jut|lab|lal|lat|len|ler|let|leș|lid|liz|lsi|lto|luc|lud|lum|mam|mar|me |med|mi |mic|mna|moc|mță|nab|nch|ncț|neț|nga|niț|nom|nut|nva|nvo|nzâ|oal|oc |oca|ocu|ofe|oie|oli|onc|osi|otu|otă|ova|ovă|pa |paș|pie|pir|ple|pol|pos|psă|pta|ptă|pul|puț|rag|rai|rba|rbă|rcu|rde|reș|rg |rij|rm |rmâ|rof|rst|rtu|run|răc|sen|si |sia|sif|sim|sio|siu|soț|spi|spo|suf|sur|săn|teh|tol|trâ|ubz|uce|ucr|ufr|uin|ula|una|upe|ust|usă|ut |uvi|uza|vel|vic|vii|vio|vân|văd|xcl|xis|za |zat|zul|zur|zân|âna|âne|ână|ârs|înț|ăcu|ădi|ămi|ănă|ăra|ăsc|ăsi|ăta|șed|șit|șni| do| ea| ed| en| gâ| ig| mă| no| od| on| pl| ri| ră| s | sâ| zi|ada|afl|alo|ant|arț|asp|asă|ata|aud|ava|avo|avâ|baț|bri|bru|bți|caț|cil|cor|cru|da |dan|ded|deg|dei|deț|di |dia|dih|dii|dom|du |dun|dup|eau|eaz|eaț|eco|ecă|eda|efo|egr|ein|elă|emă|ens|enu|eo |eps|epu|epț|erm|erp|erz|erț|etu|eva|ex |ext|ezo|eți|ețu|fav|fla|fro|făp|fău|gaț|gin|gno|gân|gă |hnă|ias|icâ|ien|ife|ign|ihn|ila|ild|inf|ins|inâ|isd|ja |jam|jat|laț|ldă|lea|li |liu|lt |luț|lăt|maț|mbu|mbă|mel|miz|mpa|mpe|măs|nas|naș|ncu|ndă|nen|neș|nfă|nif|nos|nou|nsa|nti|nul|nun|nze|nân|năr|obț|ocă|olu|ore|orâ|osc|ou |ovo|ozi|pet|plă|pon|poz|pse|pă |pți|rad|raj|red|rem|ren|reo|reț|rgă|rig|ris|riz|rme|rni|ron|rov|rpr|rud|rzi|rât|rî |rți|rțu|sab|sc |sdi|sea|sex|sfi|sol|spâ|stu|suv|sân|tam|taț|ti |tie|ton|tră|tuț|uca|udi|ulo|ume|umi|unț|upa|upă|ur |uti|uvâ|uză|vaj|ve |vea|vi |xil|xpu|xtr|zer|zes|zez|ziț|zon|zăr|ânu|îna|înf|înz|ăpt|ărâ|ărî|ăsp|ăsu|ăti|ătă|ăur|țat|țir|țit|țui|țul",
+    sk: " pr| a |prá|ráv| po|ch |ost|ho |ie | ro|vo | na|nos| ne|ani|na |má | má|ažd|kto| ka|kaž| je|ti |ávo| v |dý |mi |ždý| za|ia |né |om |sti|ých|ova| sl|ne |ebo|van| al|ale|bo |leb|nie|tor|ého| kt| sp|eni|voj| zá|lob|nia|rod|slo| sv|ej |rov|to |áva| ma| by| ná|bod|obo|svo|je |spo|ať |nu |áro| sa|iť |mie|ený|nár|ovn|néh|odn|kla|ný |ov |roz|sa | vy|by |byť|eho|mu |nýc|ným|oci|stn|yť | k | vš|ajú|pre|jeh|vše|zák| do|nes|va |ými|ľud| ľu|och|oje|tre|lad|pod|pol|pri|prí|ran|tát|ny |oré|vna|ým |čin| vo|dov|est|hra|ko |maj|nak|stv|sť |šet|štá| ni| ob| vz| či|esm|jú |kon|osť|ré |smi|ému| in| tr| št|ami|bez|bol|chr|del|edz|etk|rav|vať|áci|žen| bo| oc| st|ako|iu |kej|kra|med|olo|pra|stu| ak| de| so| sú| ta|kým|lne|loč|nom|obe|ok |očn|res|tné|tup|uds|ákl|áln|čen| ho| od| pl|adn|aké|anu|ast|dne|dno|dsk|ela|ikt|ivo|ju |lan|ní |nú |oju|ou |por|pro|rác|rís|slu|str|tvo|vin|voľ|vzd|zde| ab| kr| to| ve| ži|aby|cho|de |du |inn|iný|iál|júc|ky |ké |las|liv|nej|niu|odi|odo|ože|pln|pov|re |ske|sta|vod|áv |čno|že | me| s | vý|ach|aji|aní|anž|aso|ci |cie|din|dzi|ens|ené|jin|len|man|nik|nže|oro|raj|ved|čas|žel| os| že|ada|ciá|dom|hoc|ich|iny|ku |luš|men|nen|oko|ove|pok|rej|ren|rok|rom|ský|soc|spr|tak|te |ven|ím |živ| be| mo| uz|ade|aj |ate|avi|avo|dli|dze|els|eno|ezp|hla|hov|iná|kéh|ly |nan|ním|odm|odu|oso|oľn|pom|pos|sob|sov|ušn|vie|vyh|za |átn|ísl| i | mu| vl|ais|aký|ave|bec|bož|cia|dný|ecn|ere|iak|ien|ist|jen|niť|ná |náb|ol |orá|rob|tky|uje|ver|zai|zen|ábo|áko|ľa | aj| op| úč| čl|akú|am |dmi|dné|edn|ejn|iad|jej|jno|kú |kýc|lat|nem|nez|nov|obn|odl|oji|ojn|oli|oti|ozv|peč|pla|poj|ri |ria|ros|rot|stí|ten|tiť|tni|tra|vlá|zpe|zvo|íva|šno|žív| ke| te| tý| z |abe|ado|ak |ará|bno|dek|ekl|ení|eob|ez |ier|ii |ina|ine|inu|lar|moc|nno|nsk|náv|ném|od |okr|ovi|oči|red|rá |ské|sve|sú |tro|tva|ty |uzn|vol|vot|vu |zab|zac|zás|úto|ľne|šeo|žia| ci| dô| hl| mô| vi| vô|ame|ano|aný|cii|cné|cov|cu |det|do |dok|dos|dru|dy |ech|eck|emo|ená|eru|han|ick|ieľ|isk|jed|jic|jvo|koj|lit|lny|lo |lož|lst|mes|mož|môž|nas|nst|oby|ojv|ole|oly|orý|otr|ozl|ožn|pad|poč|pož|rac|rie|ru |ríp|se |sto|ter|tna|tnu|toj|tu |tí |ujú|ume|upo|vaj|vé |zam|zan|zin|zná|záv|ách|ám |ípa|úča|či |čle|žno| le| or| ra| si| už| zb| zd| zv| út|aho|aje|ba |bav|bme|bôd|cha|ctv|dať|dbo|den|dpo|dém|ed |edo|eja|ek |en |enk|eče|hod|iam|iat|ied|ite|jet|ke |kom|kro|la |li |liť|lád|mov|nné|nný|nou|nut|nyc|nút|obm|obô|odb|odp|ody|oho|ore|org|ová|ras|rat|reb|rý |si |ste|tav|ujm|upn|val|vné|vos|váv|výc|ych|yhl|zba|zi |ása|ávn|ôd |úci|ýko|ždé| bl| dr| ku| sd| sm| ul| um| us| ča|alo|any|ané|aro|ase|atn|avr|be |ben|bla|bor|byt|cke|cké|dam|dec|dka|dra|dro|dôs|dôv|dľa|ede|edk|ejt|emu|enu|eti|eto|eza|ezá|eľa|gan|hlá|hop|hto|hľa|iek|il |in |inm|ino|iro|isl|iti|ivé|izá|išo|jmo|jné|jný|jto|ka |kam|lah|liš|lno|lné|lný|lov|lsk|láš|mat|mné|nec|nil|niz|nky|nmi|not|nác|odr|odá|odľ|omn|omo|on |ona|ono|opn|ori|osi|oto|ový|ozp|ozu|oľb|oži|oží|pno|pné|poh|pot|pác|rga|rsk|ruž|sad|sam|sch|sdr|sen|so |spá|st |súd|taj|tan|tej|tic|tký|tne|tnú|tok|tot|toč|tri|ulo|usp|uza|uče|uži|uží|vis|vla|vno|vom|vôľ|výk|zav|zdr|zli|zpo|zum|zác|záu|ácu|áuj|ávi|íst|ôst|ôvo|ôľa|ôže|ýva|čia|čov|čuj|ľad|ľam|šov|ší |ťaž| an| bu| ch| ic| ko| mi| my| nú| ot| se| sh| sk| sn| sá| tú| up| va| zl| zm| úc| úz| čo|aco|amo|aná|atr|azy|bné|bu |bud|bvi|ce |cht|ciu|dia|dní|dop|dza|dám|dče|ebn|edč|eln|ero|esv|etc|eľs|hro|iac|ide|imi|iné|jav|jom|kul|kup|káz|ký |ltú|luž|lás|maž|mer|muž|nam|nať|neb|nep|nev|ni |nic|nok|níc|obd|obi|obv|odz|ola|olu|oma|onn|opa|oru|otn|ovo|pat|pin|rad|rby|rev|rir|rne|ruč|sah|shr|sil|sko|sku|sle|slý|sme|stá|sám|sťo|tci|teľ|tia|tko|tku|tli|tný|toh|túr|tút|týc|týk|udo|udu|ult|upi|upl|užo|vac|vam|vaz|ve |vek|vid|vne|vor|vyp|vyš|vzá|yhľ|yšš|zak|zal|zem|zna|zvl|záj|ádz|ájo|ále|árs|áse|áto|átu|áza|íct|úc |úce|úct|úrn|úte|úze|úči|ýka|čný|čo |ňov|šie|žie|žov|žuj| as| az| bý| di| ib| li| mr| nu| ní| o | ok| ov| oz| oš| sc| tv| tá| vn| vr| vs| zn| úr| ús| ša| ťa|aci|acu|adk|adr|aha|ahl|ajn|ajo|ake|akl|al |ala|aly|amé|anl|anú|apo|arb|aru|as |asl|asp|at |ati|ato|aty|atň|avn|avu|ači|ačo|aču|aľ |ažk|ažu|ažď|ažš|bam|bar|bch|bdo|bha|bia|bko|bov|bra|buď|byd|býv|cen|chn|chu|chá|cic|cik|cio|cko|cký|cne|cty|cuj|da |daj|dav|dem|dis|dič|dku|dme|dnú|dob|doc|dol|dre|drž|dsú|eb |eba|eby|eda|edi|ei |ekt|eká|el |ele|elo|ema|emi|ena|enn|eny|epo|eri|ers|erá|esc|esť|etr|ets|evi|evá|ečn|eču|eľ |eň |eť |ež |eži|for|ha |haj|hať|hli|hna|hni|hob|hol|hos|hu |hyb|iah|iaľ|iba|ieb|ieh|ieť|iln|inú|iou|isť|ité|ive|ivu|ivú|ivý|iči|išt|jad|jak|jem|jho|jiv|jne|job|keb|ked|kia|koc|kol|kou|kov|kri|kár|kém|lec|led|lek|let|lež|lis|lnu|lod|lu |lé |lúč|lúž|lýc|lýv|mal|mel|mia|min|mo |moh|mok|mor|mra|mto|mus|mys|máh|mém|mí |naj|nap|než|nli|nnú|no |noc|nol|nál|náš|núť|obc|obh|obk|oc |oce|oct|oda|ods|odô|ohy|ojh|oki|oku|oká|oln|ome|omi|omá|one|opl|opo|opu|orb|orm|orn|orú|osp|ota|ote|otk|otl|ovd|ové|oví|oza|ozh|ozš|oča|očí|oň |oše|ošt|pco|piť|plo|plý|pon|poň|pus|púš|pňo|rar|rač|rim|ris|riá|riť|rno|rné|roc|roš|rst|ruh|ruš|rva|rál|rár|rát|rú |rža|sia|skr|slú|sná|som|stl|stú|sí |súh|súk|ta |tam|tar|tač|tec|tei|tie|tis|tla|tom|tos|trv|tst|tve|tvu|tvá|táv|téh|tíh|túp|tý |tňo|uch|udi|uh |upc|upň|ust|usí|uti|utn|utý|učo|uď |ušu|uže|važ|vdo|vej|vet|veň|vit|vní|vnú|vob|vou|voč|vre|vri|vrá|vst|vyj|vyk|vyu|vá |vád|ví |vôl|vú |výh|vým|výť|výž|ybo|ydl|yhn|yja|yl |ypl|ysl|yt |yti|yuč|zaj|zar|zač|zho|zlo|zlú|zmi|zne|zpl|zvi|zyl|zár|áde|ádn|áha|árn|ást|áte|áti|áty|áša|ášt|íha|íta|ôli|ôžu|úcu|úde|úhl|úkr|úpi|úro|útr|úče|úšť|úť |úži|ýhr|ýmt|ýťa|ýži|čiš|člo|čít|ďov|ľba|ľbu|ľst|ňoc|šan|šat|šné|šte|štn|šuj|šši|šťa|ťov|ži |žit|žiť|žko|žu |žďo|žší| ba| br| du| fa| fo| hr| ja| oh| su| ty| uc| uj| ur| zo| zč| úk| úp| če| ľa| ľn|adu|adá|adý|ahr|ahu|ajm|ajv|aku|aká|aln|alé|amý|ann|ans|aob|are|ars|art|asa|asu|asy|atk|ats|avz|azb|azk|azn|azo|ače|ačš|aži|bda|biť|bnú|boh|boj|bou|bsa|cem|chý|cim|cnú|cou|ctu|cud|dan|dar|dcu|die|dkl|dlo|dna|dnű|don|dor|dst|duc|duj|dár|dáv|dín|dú |dýý|ebe|ebu|ec |edl|emá|emí|enc|ene|enú|eod|epr|epš|ern|esa|ese|eta|ete|euz|evo|evz|eý |eýc|eď |eľu|eši|ešp|far|gán|hal|har|hom|hrd|hrá|hrň|huj|hád|háp|hýl|ice|iel|ijí|ily|ilí|im |inf|ipú|ity|izn|ič |ižu|jaz|jať|jeý|jma|jmu|jvy|jím|keď|kmi|knu|kor|koľ|kru|kyt|lak|lav|lač|le |lep|leč|lie|lnú|lup|lyh|lím|lým|ma |mať|mne|mom|mos|muč|my |myš|mác|mýc|mýš|nal|nav|naž|nci|nde|ned|neo|neu|neľ|nfo|nii|nim|nit|nič|niž|nku|núd|nűc|oba|obr|obs|obu|oco|odc|ode|odk|odí|ohl|ohr|oht|ohľ|oj |okm|omí|ond|oni|oná|onú|opr|opú|ora|osk|osl|ot |otu|ovu|ozd|oču|oľv|pan|pel|pný|pši|raz|rba|rda|reš|rgá|rij|rip|riz|rmy|rmá|rny|rpe|rte|rut|rán|ráž|réh|rém|rí |rýk|rňu|seb|sk |sky|sli|slé|smý|sna|spl|suj|suv|sy |súl|súč|tat|teý|teš|tkn|tly|tno|tov|trp|tsk|tyr|tál|tém|tým|ud |ude|udz|udú|umn|umo|upr|urá|uté|uve|uší|už |užb|vač|vec|ves|via|vny|vný|vov|vyb|vym|vys|vyt|vyv|vza|vzn|vzť|víj|výz|vňo|vša|ybu|yha|yka|ykl|yko|yme|ypo|yra|yst|ytl|ytv|yví|yšl|zah|zao|zas|zat|zbe|zdi|zdo|ze |zit|zku|zly|zme|zni|zno|zok|zot|zyk|zčk|zši|zší|zťa|ádo|án |áni|ápa|át |ávň|áše|ášť|áža|íja|íma|ín |íri|údo|údy|údz|úko|úla|úpl|úsi|úst|útl|ýli|ýzn|ýýc|ýšľ|čes|čkl|čne|čut|čše|ľan|ľno|ľné|ľní|ľný|ľsk|ľve|ňuj|šad|šej|šen|šir|šiť|šli|špo|šír|šľa|šší|šť |ťa |ťah|ťať|ťou|űco|žaj|žan|žať|žbo|žde|ždo|žil",
+    sl: " pr|in | in|rav|ti |pra|do |anj|avi|je |ih |vic| do|nje|no | za| po| vs|li |ost|ega| dr| na|ga |ja |ne | v |ako|co |ico| sv|svo| im| ka|ima|van|vsa|kdo|dru|pri|sak|sti|stv|akd|nih|nos|ma |ali|nja| ne|jo | de| iz|iti|ni |pre| al|ki |red|avn|jan|neg|vo | bi|na |obo|vob| so|ati|em |ova|se |tva|ko |lov|oli|ruž| ki| mo| te|eva| se| sk|bod|drž|ove|rža|ter| nj| ob|sto|žen|vlj|žav| ra| sp| st|aro|ena|lja|del|kat|mi |va |ve |voj|ate|nak|pos|var| en| je|imi|kol|kon| čl|eni|zak| ta|bit|di |ego|gov|kak|nar|ora|pol|sme|vat| ni| z |en |enj|jeg|mor|nsk|ovo|rod| sm|ans|ji |ju |tvo|vol| me|avl|ed |eja|elj|ene|er |ev |jem|jen|nan|odn|otr|ri |sam|sta|uži|za |čin| s |dej|itv|ičn|me |nst|ovi|so |člo|šči|živ| va| ve|ebn|elo|ic |lje|olj|pno|rst|rug|ars|da |eko|kup|la |odo|oln|raz|sku|vez|vne|ajo|dov|eme|kih|krš|lju|med|nim|nju|ose|ov |ra |rem|ski|ta |tak|vič|vni|zna| bo| da| ko| zd|boš|bra|dno|dst|edn|ere|jav|kaz|kov|mel|nik|ode|ošč|si |spo|vi |vih|zdr|zni|čen|čno|šne|žev| sa|akr|ara|bi |dol|ive|lji|ljn|mož|mu |nem|odi|oji|ons|ršn|tev|top|užb|vek| br| ja|aci|aln|ava|bre|cij|ijo|iva|jih|lan|lit|lno|nji|obr|ran|raž|rim|tem|ust|uže| os|amo|azn|bno|ero|ice|ina|kor|mej|oci|oje|ošt|pro|rez|ru |seb|skr|sod|st |ste|to |upn|ver|vse|če | us| zv| ži|aj |ano|ače|de |dis|dne|dos|etn|iko|ke |kla|las|mer|nit|niv|nov|ogo|or |ori|ože|reb|reg|skl|te |tve|ugi|veg|zve|čni|žbe|žno| gl|aja|akš|an |ani|be |ce |cia|eds|eh |emo|emu|ezn|ial|ivl|išč|kri|kšn|lni|loč|loš|njs|od |opn|oče|ošn|plo|po |pot|poš|ris|sni|soc|spl|sre|tav|tvi|vsi|čas|šni|žin| ke| mi| od| tu| up| už| vo|ave|aže|bir|bla|ede|eli|ila|im |ime|isi|ist|ite|izb|izo|jev|jsk|juč|keg|ker|klj|odv|oko|olo|om |ome|pod|riz|ros|ske|sko|sov|spe|spr|tan|tni|tor|tov|tre|tro|tud|udi|upr|zad|zav|zbi|zno|zob|zpo| lj| sr| to| vr|adi|ago|aki|ami|aso|ast|azv|ben|dek|eri|eru|eže|gak|got|ica|ika|ino|isk|ivi|iče|jiv|jno|jud|kot|ku |liš|maj|naj|nič|nom|obl|ono|ot |rad|ral|rit|tno|toj|ume|učn|vna|vno|zag|šno|što| k | kr| om| ot| vk| zn| ča| šo|ade|ame|ana|bil|ca |dna|ekl|ela|epo|ezo|ezp|eše|gim|gla|gle|goj|hče|ihč|ilj|izn|izr|jat|jni|ka |kim|kle|lar|lač|led|lic|lžn|min|mov|nač|nep|oj |ola|olž|osp|ota|ovn|oči|ožn|peš|pog|pom|pus|rac|res|riv|rok|rov|str|tič|tra|vaj|vkl|zo |zvo|čel|čla|šev|šol|štv| di| mu| no| op| re| si| ur| vz|ah |ake|avo|azu|bne|bo |den|dop|dvi|edi|eji|ele|eno|eod|ez |haj|hov|ije|inj|isn|iz |izh|jit|jst|krb|lag|le |lne|lo |men|mir|nac|nam|nap|nas|neo|niš|obe|ojo|opo|ozn|pla|poz|raj|ras|rid|rje|ro |rot|sil|stn|teh|uds|ur |veš|vij|vis|vre|vu |zap|zar|zha|zum|čan|ške| bl| ci| la| ok| ro| su| um|ado|adu|agi|ale|am |ane|apr|asp|asu|aža|biv|bve|cev|cil|dev|dik|dni|dra|du |ebi|eda|eje|ejo|eln|ens|esn|ezm|ešk|gih|gin|goč|hko|hra|ija|iki|ili|ind|ine|ini|ira|ire|ivo|izp|izv|išk|jaj|jne|kli|kom|lad|len|lež|lj |met|mo |mog|moč|mur|ndi|nek|nez|not|obv|oja|okl|ole|omu|opk|opr|opu|otj|pad|pku|pnj|re |rep|rne|roj|rsk|rši|seh|sel|sem|sin|ska|sno|stj|su |tar|teg|tel|tit|tjo|tju|uge|ure|vah|val|vam|vze|zač|zet|zmo|zra|zva|čet|či |šče|žan| kd| ku| oz| pa| pl| sl| ti| že|ajn|ar |asa|asn|av |aze|bar|bni|bol|bto|bča|dan|dpi|dvr|edo|eka|emi|epr|ers|est|eza|ezi|gan|gar|idr|iho|iri|iru|išj|jej|kog|kos|kra|kul|ljs|lnj|ltu|luž|mev|mez|moš|nad|nav|nob|ob |obt|obč|oga|okr|omo|oni|osa|osl|ovs|oze|ošk|pa |pin|pis|pop|pov|rat|ren|rij|rip|rni|rno|rže|sli|slu|suž|tož|tu |tur|tvu|uje|ult|upi|urn|ved|vel|ves|vit|viš|vrž|zem|zen|čil|čit|čne|ši |šje|ški|ško|šlj|šte|žal| av| ba| ce| ed| gi| hr| id| is| kn| ma| nu| oh| ud| ut| vd| vi| vm| zb| zo| zu|ada|adl|agr|ahk|aht|ajv|ala|alj|amb|apa|apo|apu|arj|arn|arš|ase|ata|atu|avj|avt|avu|azg|azl|ača|ači|ačn|ban|beh|bež|ble|bst|cel|ci |cno|dem|din|dit|dje|dku|dle|dlo|dob|dok|dor|doč|edk|edp|eha|ehn|eho|ej |ek |elu|emb|eml|erj|eso|eti|eto|evn|eči|ečj|eša|eža|ge |gem|gib|go |gon|gra|ha |hni|hte|iba|ibe|icn|ide|ido|ihk|iji|ilo|ins|int|ipa|irn|isa|ita|iza|izk|iča|iči|išl|iže|jal|již|jna|kan|knj|lah|laš|leg|lek|ler|let|lez|lik|ln |lu |mat|mbe|mbo|mem|meš|miš|mlj|mok|nag|nce|ned|neh|nic|njo|nol|nte|nuj|obi|obs|odl|ohr|oju|ok |ona|onc|ope|osk|osn|oso|osr|ovr|oč |očj|ožj|peh|per|pok|pon|pou|ram|rbi|rbo|reč|rib|rih|rin|rič|roc|roš|rož|rpn|ruš|saj|san|sež|sve|taj|ten|tis|trj|trp|ude|udj|ugo|ujn|una|usm|usp|utr|uče|ušt|vdo|ven|vet|več|vje|vme|vrn|vrs|vst|vto|zah|zas|zbr|zgl|zi |zkl|zop|zpl|zre|zun|ča |čem|čih|čjo|čuj|šav|šča|žat|žb |žbi|žit|žja|žne| ek| ge| go| ho| iš| o | or| tl| tr| ug| uk| un| uč| vš| ši| šč| ža|adn|aga|ahu|ak |al |arb|ari|aru|arv|asi|atj|aša|aše|bda|bli|bog|cah|dal|dar|dea|dež|dij|dil|diš|dtu|eal|ehe|eke|ema|epi|ept|era|ern|esa|eta|etu|evš|eze|ečl|ešl|ešt|for|gat|gen|gna|gos|gre|her|hot|hu |ik |il |inf|ink|ipe|iro|isl|iso|itk|izg|iču|išt|ižu|jez|jka|jlj|joč|jun|jve|jvi|jši|kem|kop|kož|kre|kru|leh|ljš|lna|lož|mac|man|mih|mik|mis|mno|mom|mou|msk|muč|nat|ner|nes|neč|nfo|nij|niž|nj |njk|nko|nok|nu |obd|obn|odp|odt|ogr|oiz|ojn|ojs|ol |oma|oms|onu|opi|org|ork|orm|oru|ote|oti|oto|ouk|oup|ouč|oča|očb|oža|ožb|pel|pen|pi |pir|pni|por|poč|prt|pta|pšč|rah|rba|rbn|rdi|rej|reš|rga|rgo|rir|rja|rko|rma|roi|rt |ruj|rut|rvo|sa |sk |sle|sne|sob|suv|tej|tek|tep|tih|tir|tje|tka|tla|tne|tos|trd|trg|tuj|ug |ugl|ujl|ujo|ukr|uku|umn|umo|uni|uno|upe|upo|upš|utn|uva|uve|uči|uču|užj|užn|vil|vin|vom|vor|vso|vzg|vši|všt|zal|zan|zat|ze |zgn|zgo|zik|zla|zli|zvi|čbe|čev|čje|čji|čuv|ša |šen|ših|šij|šil|šir|šna|šču|žaj|že |žel|žje|žnj|žuj",
+    sq: "të | të|dhe|he |në | dh|et | e |imi|për|dre|ejt|rej| dr| pë| në|sht|gji|ve |jit|it |ith| gj| i |het| li| sh| ve|jtë| ka|ër |ush| nj|me |hku|jë |kus|ka |in |sh |së | pa|ën | ku|etë|jer| si|lir|thk|tet| ba| që|mit|re |se |ara|ohe|si |eri|eve|jet|një|që | du|mi |rim|shk|ash|iri|nje|ose|ra |rë |duh|eti|vet| me| nd| ng| os|bas|es |tën|ësi| mb|ga |jta|ndë|nga|uhe| as|do |min|anë|end|ime|tje|art|at |ave|hte|jes|ta |und| ar|dër|ndi|ri |ëm | pe|htë|ris|shë|uar|ur | ko| ma|en |shm|sim|tës| je|cil|edh|gje|isë|tar|tim| ci| kë| nu|hme|ish|kom|lim|nuk|or |uk |ësh| pu|ar |bar|mar|omb|tyr| de| së| ës|ht | pr|ari|esë|ij |im |lli|ojë|tij|ës | fa|irë|ke |nal|ore|per|roj| ra| ti|esi|hëm|kët|par|ras|roh|vep|ërk|ale|asn|bro|hë |igj|inë|le |mbr|mun|pri|qër|rgj|rte|snj|tit|ven| pl| tj|are|jen|lit|otë|pun|res|tes|ëri|ëta|ëzo| mu| t |ali|ars|atë|hoq|ite|ive|je |kur|oqë|riv|ror|sho|tav|te |ërg| po|epr|ers|erë|ike|ill|lot|nd |nim|ona|plo|rat|riu|rso|shi|son|ti |uri|zim| di| ed| kr| re| çd|arë|ast|bli|det|dis|ete|gur|ia |ie |igu|ik |ind|kan|lar|mba|mev|pas|rin|rsi|sig|çdo|ërb| an| do| gë| mi|arr|bët|din|ftë|gëz|lor|mbë|ojt|pje|pro|sis|tat|tha|thë|uro|ërf| at| be| bë| mj| mo| ne| pj| zg|ami|bes|esh|evo|fam|hje|hkë|idi|ila|ili|ilj|iut|izi|jed|jnë|jsh|jtj|kri|kua|kuf|kun|lat|lig|lin|llo|mbe|mil|nev|oft|rbi|rsh|shp|the|tu |ufi|ull|ut |voj|yre|zgj|ëll|ët | ja| më| qo|aba|asi|ati|dik|era|ety|far|fsh|hen|hsh|htr|ja |jan|ket|kti|met|nda|nën|qof|rab|rar|rit|rëz|ter|ths|toh|unë|zoj|ëro|ëso|ëtë| rr| th|ani|as |asu|bat|bev|bit|ekt|eme|esa|esp|for|hem|htu|hën|kla|kës|lid|lik|lje|mel|mje|nte|ojs|opu|pa |pop|pub|rko|rrë|rtë|sin|st |sur|tik|tra|tëm|ubl|ues|urr| fo| in|arb|baz|dek|dje|dur|ekl|elo|ena|eta|fiz|ial|ini|itë|jek|kry|mos|më |nde|ndj|nji|ojn|pek|pen|ran|ren|rfa|rfs|ria|rje|rye|sa |spe|tin|ërs| ai| dë| fë| gr| qe| so| u | vo| vu| zb| zh|ai |azë|bëj|dhj|dhë|dim|dit|enë|fëm|hin|hir|hur|hvi|idh|ijë|inj|int|is |itr|jev|jve|jëj|jët|kat|kim|kul|lla|lln|lne|loj|mid|mij|ndu|net|nie|nsh|nës|oni|orm|oti|puj|qen|qël|qës|rke|rua|sia|sie|sor|sti|tur|tër|ult|vil|vot|vul|vër|yer|zba|zhv|ëjt|ëmi|ërt| ak| ke| la| nx| se| te| ty| vë|aj |akt|aty|ban|cia|der|des|duk|dën|enc|er |ere|ha |hke|imt|ion|isk|iti|jde|jin|jt |koh|kuj|kër|mta|ndo|njo|nxi|oce|oci|ofe|ohë|on |ora|paq|pre|rac|roc|rra|rrf|rëd|rën|skl|skr|soc|sës|tro|tua|ujd|ura|zë |ënd|ëni|ëns|ërp|ëve|ëzi| br| fi| jo| ju| ky| or| sa| sk| us| çf|aft|ajs|al |all|anc|apu|aru|asa|ata|ate|ava|avo|bim|bre|cor|cën|da |dhi|dhu|dih|dos|eal|ehe|eks|epë|ero|ese|eto|faj|fav|fes|fil|gjy|heh|hja|hki|hko|hpë|hër|ide|ihm|ipa|ira|ivo|jig|joh|jtu|jur|ken|kol|ky |lav|li |men|moj|mor|mën|nat|nav|nco|niv|nët|ohj|oj |oli|oll|ors|osh|pap|pav|pol|pra|pus|qim|ral|rbl|rid|rie|rij|rmo|rof|rre|rro|rur|rës|sat|sio|sip|soh|sve|sën|tev|tri|ujv|uke|var|voh|vor|yri|yrë|zor|çfa|ëdo|ëjë| bu| ek| fr| ga| ll| ni| rë| ta|acë|ak |aku|ane|aqe|aqë|atu|azi|bje|ble|bur|bëh|bër|ces|cës|daj|dal|dës|edu|egj|eja|emo|est|etr|faq|fij|gar|gra|gru|him|hmë|hpa|hpr|hyr|ies|iji|ika|ilë|iod|iqe|iqë|ist|ito|iu |jeg|jim|jo |jël|kll|kon|kup|kuz|ler|liz|ltu|lën|mat|mbl|miq|mir|mja|mon|ncë|nes|nis|nit|non|nyr|odi|onj|pal|pos|pti|qes|qet|qev|rea|reh|ret|rhy|rio|rog|rpa|rrj|rta|rue|rup|rët|rëv|sav|she|sue|thj|tis|toj|tor|tsh|upt|vel|ver|vis|xit|yrj|yru|ysh|zit|ëhe|ëno|ëny|ëqe|ërh| af| au| az| bi| bo| fe| fs| hu| hy| id| kj| kt| le| na| qa| ru| su| to| ul|aca|adh|afa|ajt|ala|ama|an |ana|and|aqs|arg|ark|ask|asy|ath|ato|ats|aut|aza|açm|bet|bi |bin|bot|cav|ced|cim|cit|de |dem|diq|dob|don|dsh|dë |eht|eje|ekj|ekn|eku|el |eli|eni|eqë|erg|esv|eth|etj|etu|fal|fet|fit|fry|ftu|gan|gj |gja|goh|gua|gë |ham|han|has|hdo|hik|hka|hmb|hmo|hqi|hta|hti|hum|hyj|hëv|ido|ijv|iku|il |isj|itj|ivi|jaf|jak|jas|jat|jej|ji |jop|jsi|jto|jtp|jyk|kak|kes|kje|kjo|klu|kni|koj|kra|ksk|kso|kth|ktë|këp|las|led|len|leq|let|lis|lja|lle|llu|lme|lqi|lta|lur|luz|ma |mbi|mbj|mok|mës|nci|nds|ne |nik|nin|niz|noh|nsi|obi|ogë|oje|oji|okr|ole|ons|opo|orc|org|orë|osa|osv|paf|pak|pev|ple|pul|pël|qar|qsu|rad|rav|rba|rbë|rci|rdr|rfi|rga|rgo|rka|rku|rma|rri|rsy|rth|rti|rto|rëq|saj|saç|set|shd|shq|sid|sit|sje|sku|spo|sta|ste|sul|sye|sys|sëm|tek|til|tja|to |tol|tpë|tue|uaj|uan|uhu|ujt|ulm|umb|une|uni|uno|upe|uru|urë|uto|uzi|uzu|vej|ves|xis|yjë|yka|yro|yrs|za |zil|ziv|zon|zua|çme|ëjn|ëlq|ëmu|ëna|ëpu|ërd|ërr|ërv|ëse|ëto|ëtu|ëty| a | ad| ap| ce| cë| da| eg| fj| fu| ob| of| pi| st| tr| vl| çi| çu|aan|aci|adm|agu|ahe|ake|alu|alë|amb|amj|amu|ans|ant|apo|asg|atj|av |avë|bah|buz|cak|cer|cio|dea|den|dev|di |dmi|dom|dry|dua|eci|egt|egë|ehj|ej |eko|ele|eng|ent|erj|ern|erp|err|evë|fen|fja|fri|fti|fun|fçi|gju|gjë|gre|gri|gti|gër|hej|hfa|hty|hës|iev|ifç|ihe|ijn|ijt|iki|ikë|inf|isp|ita|iv |iva|izo|izë|jal|jih|jof|jon|jte|juh|jyq|jyr|jër|kam|kar|kel|kis|kor|kt |kte|kud|kën|la |lam|laz|lej|lev|ll |llë|lti|lua|lë |lës|mac|mas|mes|mik|mpe|mua|ndr|nfo|ngj|ngr|ngu|ni |nom|ntu|obj|ogr|okl|omi|omo|omp|ond|ono|ont|onë|ori|orr|os |osd|osr|osë|ovr|ozi|paa|pag|pat|pet|pi |pik|piq|po |pon|poz|put|raz|rbu|rca|reg|rem|rev|rig|rik|rki|rmi|rni|rok|rpi|rpr|rpu|rsa|rsu|rsë|rve|rvi|rym|rys|ryt|sam|sdo|sec|sgj|shf|sil|siv|ska|soj|sov|sre|str|sër|ten|thm|tia|tig|tir|tiv|tre|tru|trë|tus|tut|typ|tëq|udo|uhë|uki|upi|usi|uta|uth|uze|uzj|vat|vle|vra|vël|ye |yen|yes|ymë|ypj|yqë|yts|ze |zin|zja|zoh|zëm|zër|çi |çif|çua|ëdh|ëng|ërc|ërm|ëru|ërë|ëti",
+    sv: "ar | oc|ch |och|tt |er |ätt|en |ing|för|rät|ill| ti| fö|nde| rä|til|et |ll | en|and|var| de|het|om | ha| fr|de |lig|nin|as |ell|ng |und| in|ska|att|lle|gen|ter|der| i |all|nva| at|fri|env|ör | so|sam|ghe|ete|ga |har|ler| el| sk|lla|av |ens|igh|ka |som|na | av|den| ut|iga|la | si| st| vi|ten|tig| sa| va|ion|ns |ra |tti| un|ig |män|nsk|an |nat|är | al| gr|ati|rna| be| är|ta |vis| åt|gru|han|lan|nge|sta|tio| me| må|isk| li|ern|nna|äll|ans|kli|må |sni| an| la| na|dig|med|run|stä|da |kte|lik|änd|erv|kap|äns|gt |igt|itt|one|ri |rvi| vä|ad |dra|id |isn|kal|uta| re|ent|sky|str|ver|vid|vil| fa| mä|ed |erk|ika|nom| mo|bet|det|ihe|lag|ndl|ner|ran|ras|rih|tan| ge| på|end|häl|kyd|nda|nga|på |sin|tet|tni|upp|ydd| om|amh|amt|ara|arb|dd |els|ers|ess|nas|per|änn|ärd|ap |bar|ber|ckl|del|ets|gan|gar|int|je |lin|lit|mot|nad|ndi|on |ot |rbe|rel|ro |tra|tta|täl|val| ar| hä| så| ve|arj|ege|ilj|ilk|ke |let|lke|llm|lmä|lse|mt |nd |rje|sa |yck|än | bl| eg|ali|ast|bli|cke|des|dom|enn|era|frå|in |ja |liv|mhä|ndr|nis|re |ren|res|se |tat|väl|öre| pe| up|aga|cia|gga|ial|inn|ite|kil|oci|rän|sit|ski|soc|tte|vär|äkt|ån |öra| fu| ic| tr| äg| äk|akt|al |beg|erä|ful|ick|kla|men|nni|nte|när|rkl|tag|try|ts |ull|vän|örs| ko|aff|ami|ats|dli|dlä|ekt|eli|eno|fam|fre|gad|gär|igi|it |jut|lda|lln|lut|läg|mil|mma|mst|nju|nst|nta|olk|raf|red|rit|rso|rån|ser|sig|sko|slu|son|st |te |tvi|ägg|äro|öva| fo| ku| än|ade|age|ala|arn|el |eme|enä|fol|god|gri|ida|lem|lja|lt |nal|nan|nds|nli|nsa|ona|rd |rid|rip|sk |sst|ste|stn|tad|tas|tli|tsk|tyc|åts| ba| he| nö| sy| ta|amm|ari|esp|frä|gli|hän|hög|ia |ild|ivi|ket|kni|kt |lar|ld |lna|läm|nel|nhe|nne|nöd|pli|rde|ria|rin|rli|räm|sfr|skl|ss |tis|tnj|trä|ttn|ttr|tän|utt|utv|vet|åtn|örf| go| hö| ma| mö| nå| ra| rö|am |ank|ann|are|ate|dss|dty|eck|ede|edl|egr|egå|eri|es |fat|fba|ffb|gio|gre|hem|ins|jäl|kas|ken|kra|lka|llf|lls|lös|mak|man|mål|mån|nsl|ntl|någ|odt|onl|or |ord|pek|ppe|rar|rdi|rka|rmå|rös|sen|sla|spe|sse|sät|tar|tid|tst|ttv|tve|tär|vas|vec|vin|vit|äga|åda|ågo|ål |örk|örm|öst| bi| dä| er| gä| ho| of| sj| sl| sä| öv|ads|alt|amå|at |bef|bör|dan|dar|das|dva|dvä|där|ems|eni|ett|fas|ffe|fra|fte|föd|gas|gon|grä|gör|hål|ikt|isa|ist|iti|iv |kan|kom|kon|krä|ksa|kul|kun|las|lj |lld|llg|llt|llä|mja|ndo|ndv|ngr|ola|ono|ons|ost|ral|ram|rdn|ris|rks|rni|rst|rt |rup|ryc|ryg|råd|sat|sfö|skr|sts|stå|syf|säk|teg|tol|tre|tri|tur|tyr|töv|utö|van|yft|ygg|ytt|äde|ämj|ämp|äng|änk|ära|ärn|åll| br| dö| le| lä| or| po| ru| to|ag |amv|bil|bro|dam|dda|dle|dpu|dsa|eds|ele|enh|erö|fen|for|get|gåe|hon|hör|idp|ier|ina|inb|ino|ipa|ipe|kes|kol|kor|len|lfr|lje|lko|llk|llv|lst|ma |mel|mli|mme|mor|mpl|mve|mät|nbe|ngå|nkn|nkt|nse|nsy|ntr|ntä|off|oli|oms|ora|ort|ott|pan|pen|pet|pol|ppf|pun|rn |rsk|rsä|rum|röv|she|slö|sma|ssa|sto|syn|såd|såv|tgä|tmä|tro|tse|tsf|tsl|unk|utn|vår|yn |äl |älj|äls|ärl|åen|åne|ård|åte|åtg|åvä|ödv|ögr|ön |örl|örv|ösh|öve| ej| hj| kr| kv| lö| ob| ri| sö| tv|ale|ams|ana|apl|beh|dis|dna|dni|ds |dsf|efa|efo|efr|ej |emo|erh|erl|ero|esl|est|esu|evn|fta|fär|gem|ger|ges|ggh|giö|gsf|gän|hel|hjä|här|idi|inh|is |iva|iös|jän|kar|ker|kos|kta|kti|kvi|kyl|kän|lav|lde|ldi|lev|lfö|lp |lso|ltu|lön|mer|mhe|min|mpn|mrå|msk|neb|nef|nen|ngl|ngs|nkl|nno|nor|omm|omr|opa|pni|pp |ppl|rak|rdr|rfa|rkä|rme|rne|rot|räl|råg|rör|sjä|spr|sty|sås|sök|tal|tgö|tjä|tor|ult|ung|unn|ure|ust|vna|yld|äge|äke|äld|älp|älv|äri|åde|åga|åso|åt |åta|öd |ödd|öka|ösa| bo| bö| di| do| du| ef| ga| gi| kl| my| nj| os| pl| rå| se| sp| te| tj| yr| yt| åb| ål| ås| öp|ack|adi|agl|aka|ake|ald|ang|ant|ape|aps|ard|aro|asg|ato|atu|ave|avh|bes|bev|bla|bos|bud|cka|ckf|dad|def|dem|die|dir|dit|dos|dug|död|döm|eel|efi|eg |ekn|ela|em |eml|ena|enl|eor|epp|erd|erm|eta|etr|eva|fac|fal|far|ff |fin|fly|föl|gat|gel|gif|gå |gån|gås|hov|iel|ift|ige|ikv|ind|inf|inv|iod|ire|jel|jen|jli|jni|jor|js |juk|kdo|kfö|klä|kov|kts|kvä|lak|lbe|lbö|ldr|lfä|lgo|lgä|lhö|li |lid|lis|ljs|lk |llb|llh|llr|lni|lrä|lsa|lsä|ltr|lus|lv |lva|lvu|lyt|läd|län|låt|mar|mas|mat|mbu|met|mna|mok|mss|mty|mvå|myn|möd|möj|möt|ne |nfö|nka|nke|nsn|nt |nti|obl|odi|odo|oen|okr|ole|omb|omi|omp|omv|org|ori|orn|ose|osk|ovs|ovä|ovå|pas|pfa|pho|ple|plö|pph|ppr|pri|ps |rat|rav|rdo|ree|rek|rep|rfl|rfö|rga|rhå|rhö|rie|rig|rio|rjn|rk |rke|rld|rlu|rlå|rop|rre|rrö|rsv|rsö|rve|rvä|räc|räd|rär|räv|sel|seo|sgr|sik|sju|sku|sme|sov|stö|sun|sva|sys|sär|så |sör|tek|tel|tes|tie|tit|tmi|tna|tnä|tom|ton|tsm|tsä|ttm|tå |tåe|tör|ud |ugl|ukd|uld|um |umm|url|urs|ute|utg|uti|utm|uto|uts|uxn|va |vad|vsm|vux|väs|xna|ynd|yra|yre|yrk|yss|äck|äkr|älb|älf|ämn|äms|änt|ärk|ärr|ärs|ärt|äse|äta|äti|äva|åbe|åel|åld|ång|ås |åsi|åtm|öda|ödi|ödr|ögh|öjl|ölj|öma|öpp|örb|örd|örh|örj|örn|ört|örä|ösn|öte| by| bä| ek| fä| gu| gö| hu| hy| hå| ia| ju| kö| oa| op| ou| pr| su| ty| ur| äv| ån|adg|agi|ags|akn|alf|ama|amk|aml|anf|anh|ani|apa|ars|art|atl|bib|bin|bju|boe|bun|byt|bär|bät|ck |cks|ckt|dak|dfä|dga|dgä|dhe|div|dla|dst|dsv|ebo|ebä|ebö|edr|edv|een|eff|eft|egs|eha|ehå|ehö|eko|elb|emm|ene|etg|ety|fek|ffn|fni|fos|fru|ft |fyl|fän|gak|gig|git|gjo|gna|got|gry|gs |gsl|gst|gud|hed|hos|hud|hys|iak|ibe|ide|iks|ila|ilt|iml|inj|jan|jud|jur|kef|kri|ksm|kst|ktl|ktn|ktt|kön|lad|lbu|ldh|ldo|les|lgr|lkl|lll|llo|lo |lsm|lta|lvs|lys|läk|mes|mis|mka|måt|ndg|ned|nfo|ngi|ngj|ngö|nhå|ni |nit|nje|njo|nns|nsf|nso|nuf|nyo|oav|obe|ode|ofö|ol |omä|ond|orm|orr|os |osf|osl|oun|pa |par|pfo|pfy|ply|pon|pro|pru|prå|prö|rba|rbi|rbj|reg|rg |rhe|rik|rim|riv|rnu|rod|roe|ror|ros|rs |rsa|rse|rsp|rti|rtr|rts|rty|ruk|rus|rva|rym|ryt|råk|sak|sas|sed|see|sem|sid|sis|slä|sor|spo|sti|stj|sur|suv|svi|söv|tem|tfö|tiv|tru|tsö|tvä|tyd|täd|tår|udf|udn|uds|uft|ukt|uri|utf|utr|uve|vat|ven|vha|vhä|vni|vri|vst|väg|yde|yll|ym |yo |yr |ysa|ysn|yta|äg |ägn|äni|änj|ärg|äve|åk |åny|år |ögs|öri|örr|öry|övn|övr",
+    tl: "ng |ang| pa|an |sa | sa|at | ka| ng| ma|apa|ala|ata|pag| na|pan|ay | an| at|ara|tan|ga |pat| mg|mga| ba|awa|aya|ama|kar|rap|lan|na |nga|gka|agk|yan| ta|gan|tao|asa|aha|may|ao |aka|ing|ana|kan|nan|kal|man| la|mag|pam|baw|san|wat| y |ali|ban|aga|kat|lay|kas|aan|ong|in |isa| ay|yon|una|wal|any|ila|nya|ina|on |tay|han|nta| o |gal|kak|mam|ya |ant|lah| ga|ag |ili| wa|ans|aba|agp|kap| it|agt|nsa|ari|gaw|lal|wa |hay|ito|nag|pap|ran|to |hat|lin|gpa|ngk|sal|ung| is|ahi|as |gta|no |pin|agi|kai|yaa| di| si|ita|lag|aki|di |hin|bat|lip|mak|mal|tat|gay|gga|iti|nah|pun|uka|alo|gin|ika|nin| pi|aru|ipu|la |uma| ha|ani|asy|li |nap|sas|syo|uha|usa| ip|ags|ano|ap |duk|ihi|ini|ira|lit|nar| tu|aho|al |kin|sap|tas| bu| da| ed|ain|ais|ami|buh|edu|hal|iba|ig |ipa|mah|ngi|od |par|ri |sin|ula|ad |gsa|iga|it |kab|kil|pak|yag| ib| li|agb|agg|ba |bay|git|iya|mas|mba|nak|pas|sam|anl|aun|ayu|ipi|iyo|loo|oob|siy|tag|tar|tun| aa| al|amb|hon|lab|lam|lon|ma |map|mil|nla|pah|rus|sah|sar| ar| ki|abu|agl|aig|and|api|ati|ayo|dai|dig|gdi|igd|kau|lig|lih|nda|ngg|ngu|nli|ril|saw|sta|ta |tam|wir| ni|ak |akd|gi |gun|ibi|ily|ino|is |kda|lak|lim|lya|mit|nab|nas|ok |rar|tut|uli|unl|uru|utu| es| hi| hu| ku|abi|ado|agu|ail|atu|atw|bab|bal|big|bil|da |dap|do |eli|est|gag|gki|gli|hi |hiy|im |ind|kam|lil|lun|nat|ndi|nil|pal|rel|run|rur|tad|tik|tin|twi|uku|uri|yar|yun| lu|aal|aas|alu|amp|aon|bib|bub|gam|hih|him|igi|ima|itu|iwa|kul|mab|nit|ob |pil|pul|sak|ubu|uni|uyo|wan| bi| ik| re|agh|asu|gat|gha|gig|gku|gtu|guy|gya|hil|ian|il |lad|lis|mai|mo |nal|nay|ngy|oon|os |ra |ria|rin|rya|suk|tak|tul|tur|upa|uro|wai|yod| gu|ait|aso|daa|gko|hah|iki|isi|ka |kaa|kod|kur|lai|lub|mat|mul|naw|oba|ora|pay|raa|ral|rat|ro |sok|tum|ulo|usi|yap| as| el| il| le| mo| pr| pu| te| um| uu|amo|ary|aw |bis|bot|dah|din|dit|ehi|ele|eme|ent|gah|gbi|gbu|ghi|gul|hit|hok|hum|ida|iha|ik |imo|imu|kag|kah|kik|kip|kuk|kun|laa|law|leh|lem|lik|men|mor|mpu|nai|ngh|nir|nsi|ot |pau|pi |pis|pro|pup|rah|sig|sim|tal|taw|ter|ti |tim|tiy|ulu|umi|upu|uus|yad|yay| t | up| ur|aay|agd|aii|ako|aku|amu|apu|awi|bae|bag|bha|bud|bun|but|dar|dhi|gba|gda|go |gpi|gsi|gum|har|ins|ip |ki |kit|kon|ksi|kup|lar|lus|mpa|muh|ngo|ni |nik|niw|nod|nsu|nyo|ol |paa|pip|sag|sik|sil|sip|sun|sya|taa|tis|tuw|ubh|ubo|udh|uga|uno|uti|uwi|wak|win|yal|yo |yus| ag| ak| de| do| gi| id| ii| iy| lo| no| ri| su| un|aaa|aab|aar|abo|aen|aib|akb|akl|ald|am |anr|aos|apb|aro|asi|ate|auk|ays|bas|bos|bum|bus|dad|dak|dem|doo|ekn|emo|eng|ens|eri|ery|esy|gak|gar|gas|gbo|ggo|gla|gol|gon|gpu|gsu|had|hak|ham|huk|hul|ib |igs|iil|iis|iiw|iko|ilo|imi|iye|kaw|kay|kba|kih|kla|kni|ko |kop|kra|kum|lap|lat|lda|lid|lo |los|lot|maa|mar|mok|mot|mum|nam|nib|niy|noo|nre|nti|odu|okr|ona|op |ope|ory|ota|oto|paw|pbu|pes|pko|pum|pus|rao|rih|rit|rod|roo|rop|ryo|saa|sug|sul|sum|tek|til|tor|tug|tup|uan|ugo|uks|umb|umu|uny|upk|usu|waa|wah|was|yak|yen|ysa|yua| im| kr| mi| op| or| so| wi|aap|ae |agm|agw|ahu|aik|amt|anh|apo|art|ast|auh|bah|ber|bon|buk|buo|buy|dat|dik|diw|era|gaa|gap|gil|gmu|gut|gwa|haw|hii|hir|hod|hur|id |igt|iin|iks|ilu|imp|isd|ist|isy|ith|iyu|kol|kri|lib|lug|lum|lup|maw|mik|min|mpo|mta|nhi|nii|obe|opi|orm|pa |pai|pig|pit|pon|por|rai|ram|ras|rim|ris|rma|ron|rta|ru |sab|sai|sdi|sir|sis|sob|tah|tap|tau|thi|tib|tir|tiw|tub|uhi|uko|uo |upi|uta|waw|wid|wik",
+    tr: " ve| ha|ve |ler|ir |lar|in |hak| he|her|bir|er |eri|an |ak |arı| bi|ya |eti|ın |akk|kkı| ka|tle|iye|ını|ası|ek |etl|yet| ol|ara|esi|eya|na |nda|sın|ile| ta|de | sa|ne |ır |ine|rin|dır|ini| bu| ge|rın|sin|erk|rke|vey|ınd| va|lma|ama|ere|kın|lan|ına| me| te|dir|en |kla|le | se| şa|da |nma|nı |ard|nin|rle|tin| de|kes|mas|aya|dan|mek|nın|rdı|var|şah| ma|ill|let|si |akl|ana|lik|mak| hi|aiz|ala|hai|izd|mes|zdi| ed| il| iş|evl|im |kı |lle|mil|ola|ret|san| ba| hü| mi|eli|irl|li |riy|eme|hür|mal|bu |dil|hiç|ik |ili|la |rri|ürr| eş| gö| iç| ko|el |et |iş |ket|ma |nde|rak|yla| an|ahs|etm|olm|ser|tim|ulu|unm|ık | mü| ya|ar |eşi|ilm|kar|lek|mel|mle|nsa|re |rı |se |tir|un |şit|anı|ede|edi|eke|eml|es |ger|it |len|lme|may|mem|ni |nla|rme| da| et| ke| ku| uy|bes|erb|est|ind|içi|miş|oru|rbe|tme|uğu|vle|çin| ki| öğ|alı|cak|end|erd|kor|ndi|sı |öğr|ğre|ıyl| ce| ev|ade|al |den|ece|eni|gör|hsı|il |ins|ken|lem|lun|ri |siy|tür| ay| di| in| so|ame|arş|bul|din|ele|ims|iç |kim|lam|me |mse|rde|rek|rşı|yan| do| fa|ahi|ahı|atı|dev|eye|kat|lık|nun|run|te |uk |ukl|und|ver|çe |ün |şma| bü| ça|abi|aca|ali|am |at |bi |büt|cek|enm|ez |hal|isi|işl|kle|leş|maz|mey|mez|nam|nme|ras|sız|tam|tün|ye |ürü|ütü|ılm|ada|anl|dah|erl|eşm|hay|ikl|kil|liğ|luğ|mah|rla|sya|ten|tli|uyr|yru| ai| be| gi| mu| su| sı| to|aha|ail|atl|az |ağl|baş|bil|bun|der|eki|emi|irm|iği|kan|kur|liş|luk|men|opl|osy|rad|ren|ril|rma|rum|sağ|sos|stç|tem|top|um |yal|ğu |ırı|ışm|şle|şti|şı |şın| fi| tü| yo|adi|ayı|faa|gel|hıs|işt|ki |kte|lli|lü |lış|mua|olu|ra |say|tan|ti |tla|tçe|unl|urm|çal|ıla|ıs |şmi| ad| am| dü| i̇| şe|adı|akı|amu|ang|anm|anu|bey|ce |di |doğ|erh|eği|gi |han|hil|ira|iya|içb|kam|klu|kır|lay|les|lil|liy|mu |mül|nan|ngi|nır|plu|rar|rha|rk |ruk|seç|sun|suç|tab|tar|tıl|ula|ull|vli|yar|çbi|öze|ğla|ırl|şme| aç| er| hu|aat|aki|ann|ays|açı|aşk|cem|dik|dis|ens|idi|ila|iğe|kal|kir|lde|lir|lul|miy|nce|nna|rlü|rıy|sah|siz|sıt|tat|ter|teş|unu|usu|ysi|çık|öre|ülk|ült|ürl|ğe |ğun|ıdı|ılı|ıra|ız |ışı|şek|şka| al| es| fe| ih| ir| is| re| ço|ahr|aka|anc|ayg|ayk|bak|cez|ci |cuk|dak|dec|diğ|dın|ekl|eks|ekt|era|ern|ete|ett|eyf|eza|eçi|fad|fer|fi |gen|hru|ifa|iki|ikt|ild|ima|itl|izl|işb|işm|key|kse|kul|kım|laş|lk |mam|nca|nel|ocu|pla|raf|rne|st |sti|tal|tec|tek|tte|uyg|vas|yat|yfi|ygu|ygı|ykı|yol|zel|zli|çoc|ünd|üst|üze|ği |ğin|ınm|ısı|ığı|ış | ar| el| gü| sü| tu| ye| üc| ır|aal|afı|aks|apı|asi|ayr|aşı|bel|cre|dal|deb|duğ|dün|ebi|eci|ene|esa|evi|eğe|fik|fın|göz|ha |has|hsi|huk|iti|i̇n|ka |kad|kek|kli|kuk|lac|lel|lid|lim|mad|maç|med|min|nlı|nsi|pıl|rdi|ref|riş|rü |rül|rış|sa |sip|sta|ste|sür|tes|til|tut|tın|uam|uku|ulü|uru|yap|yer|yle|ücr|üre|ğer|ırk|ıta|şbu|şki|şli|̇ns| ah| ak| dı| eğ| ga| id| kı| pr| za| ön| öz| üy|ahk|ale|alk|all|are|ark|art|aru|ati|ayd|ayn|ağı|bar|des|det|değ|dür|dış|efa|elv|enf|enl|erm|erç|ese|evr|eyi|eçm|eşk|fah|far|fay|fii|gay|gun|hiz|hti|hın|iba|ibi|iht|iil|inc|ip |iri|ist|izm|işi|işs|kon|ksı|kün|lec|lin|lla|llu|lte|luy|lve|lüm|lı |lıd|lır|lığ|man|met|müs|mın|nat|ndu|neğ|nfa|nim|nli|nsu|nya|nıl|oğr|pre|rat|rel|rli|rtl|rud|rçe|sad|sas|sen|son|stl|sur|sır|sıy|tif|tul|ul |una|ure|utu|uyl|uç |yac|yas|yda|yış|zet|zme|çek|çim|çme|öne|örm|örü|üny|üye|ğru|ğı |ğın|ım |ımı|şsi|şıl| bı| ho| im| kö| kü| vi| yö| yü| zu| öt| ül|abu|acı|alm|alt|ane|arl|atb|açl|aşa|aşm|bik|bur|bır|cbu|cda|cıy|dde|dos|dur|ecb|ef |ep |ert|esk|esp|eşl|eşv|get|gir|gös|güv|gı |hip|ica|icd|ida|ika|ikç|imi|iyi|iyl|izi|içe|kab|ksi|kti|kçe|köl|kül|ley|lke|lmi|lsu|ltü|ltı|lu |mac|mde|mec|mla|müt|net|ols|onu|ost|pit|res|rey|rir|rul|rur|ruğ|sak|sek|sev|ske|spi|sul|tak|tbi|tib|tik|tma|tmi|tı |uka|uma|ur |uri|uş |ven|vet|vic|vik|yak|yaş|yec|yen|yes|yi |ynı|yön|yük|zar|zin|zul|zın|çer|çla|öle|öst|ötü|üks|üle|üm |ür |üte|üve|ğit|ğiş|ıtl|ızı|şar|şe |şvi| cü| du| dö| gr| ic| if| li| ne| or| ot| oy| pa| rı| si| tı| ul| un| us| yi| zo| üz| şi|aah|aba|add|afh|ahh|ahl|ai |akb|akd|ald|aml|ani|apl|arg|asa|asl|ast|asu|atm|att|avu|avü|azs|aç |ba |bab|bat|bağ|bbi|bii|biy|ca |cap|cav|cel|cer|cil|cür|dam|ddi|ded|def|dem|dic|dol|dul|dön|düz|dım|dıy|eca|ekn|ell|emo|ems|esl|eve|eçh|fha|geç|gib|giy|giz|gru|gul|güz|gıl|gın|har|hed|hhü|hib|hke|hku|hlâ|hma|hoş|hus|ici|idd|ide|ihm|ii |ilc|ilk|imd|imk|iml|inl|ipl|ipt|irs|ite|itt|işe|işk|i̇l|kac|kay|kbe|kdi|kem|kiş|klı|kni|kov|kra|ksa|kum|kuv|kân|kıl|kıs|lab|lat|lci|ldu|ldı|lep|lis|lit|lkl|lkü|lkı|lmu|lâk|mkâ|mkü|mok|msi|msı|muş|müm|mış|naa|nab|ndü|nek|nen|nev|nik|nit|niy|nle|nmi|nmı|nu |nus|nü |nün|nık|okr|old|on |ona|ori|orl|oto|ovu|oy |oğs|oşg|par|ple|pti|ran|rec|rev|reğ|rgı|rid|rit|rlı|rse|rta|rti|rup|ruy|rüm|rün|rüs|rıl|rıs|rız|saf|sal|sav|sil|sla|sle|slı|sum|sup|sus|sıd|taa|tas|tev|tic|tis|tiy|tlu|tlı|tor|tti|ttı|tur|tıb|tır|tığ|uad|uda|udu|ulm|une|uns|up |upl|usl|uvv|uya|uçl|uçu|uğa|uşt|vel|veç|vi |viy|vre|vri|vun|vuş|vve|vüz|yim|yiy|yiş|yok|yre|yri|yıl|yır|za |zad|zal|zas|zdı|zen|zer|zle|zor|zsa|âkı|ânl|çağ|çhi|çil|çlu|çun|önc|önm|önü|ülm|üme|ümk|ünü|üzl|ğa |ğlı|ğsu|ğım|ıbb|ıms|ırd|ıza|ızd|ışa|şan|şay|şbi|şgö|şid|şil|şin|ştu|şıs|̇lk| bö| ci| eg| ek| em| en| ey| ib| it| iy| iz| ni| ra| st| sö| ti| uz| yu| zi| zü| şö|afs|ahş|aim|air|akt|aku|alü|and|ant|ari|ask|ass|ats|atü|ava|aye|ayi|ayl|aym|ayy|azı|aşt|bad|bah|bas|bep|biz|böy|caa|car|cey|cib|cin|cı |dai|dar|dav|dbi|dea|deh|deş|eal|ebe|edb|ege|ehş|eji|ekm|eko|eld|emd|emn|ena|enc|enk|enş|erp|erv|esç|evk|evz|eyl|eğl|eşt|fsı|gem|git|gıy|hat|his|hiy|hni|hor|hre|hta|hüd|hük|hüt|hşe|hşi|ibe|ice|ihn|iin|ilh|ina|irb|is |isn|isy|iza|izh|izz|içt|i̇ş|jim|ke |ked|kel|ker|kid|kin|kmi|kmü|kol|ksu|kta|ktı|kıd|kıy|kış|lak|lha|luc|lur|lus|mai|mar|mat|mev|mi |mik|mli|mni|mre|muh|mü |müd|mür|nad|nak|nas|nay|ndı|nem|ner|niz|niş|nk |nom|nse|ntl|nul|nşe|oke|oks|omi|ono|or |ora|ort|oğa|oğu|piş|rac|rah|ral|ram|rbi|rda|red|rej|rii|ris|rks|rpi|rsa|rtm|rtu|ruz|rve|rıc|rıd|sai|seb|sel|skı|sna|ssa|sçe|söz|sü |ta |ted|tsı|tuk|tça|tüs|ual|uay|uba|uca|uht|uki|ukt|uml|urs|urt|uta|uvl|uz |uzu|vah|vec|ves|vir|vke|vla|vzu|yad|yay|yaz|yel|yin|yma|yna|yor|yrı|yuk|yye|yı |yıt|zai|zam|zat|zha|zih|zub|zuv|zza|zön|züm|zış|ça |çar|çti|öhr|öyl|öz |özö|üdd|üdü|ükm|üma|ümr|üra|üsü|üt |ğar|ğle|ğuş|ıcı|ıda|ıkl|ıko|ıl |ınl|ırm|ırt|ıya|ıyı|ışk|şam|şer|şet|şi |şke|şkı|ştı|şöh|̇şb",
+    vi: "ng |̣c |́c |à | qu| th|nh |̣i | ng| va|và|̀n | nh|uyê|quy|̀nh| ca| ch| ph|yề|ền| cu|̀i | tr| co|ngư|ườ|gươ|ó |́t |ời|̣t | gi|ác|ự | kh|ượ|ìn|ợc| đư|cá|ông|có|đươ| tư| đê|củ|ủa|̉a |gia|iệ|như|̀u | mo|mọ|ọi|́i | ha| ba|pha|ều|̃ng|̣n | ti|đề| bi| la|ất|hôn|tự| vi| đô|ch |hiê| tô|ân |bả| do|do |ên | hi| ho|nhâ| mô| đi|àn|hữ|ội| na|há|hân|ới|́ch| hô|ay |mộ|ột|̣p |hay|̀ng|́n |́p |ị |uố|ốc|̣ng| đa|ào|nà|quô|ữn|̀o |ia |khô|thư|ướ|́ng|tro|ôn |̉n | cô| sư|̉ng| đo|iế|là| mi|sự|ục| vơ|ả |ản|hà|hư |ện|ộc|ớc|̉i |ảo|cho|hộ|iá|ật|ức|̉o | bâ| du| vê|ã |hươ|tha|vớ|côn|mì|ong|ron|uậ|̉m |áp|iên|tộ|viê| cư|áo|bị|ể |ực|́o | nư|chi|hả|họ|thu|tiê|ế |độ|̀y | hơ| hư| xa|ại|dụ|ho |ín|oà|qua| lu|ải|bấ|cả|hạ|hoa|iể|kha|xã|ở |á |hấ|ệc|ai |án|cũ|hí|nươ|ũn|ề |ết|ệ |ối|ốn| tâ|hợ|hứ|phâ|đó|đố|ợp|́nh| bă| ta| đâ|thô|về|am |hì|luâ|́u | cơ|ày|ạn|bì|cơ |hự|thê|tri|yên|ởn|ưở| kê| lơ|cứ|hế|uy |ủ |ến|ộ |ứ |̀m | ai| lư| đă|biê|chu|lợ|ngh|oá|ọc|ọn|thi|thâ|tôn|ần|ận|ếu|ổ |ằn|ặc|đị|ợi|̣nh| câ| ki| ma|bằ|con|ngu|oạ|on |tấ|ua |uộ|úc|vi |ý |ồn| sô| tu| tă| xư|an |chê|cầ|hú|ịc|ịn|lạ|số|êu |ộn|ẳn|đoa|ơng|ươn|ử |̣a |̣ch| á| dâ| mu| sơ|au |ạm|chư|ghi|guy|ham|hể|mụ|nha|tí|trư|ệp|đẳ|̣m | ky| li| to| ý| đu| ở|át|ạt|dân|gôn|hoă|huâ|hủ|hậ|inh|íc|kiê|kế|liê|lự|ngô|oặ|riê|sở|tra|tắ|ụ |vệ|xử|ểm|ắc|đì|đủ|ờn| bu| dư| nê| tê|ài|ảm|giơ|hau|hi |hổ|khi|kho|rươ|tà|tế|ệt|đá|đả|điê|để|ợ |́m |̃a |̃i | di| lo| xâ|ạo|chô|eo |ẻ |heo|hẩ|hố|ì |í |kỳ|ỏ |phi|the|tì|tị|toa|trơ|tuy|vì|ỳ |ầy|ẩm|ăn |đã|ơi |ựa|̣o | nô| nơ| vu|ao |àm|buô|dự|iêu|mà|nơi|phu|rọ|tư |uan|ụn|vụ|âm |ẩy|ập|đạ|đi |đẩ|đồ|ữ |̉y | bo| mư| nă| so| vâ| đơ|ang|bỏ|coi|cuô|cộ|giư|hai|hỉ|iớ|iữ|ỉ |loa|mứ|oi |rị|rợ|tru|tươ|từ|vị|vậ|ển|ểu|ỗi|ổi|ăng|đầ|ơn |ừ |ứn|ữa|ữu|̃u |̉u |̣u | ly| lâ| lê| sa| si| vô| vă| xu|ãn|bắ|giu|goa|hun|iề|kể|lã|mỗ|nga|ra |sả|sin|tạ|tin|tổ|ung|ủn|văn|ố |ắt|đấ|đế|̃nh| bô| em| í| me| mă| ra| ri| tơ|bà|bá|bầ|châ|cươ|diê|dị|duy|em |ép|ẹ |ghê|ha |hé|hĩ|hệ|hơn|iả|iú|lao|lú|lậ|lệ|man|mẹ|mặ|nế|nô |năn|nữ|oa |phe|phô|phư|rạ|rẻ|ruy|rậ|rên|tá|tre|trâ|trê|tố|tớ|uấ|ù |ú |úp|vô |xuâ|xâm|xây|ây |ầu|ấn|ậy|êng|đí|ờ |ỡn|ưỡ|ựn|̃n |̣y | bê| ni| rơ| vư| yê|ãi|bên|bộ|can|cao|cù|gà|hị|hó|hù|hầ|hằ|hờ|in |iễ|iờ|ìm|ĩa|ịu|lý|lươ|nam|ngo|nho|nhă|niê|nêu|òn|óm|rả|rờ|thơ|tâm|tậ|uả|ùn|yế|yệ|ấu|ếm|ễn|ỗ |ằm|ặt|đổ|đặ|ớn|ưu | bư| da| go| hê| kn| nu| se| uy| xe| y | ố| ăn| ưu| ứ|ái|bạ|bụ|bậ|bứ|cam|cha|chă|cụ|cư |cử|cự|dươ|ẽ |gan|gì|guô|gệ|hgê|hia|hoe|hỏ|huô|hụ|hêm|hề|hồ|hỗ|hăm|hừ|ià|ít|ịa|khă|khư|kí|knô|kỹ|lá|lò|ly |mạ|min|miê|nạ|nhg|nhi|nua|nên|nôn|nỗ|nặ|oẻ|óc|ỏi|ọ |ọp|rá|rì|rí|rú|rở|rự|sẽ|so |soa|só|sứ|tỏ|tuô|tụ|tồ|tăn|uá|uôn|uồ|uổ|ụa|vợ|vươ|xẻ|xứ|yêu|ỹ |ấy|ậc|êm |ếp|ốm|ăm |ặn|đau|đơn|đờ|đỡ|đứ|ỡ |ợt|ừa|ựu|̀a |́y |̉nh| an| gh| gô| ră| su| vo|anh|àu|ạ |ban|bố|cò|cấ|da |dan|dù|dẫ|gầ|gố|găn|gơi|gữ|hã|hu |huy|hắ|hẳ|hớ|hưa|iam|iụ|ĩ |khu|kin|luô|lầ|lễ|lờ|lưu|nay|ngâ|ngă|ngơ|nhơ|nổ|oả|ryê|rằ|suy|sợ|try|uỷ|úi|ún|vọ|vố|vự|xá|xú|ỷ |ầm|ấm|ấp|ẫn|ênh|ềm|ễ |ệu|ốt|ắp|đà|đo |ớ |ưa ",
+  },
+};
@@ -0,0 +1,126 @@
+import { DocumentExtraction, DocumentPage, DocumentType } from './types';
+import { DocumentParseError } from './errors';
+import { parseDocx } from './documents/docx-parser';
+import { parsePdf } from './documents/pdf-parser';
+
+const DOCUMENT_MEDIA_TYPES: Record<string, DocumentType> = {
+  'application/pdf': 'pdf',
+  'application/x-pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/plain': 'text',
+};
+
+const DOCUMENT_EXTENSIONS: Record<string, DocumentType> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  txt: 'text',
+};
+
+/**
+ * Document type of a response from its Content-Type, or from the URL's
+ * extension when the server sends a generic type (or none). Undefined
+ * for HTML and other content.
+ */
+export function detectDocumentType(contentType: string | null | undefined, url: string): DocumentType | undefined {
+  const mediaType = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (DOCUMENT_MEDIA_TYPES[mediaType]) {
+    return DOCUMENT_MEDIA_TYPES[mediaType];
+  }
+  if (!mediaType || mediaType === 'application/octet-stream' || mediaType === 'binary/octet-stream') {
+    return documentTypeOfUrl(url);
+  }
+  return undefined;
+}
+
+/**
+ * Whether a URL's path ends in a document extension (.pdf, .docx, .txt)
+ */
+export function isDocumentUrl(url: string): boolean {
+  return documentTypeOfUrl(url) !== undefined;
+}
+
+/**
+ * Parse a PDF, DOCX or plain-text document fetched from a URL.
+ *
+ * The type comes from the Content-Type (see detectDocumentType). Text
+ * is decoded with the declared charset, and split into pages at form
+ * feeds. Throws DocumentParseError for corrupt, encrypted or
+ * unsupported documents.
+ */
+export function extractDocument(data: Buffer, url: string, contentType?: string): DocumentExtraction {
+  const type = detectDocumentType(contentType, url);
+  if (!type) {
+    throw new DocumentParseError(`Unsupported document type: ${contentType || 'unknown'}`, { url });
+  }
+
+  try {
+    switch (type) {
+      case 'pdf':
+        return parsePdf(data);
+      case 'docx':
+        return parseDocx(data);
+      case 'text':
+        return parseText(decodeText(data, contentType));
+    }
+  } catch (error) {
+    if (error instanceof DocumentParseError) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new DocumentParseError(`Failed to parse ${type.toUpperCase()} document: ${message}`, { url, cause: error });
+  }
+}
+
+function documentTypeOfUrl(url: string): DocumentType | undefined {
+  let path: string;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    return undefined;
+  }
+  const extension = /\.([a-z0-9]+)$/i.exec(path)?.[1].toLowerCase();
+  return extension ? DOCUMENT_EXTENSIONS[extension] : undefined;
+}
+
+/**
+ * Decode text by its byte order mark, else the declared charset, else UTF-8
+ */
+function decodeText(data: Buffer, contentType?: string): string {
+  if (data[0] === 0xfe && data[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(data.subarray(2));
+  }
+  if (data[0] === 0xff && data[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(data.subarray(2));
+  }
+
+  const charset = /charset\s*=\s*"?([^";\s]+)/i.exec(contentType || '')?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(data);
+  } catch {
+    return new TextDecoder('utf-8').decode(data);
+  }
+}
+
+function parseText(content: string): DocumentExtraction {
+  const pages: DocumentPage[] = content.split('\f').map((page, index) => {
+    const text = page
+      .replace(/\r\n?/g, '\n')
+      .replace(/[ \t]+$/gm, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+    return { pageNumber: index + 1, markdown: text, text };
+  });
+  const text = pages.filter((page) => page.text).map((page) => page.text).join('\n\n');
+  const firstLine = text.split('\n')[0].trim();
+  const links = Array.from(new Set(text.match(/https?:\/\/[^\s<>"')\]]+[^\s<>"')\].,;:!?]/g) || []));
+
+  return {
+    type: 'text',
+    title: firstLine && firstLine.length <= 100 ? firstLine : undefined,
+    markdown: text,
+    text,
+    pages,
+    links,
+    metadata: { pageCount: pages.length },
+  };
+}
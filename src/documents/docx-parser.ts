@@ -0,0 +1,515 @@
+import { BackendPageMetadata, DocumentExtraction, HtmlElement } from '../types';
+import { htmlToMarkdown, htmlToText } from '../utils/markdown-utils';
+import { normalizeDate } from '../utils/metadata-utils';
+import { openZip, ZipArchive } from './zip-reader';
+import { XmlElement, childElement, childElements, findElements, parseXml, xmlText } from './xml-parser';
+
+/** Run properties that map to Markdown emphasis */
+const RUN_FORMATS: Array<[string, string]> = [['w:b', 'strong'], ['w:i', 'em'], ['w:strike', 'del']];
+
+interface DocxStyles {
+  /** Heading level by paragraph style ID */
+  headings: Map<string, number>;
+  /** Whether a list (by numId and level) is numbered rather than bulleted */
+  isOrdered(numId: string, level: number): boolean;
+}
+
+interface ListLevel {
+  list: HtmlElement;
+  item?: HtmlElement;
+  ordered: boolean;
+}
+
+/**
+ * Parse a Word document (.docx, Office Open XML).
+ *
+ * Headings (by style), paragraphs, bold, italic and struck-through text,
+ * hyperlinks, bulleted and numbered lists and tables are converted to
+ * Markdown. Pages are split where Word last rendered a page break, or at
+ * explicit page and section breaks in documents never laid out by Word.
+ * Title, authors, keywords and dates come from the document properties.
+ */
+export function parseDocx(data: Buffer): DocumentExtraction {
+  const zip = openZip(data);
+  const document = zip.read('word/document.xml');
+  if (!document) {
+    throw new Error('Not a Word document: word/document.xml is missing');
+  }
+
+  const body = findElements(parseXml(document.toString('utf-8')), 'w:body')[0];
+  const builder = new DocxBuilder(
+    readStyles(zip),
+    readRelationships(zip),
+    document.includes('w:lastRenderedPageBreak')
+  );
+  if (body) {
+    builder.addBlocks(body);
+  }
+
+  const pages = builder.finish().map((root, index) => ({
+    pageNumber: index + 1,
+    markdown: htmlToMarkdown(root),
+    text: htmlToText(root),
+  }));
+  const metadata = readCoreProperties(zip);
+  const nonEmpty = pages.filter((page) => page.markdown);
+
+  return {
+    type: 'docx',
+    title: metadata.title || builder.firstHeading,
+    markdown: nonEmpty.map((page) => page.markdown).join('\n\n'),
+    text: nonEmpty.map((page) => page.text).join('\n\n'),
+    pages,
+    links: builder.links,
+    metadata: { ...metadata, pageCount: pages.length },
+  };
+}
+
+/**
+ * Builds one HTML tree per page from WordprocessingML
+ */
+class DocxBuilder {
+  readonly links: string[] = [];
+  firstHeading?: string;
+  private pages: HtmlElement[] = [];
+  private page!: HtmlElement;
+  private block?: HtmlElement;
+  private lists: ListLevel[] = [];
+  private counters = new Map<string, number>();
+  private tableDepth = 0;
+  private pendingBreaks = 0;
+  private skipRenderedBreak = false;
+
+  constructor(
+    private styles: DocxStyles,
+    private relationships: Map<string, string>,
+    private renderedBreaks: boolean
+  ) {
+    this.newPage();
+  }
+
+  finish(): HtmlElement[] {
+    return this.pages;
+  }
+
+  /**
+   * Paragraphs, tables and content controls of a body or cell
+   */
+  addBlocks(container: XmlElement): void {
+    for (const child of childElements(container)) {
+      switch (child.name) {
+        case 'w:p':
+          this.addParagraph(child);
+          break;
+        case 'w:tbl':
+          this.addTable(child);
+          break;
+        case 'w:sdt':
+        case 'w:customXml':
+          this.addBlocks(childElement(child, 'w:sdtContent') || child);
+          break;
+      }
+    }
+  }
+
+  private addParagraph(paragraph: XmlElement): void {
+    const properties = childElement(paragraph, 'w:pPr');
+    if (!this.renderedBreaks && properties && isOn(childElement(properties, 'w:pageBreakBefore'))) {
+      this.pageBreak();
+    }
+    // Word usually marks a page that starts with this paragraph in its first run
+    if (this.renderedBreaks && startsWithRenderedBreak(paragraph)) {
+      this.pageBreak();
+      this.skipRenderedBreak = true;
+    }
+
+    const style = childElement(properties || paragraph, 'w:pStyle')?.attributes['w:val'];
+    const outline = childElement(properties || paragraph, 'w:outlineLvl')?.attributes['w:val'];
+    const level = (style && this.styles.headings.get(style)) ||
+      (outline !== undefined && this.tableDepth === 0 ? Math.min(6, parseInt(outline, 10) + 1) : undefined);
+    const numbering = properties && childElement(properties, 'w:numPr');
+
+    if (this.tableDepth > 0) {
+      // Cell paragraphs are lines of the cell
+      if (this.block!.children.length > 0) {
+        createElement('br', this.block!);
+      }
+    } else if (level) {
+      this.lists = [];
+      this.block = createElement(`h${level}`, this.page);
+    } else if (numbering) {
+      this.block = this.listItem(numbering);
+    } else {
+      this.lists = [];
+      this.block = createElement('p', this.page);
+    }
+
+    const heading = this.block;
+    this.addInline(paragraph, {});
+    if (level && !this.firstHeading && heading) {
+      this.firstHeading = htmlToText(heading) || undefined;
+    }
+
+    // A section break in the paragraph properties starts a new page unless it is continuous
+    const section = properties && childElement(properties, 'w:sectPr');
+    if (!this.renderedBreaks && section && childElement(section, 'w:type')?.attributes['w:val'] !== 'continuous') {
+      this.pageBreak();
+    }
+  }
+
+  /**
+   * Runs, hyperlinks and inline containers of a paragraph
+   */
+  private addInline(container: XmlElement, formats: Record<string, boolean>, href?: string): void {
+    for (const child of childElements(container)) {
+      switch (child.name) {
+        case 'w:r':
+          this.addRun(child, formats, href);
+          break;
+        case 'w:hyperlink': {
+          const target = child.attributes['r:id'] && this.relationships.get(child.attributes['r:id']);
+          if (target && /^(https?|mailto):/i.test(target) && !this.links.includes(target)) {
+            this.links.push(target);
+          }
+          this.addInline(child, formats, target || href);
+          break;
+        }
+        case 'w:ins':
+        case 'w:smartTag':
+        case 'w:fldSimple':
+        case 'w:customXml':
+          this.addInline(child, formats, href);
+          break;
+        case 'w:sdt':
+          this.addInline(childElement(child, 'w:sdtContent') || child, formats, href);
+          break;
+        case 'm:oMath':
+        case 'm:oMathPara':
+          this.appendText(findElements(child, 'm:t').map(xmlText).join(''), {}, href);
+          break;
+      }
+    }
+  }
+
+  private addRun(run: XmlElement, inherited: Record<string, boolean>, href?: string): void {
+    const properties = childElement(run, 'w:rPr');
+    const formats = { ...inherited };
+    for (const [name, tag] of RUN_FORMATS) {
+      const toggle = properties && childElement(properties, name);
+      if (toggle) {
+        formats[tag] = isOn(toggle);
+      }
+    }
+
+    for (const child of childElements(run)) {
+      switch (child.name) {
+        case 'w:t':
+          this.appendText(xmlText(child), formats, href);
+          break;
+        case 'w:tab':
+          this.appendText('\t', formats, href);
+          break;
+        case 'w:noBreakHyphen':
+          this.appendText('-', formats, href);
+          break;
+        case 'w:sym': {
+          const code = parseInt(child.attributes['w:char'] || '', 16);
+          // Symbol fonts use the private use area; those glyphs have no text
+          if (code > 0 && (code < 0xe000 || code > 0xf8ff)) {
+            this.appendText(String.fromCodePoint(code), formats, href);
+          }
+          break;
+        }
+        case 'w:br':
+        case 'w:cr':
+          if (child.attributes['w:type'] === 'page') {
+            if (!this.renderedBreaks) {
+              this.pageBreak();
+            }
+          } else {
+            createElement('br', this.block!);
+          }
+          break;
+        case 'w:lastRenderedPageBreak':
+          if (this.skipRenderedBreak) {
+            this.skipRenderedBreak = false;
+          } else {
+            this.pageBreak();
+          }
+          break;
+      }
+    }
+  }
+
+  /**
+   * Add text to the current block, extending the previous run when it
+   * has the same formatting and link
+   */
+  private appendText(text: string, formats: Record<string, boolean>, href?: string): void {
+    if (!text) {
+      return;
+    }
+    const block = this.block!;
+    const key = `${href || ''}|${RUN_FORMATS.filter(([, tag]) => formats[tag]).map(([, tag]) => tag).join(',')}`;
+    const last = block.children[block.children.length - 1];
+    if (last && last.type === 'element' && last.attributes['data-run'] === key) {
+      appendToDeepest(last, text);
+      return;
+    }
+
+    let parent = block;
+    if (href) {
+      parent = createElement('a', parent, { href, 'data-run': key });
+    }
+    for (const [, tag] of RUN_FORMATS) {
+      if (formats[tag]) {
+        parent = createElement(tag, parent, parent === block ? { 'data-run': key } : {});
+      }
+    }
+    if (parent === block) {
+      parent = createElement('span', parent, { 'data-run': key });
+    }
+    parent.children.push({ type: 'text', text, parent });
+  }
+
+  /**
+   * List item for a numbered paragraph, nesting lists by level
+   */
+  private listItem(numbering: XmlElement): HtmlElement {
+    const numId = childElement(numbering, 'w:numId')?.attributes['w:val'] || '0';
+    const level = Math.min(8, parseInt(childElement(numbering, 'w:ilvl')?.attributes['w:val'] || '0', 10) || 0);
+    const ordered = this.styles.isOrdered(numId, level);
+
+    const counterKey = `${numId}:${level}`;
+    const count = (this.counters.get(counterKey) || 0) + 1;
+    this.counters.set(counterKey, count);
+    for (const key of this.counters.keys()) {
+      const [id, keyLevel] = key.split(':');
+      if (id === numId && Number(keyLevel) > level) {
+        this.counters.delete(key);
+      }
+    }
+
+    this.lists.length = Math.min(this.lists.length, level + 1);
+    if (this.lists[level] && this.lists[level].ordered !== ordered) {
+      this.lists.length = level;
+    }
+    while (this.lists.length <= level) {
+      const depth = this.lists.length;
+      const parent = depth === 0
+        ? this.page
+        : this.lists[depth - 1].item || (this.lists[depth - 1].item = createElement('li', this.lists[depth - 1].list));
+      const listOrdered = depth === level ? ordered : this.lists[depth - 1]?.ordered ?? false;
+      const list = createElement(listOrdered ? 'ol' : 'ul', parent, listOrdered && depth === level ? { start: String(count) } : {});
+      this.lists.push({ list, ordered: listOrdered });
+    }
+
+    const item = createElement('li', this.lists[level].list);
+    this.lists[level].item = item;
+    return item;
+  }
+
+  private addTable(table: XmlElement): void {
+    this.lists = [];
+    const outer = this.block;
+    const element = createElement('table', this.tableDepth === 0 ? this.page : outer!);
+    this.tableDepth++;
+
+    for (const row of childElements(table, 'w:tr')) {
+      const tr = createElement('tr', element);
+      for (const cell of childElements(row, 'w:tc')) {
+        const properties = childElement(cell, 'w:tcPr');
+        const span = childElement(properties || cell, 'w:gridSpan')?.attributes['w:val'];
+        const merge = childElement(properties || cell, 'w:vMerge');
+        this.block = createElement('td', tr, span ? { colspan: span } : {});
+        // Continuation of a vertically merged cell stays empty
+        if (!merge || merge.attributes['w:val'] === 'restart') {
+          this.addBlocks(cell);
+        }
+      }
+    }
+
+    this.tableDepth--;
+    this.block = outer;
+    if (this.tableDepth === 0) {
+      this.block = undefined;
+      while (this.pendingBreaks > 0) {
+        this.pendingBreaks--;
+        this.pageBreak();
+      }
+    }
+  }
+
+  /**
+   * Start a new page; the rest of an interrupted paragraph continues
+   * there. Breaks inside tables are applied after the table.
+   */
+  private pageBreak(): void {
+    if (this.tableDepth > 0) {
+      this.pendingBreaks++;
+      return;
+    }
+    const interrupted = this.block;
+    this.newPage();
+    if (interrupted) {
+      this.block = createElement(interrupted.tag === 'li' ? 'p' : interrupted.tag, this.page);
+    }
+  }
+
+  private newPage(): void {
+    this.page = { type: 'element', tag: '#document', attributes: {}, children: [] };
+    this.pages.push(this.page);
+    this.block = undefined;
+    this.lists = [];
+  }
+}
+
+/**
+ * Heading levels of paragraph styles (Title, Heading 1-6 and styles
+ * based on them) and list formats
+ */
+function readStyles(zip: ZipArchive): DocxStyles {
+  const headings = new Map<string, number>();
+  const styles = zip.read('word/styles.xml');
+  if (styles) {
+    const definitions = new Map<string, XmlElement>();
+    for (const style of findElements(parseXml(styles.toString('utf-8')), 'w:style')) {
+      definitions.set(style.attributes['w:styleId'], style);
+    }
+    for (const id of definitions.keys()) {
+      const level = headingLevel(id, definitions);
+      if (level) {
+        headings.set(id, level);
+      }
+    }
+  }
+
+  const formats = new Map<string, string>();
+  const numbering = zip.read('word/numbering.xml');
+  if (numbering) {
+    const root = parseXml(numbering.toString('utf-8'));
+    const abstract = new Map<string, XmlElement>();
+    for (const definition of findElements(root, 'w:abstractNum')) {
+      abstract.set(definition.attributes['w:abstractNumId'], definition);
+    }
+    for (const num of findElements(root, 'w:num')) {
+      const definition = abstract.get(childElement(num, 'w:abstractNumId')?.attributes['w:val'] || '');
+      for (const level of definition ? childElements(definition, 'w:lvl') : []) {
+        const format = childElement(level, 'w:numFmt')?.attributes['w:val'] || 'bullet';
+        formats.set(`${num.attributes['w:numId']}:${level.attributes['w:ilvl']}`, format);
+      }
+    }
+  }
+
+  return {
+    headings,
+    isOrdered: (numId, level) => {
+      const format = formats.get(`${numId}:${level}`) || 'bullet';
+      return format !== 'bullet' && format !== 'none';
+    },
+  };
+}
+
+function headingLevel(id: string, styles: Map<string, XmlElement>, depth = 0): number | undefined {
+  const style = styles.get(id);
+  if (!style || depth > 10) {
+    return undefined;
+  }
+  const name = (childElement(style, 'w:name')?.attributes['w:val'] || '').toLowerCase();
+  if (name === 'title') {
+    return 1;
+  }
+  const heading = /^heading\s*(\d)$/.exec(name);
+  if (heading) {
+    return Math.min(6, Math.max(1, Number(heading[1])));
+  }
+  const basedOn = childElement(style, 'w:basedOn')?.attributes['w:val'];
+  return basedOn ? headingLevel(basedOn, styles, depth + 1) : undefined;
+}
+
+/**
+ * Hyperlink targets by relationship ID
+ */
+function readRelationships(zip: ZipArchive): Map<string, string> {
+  const relationships = new Map<string, string>();
+  const rels = zip.read('word/_rels/document.xml.rels');
+  for (const relationship of rels ? findElements(parseXml(rels.toString('utf-8')), 'Relationship') : []) {
+    relationships.set(relationship.attributes.Id, relationship.attributes.Target);
+  }
+  return relationships;
+}
+
+/**
+ * Title, authors, keywords, language and dates from docProps/core.xml
+ */
+function readCoreProperties(zip: ZipArchive): BackendPageMetadata {
+  const core = zip.read('docProps/core.xml');
+  if (!core) {
+    return {};
+  }
+  const root = parseXml(core.toString('utf-8'));
+  const value = (name: string) => {
+    const element = findElements(root, name)[0];
+    return element ? xmlText(element).trim() || undefined : undefined;
+  };
+  const list = (text: string | undefined, separator: RegExp) => {
+    const items = (text || '').split(separator).map((item) => item.trim()).filter(Boolean);
+    return items.length > 0 ? items : undefined;
+  };
+
+  return {
+    title: value('dc:title'),
+    description: value('dc:description') || value('dc:subject'),
+    language: value('dc:language'),
+    authors: list(value('dc:creator'), /;/),
+    keywords: list(value('cp:keywords'), /[,;]/),
+    publishedAt: normalizeDate(value('dcterms:created')),
+    modifiedAt: normalizeDate(value('dcterms:modified')),
+  };
+}
+
+/**
+ * Whether a paragraph's first content is a rendered page break marker
+ */
+function startsWithRenderedBreak(element: XmlElement): boolean | undefined {
+  for (const child of childElements(element)) {
+    if (child.name === 'w:lastRenderedPageBreak') {
+      return true;
+    }
+    if (child.name === 'w:t' || child.name === 'w:tab' || child.name === 'w:sym' || child.name === 'm:t') {
+      return false;
+    }
+    if (child.name !== 'w:pPr' && child.name !== 'w:rPr') {
+      const found = startsWithRenderedBreak(child);
+      if (found !== undefined) {
+        return found;
+      }
+    }
+  }
+  return undefined;
+}
+
+function createElement(tag: string, parent: HtmlElement, attributes: Record<string, string> = {}): HtmlElement {
+  const element: HtmlElement = { type: 'element', tag, attributes, children: [], parent };
+  parent.children.push(element);
+  return element;
+}
+
+function appendToDeepest(element: HtmlElement, text: string): void {
+  const last = element.children[element.children.length - 1];
+  if (last?.type === 'element') {
+    appendToDeepest(last, text);
+  } else if (last?.type === 'text') {
+    last.text += text;
+  } else {
+    element.children.push({ type: 'text', text, parent: element });
+  }
+}
+
+/**
+ * Whether a toggle property such as <w:b/> is on (w:val="false" or "0" turns it off)
+ */
+function isOn(element: XmlElement | undefined): boolean {
+  const value = element?.attributes['w:val'];
+  return element !== undefined && value !== '0' && value !== 'false' && value !== 'off';
+}
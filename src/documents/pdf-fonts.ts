@@ -0,0 +1,396 @@
+import { PdfDict, PdfDocumentReader, PdfKeyword, PdfLexer, PdfName, PdfObject, PdfStream, PdfString, nameOf } from './pdf-objects';
+
+/**
+ * Glyph shown by a text operator
+ */
+export interface PdfGlyph {
+  /** Unicode text of the glyph ('' when unknown) */
+  text: string;
+  /** Advance width in thousandths of the font size */
+  width: number;
+  /** Single-byte code 32, which word spacing applies to */
+  isSpace: boolean;
+}
+
+/**
+ * Font that maps string bytes to text and glyph widths
+ */
+export interface PdfFont {
+  decode(bytes: Buffer): PdfGlyph[];
+}
+
+interface CMap {
+  /** Code space ranges: [byte length, low, high] */
+  ranges: Array<[number, number, number]>;
+  /** Text by code (key: byte length * 2^32 + code) */
+  unicode: Map<number, string>;
+}
+
+const WIN_ANSI = decodeTable('windows-1252');
+const MAC_ROMAN = decodeTable('macintosh');
+
+/** StandardEncoding where it differs from ASCII (ISO 32000-1, Annex D) */
+const STANDARD_DIFFERENCES: Record<number, string> = {
+  0x27: '’', 0x60: '‘', 0xa1: '¡', 0xa2: '¢', 0xa3: '£', 0xa4: '⁄', 0xa5: '¥', 0xa6: 'ƒ', 0xa7: '§',
+  0xa8: '¤', 0xa9: "'", 0xaa: '“', 0xab: '«', 0xac: '‹', 0xad: '›', 0xae: 'fi', 0xaf: 'fl',
+  0xb1: '–', 0xb2: '†', 0xb3: '‡', 0xb4: '·', 0xb6: '¶', 0xb7: '•', 0xb8: '‚', 0xb9: '„',
+  0xba: '”', 0xbb: '»', 0xbc: '…', 0xbd: '‰', 0xbf: '¿', 0xc1: '`', 0xc2: '´', 0xc3: 'ˆ',
+  0xc4: '˜', 0xc5: '¯', 0xc6: '˘', 0xc7: '˙', 0xc8: '¨', 0xca: '˚', 0xcb: '¸', 0xcd: '˝',
+  0xce: '˛', 0xcf: 'ˇ', 0xd0: '—', 0xe1: 'Æ', 0xe3: 'ª', 0xe8: 'Ł', 0xe9: 'Ø', 0xea: 'Œ',
+  0xeb: 'º', 0xf1: 'æ', 0xf5: 'ı', 0xf8: 'ł', 0xf9: 'ø', 0xfa: 'œ', 0xfb: 'ß',
+};
+const STANDARD = Array.from({ length: 256 }, (_, code) =>
+  STANDARD_DIFFERENCES[code] ?? (code >= 0x20 && code < 0x7f ? String.fromCharCode(code) : '')
+);
+
+/** Glyph names (Adobe Glyph List) that are not a letter, an accented letter or uniXXXX */
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quotesingle: "'", quoteright: '’', parenleft: '(', parenright: ')', asterisk: '*', plus: '+',
+  comma: ',', hyphen: '-', period: '.', slash: '/', zero: '0', one: '1', two: '2', three: '3',
+  four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9', colon: ':', semicolon: ';',
+  less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[', backslash: '\\',
+  bracketright: ']', asciicircum: '^', underscore: '_', grave: '`', quoteleft: '‘', braceleft: '{',
+  bar: '|', braceright: '}', asciitilde: '~', exclamdown: '¡', cent: '¢', sterling: '£',
+  fraction: '⁄', yen: '¥', florin: 'ƒ', section: '§', currency: '¤', quotedblleft: '“',
+  guillemotleft: '«', guilsinglleft: '‹', guilsinglright: '›', fi: 'fi', fl: 'fl', ff: 'ff',
+  ffi: 'ffi', ffl: 'ffl', endash: '–', emdash: '—', dagger: '†', daggerdbl: '‡',
+  periodcentered: '·', paragraph: '¶', bullet: '•', quotesinglbase: '‚', quotedblbase: '„',
+  quotedblright: '”', guillemotright: '»', ellipsis: '…', perthousand: '‰', questiondown: '¿',
+  acute: '´', circumflex: 'ˆ', tilde: '˜', macron: '¯', breve: '˘', dotaccent: '˙', dieresis: '¨',
+  ring: '˚', cedilla: '¸', hungarumlaut: '˝', ogonek: '˛', caron: 'ˇ', AE: 'Æ', ae: 'æ',
+  ordfeminine: 'ª', ordmasculine: 'º', Lslash: 'Ł', lslash: 'ł', Oslash: 'Ø', oslash: 'ø',
+  OE: 'Œ', oe: 'œ', dotlessi: 'ı', germandbls: 'ß', eth: 'ð', Eth: 'Ð', thorn: 'þ', Thorn: 'Þ',
+  minus: '−', multiply: '×', divide: '÷', degree: '°', copyright: '©', registered: '®',
+  trademark: '™', plusminus: '±', logicalnot: '¬', mu: 'µ', brokenbar: '¦', onehalf: '½',
+  onequarter: '¼', threequarters: '¾', onesuperior: '¹', twosuperior: '²', threesuperior: '³',
+  Euro: '€', nbspace: ' ', nonbreakingspace: ' ', sfthyphen: '-', softhyphen: '-',
+  arrowleft: '←', arrowright: '→', arrowup: '↑', arrowdown: '↓', lessequal: '≤',
+  greaterequal: '≥', notequal: '≠', infinity: '∞', approxequal: '≈', summation: '∑',
+  radical: '√', partialdiff: '∂', integral: '∫', product: '∏', lozenge: '◊', pi: 'π',
+  Omega: 'Ω', Delta: '∆', mu1: 'µ', dotlessj: 'ȷ', checkmark: '✓', circlecopyrt: '©',
+};
+
+const ACCENTS: Record<string, string> = {
+  acute: '́', grave: '̀', circumflex: '̂', dieresis: '̈', tilde: '̃',
+  ring: '̊', cedilla: '̧', caron: '̌', breve: '̆', macron: '̄',
+  ogonek: '̨', dotaccent: '̇', hungarumlaut: '̋', commaaccent: '̦',
+};
+
+/**
+ * Build the font of a font dictionary: ToUnicode maps win, then the
+ * encoding's glyph names, then the standard encodings
+ */
+export function createFont(reader: PdfDocumentReader, font: PdfDict): PdfFont {
+  const toUnicode = reader.get(font, 'ToUnicode');
+  const unicode = toUnicode instanceof PdfStream ? parseCMap(reader.decodeStream(toUnicode)) : undefined;
+
+  return nameOf(reader.get(font, 'Subtype')) === 'Type0'
+    ? createCompositeFont(reader, font, unicode)
+    : createSimpleFont(reader, font, unicode);
+}
+
+/**
+ * Decode a PDF text string (title, author, ...): UTF-16BE or UTF-8 with a
+ * byte order mark, else PDFDocEncoding
+ */
+export function decodeTextString(value: PdfObject): string | undefined {
+  if (!(value instanceof PdfString)) {
+    return undefined;
+  }
+  const { bytes } = value;
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return decodeUtf16(bytes.subarray(2));
+  }
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return bytes.toString('utf-8', 3);
+  }
+  // PDFDocEncoding matches Windows-1252 for the characters documents use
+  return Array.from(bytes, (byte) => WIN_ANSI[byte] || String.fromCharCode(byte)).join('');
+}
+
+function createSimpleFont(reader: PdfDocumentReader, font: PdfDict, unicode?: CMap): PdfFont {
+  const subtype = nameOf(reader.get(font, 'Subtype'));
+  const encoding = simpleEncoding(reader, font, subtype);
+
+  const widths = reader.get(font, 'Widths');
+  const firstChar = reader.get(font, 'FirstChar');
+  const descriptor = reader.getDict(font, 'FontDescriptor');
+  const missingWidth = reader.get(descriptor, 'MissingWidth');
+  const baseFont = nameOf(reader.get(font, 'BaseFont')) || '';
+  // Widths of the standard 14 fonts may be left out; approximate them
+  const defaultWidth = typeof missingWidth === 'number' && missingWidth > 0
+    ? missingWidth
+    : /Courier/i.test(baseFont) ? 600 : 500;
+
+  // Type 3 glyph widths are in glyph space, scaled by the font matrix
+  const matrix = reader.get(font, 'FontMatrix');
+  const scale = subtype === 'Type3' && Array.isArray(matrix) && typeof matrix[0] === 'number' ? matrix[0] * 1000 : 1;
+
+  return {
+    decode(bytes: Buffer): PdfGlyph[] {
+      return Array.from(bytes, (code) => {
+        const width = Array.isArray(widths) && typeof firstChar === 'number'
+          ? reader.resolve(widths[code - firstChar])
+          : undefined;
+        return {
+          text: unicode?.unicode.get(2 ** 32 + code) ?? encoding[code] ?? '',
+          width: (typeof width === 'number' ? width : defaultWidth) * scale,
+          isSpace: code === 32,
+        };
+      });
+    },
+  };
+}
+
+function createCompositeFont(reader: PdfDocumentReader, font: PdfDict, unicode?: CMap): PdfFont {
+  const encoding = reader.get(font, 'Encoding');
+  const encodingName = nameOf(encoding) || '';
+  const codeSpace = encoding instanceof PdfStream ? parseCMap(reader.decodeStream(encoding)) : undefined;
+  // Predefined Unicode CMaps (UniJIS-UCS2-H, UniGB-UTF16-H, ...) encode UTF-16 directly
+  const utf16 = /^Uni.*(UCS2|UTF16)/.test(encodingName);
+
+  const descendants = reader.get(font, 'DescendantFonts');
+  const descendant = Array.isArray(descendants) ? reader.resolve(descendants[0]) : null;
+  const cidFont = descendant instanceof Map ? descendant : undefined;
+  const defaultWidth = reader.get(cidFont, 'DW');
+  const widths = parseCidWidths(reader, reader.get(cidFont, 'W'));
+
+  return {
+    decode(bytes: Buffer): PdfGlyph[] {
+      const glyphs: PdfGlyph[] = [];
+      for (let i = 0; i < bytes.length;) {
+        const length = codeLength(bytes, i, unicode || codeSpace);
+        let code = 0;
+        for (let j = 0; j < length; j++) {
+          code = code * 256 + (bytes[i + j] ?? 0);
+        }
+        const mapped = unicode?.unicode.get(length * 2 ** 32 + code);
+        glyphs.push({
+          text: mapped ?? (utf16 ? String.fromCharCode(code) : ''),
+          width: widths.get(code) ?? (typeof defaultWidth === 'number' ? defaultWidth : 1000),
+          isSpace: length === 1 && code === 32,
+        });
+        i += length;
+      }
+      return glyphs;
+    },
+  };
+}
+
+/**
+ * Text for each code of a simple font: base encoding plus Differences
+ */
+function simpleEncoding(reader: PdfDocumentReader, font: PdfDict, subtype?: string): string[] {
+  const encoding = reader.get(font, 'Encoding');
+  const dict = encoding instanceof Map ? encoding : undefined;
+  const baseName = nameOf(dict ? reader.get(dict, 'BaseEncoding') : encoding);
+
+  let table = baseName === 'WinAnsiEncoding' ? WIN_ANSI
+    : baseName === 'MacRomanEncoding' ? MAC_ROMAN
+    : baseName === 'StandardEncoding' || subtype === 'Type1' ? STANDARD
+    : WIN_ANSI;
+  const differences = reader.get(dict, 'Differences');
+  if (Array.isArray(differences)) {
+    table = table.slice();
+    let code = 0;
+    for (const item of differences) {
+      const value = reader.resolve(item);
+      if (typeof value === 'number') {
+        code = value;
+      } else if (value instanceof PdfName && code < 256) {
+        table[code++] = glyphNameToText(value.name);
+      }
+    }
+  }
+  return table;
+}
+
+/**
+ * Text of a glyph name: AGL names, accented letters, uniXXXX, uXXXXX,
+ * ligatures joined with '_' and variants such as 'a.sc'
+ */
+function glyphNameToText(name: string): string {
+  const base = name.split('.')[0];
+  if (!base) {
+    return '';
+  }
+  if (base.includes('_')) {
+    return base.split('_').map(glyphNameToText).join('');
+  }
+  if (GLYPH_NAMES[base] !== undefined) {
+    return GLYPH_NAMES[base];
+  }
+  if (/^[A-Za-z]$/.test(base)) {
+    return base;
+  }
+
+  const unicode = /^uni((?:[0-9A-F]{4})+)$/.exec(base);
+  if (unicode) {
+    return unicode[1].match(/.{4}/g)!.map((hex) => String.fromCharCode(parseInt(hex, 16))).join('');
+  }
+  const codePoint = /^u([0-9A-F]{4,6})$/.exec(base);
+  if (codePoint) {
+    const point = parseInt(codePoint[1], 16);
+    return point <= 0x10ffff ? String.fromCodePoint(point) : '';
+  }
+
+  const accented = /^([A-Za-z]|dotlessi)(acute|grave|circumflex|dieresis|tilde|ring|cedilla|caron|breve|macron|ogonek|dotaccent|hungarumlaut|commaaccent)$/.exec(base);
+  if (accented) {
+    const letter = accented[1] === 'dotlessi' ? 'i' : accented[1];
+    return (letter + ACCENTS[accented[2]]).normalize('NFC');
+  }
+  return '';
+}
+
+/**
+ * Parse a CMap: code space ranges and bfchar/bfrange mappings to Unicode
+ */
+function parseCMap(data: Buffer | undefined): CMap {
+  const cmap: CMap = { ranges: [], unicode: new Map() };
+  if (!data) {
+    return cmap;
+  }
+
+  const lexer = new PdfLexer(data, 0, false);
+  const operands: PdfObject[] = [];
+  for (let token = lexer.read(); token !== undefined; token = lexer.read()) {
+    if (!(token instanceof PdfKeyword)) {
+      operands.push(token);
+      continue;
+    }
+
+    switch (token.keyword) {
+      case 'endcodespacerange':
+        for (let i = 0; i + 1 < operands.length; i += 2) {
+          const [low, high] = [operands[i], operands[i + 1]];
+          if (low instanceof PdfString && high instanceof PdfString) {
+            cmap.ranges.push([low.bytes.length, readCode(low.bytes), readCode(high.bytes)]);
+          }
+        }
+        break;
+      case 'endbfchar':
+        for (let i = 0; i + 1 < operands.length; i += 2) {
+          const [source, target] = [operands[i], operands[i + 1]];
+          if (source instanceof PdfString && target instanceof PdfString) {
+            cmap.unicode.set(codeKey(source.bytes), decodeUtf16(target.bytes));
+          }
+        }
+        break;
+      case 'endbfrange':
+        for (let i = 0; i + 2 < operands.length; i += 3) {
+          addRange(cmap, operands[i], operands[i + 1], operands[i + 2]);
+        }
+        break;
+    }
+    if (token.keyword.startsWith('end') || token.keyword.startsWith('begin')) {
+      operands.length = 0;
+    }
+  }
+  return cmap;
+}
+
+function addRange(cmap: CMap, low: PdfObject, high: PdfObject, target: PdfObject): void {
+  if (!(low instanceof PdfString) || !(high instanceof PdfString)) {
+    return;
+  }
+  const length = low.bytes.length;
+  const start = readCode(low.bytes);
+  // Cap ranges so a malformed map cannot allocate millions of entries
+  const end = Math.min(readCode(high.bytes), start + 0xffff);
+
+  for (let code = start; code <= end; code++) {
+    let text: string | undefined;
+    if (target instanceof PdfString) {
+      const base = decodeUtf16(target.bytes);
+      // The last character increments through the range
+      text = base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + code - start);
+    } else if (Array.isArray(target) && target[code - start] instanceof PdfString) {
+      text = decodeUtf16((target[code - start] as PdfString).bytes);
+    }
+    if (text !== undefined) {
+      cmap.unicode.set(length * 2 ** 32 + code, text);
+    }
+  }
+}
+
+/**
+ * Byte length of the code at a position, per the code space ranges
+ * (two bytes when none match, as for Identity-H)
+ */
+function codeLength(bytes: Buffer, position: number, cmap?: CMap): number {
+  if (cmap && cmap.ranges.length > 0) {
+    let code = 0;
+    for (let length = 1; length <= 4 && position + length <= bytes.length; length++) {
+      code = code * 256 + bytes[position + length - 1];
+      if (cmap.ranges.some(([rangeLength, low, high]) => rangeLength === length && code >= low && code <= high)) {
+        return length;
+      }
+    }
+  }
+  return 2;
+}
+
+/**
+ * Glyph widths by CID from a /W array: "c [w1 w2 ...]" and "first last w"
+ */
+function parseCidWidths(reader: PdfDocumentReader, value: PdfObject): Map<number, number> {
+  const widths = new Map<number, number>();
+  if (!Array.isArray(value)) {
+    return widths;
+  }
+
+  for (let i = 0; i < value.length;) {
+    const first = reader.resolve(value[i]);
+    const next = reader.resolve(value[i + 1]);
+    if (typeof first !== 'number') {
+      break;
+    }
+    if (Array.isArray(next)) {
+      next.forEach((width, offset) => {
+        const resolved = reader.resolve(width);
+        if (typeof resolved === 'number') {
+          widths.set(first + offset, resolved);
+        }
+      });
+      i += 2;
+    } else {
+      const width = reader.resolve(value[i + 2]);
+      if (typeof next === 'number' && typeof width === 'number') {
+        for (let cid = first; cid <= Math.min(next, first + 0xffff); cid++) {
+          widths.set(cid, width);
+        }
+      }
+      i += 3;
+    }
+  }
+  return widths;
+}
+
+function codeKey(bytes: Buffer): number {
+  return bytes.length * 2 ** 32 + readCode(bytes);
+}
+
+function readCode(bytes: Buffer): number {
+  let code = 0;
+  for (const byte of bytes.subarray(0, 4)) {
+    code = code * 256 + byte;
+  }
+  return code;
+}
+
+function decodeUtf16(bytes: Buffer): string {
+  let text = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    text += String.fromCharCode(bytes[i] * 256 + bytes[i + 1]);
+  }
+  return text;
+}
+
+function decodeTable(encoding: string): string[] {
+  const decoder = new TextDecoder(encoding);
+  return Array.from({ length: 256 }, (_, code) => {
+    const text = code >= 0x20 && code !== 0x7f ? decoder.decode(Buffer.from([code])) : '';
+    return text === '�' || (code >= 0x80 && code < 0xa0 && text.charCodeAt(0) === code) ? '' : text;
+  });
+}
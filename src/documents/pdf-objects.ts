@@ -0,0 +1,620 @@
+import { constants, inflateRawSync, inflateSync } from 'zlib';
+
+/**
+ * PDF object model (ISO 32000-1, section 7.3)
+ */
+export type PdfObject =
+  | number
+  | boolean
+  | null
+  | PdfName
+  | PdfString
+  | PdfRef
+  | PdfObject[]
+  | PdfDict
+  | PdfStream;
+
+export type PdfDict = Map<string, PdfObject>;
+
+/** Most bytes one stream may decompress to */
+const MAX_STREAM_SIZE = 64 * 1024 * 1024;
+/** Most bytes all decoded streams of a document may add up to */
+const MAX_DECODED_SIZE = 256 * 1024 * 1024;
+
+export class PdfName {
+  constructor(readonly name: string) {}
+}
+
+export class PdfString {
+  constructor(readonly bytes: Buffer) {}
+}
+
+export class PdfRef {
+  constructor(readonly num: number, readonly gen: number) {}
+}
+
+export class PdfStream {
+  constructor(readonly dict: PdfDict, readonly raw: Buffer) {}
+}
+
+/**
+ * Keyword that is not a value: an operator in content streams, or obj,
+ * stream, R and the like in the file body
+ */
+export class PdfKeyword {
+  constructor(readonly keyword: string) {}
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+/**
+ * Reads PDF tokens and objects from a buffer
+ */
+export class PdfLexer {
+  constructor(readonly data: Buffer, public pos = 0, private parseRefs = true) {}
+
+  /**
+   * Next object or keyword, or undefined at the end of the data
+   */
+  read(): PdfObject | PdfKeyword | undefined {
+    this.skipWhitespace();
+    if (this.pos >= this.data.length) {
+      return undefined;
+    }
+
+    const byte = this.data[this.pos];
+    switch (byte) {
+      case 0x2f: // /
+        return this.readName();
+      case 0x28: // (
+        return this.readLiteralString();
+      case 0x3c: // <
+        if (this.data[this.pos + 1] === 0x3c) {
+          this.pos += 2;
+          return this.readDict();
+        }
+        return this.readHexString();
+      case 0x5b: // [
+        this.pos++;
+        return this.readArray();
+      case 0x5d: // ]
+      case 0x7b: // {
+      case 0x7d: // }
+        this.pos++;
+        return new PdfKeyword(String.fromCharCode(byte));
+      case 0x3e: // >
+        this.pos += this.data[this.pos + 1] === 0x3e ? 2 : 1;
+        return new PdfKeyword('>>');
+    }
+
+    const start = this.pos;
+    while (this.pos < this.data.length && !isDelimiterOrSpace(this.data[this.pos])) {
+      this.pos++;
+    }
+    if (this.pos === start) {
+      this.pos++;
+      return new PdfKeyword(String.fromCharCode(byte));
+    }
+
+    const token = this.data.toString('latin1', start, this.pos);
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      const value = parseFloat(token);
+      return this.parseRefs && /^\d+$/.test(token) ? this.readRefAfter(value) : value;
+    }
+    switch (token) {
+      case 'true':
+        return true;
+      case 'false':
+        return false;
+      case 'null':
+        return null;
+      default:
+        return new PdfKeyword(token);
+    }
+  }
+
+  /**
+   * Next object; keywords other than values become null
+   */
+  readObject(): PdfObject {
+    const value = this.read();
+    return value instanceof PdfKeyword || value === undefined ? null : value;
+  }
+
+  skipWhitespace(): void {
+    const { data } = this;
+    while (this.pos < data.length) {
+      const byte = data[this.pos];
+      if (WHITESPACE.has(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) { // % comment
+        while (this.pos < data.length && data[this.pos] !== 0x0a && data[this.pos] !== 0x0d) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Skip inline image data after ID, up to and including EI
+   */
+  skipInlineImage(): void {
+    const { data } = this;
+    let pos = this.pos + 1;
+    while (pos < data.length - 2) {
+      if (data[pos] === 0x45 && data[pos + 1] === 0x49 && WHITESPACE.has(data[pos - 1]) &&
+          (pos + 2 >= data.length || isDelimiterOrSpace(data[pos + 2]))) {
+        this.pos = pos + 2;
+        return;
+      }
+      pos++;
+    }
+    this.pos = data.length;
+  }
+
+  private readRefAfter(value: number): number | PdfRef {
+    const save = this.pos;
+    const match = /^\s+(\d+)\s+R(?=[\s()<>[\]{}/%]|$)/.exec(
+      this.data.toString('latin1', this.pos, Math.min(this.data.length, this.pos + 32))
+    );
+    if (match) {
+      this.pos += match[0].length;
+      return new PdfRef(value, parseInt(match[1], 10));
+    }
+    this.pos = save;
+    return value;
+  }
+
+  private readName(): PdfName {
+    const start = ++this.pos;
+    while (this.pos < this.data.length && !isDelimiterOrSpace(this.data[this.pos])) {
+      this.pos++;
+    }
+    const raw = this.data.toString('latin1', start, this.pos);
+    return new PdfName(raw.replace(/#([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))));
+  }
+
+  private readLiteralString(): PdfString {
+    const { data } = this;
+    const bytes: number[] = [];
+    let depth = 1;
+    this.pos++;
+
+    while (this.pos < data.length) {
+      let byte = data[this.pos++];
+      if (byte === 0x28) {
+        depth++;
+      } else if (byte === 0x29 && --depth === 0) {
+        break;
+      } else if (byte === 0x5c) { // backslash
+        byte = data[this.pos++];
+        const escaped = ESCAPES[byte];
+        if (escaped !== undefined) {
+          bytes.push(escaped);
+        } else if (byte >= 0x30 && byte <= 0x37) {
+          let code = byte - 0x30;
+          for (let i = 0; i < 2 && data[this.pos] >= 0x30 && data[this.pos] <= 0x37; i++) {
+            code = code * 8 + data[this.pos++] - 0x30;
+          }
+          bytes.push(code & 0xff);
+        } else if (byte === 0x0d) {
+          if (data[this.pos] === 0x0a) {
+            this.pos++;
+          }
+        } else if (byte !== 0x0a) {
+          bytes.push(byte);
+        }
+        continue;
+      } else if (byte === 0x0d) {
+        if (data[this.pos] === 0x0a) {
+          this.pos++;
+        }
+        byte = 0x0a;
+      }
+      bytes.push(byte);
+    }
+
+    return new PdfString(Buffer.from(bytes));
+  }
+
+  private readHexString(): PdfString {
+    const end = this.data.indexOf(0x3e, this.pos);
+    const stop = end < 0 ? this.data.length : end;
+    let hex = this.data.toString('latin1', this.pos + 1, stop).replace(/[^0-9a-f]/gi, '');
+    if (hex.length % 2 === 1) {
+      hex += '0';
+    }
+    this.pos = stop + 1;
+    return new PdfString(Buffer.from(hex, 'hex'));
+  }
+
+  private readArray(): PdfObject[] {
+    const items: PdfObject[] = [];
+    for (;;) {
+      const value = this.read();
+      if (value === undefined || (value instanceof PdfKeyword && value.keyword === ']')) {
+        return items;
+      }
+      if (!(value instanceof PdfKeyword)) {
+        items.push(value);
+      }
+    }
+  }
+
+  private readDict(): PdfDict {
+    const dict: PdfDict = new Map();
+    for (;;) {
+      const key = this.read();
+      if (key === undefined || (key instanceof PdfKeyword && key.keyword === '>>')) {
+        return dict;
+      }
+      if (key instanceof PdfName) {
+        const value = this.read();
+        if (value === undefined) {
+          return dict;
+        }
+        if (value instanceof PdfKeyword) {
+          if (value.keyword === '>>') {
+            return dict;
+          }
+          continue;
+        }
+        dict.set(key.name, value);
+      }
+    }
+  }
+}
+
+const ESCAPES: Record<number, number> = {
+  0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c, 0x28: 0x28, 0x29: 0x29, 0x5c: 0x5c,
+};
+
+/**
+ * Objects of a PDF file.
+ *
+ * Objects are located by scanning the file for "N G obj" headers rather
+ * than trusting the cross-reference table, which is often broken in files
+ * found on the web; later definitions win, as with incremental updates.
+ * Objects inside object streams are loaded when first needed.
+ */
+export class PdfDocumentReader {
+  /** Trailer dictionaries, last one first */
+  readonly trailers: PdfDict[] = [];
+  private offsets = new Map<number, number>();
+  private compressed = new Map<number, { stream: number; index: number }>();
+  private cache = new Map<number, PdfObject>();
+  private objectStreams = new Map<number, PdfObject[]>();
+  private decodedBytes = 0;
+
+  constructor(readonly data: Buffer) {
+    const text = data.toString('latin1');
+    const header = /(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(text)) !== null) {
+      this.offsets.set(parseInt(match[1], 10), match.index + match[0].length);
+    }
+
+    const trailer = /trailer\s*<</g;
+    while ((match = trailer.exec(text)) !== null) {
+      this.trailers.unshift(new PdfLexer(data, match.index + 7).readObject() as PdfDict);
+    }
+
+    // Cross-reference streams carry the trailer entries, and list object streams
+    for (const num of this.offsets.keys()) {
+      const object = this.getObject(num);
+      if (object instanceof PdfStream) {
+        const type = nameOf(object.dict.get('Type'));
+        if (type === 'XRef') {
+          this.trailers.unshift(object.dict);
+        } else if (type === 'ObjStm') {
+          this.indexObjectStream(num, object);
+        }
+      }
+    }
+  }
+
+  /**
+   * Value of a reference (or the value itself); missing objects are null
+   */
+  resolve(value: PdfObject | undefined): PdfObject {
+    for (let depth = 0; value instanceof PdfRef && depth < 32; depth++) {
+      value = this.getObject(value.num);
+    }
+    return value === undefined || value instanceof PdfRef ? null : value;
+  }
+
+  /**
+   * Resolved dictionary entry
+   */
+  get(dict: PdfDict | undefined, key: string): PdfObject {
+    return dict ? this.resolve(dict.get(key)) : null;
+  }
+
+  /**
+   * Resolved dictionary entry when it is a dictionary (or a stream's dictionary)
+   */
+  getDict(dict: PdfDict | undefined, key: string): PdfDict | undefined {
+    const value = this.get(dict, key);
+    return value instanceof Map ? value : value instanceof PdfStream ? value.dict : undefined;
+  }
+
+  /**
+   * Decoded data of a stream, or undefined when it uses an unsupported filter.
+   * Throws when a stream, or all streams decoded so far, decompress to
+   * more than the size limits (compression bombs).
+   */
+  decodeStream(stream: PdfStream): Buffer | undefined {
+    const filters = toArray(this.get(stream.dict, 'Filter'));
+    const parameters = toArray(this.get(stream.dict, 'DecodeParms'));
+    let data = stream.raw;
+
+    for (const [index, filter] of filters.entries()) {
+      const params = this.resolve(parameters[index]);
+      const limit = Math.max(1, Math.min(MAX_STREAM_SIZE, MAX_DECODED_SIZE - this.decodedBytes));
+      const decoded = applyFilter(nameOf(this.resolve(filter)), data, limit, params instanceof Map ? params : undefined);
+      if (!decoded) {
+        return undefined;
+      }
+      this.decodedBytes += decoded.length;
+      data = decoded;
+    }
+    return data;
+  }
+
+  private getObject(num: number): PdfObject | undefined {
+    if (this.cache.has(num)) {
+      return this.cache.get(num);
+    }
+    // Guard against reference cycles while parsing
+    this.cache.set(num, null);
+
+    let object: PdfObject | undefined;
+    const offset = this.offsets.get(num);
+    if (offset !== undefined) {
+      object = this.parseAt(offset);
+    } else {
+      const location = this.compressed.get(num);
+      object = location && this.objectStreams.get(location.stream)?.[location.index];
+    }
+
+    this.cache.set(num, object ?? null);
+    return object;
+  }
+
+  private parseAt(offset: number): PdfObject {
+    const lexer = new PdfLexer(this.data, offset);
+    const value = lexer.readObject();
+    if (!(value instanceof Map)) {
+      return value;
+    }
+
+    const after = lexer.pos;
+    const keyword = lexer.read();
+    if (!(keyword instanceof PdfKeyword) || keyword.keyword !== 'stream') {
+      return value;
+    }
+
+    // Data starts after the end-of-line that follows the keyword
+    let start = lexer.pos;
+    if (this.data[start] === 0x0d) {
+      start++;
+    }
+    if (this.data[start] === 0x0a) {
+      start++;
+    }
+    const length = this.resolveLength(value.get('Length'), after);
+    const declaredEnd = length !== undefined ? start + length : -1;
+    const endstream = this.data.indexOf('endstream', declaredEnd >= start ? declaredEnd : start, 'latin1');
+
+    let end = declaredEnd;
+    if (declaredEnd < start || declaredEnd > this.data.length ||
+        (endstream >= 0 && this.data.toString('latin1', declaredEnd, endstream).trim() !== '')) {
+      end = endstream < 0 ? this.data.length : endstream;
+      while (end > start && (this.data[end - 1] === 0x0a || this.data[end - 1] === 0x0d)) {
+        end--;
+      }
+    }
+    return new PdfStream(value, this.data.subarray(start, end));
+  }
+
+  private resolveLength(value: PdfObject | undefined, from: number): number | undefined {
+    if (typeof value === 'number') {
+      return value;
+    }
+    if (value instanceof PdfRef) {
+      const offset = this.offsets.get(value.num);
+      // The length object usually follows the stream; avoid recursing into this stream
+      if (offset !== undefined && offset !== from) {
+        const length = new PdfLexer(this.data, offset).readObject();
+        return typeof length === 'number' ? length : undefined;
+      }
+    }
+    return undefined;
+  }
+
+  private indexObjectStream(num: number, stream: PdfStream): void {
+    const data = this.decodeStream(stream);
+    const count = this.get(stream.dict, 'N');
+    const first = this.get(stream.dict, 'First');
+    if (!data || typeof count !== 'number' || typeof first !== 'number') {
+      return;
+    }
+
+    const header = new PdfLexer(data, 0, false);
+    const entries: Array<[number, number]> = [];
+    for (let i = 0; i < count; i++) {
+      const objectNum = header.readObject();
+      const offset = header.readObject();
+      if (typeof objectNum === 'number' && typeof offset === 'number') {
+        entries.push([objectNum, offset]);
+      }
+    }
+
+    const objects = entries.map(([, offset]) => new PdfLexer(data, first + offset).readObject());
+    this.objectStreams.set(num, objects);
+    entries.forEach(([objectNum], index) => {
+      // Objects written out in full take precedence over compressed ones
+      if (!this.offsets.has(objectNum)) {
+        this.compressed.set(objectNum, { stream: num, index });
+      }
+    });
+  }
+}
+
+/**
+ * Name of a name object, or undefined
+ */
+export function nameOf(value: PdfObject | undefined): string | undefined {
+  return value instanceof PdfName ? value.name : undefined;
+}
+
+function toArray(value: PdfObject): PdfObject[] {
+  if (value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function isDelimiterOrSpace(byte: number): boolean {
+  return WHITESPACE.has(byte) || DELIMITERS.has(byte);
+}
+
+function applyFilter(
+  filter: string | undefined,
+  data: Buffer,
+  maxOutputLength: number,
+  params?: PdfDict
+): Buffer | undefined {
+  switch (filter) {
+    case 'FlateDecode':
+    case 'Fl':
+      return applyPredictor(inflate(data, maxOutputLength), params);
+    case 'ASCIIHexDecode':
+    case 'AHx':
+      return decodeAsciiHex(data);
+    case 'ASCII85Decode':
+    case 'A85':
+      return decodeAscii85(data);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Inflate zlib data, salvaging what decompresses from truncated or
+ * headerless streams. Throws when the output would exceed maxOutputLength.
+ */
+function inflate(data: Buffer, maxOutputLength: number): Buffer {
+  const attempts = [
+    () => inflateSync(data, { maxOutputLength }),
+    () => inflateSync(data, { maxOutputLength, finishFlush: constants.Z_SYNC_FLUSH }),
+    () => inflateRawSync(data, { maxOutputLength, finishFlush: constants.Z_SYNC_FLUSH }),
+  ];
+
+  let lastError: unknown;
+  for (const attempt of attempts) {
+    try {
+      return attempt();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new Error(`PDF stream decompresses to more than ${maxOutputLength} bytes`);
+      }
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Undo PNG row predictors (used by cross-reference and object streams)
+ */
+function applyPredictor(data: Buffer, params?: PdfDict): Buffer {
+  const predictor = params?.get('Predictor');
+  if (typeof predictor !== 'number' || predictor < 10) {
+    return data;
+  }
+  const colors = (params?.get('Colors') as number) || 1;
+  const bits = (params?.get('BitsPerComponent') as number) || 8;
+  const columns = (params?.get('Columns') as number) || 1;
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bits) / 8));
+  const rowLength = Math.ceil((colors * bits * columns) / 8);
+
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const output = Buffer.alloc(rows * rowLength);
+  for (let row = 0; row < rows; row++) {
+    const type = data[row * (rowLength + 1)];
+    const input = row * (rowLength + 1) + 1;
+    const out = row * rowLength;
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? output[out + i - bytesPerPixel] : 0;
+      const up = row > 0 ? output[out + i - rowLength] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? output[out + i - rowLength - bytesPerPixel] : 0;
+      let value = data[input + i];
+      switch (type) {
+        case 1: value += left; break;
+        case 2: value += up; break;
+        case 3: value += Math.floor((left + up) / 2); break;
+        case 4: {
+          const estimate = left + up - upLeft;
+          const dLeft = Math.abs(estimate - left);
+          const dUp = Math.abs(estimate - up);
+          const dUpLeft = Math.abs(estimate - upLeft);
+          value += dLeft <= dUp && dLeft <= dUpLeft ? left : dUp <= dUpLeft ? up : upLeft;
+          break;
+        }
+      }
+      output[out + i] = value & 0xff;
+    }
+  }
+  return output;
+}
+
+function decodeAsciiHex(data: Buffer): Buffer {
+  let hex = data.toString('latin1').split('>')[0].replace(/[^0-9a-f]/gi, '');
+  if (hex.length % 2 === 1) {
+    hex += '0';
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+function decodeAscii85(data: Buffer): Buffer {
+  const text = data.toString('latin1').replace(/^\s*<~/, '').split('~>')[0].replace(/\s+/g, '');
+  const bytes: number[] = [];
+  let group: number[] = [];
+
+  const flush = (length: number) => {
+    while (group.length < 5) {
+      group.push(84);
+    }
+    let value = 0;
+    for (const digit of group) {
+      value = value * 85 + digit;
+    }
+    for (let i = 0; i < length - 1; i++) {
+      bytes.push((value >>> (24 - i * 8)) & 0xff);
+    }
+    group = [];
+  };
+
+  for (const char of text) {
+    if (char === 'z' && group.length === 0) {
+      bytes.push(0, 0, 0, 0);
+      continue;
+    }
+    const digit = char.charCodeAt(0) - 33;
+    if (digit < 0 || digit > 84) {
+      continue;
+    }
+    group.push(digit);
+    if (group.length === 5) {
+      flush(5);
+    }
+  }
+  if (group.length > 1) {
+    flush(group.length);
+  }
+  return Buffer.from(bytes);
+}
@@ -0,0 +1,518 @@
+import { BackendPageMetadata, DocumentExtraction, DocumentPage } from '../types';
+import { normalizeDate } from '../utils/metadata-utils';
+import { PdfFont, createFont, decodeTextString } from './pdf-fonts';
+import { PdfDict, PdfDocumentReader, PdfKeyword, PdfLexer, PdfObject, PdfStream, PdfString, nameOf } from './pdf-objects';
+import { findElements, parseXml, xmlText } from './xml-parser';
+
+type Matrix = [number, number, number, number, number, number];
+
+interface PdfPageObject {
+  dict: PdfDict;
+  resources?: PdfDict;
+}
+
+interface TextState {
+  font?: PdfFont;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  rise: number;
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  text: TextState;
+}
+
+/** Line of text, in the coordinates of its writing direction */
+interface TextLine {
+  text: string;
+  /** Direction of the baseline, in degrees */
+  angle: number;
+  /** Start and end along the baseline */
+  x: number;
+  end: number;
+  /** Position across the baseline (upwards) */
+  y: number;
+  size: number;
+}
+
+interface Paragraph {
+  text: string;
+  size: number;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_FORM_DEPTH = 8;
+const LIST_MARKER = /^([•◦▪▫●○■□‣∙·–-]|\d{1,3}[.)]|[a-z][.)])\s/;
+
+/**
+ * Parse a PDF document.
+ *
+ * Text is read from the page content streams and laid out by position:
+ * glyphs on a baseline form lines, and lines are grouped into paragraphs
+ * by their spacing and font size. Paragraphs in larger type become
+ * Markdown headings. Encrypted documents are rejected. Scanned pages
+ * without a text layer, and text in fonts without a Unicode mapping
+ * (common for embedded CJK fonts), come out empty.
+ */
+export function parsePdf(data: Buffer): DocumentExtraction {
+  const header = data.subarray(0, 1024).indexOf('%PDF-', 0, 'latin1');
+  if (header < 0) {
+    throw new Error('Not a PDF document');
+  }
+
+  const reader = new PdfDocumentReader(data);
+  if (reader.trailers.some((trailer) => trailer.has('Encrypt'))) {
+    throw new Error('Encrypted PDF documents are not supported');
+  }
+  const catalog = reader.trailers.map((trailer) => reader.getDict(trailer, 'Root')).find(Boolean);
+  if (!catalog) {
+    throw new Error('PDF document catalog not found');
+  }
+
+  const pageObjects: PdfPageObject[] = [];
+  collectPages(reader, reader.getDict(catalog, 'Pages'), undefined, pageObjects, new Set());
+
+  const links: string[] = [];
+  const fonts = new Map<PdfDict, PdfFont>();
+  const paragraphsByPage = pageObjects.map((page) => {
+    links.push(...readLinks(reader, page.dict).filter((link) => !links.includes(link)));
+    const lines = new PdfTextCollector(reader, fonts).collect(page);
+    return groupParagraphs(lines);
+  });
+
+  const bodySize = mostCommonSize(paragraphsByPage.flat());
+  let firstHeading: string | undefined;
+  const pages: DocumentPage[] = paragraphsByPage.map((paragraphs, index) => {
+    const markdown = paragraphs.map((paragraph) => {
+      const level = headingLevel(paragraph, bodySize);
+      if (level && !firstHeading) {
+        firstHeading = paragraph.text;
+      }
+      return level ? `${'#'.repeat(level)} ${paragraph.text}` : paragraph.text.replace(/^[•◦▪▫●○■□‣∙·]\s*/, '- ');
+    });
+    return {
+      pageNumber: index + 1,
+      markdown: markdown.join('\n\n'),
+      text: paragraphs.map((paragraph) => paragraph.text).join('\n\n'),
+    };
+  });
+
+  const metadata = readMetadata(reader, catalog);
+  const firstParagraph = paragraphsByPage.flat()[0]?.text;
+  const nonEmpty = pages.filter((page) => page.text);
+
+  return {
+    type: 'pdf',
+    title: metadata.title || firstHeading || (firstParagraph && firstParagraph.length <= 100 ? firstParagraph : undefined),
+    markdown: nonEmpty.map((page) => page.markdown).join('\n\n'),
+    text: nonEmpty.map((page) => page.text).join('\n\n'),
+    pages,
+    links,
+    metadata: { ...metadata, pageCount: pages.length },
+  };
+}
+
+/**
+ * Runs content streams and collects the text they show as lines
+ */
+class PdfTextCollector {
+  private lines: TextLine[] = [];
+  private state: GraphicsState = { ctm: IDENTITY, text: newTextState() };
+  private stack: GraphicsState[] = [];
+  private textMatrix: Matrix = IDENTITY;
+  private lineMatrix: Matrix = IDENTITY;
+
+  constructor(private reader: PdfDocumentReader, private fonts: Map<PdfDict, PdfFont>) {}
+
+  collect(page: PdfPageObject): TextLine[] {
+    const contents = this.reader.get(page.dict, 'Contents');
+    const streams = (Array.isArray(contents) ? contents.map((item) => this.reader.resolve(item)) : [contents])
+      .filter((item): item is PdfStream => item instanceof PdfStream);
+    // A content stream may be split anywhere, even inside an operator
+    const data = Buffer.concat(streams.flatMap((stream) => [this.reader.decodeStream(stream) || Buffer.alloc(0), Buffer.from('\n')]));
+
+    this.run(data, page.resources, 0);
+    return this.lines;
+  }
+
+  private run(data: Buffer, resources: PdfDict | undefined, depth: number): void {
+    const lexer = new PdfLexer(data, 0, false);
+    const operands: PdfObject[] = [];
+
+    for (let token = lexer.read(); token !== undefined; token = lexer.read()) {
+      if (!(token instanceof PdfKeyword)) {
+        operands.push(token);
+        continue;
+      }
+      if (token.keyword === 'ID') {
+        lexer.skipInlineImage();
+      } else {
+        this.execute(token.keyword, operands, resources, depth);
+      }
+      operands.length = 0;
+    }
+  }
+
+  private execute(operator: string, operands: PdfObject[], resources: PdfDict | undefined, depth: number): void {
+    const text = this.state.text;
+    const number = (index: number) => {
+      const value = operands[index];
+      return typeof value === 'number' ? value : 0;
+    };
+
+    switch (operator) {
+      case 'q':
+        this.stack.push({ ctm: this.state.ctm, text: { ...text } });
+        break;
+      case 'Q':
+        this.state = this.stack.pop() || this.state;
+        break;
+      case 'cm':
+        this.state.ctm = multiply(toMatrix(operands), this.state.ctm);
+        break;
+      case 'BT':
+        this.textMatrix = this.lineMatrix = IDENTITY;
+        break;
+      case 'Tf': {
+        const fontDict = this.reader.getDict(this.reader.getDict(resources, 'Font'), nameOf(operands[0]) || '');
+        text.font = fontDict && this.loadFont(fontDict);
+        text.fontSize = number(1);
+        break;
+      }
+      case 'Tc':
+        text.charSpacing = number(0);
+        break;
+      case 'Tw':
+        text.wordSpacing = number(0);
+        break;
+      case 'Tz':
+        text.horizontalScale = number(0) / 100;
+        break;
+      case 'TL':
+        text.leading = number(0);
+        break;
+      case 'Ts':
+        text.rise = number(0);
+        break;
+      case 'Td':
+        this.moveLine(number(0), number(1));
+        break;
+      case 'TD':
+        text.leading = -number(1);
+        this.moveLine(number(0), number(1));
+        break;
+      case 'Tm':
+        this.textMatrix = this.lineMatrix = toMatrix(operands);
+        break;
+      case 'T*':
+        this.moveLine(0, -text.leading);
+        break;
+      case 'Tj':
+        this.show(operands[0]);
+        break;
+      case "'":
+        this.moveLine(0, -text.leading);
+        this.show(operands[0]);
+        break;
+      case '"':
+        text.wordSpacing = number(0);
+        text.charSpacing = number(1);
+        this.moveLine(0, -text.leading);
+        this.show(operands[2]);
+        break;
+      case 'TJ':
+        for (const item of Array.isArray(operands[0]) ? operands[0] : []) {
+          if (typeof item === 'number') {
+            this.advance((-item / 1000) * text.fontSize * text.horizontalScale);
+          } else {
+            this.show(item);
+          }
+        }
+        break;
+      case 'Do':
+        this.drawForm(operands[0], resources, depth);
+        break;
+    }
+  }
+
+  private moveLine(tx: number, ty: number): void {
+    this.textMatrix = this.lineMatrix = multiply([1, 0, 0, 1, tx, ty], this.lineMatrix);
+  }
+
+  private advance(tx: number): void {
+    this.textMatrix = multiply([1, 0, 0, 1, tx, 0], this.textMatrix);
+  }
+
+  private show(value: PdfObject): void {
+    const { font, fontSize, charSpacing, wordSpacing, horizontalScale } = this.state.text;
+    if (!(value instanceof PdfString) || !font) {
+      return;
+    }
+
+    for (const glyph of font.decode(value.bytes)) {
+      const start = this.renderingMatrix();
+      this.advance(((glyph.width / 1000) * fontSize + charSpacing + (glyph.isSpace ? wordSpacing : 0)) * horizontalScale);
+      if (glyph.text) {
+        this.addGlyph(glyph.text.replace(/[ﬀ-ﬆ]/g, (ligature) => ligature.normalize('NFKC')), start, this.renderingMatrix());
+      }
+    }
+  }
+
+  private renderingMatrix(): Matrix {
+    const { fontSize, horizontalScale, rise } = this.state.text;
+    return multiply(multiply([fontSize * horizontalScale, 0, 0, fontSize, 0, rise], this.textMatrix), this.state.ctm);
+  }
+
+  /**
+   * Add a glyph to the current line, or start a new line when it is not
+   * on the same baseline just after it
+   */
+  private addGlyph(text: string, start: Matrix, end: Matrix): void {
+    const angle = Math.round((Math.atan2(start[1], start[0]) * 180) / Math.PI);
+    const radians = (angle * Math.PI) / 180;
+    const [cos, sin] = [Math.cos(radians), Math.sin(radians)];
+    const size = Math.hypot(start[2], start[3]);
+    const x = start[4] * cos + start[5] * sin;
+    const y = start[5] * cos - start[4] * sin;
+    const endX = end[4] * cos + end[5] * sin;
+    if (size <= 0) {
+      return;
+    }
+
+    const line = this.lines[this.lines.length - 1];
+    if (line && line.angle === angle && Math.abs(line.y - y) <= size * 0.5 && x >= line.end - size) {
+      if (x - line.end > size * 0.15 && !line.text.endsWith(' ') && !text.startsWith(' ')) {
+        line.text += ' ';
+      }
+      line.text += text;
+      line.end = Math.max(line.end, endX);
+      line.size = Math.max(line.size, size);
+      return;
+    }
+    this.lines.push({ text, angle, x, end: endX, y, size });
+  }
+
+  private drawForm(name: PdfObject, resources: PdfDict | undefined, depth: number): void {
+    const form = this.reader.get(this.reader.getDict(resources, 'XObject'), nameOf(name) || '');
+    if (!(form instanceof PdfStream) || nameOf(this.reader.get(form.dict, 'Subtype')) !== 'Form' || depth >= MAX_FORM_DEPTH) {
+      return;
+    }
+    const data = this.reader.decodeStream(form);
+    if (!data) {
+      return;
+    }
+
+    const saved = { state: this.state, stack: this.stack, textMatrix: this.textMatrix, lineMatrix: this.lineMatrix };
+    const matrix = this.reader.get(form.dict, 'Matrix');
+    this.state = { ctm: multiply(Array.isArray(matrix) ? toMatrix(matrix) : IDENTITY, this.state.ctm), text: { ...this.state.text } };
+    this.stack = [];
+    this.run(data, this.reader.getDict(form.dict, 'Resources') || resources, depth + 1);
+    ({ state: this.state, stack: this.stack, textMatrix: this.textMatrix, lineMatrix: this.lineMatrix } = saved);
+  }
+
+  private loadFont(dict: PdfDict): PdfFont {
+    let font = this.fonts.get(dict);
+    if (!font) {
+      font = createFont(this.reader, dict);
+      this.fonts.set(dict, font);
+    }
+    return font;
+  }
+}
+
+/**
+ * Page objects in order, with inherited resources
+ */
+function collectPages(
+  reader: PdfDocumentReader,
+  node: PdfDict | undefined,
+  resources: PdfDict | undefined,
+  pages: PdfPageObject[],
+  seen: Set<PdfDict>
+): void {
+  if (!node || seen.has(node)) {
+    return;
+  }
+  seen.add(node);
+  const ownResources = reader.getDict(node, 'Resources') || resources;
+
+  const kids = reader.get(node, 'Kids');
+  if (nameOf(reader.get(node, 'Type')) === 'Pages' || Array.isArray(kids)) {
+    for (const kid of Array.isArray(kids) ? kids : []) {
+      const child = reader.resolve(kid);
+      collectPages(reader, child instanceof Map ? child : undefined, ownResources, pages, seen);
+    }
+    return;
+  }
+  pages.push({ dict: node, resources: ownResources });
+}
+
+/**
+ * Group lines into paragraphs. Lines join when they follow each other at
+ * about the document's usual line spacing in the same type size; lists
+ * items always start a paragraph.
+ */
+function groupParagraphs(lines: TextLine[]): Paragraph[] {
+  const gaps = lines
+    .slice(1)
+    .flatMap((line, index) => {
+      const gap = lines[index].y - line.y;
+      return line.angle === lines[index].angle && gap > 0 && gap < line.size * 3 ? [gap] : [];
+    })
+    .sort((a, b) => a - b);
+  const lineGap = gaps[Math.floor(gaps.length / 2)];
+
+  const paragraphs: Paragraph[] = [];
+  let current: Paragraph | undefined;
+  let previous: TextLine | undefined;
+
+  for (const line of lines) {
+    const text = line.text.replace(/\s+/g, ' ').trim();
+    if (!text) {
+      continue;
+    }
+
+    const gap = previous ? previous.y - line.y : 0;
+    const joins = current && previous &&
+      line.angle === previous.angle &&
+      gap > line.size * 0.3 &&
+      gap <= Math.max(lineGap ?? 0, line.size * 1.2) * 1.3 &&
+      Math.abs(line.size - previous.size) <= previous.size * 0.1 &&
+      !LIST_MARKER.test(text);
+
+    if (current && joins) {
+      current.text = /[\p{L}]-$/u.test(current.text) && /^\p{Ll}/u.test(text)
+        ? current.text.slice(0, -1) + text
+        : `${current.text} ${text}`;
+    } else {
+      current = { text, size: line.size };
+      paragraphs.push(current);
+    }
+    previous = line;
+  }
+  return paragraphs;
+}
+
+/**
+ * Size of most of the text, weighted by length
+ */
+function mostCommonSize(paragraphs: Paragraph[]): number {
+  const totals = new Map<number, number>();
+  for (const paragraph of paragraphs) {
+    const size = Math.round(paragraph.size * 2) / 2;
+    totals.set(size, (totals.get(size) || 0) + paragraph.text.length);
+  }
+  let best = 0;
+  let bestTotal = 0;
+  for (const [size, total] of totals) {
+    if (total > bestTotal) {
+      [best, bestTotal] = [size, total];
+    }
+  }
+  return best;
+}
+
+function headingLevel(paragraph: Paragraph, bodySize: number): number | undefined {
+  if (!bodySize || paragraph.text.length > 150 || !/\p{L}/u.test(paragraph.text)) {
+    return undefined;
+  }
+  const ratio = paragraph.size / bodySize;
+  return ratio >= 1.5 ? 1 : ratio >= 1.15 ? 2 : undefined;
+}
+
+/**
+ * URLs of a page's link annotations
+ */
+function readLinks(reader: PdfDocumentReader, page: PdfDict): string[] {
+  const annotations = reader.get(page, 'Annots');
+  const links: string[] = [];
+  for (const item of Array.isArray(annotations) ? annotations : []) {
+    const annotation = reader.resolve(item);
+    const action = annotation instanceof Map ? reader.getDict(annotation, 'A') : undefined;
+    const uri = nameOf(reader.get(action, 'S')) === 'URI' ? decodeTextString(reader.get(action, 'URI')) : undefined;
+    if (uri && /^(https?|mailto):/i.test(uri) && !links.includes(uri)) {
+      links.push(uri);
+    }
+  }
+  return links;
+}
+
+/**
+ * Title, authors, subject, keywords and dates from the document
+ * information dictionary, falling back to the XMP metadata stream
+ */
+function readMetadata(reader: PdfDocumentReader, catalog: PdfDict): BackendPageMetadata {
+  const info = reader.trailers.map((trailer) => reader.getDict(trailer, 'Info')).find(Boolean);
+  const value = (key: string) => decodeTextString(reader.get(info, key))?.trim() || undefined;
+  const xmp = readXmp(reader, catalog);
+  const list = (text: string | undefined) => {
+    const items = (text || '').split(/[,;]/).map((item) => item.trim()).filter(Boolean);
+    return items.length > 0 ? items : undefined;
+  };
+
+  return {
+    title: value('Title')?.replace(/^Microsoft (Word|PowerPoint) - /, '') || xmp('dc:title'),
+    description: value('Subject') || xmp('dc:description'),
+    language: decodeTextString(reader.get(catalog, 'Lang'))?.trim() || undefined,
+    authors: list(value('Author')) || list(xmp('dc:creator')),
+    keywords: list(value('Keywords') || xmp('pdf:Keywords')),
+    publishedAt: normalizeDate(parsePdfDate(value('CreationDate'))) || normalizeDate(xmp('xmp:CreateDate')),
+    modifiedAt: normalizeDate(parsePdfDate(value('ModDate'))) || normalizeDate(xmp('xmp:ModifyDate')),
+  };
+}
+
+/**
+ * Reader for XMP properties: the text of rdf:li items joined with ';',
+ * or the element's text
+ */
+function readXmp(reader: PdfDocumentReader, catalog: PdfDict): (name: string) => string | undefined {
+  const stream = reader.get(catalog, 'Metadata');
+  const data = stream instanceof PdfStream ? reader.decodeStream(stream) : undefined;
+  const root = data ? parseXml(data.toString('utf-8')) : undefined;
+
+  return (name: string) => {
+    const element = root && findElements(root, name)[0];
+    if (!element) {
+      return undefined;
+    }
+    const items = findElements(element, 'rdf:li').map((item) => xmlText(item).trim()).filter(Boolean);
+    return (items.length > 0 ? items.join('; ') : xmlText(element).trim()) || undefined;
+  };
+}
+
+/**
+ * Convert a PDF date (D:YYYYMMDDHHmmSSOHH'mm) to ISO 8601
+ */
+function parsePdfDate(value: string | undefined): string | undefined {
+  const match = value && /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?\s*(Z|[+-]\d{2}'?\d{2}'?)?/.exec(value);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', zone] = match;
+  const offset = !zone || zone === 'Z' ? 'Z' : `${zone.slice(0, 3)}:${zone.slice(3).replace(/'/g, '') || '00'}`;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`;
+}
+
+function newTextState(): TextState {
+  return { fontSize: 0, charSpacing: 0, wordSpacing: 0, horizontalScale: 1, leading: 0, rise: 0 };
+}
+
+function toMatrix(values: PdfObject[]): Matrix {
+  const numbers = values.slice(0, 6).map((value) => (typeof value === 'number' ? value : 0));
+  return numbers.length === 6 ? (numbers as Matrix) : IDENTITY;
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
@@ -0,0 +1,111 @@
+/**
+ * Element of a parsed XML document. Names keep their namespace prefix
+ * (e.g. 'w:p'); prefixes are not resolved.
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: Array<XmlElement | string>;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * Parse XML into an element tree rooted at a '#document' element.
+ * Comments, processing instructions and doctypes are skipped; CDATA
+ * becomes text. Mismatched closing tags close up to the nearest match.
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const pattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const addText = (text: string) => {
+    if (text) {
+      stack[stack.length - 1].children.push(text);
+    }
+  };
+
+  while ((match = pattern.exec(xml)) !== null) {
+    addText(decodeXmlEntities(xml.slice(lastIndex, match.index)));
+    lastIndex = pattern.lastIndex;
+
+    const [, cdata, closeName, openName, rawAttributes, selfClosing] = match;
+    if (cdata !== undefined) {
+      addText(cdata);
+    } else if (closeName) {
+      const index = stack.map((element) => element.name).lastIndexOf(closeName);
+      if (index > 0) {
+        stack.length = index;
+      }
+    } else if (openName) {
+      const element: XmlElement = { name: openName, attributes: parseXmlAttributes(rawAttributes), children: [] };
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+
+  addText(decodeXmlEntities(xml.slice(lastIndex)));
+  return root;
+}
+
+/**
+ * Child elements, optionally only those with a name
+ */
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement => typeof child !== 'string' && (!name || child.name === name)
+  );
+}
+
+/**
+ * First child element with a name
+ */
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return childElements(element, name)[0];
+}
+
+/**
+ * All descendant elements with a name, in document order
+ */
+export function findElements(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of childElements(element)) {
+    if (child.name === name) {
+      found.push(child);
+    }
+    found.push(...findElements(child, name));
+  }
+  return found;
+}
+
+/**
+ * Concatenated text of an element and its descendants
+ */
+export function xmlText(element: XmlElement): string {
+  return element.children.map((child) => (typeof child === 'string' ? child : xmlText(child))).join('');
+}
+
+function parseXmlAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(raw)) !== null) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    if (code[0] !== '#') {
+      return XML_ENTITIES[code.toLowerCase()];
+    }
+    const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+  });
+}
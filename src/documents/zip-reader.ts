@@ -0,0 +1,109 @@
+import { inflateRawSync } from 'zlib';
+
+/**
+ * Files of a ZIP archive, decompressed on demand
+ */
+export interface ZipArchive {
+  /** Paths of the files in the archive */
+  names: string[];
+  /** Contents of a file, or undefined if the archive has no such file */
+  read(name: string): Buffer | undefined;
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/** Largest file read from an archive, so zip bombs cannot exhaust memory */
+const MAX_ENTRY_SIZE = 64 * 1024 * 1024;
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Open a ZIP archive (https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT).
+ * Supports stored and deflated files; ZIP64 and encrypted archives are
+ * rejected, and so are files over 64MB uncompressed.
+ */
+export function openZip(data: Buffer): ZipArchive {
+  const end = findEndOfCentralDirectory(data);
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const flags = data.readUInt16LE(offset + 8);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const name = data.toString(flags & 0x800 ? 'utf-8' : 'latin1', offset + 46, offset + 46 + nameLength);
+
+    if (flags & 0x1) {
+      throw new Error('Encrypted ZIP archives are not supported');
+    }
+    const uncompressedSize = data.readUInt32LE(offset + 24);
+    if (uncompressedSize > MAX_ENTRY_SIZE) {
+      throw new Error(`ZIP entry ${name} is too large (${uncompressedSize} bytes uncompressed)`);
+    }
+    entries.set(name, {
+      method: data.readUInt16LE(offset + 10),
+      compressedSize: data.readUInt32LE(offset + 20),
+      localHeaderOffset: data.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return {
+    names: Array.from(entries.keys()),
+    read(name: string): Buffer | undefined {
+      const entry = entries.get(name);
+      return entry && readEntry(data, entry);
+    },
+  };
+}
+
+function findEndOfCentralDirectory(data: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64KB
+  const stop = Math.max(0, data.length - 22 - 0xffff);
+  for (let offset = data.length - 22; offset >= stop; offset--) {
+    if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('Not a ZIP archive');
+}
+
+function readEntry(data: Buffer, entry: ZipEntry): Buffer {
+  const header = entry.localHeaderOffset;
+  if (data.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+    throw new Error('Corrupt ZIP file header');
+  }
+  const start = header + 30 + data.readUInt16LE(header + 26) + data.readUInt16LE(header + 28);
+  const compressed = data.subarray(start, start + entry.compressedSize);
+
+  switch (entry.method) {
+    case 0:
+      return compressed;
+    case 8:
+      try {
+        // The declared size cannot be trusted; cap what inflating may produce
+        return inflateRawSync(compressed, { maxOutputLength: MAX_ENTRY_SIZE });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new Error(`ZIP entry is larger than ${MAX_ENTRY_SIZE} bytes uncompressed`);
+        }
+        throw error;
+      }
+    default:
+      throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+  }
+}
@@ -0,0 +1,110 @@
+import { Embedder } from '../types';
+import { hashString } from '../utils/fingerprint-utils';
+
+/**
+ * Hashing embedder options
+ */
+export interface HashingEmbedderOptions {
+  /** Vector length (default: 512) */
+  dimensions?: number;
+  /** Also hash pairs of adjacent words (default: true) */
+  bigrams?: boolean;
+  /** IDF weight per dimension, usually from fit() */
+  idf?: number[];
+}
+
+interface HashingEmbedderState {
+  dimensions: number;
+  bigrams: boolean;
+  idf?: number[];
+}
+
+/**
+ * Offline TF-IDF embedder using the hashing trick.
+ *
+ * Words (and word pairs) are hashed into a fixed number of signed
+ * dimensions and weighted by sublinear term frequency. After fit(),
+ * each dimension is also weighted by its inverse document frequency,
+ * so words common across the corpus count less. Vectors are L2
+ * normalized.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly name = 'hashing';
+  readonly dimensions: number;
+  private bigrams: boolean;
+  private idf?: number[];
+
+  constructor(options: HashingEmbedderOptions = {}) {
+    this.dimensions = options.dimensions || 512;
+    this.bigrams = options.bigrams ?? true;
+    this.idf = options.idf;
+
+    if (this.idf && this.idf.length !== this.dimensions) {
+      throw new Error(`IDF weights have ${this.idf.length} dimensions, expected ${this.dimensions}`);
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.vectorize(text));
+  }
+
+  /**
+   * Copy of this embedder with IDF weights learned from a corpus
+   */
+  fit(texts: string[]): HashingEmbedder {
+    const documentFrequency = new Array<number>(this.dimensions).fill(0);
+
+    for (const text of texts) {
+      const buckets = new Set(
+        this.features(text).map((feature) => hashString(feature) % this.dimensions)
+      );
+      buckets.forEach((bucket) => documentFrequency[bucket]++);
+    }
+
+    const idf = documentFrequency.map((df) => Math.log((1 + texts.length) / (1 + df)) + 1);
+    return new HashingEmbedder({ dimensions: this.dimensions, bigrams: this.bigrams, idf });
+  }
+
+  getState(): HashingEmbedderState {
+    return { dimensions: this.dimensions, bigrams: this.bigrams, idf: this.idf };
+  }
+
+  withState(state: unknown): HashingEmbedder {
+    return new HashingEmbedder(state as HashingEmbedderState);
+  }
+
+  /**
+   * Hashed, weighted and normalized vector for a text
+   */
+  private vectorize(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const feature of this.features(text)) {
+      counts.set(feature, (counts.get(feature) || 0) + 1);
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = hashString(feature);
+      const bucket = hash % this.dimensions;
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[bucket] += sign * (1 + Math.log(count)) * (this.idf ? this.idf[bucket] : 1);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+
+  /**
+   * Lowercase words, plus adjacent word pairs when enabled
+   */
+  private features(text: string): string[] {
+    const words: string[] = text.toLowerCase().match(/[\p{L}\p{N}]{2,}/gu) || [];
+    if (!this.bigrams) {
+      return words;
+    }
+
+    const pairs = words.slice(1).map((word, index) => `${words[index]} ${word}`);
+    return words.concat(pairs);
+  }
+}
+
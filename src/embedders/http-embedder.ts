@@ -0,0 +1,121 @@
+import { Embedder } from '../types';
+import { ExtractionError, createHttpError } from '../errors';
+
+/**
+ * HTTP embedder configuration
+ */
+export interface HttpEmbedderConfig {
+  /** Embeddings endpoint, e.g. 'https://api.openai.com/v1/embeddings' */
+  url: string;
+  /** Model name sent with each request */
+  model?: string;
+  /** API key sent as a bearer token */
+  apiKey?: string;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Texts per request (default: 64) */
+  batchSize?: number;
+  /** Vector length, when known in advance */
+  dimensions?: number;
+}
+
+/**
+ * Fields read from an embeddings response: OpenAI-style `data` or Ollama's `embeddings`
+ */
+interface EmbeddingsResponse {
+  data?: Array<{ index?: number; embedding?: unknown }>;
+  embeddings?: unknown[];
+}
+
+/**
+ * Embedder for HTTP embedding APIs.
+ *
+ * Sends `{ model, input: [...] }` and reads either an OpenAI-style
+ * `data[].embedding` list or an `embeddings` array (Ollama's /api/embed).
+ */
+export class HttpEmbedder implements Embedder {
+  readonly name: string;
+  readonly dimensions?: number;
+  private url: string;
+  private model?: string;
+  private headers: Record<string, string>;
+  private batchSize: number;
+
+  constructor(config: HttpEmbedderConfig) {
+    this.url = config.url;
+    this.model = config.model;
+    this.dimensions = config.dimensions;
+    this.batchSize = config.batchSize || 64;
+    this.name = `http:${config.model || config.url}`;
+    this.headers = {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      ...config.headers,
+    };
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += this.batchSize) {
+      const batch = texts.slice(start, start + this.batchSize);
+      vectors.push(...(await this.request(batch, signal)));
+    }
+
+    return vectors;
+  }
+
+  /**
+   * Embed one batch
+   */
+  private async request(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: this.headers,
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw createHttpError(
+        response.status,
+        response.statusText,
+        this.url,
+        response.headers.get('retry-after')
+      );
+    }
+
+    const data = ((await response.json()) || {}) as EmbeddingsResponse;
+    const vectors: unknown[] = Array.isArray(data.embeddings)
+      ? data.embeddings
+      : Array.isArray(data.data)
+        ? [...data.data]
+            .sort((a, b) => (a?.index ?? 0) - (b?.index ?? 0))
+            .map((item) => item?.embedding)
+        : [];
+
+    if (vectors.length !== texts.length) {
+      throw new ExtractionError(
+        `Embedding response has ${vectors.length} vectors for ${texts.length} texts`,
+        { url: this.url }
+      );
+    }
+
+    const invalid = vectors.findIndex((vector) => !isVector(vector));
+    if (invalid !== -1) {
+      throw new ExtractionError(
+        `Embedding response has no valid vector for text ${invalid}`,
+        { url: this.url }
+      );
+    }
+
+    return vectors as number[][];
+  }
+}
+
+/**
+ * Whether a value is an array of finite numbers
+ */
+function isVector(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((n) => typeof n === 'number' && Number.isFinite(n));
+}
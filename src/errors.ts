@@ -0,0 +1,207 @@
+import { BackendCapability } from './types';
+
+/**
+ * Extraction error options
+ */
+export interface ExtractionErrorOptions {
+  /** URL that failed */
+  url?: string;
+  /** HTTP status code */
+  statusCode?: number;
+  /** Attempts made before giving up */
+  attempts?: number;
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Base class for extraction failures
+ */
+export class ExtractionError extends Error {
+  readonly url?: string;
+  readonly statusCode?: number;
+  readonly cause?: unknown;
+  /** Attempts made before giving up */
+  attempts: number;
+
+  constructor(message: string, options: ExtractionErrorOptions = {}) {
+    super(message);
+    this.name = 'ExtractionError';
+    this.url = options.url;
+    this.statusCode = options.statusCode;
+    this.cause = options.cause;
+    this.attempts = options.attempts ?? 1;
+  }
+}
+
+/**
+ * URL is malformed or uses an unsupported protocol
+ */
+export class InvalidUrlError extends ExtractionError {
+  constructor(url: string, reason: string) {
+    super(`Invalid URL: ${url} - ${reason}`, { url });
+    this.name = 'InvalidUrlError';
+  }
+}
+
+/**
+ * Server answered with a non-success status
+ */
+export class HttpStatusError extends ExtractionError {
+  /** Delay requested by a Retry-After header in milliseconds */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: ExtractionErrorOptions & { statusCode: number; retryAfterMs?: number }
+  ) {
+    super(message, options);
+    this.name = 'HttpStatusError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Server answered 429 Too Many Requests
+ */
+export class RateLimitError extends HttpStatusError {
+  constructor(
+    message: string,
+    options: ExtractionErrorOptions & { retryAfterMs?: number } = {}
+  ) {
+    super(message, { ...options, statusCode: 429 });
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Request did not complete in time
+ */
+export class TimeoutError extends ExtractionError {
+  constructor(message: string, options: ExtractionErrorOptions = {}) {
+    super(message, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Extraction was cancelled through an AbortSignal
+ */
+export class AbortError extends ExtractionError {
+  constructor(message = 'Extraction aborted', options: ExtractionErrorOptions = {}) {
+    super(message, options);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Backend cannot do what an option asks for, e.g. screenshots over plain HTTP
+ */
+export class UnsupportedCapabilityError extends ExtractionError {
+  /** Backend that lacks the capability */
+  readonly backend: string;
+  /** Missing capability */
+  readonly capability: BackendCapability;
+
+  constructor(backend: string, capability: BackendCapability, options: ExtractionErrorOptions = {}) {
+    super(`Backend "${backend}" does not support ${capability}`, options);
+    this.name = 'UnsupportedCapabilityError';
+    this.backend = backend;
+    this.capability = capability;
+  }
+}
+
+/**
+ * Document could not be parsed (corrupt, encrypted or an unsupported variant)
+ */
+export class DocumentParseError extends ExtractionError {
+  constructor(message: string, options: ExtractionErrorOptions = {}) {
+    super(message, options);
+    this.name = 'DocumentParseError';
+  }
+}
+
+/**
+ * robots.txt could not be fetched (5xx, network error or timeout, after
+ * retries), so nothing may be fetched from the host
+ */
+export class RobotsUnavailableError extends ExtractionError {
+  constructor(robotsUrl: string, cause: ExtractionError, options: ExtractionErrorOptions = {}) {
+    super(`robots.txt unavailable (${robotsUrl}): ${cause.message}`, {
+      statusCode: cause.statusCode,
+      attempts: cause.attempts,
+      cause,
+      ...options,
+    });
+    this.name = 'RobotsUnavailableError';
+  }
+}
+
+/**
+ * Create the error for an HTTP status (RateLimitError for 429)
+ */
+export function createHttpError(
+  statusCode: number,
+  statusText: string,
+  url: string,
+  retryAfter?: string | null
+): HttpStatusError {
+  const message = `HTTP ${statusCode}${statusText ? ` ${statusText}` : ''}`;
+  const retryAfterMs = parseRetryAfter(retryAfter);
+
+  return statusCode === 429
+    ? new RateLimitError(message, { url, retryAfterMs })
+    : new HttpStatusError(message, { url, statusCode, retryAfterMs });
+}
+
+/**
+ * Convert any thrown value to an ExtractionError subclass
+ */
+export function toExtractionError(error: unknown, url: string): ExtractionError {
+  if (error instanceof ExtractionError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof Error ? error.name : '';
+  const code = (error as { code?: unknown })?.code;
+  const statusCode = (error as { statusCode?: unknown })?.statusCode;
+
+  if (name === 'AbortError') {
+    return new AbortError(message, { url, cause: error });
+  }
+
+  if (
+    name === 'TimeoutError' ||
+    code === 'ETIMEDOUT' ||
+    code === 'ECONNABORTED' ||
+    /timed? ?out/i.test(message)
+  ) {
+    return new TimeoutError(message, { url, cause: error });
+  }
+
+  if (typeof statusCode === 'number' && statusCode >= 400) {
+    return statusCode === 429
+      ? new RateLimitError(message, { url, cause: error })
+      : new HttpStatusError(message, { url, statusCode, cause: error });
+  }
+
+  return new ExtractionError(message, { url, cause: error });
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,272 @@
+import {
+  BackendPage,
+  DuplicateExtraction,
+  ExtractedPage,
+  ExtractionStats,
+  FailedExtraction,
+  SkippedExtraction,
+} from './types';
+import { CrawlOutcome } from './crawler';
+import { toExtractionError } from './errors';
+import { PageDeduplicator } from './page-deduplicator';
+
+/**
+ * Item yielded by an extraction stream
+ */
+export type StreamItem = ExtractedPage | FailedExtraction;
+
+/**
+ * Running statistics of an extraction stream
+ */
+export interface StreamStats extends ExtractionStats {
+  /** Pages extracted so far */
+  pagesExtracted: number;
+  /** Pages failed so far */
+  pagesFailed: number;
+  /** URLs skipped so far */
+  pagesSkipped: number;
+  /** Duplicate pages left out so far */
+  pagesDuplicated: number;
+  /** Pages left out as unchanged since the previous crawl so far */
+  pagesUnchanged: number;
+  /** URLs waiting in the crawl frontier */
+  pagesQueued: number;
+  /** Whether the stream has finished */
+  done: boolean;
+  /** Whether the crawl was cancelled or timed out */
+  aborted: boolean;
+}
+
+/**
+ * Called after each crawled URL (item is undefined for skipped URLs,
+ * duplicates and unchanged pages)
+ */
+export type StreamProgressListener = (item: StreamItem | undefined, stats: StreamStats) => void;
+
+/**
+ * Check whether a stream item is a failure
+ */
+export function isFailedExtraction(item: StreamItem): item is FailedExtraction {
+  return 'error' in item;
+}
+
+/**
+ * Totals that extraction statistics are computed from
+ */
+export interface StatsTotals {
+  pageCount: number;
+  failedCount: number;
+  totalWords: number;
+  totalTokens: number;
+  duration: number;
+  throttledMs?: number;
+  cacheHits?: number;
+  cacheMisses?: number;
+  cacheRevalidations?: number;
+}
+
+/**
+ * Compute extraction statistics from counts
+ */
+export function summarizeStats(totals: StatsTotals): ExtractionStats {
+  const {
+    pageCount,
+    failedCount,
+    totalWords,
+    totalTokens,
+    duration,
+    throttledMs = 0,
+    cacheHits = 0,
+    cacheMisses = 0,
+    cacheRevalidations = 0,
+  } = totals;
+  const processed = pageCount + failedCount;
+
+  return {
+    duration,
+    successRate: processed > 0 ? (pageCount / processed) * 100 : 0,
+    totalWords,
+    avgWordsPerPage: pageCount > 0 ? totalWords / pageCount : 0,
+    totalTokens,
+    avgTokensPerPage: pageCount > 0 ? totalTokens / pageCount : 0,
+    throttledMs,
+    cacheHits,
+    cacheMisses,
+    cacheRevalidations,
+  };
+}
+
+/**
+ * Async iterable of extracted pages and failures.
+ *
+ * Pages are only fetched as the consumer pulls them, so a slow consumer
+ * slows down the crawl and `break` stops it. Extracted pages are not
+ * retained; running stats are available through `stats`.
+ */
+export class ExtractionStream implements AsyncIterable<StreamItem> {
+  /** URLs that were not fetched (e.g. disallowed by robots.txt) */
+  readonly skipped: SkippedExtraction[] = [];
+  /** Duplicate pages left out of the stream */
+  readonly duplicates: DuplicateExtraction[] = [];
+  /** URLs left out because they did not change since the previous crawl */
+  readonly unchanged: string[] = [];
+
+  private outcomes: AsyncIterable<CrawlOutcome>;
+  private convert: (page: BackendPage) => ExtractedPage | Promise<ExtractedPage>;
+  private onProgress?: StreamProgressListener;
+  private signal?: AbortSignal;
+  private deduplicator?: PageDeduplicator;
+  private started = false;
+  private startTime?: number;
+  private endTime?: number;
+  private pageCount = 0;
+  private failedCount = 0;
+  private totalWords = 0;
+  private totalTokens = 0;
+  private queued = 0;
+  private throttledMs = 0;
+  private cacheCounts = { hits: 0, misses: 0, revalidations: 0 };
+
+  constructor(
+    outcomes: AsyncIterable<CrawlOutcome>,
+    convert: (page: BackendPage) => ExtractedPage | Promise<ExtractedPage>,
+    onProgress?: StreamProgressListener,
+    signal?: AbortSignal,
+    deduplicator?: PageDeduplicator
+  ) {
+    this.outcomes = outcomes;
+    this.convert = convert;
+    this.onProgress = onProgress;
+    this.signal = signal;
+    this.deduplicator = deduplicator;
+  }
+
+  /**
+   * Statistics so far (final once iteration has finished)
+   */
+  get stats(): StreamStats {
+    const end = this.endTime ?? Date.now();
+    const duration = this.startTime === undefined ? 0 : end - this.startTime;
+
+    return {
+      ...summarizeStats({
+        pageCount: this.pageCount,
+        failedCount: this.failedCount,
+        totalWords: this.totalWords,
+        totalTokens: this.totalTokens,
+        duration,
+        throttledMs: this.throttledMs,
+        cacheHits: this.cacheCounts.hits,
+        cacheMisses: this.cacheCounts.misses,
+        cacheRevalidations: this.cacheCounts.revalidations,
+      }),
+      pagesExtracted: this.pageCount,
+      pagesFailed: this.failedCount,
+      pagesSkipped: this.skipped.length,
+      pagesDuplicated: this.duplicates.length,
+      pagesUnchanged: this.unchanged.length,
+      pagesQueued: this.queued,
+      done: this.endTime !== undefined,
+      aborted: this.signal?.aborted ?? false,
+    };
+  }
+
+  /**
+   * Add time a request of this stream spent waiting for a rate limit slot
+   */
+  recordThrottle(ms: number): void {
+    this.throttledMs += ms;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<StreamItem> {
+    if (this.started) {
+      throw new Error('ExtractionStream can only be iterated once');
+    }
+    this.started = true;
+    this.startTime = Date.now();
+
+    try {
+      for await (const outcome of this.outcomes) {
+        this.queued = outcome.queued;
+
+        if ('skipped' in outcome) {
+          this.skipped.push({ url: outcome.url, reason: outcome.skipped });
+          this.onProgress?.(undefined, this.stats);
+          continue;
+        }
+
+        if ('page' in outcome && outcome.page.notModified) {
+          this.unchanged.push(outcome.url);
+          this.onProgress?.(undefined, this.stats);
+          continue;
+        }
+
+        const item = 'page' in outcome
+          ? await this.toItem(outcome.url, outcome.page)
+          : toFailedExtraction(outcome.url, outcome.error);
+        if ('page' in outcome) {
+          this.recordCacheStatus(outcome.page);
+        }
+
+        const duplicate = isFailedExtraction(item) ? undefined : this.deduplicator?.check(item);
+        if (duplicate) {
+          this.duplicates.push(duplicate);
+          this.onProgress?.(undefined, this.stats);
+          continue;
+        }
+
+        if (isFailedExtraction(item)) {
+          this.failedCount++;
+        } else {
+          this.pageCount++;
+          this.totalWords += item.metadata.wordCount;
+          this.totalTokens += item.metadata.tokenCount;
+        }
+
+        this.onProgress?.(item, this.stats);
+        yield item;
+      }
+    } finally {
+      this.endTime = Date.now();
+    }
+  }
+
+  /**
+   * Count how the response cache served a page (duplicates included:
+   * the cache was used either way)
+   */
+  private recordCacheStatus(page: BackendPage): void {
+    switch (page.cacheStatus) {
+      case 'revalidated':
+        this.cacheCounts.revalidations++;
+        this.cacheCounts.hits++;
+        break;
+      case 'hit':
+        this.cacheCounts.hits++;
+        break;
+      case 'miss':
+        this.cacheCounts.misses++;
+        break;
+    }
+  }
+
+  private async toItem(url: string, page: BackendPage): Promise<StreamItem> {
+    try {
+      return await this.convert(page);
+    } catch (error) {
+      return toFailedExtraction(url, error);
+    }
+  }
+}
+
+function toFailedExtraction(url: string, thrown: unknown): FailedExtraction {
+  const error = toExtractionError(thrown, url);
+
+  return {
+    url,
+    error: error.message,
+    statusCode: error.statusCode,
+    errorType: error.name,
+    attempts: error.attempts,
+  };
+}
@@ -0,0 +1,38 @@
+import { ExtractFromHtmlOptions, HtmlExtraction } from './types';
+import { parseHtml, querySelector } from './utils/html-utils';
+import { extractImages } from './utils/image-utils';
+import { htmlToMarkdown, htmlToText } from './utils/markdown-utils';
+import { extractHtmlMetadata } from './utils/metadata-utils';
+import { findMainContent } from './utils/readability-utils';
+import { extractLinks } from './utils/url-utils';
+
+/**
+ * Extract a page from HTML you already have (cached pages, intranet
+ * dumps, ...) without a backend.
+ *
+ * Finds the main content (unless onlyMainContent is false), converts it
+ * to GitHub-flavored Markdown and plain text, and reads the metadata the
+ * page declares, and lists the content's images. Relative links and
+ * images are resolved against baseUrl.
+ */
+export function extractFromHtml(
+  html: string,
+  baseUrl: string,
+  options: ExtractFromHtmlOptions = {}
+): HtmlExtraction {
+  const { onlyMainContent = true, includeImages, excludeSelectors } = options;
+  const root = parseHtml(html);
+  const metadata = extractHtmlMetadata(root, baseUrl);
+
+  const content = onlyMainContent ? findMainContent(root, { excludeSelectors }) : root;
+  const heading = querySelector(content, 'h1');
+
+  return {
+    title: metadata.title || (heading && htmlToText(heading)) || undefined,
+    markdown: htmlToMarkdown(content, { baseUrl, includeImages }),
+    text: htmlToText(content),
+    links: extractLinks(root, baseUrl),
+    images: extractImages(content, baseUrl),
+    metadata,
+  };
+}
@@ -5,6 +5,82 @@
  */
 
 export { WebExtractor } from './web-extractor';
+export { FirecrawlBackend, FirecrawlBackendConfig } from './backends/firecrawl-backend';
+export { HttpBackend, HttpBackendConfig } from './backends/http-backend';
+export { Crawler, CrawlerOptions, CrawlTarget, CrawlOutcome, PageFetcher } from './crawler';
+export { RobotsChecker, RobotsCheckerOptions, RobotsVerdict } from './robots';
+export { SitemapLoader, SitemapLoaderOptions } from './sitemap';
+export {
+  ExtractionStream,
+  StreamItem,
+  StreamStats,
+  StreamProgressListener,
+  isFailedExtraction,
+} from './extraction-stream';
+export { createConsoleLogger, silentLogger } from './logger';
+export {
+  ExtractionError,
+  ExtractionErrorOptions,
+  InvalidUrlError,
+  HttpStatusError,
+  RateLimitError,
+  TimeoutError,
+  AbortError,
+  UnsupportedCapabilityError,
+  DocumentParseError,
+  RobotsUnavailableError,
+  createHttpError,
+  toExtractionError,
+  parseRetryAfter,
+} from './errors';
+export {
+  RetryAttempt,
+  resolveRetryPolicy,
+  classifyError,
+  getRetryDelay,
+  withRetry,
+} from './retry';
+export { runWithTimeout, abortableDelay, linkAbortController } from './abort';
+export { extractFromHtml } from './html-extractor';
+export { extractDocument, detectDocumentType, isDocumentUrl } from './document-extractor';
+export { parsePdf } from './documents/pdf-parser';
+export { parseDocx } from './documents/docx-parser';
+export { StructuredExtractor, StructuredExtractorOptions } from './structured-extractor';
+export { Summarizer, SummarizerOptions, DEFAULT_PROMPT_TEMPLATES, fillTemplate } from './summarizer';
+export { OpenAICompatibleProvider, OpenAICompatibleConfig } from './llm/openai-provider';
+export { MockLLMProvider, MockLLMProviderOptions } from './llm/mock-provider';
+export { VectorIndex } from './vector-index';
+export { LshIndex, LshIndexOptions, LshMatch } from './lsh-index';
+export { ContentDeduplicator } from './content-deduplicator';
+export { PageDeduplicator, PageDeduplicatorOptions } from './page-deduplicator';
+export { ChangeTracker } from './change-tracker';
+export { HashingEmbedder, HashingEmbedderOptions } from './embedders/hashing-embedder';
+export { HttpEmbedder, HttpEmbedderConfig } from './embedders/http-embedder';
+export { ApproximateTokenizer, BpeTokenizer, BpeTokenizerOptions } from './tokenizer';
+export { PublicSuffixList, isIpAddress } from './public-suffix-list';
+export { PUBLIC_SUFFIX_LIST_DATE } from './data/public-suffix-list';
+export { HostRateLimiter, HostRateLimiterOptions, RateLimiterStats } from './rate-limiter';
+export {
+  MemoryCache,
+  MemoryCacheOptions,
+  FileSystemCache,
+  FileSystemCacheOptions,
+  CacheStats,
+  createCacheKey,
+} from './response-cache';
 export * from './types';
 export * from './utils/url-utils';
 export * from './utils/content-utils';
+export * from './utils/language-utils';
+export * from './utils/chunk-utils';
+export * from './utils/token-utils';
+export * from './utils/html-utils';
+export * from './utils/markdown-utils';
+export * from './utils/image-utils';
+export * from './utils/readability-utils';
+export * from './utils/metadata-utils';
+export * from './utils/schema-utils';
+export * from './utils/fingerprint-utils';
+export * from './utils/diff-utils';
+export * from './utils/robots-utils';
+export * from './utils/sitemap-utils';
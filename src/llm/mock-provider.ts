@@ -0,0 +1,91 @@
+import { createHash } from 'crypto';
+import {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMEmbeddings,
+  LLMPricing,
+  LLMProvider,
+} from '../types';
+import { estimateTokens } from '../utils/token-utils';
+
+/**
+ * Mock provider options
+ */
+export interface MockLLMProviderOptions {
+  /** Reply to a request (default: the first sentence of the prompt's last paragraph) */
+  respond?: (request: LLMCompletionRequest) => string;
+  /** Embedding dimensions (default: 64) */
+  dimensions?: number;
+  /** Prices used to compute cost */
+  pricing?: LLMPricing;
+}
+
+/**
+ * Deterministic offline LLM provider for tests and examples.
+ *
+ * Replies are a pure function of the request and embeddings are hashed
+ * bags of words, so the same input always gives the same output.
+ * Requests are recorded in `requests`.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly pricing?: LLMPricing;
+  readonly requests: LLMCompletionRequest[] = [];
+  private respond: (request: LLMCompletionRequest) => string;
+  private dimensions: number;
+
+  constructor(options: MockLLMProviderOptions = {}) {
+    this.respond = options.respond || defaultReply;
+    this.dimensions = options.dimensions || 64;
+    this.pricing = options.pricing;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    this.requests.push(request);
+    const text = this.respond(request);
+
+    return {
+      text,
+      usage: {
+        promptTokens: estimateTokens(`${request.system || ''}${request.prompt}`),
+        completionTokens: estimateTokens(text),
+      },
+    };
+  }
+
+  async embed(texts: string[]): Promise<LLMEmbeddings> {
+    return {
+      vectors: texts.map((text) => this.hashEmbedding(text)),
+      usage: {
+        promptTokens: texts.reduce((sum, text) => sum + estimateTokens(text), 0),
+        completionTokens: 0,
+      },
+    };
+  }
+
+  /**
+   * Normalized bag-of-words vector with hashed word positions
+   */
+  private hashEmbedding(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+      const hash = createHash('md5').update(word).digest();
+      vector[hash.readUInt32LE(0) % this.dimensions] += hash[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+}
+
+/**
+ * First sentence of the prompt's last paragraph
+ */
+function defaultReply(request: LLMCompletionRequest): string {
+  const paragraphs = request.prompt.split(/\n\s*\n/).filter((p) => p.trim());
+  const last = (paragraphs[paragraphs.length - 1] || '').trim();
+  const sentence = last.match(/^[\s\S]*?[.!?](?=\s|$)/);
+
+  return (sentence ? sentence[0] : last).replace(/\s+/g, ' ').trim();
+}
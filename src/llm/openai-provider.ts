@@ -0,0 +1,173 @@
+import {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMEmbeddings,
+  LLMPricing,
+  LLMProvider,
+} from '../types';
+import { ExtractionError, createHttpError } from '../errors';
+
+/**
+ * OpenAI-compatible provider configuration
+ */
+export interface OpenAICompatibleConfig {
+  /** Chat model, e.g. 'gpt-4o-mini' */
+  model: string;
+  /** Embedding model (required for embed) */
+  embeddingModel?: string;
+  /** API key sent as a bearer token (optional for local servers) */
+  apiKey?: string;
+  /** API base URL (default: https://api.openai.com/v1) */
+  baseUrl?: string;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Prices used to compute cost */
+  pricing?: LLMPricing;
+}
+
+/**
+ * Token usage as reported by the API
+ */
+interface ApiUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+/**
+ * Fields read from a /chat/completions response
+ */
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: unknown } }>;
+  usage?: ApiUsage;
+}
+
+/**
+ * Fields read from an /embeddings response
+ */
+interface EmbeddingsResponse {
+  data?: Array<{ index?: number; embedding?: unknown }>;
+  usage?: ApiUsage;
+}
+
+/**
+ * LLM provider for OpenAI-compatible HTTP APIs
+ * (OpenAI, Azure OpenAI proxies, vLLM, Ollama, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly pricing?: LLMPricing;
+  private model: string;
+  private embeddingModel?: string;
+  private baseUrl: string;
+  private headers: Record<string, string>;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.model = config.model;
+    this.embeddingModel = config.embeddingModel;
+    this.baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.pricing = config.pricing;
+    this.name = `openai-compatible:${config.model}`;
+    this.headers = {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      ...config.headers,
+    };
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt },
+    ];
+
+    const data = await this.post<ChatCompletionResponse>('/chat/completions', {
+      model: this.model,
+      messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      response_format: request.json ? { type: 'json_object' } : undefined,
+    }, request.signal);
+
+    const text = data.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new ExtractionError('LLM response has no message content', {
+        url: `${this.baseUrl}/chat/completions`,
+      });
+    }
+
+    return {
+      text,
+      usage: data.usage && {
+        promptTokens: data.usage.prompt_tokens ?? 0,
+        completionTokens: data.usage.completion_tokens ?? 0,
+      },
+    };
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<LLMEmbeddings> {
+    if (!this.embeddingModel) {
+      throw new Error('OpenAICompatibleProvider needs an embeddingModel to embed');
+    }
+
+    const data = await this.post<EmbeddingsResponse>('/embeddings', {
+      model: this.embeddingModel,
+      input: texts,
+    }, signal);
+
+    const items = Array.isArray(data.data) ? [...data.data] : [];
+    const vectors = items
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map((item) => item.embedding);
+
+    if (vectors.length !== texts.length || !vectors.every(isVector)) {
+      throw new ExtractionError(
+        `Embedding response has ${vectors.filter(isVector).length} valid vectors for ${texts.length} texts`,
+        { url: `${this.baseUrl}/embeddings` }
+      );
+    }
+
+    return {
+      vectors,
+      usage: data.usage && {
+        promptTokens: data.usage.prompt_tokens ?? 0,
+        completionTokens: 0,
+      },
+    };
+  }
+
+  /**
+   * POST JSON to an API path. The response is only typed as the fields
+   * that may be read; callers check their values.
+   */
+  private async post<T extends object>(path: string, body: object, signal?: AbortSignal): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: this.headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw createHttpError(
+        response.status,
+        response.statusText,
+        url,
+        response.headers.get('retry-after')
+      );
+    }
+
+    const data: unknown = await response.json();
+    if (typeof data !== 'object' || data === null) {
+      throw new ExtractionError('LLM response is not a JSON object', { url });
+    }
+    return data as T;
+  }
+}
+
+/**
+ * Whether a value is an array of finite numbers
+ */
+function isVector(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((n) => typeof n === 'number' && Number.isFinite(n));
+}
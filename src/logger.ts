@@ -0,0 +1,26 @@
+import { Logger } from './types';
+
+/**
+ * Logger that writes to the console with a prefix
+ */
+export function createConsoleLogger(prefix = '[WebExtractor]'): Logger {
+  const format = (message: string, context?: Record<string, unknown>) =>
+    context ? [`${prefix} ${message}`, context] : [`${prefix} ${message}`];
+
+  return {
+    debug: (message, context) => console.log(...format(message, context)),
+    info: (message, context) => console.info(...format(message, context)),
+    warn: (message, context) => console.warn(...format(message, context)),
+    error: (message, context) => console.error(...format(message, context)),
+  };
+}
+
+/**
+ * Logger that discards everything
+ */
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
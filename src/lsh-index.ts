@@ -0,0 +1,107 @@
+import { minHashSimilarity } from './utils/fingerprint-utils';
+
+/**
+ * LSH index options
+ */
+export interface LshIndexOptions {
+  /** Bands each signature is split into (default: 16) */
+  bands?: number;
+}
+
+/**
+ * Near-duplicate match
+ */
+export interface LshMatch {
+  key: string;
+  /** Estimated Jaccard similarity, 0-1 */
+  similarity: number;
+}
+
+/**
+ * Locality-sensitive hashing index over MinHash signatures.
+ *
+ * Signatures are split into bands; two signatures become candidates when
+ * any band is identical, so near-duplicates are found without comparing
+ * every pair. More bands find less similar pairs at the cost of more
+ * candidates to check.
+ */
+export class LshIndex {
+  private bands: number;
+  private buckets = new Map<string, string[]>();
+  private signatures = new Map<string, { signature: number[]; order: number }>();
+
+  constructor(options: LshIndexOptions = {}) {
+    this.bands = options.bands || 16;
+  }
+
+  /**
+   * Number of indexed signatures
+   */
+  get size(): number {
+    return this.signatures.size;
+  }
+
+  /**
+   * Add a signature under a key (e.g. a URL)
+   */
+  add(key: string, signature: number[]): void {
+    if (this.signatures.has(key)) {
+      throw new Error(`LSH index already contains ${key}`);
+    }
+
+    this.signatures.set(key, { signature, order: this.signatures.size });
+    for (const bucket of this.bucketKeys(signature)) {
+      const keys = this.buckets.get(bucket);
+      if (keys) {
+        keys.push(key);
+      } else {
+        this.buckets.set(bucket, [key]);
+      }
+    }
+  }
+
+  /**
+   * Indexed keys sharing at least one band with the signature, in insertion order
+   */
+  candidates(signature: number[]): string[] {
+    const keys = new Set<string>();
+    for (const bucket of this.bucketKeys(signature)) {
+      this.buckets.get(bucket)?.forEach((key) => keys.add(key));
+    }
+    return Array.from(keys).sort(
+      (a, b) => this.signatures.get(a)!.order - this.signatures.get(b)!.order
+    );
+  }
+
+  /**
+   * Indexed signatures at least `threshold` similar, most similar first
+   * (ties in insertion order)
+   */
+  query(signature: number[], threshold: number): LshMatch[] {
+    return this.candidates(signature)
+      .map((key) => ({
+        key,
+        similarity: minHashSimilarity(signature, this.signatures.get(key)!.signature),
+      }))
+      .filter((match) => match.similarity >= threshold)
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * One bucket key per band: band index plus the band's values
+   */
+  private bucketKeys(signature: number[]): string[] {
+    if (signature.length % this.bands !== 0) {
+      throw new Error(
+        `Signature length ${signature.length} is not divisible into ${this.bands} bands`
+      );
+    }
+
+    const rows = signature.length / this.bands;
+    const keys: string[] = [];
+    for (let band = 0; band < this.bands; band++) {
+      keys.push(`${band}:${signature.slice(band * rows, (band + 1) * rows).join(',')}`);
+    }
+    return keys;
+  }
+}
@@ -0,0 +1,66 @@
+import { DedupeContentOptions, DuplicateExtraction, ExtractedPage } from './types';
+import { ContentDeduplicator } from './content-deduplicator';
+import { CRAWL_URL_OPTIONS, normalizeUrl } from './utils/url-utils';
+
+/**
+ * Page deduplicator options
+ */
+export interface PageDeduplicatorOptions {
+  /** Drop pages whose canonical (or final) URL matches an earlier page's */
+  canonical?: boolean;
+  /** Drop or merge pages whose content nearly matches an earlier page's */
+  content?: DedupeContentOptions;
+}
+
+/**
+ * Finds pages that duplicate an earlier page of the same crawl.
+ *
+ * Pages are keyed by their declared canonical URL, else their URL after
+ * redirects, with `www.`, tracking parameters and index documents
+ * removed. Content is compared by a ContentDeduplicator. The first page
+ * seen is the one kept.
+ */
+export class PageDeduplicator {
+  private canonical: boolean;
+  private content?: ContentDeduplicator;
+  private urlsByKey = new Map<string, string>();
+
+  constructor(options: PageDeduplicatorOptions) {
+    this.canonical = options.canonical ?? true;
+    this.content = options.content && new ContentDeduplicator(options.content);
+  }
+
+  /**
+   * Duplicate record if the page duplicates an earlier page,
+   * otherwise undefined (and the page becomes a candidate for later ones)
+   */
+  check(page: ExtractedPage): DuplicateExtraction | undefined {
+    const key = this.canonical ? canonicalKey(page) : undefined;
+    const original = key && this.urlsByKey.get(key);
+    if (original && original !== page.url) {
+      return { url: page.url, duplicateOf: original, reason: 'canonical', similarity: 1 };
+    }
+
+    const duplicate = this.content?.check(page);
+    if (duplicate) {
+      return duplicate;
+    }
+
+    if (key) {
+      this.urlsByKey.set(key, page.url);
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Dedupe key: canonical URL, else final URL, else page URL, normalized as in crawls with www folded
+ */
+function canonicalKey(page: ExtractedPage): string | undefined {
+  const url = page.metadata.canonicalUrl || page.metadata.finalUrl || page.url;
+  try {
+    return normalizeUrl(url, { ...CRAWL_URL_OPTIONS, foldWww: true });
+  } catch {
+    return undefined;
+  }
+}
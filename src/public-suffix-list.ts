@@ -0,0 +1,193 @@
+import { promises as fs } from 'fs';
+import { domainToASCII, domainToUnicode } from 'url';
+import { DomainOptions } from './types';
+import { PUBLIC_SUFFIX_LIST } from './data/public-suffix-list';
+
+interface SuffixRule {
+  kind: 'normal' | 'wildcard' | 'exception';
+  private: boolean;
+}
+
+/**
+ * Public Suffix List (https://publicsuffix.org) lookups.
+ *
+ * Finds the public suffix of a hostname (e.g. 'co.uk', 'github.io') and
+ * its registrable domain, the suffix plus one label (e.g. 'example.co.uk').
+ * Hostnames may be URLs or Unicode (IDN); results are punycode unless
+ * `unicode` is set. IP addresses have neither.
+ */
+export class PublicSuffixList {
+  private static defaultList?: PublicSuffixList;
+  private rules = new Map<string, SuffixRule[]>();
+
+  constructor(text: string) {
+    let inPrivate = false;
+
+    for (const raw of text.split('\n')) {
+      const line = raw.trim();
+      if (line === '// ===BEGIN PRIVATE DOMAINS===') {
+        inPrivate = true;
+      } else if (line === '// ===END PRIVATE DOMAINS===') {
+        inPrivate = false;
+      }
+      if (!line || line.startsWith('//')) {
+        continue;
+      }
+
+      const rule = line.split(/\s/)[0].toLowerCase();
+      if (rule.startsWith('!')) {
+        this.addRule(toAscii(rule.slice(1)), 'exception', inPrivate);
+      } else if (rule.startsWith('*.')) {
+        this.addRule(toAscii(rule.slice(2)), 'wildcard', inPrivate);
+      } else {
+        this.addRule(toAscii(rule), 'normal', inPrivate);
+      }
+    }
+  }
+
+  /**
+   * The list used by getPublicSuffix and getRegistrableDomain
+   * (the bundled snapshot unless replaced with setDefault)
+   */
+  static getDefault(): PublicSuffixList {
+    if (!PublicSuffixList.defaultList) {
+      PublicSuffixList.defaultList = new PublicSuffixList(PUBLIC_SUFFIX_LIST);
+    }
+    return PublicSuffixList.defaultList;
+  }
+
+  /**
+   * Replace the default list, e.g. with a newer copy from publicsuffix.org
+   */
+  static setDefault(list: PublicSuffixList): void {
+    PublicSuffixList.defaultList = list;
+  }
+
+  /**
+   * Load a list in public_suffix_list.dat format
+   */
+  static async fromFile(path: string): Promise<PublicSuffixList> {
+    return new PublicSuffixList(await fs.readFile(path, 'utf-8'));
+  }
+
+  /**
+   * Number of domains with rules
+   */
+  get size(): number {
+    return this.rules.size;
+  }
+
+  /**
+   * Public suffix of a hostname or URL; hosts matching no rule use their
+   * last label. Undefined for IP addresses and invalid hosts.
+   */
+  getPublicSuffix(host: string, options: DomainOptions = {}): string | undefined {
+    const hostname = toHostname(host);
+    if (!hostname) {
+      return undefined;
+    }
+
+    const labels = hostname.split('.');
+    const suffix = labels.slice(this.suffixStart(labels, options.includePrivate ?? true)).join('.');
+    return options.unicode ? domainToUnicode(suffix) : suffix;
+  }
+
+  /**
+   * Registrable domain of a hostname or URL (public suffix plus one
+   * label). Undefined for public suffixes themselves, IP addresses and
+   * invalid hosts.
+   */
+  getRegistrableDomain(host: string, options: DomainOptions = {}): string | undefined {
+    const hostname = toHostname(host);
+    if (!hostname) {
+      return undefined;
+    }
+
+    const labels = hostname.split('.');
+    const start = this.suffixStart(labels, options.includePrivate ?? true);
+    if (start === 0) {
+      return undefined;
+    }
+
+    const domain = labels.slice(start - 1).join('.');
+    return options.unicode ? domainToUnicode(domain) : domain;
+  }
+
+  /**
+   * Index of the first label of the public suffix.
+   * Candidates are checked longest first, so the first match prevails;
+   * an exception rule cuts its leftmost label.
+   */
+  private suffixStart(labels: string[], includePrivate: boolean): number {
+    for (let i = 0; i < labels.length; i++) {
+      const rules = this.find(labels.slice(i).join('.'), includePrivate);
+      if (rules.some((rule) => rule.kind === 'exception')) {
+        return i + 1;
+      }
+      if (rules.some((rule) => rule.kind === 'normal')) {
+        return i;
+      }
+
+      const parentRules = i + 1 < labels.length
+        ? this.find(labels.slice(i + 1).join('.'), includePrivate)
+        : [];
+      if (parentRules.some((rule) => rule.kind === 'wildcard')) {
+        return i;
+      }
+    }
+
+    return labels.length - 1;
+  }
+
+  private find(domain: string, includePrivate: boolean): SuffixRule[] {
+    const rules = this.rules.get(domain) || [];
+    return includePrivate ? rules : rules.filter((rule) => !rule.private);
+  }
+
+  private addRule(domain: string, kind: SuffixRule['kind'], isPrivate: boolean): void {
+    const rules = this.rules.get(domain);
+    if (rules) {
+      rules.push({ kind, private: isPrivate });
+    } else {
+      this.rules.set(domain, [{ kind, private: isPrivate }]);
+    }
+  }
+}
+
+/**
+ * Check whether a hostname is an IPv4 or IPv6 address
+ */
+export function isIpAddress(host: string): boolean {
+  const hostname = host.replace(/^\[|\]$/g, '');
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname) || hostname.includes(':');
+}
+
+/**
+ * Lowercase punycode hostname from a hostname or URL, or undefined for
+ * IP addresses and invalid hosts
+ */
+function toHostname(host: string): string | undefined {
+  let hostname = host.trim();
+  if (/^[a-z][a-z\d+.-]*:\/\//i.test(hostname)) {
+    try {
+      hostname = new URL(hostname).hostname;
+    } catch {
+      return undefined;
+    }
+  }
+
+  hostname = hostname.replace(/\.$/, '');
+  if (!hostname || isIpAddress(hostname)) {
+    return undefined;
+  }
+
+  const ascii = domainToASCII(hostname);
+  return ascii && !ascii.split('.').includes('') ? ascii : undefined;
+}
+
+/**
+ * Punycode a rule domain, keeping it as-is if it cannot be converted
+ */
+function toAscii(domain: string): string {
+  return domainToASCII(domain) || domain;
+}
@@ -0,0 +1,158 @@
+import { extractDomain, extractRootDomain } from './utils/url-utils';
+import { abortableDelay } from './abort';
+import { AbortError } from './errors';
+
+/**
+ * Host rate limiter options
+ */
+export interface HostRateLimiterOptions {
+  /** Maximum concurrent requests per host (default: 2) */
+  maxConcurrent?: number;
+  /** Minimum time between request starts to the same host in milliseconds (default: 0) */
+  minIntervalMs?: number;
+  /** Maximum concurrent requests across all hosts (default: unlimited) */
+  globalMaxConcurrent?: number;
+  /** Minimum time between any two request starts in milliseconds (default: 0) */
+  globalMinIntervalMs?: number;
+  /** Limit by exact host or by root domain so subdomains share a limit (default: 'host') */
+  groupBy?: 'host' | 'domain';
+}
+
+/**
+ * Rate limiter counters
+ */
+export interface RateLimiterStats {
+  /** Requests that were granted a slot */
+  requests: number;
+  /** Requests that had to wait for a slot */
+  throttledRequests: number;
+  /** Total time requests spent waiting in milliseconds */
+  throttledMs: number;
+  /** Requests currently holding a slot */
+  active: number;
+}
+
+interface SlotState {
+  active: number;
+  nextStart: number;
+}
+
+/**
+ * Limits concurrency and request spacing per host and globally
+ */
+export class HostRateLimiter {
+  private maxConcurrent: number;
+  private minIntervalMs: number;
+  private globalMaxConcurrent: number;
+  private globalMinIntervalMs: number;
+  private groupBy: 'host' | 'domain';
+  private hosts = new Map<string, SlotState>();
+  private global: SlotState = { active: 0, nextStart: 0 };
+  private waiters: Array<() => void> = [];
+  private counters = { requests: 0, throttledRequests: 0, throttledMs: 0 };
+
+  constructor(options: HostRateLimiterOptions = {}) {
+    this.maxConcurrent = Math.max(1, options.maxConcurrent || 2);
+    this.minIntervalMs = options.minIntervalMs || 0;
+    this.globalMaxConcurrent = Math.max(1, options.globalMaxConcurrent || Infinity);
+    this.globalMinIntervalMs = options.globalMinIntervalMs || 0;
+    this.groupBy = options.groupBy || 'host';
+  }
+
+  /**
+   * Counters since the limiter was created
+   */
+  get stats(): RateLimiterStats {
+    return { ...this.counters, active: this.global.active };
+  }
+
+  /**
+   * Wait for a slot for the URL's host. Call the returned function when done.
+   * Rejects with AbortError if the signal aborts while waiting.
+   */
+  async acquire(url: string, signal?: AbortSignal): Promise<() => void> {
+    const key = this.groupBy === 'domain' ? extractRootDomain(url) : extractDomain(url);
+    const state = this.getState(key);
+    const started = Date.now();
+
+    // Slots are only taken once the spacing has passed, so one host's
+    // minIntervalMs does not hold a global slot other hosts could use
+    for (;;) {
+      if (signal?.aborted) {
+        throw new AbortError(undefined, { url });
+      }
+      if (state.active >= this.maxConcurrent || this.global.active >= this.globalMaxConcurrent) {
+        await this.waitForRelease(url, signal);
+        continue;
+      }
+
+      const now = Date.now();
+      const startAt = Math.max(state.nextStart, this.global.nextStart);
+      if (startAt <= now) {
+        break;
+      }
+      await abortableDelay(startAt - now, signal);
+    }
+
+    // Taken synchronously with the checks above, so concurrent callers
+    // see each other's start times
+    const now = Date.now();
+    state.active++;
+    this.global.active++;
+    state.nextStart = now + this.minIntervalMs;
+    this.global.nextStart = now + this.globalMinIntervalMs;
+
+    let released = false;
+    const release = () => {
+      if (!released) {
+        released = true;
+        state.active--;
+        this.global.active--;
+        // Wake everyone; waiters re-check their own host's limit
+        this.waiters.splice(0).forEach((wake) => wake());
+      }
+    };
+
+    const waited = Date.now() - started;
+    this.counters.requests++;
+    if (waited > 0) {
+      this.counters.throttledRequests++;
+      this.counters.throttledMs += waited;
+    }
+
+    return release;
+  }
+
+  /**
+   * Resolve on the next release, rejecting if the signal aborts first
+   */
+  private waitForRelease(url: string, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new AbortError(undefined, { url }));
+        return;
+      }
+
+      const onAbort = () => {
+        this.waiters = this.waiters.filter((waiter) => waiter !== wake);
+        reject(new AbortError(undefined, { url }));
+      };
+      const wake = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      this.waiters.push(wake);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private getState(key: string): SlotState {
+    let state = this.hosts.get(key);
+    if (!state) {
+      state = { active: 0, nextStart: 0 };
+      this.hosts.set(key, state);
+    }
+    return state;
+  }
+}
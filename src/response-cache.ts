@@ -0,0 +1,173 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { BackendScrapeOptions, CacheEntry, ResponseCache } from './types';
+import { normalizeUrl } from './utils/url-utils';
+
+/**
+ * In-memory cache options
+ */
+export interface MemoryCacheOptions {
+  /** Maximum entries kept; the least recently used are evicted first (default: 1000) */
+  maxEntries?: number;
+}
+
+/**
+ * File system cache options
+ */
+export interface FileSystemCacheOptions {
+  /** Directory holding one JSON file per entry (created when needed) */
+  directory: string;
+}
+
+/**
+ * Response cache counters
+ */
+export interface CacheStats {
+  /** Pages served from the cache, including revalidated ones */
+  hits: number;
+  /** Pages fetched because the cache had no usable entry */
+  misses: number;
+  /** Hits that needed a conditional request (HTTP 304) */
+  revalidations: number;
+}
+
+/**
+ * Least-recently-used cache held in memory
+ */
+export class MemoryCache implements ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  constructor(options: MemoryCacheOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries || 1000);
+  }
+
+  /** Number of entries held */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Map order is insertion order; re-inserting marks the entry as recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Cache that keeps entries as JSON files, so they survive restarts and
+ * can be shared by processes. Files are named by a hash of the key and
+ * written atomically.
+ */
+export class FileSystemCache implements ResponseCache {
+  private directory: string;
+
+  constructor(options: FileSystemCacheOptions) {
+    this.directory = options.directory;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    let json: string;
+    try {
+      json = await fs.readFile(this.pathFor(key), 'utf-8');
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    const stored = JSON.parse(json, reviveBuffer) as { key: string; entry: CacheEntry };
+    // Guard against hash collisions
+    return stored.key === key ? stored.entry : undefined;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const path = this.pathFor(key);
+    const temporary = `${path}.${process.pid}.${Date.now()}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(temporary, JSON.stringify({ key, entry }, replaceBuffer));
+    await fs.rename(temporary, path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return;
+      }
+      throw error;
+    }
+    await Promise.all(
+      names
+        .filter((name) => name.endsWith('.json'))
+        .map((name) => fs.rm(join(this.directory, name), { force: true }))
+    );
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
+
+/**
+ * Cache key for a scrape: the normalized URL plus the options that
+ * change what the backend returns
+ */
+export function createCacheKey(url: string, options: BackendScrapeOptions): string {
+  const { formats, onlyMainContent, waitFor, includeLinks, screenshot, includeImages } = options;
+  const variant = JSON.stringify({
+    formats: [...formats].sort(),
+    onlyMainContent,
+    waitFor,
+    includeLinks,
+    screenshot,
+    includeImages,
+  });
+  return `${normalizeUrl(url)} ${variant}`;
+}
+
+function replaceBuffer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  // JSON.stringify calls Buffer#toJSON before the replacer sees the value
+  const original = this[key];
+  return Buffer.isBuffer(original) ? { $buffer: original.toString('base64') } : value;
+}
+
+function reviveBuffer(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && typeof (value as { $buffer?: unknown }).$buffer === 'string') {
+    return Buffer.from((value as { $buffer: string }).$buffer, 'base64');
+  }
+  return value;
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
@@ -0,0 +1,145 @@
+import { RetryPolicy, RetryableError } from './types';
+import {
+  AbortError,
+  DocumentParseError,
+  ExtractionError,
+  HttpStatusError,
+  InvalidUrlError,
+  RateLimitError,
+  RobotsUnavailableError,
+  TimeoutError,
+  UnsupportedCapabilityError,
+  toExtractionError,
+} from './errors';
+import { abortableDelay } from './abort';
+
+/**
+ * Retry attempt info passed to onRetry
+ */
+export interface RetryAttempt {
+  /** Attempt that failed (1-based) */
+  attempt: number;
+  /** Delay before the next attempt in milliseconds */
+  delayMs: number;
+  /** Error of the failed attempt */
+  error: ExtractionError;
+}
+
+/** Error codes of connection failures (Node.js sockets and DNS, undici) */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH',
+  'ENETUNREACH', 'ENETDOWN', 'UND_ERR_SOCKET', 'UND_ERR_CLOSED', 'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+const DEFAULT_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 30000,
+  backoffFactor: 2,
+  jitter: true,
+  respectRetryAfter: true,
+  retryOn: ['rate-limit', 'server-error', 'timeout', 'network'],
+};
+
+/**
+ * Fill in retry policy defaults
+ */
+export function resolveRetryPolicy(policy: RetryPolicy = {}): Required<RetryPolicy> {
+  return { ...DEFAULT_POLICY, ...policy };
+}
+
+/**
+ * Classify an error for retry decisions (undefined means never retry)
+ */
+export function classifyError(error: ExtractionError): RetryableError | undefined {
+  if (
+    error instanceof InvalidUrlError ||
+    error instanceof AbortError ||
+    error instanceof UnsupportedCapabilityError ||
+    error instanceof DocumentParseError ||
+    error instanceof RobotsUnavailableError
+  ) {
+    return undefined;
+  }
+  if (error instanceof RateLimitError) {
+    return 'rate-limit';
+  }
+  if (error instanceof HttpStatusError) {
+    return error.statusCode !== undefined && error.statusCode >= 500 ? 'server-error' : undefined;
+  }
+  if (error instanceof TimeoutError) {
+    return 'timeout';
+  }
+  return isNetworkError(error) ? 'network' : undefined;
+}
+
+/**
+ * Delay before the attempt after `attempt` (exponential backoff with equal jitter)
+ */
+export function getRetryDelay(
+  policy: Required<RetryPolicy>,
+  attempt: number,
+  error?: ExtractionError
+): number {
+  let delay = policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt - 1);
+
+  if (policy.jitter) {
+    delay = delay / 2 + Math.random() * (delay / 2);
+  }
+
+  if (policy.respectRetryAfter && error instanceof HttpStatusError && error.retryAfterMs) {
+    delay = Math.max(delay, error.retryAfterMs);
+  }
+
+  return Math.round(Math.min(delay, policy.maxDelayMs));
+}
+
+/**
+ * Run an operation, retrying failures allowed by the policy.
+ * The final error is an ExtractionError carrying the attempt count.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: Required<RetryPolicy>,
+  url: string,
+  onRetry?: (attempt: RetryAttempt) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (thrown) {
+      const error = signal?.aborted
+        ? new AbortError(undefined, { url, cause: thrown })
+        : toExtractionError(thrown, url);
+      error.attempts = attempt;
+
+      const errorClass = classifyError(error);
+      if (attempt >= policy.maxAttempts || !errorClass || !policy.retryOn.includes(errorClass)) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(policy, attempt, error);
+      onRetry?.({ attempt, delayMs, error });
+      await abortableDelay(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * Whether an error or one of its causes is a connection failure: a known
+ * network error code, or fetch's "fetch failed"
+ */
+function isNetworkError(error: unknown): boolean {
+  for (let current = error, depth = 0; current && depth < 5; depth++) {
+    const { code, message, cause } = current as { code?: unknown; message?: unknown; cause?: unknown };
+    if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) {
+      return true;
+    }
+    if (current instanceof TypeError && message === 'fetch failed') {
+      return true;
+    }
+    current = cause;
+  }
+  return false;
+}
@@ -0,0 +1,162 @@
+import { RetryPolicy, RobotsTxt } from './types';
+import {
+  parseRobotsTxt,
+  disallowAllRobots,
+  isAllowedByRobots,
+  getCrawlDelay,
+} from './utils/robots-utils';
+import { runWithTimeout } from './abort';
+import { resolveRetryPolicy, withRetry } from './retry';
+import { AbortError, ExtractionError, RobotsUnavailableError, createHttpError } from './errors';
+
+/**
+ * robots.txt checker options
+ */
+export interface RobotsCheckerOptions {
+  /** Timeout for fetching a robots.txt in milliseconds (default: 30000) */
+  timeout?: number;
+  /** Retry policy for fetching a robots.txt (defaults as in WebExtractorConfig) */
+  retry?: RetryPolicy;
+}
+
+/**
+ * Result of a robots.txt check
+ */
+export interface RobotsVerdict {
+  /** Whether the URL may be fetched */
+  allowed: boolean;
+  /** Crawl-delay for the host in seconds */
+  crawlDelay?: number;
+  /** Why the URL was disallowed */
+  reason?: string;
+  /** Set when robots.txt could not be fetched, so the URL counts as failed rather than skipped */
+  error?: RobotsUnavailableError;
+}
+
+/**
+ * A fetched robots.txt, or the failure that made it disallow everything
+ */
+interface RobotsEntry {
+  robots: RobotsTxt;
+  robotsUrl: string;
+  error?: ExtractionError;
+}
+
+/**
+ * Fetches, caches and evaluates robots.txt per origin
+ */
+export class RobotsChecker {
+  private userAgent: string;
+  private timeout: number;
+  private retryPolicy: Required<RetryPolicy>;
+  private cache = new Map<string, Promise<RobotsEntry>>();
+
+  constructor(userAgent: string, options: RobotsCheckerOptions = {}) {
+    this.userAgent = userAgent;
+    this.timeout = options.timeout || 30000;
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+  }
+
+  /**
+   * Check whether a URL may be fetched. Rejects with AbortError when the
+   * signal aborts while robots.txt is being fetched.
+   */
+  async check(url: string, signal?: AbortSignal): Promise<RobotsVerdict> {
+    const { robots, robotsUrl, error } = await this.getEntry(url, signal);
+    if (error) {
+      return {
+        allowed: false,
+        reason: `robots.txt unavailable: ${error.message}`,
+        error: new RobotsUnavailableError(robotsUrl, error, { url }),
+      };
+    }
+
+    const crawlDelay = getCrawlDelay(robots, this.userAgent);
+
+    if (isAllowedByRobots(robots, url, this.userAgent)) {
+      return { allowed: true, crawlDelay };
+    }
+
+    return {
+      allowed: false,
+      crawlDelay,
+      reason: `Disallowed by robots.txt for ${this.userAgent}`,
+    };
+  }
+
+  /**
+   * Get the parsed robots.txt for a URL's origin
+   */
+  async getRobots(url: string, signal?: AbortSignal): Promise<RobotsTxt> {
+    return (await this.getEntry(url, signal)).robots;
+  }
+
+  /**
+   * Get the cached robots.txt entry for a URL's origin, fetching it once
+   */
+  private getEntry(url: string, signal?: AbortSignal): Promise<RobotsEntry> {
+    const origin = new URL(url).origin;
+    let entry = this.cache.get(origin);
+
+    if (!entry) {
+      entry = this.fetchRobots(origin, signal);
+      this.cache.set(origin, entry);
+      // A cancelled fetch says nothing about the site; fetch again next time
+      entry.catch(() => this.cache.delete(origin));
+    }
+
+    return entry;
+  }
+
+  /**
+   * Fetch robots.txt following RFC 9309: 4xx allows everything; 5xx, 429,
+   * an unreachable host or a timeout are retried by the retry policy and
+   * then disallow everything, keeping the error
+   */
+  private async fetchRobots(origin: string, signal?: AbortSignal): Promise<RobotsEntry> {
+    const robotsUrl = `${origin}/robots.txt`;
+
+    try {
+      const robots = await withRetry(
+        () => this.requestRobots(robotsUrl, signal),
+        this.retryPolicy,
+        robotsUrl,
+        undefined,
+        signal
+      );
+      return { robots, robotsUrl };
+    } catch (error) {
+      if (error instanceof AbortError) {
+        throw error;
+      }
+      return { robots: disallowAllRobots(), robotsUrl, error: error as ExtractionError };
+    }
+  }
+
+  /**
+   * One request for robots.txt; throws on statuses that make it unavailable
+   */
+  private requestRobots(robotsUrl: string, signal?: AbortSignal): Promise<RobotsTxt> {
+    return runWithTimeout(async (requestSignal) => {
+      const response = await fetch(robotsUrl, {
+        headers: { 'User-Agent': this.userAgent },
+        signal: requestSignal,
+      });
+
+      if (response.ok) {
+        return parseRobotsTxt(await response.text());
+      }
+
+      if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+        return { groups: [], sitemaps: [] };
+      }
+
+      throw createHttpError(
+        response.status,
+        response.statusText,
+        robotsUrl,
+        response.headers.get('retry-after')
+      );
+    }, { url: robotsUrl, timeoutMs: this.timeout, signal });
+  }
+}
@@ -0,0 +1,120 @@
+import { gunzipSync } from 'zlib';
+import { SitemapEntry } from './types';
+import { RobotsChecker } from './robots';
+import { runWithTimeout } from './abort';
+import { parseSitemap, sortSitemapEntries, isSitemapUrl } from './utils/sitemap-utils';
+import { deduplicateUrls } from './utils/url-utils';
+
+/** Largest sitemap the protocol allows, uncompressed */
+const MAX_SITEMAP_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Sitemap loader options
+ */
+export interface SitemapLoaderOptions {
+  /** Maximum sitemap files to fetch, including index files (default: 50) */
+  maxSitemaps?: number;
+  /** Timeout for fetching a sitemap in milliseconds (default: 30000) */
+  timeout?: number;
+}
+
+/**
+ * Discovers and loads sitemaps for a site
+ */
+export class SitemapLoader {
+  private userAgent: string;
+  private robots: RobotsChecker;
+  private maxSitemaps: number;
+  private timeout: number;
+
+  constructor(userAgent: string, robots: RobotsChecker, options: SitemapLoaderOptions = {}) {
+    this.userAgent = userAgent;
+    this.robots = robots;
+    this.maxSitemaps = options.maxSitemaps || 50;
+    this.timeout = options.timeout || 30000;
+  }
+
+  /**
+   * Find sitemap URLs for a site via robots.txt, falling back to /sitemap.xml
+   */
+  async discover(siteUrl: string, signal?: AbortSignal): Promise<string[]> {
+    if (isSitemapUrl(siteUrl)) {
+      return [siteUrl];
+    }
+
+    const robots = await this.robots.getRobots(siteUrl, signal);
+    if (robots.sitemaps.length > 0) {
+      return deduplicateUrls(robots.sitemaps);
+    }
+
+    return [`${new URL(siteUrl).origin}/sitemap.xml`];
+  }
+
+  /**
+   * Load all page entries reachable from a site's sitemaps, highest priority first.
+   * Sitemap index files are followed; unreachable sitemaps are ignored.
+   * When the signal aborts, the entries loaded so far are returned.
+   */
+  async load(siteUrl: string, signal?: AbortSignal): Promise<SitemapEntry[]> {
+    let queue: string[];
+    try {
+      queue = await this.discover(siteUrl, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        return [];
+      }
+      throw error;
+    }
+    const visited = new Set<string>();
+    const entries = new Map<string, SitemapEntry>();
+
+    while (queue.length > 0 && visited.size < this.maxSitemaps && !signal?.aborted) {
+      const sitemapUrl = queue.shift()!;
+      if (visited.has(sitemapUrl)) {
+        continue;
+      }
+      visited.add(sitemapUrl);
+
+      const xml = await this.fetchSitemap(sitemapUrl, signal);
+      if (!xml) {
+        continue;
+      }
+
+      const parsed = parseSitemap(xml);
+      queue.push(...parsed.sitemaps);
+
+      for (const entry of parsed.entries) {
+        if (!entries.has(entry.url)) {
+          entries.set(entry.url, entry);
+        }
+      }
+    }
+
+    return sortSitemapEntries(Array.from(entries.values()));
+  }
+
+  /**
+   * Fetch a sitemap, decompressing gzip content
+   */
+  private async fetchSitemap(url: string, signal?: AbortSignal): Promise<string | undefined> {
+    try {
+      const body = await runWithTimeout(async (requestSignal) => {
+        const response = await fetch(url, {
+          headers: { 'User-Agent': this.userAgent },
+          signal: requestSignal,
+        });
+        return response.ok ? Buffer.from(await response.arrayBuffer()) : undefined;
+      }, { url, timeoutMs: this.timeout, signal });
+      if (!body) {
+        return undefined;
+      }
+
+      const isGzip = body.length > 2 && body[0] === 0x1f && body[1] === 0x8b;
+
+      // Oversized sitemaps (and gzip bombs) throw and are ignored
+      return (isGzip ? gunzipSync(body, { maxOutputLength: MAX_SITEMAP_SIZE }) : body).toString('utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,272 @@
+import {
+  ExtractedPage,
+  FieldRule,
+  FieldSource,
+  HtmlElement,
+  JsonSchema,
+  LLMProvider,
+  StructuredResult,
+  Tokenizer,
+} from './types';
+import { parseHtml, querySelectorAll, getTextContent } from './utils/html-utils';
+import { coerceToSchema, validateSchema } from './utils/schema-utils';
+import { estimateTokens, truncateToTokens } from './utils/token-utils';
+
+/**
+ * Structured extractor options
+ */
+export interface StructuredExtractorOptions {
+  /** Rules by top-level property name */
+  rules?: Record<string, FieldRule>;
+  /** LLM used for fields the rules did not fill */
+  llm?: LLMProvider;
+  /** Tokenizer used to cut the page text sent to the LLM */
+  tokenizer?: Tokenizer;
+  /** Page text sent to the LLM is cut to this many tokens (default: 4000) */
+  maxInputTokens?: number;
+}
+
+/** Confidence by source; LLM values found verbatim in the page score higher */
+const CONFIDENCE = {
+  agreed: 0.95,
+  selector: 0.9,
+  regex: 0.8,
+  llmGrounded: 0.8,
+  llm: 0.6,
+  metadata: 0.6,
+  invalid: 0.2,
+};
+
+const SYSTEM_PROMPT =
+  'You extract structured data from web pages. Reply with one JSON object ' +
+  'and nothing else. Use null for values that are not on the page.';
+
+interface Candidate {
+  value: unknown;
+  source: FieldSource;
+  confidence: number;
+}
+
+/**
+ * Fills a JSON Schema from page content.
+ *
+ * Each top-level property is filled from its selector or regex rule, then
+ * from page metadata with the same name; remaining properties are asked
+ * of the LLM in a single request. The record is validated against the
+ * schema as a whole.
+ */
+export class StructuredExtractor<T = Record<string, unknown>> {
+  private schema: JsonSchema;
+  private rules: Record<string, FieldRule>;
+  private llm?: LLMProvider;
+  private tokenizer: Tokenizer;
+  private maxInputTokens: number;
+
+  constructor(schema: JsonSchema, options: StructuredExtractorOptions = {}) {
+    if (!schema.properties) {
+      throw new Error('Structured extraction needs an object schema with properties');
+    }
+
+    this.schema = schema;
+    this.rules = options.rules || {};
+    this.llm = options.llm;
+    this.tokenizer = options.tokenizer || { name: 'approximate', count: estimateTokens };
+    this.maxInputTokens = options.maxInputTokens || 4000;
+  }
+
+  /**
+   * Extract a record from a page. Selector rules need HTML content.
+   */
+  async extract(page: ExtractedPage, signal?: AbortSignal): Promise<StructuredResult<T>> {
+    const root = /^\s*</.test(page.content) ? parseHtml(page.content) : undefined;
+    const text = root ? getTextContent(root) : page.content;
+    const properties = this.schema.properties!;
+
+    const accepted = new Map<string, Candidate>();
+    const rejected = new Map<string, Candidate>();
+
+    for (const [key, fieldSchema] of Object.entries(properties)) {
+      const candidates = this.ruleCandidates(key, fieldSchema, root, text);
+      const metadataValue = coerceToSchema(metadataField(page, key), fieldSchema);
+      if (metadataValue !== undefined) {
+        candidates.push({ value: metadataValue, source: 'metadata', confidence: CONFIDENCE.metadata });
+      }
+
+      const valid = candidates.filter(
+        (candidate) => validateSchema(candidate.value, fieldSchema).length === 0
+      );
+      if (valid.length > 0) {
+        const best = valid[0];
+        const agreed = valid.slice(1).some(
+          (other) => JSON.stringify(other.value) === JSON.stringify(best.value)
+        );
+        accepted.set(key, agreed ? { ...best, confidence: CONFIDENCE.agreed } : best);
+      } else if (candidates.length > 0) {
+        rejected.set(key, { ...candidates[0], confidence: CONFIDENCE.invalid });
+      }
+    }
+
+    const missing = Object.keys(properties).filter((key) => !accepted.has(key));
+    if (missing.length > 0 && this.llm) {
+      const answers = await this.askLlm(page, text, missing, signal);
+      for (const [key, candidate] of answers) {
+        const fieldErrors = validateSchema(candidate.value, properties[key]);
+        if (fieldErrors.length === 0) {
+          accepted.set(key, candidate);
+        } else if (!rejected.has(key)) {
+          rejected.set(key, { ...candidate, confidence: CONFIDENCE.invalid });
+        }
+      }
+    }
+
+    const result: StructuredResult<T> = {
+      url: page.url,
+      data: {},
+      valid: false,
+      errors: [],
+      confidence: {},
+      sources: {},
+    };
+
+    for (const key of Object.keys(properties)) {
+      const candidate = accepted.get(key) || rejected.get(key);
+      if (candidate) {
+        const field = key as keyof T;
+        result.data[field] = candidate.value as T[keyof T];
+        result.confidence[field] = candidate.confidence;
+        result.sources[field] = candidate.source;
+      }
+    }
+
+    result.errors = validateSchema(result.data, this.schema);
+    result.valid = result.errors.length === 0;
+
+    return result;
+  }
+
+  /**
+   * Values from a field's selector and regex rules, selector first
+   */
+  private ruleCandidates(
+    key: string,
+    fieldSchema: JsonSchema,
+    root: HtmlElement | undefined,
+    text: string
+  ): Candidate[] {
+    const rule = this.rules[key];
+    const candidates: Candidate[] = [];
+    if (!rule) {
+      return candidates;
+    }
+
+    const wantsArray = fieldSchema.type === 'array';
+
+    if (rule.selector && root) {
+      const values = querySelectorAll(root, rule.selector)
+        .map((element) =>
+          rule.attribute ? element.attributes[rule.attribute] : getTextContent(element)
+        )
+        .filter((value): value is string => !!value);
+      const value = coerceToSchema(wantsArray ? values : values[0], fieldSchema);
+      if (value !== undefined && values.length > 0) {
+        candidates.push({ value, source: 'selector', confidence: CONFIDENCE.selector });
+      }
+    }
+
+    if (rule.regex) {
+      const source = typeof rule.regex === 'string' ? rule.regex : rule.regex.source;
+      const flags = typeof rule.regex === 'string' ? 'i' : rule.regex.flags.replace('g', '');
+      const values = Array.from(text.matchAll(new RegExp(source, `${flags}g`)), (match) =>
+        (match[1] ?? match[0]).trim()
+      );
+      const value = coerceToSchema(wantsArray ? values : values[0], fieldSchema);
+      if (value !== undefined && values.length > 0) {
+        candidates.push({ value, source: 'regex', confidence: CONFIDENCE.regex });
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Ask the LLM for the missing fields in one request
+   */
+  private async askLlm(
+    page: ExtractedPage,
+    text: string,
+    keys: string[],
+    signal?: AbortSignal
+  ): Promise<Map<string, Candidate>> {
+    const properties = Object.fromEntries(keys.map((key) => [key, this.schema.properties![key]]));
+    const content = truncateToTokens(text, this.maxInputTokens, this.tokenizer);
+
+    const completion = await this.llm!.complete({
+      system: SYSTEM_PROMPT,
+      prompt: [
+        'Extract these fields from the page.',
+        '',
+        `JSON Schema:\n${JSON.stringify({ type: 'object', properties }, null, 2)}`,
+        '',
+        `URL: ${page.url}`,
+        `Title: ${page.title}`,
+        '',
+        `Page content:\n${content}`,
+      ].join('\n'),
+      json: true,
+      temperature: 0,
+      signal,
+    });
+
+    const answers = new Map<string, Candidate>();
+    const parsed = parseJsonObject(completion.text);
+    if (!parsed) {
+      return answers;
+    }
+
+    const lowerText = text.toLowerCase();
+    for (const key of keys) {
+      const value = coerceToSchema(parsed[key], properties[key]);
+      if (value === undefined) {
+        continue;
+      }
+      const grounded = typeof value !== 'string' || lowerText.includes(value.toLowerCase());
+      answers.set(key, {
+        value,
+        source: 'llm',
+        confidence: grounded ? CONFIDENCE.llmGrounded : CONFIDENCE.llm,
+      });
+    }
+
+    return answers;
+  }
+}
+
+/**
+ * Page field with the same name as a schema property
+ */
+function metadataField(page: ExtractedPage, key: string): unknown {
+  if (key === 'title' || key === 'url') {
+    return page[key];
+  }
+  return page.metadata[key];
+}
+
+/**
+ * Parse the first JSON object in an LLM reply, tolerating code fences
+ */
+function parseJsonObject(reply: string): Record<string, unknown> | undefined {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start < 0 || end <= start) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(reply.slice(start, end + 1));
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+      ? parsed
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
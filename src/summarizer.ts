@@ -0,0 +1,333 @@
+import {
+  AnswerResult,
+  ContentChunk,
+  ExtractedPage,
+  LLMProvider,
+  LLMUsageStats,
+  PromptTemplates,
+  SiteSummary,
+  SummaryResult,
+  Tokenizer,
+} from './types';
+import { chunkText } from './utils/chunk-utils';
+import { estimateTokens, relevanceScore } from './utils/token-utils';
+
+/**
+ * Default prompt templates
+ */
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplates = {
+  summarizeChunk:
+    'Summarize this part of the web page "{{title}}" ({{url}}) in a few sentences. ' +
+    'Keep key facts, names and numbers.\n\n{{content}}',
+  combineSummaries:
+    'Combine these summaries of "{{title}}" into one concise summary ' +
+    'without repeating yourself.\n\n{{content}}',
+  answerChunk:
+    'Question: {{question}}\n\nFrom the text below (from {{url}}), list only the facts ' +
+    'that help answer the question. Reply NONE if nothing is relevant.\n\n{{content}}',
+  combineAnswers:
+    'Answer the question using only the notes below and cite the source URLs in brackets. ' +
+    'Say so if the notes do not contain the answer.\n\nQuestion: {{question}}\n\n{{content}}',
+};
+
+/**
+ * Summarizer options
+ */
+export interface SummarizerOptions {
+  /** Tokenizer used for chunking and usage estimates */
+  tokenizer?: Tokenizer;
+  /** Override prompt templates */
+  templates?: Partial<PromptTemplates>;
+  /** Maximum tokens of text per LLM call (default: 3000) */
+  maxChunkTokens?: number;
+  /** Maximum tokens to generate per call (default: 512) */
+  maxOutputTokens?: number;
+}
+
+/**
+ * Fill {{placeholders}} in a prompt template
+ */
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) =>
+    values[key] ?? placeholder
+  );
+}
+
+/**
+ * Create empty LLM usage stats
+ */
+export function emptyUsage(): LLMUsageStats {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+}
+
+/**
+ * Add LLM usage to a running total
+ */
+export function addUsage(total: LLMUsageStats, usage: LLMUsageStats): LLMUsageStats {
+  return {
+    requests: total.requests + usage.requests,
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    cost: total.cost + usage.cost,
+  };
+}
+
+/**
+ * Map-reduce summaries and Q&A over page chunks.
+ *
+ * Each chunk is sent to the LLM on its own (map), then the partial
+ * results are merged in batches that fit maxChunkTokens until one is
+ * left (reduce).
+ */
+export class Summarizer {
+  private llm: LLMProvider;
+  private tokenizer: Tokenizer;
+  private templates: PromptTemplates;
+  private maxChunkTokens: number;
+  private maxOutputTokens: number;
+
+  constructor(llm: LLMProvider, options: SummarizerOptions = {}) {
+    this.llm = llm;
+    this.tokenizer = options.tokenizer || { name: 'approximate', count: estimateTokens };
+    this.templates = { ...DEFAULT_PROMPT_TEMPLATES, ...options.templates };
+    this.maxChunkTokens = options.maxChunkTokens || 3000;
+    this.maxOutputTokens = options.maxOutputTokens || 512;
+  }
+
+  /**
+   * Summarize one page
+   */
+  async summarizePage(page: ExtractedPage, signal?: AbortSignal): Promise<SummaryResult> {
+    const usage = emptyUsage();
+    const summary = await this.summarize(page, usage, signal);
+    return { summary, usage };
+  }
+
+  /**
+   * Summarize each page, then the site from the page summaries
+   */
+  async summarizeSite(pages: ExtractedPage[], signal?: AbortSignal): Promise<SiteSummary> {
+    const usage = emptyUsage();
+    const pageSummaries: SiteSummary['pages'] = [];
+
+    for (const page of pages) {
+      const summary = await this.summarize(page, usage, signal);
+      if (summary) {
+        pageSummaries.push({ url: page.url, title: page.title, summary });
+      }
+    }
+
+    const summary = await this.reduce(
+      pageSummaries.map((page) => `${page.title} (${page.url}): ${page.summary}`),
+      this.templates.combineSummaries,
+      { title: siteName(pages), url: pages[0]?.url || '' },
+      usage,
+      signal
+    );
+
+    return { summary, pages: pageSummaries, usage };
+  }
+
+  /**
+   * Answer a question from the chunks most relevant to it
+   */
+  async ask(
+    pages: ExtractedPage[],
+    question: string,
+    maxChunks = 20,
+    signal?: AbortSignal
+  ): Promise<AnswerResult> {
+    const usage = emptyUsage();
+    const titles = new Map(pages.map((page) => [page.url, page.title]));
+    const chunks = this.selectChunks(pages, question, maxChunks);
+    const notes: Array<{ url: string; text: string }> = [];
+
+    for (const chunk of chunks) {
+      const text = await this.complete(
+        fillTemplate(this.templates.answerChunk, {
+          question,
+          content: chunk.content,
+          title: titles.get(chunk.url) || '',
+          url: chunk.url,
+        }),
+        usage,
+        signal
+      );
+      if (text && !/^none\b/i.test(text)) {
+        notes.push({ url: chunk.url, text });
+      }
+    }
+
+    if (notes.length === 0) {
+      return { answer: '', sources: [], usage };
+    }
+
+    const answer = await this.reduce(
+      notes.map((note) => `[${note.url}]\n${note.text}`),
+      this.templates.combineAnswers,
+      { question, title: siteName(pages), url: pages[0]?.url || '' },
+      usage,
+      signal,
+      true
+    );
+
+    return { answer, sources: Array.from(new Set(notes.map((note) => note.url))), usage };
+  }
+
+  /**
+   * Summarize a page chunk by chunk
+   */
+  private async summarize(
+    page: ExtractedPage,
+    usage: LLMUsageStats,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const context = { title: page.title, url: page.url };
+    const summaries: string[] = [];
+
+    for (const chunk of this.chunk(page)) {
+      summaries.push(
+        await this.complete(
+          fillTemplate(this.templates.summarizeChunk, { ...context, content: chunk.content }),
+          usage,
+          signal
+        )
+      );
+    }
+
+    return this.reduce(summaries, this.templates.combineSummaries, context, usage, signal);
+  }
+
+  /**
+   * Merge partial results in batches until one is left.
+   * With `always`, a single input is still passed through the template.
+   */
+  private async reduce(
+    parts: string[],
+    template: string,
+    context: Record<string, string>,
+    usage: LLMUsageStats,
+    signal?: AbortSignal,
+    always = false
+  ): Promise<string> {
+    let current = parts.filter((part) => part);
+    if (current.length === 0) {
+      return '';
+    }
+    if (current.length === 1 && !always) {
+      return current[0];
+    }
+
+    do {
+      const batches = this.batch(current);
+      const merged: string[] = [];
+      for (const batch of batches) {
+        merged.push(
+          await this.complete(
+            fillTemplate(template, { ...context, content: batch.join('\n\n') }),
+            usage,
+            signal
+          )
+        );
+      }
+      current = merged;
+    } while (current.length > 1);
+
+    return current[0];
+  }
+
+  /**
+   * Group texts into batches that fit maxChunkTokens, at least two per batch
+   */
+  private batch(texts: string[]): string[][] {
+    const batches: string[][] = [];
+    let current: string[] = [];
+    let tokens = 0;
+
+    for (const text of texts) {
+      const size = this.tokenizer.count(text);
+      if (current.length >= 2 && tokens + size > this.maxChunkTokens) {
+        batches.push(current);
+        current = [];
+        tokens = 0;
+      }
+      current.push(text);
+      tokens += size;
+    }
+    batches.push(current);
+
+    return batches;
+  }
+
+  /**
+   * Chunks of all pages most relevant to the question, in page order
+   */
+  private selectChunks(pages: ExtractedPage[], question: string, maxChunks: number): ContentChunk[] {
+    const chunks = pages.flatMap((page) => this.chunk(page));
+    const scored = chunks.map((chunk, index) => ({
+      chunk,
+      index,
+      score: relevanceScore(chunk.content, question),
+    }));
+
+    const relevant = scored.filter((item) => item.score > 0);
+    return (relevant.length > 0 ? relevant : scored)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxChunks)
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.chunk);
+  }
+
+  /**
+   * Split a page into chunks that fit one LLM call
+   */
+  private chunk(page: ExtractedPage): ContentChunk[] {
+    return chunkText(page.content, page.url, {
+      maxTokens: this.maxChunkTokens,
+      countTokens: (text) => this.tokenizer.count(text),
+    });
+  }
+
+  /**
+   * Complete a prompt and record its usage
+   */
+  private async complete(
+    prompt: string,
+    usage: LLMUsageStats,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const completion = await this.llm.complete({
+      prompt,
+      maxTokens: this.maxOutputTokens,
+      temperature: 0,
+      signal,
+    });
+    const text = completion.text.trim();
+
+    const promptTokens = completion.usage?.promptTokens ?? this.tokenizer.count(prompt);
+    const completionTokens = completion.usage?.completionTokens ?? this.tokenizer.count(text);
+    const pricing = this.llm.pricing;
+
+    usage.requests++;
+    usage.promptTokens += promptTokens;
+    usage.completionTokens += completionTokens;
+    if (pricing) {
+      usage.cost +=
+        (promptTokens * pricing.inputPerMillion + completionTokens * pricing.outputPerMillion) /
+        1_000_000;
+    }
+
+    return text;
+  }
+}
+
+/**
+ * Host name of the first page, used as the site title
+ */
+function siteName(pages: ExtractedPage[]): string {
+  try {
+    return pages.length > 0 ? new URL(pages[0].url).hostname : '';
+  } catch {
+    return '';
+  }
+}
@@ -0,0 +1,142 @@
+import { promises as fs } from 'fs';
+import { Tokenizer } from './types';
+import { estimateTokens } from './utils/token-utils';
+
+/**
+ * Pre-tokenization pattern splitting text into words, numbers, punctuation and whitespace
+ */
+const DEFAULT_PATTERN =
+  /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}{1,3}| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+/**
+ * BPE tokenizer options
+ */
+export interface BpeTokenizerOptions {
+  /** Tokenizer name (default: 'bpe') */
+  name?: string;
+  /** Pre-tokenization pattern, must be global (default: GPT-style word split) */
+  pattern?: RegExp;
+}
+
+/**
+ * Offline token estimate tuned for GPT-style BPE vocabularies.
+ * Fast and dependency-free, typically within 10-15% for English prose.
+ */
+export class ApproximateTokenizer implements Tokenizer {
+  readonly name = 'approximate';
+
+  count(text: string): number {
+    return estimateTokens(text);
+  }
+}
+
+/**
+ * Byte-pair encoding tokenizer using a tiktoken-format vocabulary
+ * (one `<base64 token> <rank>` pair per line, e.g. cl100k_base.tiktoken)
+ */
+export class BpeTokenizer implements Tokenizer {
+  readonly name: string;
+  private ranks = new Map<string, number>();
+  private tokens = new Map<number, Buffer>();
+  private pattern: RegExp;
+  private cache = new Map<string, number[]>();
+
+  constructor(vocabulary: string, options: BpeTokenizerOptions = {}) {
+    this.name = options.name || 'bpe';
+    this.pattern = options.pattern || DEFAULT_PATTERN;
+
+    for (const line of vocabulary.split('\n')) {
+      const [token, rank] = line.trim().split(/\s+/);
+      if (!token || rank === undefined) {
+        continue;
+      }
+      const bytes = Buffer.from(token, 'base64');
+      this.ranks.set(bytes.toString('latin1'), Number(rank));
+      this.tokens.set(Number(rank), bytes);
+    }
+
+    if (this.ranks.size === 0) {
+      throw new Error('BPE vocabulary is empty');
+    }
+  }
+
+  /**
+   * Load a tiktoken-format vocabulary file
+   */
+  static async fromFile(path: string, options: BpeTokenizerOptions = {}): Promise<BpeTokenizer> {
+    return new BpeTokenizer(await fs.readFile(path, 'utf-8'), options);
+  }
+
+  count(text: string): number {
+    return this.encode(text).length;
+  }
+
+  encode(text: string): number[] {
+    const ids: number[] = [];
+
+    for (const match of text.matchAll(this.pattern)) {
+      ids.push(...this.encodePiece(match[0]));
+    }
+
+    return ids;
+  }
+
+  decode(ids: number[]): string {
+    return Buffer.concat(
+      ids.map((id) => {
+        const bytes = this.tokens.get(id);
+        if (!bytes) {
+          throw new Error(`Unknown token id: ${id}`);
+        }
+        return bytes;
+      })
+    ).toString('utf-8');
+  }
+
+  /**
+   * Merge the bytes of a pre-tokenized piece, lowest rank first
+   */
+  private encodePiece(piece: string): number[] {
+    const cached = this.cache.get(piece);
+    if (cached) {
+      return cached;
+    }
+
+    const bytes = Buffer.from(piece, 'utf-8').toString('latin1');
+    const whole = this.ranks.get(bytes);
+    let parts = whole !== undefined ? [bytes] : Array.from(bytes);
+
+    while (parts.length > 1) {
+      let best = -1;
+      let bestRank = Infinity;
+
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = this.ranks.get(parts[i] + parts[i + 1]);
+        if (rank !== undefined && rank < bestRank) {
+          best = i;
+          bestRank = rank;
+        }
+      }
+
+      if (best < 0) {
+        break;
+      }
+      parts = [...parts.slice(0, best), parts[best] + parts[best + 1], ...parts.slice(best + 2)];
+    }
+
+    const ids = parts.map((part) => {
+      const rank = this.ranks.get(part);
+      if (rank === undefined) {
+        throw new Error(`Byte sequence not in BPE vocabulary: ${JSON.stringify(part)}`);
+      }
+      return rank;
+    });
+
+    if (this.cache.size >= 10000) {
+      this.cache.clear();
+    }
+    this.cache.set(piece, ids);
+
+    return ids;
+  }
+}
@@ -10,28 +10,169 @@ export interface ExtractedPage {
   url: string;
   /** Page metadata */
   metadata: PageMetadata;
+  /** Content chunks (when the chunking option is set) */
+  chunks?: ContentChunk[];
+  /** Screenshot (when includeScreenshot is set) */
+  screenshot?: PageScreenshot;
+  /** Images in the content (when includeImages is set) */
+  images?: PageImage[];
+  /** Where each page of a PDF, DOCX or text document starts and ends in content */
+  documentPages?: DocumentPageSpan[];
+}
+
+/**
+ * Part of an extracted document's content that comes from one page
+ */
+export interface DocumentPageSpan {
+  /** Page number, from 1 */
+  pageNumber: number;
+  /** Character offset of the page start in the content */
+  startOffset: number;
+  /** Character offset of the page end in the content */
+  endOffset: number;
+}
+
+/**
+ * Screenshot of a page. Holds either the image data or, when a
+ * directory was given, the path of the saved file.
+ */
+export interface PageScreenshot {
+  /** Image data */
+  data?: Buffer;
+  /** Path of the saved image */
+  path?: string;
+  /** Image type, e.g. 'image/png' */
+  mimeType: string;
+  /** Whether the whole page was captured rather than the viewport */
+  fullPage: boolean;
+}
+
+/**
+ * Image found on a page
+ */
+export interface PageImage {
+  /** Absolute image URL */
+  url: string;
+  /** Alt text */
+  alt?: string;
+  /** Title attribute */
+  title?: string;
+  /** Caption of the enclosing <figure> */
+  caption?: string;
+  /** Width in pixels, as declared by the page */
+  width?: number;
+  /** Height in pixels, as declared by the page */
+  height?: number;
+}
+
+/**
+ * JSON-LD entity (https://json-ld.org), e.g. a schema.org Article,
+ * Product or BreadcrumbList
+ */
+export interface JsonLdEntity {
+  /** Entity type(s), e.g. 'Article' */
+  '@type'?: string | string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Descriptive metadata declared by a page (meta tags and JSON-LD)
+ */
+export interface DocumentMetadata {
+  /** Author names */
+  authors?: string[];
+  /** Publication date (ISO 8601) */
+  publishedAt?: string;
+  /** Last modification date (ISO 8601) */
+  modifiedAt?: string;
+  /** Name of the site the page belongs to */
+  siteName?: string;
+  /** Absolute URL of the page's preview image (og:image) */
+  image?: string;
+  /** Keywords and tags */
+  keywords?: string[];
+  /** OpenGraph properties without the 'og:' prefix, e.g. { title, type, image } */
+  openGraph?: Record<string, string>;
+  /** Twitter card properties without the 'twitter:' prefix, e.g. { card, site } */
+  twitter?: Record<string, string>;
+  /** JSON-LD entities, with @graph lists flattened */
+  jsonLd?: JsonLdEntity[];
 }
 
 /**
  * Page metadata
  */
-export interface PageMetadata {
+export interface PageMetadata extends DocumentMetadata {
   /** When the page was scraped */
   scrapedAt: Date;
   /** Original source URL */
   sourceUrl: string;
+  /** URL after redirects */
+  finalUrl: string;
+  /** Canonical URL declared by the page (link rel="canonical" or og:url) */
+  canonicalUrl?: string;
   /** Page description/excerpt */
   description?: string;
   /** Word count */
   wordCount: number;
-  /** Page language */
+  /** Token count from the configured tokenizer */
+  tokenCount: number;
+  /** Page language: the declared language, else the detected one */
   language?: string;
+  /** Language detected from the content */
+  detectedLanguage?: LanguageDetection;
+  /** Language of each part of the content, when it has more than one language */
+  languageSections?: LanguageSection[];
   /** Status code */
   statusCode?: number;
+  /** Content fingerprints for near-duplicate detection */
+  fingerprint?: ContentFingerprint;
+  /** URLs whose content was merged into this page as near-duplicates */
+  duplicateUrls?: string[];
+  /** Media type the server reported, e.g. 'application/pdf' */
+  contentType?: string;
+  /** Type of document, for pages parsed from PDF, DOCX or plain text */
+  documentType?: DocumentType;
+  /** Number of pages of a document */
+  pageCount?: number;
+  /** Whether the page came from the response cache */
+  cacheStatus?: CacheStatus;
   /** Additional custom metadata */
   [key: string]: any;
 }
 
+/**
+ * Detected language of a text
+ */
+export interface LanguageDetection {
+  /** ISO 639-1 language code, e.g. 'en' */
+  language: string;
+  /** Dominant writing system, e.g. 'Latin', 'Cyrillic', 'Han' or 'Japanese' */
+  script: string;
+  /** Confidence, 0-1 */
+  confidence: number;
+}
+
+/**
+ * Part of a text in one language
+ */
+export interface LanguageSection extends LanguageDetection {
+  /** Offset of the first character */
+  start: number;
+  /** Offset after the last character */
+  end: number;
+}
+
+/**
+ * Language detection options
+ */
+export interface LanguageDetectionOptions {
+  /** Candidate languages (default: all supported) */
+  only?: string[];
+  /** Characters of text examined (default: 2000) */
+  maxLength?: number;
+}
+
 /**
  * Extraction options for single page
  */
@@ -40,10 +181,71 @@ export interface ExtractPageOptions {
   onlyMainContent?: boolean;
   /** Output format (default: 'markdown') */
   format?: 'markdown' | 'html' | 'text';
-  /** Include screenshots */
-  includeScreenshot?: boolean;
+  /** Capture a screenshot as `page.screenshot`; needs a backend that supports screenshots */
+  includeScreenshot?: boolean | ScreenshotOptions;
+  /** Collect the content's images as `page.images` */
+  includeImages?: boolean;
   /** Wait time in milliseconds before extraction */
   waitFor?: number;
+  /** Cancel extraction; crawls stop and return the pages extracted so far */
+  signal?: AbortSignal;
+  /** Split page content into chunks returned as `page.chunks` */
+  chunking?: ChunkOptions;
+  /** Use the extractor's response cache (default: true when one is configured) */
+  cache?: boolean;
+  /** Time to live of pages cached by this call in milliseconds (default: the cache's ttl) */
+  cacheTtl?: number;
+}
+
+/**
+ * Screenshot options
+ */
+export interface ScreenshotOptions {
+  /** Capture the whole page instead of the viewport (default: false) */
+  fullPage?: boolean;
+  /** Save screenshots in this directory and return their paths instead of the data */
+  directory?: string;
+}
+
+/**
+ * Chunking options
+ * - markdown: start a new chunk at every heading, then split paragraphs and sentences
+ * - paragraph: pack paragraphs regardless of headings, splitting long ones into sentences
+ * - fixed: pack words into fixed-size windows
+ */
+export interface ChunkOptions {
+  /** Maximum tokens per chunk (default: 512) */
+  maxTokens?: number;
+  /** Tokens repeated from the end of the previous chunk (default: 0) */
+  overlap?: number;
+  /** Splitting strategy (default: 'markdown') */
+  strategy?: 'markdown' | 'paragraph' | 'fixed';
+  /** Token counter (default: the extractor's tokenizer, or estimateTokens) */
+  countTokens?: (text: string) => number;
+}
+
+/**
+ * Chunk of page content
+ */
+export interface ContentChunk {
+  /** Stable ID derived from URL, position and content */
+  id: string;
+  /** Position of the chunk in the page */
+  index: number;
+  /** Chunk text */
+  content: string;
+  /** Source page URL */
+  url: string;
+  /** Heading breadcrumb, outermost first */
+  headings: string[];
+  /** Character offset of the chunk start in the page content */
+  startOffset: number;
+  /** Character offset of the chunk end in the page content */
+  endOffset: number;
+  /** Token count */
+  tokenCount: number;
+  /** Document pages the chunk covers (documents only) */
+  pageNumbers?: number[];
 }
 
 /**
@@ -52,7 +254,7 @@ export interface ExtractPageOptions {
 export interface ExtractWebsiteOptions extends ExtractPageOptions {
   /** Maximum pages to scrape (default: 10, max: 100) */
   maxPages?: number;
-  /** Include subdomains (default: false) */
+  /** Include other hosts of the same registrable domain, e.g. docs.example.com (default: false) */
   includeSubdomains?: boolean;
   /** Title prefix for all pages */
   titlePrefix?: string;
@@ -64,8 +266,74 @@ export interface ExtractWebsiteOptions extends ExtractPageOptions {
   maxDepth?: number;
   /** Follow external links (default: false) */
   followExternalLinks?: boolean;
+  /**
+   * Crawl strategy (default: 'native')
+   * - native: in-process crawler, filters URLs before fetching
+   * - backend: delegate crawling to the backend (e.g. Firecrawl crawlUrl)
+   */
+  crawler?: 'native' | 'backend';
+  /** Obey robots.txt rules and Crawl-delay (default: true) */
+  respectRobotsTxt?: boolean;
+  /** Seed the crawl with sitemap URLs in priority order (default: false) */
+  useSitemap?: boolean;
+  /** Time limit for the whole crawl in milliseconds; returns partial results when hit */
+  crawlTimeout?: number;
+  /**
+   * Detect near-duplicate pages (e.g. ?lang= or print variants) with a
+   * similarity threshold from 0 to 1, or options
+   */
+  dedupeContent?: number | DedupeContentOptions;
+  /** Leave out pages whose canonical or final URL matches an earlier page's (default: true) */
+  dedupeCanonical?: boolean;
+  /** Follow links to PDF, DOCX and plain-text documents (default: false) */
+  includeDocuments?: boolean;
+  /**
+   * Manifest of an earlier crawl. Pages whose sitemap lastmod is not newer
+   * are not fetched, pages with an ETag or Last-Modified are fetched
+   * conditionally, and the result reports what changed.
+   */
+  previousManifest?: CrawlManifest;
+  /** Keep page content in the manifest so the next run can diff modified pages line by line (default: false) */
+  manifestContent?: boolean;
 }
 
+/**
+ * Near-duplicate detection options
+ */
+export interface DedupeContentOptions {
+  /** Estimated Jaccard similarity of word shingles at which pages are duplicates, 0-1 */
+  threshold: number;
+  /**
+   * What to do with a duplicate (default: 'drop')
+   * - drop: leave it out of the results
+   * - merge: leave it out and mark it `merged`; collected results (not
+   *   streams) add its URL to the first page's `metadata.duplicateUrls`
+   */
+  action?: 'drop' | 'merge';
+}
+
+/**
+ * Extraction options for a batch of URLs
+ */
+export interface ExtractPagesOptions extends ExtractPageOptions {
+  /** Maximum concurrent extractions (default: 5) */
+  concurrency?: number;
+  /** Maximum concurrent extractions per host (default: 2) */
+  perHostConcurrency?: number;
+  /** Minimum time between requests to the same host in milliseconds (default: 0) */
+  perHostDelay?: number;
+  /** Title prefix for all pages */
+  titlePrefix?: string;
+}
+
+/**
+ * Extraction options for sitemap-driven extraction (links are not followed)
+ */
+export type ExtractSitemapOptions = Omit<
+  ExtractWebsiteOptions,
+  'maxDepth' | 'crawler' | 'useSitemap' | 'previousManifest' | 'manifestContent'
+>;
+
 /**
  * URL normalization options
  */
@@ -80,20 +348,426 @@ export interface NormalizeUrlOptions {
   lowercase?: boolean;
   /** Sort query parameters (default: true) */
   sortQueryParams?: boolean;
+  /** Remove tracking parameters such as utm_* and fbclid (default: false) */
+  removeTrackingParams?: boolean;
+  /**
+   * Tracking parameter names; a trailing '*' matches a prefix
+   * (default: DEFAULT_TRACKING_PARAMS)
+   */
+  trackingParams?: string[];
+  /** Treat www.example.com as example.com (default: false) */
+  foldWww?: boolean;
+  /** Remove index documents such as /index.html (default: false) */
+  removeIndexDocument?: boolean;
+}
+
+/**
+ * Public suffix lookup options
+ */
+export interface DomainOptions {
+  /** Use the list's private section, e.g. github.io and blogspot.com (default: true) */
+  includePrivate?: boolean;
+  /** Return Unicode instead of punycode for IDNs (default: false) */
+  unicode?: boolean;
 }
 
 /**
  * SDK Configuration
  */
 export interface WebExtractorConfig {
-  /** Firecrawl API key */
-  apiKey: string;
-  /** Base URL for Firecrawl API (optional) */
+  /** Firecrawl API key (required unless a custom backend is provided) */
+  apiKey?: string;
+  /** Base URL for Firecrawl API, e.g. a self-hosted instance (optional) */
   baseUrl?: string;
   /** Request timeout in milliseconds (default: 30000) */
   timeout?: number;
   /** Enable debug logging (default: false) */
   debug?: boolean;
+  /** Scraping backend (default: Firecrawl using apiKey) */
+  backend?: ExtractionBackend;
+  /** User-agent sent with requests and matched against robots.txt (default: 'WebExtractor/1.0') */
+  userAgent?: string;
+  /** Lifecycle hooks (progress, per-page events) */
+  hooks?: ExtractionHooks;
+  /** Logger (default: console when debug is enabled) */
+  logger?: Logger;
+  /** Retry policy for failed requests */
+  retry?: RetryPolicy;
+  /** Request scheduling limits shared by all extractions of this instance */
+  rateLimit?: RateLimitConfig;
+  /** Tokenizer for token counts (default: ApproximateTokenizer) */
+  tokenizer?: Tokenizer;
+  /** LLM provider for structured extraction, summaries and Q&A */
+  llm?: LLMProvider;
+  /** Embedder for vector indexes (default: HashingEmbedder) */
+  embedder?: Embedder;
+  /** Cache scraped pages (default: no cache) */
+  cache?: CacheConfig;
+}
+
+/**
+ * Counts LLM tokens in text
+ */
+export interface Tokenizer {
+  /** Tokenizer name */
+  readonly name: string;
+  /** Number of tokens in text */
+  count(text: string): number;
+  /** Token IDs for text (vocabulary-based tokenizers only) */
+  encode?(text: string): number[];
+  /** Text for token IDs (vocabulary-based tokenizers only) */
+  decode?(ids: number[]): string;
+}
+
+/**
+ * Options for fitting pages into a token budget
+ * - rank: keep whole pages in rank order while they fit
+ * - truncate: keep whole pages, then cut the first page that overflows
+ * - summarize: shrink pages by extractive sentence selection
+ */
+export interface FitToBudgetOptions {
+  /** How to make pages fit (default: 'rank') */
+  strategy?: 'rank' | 'truncate' | 'summarize';
+  /** Rank pages and sentences by relevance to this query */
+  query?: string;
+  /** Tokenizer used for counting (default: estimateTokens) */
+  tokenizer?: Tokenizer;
+}
+
+/**
+ * Pages that fit a token budget
+ */
+export interface BudgetResult {
+  /** Pages within the budget, most relevant first */
+  pages: ExtractedPage[];
+  /** Tokens used by the kept pages */
+  totalTokens: number;
+  /** URLs of pages left out */
+  dropped: string[];
+  /** URLs of pages that were truncated or summarized */
+  truncated: string[];
+}
+
+/**
+ * Response cache settings
+ */
+export interface CacheConfig {
+  /** Where entries are kept (default: a MemoryCache) */
+  store?: ResponseCache;
+  /** Time to live of entries in milliseconds (default: 3600000) */
+  ttl?: number;
+  /** Revalidate expired entries with ETag/Last-Modified when the backend can (default: true) */
+  revalidate?: boolean;
+}
+
+/**
+ * Storage for cached pages, e.g. MemoryCache or FileSystemCache
+ */
+export interface ResponseCache {
+  /** Entry for a key, or undefined */
+  get(key: string): Promise<CacheEntry | undefined>;
+  /** Store an entry, replacing any entry for the key */
+  set(key: string, entry: CacheEntry): Promise<void>;
+  /** Remove an entry */
+  delete(key: string): Promise<void>;
+  /** Remove all entries */
+  clear(): Promise<void>;
+}
+
+/**
+ * Cached backend page. Entries are kept after they expire so they can be
+ * revalidated.
+ */
+export interface CacheEntry {
+  /** Page as the backend returned it */
+  page: BackendPage;
+  /** When the page was stored or last revalidated (epoch milliseconds) */
+  storedAt: number;
+  /** When the page must be revalidated (epoch milliseconds) */
+  expiresAt: number;
+  /** ETag response header */
+  etag?: string;
+  /** Last-Modified response header */
+  lastModified?: string;
+}
+
+/**
+ * How the response cache served a page
+ * - hit: fresh entry, no request made
+ * - revalidated: expired entry confirmed unchanged by the server (HTTP 304)
+ * - miss: fetched from the backend and stored
+ */
+export type CacheStatus = 'hit' | 'revalidated' | 'miss';
+
+/**
+ * Request scheduling limits
+ */
+export interface RateLimitConfig {
+  /** Maximum requests per second to a single host (default: unlimited) */
+  requestsPerSecond?: number;
+  /** Maximum concurrent requests to a single host (default: 4) */
+  maxConcurrentPerHost?: number;
+  /** Maximum requests per second across all hosts, e.g. an API plan limit (default: unlimited) */
+  globalRequestsPerSecond?: number;
+  /** Maximum concurrent requests across all hosts (default: 10) */
+  maxConcurrent?: number;
+  /** Apply per-host limits by exact host or by root domain (default: 'host') */
+  groupBy?: 'host' | 'domain';
+}
+
+/**
+ * Error classes that can be retried
+ * - rate-limit: HTTP 429
+ * - server-error: HTTP 5xx
+ * - timeout: request timed out
+ * - network: connection failures (ECONNRESET, ENOTFOUND, "fetch failed", ...);
+ *   other errors without a status code are not retried
+ */
+export type RetryableError = 'rate-limit' | 'server-error' | 'timeout' | 'network';
+
+/**
+ * Retry policy
+ */
+export interface RetryPolicy {
+  /** Maximum attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  initialDelayMs?: number;
+  /** Upper bound for any delay, including Retry-After (default: 30000) */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after each attempt (default: 2) */
+  backoffFactor?: number;
+  /** Randomize delays to avoid thundering herds (default: true) */
+  jitter?: boolean;
+  /** Wait at least as long as a Retry-After header asks (default: true) */
+  respectRetryAfter?: boolean;
+  /** Error classes to retry (default: all) */
+  retryOn?: RetryableError[];
+}
+
+/**
+ * Structured logger
+ */
+export interface Logger {
+  debug(message: string, context?: Record<string, unknown>): void;
+  info(message: string, context?: Record<string, unknown>): void;
+  warn(message: string, context?: Record<string, unknown>): void;
+  error(message: string, context?: Record<string, unknown>): void;
+}
+
+/**
+ * Lifecycle hooks called while extracting.
+ * Errors thrown by hooks are logged and otherwise ignored.
+ */
+export interface ExtractionHooks {
+  /** Called before a page is fetched */
+  onPageStart?(event: PageStartEvent): void;
+  /** Called when a page was extracted */
+  onPageExtracted?(event: PageExtractedEvent): void;
+  /** Called when a page failed */
+  onPageFailed?(event: PageFailedEvent): void;
+  /** Called after each URL of a crawl is processed */
+  onCrawlProgress?(progress: CrawlProgress): void;
+  /** Called before a failed request is retried */
+  onRetry?(event: RetryEvent): void;
+}
+
+/**
+ * Page start event
+ */
+export interface PageStartEvent {
+  url: string;
+}
+
+/**
+ * Page extracted event
+ */
+export interface PageExtractedEvent {
+  url: string;
+  page: ExtractedPage;
+}
+
+/**
+ * Page failed event
+ */
+export interface PageFailedEvent {
+  url: string;
+  error: string;
+  statusCode?: number;
+}
+
+/**
+ * Crawl progress counts
+ */
+export interface CrawlProgress {
+  /** URLs waiting in the crawl frontier */
+  queued: number;
+  /** Pages extracted successfully */
+  done: number;
+  /** Pages failed */
+  failed: number;
+  /** URLs skipped (e.g. robots.txt) */
+  skipped: number;
+}
+
+/**
+ * Retry event
+ */
+export interface RetryEvent {
+  url: string;
+  /** Attempt that failed (1-based) */
+  attempt: number;
+  /** Delay before the next attempt in milliseconds */
+  delayMs: number;
+  error: string;
+}
+
+/**
+ * Output formats a backend can produce
+ */
+export type BackendFormat = 'markdown' | 'html' | 'text';
+
+/**
+ * Options passed to a backend when scraping a single page
+ */
+export interface BackendScrapeOptions {
+  /** Formats to return */
+  formats: BackendFormat[];
+  /** Extract only main content */
+  onlyMainContent: boolean;
+  /** Wait time in milliseconds before extraction */
+  waitFor?: number;
+  /** Return links found on the page */
+  includeLinks?: boolean;
+  /** User-agent header to send */
+  userAgent?: string;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /** Cancels the request */
+  signal?: AbortSignal;
+  /** Capture a screenshot of the viewport or the whole page */
+  screenshot?: 'viewport' | 'fullPage';
+  /** Return the images in the content */
+  includeImages?: boolean;
+  /** ETag of a cached copy; backends that revalidate send If-None-Match */
+  ifNoneMatch?: string;
+  /** Last-Modified of a cached copy; backends that revalidate send If-Modified-Since */
+  ifModifiedSince?: string;
+}
+
+/**
+ * Options passed to a backend when crawling a site
+ */
+export interface BackendCrawlOptions extends BackendScrapeOptions {
+  /** Maximum pages to crawl */
+  limit: number;
+  /** Maximum link depth from the start URL */
+  maxDepth: number;
+  /** Follow links to other domains */
+  allowExternalLinks: boolean;
+  /** Follow links to subdomains */
+  allowSubdomains: boolean;
+  /** Follow links to PDF, DOCX and plain-text documents */
+  includeDocuments?: boolean;
+}
+
+/**
+ * Page metadata reported by a backend
+ */
+export interface BackendPageMetadata extends DocumentMetadata {
+  /** Page title */
+  title?: string;
+  /** Page description */
+  description?: string;
+  /** Page language */
+  language?: string;
+  /** HTTP status code */
+  statusCode?: number;
+  /** URL the page was requested from */
+  sourceURL?: string;
+  /** Canonical URL declared by the page (link rel="canonical" or og:url) */
+  canonicalUrl?: string;
+  /** Media type the server reported */
+  contentType?: string;
+  /** Type of document, for pages parsed from PDF, DOCX or plain text */
+  documentType?: DocumentType;
+  /** Number of pages of a document */
+  pageCount?: number;
+  /** ETag response header, for revalidation */
+  etag?: string;
+  /** Last-Modified response header, for revalidation */
+  lastModified?: string;
+}
+
+/**
+ * Page returned by a backend
+ */
+export interface BackendPage {
+  /** Page URL */
+  url: string;
+  /** Markdown content */
+  markdown?: string;
+  /** HTML content */
+  html?: string;
+  /** Plain text content */
+  text?: string;
+  /** Absolute URLs linked from the page */
+  links?: string[];
+  /** Screenshot, when one was requested */
+  screenshot?: BackendScreenshot;
+  /** Images in the content, when requested */
+  images?: PageImage[];
+  /** Pages of a document, when the backend parsed one */
+  documentPages?: DocumentPage[];
+  /** The page did not change since the validators sent (HTTP 304); content is omitted */
+  notModified?: boolean;
+  /** Set by the extractor when the response cache was used */
+  cacheStatus?: CacheStatus;
+  /** Page metadata */
+  metadata: BackendPageMetadata;
+}
+
+/**
+ * Screenshot returned by a backend
+ */
+export interface BackendScreenshot {
+  /** Image data */
+  data: Buffer;
+  /** Image type, e.g. 'image/png' */
+  mimeType: string;
+}
+
+/**
+ * Optional features a backend supports; anything not listed is unsupported
+ */
+export interface BackendCapabilities {
+  /** Can capture screenshots */
+  screenshots?: boolean;
+  /** Can return the images in a page */
+  images?: boolean;
+  /** Can extract PDF, DOCX and plain-text documents */
+  documents?: boolean;
+  /** Can revalidate cached pages with ETag and Last-Modified */
+  revalidation?: boolean;
+}
+
+/**
+ * Optional backend feature
+ */
+export type BackendCapability = keyof BackendCapabilities;
+
+/**
+ * Scraping backend used by WebExtractor
+ */
+export interface ExtractionBackend {
+  /** Backend name (used in logs) */
+  readonly name: string;
+  /** Optional features the backend supports */
+  readonly capabilities?: BackendCapabilities;
+  /** Scrape a single page */
+  scrape(url: string, options: BackendScrapeOptions): Promise<BackendPage>;
+  /** Crawl a site starting from url */
+  crawl(url: string, options: BackendCrawlOptions): Promise<BackendPage[]>;
 }
 
 /**
@@ -106,8 +780,18 @@ export interface ExtractionResult {
   totalPages: number;
   /** Failed URLs */
   failed: FailedExtraction[];
+  /** URLs that were not fetched (e.g. disallowed by robots.txt) */
+  skipped: SkippedExtraction[];
+  /** Duplicate pages left out by `dedupeCanonical` and `dedupeContent` */
+  duplicates: DuplicateExtraction[];
+  /** Whether extraction stopped early (signal aborted or crawlTimeout reached) */
+  aborted: boolean;
   /** Extraction statistics */
   stats: ExtractionStats;
+  /** Manifest of this crawl, to pass as `previousManifest` next time (website crawls only) */
+  manifest?: CrawlManifest;
+  /** Changes since `previousManifest`, when one was given */
+  changes?: CrawlChanges;
 }
 
 /**
@@ -117,6 +801,33 @@ export interface FailedExtraction {
   url: string;
   error: string;
   statusCode?: number;
+  /** Error class name (e.g. 'HttpStatusError') */
+  errorType?: string;
+  /** Attempts made before giving up */
+  attempts?: number;
+}
+
+/**
+ * Skipped URL info
+ */
+export interface SkippedExtraction {
+  url: string;
+  reason: string;
+}
+
+/**
+ * Page left out as a duplicate of an earlier page
+ */
+export interface DuplicateExtraction {
+  url: string;
+  /** URL of the page it duplicates */
+  duplicateOf: string;
+  /** Estimated Jaccard similarity, 0-1 (1 for canonical duplicates) */
+  similarity: number;
+  /** Same canonical (or final) URL, or near-identical content */
+  reason: 'canonical' | 'content';
+  /** Merged into the page it duplicates (`dedupeContent` action 'merge') */
+  merged?: boolean;
 }
 
 /**
@@ -131,4 +842,607 @@ export interface ExtractionStats {
   totalWords: number;
   /** Average words per page */
   avgWordsPerPage: number;
+  /** Total tokens extracted */
+  totalTokens: number;
+  /** Average tokens per page */
+  avgTokensPerPage: number;
+  /** Time requests spent waiting for rate limit slots in milliseconds */
+  throttledMs: number;
+  /** Pages served from the response cache, including revalidated ones */
+  cacheHits: number;
+  /** Pages fetched because the response cache had no usable entry */
+  cacheMisses: number;
+  /** Cache hits that needed a conditional request (HTTP 304) */
+  cacheRevalidations: number;
+  /** LLM usage of summaries and answers computed from this result */
+  llmUsage?: LLMUsageStats;
+}
+
+/**
+ * Single Allow/Disallow rule from robots.txt
+ */
+export interface RobotsRule {
+  /** true for Allow, false for Disallow */
+  allow: boolean;
+  /** Path pattern (supports * and $) */
+  pattern: string;
+}
+
+/**
+ * Group of robots.txt rules for one or more user-agents
+ */
+export interface RobotsGroup {
+  /** Lowercased user-agent tokens */
+  userAgents: string[];
+  /** Allow/Disallow rules */
+  rules: RobotsRule[];
+  /** Crawl-delay in seconds */
+  crawlDelay?: number;
+}
+
+/**
+ * Parsed robots.txt
+ */
+export interface RobotsTxt {
+  /** User-agent groups */
+  groups: RobotsGroup[];
+  /** Sitemap URLs */
+  sitemaps: string[];
+}
+
+/**
+ * URL entry from a sitemap
+ */
+export interface SitemapEntry {
+  /** Page URL */
+  url: string;
+  /** Last modification date as declared in the sitemap */
+  lastmod?: string;
+  /** Priority between 0.0 and 1.0 (sitemap default: 0.5) */
+  priority?: number;
+  /** Declared change frequency */
+  changefreq?: string;
+}
+
+/**
+ * Parsed sitemap or sitemap index
+ */
+export interface ParsedSitemap {
+  /** Page entries (urlset) */
+  entries: SitemapEntry[];
+  /** Child sitemap URLs (sitemapindex) */
+  sitemaps: string[];
+}
+
+/**
+ * Node of a parsed HTML document
+ */
+export type HtmlNode = HtmlElement | HtmlText;
+
+/**
+ * HTML element
+ */
+export interface HtmlElement {
+  type: 'element';
+  /** Lowercase tag name ('#document' for the root) */
+  tag: string;
+  /** Attributes with lowercase names and decoded values */
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+  parent?: HtmlElement;
+}
+
+/**
+ * HTML text node
+ */
+export interface HtmlText {
+  type: 'text';
+  /** Decoded text */
+  text: string;
+  parent?: HtmlElement;
+}
+
+/**
+ * HTML to Markdown conversion options
+ */
+export interface MarkdownOptions {
+  /** URL that relative links and images are resolved against */
+  baseUrl?: string;
+  /** Keep images as ![alt](src) (default: true) */
+  includeImages?: boolean;
+}
+
+/**
+ * Main content detection options
+ */
+export interface MainContentOptions {
+  /** Extra selectors for boilerplate to remove, e.g. ['.promo-box'] */
+  excludeSelectors?: string[];
+}
+
+/**
+ * Options for extracting a page from HTML
+ */
+export interface ExtractFromHtmlOptions extends MarkdownOptions, MainContentOptions {
+  /** Keep only the main content, dropping navigation, footers, banners etc. (default: true) */
+  onlyMainContent?: boolean;
+}
+
+/**
+ * Page extracted from HTML
+ */
+export interface HtmlExtraction {
+  /** Page title */
+  title?: string;
+  /** Content as GitHub-flavored Markdown */
+  markdown: string;
+  /** Content as plain text, paragraphs separated by blank lines */
+  text: string;
+  /** Absolute URLs of all links on the page */
+  links: string[];
+  /** Images in the content */
+  images: PageImage[];
+  /** Metadata declared in the HTML */
+  metadata: BackendPageMetadata;
+}
+
+/**
+ * Document formats parsed without a browser
+ */
+export type DocumentType = 'pdf' | 'docx' | 'text';
+
+/**
+ * Page of a parsed document
+ */
+export interface DocumentPage {
+  /** Page number, from 1 */
+  pageNumber: number;
+  /** Page content as Markdown */
+  markdown: string;
+  /** Page content as plain text */
+  text: string;
+}
+
+/**
+ * Document parsed from PDF, DOCX or plain-text data
+ */
+export interface DocumentExtraction {
+  /** Document format */
+  type: DocumentType;
+  /** Document title */
+  title?: string;
+  /** Content as Markdown, pages separated by blank lines */
+  markdown: string;
+  /** Content as plain text, pages separated by blank lines */
+  text: string;
+  /** Content of each page */
+  pages: DocumentPage[];
+  /** Absolute URLs the document links to */
+  links: string[];
+  /** Title, authors, dates and other metadata the document declares */
+  metadata: BackendPageMetadata;
+}
+
+/**
+ * JSON Schema (the subset used for validation)
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  /** Checked formats: email, uri, date, date-time */
+  format?: string;
+}
+
+/**
+ * JSON Schema primitive type
+ */
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * Schema validation error
+ */
+export interface SchemaValidationError {
+  /** JSON path of the invalid value, e.g. 'salary.min' */
+  path: string;
+  /** What is wrong */
+  message: string;
+}
+
+/**
+ * LLM completion request
+ */
+export interface LLMCompletionRequest {
+  /** User prompt */
+  prompt: string;
+  /** System prompt */
+  system?: string;
+  /** Maximum tokens to generate */
+  maxTokens?: number;
+  /** Sampling temperature */
+  temperature?: number;
+  /** Ask for a JSON object response */
+  json?: boolean;
+  /** Cancel the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * LLM completion
+ */
+export interface LLMCompletion {
+  /** Generated text */
+  text: string;
+  /** Token usage reported by the provider */
+  usage?: LLMUsage;
+}
+
+/**
+ * LLM token usage
+ */
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Embeddings for a batch of texts
+ */
+export interface LLMEmbeddings {
+  /** One vector per input text */
+  vectors: number[][];
+  /** Token usage reported by the provider */
+  usage?: LLMUsage;
+}
+
+/**
+ * Model prices in USD per million tokens
+ */
+export interface LLMPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * Accumulated LLM usage
+ */
+export interface LLMUsageStats {
+  /** Requests made */
+  requests: number;
+  /** Prompt tokens sent */
+  promptTokens: number;
+  /** Completion tokens received */
+  completionTokens: number;
+  /** Cost in USD (0 when the provider has no pricing) */
+  cost: number;
+}
+
+/**
+ * Large language model used for structured extraction, summaries and Q&A
+ */
+export interface LLMProvider {
+  /** Provider name */
+  readonly name: string;
+  /** Prices used to compute cost */
+  readonly pricing?: LLMPricing;
+  /** Complete a prompt */
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+  /** Embed texts */
+  embed?(texts: string[], signal?: AbortSignal): Promise<LLMEmbeddings>;
+}
+
+/**
+ * Prompt templates for summaries and Q&A.
+ * Placeholders: {{content}}, {{question}}, {{title}}, {{url}}
+ */
+export interface PromptTemplates {
+  /** Summarize one chunk of a page */
+  summarizeChunk: string;
+  /** Merge chunk or page summaries into one */
+  combineSummaries: string;
+  /** Pull notes relevant to the question from one chunk */
+  answerChunk: string;
+  /** Answer the question from the collected notes */
+  combineAnswers: string;
+}
+
+/**
+ * Summarization options
+ */
+export interface SummarizeOptions {
+  /** Maximum tokens of page text per LLM call (default: 3000) */
+  maxChunkTokens?: number;
+  /** Maximum tokens to generate per call (default: 512) */
+  maxOutputTokens?: number;
+  /** Override prompt templates */
+  templates?: Partial<PromptTemplates>;
+  /** LLM provider (default: the extractor's llm) */
+  llm?: LLMProvider;
+  /** Cancel the requests */
+  signal?: AbortSignal;
+}
+
+/**
+ * Q&A options
+ */
+export interface AskOptions extends SummarizeOptions {
+  /** Most relevant chunks sent to the LLM (default: 20) */
+  maxChunks?: number;
+}
+
+/**
+ * Summary of a page or site
+ */
+export interface SummaryResult {
+  /** Summary text */
+  summary: string;
+  /** LLM usage for this summary */
+  usage: LLMUsageStats;
+}
+
+/**
+ * Summary of a whole site
+ */
+export interface SiteSummary extends SummaryResult {
+  /** Per-page summaries */
+  pages: Array<{ url: string; title: string; summary: string }>;
+}
+
+/**
+ * Answer to a question about a site
+ */
+export interface AnswerResult {
+  /** Answer text */
+  answer: string;
+  /** URLs of pages the answer drew on */
+  sources: string[];
+  /** LLM usage for this answer */
+  usage: LLMUsageStats;
+}
+
+/**
+ * Rule for filling a schema field from the page.
+ * Selectors need HTML content; regexes run on the page text and use
+ * the first capture group (or the whole match).
+ */
+export interface FieldRule {
+  /** CSS selector */
+  selector?: string;
+  /** Attribute to read instead of the element text, e.g. 'href' or 'content' */
+  attribute?: string;
+  /** Regular expression */
+  regex?: RegExp | string;
+}
+
+/**
+ * Where a structured field value came from
+ */
+export type FieldSource = 'selector' | 'regex' | 'metadata' | 'llm';
+
+/**
+ * Structured extraction options
+ */
+export interface ExtractStructuredOptions {
+  /** Rules by top-level property name */
+  rules?: Record<string, FieldRule>;
+  /** LLM used for fields the rules did not fill (default: the extractor's llm) */
+  llm?: LLMProvider;
+  /** Page text sent to the LLM is cut to this many tokens (default: 4000) */
+  maxInputTokens?: number;
+  /** Cancel extraction */
+  signal?: AbortSignal;
+}
+
+/**
+ * Structured extraction result
+ */
+export interface StructuredResult<T> {
+  /** Source page URL */
+  url: string;
+  /** Extracted record (check `valid` before relying on required fields) */
+  data: Partial<T>;
+  /** Whether data validates against the schema */
+  valid: boolean;
+  /** Validation errors */
+  errors: SchemaValidationError[];
+  /** Confidence per filled field, 0-1 */
+  confidence: Partial<Record<keyof T, number>>;
+  /** Source per filled field */
+  sources: Partial<Record<keyof T, FieldSource>>;
+}
+
+/**
+ * Turns texts into vectors for similarity search
+ */
+export interface Embedder {
+  /** Embedder name, checked when a saved index is loaded */
+  readonly name: string;
+  /** Vector length, when known in advance */
+  readonly dimensions?: number;
+  /** Embed texts, one vector per text */
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+  /** Copy of the embedder fitted to a corpus (e.g. with IDF weights) */
+  fit?(texts: string[]): Embedder;
+  /** Serializable fitted state, saved with an index */
+  getState?(): unknown;
+  /** Copy of the embedder with saved state restored */
+  withState?(state: unknown): Embedder;
+}
+
+/**
+ * Vector index options
+ */
+export interface VectorIndexOptions {
+  /** How pages without chunks are chunked (default: chunkPage defaults) */
+  chunking?: ChunkOptions;
+  /** Texts per embed call (default: 64) */
+  batchSize?: number;
+}
+
+/**
+ * Options for building an index from extracted pages
+ */
+export interface BuildIndexOptions extends VectorIndexOptions {
+  /** Embedder (default: the extractor's embedder) */
+  embedder?: Embedder;
+  /** Cancel embedding */
+  signal?: AbortSignal;
+}
+
+/**
+ * Vector search options
+ */
+export interface VectorSearchOptions {
+  /** Drop hits with a lower cosine similarity */
+  minScore?: number;
+  /** Only search chunks of these page URLs */
+  urls?: string[];
+  /** Cancel embedding the query */
+  signal?: AbortSignal;
+}
+
+/**
+ * Vector search hit
+ */
+export interface VectorSearchResult {
+  /** Chunk ID */
+  id: string;
+  /** Source page URL */
+  url: string;
+  /** Source page title */
+  title: string;
+  /** Chunk content */
+  content: string;
+  /** Cosine similarity to the query, -1 to 1 */
+  score: number;
+  /** Matched chunk */
+  chunk: ContentChunk;
+}
+
+/**
+ * Content fingerprints
+ */
+export interface ContentFingerprint {
+  /** MinHash signature of 5-word shingles */
+  minHash: number[];
+  /** 64-bit SimHash of 3-word shingles as 16 hex digits */
+  simHash: string;
+}
+
+/**
+ * Fingerprint options
+ */
+export interface FingerprintOptions {
+  /** MinHash signature length (default: 64) */
+  numHashes?: number;
+  /** Words per shingle (default: 5) */
+  shingleSize?: number;
+}
+
+/**
+ * Pages of a crawl, for detecting changes on the next run.
+ * Plain JSON, so it can be stored between runs.
+ */
+export interface CrawlManifest {
+  /** Manifest format version */
+  version: 1;
+  /** When the crawl finished (ISO 8601) */
+  createdAt: string;
+  /** Entries by normalized page URL */
+  pages: Record<string, ManifestEntry>;
+}
+
+/**
+ * A crawled page in a manifest
+ */
+export interface ManifestEntry {
+  /** Normalized page URL */
+  url: string;
+  /** SHA-256 of the extracted content */
+  contentHash: string;
+  /** Hashes of the content's sections, for section-level diffs */
+  sections: SectionHash[];
+  /** Last modification date from the sitemap */
+  lastmod?: string;
+  /** ETag response header */
+  etag?: string;
+  /** Last-Modified response header */
+  lastModified?: string;
+  /** Links on the page, followed when the page is not fetched again */
+  links?: string[];
+  /** Extracted content, with `manifestContent` */
+  content?: string;
+}
+
+/**
+ * Changes between a crawl and the previous manifest
+ */
+export interface CrawlChanges {
+  /** Pages not in the previous manifest */
+  added: ExtractedPage[];
+  /** Pages whose content changed */
+  modified: PageChange[];
+  /**
+   * URLs of the previous manifest that are gone: answered 404 or 410, or
+   * no longer linked once the crawl ran to completion
+   */
+  removed: string[];
+  /** URLs whose content did not change (fetched, revalidated or skipped by lastmod) */
+  unchanged: string[];
+}
+
+/**
+ * A page whose content changed since the previous crawl
+ */
+export interface PageChange {
+  /** Normalized page URL */
+  url: string;
+  /** The page as extracted now */
+  page: ExtractedPage;
+  /** Content hash in the previous manifest */
+  previousHash: string;
+  /** Added, removed and modified sections */
+  sections: SectionChange[];
+  /** Changed lines, when the previous manifest kept the content */
+  lines?: LineChange[];
+}
+
+/**
+ * Hash of a section of content
+ */
+export interface SectionHash {
+  /** Heading text ('' for content before the first heading) */
+  heading: string;
+  /** SHA-256 of the section */
+  hash: string;
+}
+
+/**
+ * Section of content that differs between two versions
+ */
+export interface SectionChange {
+  heading: string;
+  change: 'added' | 'removed' | 'modified';
+}
+
+/**
+ * Line that differs between two versions of content
+ */
+export interface LineChange {
+  type: 'added' | 'removed';
+  /** 1-based line number in the new content (added) or the old content (removed) */
+  line: number;
+  text: string;
 }
@@ -0,0 +1,337 @@
+import { createHash } from 'crypto';
+import { ChunkOptions, ContentChunk, ExtractedPage } from '../types';
+import { estimateTokens } from './token-utils';
+
+/**
+ * Structural block of markdown content
+ */
+interface Block {
+  type: 'heading' | 'code' | 'table' | 'paragraph';
+  start: number;
+  end: number;
+  level?: number;
+  text?: string;
+}
+
+/**
+ * Smallest piece of content placed into a chunk
+ */
+interface ChunkUnit {
+  start: number;
+  end: number;
+  tokens: number;
+  headings: string[];
+  /** Start a new chunk at this unit */
+  breakBefore: boolean;
+  /** Sentences of a paragraph, used when it must not start a new chunk */
+  pieces?: ChunkUnit[];
+  /** Unit is a heading line */
+  isHeading?: boolean;
+}
+
+/**
+ * Split an extracted page into chunks for embedding or LLM context.
+ * Chunks of documents list the pages they cover.
+ */
+export function chunkPage(page: ExtractedPage, options: ChunkOptions = {}): ContentChunk[] {
+  const chunks = chunkText(page.content, page.url, options);
+  const spans = page.documentPages;
+  if (!spans || spans.length === 0) {
+    return chunks;
+  }
+
+  return chunks.map((chunk) => ({
+    ...chunk,
+    pageNumbers: spans
+      .filter((span) => span.startOffset < chunk.endOffset && span.endOffset > chunk.startOffset)
+      .map((span) => span.pageNumber),
+  }));
+}
+
+/**
+ * Split markdown text into chunks of at most maxTokens.
+ *
+ * Splits on headings first, then paragraphs, then sentences, then words.
+ * Code blocks and tables are never split, so a chunk holding one may
+ * exceed maxTokens. Chunk content is always content.slice(start, end).
+ */
+export function chunkText(
+  content: string,
+  url: string,
+  options: ChunkOptions = {}
+): ContentChunk[] {
+  const {
+    maxTokens = 512,
+    overlap = 0,
+    strategy = 'markdown',
+    countTokens = estimateTokens,
+  } = options;
+
+  if (maxTokens <= 0) {
+    throw new Error('maxTokens must be greater than 0');
+  }
+  if (overlap < 0 || overlap >= maxTokens) {
+    throw new Error('overlap must be at least 0 and less than maxTokens');
+  }
+
+  const units = buildUnits(content, strategy, maxTokens, countTokens);
+  const groups: ChunkUnit[][] = [];
+  let current: ChunkUnit[] = [];
+  let currentTokens = 0;
+
+  const queue = [...units];
+  while (queue.length > 0) {
+    const unit = queue.shift()!;
+    const overflows = currentTokens + unit.tokens > maxTokens;
+
+    // Keep a heading with the start of its section instead of alone; an
+    // oversized code block or table stays with its heading too
+    const headingsOnly = current.length > 0 && current.every((u) => u.isHeading);
+    if (overflows && unit.pieces && headingsOnly) {
+      queue.unshift(...unit.pieces);
+      continue;
+    }
+
+    if (current.length > 0 && unit.breakBefore) {
+      groups.push(current);
+      current = [];
+      currentTokens = 0;
+    } else if (current.length > 0 && overflows && !(unit.tokens >= maxTokens && headingsOnly)) {
+      groups.push(current);
+      current = takeOverlap(current, overlap, maxTokens - unit.tokens);
+      currentTokens = current.reduce((sum, u) => sum + u.tokens, 0);
+    }
+
+    current.push(unit);
+    currentTokens += unit.tokens;
+  }
+
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  return groups.map((group, index) => {
+    const start = group[0].start;
+    const end = group[group.length - 1].end;
+    const text = content.slice(start, end);
+
+    return {
+      id: createChunkId(url, start, text),
+      index,
+      content: text,
+      url,
+      headings: firstNewUnit(group, groups[index - 1]).headings,
+      startOffset: start,
+      endOffset: end,
+      tokenCount: countTokens(text),
+    };
+  });
+}
+
+/**
+ * Parse markdown into headings, code blocks, tables and paragraphs
+ */
+function parseBlocks(content: string): Block[] {
+  const lines: Array<{ text: string; start: number; end: number }> = [];
+  let offset = 0;
+  for (const text of content.split('\n')) {
+    lines.push({ text, start: offset, end: offset + text.length });
+    offset += text.length + 1;
+  }
+
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.text.trim();
+
+    if (!trimmed) {
+      i++;
+      continue;
+    }
+
+    const fence = trimmed.match(/^(`{3,}|~{3,})/);
+    if (fence) {
+      let j = i + 1;
+      while (j < lines.length && !lines[j].text.trim().startsWith(fence[1])) {
+        j++;
+      }
+      const last = lines[Math.min(j, lines.length - 1)];
+      blocks.push({ type: 'code', start: line.start, end: last.end });
+      i = j + 1;
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        start: line.start,
+        end: line.end,
+        level: heading[1].length,
+        text: heading[2],
+      });
+      i++;
+      continue;
+    }
+
+    if (trimmed.startsWith('|')) {
+      let j = i;
+      while (j + 1 < lines.length && lines[j + 1].text.trim().startsWith('|')) {
+        j++;
+      }
+      blocks.push({ type: 'table', start: line.start, end: lines[j].end });
+      i = j + 1;
+      continue;
+    }
+
+    let j = i;
+    while (j + 1 < lines.length && !startsBlock(lines[j + 1].text)) {
+      j++;
+    }
+    blocks.push({ type: 'paragraph', start: line.start, end: lines[j].end });
+    i = j + 1;
+  }
+
+  return blocks;
+}
+
+/**
+ * Check whether a line ends the current paragraph
+ */
+function startsBlock(line: string): boolean {
+  const trimmed = line.trim();
+  return (
+    !trimmed ||
+    /^(`{3,}|~{3,})/.test(trimmed) ||
+    /^#{1,6}\s/.test(trimmed) ||
+    trimmed.startsWith('|')
+  );
+}
+
+/**
+ * Break blocks into units no larger than maxTokens where possible
+ */
+function buildUnits(
+  content: string,
+  strategy: NonNullable<ChunkOptions['strategy']>,
+  maxTokens: number,
+  countTokens: (text: string) => number
+): ChunkUnit[] {
+  const units: ChunkUnit[] = [];
+  const headings: string[] = [];
+
+  const createUnit = (start: number, end: number): ChunkUnit => ({
+    start,
+    end,
+    tokens: countTokens(content.slice(start, end)),
+    headings: headings.filter((heading) => heading),
+    breakBefore: false,
+  });
+  const push = (start: number, end: number) => {
+    units.push(createUnit(start, end));
+  };
+  const pushSentences = (text: string, offset: number, into: ChunkUnit[]) => {
+    for (const [start, end] of splitPieces(text, /[^.!?]+(?:[.!?]+["')\]]*|$)\s*/g)) {
+      const sentence = text.slice(start, end);
+      if (countTokens(sentence) <= maxTokens) {
+        into.push(createUnit(offset + start, offset + end));
+        continue;
+      }
+      for (const [wordStart, wordEnd] of splitPieces(sentence, /\S+\s*/g)) {
+        into.push(createUnit(offset + start + wordStart, offset + start + wordEnd));
+      }
+    }
+  };
+
+  for (const block of parseBlocks(content)) {
+    if (block.type === 'heading') {
+      headings.splice(block.level! - 1);
+      while (headings.length < block.level! - 1) {
+        headings.push('');
+      }
+      headings.push(block.text!);
+      units.push({
+        ...createUnit(block.start, block.end),
+        breakBefore: strategy === 'markdown',
+        isHeading: true,
+      });
+      continue;
+    }
+
+    const text = content.slice(block.start, block.end);
+    if (block.type !== 'paragraph') {
+      push(block.start, block.end);
+      continue;
+    }
+
+    if (strategy === 'fixed') {
+      for (const [start, end] of splitPieces(text, /\S+\s*/g)) {
+        push(block.start + start, block.start + end);
+      }
+      continue;
+    }
+
+    if (countTokens(text) <= maxTokens) {
+      const pieces: ChunkUnit[] = [];
+      pushSentences(text, block.start, pieces);
+      units.push({ ...createUnit(block.start, block.end), pieces });
+      continue;
+    }
+
+    pushSentences(text, block.start, units);
+  }
+
+  return units;
+}
+
+/**
+ * Match offsets of a global regex, excluding trailing whitespace
+ */
+function splitPieces(text: string, pattern: RegExp): Array<[number, number]> {
+  const pieces: Array<[number, number]> = [];
+
+  for (const match of text.matchAll(pattern)) {
+    const piece = match[0].trimEnd();
+    if (piece.trim()) {
+      pieces.push([match.index!, match.index! + piece.length]);
+    }
+  }
+
+  return pieces;
+}
+
+/**
+ * Trailing units of a chunk that fit in the overlap budget
+ */
+function takeOverlap(units: ChunkUnit[], overlap: number, room: number): ChunkUnit[] {
+  const budget = Math.min(overlap, room);
+  const carried: ChunkUnit[] = [];
+  let tokens = 0;
+
+  for (let i = units.length - 1; i > 0; i--) {
+    if (tokens + units[i].tokens > budget) {
+      break;
+    }
+    carried.unshift(units[i]);
+    tokens += units[i].tokens;
+  }
+
+  return carried;
+}
+
+/**
+ * First unit of a chunk that is not overlap from the previous chunk
+ */
+function firstNewUnit(group: ChunkUnit[], previous?: ChunkUnit[]): ChunkUnit {
+  const previousEnd = previous ? previous[previous.length - 1].end : -1;
+  return group.find((unit) => unit.start >= previousEnd) || group[0];
+}
+
+/**
+ * Stable ID from the source URL, position and content
+ */
+function createChunkId(url: string, start: number, text: string): string {
+  return createHash('sha256').update(`${url}\n${start}\n${text}`).digest('hex').slice(0, 16);
+}
@@ -1,3 +1,5 @@
+import { identifyLanguage } from './language-utils';
+
 /**
  * Clean and format content
  */
@@ -60,25 +62,10 @@ export function generateExcerpt(
 }
 
 /**
- * Detect language from content (simple heuristic)
+ * Detect the language of content as an ISO 639-1 code; see identifyLanguage
  */
 export function detectLanguage(content: string): string | undefined {
-  // Simple language detection based on common words
-  const languagePatterns: Record<string, RegExp[]> = {
-    en: [/\bthe\b/i, /\band\b/i, /\bof\b/i, /\bis\b/i],
-    es: [/\bel\b/i, /\bla\b/i, /\bde\b/i, /\bque\b/i],
-    fr: [/\ble\b/i, /\bla\b/i, /\bde\b/i, /\bet\b/i],
-    de: [/\bder\b/i, /\bdie\b/i, /\bdas\b/i, /\bund\b/i],
-  };
-
-  const scores: Record<string, number> = {};
-
-  for (const [lang, patterns] of Object.entries(languagePatterns)) {
-    scores[lang] = patterns.filter((pattern) => pattern.test(content)).length;
-  }
-
-  const detected = Object.entries(scores).sort(([, a], [, b]) => b - a)[0];
-  return detected && detected[1] > 0 ? detected[0] : undefined;
+  return identifyLanguage(content)?.language;
 }
 
 /**
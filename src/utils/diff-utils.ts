@@ -0,0 +1,195 @@
+import { createHash } from 'crypto';
+import { LineChange, SectionChange, SectionHash } from '../types';
+
+type EditOperation = 'equal' | 'removed' | 'added';
+
+/**
+ * SHA-256 of a text as hex
+ */
+export function hashContent(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Split Markdown into sections at ATX headings (`#` to `######`).
+ * Content before the first heading is a section with heading ''; repeated
+ * headings are numbered ("Usage (2)") so every section has its own key.
+ */
+export function splitSections(markdown: string): Array<{ heading: string; content: string }> {
+  const sections: Array<{ heading: string; content: string }> = [];
+  const counts = new Map<string, number>();
+  let current = { heading: '', lines: [] as string[] };
+  let inFence = false;
+
+  const flush = () => {
+    const content = current.lines.join('\n').trim();
+    if (content || current.heading) {
+      sections.push({ heading: current.heading, content });
+    }
+  };
+
+  for (const line of splitLines(markdown)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    const heading = inFence ? null : /^#{1,6}\s+(.+?)\s*#*\s*$/.exec(line);
+    if (!heading) {
+      current.lines.push(line);
+      continue;
+    }
+
+    flush();
+    const text = heading[1].trim();
+    const count = (counts.get(text) || 0) + 1;
+    counts.set(text, count);
+    current = { heading: count > 1 ? `${text} (${count})` : text, lines: [line] };
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Hash each section of Markdown (see splitSections)
+ */
+export function hashSections(markdown: string): SectionHash[] {
+  return splitSections(markdown).map(({ heading, content }) => ({ heading, hash: hashContent(content) }));
+}
+
+/**
+ * Sections added, removed or modified between two versions, matched by heading
+ */
+export function diffSections(before: SectionHash[], after: SectionHash[]): SectionChange[] {
+  const previous = new Map(before.map((section) => [section.heading, section.hash]));
+  const current = new Set(after.map((section) => section.heading));
+  const changes: SectionChange[] = [];
+
+  for (const section of after) {
+    const hash = previous.get(section.heading);
+    if (hash === undefined) {
+      changes.push({ heading: section.heading, change: 'added' });
+    } else if (hash !== section.hash) {
+      changes.push({ heading: section.heading, change: 'modified' });
+    }
+  }
+  for (const section of before) {
+    if (!current.has(section.heading)) {
+      changes.push({ heading: section.heading, change: 'removed' });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Lines removed and added between two texts, in order (Myers' diff).
+ *
+ * When the texts differ by more than `maxEdits` lines, the differing
+ * middle is reported as removed and added as a whole instead.
+ */
+export function diffLines(before: string, after: string, maxEdits = 2000): LineChange[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Common leading and trailing lines need no search
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const operations = shortestEdit(middleA, middleB, maxEdits) || [
+    ...middleA.map((): EditOperation => 'removed'),
+    ...middleB.map((): EditOperation => 'added'),
+  ];
+
+  const changes: LineChange[] = [];
+  let i = start;
+  let j = start;
+  for (const operation of operations) {
+    if (operation === 'removed') {
+      changes.push({ type: 'removed', line: i + 1, text: a[i] });
+      i++;
+    } else if (operation === 'added') {
+      changes.push({ type: 'added', line: j + 1, text: b[j] });
+      j++;
+    } else {
+      i++;
+      j++;
+    }
+  }
+  return changes;
+}
+
+function splitLines(text: string): string[] {
+  return text ? text.replace(/\r\n?/g, '\n').split('\n') : [];
+}
+
+/**
+ * Shortest edit script from a to b, or undefined when it needs more than
+ * maxEdits insertions and deletions
+ */
+function shortestEdit(a: string[], b: string[], maxEdits: number): EditOperation[] | undefined {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Furthest x per diagonal before each round, covering diagonals -d-1..d+1
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m);
+      }
+    }
+  }
+  return undefined;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): EditOperation[] {
+  const operations: EditOperation[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = d === 0 ? 0 : at(previousK);
+    const previousY = d === 0 ? 0 : previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      operations.push('equal');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      operations.push(x === previousX ? 'added' : 'removed');
+    }
+    x = previousX;
+    y = previousY;
+  }
+
+  return operations.reverse();
+}
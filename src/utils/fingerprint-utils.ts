@@ -0,0 +1,160 @@
+import { ContentFingerprint, FingerprintOptions } from '../types';
+
+/** Seeds turning one shingle hash into independent MinHash permutations */
+const MINHASH_SEEDS = Array.from({ length: 1024 }, (_, i) => mix32(Math.imul(i + 1, 0x9e3779b9)));
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Overlapping runs of `size` words, lowercased and without punctuation.
+ * Text shorter than `size` words is one shingle.
+ */
+export function shingleText(text: string, size = 5): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  if (words.length <= size) {
+    return words.length > 0 ? [words.join(' ')] : [];
+  }
+
+  const shingles = new Set<string>();
+  for (let i = 0; i + size <= words.length; i++) {
+    shingles.add(words.slice(i, i + size).join(' '));
+  }
+  return Array.from(shingles);
+}
+
+/**
+ * MinHash signature of a text's shingles.
+ * The share of equal positions in two signatures estimates their
+ * Jaccard similarity.
+ */
+export function minHash(text: string, options: FingerprintOptions = {}): number[] {
+  const { numHashes = 64, shingleSize = 5 } = options;
+  if (numHashes > MINHASH_SEEDS.length) {
+    throw new Error(`MinHash supports at most ${MINHASH_SEEDS.length} hashes`);
+  }
+
+  const signature = new Array<number>(numHashes).fill(0xffffffff);
+  for (const shingle of shingleText(text, shingleSize)) {
+    const base = hashString(shingle);
+    for (let i = 0; i < numHashes; i++) {
+      const value = mix32(base ^ MINHASH_SEEDS[i]);
+      if (value < signature[i]) {
+        signature[i] = value;
+      }
+    }
+  }
+
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity of two MinHash signatures, 0-1
+ */
+export function minHashSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`MinHash signatures differ in length: ${a.length} and ${b.length}`);
+  }
+  if (a.length === 0) {
+    return 0;
+  }
+
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) {
+      equal++;
+    }
+  }
+  return equal / a.length;
+}
+
+/**
+ * 64-bit SimHash of a text's shingles as 16 hex digits.
+ * Similar texts differ in few bits; see simHashDistance.
+ */
+export function simHash(text: string, shingleSize = 3): string {
+  const counts = new Map<string, number>();
+  for (const shingle of shingleText(text, shingleSize)) {
+    counts.set(shingle, (counts.get(shingle) || 0) + 1);
+  }
+
+  const weights = new Array<number>(64).fill(0);
+  for (const [shingle, count] of counts) {
+    const high = hashString(shingle);
+    const low = mix32(high ^ 0x5bd1e995);
+    for (let bit = 0; bit < 32; bit++) {
+      weights[bit] += (high >>> bit) & 1 ? count : -count;
+      weights[bit + 32] += (low >>> bit) & 1 ? count : -count;
+    }
+  }
+
+  let high = 0;
+  let low = 0;
+  for (let bit = 0; bit < 32; bit++) {
+    if (weights[bit] > 0) {
+      high |= 1 << bit;
+    }
+    if (weights[bit + 32] > 0) {
+      low |= 1 << bit;
+    }
+  }
+
+  return toHex(high) + toHex(low);
+}
+
+/**
+ * Number of differing bits between two SimHashes, 0-64
+ */
+export function simHashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < 16; i += 8) {
+    distance += popCount(parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16));
+  }
+  return distance;
+}
+
+/**
+ * MinHash and SimHash fingerprints of a text
+ */
+export function fingerprintContent(text: string, options: FingerprintOptions = {}): ContentFingerprint {
+  return {
+    minHash: minHash(text, options),
+    simHash: simHash(text),
+  };
+}
+
+/**
+ * Murmur3 finalizer: scramble the bits of a 32-bit integer
+ */
+function mix32(value: number): number {
+  let hash = value >>> 0;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+function popCount(value: number): number {
+  let count = 0;
+  let rest = value >>> 0;
+  while (rest) {
+    rest &= rest - 1;
+    count++;
+  }
+  return count;
+}
+
+function toHex(value: number): string {
+  return (value >>> 0).toString(16).padStart(8, '0');
+}
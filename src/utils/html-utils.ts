@@ -0,0 +1,320 @@
+import { HtmlElement, HtmlNode } from '../types';
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta',
+  'param', 'source', 'track', 'wbr',
+]);
+
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+/** Elements closed implicitly when a sibling of one of the listed tags opens */
+const IMPLICIT_CLOSE: Record<string, string[]> = {
+  p: ['p', 'div', 'ul', 'ol', 'table', 'section', 'article', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'pre', 'blockquote'],
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr'],
+  td: ['td', 'th', 'tr'],
+  th: ['td', 'th', 'tr'],
+  option: ['option'],
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', copy: '©',
+  reg: '®', trade: '™', hellip: '…', mdash: '—', ndash: '–', lsquo: '‘',
+  rsquo: '’', ldquo: '“', rdquo: '”', euro: '€', pound: '£', yen: '¥', middot: '·',
+};
+
+/**
+ * Decode HTML character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x'
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Parse HTML into a lenient element tree rooted at a '#document' element
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { type: 'element', tag: '#document', attributes: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const pattern = /<!--[\s\S]*?-->|<![^>]*>|<\/([a-zA-Z][\w-]*)\s*>|<([a-zA-Z][\w-]*)((?:\s+[^\s/>"'=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+  // For finding raw text end tags; ASCII only, so offsets match html
+  const lowerHtml = html.replace(/[A-Z]+/g, (letters) => letters.toLowerCase());
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const current = () => stack[stack.length - 1];
+  const addText = (text: string) => {
+    if (text) {
+      current().children.push({ type: 'text', text: decodeEntities(text), parent: current() });
+    }
+  };
+
+  while ((match = pattern.exec(html)) !== null) {
+    addText(html.slice(lastIndex, match.index));
+    lastIndex = pattern.lastIndex;
+
+    const [, closeTag, openTag, rawAttributes, selfClosing] = match;
+
+    if (closeTag) {
+      const tag = closeTag.toLowerCase();
+      const index = stack.map((el) => el.tag).lastIndexOf(tag);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    if (!openTag) {
+      continue; // Comment or doctype
+    }
+
+    const tag = openTag.toLowerCase();
+    while (IMPLICIT_CLOSE[current().tag]?.includes(tag)) {
+      stack.pop();
+    }
+
+    const element: HtmlElement = {
+      type: 'element',
+      tag,
+      attributes: parseAttributes(rawAttributes),
+      children: [],
+      parent: current(),
+    };
+    current().children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      const end = lowerHtml.indexOf(`</${tag}`, lastIndex);
+      const stop = end < 0 ? html.length : end;
+      const text = html.slice(lastIndex, stop);
+      if (text) {
+        element.children.push({
+          type: 'text',
+          text: tag === 'script' || tag === 'style' ? text : decodeEntities(text),
+          parent: element,
+        });
+      }
+      const close = end < 0 ? html.length : html.indexOf('>', end) + 1;
+      lastIndex = pattern.lastIndex = close || html.length;
+      continue;
+    }
+
+    if (!selfClosing && !VOID_ELEMENTS.has(tag)) {
+      stack.push(element);
+    }
+  }
+
+  addText(html.slice(lastIndex));
+  return root;
+}
+
+/**
+ * All elements under root matching a CSS selector.
+ *
+ * Supports type, #id, .class and [attr], [attr=v], [attr^=v], [attr$=v],
+ * [attr*=v] selectors, descendant and child (>) combinators and
+ * comma-separated groups.
+ */
+export function querySelectorAll(root: HtmlElement, selector: string): HtmlElement[] {
+  const groups = splitSelectorGroups(selector).map(parseSelector);
+  const results: HtmlElement[] = [];
+
+  walkElements(root, (element) => {
+    if (groups.some((steps) => matchesSteps(element, steps, steps.length - 1))) {
+      results.push(element);
+    }
+  });
+
+  return results;
+}
+
+/**
+ * First element under root matching a CSS selector
+ */
+export function querySelector(root: HtmlElement, selector: string): HtmlElement | undefined {
+  return querySelectorAll(root, selector)[0];
+}
+
+/**
+ * Visible text of a node with whitespace collapsed
+ */
+export function getTextContent(node: HtmlNode): string {
+  const parts: string[] = [];
+  const collect = (current: HtmlNode) => {
+    if (current.type === 'text') {
+      parts.push(current.text);
+    } else if (current.tag !== 'script' && current.tag !== 'style') {
+      current.children.forEach(collect);
+    }
+  };
+  collect(node);
+
+  return parts.join(' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Visit every element under root in document order
+ */
+export function walkElements(root: HtmlElement, visit: (element: HtmlElement) => void): void {
+  for (const child of root.children) {
+    if (child.type === 'element') {
+      visit(child);
+      walkElements(child, visit);
+    }
+  }
+}
+
+interface AttributeTest {
+  name: string;
+  operator?: '=' | '^=' | '$=' | '*=' | '~=';
+  value?: string;
+}
+
+interface CompoundSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attributes: AttributeTest[];
+  /** Combinator linking this compound to the previous one */
+  combinator: ' ' | '>';
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s/>"'=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(raw)) !== null) {
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    attributes[match[1].toLowerCase()] = decodeEntities(value);
+  }
+
+  return attributes;
+}
+
+function splitSelectorGroups(selector: string): string[] {
+  const groups: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i];
+    if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      groups.push(selector.slice(start, i));
+      start = i + 1;
+    }
+  }
+  groups.push(selector.slice(start));
+
+  return groups.map((group) => group.trim()).filter((group) => group);
+}
+
+function parseSelector(selector: string): CompoundSelector[] {
+  const steps: CompoundSelector[] = [];
+  const pattern = /\s*(>)?\s*((?:[a-zA-Z*][\w-]*)?(?:#[\w-]+|\.[\w-]+|\[[^\]]+\])*)/y;
+
+  while (pattern.lastIndex < selector.length) {
+    const match = pattern.exec(selector);
+    const compound = match?.[2];
+    if (!match || !compound) {
+      throw new Error(`Unsupported selector: ${selector}`);
+    }
+
+    const step: CompoundSelector = {
+      classes: [],
+      attributes: [],
+      combinator: match[1] ? '>' : ' ',
+    };
+    const tag = compound.match(/^[a-zA-Z*][\w-]*/);
+    if (tag && tag[0] !== '*') {
+      step.tag = tag[0].toLowerCase();
+    }
+    for (const part of compound.matchAll(/#([\w-]+)|\.([\w-]+)|\[\s*([^\s\]=^$*~]+)\s*(?:([\^$*~]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]*)))?\s*\]/g)) {
+      if (part[1]) {
+        step.id = part[1];
+      } else if (part[2]) {
+        step.classes.push(part[2]);
+      } else {
+        step.attributes.push({
+          name: part[3].toLowerCase(),
+          operator: part[4] as AttributeTest['operator'],
+          value: part[5] ?? part[6] ?? part[7],
+        });
+      }
+    }
+    steps.push(step);
+  }
+
+  return steps;
+}
+
+function matchesSteps(element: HtmlElement, steps: CompoundSelector[], index: number): boolean {
+  if (!matchesCompound(element, steps[index])) {
+    return false;
+  }
+  if (index === 0) {
+    return true;
+  }
+
+  let ancestor = element.parent;
+  while (ancestor && ancestor.tag !== '#document') {
+    if (matchesSteps(ancestor, steps, index - 1)) {
+      return true;
+    }
+    if (steps[index].combinator === '>') {
+      return false;
+    }
+    ancestor = ancestor.parent;
+  }
+  return false;
+}
+
+function matchesCompound(element: HtmlElement, step: CompoundSelector): boolean {
+  if (step.tag && element.tag !== step.tag) {
+    return false;
+  }
+  if (step.id && element.attributes.id !== step.id) {
+    return false;
+  }
+  if (step.classes.length > 0) {
+    const classes = (element.attributes.class || '').split(/\s+/);
+    if (!step.classes.every((name) => classes.includes(name))) {
+      return false;
+    }
+  }
+
+  return step.attributes.every(({ name, operator, value = '' }) => {
+    const actual = element.attributes[name];
+    if (actual === undefined) {
+      return false;
+    }
+
+    switch (operator) {
+      case '=':
+        return actual === value;
+      case '^=':
+        return actual.startsWith(value);
+      case '$=':
+        return actual.endsWith(value);
+      case '*=':
+        return actual.includes(value);
+      case '~=':
+        return actual.split(/\s+/).includes(value);
+      default:
+        return true;
+    }
+  });
+}
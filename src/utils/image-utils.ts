@@ -0,0 +1,111 @@
+import { HtmlElement, PageImage } from '../types';
+import { getTextContent, parseHtml, querySelector, querySelectorAll } from './html-utils';
+import { buildAbsoluteUrl } from './url-utils';
+
+/** Attributes lazy-loading scripts keep the real image URL in */
+const LAZY_SOURCES = ['data-src', 'data-lazy-src', 'data-original'];
+
+/**
+ * Images of a page or fragment, for captioning and multimodal pipelines.
+ *
+ * URLs come from src, lazy-loading attributes or the largest srcset
+ * candidate and are made absolute against baseUrl. Inline data: images,
+ * tracking pixels (1x1 or smaller) and repeats of the same URL are left
+ * out. Captions come from the enclosing <figure>'s <figcaption>.
+ */
+export function extractImages(source: string | HtmlElement, baseUrl: string): PageImage[] {
+  const root = typeof source === 'string' ? parseHtml(source) : source;
+  const images: PageImage[] = [];
+  const seen = new Set<string>();
+
+  for (const element of querySelectorAll(root, 'img')) {
+    const src = imageSource(element);
+    if (!src || src.startsWith('data:')) {
+      continue;
+    }
+
+    let url: string;
+    try {
+      url = buildAbsoluteUrl(baseUrl, src);
+    } catch {
+      continue;
+    }
+
+    const width = toPixels(element.attributes.width);
+    const height = toPixels(element.attributes.height);
+    if (seen.has(url) || (width !== undefined && width <= 1 && height !== undefined && height <= 1)) {
+      continue;
+    }
+    seen.add(url);
+
+    const image: PageImage = { url };
+    const alt = clean(element.attributes.alt);
+    const title = clean(element.attributes.title);
+    const caption = figureCaption(element);
+    if (alt) {
+      image.alt = alt;
+    }
+    if (title) {
+      image.title = title;
+    }
+    if (caption) {
+      image.caption = caption;
+    }
+    if (width !== undefined) {
+      image.width = width;
+    }
+    if (height !== undefined) {
+      image.height = height;
+    }
+    images.push(image);
+  }
+
+  return images;
+}
+
+/**
+ * URL an <img> shows: src unless it is a placeholder next to a lazy
+ * source, else the widest srcset candidate
+ */
+function imageSource(element: HtmlElement): string | undefined {
+  const { attributes } = element;
+  const lazy = LAZY_SOURCES.map((name) => attributes[name]?.trim()).find(Boolean);
+  const src = attributes.src?.trim();
+  if (lazy && (!src || src.startsWith('data:'))) {
+    return lazy;
+  }
+  if (src) {
+    return src;
+  }
+
+  let best: { url: string; size: number } | undefined;
+  for (const candidate of (attributes.srcset || attributes['data-srcset'] || '').split(',')) {
+    const [url, descriptor = '1x'] = candidate.trim().split(/\s+/);
+    const size = parseFloat(descriptor) || 1;
+    if (url && (!best || size > best.size)) {
+      best = { url, size };
+    }
+  }
+  return best?.url;
+}
+
+function figureCaption(element: HtmlElement): string | undefined {
+  for (let parent = element.parent; parent; parent = parent.parent) {
+    if (parent.tag === 'figure') {
+      const caption = querySelector(parent, 'figcaption');
+      return caption ? clean(getTextContent(caption)) : undefined;
+    }
+  }
+  return undefined;
+}
+
+function toPixels(value: string | undefined): number | undefined {
+  if (!value || !/^\s*\d+(\.\d+)?\s*(px)?\s*$/i.test(value)) {
+    return undefined;
+  }
+  return Math.round(parseFloat(value));
+}
+
+function clean(value: string | undefined): string | undefined {
+  return value?.replace(/\s+/g, ' ').trim() || undefined;
+}
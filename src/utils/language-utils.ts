@@ -0,0 +1,280 @@
+import { LanguageDetection, LanguageDetectionOptions, LanguageSection } from '../types';
+import { LANGUAGE_PROFILES } from '../data/language-profiles';
+
+/** Languages of the scripts that only one supported language is written in */
+const SCRIPT_LANGUAGES: Record<string, string> = {
+  Greek: 'el', Hebrew: 'he', Armenian: 'hy', Georgian: 'ka', Thai: 'th', Lao: 'lo',
+  Khmer: 'km', Myanmar: 'my', Tibetan: 'bo', Ethiopic: 'am', Sinhala: 'si',
+  Gurmukhi: 'pa', Gujarati: 'gu', Oriya: 'or', Tamil: 'ta', Telugu: 'te',
+  Kannada: 'kn', Malayalam: 'ml', Hangul: 'ko', Han: 'zh', Japanese: 'ja',
+};
+
+const SCRIPTS = [
+  'Latin', 'Cyrillic', 'Arabic', 'Devanagari', 'Bengali', 'Han', 'Hiragana', 'Katakana',
+  ...Object.keys(SCRIPT_LANGUAGES).filter((script) => script !== 'Han' && script !== 'Japanese'),
+].map((name) => ({ name, pattern: new RegExp(`\\p{Script=${name}}`, 'u') }));
+
+/** Trigrams counted per text, at most; enough to tell close languages apart */
+const MAX_EVIDENCE = 40;
+/** Letters a paragraph needs to start a section of its own */
+const MIN_SECTION_LETTERS = 40;
+/** Paragraphs longer than this are detected in runs of sentences... */
+const MAX_SEGMENT = 1000;
+/** ...of at least this many characters */
+const MIN_SEGMENT = 200;
+
+const profileCache = new Map<string, Map<string, number>>();
+const scriptCache = new Map<string, string | null>();
+
+/**
+ * Detect the language of a text.
+ *
+ * The script is found first; scripts written in one supported language
+ * (e.g. Greek, Hangul, Thai) decide it outright, with kana telling
+ * Japanese from Chinese. Otherwise letter trigrams are scored against
+ * each candidate language's profile, and the confidence is that
+ * language's posterior probability, lowered by the share of letters in
+ * other scripts and, for texts under MAX_EVIDENCE trigrams, by how much
+ * of that evidence there is. Undefined when the text has no letters or no candidate
+ * uses its script.
+ */
+export function identifyLanguage(
+  text: string,
+  options: LanguageDetectionOptions = {}
+): LanguageDetection | undefined {
+  const sample = text.slice(0, options.maxLength ?? 2000);
+  const scripts = countScripts(sample);
+  if (!scripts) {
+    return undefined;
+  }
+
+  const { script, share } = scripts;
+  const only = options.only && new Set(options.only);
+  const single = SCRIPT_LANGUAGES[script];
+  if (single) {
+    return !only || only.has(single) ? { language: single, script, confidence: round(share) } : undefined;
+  }
+
+  const candidates = Object.keys(LANGUAGE_PROFILES[script] || {}).filter(
+    (language) => !only || only.has(language)
+  );
+  if (candidates.length <= 1) {
+    return candidates[0] ? { language: candidates[0], script, confidence: round(share) } : undefined;
+  }
+
+  const trigrams = textTrigrams(sample);
+  let total = 0;
+  trigrams.forEach((count) => (total += count));
+  if (total === 0) {
+    return undefined;
+  }
+
+  // Naive Bayes over trigram ranks (Zipf's law; trigrams missing from a
+  // profile rank well past its end), with the evidence capped so long
+  // texts do not become overconfident; short texts are scaled down instead
+  const weight = Math.min(1, MAX_EVIDENCE / total);
+  const evidence = Math.min(1, total / MAX_EVIDENCE);
+  const scores = candidates.map((language) => {
+    const profile = getProfile(script, language);
+    let score = 0;
+    trigrams.forEach((count, trigram) => {
+      const rank = profile.get(trigram);
+      score -= count * Math.log(rank === undefined ? profile.size * 8 : rank + 2);
+    });
+    return { language, score: score * weight };
+  });
+
+  scores.sort((a, b) => b.score - a.score);
+  const best = scores[0];
+  let sum = 0;
+  scores.forEach(({ score }) => (sum += Math.exp(score - best.score)));
+
+  return { language: best.language, script, confidence: round((share / sum) * evidence) };
+}
+
+/**
+ * Split a text into sections by language.
+ *
+ * Paragraphs (separated by blank lines; long ones in runs of sentences)
+ * are detected one by one and neighbours in the same language are
+ * merged. Short or uncertain paragraphs such as headings extend the
+ * section before them when they seem to be in its language and otherwise
+ * join the one that follows them, so the sections cover the whole text.
+ */
+export function detectLanguageSections(
+  text: string,
+  options: LanguageDetectionOptions = {}
+): LanguageSection[] {
+  const sections: LanguageSection[] = [];
+  let letters = 0;
+  let detectedEnd = 0;
+
+  for (const { start, end } of splitSegments(text)) {
+    const segment = text.slice(start, end);
+    const segmentLetters = countLetters(segment);
+    const detection = identifyLanguage(segment, { ...options, maxLength: options.maxLength ?? segment.length });
+    const last = sections[sections.length - 1];
+    const decisive = detection && detection.confidence >= 0.5 &&
+      (segmentLetters >= MIN_SECTION_LETTERS || SCRIPT_LANGUAGES[detection.script] !== undefined);
+
+    if (!decisive) {
+      if (last && detection?.language === last.language) {
+        detectedEnd = end;
+      }
+      continue;
+    }
+
+    if (last && last.language === detection.language) {
+      last.confidence = round(
+        (last.confidence * letters + detection.confidence * segmentLetters) / (letters + segmentLetters)
+      );
+      letters += segmentLetters;
+    } else {
+      if (last) {
+        last.end = detectedEnd;
+      }
+      sections.push({ ...detection, start: last ? detectedEnd : 0, end: text.length });
+      letters = segmentLetters;
+    }
+    detectedEnd = end;
+  }
+
+  return sections;
+}
+
+/**
+ * Letter trigrams of a text with their counts. Words are lowercased and
+ * padded with a space on each side, so trigrams capture word starts and
+ * ends; anything but letters and combining marks separates words.
+ */
+export function textTrigrams(text: string): Map<string, number> {
+  const trigrams = new Map<string, number>();
+  const words = text.toLowerCase().match(/[\p{L}\p{M}]+/gu) || [];
+
+  for (const word of words) {
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      const trigram = padded.slice(i, i + 3);
+      trigrams.set(trigram, (trigrams.get(trigram) || 0) + 1);
+    }
+  }
+
+  return trigrams;
+}
+
+/**
+ * Languages the detector supports, by script
+ */
+export function getSupportedLanguages(): Record<string, string[]> {
+  const languages: Record<string, string[]> = {};
+  for (const [script, profiles] of Object.entries(LANGUAGE_PROFILES)) {
+    languages[script] = Object.keys(profiles);
+  }
+  for (const [script, language] of Object.entries(SCRIPT_LANGUAGES)) {
+    languages[script] = [language];
+  }
+  return languages;
+}
+
+/**
+ * Dominant script of a text's letters and its share of them.
+ * Han with at least 10% kana counts as Japanese; Han alongside Hangul
+ * as Korean.
+ */
+function countScripts(text: string): { script: string; share: number } | undefined {
+  const counts = new Map<string, number>();
+  let letters = 0;
+
+  for (const char of text) {
+    const script = getScript(char);
+    if (script) {
+      counts.set(script, (counts.get(script) || 0) + 1);
+      letters++;
+    }
+  }
+  if (letters === 0) {
+    return undefined;
+  }
+
+  const kana = (counts.get('Hiragana') || 0) + (counts.get('Katakana') || 0);
+  const han = counts.get('Han') || 0;
+  if (kana > 0 && kana >= (kana + han) * 0.1) {
+    counts.set('Japanese', kana + han);
+    ['Han', 'Hiragana', 'Katakana'].forEach((script) => counts.delete(script));
+  } else if (han > 0 && counts.has('Hangul')) {
+    counts.set('Hangul', counts.get('Hangul')! + han);
+    counts.delete('Han');
+  }
+
+  const [script, count] = Array.from(counts).sort((a, b) => b[1] - a[1])[0];
+  return { script, share: count / letters };
+}
+
+/**
+ * Script of a letter, or null for anything else
+ */
+function getScript(char: string): string | null {
+  let script = scriptCache.get(char);
+  if (script === undefined) {
+    script = /\p{L}/u.test(char)
+      ? SCRIPTS.find(({ pattern }) => pattern.test(char))?.name || 'Other'
+      : null;
+    scriptCache.set(char, script);
+  }
+  return script === 'Other' ? null : script;
+}
+
+/**
+ * Trigram ranks of a language, parsed on first use
+ */
+function getProfile(script: string, language: string): Map<string, number> {
+  const key = `${script}:${language}`;
+  let profile = profileCache.get(key);
+  if (!profile) {
+    profile = new Map(LANGUAGE_PROFILES[script][language].split('|').map((trigram, rank) => [trigram, rank]));
+    profileCache.set(key, profile);
+  }
+  return profile;
+}
+
+/**
+ * Paragraphs of a text, with paragraphs longer than MAX_SEGMENT split
+ * into runs of sentences of about MIN_SEGMENT characters
+ */
+function splitSegments(text: string): Array<{ start: number; end: number }> {
+  const segments: Array<{ start: number; end: number }> = [];
+  const paragraphs = /[^\n]+(?:\n(?![ \t]*\n)[^\n]*)*/g;
+  let paragraph: RegExpExecArray | null;
+
+  while ((paragraph = paragraphs.exec(text)) !== null) {
+    const paragraphEnd = paragraph.index + paragraph[0].length;
+    if (paragraph[0].length <= MAX_SEGMENT) {
+      segments.push({ start: paragraph.index, end: paragraphEnd });
+      continue;
+    }
+
+    const sentences = /[^.!?。！？]*(?:[.!?。！？]+\s*|$)/g;
+    let start = paragraph.index;
+    let sentence: RegExpExecArray | null;
+    while ((sentence = sentences.exec(paragraph[0])) !== null && sentence[0]) {
+      const end = paragraph.index + sentence.index + sentence[0].length;
+      if (end - start >= MIN_SEGMENT) {
+        segments.push({ start, end });
+        start = end;
+      }
+    }
+    if (start < paragraphEnd) {
+      segments.push({ start, end: paragraphEnd });
+    }
+  }
+
+  return segments;
+}
+
+function countLetters(text: string): number {
+  return (text.match(/\p{L}/gu) || []).length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,371 @@
+import { HtmlElement, HtmlNode, MarkdownOptions } from '../types';
+import { parseHtml } from './html-utils';
+import { buildAbsoluteUrl } from './url-utils';
+
+const SKIPPED_ELEMENTS = new Set([
+  'head', 'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object',
+  'embed', 'select', 'button', 'textarea', 'title', 'meta', 'link', 'map', 'audio', 'video',
+]);
+
+const BLOCK_ELEMENTS = new Set([
+  '#document', 'html', 'body', 'address', 'article', 'aside', 'details', 'dialog', 'div',
+  'dl', 'fieldset', 'figcaption', 'figure', 'footer', 'form', 'header', 'hgroup', 'main',
+  'nav', 'section', 'summary', 'caption', 'center',
+]);
+
+/** Marks a hard line break until trailing whitespace has been cleaned up */
+const HARD_BREAK = '\u0001';
+
+interface RenderContext {
+  plain: boolean;
+  baseUrl?: string;
+  includeImages: boolean;
+  /** Code block contents, kept out of whitespace cleanup */
+  codeBlocks: string[];
+}
+
+/**
+ * Convert HTML to GitHub-flavored Markdown.
+ *
+ * Keeps headings, emphasis, links and images (made absolute when a
+ * baseUrl is given), nested and task lists, blockquotes, tables and
+ * fenced code blocks with the language from 'language-*' or 'lang-*'
+ * classes. Scripts, styles and form controls are dropped.
+ */
+export function htmlToMarkdown(source: string | HtmlElement, options: MarkdownOptions = {}): string {
+  return render(source, {
+    plain: false,
+    baseUrl: options.baseUrl,
+    includeImages: options.includeImages ?? true,
+    codeBlocks: [],
+  });
+}
+
+/**
+ * Convert HTML to plain text, keeping paragraphs, list items, table
+ * rows and code blocks on lines of their own
+ */
+export function htmlToText(source: string | HtmlElement): string {
+  return render(source, { plain: true, includeImages: false, codeBlocks: [] });
+}
+
+/**
+ * Render a tree and clean up the whitespace between blocks
+ */
+function render(source: string | HtmlElement, context: RenderContext): string {
+  const root = typeof source === 'string' ? parseHtml(source) : source;
+  const output = renderNode(root, context)
+    .replace(/[ \t]+$/gm, '')
+    .replace(/(\S)[ \t]{2,}/g, '$1 ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  // Code blocks keep their own whitespace and follow the indentation
+  // (list items) or quoting (blockquotes) of the line they are on
+  return output
+    .replace(/^(.*?)\u0000(\d+)\u0000/gm, (_, prefix: string, index: string) => {
+      const continuation = prefix.replace(/[^>\s]/g, ' ');
+      return prefix + context.codeBlocks[Number(index)].split('\n').join(`\n${continuation}`).replace(/[ \t]+$/gm, '');
+    })
+    .split(HARD_BREAK)
+    .join('  ');
+}
+
+function renderNode(node: HtmlNode, context: RenderContext): string {
+  if (node.type === 'text') {
+    const text = node.text.replace(/\s+/g, ' ');
+    return context.plain ? text : escapeMarkdown(text);
+  }
+
+  const tag = node.tag;
+  if (SKIPPED_ELEMENTS.has(tag) || node.attributes.hidden !== undefined) {
+    return '';
+  }
+
+  switch (tag) {
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+      const text = renderInline(node, context);
+      return block(context.plain ? text : text && `${'#'.repeat(Number(tag[1]))} ${text}`);
+    }
+    case 'p': {
+      const text = renderChildren(node, context).trim();
+      return block(context.plain ? text : text.replace(/^(#{1,6}\s|[-+*]\s|\d+[.)]\s|>)/, '\\$1'));
+    }
+    case 'br':
+      return context.plain ? '\n' : `${HARD_BREAK}\n`;
+    case 'hr':
+      return context.plain ? '\n\n' : block('---');
+    case 'strong': case 'b':
+      return context.plain ? renderChildren(node, context) : wrap(renderChildren(node, context), '**');
+    case 'em': case 'i':
+      return context.plain ? renderChildren(node, context) : wrap(renderChildren(node, context), '_');
+    case 'del': case 's': case 'strike':
+      return context.plain ? renderChildren(node, context) : wrap(renderChildren(node, context), '~~');
+    case 'code':
+      return renderInlineCode(node, context);
+    case 'pre':
+      return renderCodeBlock(node, context);
+    case 'a':
+      return renderLink(node, context);
+    case 'img':
+      return renderImage(node, context);
+    case 'ul': case 'ol':
+      return renderList(node, context);
+    case 'blockquote':
+      return renderBlockquote(node, context);
+    case 'table':
+      return renderTable(node, context);
+    case 'dt':
+      return block(context.plain ? renderInline(node, context) : wrap(renderInline(node, context), '**'));
+    case 'dd':
+      return block(renderChildren(node, context));
+    case 'input':
+      return node.attributes.type === 'checkbox' && !context.plain
+        ? (node.attributes.checked !== undefined ? '[x] ' : '[ ] ')
+        : '';
+    default:
+      return BLOCK_ELEMENTS.has(tag) ? block(renderChildren(node, context)) : renderChildren(node, context);
+  }
+}
+
+function renderChildren(element: HtmlElement, context: RenderContext): string {
+  return element.children.map((child) => renderNode(child, context)).join('');
+}
+
+/**
+ * Children rendered on one line
+ */
+function renderInline(element: HtmlElement, context: RenderContext): string {
+  return renderChildren(element, context).replace(/\s*\n\s*/g, ' ').split(HARD_BREAK).join('').trim();
+}
+
+function renderInlineCode(element: HtmlElement, context: RenderContext): string {
+  const code = rawText(element).replace(/\s*\n\s*/g, ' ');
+  if (context.plain || !code) {
+    return code;
+  }
+  const fence = '`'.repeat(longestRun(code, '`') + 1);
+  const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${code}${padding}${fence}`;
+}
+
+function renderCodeBlock(element: HtmlElement, context: RenderContext): string {
+  const code = rawText(element).replace(/^\n/, '').trimEnd();
+  if (!code) {
+    return '';
+  }
+
+  if (context.plain) {
+    context.codeBlocks.push(code);
+  } else {
+    const child = element.children.find((node): node is HtmlElement => node.type === 'element' && node.tag === 'code');
+    const language = codeLanguage(child) || codeLanguage(element) || '';
+    const fence = '`'.repeat(Math.max(3, longestRun(code, '`') + 1));
+    context.codeBlocks.push(`${fence}${language}\n${code}\n${fence}`);
+  }
+  return block(`\u0000${context.codeBlocks.length - 1}\u0000`);
+}
+
+function renderLink(element: HtmlElement, context: RenderContext): string {
+  const text = renderInline(element, context);
+  const href = element.attributes.href?.trim();
+  if (context.plain || !text || !href || /^(javascript|vbscript|data):/i.test(href)) {
+    return text;
+  }
+
+  const title = element.attributes.title?.trim();
+  const titlePart = title ? ` "${title.replace(/"/g, '\\"')}"` : '';
+  return `[${text}](${escapeUrl(resolveUrl(href, context))}${titlePart})`;
+}
+
+function renderImage(element: HtmlElement, context: RenderContext): string {
+  const src = (element.attributes.src || element.attributes['data-src'] || '').trim();
+  if (!context.includeImages || !src || src.startsWith('data:')) {
+    return '';
+  }
+
+  const alt = (element.attributes.alt || '').replace(/\s+/g, ' ').trim();
+  return `![${escapeMarkdown(alt)}](${escapeUrl(resolveUrl(src, context))})`;
+}
+
+/**
+ * Items with '-' or numbered markers; nested content is indented under
+ * the marker
+ */
+function renderList(element: HtmlElement, context: RenderContext): string {
+  const ordered = element.tag === 'ol';
+  let number = ordered ? parseInt(element.attributes.start, 10) || 1 : 0;
+  const items: string[] = [];
+
+  for (const child of element.children) {
+    if (child.type !== 'element' || child.tag !== 'li') {
+      continue;
+    }
+
+    const marker = ordered ? `${number++}.` : '-';
+    const content = renderChildren(child, context).trim().replace(/\n{2,}/g, '\n');
+    const indent = ' '.repeat(marker.length + 1);
+    items.push(`${marker} ${content.split('\n').join(`\n${indent}`)}`);
+  }
+
+  return block(items.join('\n'));
+}
+
+function renderBlockquote(element: HtmlElement, context: RenderContext): string {
+  const content = renderChildren(element, context).trim().replace(/\n{3,}/g, '\n\n');
+  if (context.plain) {
+    return block(content);
+  }
+  return block(content.split('\n').map((line) => (line ? `> ${line}` : '>')).join('\n'));
+}
+
+/**
+ * GFM table with the first row as header. Cells spanning columns are
+ * padded; single-column (layout) tables become paragraphs.
+ */
+function renderTable(element: HtmlElement, context: RenderContext): string {
+  const rows: string[][] = [];
+  const alignments: string[] = [];
+
+  for (const row of tableRows(element)) {
+    const cells: string[] = [];
+    for (const cell of row.children) {
+      if (cell.type !== 'element' || (cell.tag !== 'td' && cell.tag !== 'th')) {
+        continue;
+      }
+      const text = renderInline(cell, context);
+      if (rows.length === 0) {
+        alignments.push(cellAlignment(cell));
+      }
+      cells.push(context.plain ? text : text.replace(/\|/g, '\\|'));
+      for (let span = parseInt(cell.attributes.colspan, 10) || 1; span > 1; span--) {
+        cells.push('');
+        if (rows.length === 0) {
+          alignments.push('');
+        }
+      }
+    }
+    if (cells.length > 0) {
+      rows.push(cells);
+    }
+  }
+
+  const caption = element.children.find((node): node is HtmlElement => node.type === 'element' && node.tag === 'caption');
+  const captionText = caption ? block(renderInline(caption, context)) : '';
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  if (width <= 1) {
+    return captionText + rows.map((row) => block(row[0])).join('');
+  }
+
+  const lines = rows.map((row) => {
+    if (context.plain) {
+      return row.filter(Boolean).join(' | ');
+    }
+    return `| ${[...row, ...new Array<string>(width - row.length).fill('')].join(' | ')} |`;
+  });
+  if (!context.plain) {
+    const divider = Array.from({ length: width }, (_, i) => alignments[i] || '---');
+    lines.splice(1, 0, `| ${divider.join(' | ')} |`);
+  }
+  return captionText + block(lines.join('\n'));
+}
+
+/**
+ * Rows of a table, excluding those of nested tables
+ */
+function tableRows(table: HtmlElement): HtmlElement[] {
+  const rows: HtmlElement[] = [];
+  for (const child of table.children) {
+    if (child.type !== 'element') {
+      continue;
+    }
+    if (child.tag === 'tr') {
+      rows.push(child);
+    } else if (child.tag === 'thead' || child.tag === 'tbody' || child.tag === 'tfoot') {
+      rows.push(...child.children.filter((node): node is HtmlElement => node.type === 'element' && node.tag === 'tr'));
+    }
+  }
+  return rows;
+}
+
+function cellAlignment(cell: HtmlElement): string {
+  const align = (cell.attributes.align || cell.attributes.style?.match(/text-align\s*:\s*(\w+)/i)?.[1] || '').toLowerCase();
+  return align === 'center' ? ':---:' : align === 'right' ? '---:' : align === 'left' ? ':---' : '';
+}
+
+/**
+ * Language hint from a 'language-*', 'lang-*' or 'highlight-source-*'
+ * class or a data-lang attribute
+ */
+function codeLanguage(element: HtmlElement | undefined): string | undefined {
+  if (!element) {
+    return undefined;
+  }
+  const fromClass = (element.attributes.class || '').match(/(?:^|\s)(?:language|lang|highlight-source|highlight)-([\w+#.-]+)/i);
+  return (fromClass?.[1] || element.attributes['data-lang'] || element.attributes['data-language'])?.toLowerCase();
+}
+
+/**
+ * Text with whitespace preserved and <br> as newlines
+ */
+function rawText(node: HtmlNode): string {
+  if (node.type === 'text') {
+    return node.text;
+  }
+  if (node.tag === 'br') {
+    return '\n';
+  }
+  return node.children.map(rawText).join('');
+}
+
+/**
+ * Move the surrounding whitespace of emphasized text outside the markers
+ */
+function wrap(content: string, marker: string): string {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : content;
+}
+
+function block(content: string): string {
+  const trimmed = content.trim();
+  return trimmed ? `\n\n${trimmed}\n\n` : '';
+}
+
+/**
+ * Escape characters Markdown would read as syntax. Underscores inside
+ * words are left alone, as GFM does not treat them as emphasis.
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]]/g, (char, offset: number) =>
+    char === '_' && isWordChar(text[offset - 1]) && isWordChar(text[offset + 1]) ? char : `\\${char}`
+  );
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}]/u.test(char);
+}
+
+function escapeUrl(url: string): string {
+  return url.replace(/\(/g, '%28').replace(/\)/g, '%29').replace(/\s/g, '%20');
+}
+
+function resolveUrl(href: string, context: RenderContext): string {
+  if (!context.baseUrl) {
+    return href;
+  }
+  try {
+    return buildAbsoluteUrl(context.baseUrl, href);
+  } catch {
+    return href;
+  }
+}
+
+function longestRun(text: string, char: string): number {
+  let longest = 0;
+  let current = 0;
+  for (const c of text) {
+    current = c === char ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
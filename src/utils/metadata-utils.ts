@@ -0,0 +1,378 @@
+import { BackendPageMetadata, HtmlElement, JsonLdEntity } from '../types';
+import { getTextContent, parseHtml, querySelector, querySelectorAll } from './html-utils';
+import { buildAbsoluteUrl } from './url-utils';
+
+/** Meta names and properties declaring the publication date, in order of preference */
+const PUBLISHED_KEYS = [
+  'article:published_time', 'og:published_time', 'datepublished', 'dcterms.created',
+  'dcterms.issued', 'dc.date.issued', 'dc.date', 'date', 'pubdate', 'publish-date',
+  'publish_date', 'parsely-pub-date', 'sailthru.date',
+];
+
+/** Meta names and properties declaring the modification date, in order of preference */
+const MODIFIED_KEYS = [
+  'article:modified_time', 'og:updated_time', 'datemodified', 'dcterms.modified',
+  'dc.date.modified', 'last-modified',
+];
+
+const AUTHOR_KEYS = ['author', 'article:author', 'dc.creator', 'dcterms.creator', 'parsely-author', 'sailthru.author'];
+const IMAGE_KEYS = ['og:image', 'og:image:url', 'og:image:secure_url', 'twitter:image', 'twitter:image:src'];
+const KEYWORD_KEYS = ['keywords', 'news_keywords', 'article:tag'];
+
+/**
+ * Metadata declared in a page's HTML: title, description, language and
+ * canonical URL, OpenGraph and Twitter card tags, JSON-LD entities,
+ * authors, dates, site name, image and keywords.
+ *
+ * Meta tags win over JSON-LD; URLs are made absolute against pageUrl and
+ * dates are normalized to ISO 8601.
+ */
+export function extractHtmlMetadata(source: string | HtmlElement, pageUrl: string): BackendPageMetadata {
+  const root = typeof source === 'string' ? parseHtml(source) : source;
+  const meta = collectMetaTags(root);
+  const jsonLd = extractJsonLd(root);
+  const first = (keys: string[]) => keys.map((key) => meta.get(key)?.[0]).find(Boolean);
+
+  const metadata: BackendPageMetadata = {
+    title: textOf(querySelector(root, 'title')) || first(['og:title', 'twitter:title']),
+    description: first(['description', 'og:description', 'twitter:description']),
+    language: querySelector(root, 'html')?.attributes.lang?.trim() ||
+      first(['content-language']) ||
+      first(['og:locale'])?.replace('_', '-'),
+    canonicalUrl: findCanonicalUrl(root, meta, pageUrl),
+    authors: findAuthors(meta, jsonLd),
+    publishedAt: findDate(meta, PUBLISHED_KEYS, jsonLd, 'datePublished'),
+    modifiedAt: findDate(meta, MODIFIED_KEYS, jsonLd, 'dateModified'),
+    siteName: first(['og:site_name', 'application-name']) || findJsonLdSiteName(jsonLd),
+    image: toHttpUrl(first(IMAGE_KEYS) || jsonLdUrl(findJsonLdValue(jsonLd, 'image')), pageUrl),
+    keywords: findKeywords(meta, jsonLd),
+    openGraph: prefixedProperties(meta, 'og:'),
+    twitter: prefixedProperties(meta, 'twitter:'),
+    jsonLd: jsonLd.length > 0 ? jsonLd : undefined,
+  };
+
+  for (const key of Object.keys(metadata) as (keyof BackendPageMetadata)[]) {
+    if (metadata[key] === undefined || metadata[key] === '') {
+      delete metadata[key];
+    }
+  }
+  return metadata;
+}
+
+/**
+ * JSON-LD entities from a page's <script type="application/ld+json">
+ * blocks. Top-level arrays and @graph lists are flattened; blocks that
+ * are not valid JSON are skipped.
+ */
+export function extractJsonLd(source: string | HtmlElement): JsonLdEntity[] {
+  const root = typeof source === 'string' ? parseHtml(source) : source;
+  const entities: JsonLdEntity[] = [];
+
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === 'object') {
+      const entity = value as JsonLdEntity;
+      if (Array.isArray(entity['@graph'])) {
+        collect(entity['@graph']);
+      } else if (entity['@type']) {
+        entities.push(entity);
+      }
+    }
+  };
+
+  for (const script of querySelectorAll(root, 'script')) {
+    if ((script.attributes.type || '').toLowerCase().trim() !== 'application/ld+json') {
+      continue;
+    }
+
+    const text = script.children
+      .map((child) => (child.type === 'text' ? child.text : ''))
+      .join('')
+      .trim()
+      .replace(/^(?:\/\/\s*)?<!\[CDATA\[|(?:\/\/\s*)?\]\]>$/g, '');
+    try {
+      collect(JSON.parse(text));
+    } catch {
+      // Invalid JSON-LD is common enough to ignore
+    }
+  }
+
+  return entities;
+}
+
+/**
+ * JSON-LD entities of a schema.org type, e.g. 'Article' or 'Product'.
+ * Full type IRIs such as 'https://schema.org/Article' also match.
+ */
+export function findJsonLdEntities(entities: JsonLdEntity[], type: string): JsonLdEntity[] {
+  return entities.filter((entity) => hasJsonLdType(entity, type));
+}
+
+/**
+ * Normalize a date to an ISO 8601 timestamp.
+ *
+ * Accepts ISO dates, RFC 2822 and other formats Date understands, and
+ * Unix timestamps in seconds or milliseconds. Times without a zone are
+ * taken as UTC. Undefined for values without a recognizable date.
+ */
+export function normalizeDate(value: unknown): string | undefined {
+  if (typeof value === 'number') {
+    return fromTimestamp(value);
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const text = value.trim();
+  if (/^\d{10}(\d{3})?$/.test(text)) {
+    return fromTimestamp(Number(text));
+  }
+  if (!/\d{4}/.test(text)) {
+    return undefined;
+  }
+
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compact) {
+    return fromParts(`${compact[1]}-${compact[2]}-${compact[3]}`);
+  }
+
+  const isoWithoutZone = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(text);
+  if (isoWithoutZone) {
+    return fromParts(`${text.replace(' ', 'T')}Z`);
+  }
+  if (/^\d{4}-\d{2}(-\d{2})?$/.test(text) || hasTimeZone(text)) {
+    return fromParts(text);
+  }
+
+  // Other formats are parsed as local time; keep the wall clock time in UTC
+  const local = new Date(text);
+  if (isNaN(local.getTime())) {
+    return undefined;
+  }
+  return new Date(Date.UTC(
+    local.getFullYear(),
+    local.getMonth(),
+    local.getDate(),
+    local.getHours(),
+    local.getMinutes(),
+    local.getSeconds(),
+    local.getMilliseconds()
+  )).toISOString();
+}
+
+/**
+ * Meta tag values keyed by lowercase name, property, http-equiv or
+ * itemprop, in document order. Microdata elements contribute their
+ * content or datetime attribute, or their text.
+ */
+function collectMetaTags(root: HtmlElement): Map<string, string[]> {
+  const tags = new Map<string, string[]>();
+  const add = (key: string | undefined, value: string | undefined) => {
+    const text = value?.replace(/\s+/g, ' ').trim();
+    if (!key || !text) {
+      return;
+    }
+    const values = tags.get(key.toLowerCase());
+    if (values) {
+      values.push(text);
+    } else {
+      tags.set(key.toLowerCase(), [text]);
+    }
+  };
+
+  for (const element of querySelectorAll(root, 'meta, [itemprop]')) {
+    const { name, property, itemprop, content, datetime } = element.attributes;
+    if (element.tag === 'meta') {
+      add(name || property || element.attributes['http-equiv'] || itemprop, content);
+    } else {
+      add(itemprop, content ?? datetime ?? textOf(element));
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Absolute canonical URL from <link rel="canonical">, else og:url
+ */
+function findCanonicalUrl(
+  root: HtmlElement,
+  meta: Map<string, string[]>,
+  pageUrl: string
+): string | undefined {
+  const link = querySelectorAll(root, 'link[rel][href]').find((element) =>
+    element.attributes.rel.toLowerCase().split(/\s+/).includes('canonical')
+  );
+  return toHttpUrl(link?.attributes.href || meta.get('og:url')?.[0], pageUrl);
+}
+
+/**
+ * Author names from meta tags and JSON-LD, skipping profile URLs
+ */
+function findAuthors(meta: Map<string, string[]>, jsonLd: JsonLdEntity[]): string[] | undefined {
+  const names = AUTHOR_KEYS.flatMap((key) => meta.get(key) || []);
+  for (const entity of jsonLd) {
+    names.push(...jsonLdNames(entity.author), ...jsonLdNames(entity.creator));
+  }
+
+  return unique(
+    names
+      .map((name) => name.replace(/^by\s+/i, '').trim())
+      .filter((name) => !/^https?:\/\//i.test(name))
+  );
+}
+
+/**
+ * First date from the given meta keys, else from a JSON-LD property
+ */
+function findDate(
+  meta: Map<string, string[]>,
+  keys: string[],
+  jsonLd: JsonLdEntity[],
+  property: string
+): string | undefined {
+  for (const key of keys) {
+    for (const value of meta.get(key) || []) {
+      const date = normalizeDate(value);
+      if (date) {
+        return date;
+      }
+    }
+  }
+  return normalizeDate(findJsonLdValue(jsonLd, property));
+}
+
+/**
+ * Keywords from meta keywords (comma-separated), article:tag and JSON-LD
+ */
+function findKeywords(meta: Map<string, string[]>, jsonLd: JsonLdEntity[]): string[] | undefined {
+  const keywords = KEYWORD_KEYS.flatMap((key) => meta.get(key) || []);
+  const fromJsonLd = findJsonLdValue(jsonLd, 'keywords');
+  if (typeof fromJsonLd === 'string') {
+    keywords.push(fromJsonLd);
+  } else if (Array.isArray(fromJsonLd)) {
+    keywords.push(...fromJsonLd.filter((item): item is string => typeof item === 'string'));
+  }
+
+  return unique(keywords.flatMap((value) => value.split(',')));
+}
+
+/**
+ * Site name from a JSON-LD WebSite entity or a publisher
+ */
+function findJsonLdSiteName(jsonLd: JsonLdEntity[]): string | undefined {
+  const website = findJsonLdEntities(jsonLd, 'WebSite')[0];
+  return jsonLdNames(website?.name)[0] || jsonLdNames(findJsonLdValue(jsonLd, 'publisher'))[0];
+}
+
+/**
+ * First value of a property across JSON-LD entities
+ */
+function findJsonLdValue(jsonLd: JsonLdEntity[], property: string): unknown {
+  return jsonLd.find((entity) => entity[property] !== undefined)?.[property];
+}
+
+/**
+ * Names from a JSON-LD value: a string, an object with a name, or a list of either
+ */
+function jsonLdNames(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(jsonLdNames);
+  }
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (value && typeof value === 'object' && typeof (value as JsonLdEntity).name === 'string') {
+    return [(value as JsonLdEntity).name as string];
+  }
+  return [];
+}
+
+/**
+ * URL from a JSON-LD value: a string, an ImageObject with a url, or the first of a list
+ */
+function jsonLdUrl(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    return jsonLdUrl(value[0]);
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value && typeof value === 'object') {
+    const url = (value as JsonLdEntity).url ?? (value as JsonLdEntity).contentUrl;
+    return typeof url === 'string' ? url : undefined;
+  }
+  return undefined;
+}
+
+function hasJsonLdType(entity: JsonLdEntity, type: string): boolean {
+  const types = Array.isArray(entity['@type']) ? entity['@type'] : [entity['@type']];
+  return types.some(
+    (value) => typeof value === 'string' && value.replace(/^.*[/:#]/, '') === type
+  );
+}
+
+/**
+ * First value of each meta property with a prefix, keyed without it
+ */
+function prefixedProperties(
+  meta: Map<string, string[]>,
+  prefix: string
+): Record<string, string> | undefined {
+  const properties: Record<string, string> = {};
+  for (const [key, values] of meta) {
+    if (key.startsWith(prefix) && key.length > prefix.length) {
+      properties[key.slice(prefix.length)] = values[0];
+    }
+  }
+  return Object.keys(properties).length > 0 ? properties : undefined;
+}
+
+/**
+ * Absolute http(s) URL, or undefined
+ */
+function toHttpUrl(href: string | undefined, pageUrl: string): string | undefined {
+  if (!href) {
+    return undefined;
+  }
+  try {
+    const absolute = buildAbsoluteUrl(pageUrl, href.trim());
+    return /^https?:/.test(absolute) ? absolute : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function textOf(element: HtmlElement | undefined): string | undefined {
+  return element ? getTextContent(element) || undefined : undefined;
+}
+
+/**
+ * Trimmed, non-empty values without case-insensitive repeats, or undefined if none
+ */
+function unique(values: string[]): string[] | undefined {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const value of values.map((item) => item.trim())) {
+    if (value && !seen.has(value.toLowerCase())) {
+      seen.add(value.toLowerCase());
+      result.push(value);
+    }
+  }
+  return result.length > 0 ? result : undefined;
+}
+
+function hasTimeZone(text: string): boolean {
+  return /(\d:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})|\b(GMT|UTC|[ECMP][SD]T))$/i.test(text);
+}
+
+function fromTimestamp(value: number): string | undefined {
+  const date = new Date(value < 1e11 ? value * 1000 : value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function fromParts(text: string): string | undefined {
+  const time = Date.parse(text);
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
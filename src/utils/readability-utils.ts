@@ -0,0 +1,247 @@
+import { HtmlElement, HtmlNode, MainContentOptions } from '../types';
+import { querySelectorAll } from './html-utils';
+
+/** Elements that are never content */
+const BOILERPLATE_ELEMENTS = new Set([
+  'script', 'style', 'noscript', 'template', 'nav', 'footer', 'aside', 'iframe', 'svg',
+  'button', 'select', 'textarea', 'dialog', 'menu',
+]);
+
+const BOILERPLATE_ROLES = new Set([
+  'navigation', 'banner', 'contentinfo', 'complementary', 'search', 'dialog', 'alertdialog', 'menu', 'menubar',
+]);
+
+/** Class and id words of boilerplate containers */
+const NEGATIVE_PATTERN = /(^|[\s_-])(nav|navbar|navigation|menu|footer|sidebar|breadcrumbs?|share|sharing|social|related|recommended|newsletter|subscribe|signup|popup|modal|overlay|promo|advert|ads?|sponsored|comments?|skip|toolbar|pagination|pager|widget|masthead)([\s_-]|$)/i;
+
+/** Class and id words of content containers */
+const POSITIVE_PATTERN = /(^|[\s_-])(article|content|main|post|entry|story|body|text|blog|prose|markdown|documentation|docs)([\s_-]|$)/i;
+
+/** Boilerplate whatever else its class says */
+const ALWAYS_NEGATIVE_PATTERN = /cookie|consent|gdpr/i;
+
+/** Elements whose text is scored as a paragraph */
+const PARAGRAPH_ELEMENTS = new Set(['p', 'pre', 'td', 'blockquote', 'li', 'dd']);
+
+/** Score elements start with, by tag */
+const TAG_SCORES: Record<string, number> = {
+  article: 10, main: 10, section: 5, div: 5, pre: 3, td: 3, blockquote: 3,
+  address: -3, ol: -3, ul: -3, dl: -3, dd: -3, dt: -3, li: -3, form: -3,
+  h1: -5, h2: -5, h3: -5, h4: -5, h5: -5, h6: -5, th: -5,
+};
+
+/**
+ * Copy of a tree without boilerplate: scripts, styles, navigation,
+ * footers, asides, hidden elements, elements with navigation or banner
+ * roles, and containers whose class or id marks them as menus, sidebars,
+ * cookie banners, share buttons, ads or comments. Headers are kept inside
+ * articles, where they hold the title.
+ */
+export function removeBoilerplate(root: HtmlElement, options: MainContentOptions = {}): HtmlElement {
+  const excluded = new Set<HtmlElement>();
+  for (const selector of options.excludeSelectors || []) {
+    querySelectorAll(root, selector).forEach((element) => excluded.add(element));
+  }
+
+  const copy = (element: HtmlElement, parent: HtmlElement | undefined, inArticle: boolean): HtmlElement => {
+    const clone: HtmlElement = { type: 'element', tag: element.tag, attributes: element.attributes, children: [], parent };
+    const childInArticle = inArticle || element.tag === 'article' || element.tag === 'main';
+
+    for (const child of element.children) {
+      if (child.type === 'text') {
+        clone.children.push({ type: 'text', text: child.text, parent: clone });
+      } else if (!excluded.has(child) && !isBoilerplate(child, childInArticle)) {
+        clone.children.push(copy(child, clone, childInArticle));
+      }
+    }
+    return clone;
+  };
+
+  return copy(root, undefined, false);
+}
+
+/**
+ * Main content of a page, readability-style.
+ *
+ * Boilerplate is removed first (see removeBoilerplate). A single
+ * <article>, <main> or role="main" element with enough text is taken as
+ * is. Otherwise paragraphs score their parent and grandparent by length
+ * and commas, scores are discounted by link density, and the best
+ * container is returned together with siblings that score well too.
+ * Falls back to the whole body. The input tree is not changed.
+ */
+export function findMainContent(root: HtmlElement, options: MainContentOptions = {}): HtmlElement {
+  const tree = removeBoilerplate(root, options);
+  const body = querySelectorAll(tree, 'body')[0] || tree;
+  const stats = new TextStats();
+
+  const articles = querySelectorAll(body, 'article');
+  const semantic = [
+    articles.length === 1 ? articles[0] : undefined,
+    querySelectorAll(body, 'main')[0],
+    querySelectorAll(body, '[role=main]')[0],
+  ].find((element) => element && stats.textLength(element) >= 200);
+  if (semantic) {
+    return semantic;
+  }
+
+  const scores = new Map<HtmlElement, number>();
+  const addScore = (element: HtmlElement | undefined, score: number) => {
+    if (!element || element === tree) {
+      return;
+    }
+    if (!scores.has(element)) {
+      scores.set(element, (TAG_SCORES[element.tag] || 0) + classWeight(element));
+    }
+    scores.set(element, scores.get(element)! + score);
+  };
+
+  for (const paragraph of querySelectorAll(body, Array.from(PARAGRAPH_ELEMENTS).join(', '))) {
+    const length = stats.textLength(paragraph);
+    if (length < 25) {
+      continue;
+    }
+    const text = stats.text(paragraph);
+    const score = 1 + (text.match(/[,，、]/g) || []).length + Math.min(Math.floor(length / 100), 3);
+    addScore(paragraph.parent, score);
+    addScore(paragraph.parent?.parent, score / 2);
+    addScore(paragraph.parent?.parent?.parent, score / 3);
+  }
+
+  let best: HtmlElement | undefined;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const final = score * (1 - stats.linkDensity(element));
+    scores.set(element, final);
+    if (final > bestScore) {
+      best = element;
+      bestScore = final;
+    }
+  }
+
+  if (!best || stats.textLength(best) < 100) {
+    return body;
+  }
+  return withSiblings(best, bestScore, scores, stats);
+}
+
+/**
+ * The best candidate plus siblings that score at least a fifth as well,
+ * or are link-poor paragraphs, wrapped in a div in document order
+ */
+function withSiblings(
+  best: HtmlElement,
+  bestScore: number,
+  scores: Map<HtmlElement, number>,
+  stats: TextStats
+): HtmlElement {
+  const parent = best.parent;
+  if (!parent) {
+    return best;
+  }
+
+  const threshold = Math.max(10, bestScore * 0.2);
+  const kept = parent.children.filter((sibling): sibling is HtmlElement => {
+    if (sibling === best) {
+      return true;
+    }
+    if (sibling.type !== 'element') {
+      return false;
+    }
+    if ((scores.get(sibling) || 0) >= threshold) {
+      return true;
+    }
+    return sibling.tag === 'p' && stats.textLength(sibling) > 80 && stats.linkDensity(sibling) < 0.25;
+  });
+
+  if (kept.length === 1) {
+    return best;
+  }
+  return { type: 'element', tag: 'div', attributes: {}, children: kept, parent };
+}
+
+function isBoilerplate(element: HtmlElement, inArticle: boolean): boolean {
+  const { attributes, tag } = element;
+  if (BOILERPLATE_ELEMENTS.has(tag) || (tag === 'header' && !inArticle)) {
+    return true;
+  }
+  if (attributes.hidden !== undefined || attributes['aria-hidden'] === 'true' ||
+      /display\s*:\s*none|visibility\s*:\s*hidden/i.test(attributes.style || '')) {
+    return true;
+  }
+
+  const role = (attributes.role || '').toLowerCase();
+  if (BOILERPLATE_ROLES.has(role) && !(role === 'banner' && inArticle)) {
+    return true;
+  }
+
+  if (tag === 'body' || tag === 'html' || tag === 'main' || tag === 'article') {
+    return false;
+  }
+  const names = `${attributes.class || ''} ${attributes.id || ''}`;
+  return ALWAYS_NEGATIVE_PATTERN.test(names) || (NEGATIVE_PATTERN.test(names) && !POSITIVE_PATTERN.test(names));
+}
+
+function classWeight(element: HtmlElement): number {
+  const names = `${element.attributes.class || ''} ${element.attributes.id || ''}`;
+  return (POSITIVE_PATTERN.test(names) ? 25 : 0) - (NEGATIVE_PATTERN.test(names) ? 25 : 0);
+}
+
+/**
+ * Text and link text lengths of elements, computed once per element
+ */
+class TextStats {
+  private lengths = new Map<HtmlNode, { text: number; links: number }>();
+
+  textLength(element: HtmlElement): number {
+    return this.measure(element).text;
+  }
+
+  /**
+   * Share of an element's text inside links, 0-1
+   */
+  linkDensity(element: HtmlElement): number {
+    const { text, links } = this.measure(element);
+    return text > 0 ? links / text : 0;
+  }
+
+  text(element: HtmlElement): string {
+    const parts: string[] = [];
+    const collect = (node: HtmlNode) => {
+      if (node.type === 'text') {
+        parts.push(node.text);
+      } else {
+        node.children.forEach(collect);
+      }
+    };
+    collect(element);
+    return parts.join(' ');
+  }
+
+  private measure(node: HtmlNode, inLink = false): { text: number; links: number } {
+    const cached = this.lengths.get(node);
+    if (cached && !inLink) {
+      return cached;
+    }
+
+    let text = 0;
+    let links = 0;
+    if (node.type === 'text') {
+      text = node.text.replace(/\s+/g, ' ').trim().length;
+      links = inLink ? text : 0;
+    } else {
+      const childInLink = inLink || node.tag === 'a';
+      for (const child of node.children) {
+        const measured = this.measure(child, childInLink);
+        text += measured.text;
+        links += measured.links;
+      }
+    }
+
+    const result = { text, links };
+    if (!inLink) {
+      this.lengths.set(node, result);
+    }
+    return result;
+  }
+}
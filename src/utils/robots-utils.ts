@@ -0,0 +1,148 @@
+import { RobotsGroup, RobotsRule, RobotsTxt } from '../types';
+
+/**
+ * Parse robots.txt content
+ */
+export function parseRobotsTxt(content: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | undefined;
+  let collectingAgents = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (key) {
+      case 'user-agent':
+        // Consecutive user-agent lines share one group
+        if (!current || !collectingAgents) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        collectingAgents = true;
+        break;
+      case 'allow':
+      case 'disallow':
+        collectingAgents = false;
+        // Empty Disallow means allow everything
+        if (current && value) {
+          current.rules.push({ allow: key === 'allow', pattern: value });
+        }
+        break;
+      case 'crawl-delay': {
+        collectingAgents = false;
+        const delay = parseFloat(value);
+        if (current && !isNaN(delay) && delay >= 0) {
+          current.crawlDelay = delay;
+        }
+        break;
+      }
+      case 'sitemap':
+        if (value) {
+          sitemaps.push(value);
+        }
+        break;
+      default:
+        collectingAgents = false;
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+/**
+ * Rules that disallow everything (used when robots.txt is unreachable)
+ */
+export function disallowAllRobots(): RobotsTxt {
+  return {
+    groups: [{ userAgents: ['*'], rules: [{ allow: false, pattern: '/' }] }],
+    sitemaps: [],
+  };
+}
+
+/**
+ * Find the rules that apply to a user-agent.
+ *
+ * Uses the groups whose user-agent equals the product token (the part
+ * before `/`), compared case-insensitively as RFC 9309 requires, falling
+ * back to `*`. Groups with the same token are merged.
+ */
+export function getRobotsGroup(robots: RobotsTxt, userAgent: string): RobotsGroup | undefined {
+  const token = userAgent.split(/[/\s]/)[0].toLowerCase();
+  const named = robots.groups.some((group) => group.userAgents.includes(token));
+
+  const target = named && token !== '*' ? token : '*';
+  const matching = robots.groups.filter((group) => group.userAgents.includes(target));
+  if (matching.length === 0) {
+    return undefined;
+  }
+
+  return {
+    userAgents: [target],
+    rules: matching.flatMap((group) => group.rules),
+    crawlDelay: matching.find((group) => group.crawlDelay !== undefined)?.crawlDelay,
+  };
+}
+
+/**
+ * Check whether a URL may be fetched by a user-agent
+ */
+export function isAllowedByRobots(robots: RobotsTxt, url: string, userAgent: string): boolean {
+  const urlObj = new URL(url);
+  const path = urlObj.pathname + urlObj.search;
+
+  if (urlObj.pathname === '/robots.txt') {
+    return true;
+  }
+
+  const group = getRobotsGroup(robots, userAgent);
+  if (!group) {
+    return true;
+  }
+
+  // Longest matching rule wins; Allow wins ties
+  let best: RobotsRule | undefined;
+  for (const rule of group.rules) {
+    if (!matchesRobotsPattern(rule.pattern, path)) {
+      continue;
+    }
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+/**
+ * Get the Crawl-delay (seconds) for a user-agent
+ */
+export function getCrawlDelay(robots: RobotsTxt, userAgent: string): number | undefined {
+  return getRobotsGroup(robots, userAgent)?.crawlDelay;
+}
+
+/**
+ * Match a robots.txt path pattern (`*` wildcard, `$` end anchor)
+ */
+export function matchesRobotsPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
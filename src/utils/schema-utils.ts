@@ -0,0 +1,193 @@
+import { JsonSchema, JsonSchemaType, SchemaValidationError } from '../types';
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z\d+.-]*:\S+$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/,
+};
+
+/**
+ * Validate a value against a JSON Schema
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = ''
+): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  const fail = (message: string) => errors.push({ path: path || '(root)', message });
+
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    fail(`must equal ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some((option) => isEqual(value, option))) {
+    fail(`must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  const types = schemaTypes(schema);
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    fail(`must be ${types.join(' or ')}`);
+    return errors;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must have at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern, 'u').test(value)) {
+      fail(`must match pattern ${schema.pattern}`);
+    }
+    const format = schema.format && FORMAT_PATTERNS[schema.format];
+    if (format && !format.test(value)) {
+      fail(`must be a valid ${schema.format}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push({ path: joinPath(path, key), message: 'is required' });
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined) {
+        continue;
+      }
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateSchema(item, propertySchema, joinPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: joinPath(path, key), message: 'is not allowed' });
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Convert a scraped value to the schema's type (e.g. '$1,299.00' to 1299).
+ * Returns undefined when the value cannot be converted.
+ */
+export function coerceToSchema(value: unknown, schema: JsonSchema): unknown {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const types = schemaTypes(schema);
+  if (types.length === 0 || types.some((type) => matchesType(value, type))) {
+    return typeof value === 'string' ? value.trim() : value;
+  }
+
+  for (const type of types) {
+    const converted = convert(value, type, schema);
+    if (converted !== undefined) {
+      return converted;
+    }
+  }
+
+  return undefined;
+}
+
+function convert(value: unknown, type: JsonSchemaType, schema: JsonSchema): unknown {
+  switch (type) {
+    case 'string':
+      return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'string') {
+        return undefined;
+      }
+      const match = value.replace(/(\d),(?=\d{3}\b)/g, '$1').match(/-?\d+(\.\d+)?/);
+      if (!match) {
+        return undefined;
+      }
+      const number = Number(match[0]);
+      return type === 'integer' ? Math.round(number) : number;
+    }
+    case 'boolean':
+      if (typeof value === 'string') {
+        if (/^(true|yes|1|on)$/i.test(value.trim())) {
+          return true;
+        }
+        if (/^(false|no|0|off)$/i.test(value.trim())) {
+          return false;
+        }
+      }
+      return undefined;
+    case 'array':
+      if (typeof value === 'string' && schema.items) {
+        return value
+          .split(/\s*[,;\n]\s*/)
+          .filter((item) => item)
+          .map((item) => coerceToSchema(item, schema.items!))
+          .filter((item) => item !== undefined);
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+function schemaTypes(schema: JsonSchema): JsonSchemaType[] {
+  if (!schema.type) {
+    return [];
+  }
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
@@ -0,0 +1,90 @@
+import { ParsedSitemap, SitemapEntry } from '../types';
+
+/**
+ * Parse a sitemap or sitemap index XML document
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const entries: SitemapEntry[] = [];
+  const sitemaps: string[] = [];
+
+  for (const block of matchBlocks(xml, 'url')) {
+    const loc = readTag(block, 'loc');
+    if (!loc) {
+      continue;
+    }
+
+    const priority = parseFloat(readTag(block, 'priority') || '');
+    entries.push({
+      url: loc,
+      lastmod: readTag(block, 'lastmod'),
+      priority: isNaN(priority) ? undefined : priority,
+      changefreq: readTag(block, 'changefreq'),
+    });
+  }
+
+  for (const block of matchBlocks(xml, 'sitemap')) {
+    const loc = readTag(block, 'loc');
+    if (loc) {
+      sitemaps.push(loc);
+    }
+  }
+
+  return { entries, sitemaps };
+}
+
+/**
+ * Sort sitemap entries by priority (highest first), then most recently modified
+ */
+export function sortSitemapEntries(entries: SitemapEntry[]): SitemapEntry[] {
+  const time = (entry: SitemapEntry) => {
+    const parsed = entry.lastmod ? Date.parse(entry.lastmod) : NaN;
+    return isNaN(parsed) ? 0 : parsed;
+  };
+
+  return [...entries].sort(
+    (a, b) => (b.priority ?? 0.5) - (a.priority ?? 0.5) || time(b) - time(a)
+  );
+}
+
+/**
+ * Check whether a URL looks like a sitemap file
+ */
+export function isSitemapUrl(url: string): boolean {
+  return /\.xml(\.gz)?$/i.test(new URL(url).pathname);
+}
+
+/**
+ * Inner XML of each <tag>…</tag> element (namespace prefixes allowed)
+ */
+function matchBlocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'gi');
+  const blocks: string[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(xml)) !== null) {
+    blocks.push(match[1]);
+  }
+
+  return blocks;
+}
+
+/**
+ * Text content of the first <tag> in a block
+ */
+function readTag(block: string, tag: string): string | undefined {
+  const [inner] = matchBlocks(block, tag);
+  if (inner === undefined) {
+    return undefined;
+  }
+
+  const text = inner
+    .replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1')
+    .trim()
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+  return text || undefined;
+}
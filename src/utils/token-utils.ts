@@ -0,0 +1,271 @@
+import {
+  ExtractedPage,
+  FitToBudgetOptions,
+  BudgetResult,
+  Tokenizer,
+} from '../types';
+
+const approximateTokenizer: Tokenizer = { name: 'approximate', count: estimateTokens };
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'has', 'had',
+  'was', 'one', 'our', 'out', 'his', 'her', 'its', 'who', 'how', 'this', 'that', 'with',
+  'from', 'they', 'will', 'have', 'been', 'were', 'what', 'when', 'your', 'into', 'than',
+  'then', 'them', 'there', 'these', 'which', 'their', 'about', 'would', 'could', 'should',
+]);
+
+/**
+ * Estimate GPT-style BPE tokens without a vocabulary.
+ *
+ * Short Latin words count as one token and long ones as several; digits
+ * are grouped in threes, punctuation counts per character and CJK text
+ * per character.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+
+  for (const match of text.matchAll(/\p{L}+|\p{N}+|[^\s\p{L}\p{N}]|\n+/gu)) {
+    const piece = match[0];
+
+    if (/^\p{L}/u.test(piece)) {
+      if (/[぀-ヿ㐀-鿿가-힯]/.test(piece)) {
+        tokens += piece.length;
+      } else if (/[^\u0000-ɏ]/.test(piece)) {
+        tokens += Math.ceil(piece.length / 2);
+      } else {
+        tokens += Math.max(1, Math.round(piece.length / 5));
+      }
+    } else if (/^\p{N}/u.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else {
+      tokens += 1;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Cut text at a word boundary so it has at most maxTokens tokens
+ */
+export function truncateToTokens(
+  text: string,
+  maxTokens: number,
+  tokenizer: Tokenizer = approximateTokenizer
+): string {
+  if (tokenizer.count(text) <= maxTokens) {
+    return text;
+  }
+
+  const boundaries = Array.from(text.matchAll(/\S+/g), (m) => m.index! + m[0].length);
+  let low = 0;
+  let high = boundaries.length - 1;
+  let best = '';
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const candidate = text.slice(0, boundaries[mid]);
+    if (tokenizer.count(candidate) <= maxTokens) {
+      best = candidate;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Fit pages into a token budget, e.g. a model's context window.
+ *
+ * - rank: keep whole pages in rank order while they fit
+ * - truncate: keep whole pages, then cut the first page that overflows
+ * - summarize: shrink every page to a share of the budget by selecting
+ *   its most informative sentences
+ *
+ * Pages are ranked by relevance to `query` when given, otherwise kept in
+ * input order. Shortened pages lose their chunks.
+ */
+export function fitToBudget(
+  pages: ExtractedPage[],
+  maxTokens: number,
+  options: FitToBudgetOptions = {}
+): BudgetResult {
+  const { strategy = 'rank', query, tokenizer = approximateTokenizer } = options;
+  const ranked = query ? rankPages(pages, query) : [...pages];
+  const sizes = new Map(ranked.map((page) => [page, tokenizer.count(page.content)]));
+
+  const result: BudgetResult = { pages: [], totalTokens: 0, dropped: [], truncated: [] };
+  const keep = (page: ExtractedPage, tokens: number) => {
+    result.pages.push(page);
+    result.totalTokens += tokens;
+  };
+
+  if (strategy === 'summarize') {
+    const allotments = allocateBudget(ranked, sizes, maxTokens);
+
+    for (const page of ranked) {
+      const allotment = allotments.get(page)!;
+      if (sizes.get(page)! <= allotment) {
+        keep(page, sizes.get(page)!);
+        continue;
+      }
+
+      const summary = summarizeExtractive(page.content, allotment, tokenizer, query);
+      if (!summary) {
+        result.dropped.push(page.url);
+        continue;
+      }
+      const tokens = tokenizer.count(summary);
+      keep(withContent(page, summary, tokens), tokens);
+      result.truncated.push(page.url);
+    }
+
+    return result;
+  }
+
+  let full = false;
+  for (const page of ranked) {
+    const tokens = sizes.get(page)!;
+    const remaining = maxTokens - result.totalTokens;
+
+    if (!full && tokens <= remaining) {
+      keep(page, tokens);
+      continue;
+    }
+
+    if (strategy === 'truncate' && !full && remaining > 0) {
+      const content = truncateToTokens(page.content, remaining, tokenizer);
+      if (content) {
+        const cutTokens = tokenizer.count(content);
+        keep(withContent(page, content, cutTokens), cutTokens);
+        result.truncated.push(page.url);
+        full = true;
+        continue;
+      }
+    }
+
+    if (strategy === 'truncate') {
+      full = true;
+    }
+    result.dropped.push(page.url);
+  }
+
+  return result;
+}
+
+/**
+ * Query term hits in text, normalized by the square root of its length
+ */
+export function relevanceScore(text: string, query: string): number {
+  const queryTerms = new Set(extractTerms(query));
+  const terms = extractTerms(text);
+  const hits = terms.filter((term) => queryTerms.has(term)).length;
+
+  return hits / Math.sqrt(terms.length + 1);
+}
+
+/**
+ * Sort pages by query term frequency, most relevant first
+ */
+function rankPages(pages: ExtractedPage[], query: string): ExtractedPage[] {
+  const queryTerms = new Set(extractTerms(query));
+  const score = (page: ExtractedPage) => {
+    const titleHits = extractTerms(page.title).filter((t) => queryTerms.has(t)).length;
+    return titleHits * 2 + relevanceScore(page.content, query);
+  };
+
+  const scores = new Map(pages.map((page) => [page, score(page)]));
+  return [...pages].sort((a, b) => scores.get(b)! - scores.get(a)!);
+}
+
+/**
+ * Split the budget evenly, giving what small pages don't need to larger ones
+ */
+function allocateBudget(
+  pages: ExtractedPage[],
+  sizes: Map<ExtractedPage, number>,
+  maxTokens: number
+): Map<ExtractedPage, number> {
+  const allotments = new Map<ExtractedPage, number>();
+  const bySize = [...pages].sort((a, b) => sizes.get(a)! - sizes.get(b)!);
+  let remaining = maxTokens;
+
+  bySize.forEach((page, index) => {
+    const share = Math.floor(remaining / (bySize.length - index));
+    const allotment = Math.min(sizes.get(page)!, share);
+    allotments.set(page, allotment);
+    remaining -= allotment;
+  });
+
+  return allotments;
+}
+
+/**
+ * Select the highest-scoring sentences that fit in maxTokens, in original order
+ */
+function summarizeExtractive(
+  content: string,
+  maxTokens: number,
+  tokenizer: Tokenizer,
+  query?: string
+): string {
+  const sentences = content
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence);
+
+  const frequency = new Map<string, number>();
+  for (const term of extractTerms(content)) {
+    frequency.set(term, (frequency.get(term) || 0) + 1);
+  }
+  const queryTerms = new Set(query ? extractTerms(query) : []);
+
+  const scored = sentences.map((sentence, index) => {
+    const terms = extractTerms(sentence);
+    const weight = terms.reduce(
+      (sum, term) => sum + (frequency.get(term) || 0) + (queryTerms.has(term) ? 5 : 0),
+      0
+    );
+    // Favor earlier sentences slightly; leads tend to summarize
+    return { index, sentence, score: weight / Math.sqrt(terms.length + 1) + 1 / (index + 1) };
+  });
+
+  const selected: typeof scored = [];
+  let used = 0;
+  for (const candidate of [...scored].sort((a, b) => b.score - a.score)) {
+    const tokens = tokenizer.count(candidate.sentence);
+    if (used + tokens <= maxTokens) {
+      selected.push(candidate);
+      used += tokens;
+    }
+  }
+
+  return selected
+    .sort((a, b) => a.index - b.index)
+    .map((candidate) => candidate.sentence)
+    .join(' ');
+}
+
+/**
+ * Lowercase content terms without stop words
+ */
+function extractTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []).filter(
+    (term) => !STOP_WORDS.has(term)
+  );
+}
+
+/**
+ * Copy a page with new content and token count, dropping stale chunks
+ */
+function withContent(page: ExtractedPage, content: string, tokenCount: number): ExtractedPage {
+  const copy: ExtractedPage = {
+    ...page,
+    content,
+    metadata: { ...page.metadata, tokenCount },
+  };
+  delete copy.chunks;
+  return copy;
+}
@@ -1,4 +1,26 @@
-import { NormalizeUrlOptions } from '../types';
+import { DomainOptions, HtmlElement, NormalizeUrlOptions } from '../types';
+import { InvalidUrlError } from '../errors';
+import { PublicSuffixList } from '../public-suffix-list';
+import { parseHtml, querySelectorAll } from './html-utils';
+
+/**
+ * Query parameters removed by normalizeUrl with `removeTrackingParams`.
+ * A trailing '*' matches a prefix.
+ */
+export const DEFAULT_TRACKING_PARAMS = [
+  'utm_*', 'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid',
+  'igshid', 'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', 'mkt_tok', 'ref_src',
+];
+
+/**
+ * Normalization crawls use to recognize URLs they have already seen
+ */
+export const CRAWL_URL_OPTIONS: NormalizeUrlOptions = {
+  removeTrackingParams: true,
+  removeIndexDocument: true,
+};
+
+const INDEX_DOCUMENT = /\/(index|default)\.(html?|php|aspx?|jsp)$/i;
 
 /**
  * Validate and parse URL
@@ -12,12 +34,13 @@ export function validateUrl(url: string): URL {
     return urlObj;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new Error(`Invalid URL: ${url} - ${errorMessage}`);
+    throw new InvalidUrlError(url, errorMessage);
   }
 }
 
 /**
- * Normalize URL for consistent comparison and storage
+ * Normalize URL for consistent comparison and storage.
+ * Default ports (:80 for http, :443 for https) are always removed.
  */
 export function normalizeUrl(
   url: string,
@@ -29,6 +52,10 @@ export function normalizeUrl(
     removeFragment = true,
     lowercase = true,
     sortQueryParams = true,
+    removeTrackingParams = false,
+    trackingParams = DEFAULT_TRACKING_PARAMS,
+    foldWww = false,
+    removeIndexDocument = false,
   } = options;
 
   const urlObj = validateUrl(url);
@@ -38,6 +65,24 @@ export function normalizeUrl(
     urlObj.hostname = urlObj.hostname.toLowerCase();
   }
 
+  if (foldWww && /^www\./i.test(urlObj.hostname)) {
+    urlObj.hostname = urlObj.hostname.slice(4);
+  }
+
+  if (removeIndexDocument) {
+    urlObj.pathname = urlObj.pathname.replace(INDEX_DOCUMENT, '/');
+  }
+
+  if (removeTrackingParams && urlObj.search) {
+    const params = new URLSearchParams(urlObj.search);
+    for (const name of Array.from(new Set(params.keys()))) {
+      if (isTrackingParam(name, trackingParams)) {
+        params.delete(name);
+      }
+    }
+    urlObj.search = params.toString();
+  }
+
   // Remove fragment
   if (removeFragment) {
     urlObj.hash = '';
@@ -74,18 +119,32 @@ export function extractDomain(url: string): string {
 }
 
 /**
- * Extract root domain (without subdomain)
+ * Public suffix of a URL or hostname, e.g. 'co.uk' for
+ * 'https://shop.example.co.uk'. Undefined for IP addresses.
  */
-export function extractRootDomain(url: string): string {
-  const domain = extractDomain(url);
-  const parts = domain.split('.');
+export function getPublicSuffix(urlOrHost: string, options?: DomainOptions): string | undefined {
+  return PublicSuffixList.getDefault().getPublicSuffix(urlOrHost, options);
+}
 
-  // Handle cases like example.co.uk
-  if (parts.length >= 2) {
-    return parts.slice(-2).join('.');
-  }
+/**
+ * Registrable domain of a URL or hostname, e.g. 'example.co.uk' for
+ * 'https://shop.example.co.uk'. Undefined for IP addresses and public
+ * suffixes themselves.
+ */
+export function getRegistrableDomain(
+  urlOrHost: string,
+  options?: DomainOptions
+): string | undefined {
+  return PublicSuffixList.getDefault().getRegistrableDomain(urlOrHost, options);
+}
 
-  return domain;
+/**
+ * Extract root (registrable) domain, e.g. 'example.co.uk'.
+ * Falls back to the hostname for IP addresses and public suffixes.
+ */
+export function extractRootDomain(url: string): string {
+  const domain = extractDomain(url);
+  return getRegistrableDomain(domain) || domain;
 }
 
 /**
@@ -111,13 +170,18 @@ export function isSameRootDomain(url1: string, url2: string): boolean {
 }
 
 /**
- * Check if URL is a subdomain of another URL
+ * Check if URL is a subdomain of another URL within the same registrable
+ * domain (sites under a public suffix like github.io are not subdomains)
  */
 export function isSubdomain(url: string, parentUrl: string): boolean {
   try {
     const domain = extractDomain(url);
     const parentDomain = extractDomain(parentUrl);
-    return domain !== parentDomain && domain.endsWith(`.${parentDomain}`);
+    return (
+      domain !== parentDomain &&
+      domain.endsWith(`.${parentDomain}`) &&
+      extractRootDomain(url) === extractRootDomain(parentUrl)
+    );
   } catch {
     return false;
   }
@@ -188,3 +252,44 @@ export function buildAbsoluteUrl(baseUrl: string, relativePath: string): string
   const base = validateUrl(baseUrl);
   return new URL(relativePath, base).toString();
 }
+
+/**
+ * Extract absolute HTTP(S) link targets from HTML anchors (HTML or a
+ * parsed tree; href values are entity-decoded)
+ */
+export function extractLinks(source: string | HtmlElement, baseUrl: string): string[] {
+  const root = typeof source === 'string' ? parseHtml(source) : source;
+  const links: string[] = [];
+
+  for (const anchor of querySelectorAll(root, 'a[href]')) {
+    const href = anchor.attributes.href.trim();
+    if (!href || href.startsWith('#')) {
+      continue;
+    }
+
+    try {
+      const absolute = buildAbsoluteUrl(baseUrl, href);
+      if (absolute.startsWith('http://') || absolute.startsWith('https://')) {
+        links.push(absolute);
+      }
+    } catch {
+      // Skip malformed links
+      continue;
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Check a query parameter name against tracking parameter patterns
+ */
+function isTrackingParam(name: string, patterns: string[]): boolean {
+  const lower = name.toLowerCase();
+  return patterns.some((pattern) => {
+    const expected = pattern.toLowerCase();
+    return expected.endsWith('*')
+      ? lower.startsWith(expected.slice(0, -1))
+      : lower === expected;
+  });
+}
@@ -0,0 +1,209 @@
+import { promises as fs } from 'fs';
+import {
+  ChunkOptions,
+  ContentChunk,
+  Embedder,
+  ExtractedPage,
+  VectorIndexOptions,
+  VectorSearchOptions,
+  VectorSearchResult,
+} from './types';
+import { chunkPage } from './utils/chunk-utils';
+
+const FORMAT_VERSION = 1;
+
+interface IndexEntry {
+  chunk: ContentChunk;
+  title: string;
+  vector: number[];
+}
+
+interface SavedIndex {
+  version: number;
+  embedder: { name: string; dimensions?: number; state?: unknown };
+  chunking: ChunkOptions;
+  entries: IndexEntry[];
+}
+
+/**
+ * In-memory vector index over page chunks with cosine search.
+ *
+ * Pages are split into chunks (their existing `chunks`, or chunkPage)
+ * and each chunk is embedded. Embedders with fit() are fitted to the
+ * first pages added. The index can be saved to and loaded from a JSON
+ * file.
+ */
+export class VectorIndex {
+  private embedder: Embedder;
+  private chunking: ChunkOptions;
+  private batchSize: number;
+  private entries: IndexEntry[] = [];
+  private fitted = false;
+
+  constructor(embedder: Embedder, options: VectorIndexOptions = {}) {
+    this.embedder = embedder;
+    this.chunking = options.chunking || {};
+    this.batchSize = options.batchSize || 64;
+  }
+
+  /**
+   * Load an index saved with save(). The embedder must be the one the
+   * index was built with; its fitted state is restored from the file.
+   */
+  static async load(path: string, embedder: Embedder): Promise<VectorIndex> {
+    const saved: SavedIndex = JSON.parse(await fs.readFile(path, 'utf-8'));
+
+    if (saved.version !== FORMAT_VERSION) {
+      throw new Error(`Unsupported vector index version: ${saved.version}`);
+    }
+    if (saved.embedder.name !== embedder.name) {
+      throw new Error(
+        `Index was built with embedder '${saved.embedder.name}', not '${embedder.name}'`
+      );
+    }
+
+    const restored =
+      saved.embedder.state !== undefined && embedder.withState
+        ? embedder.withState(saved.embedder.state)
+        : embedder;
+    const index = new VectorIndex(restored, { chunking: saved.chunking });
+    index.entries = saved.entries;
+    index.fitted = true;
+
+    return index;
+  }
+
+  /**
+   * Number of indexed chunks
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * URLs of indexed pages
+   */
+  get urls(): string[] {
+    return Array.from(new Set(this.entries.map((entry) => entry.chunk.url)));
+  }
+
+  /**
+   * Chunk, embed and add pages. Pages already in the index are replaced.
+   * Returns the number of chunks added.
+   */
+  async addPages(pages: ExtractedPage[], signal?: AbortSignal): Promise<number> {
+    const items = pages.flatMap((page) =>
+      (page.chunks || chunkPage(page, this.chunking)).map((chunk) => ({ chunk, title: page.title }))
+    );
+    if (items.length === 0) {
+      return 0;
+    }
+
+    const texts = items.map((item) => item.chunk.content);
+    if (!this.fitted && this.entries.length === 0 && this.embedder.fit) {
+      this.embedder = this.embedder.fit(texts);
+    }
+    this.fitted = true;
+
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += this.batchSize) {
+      vectors.push(
+        ...(await this.embedder.embed(texts.slice(start, start + this.batchSize), signal))
+      );
+    }
+
+    pages.forEach((page) => this.removePage(page.url));
+    items.forEach((item, i) => {
+      this.entries.push({ ...item, vector: normalize(vectors[i]) });
+    });
+
+    return items.length;
+  }
+
+  /**
+   * Remove a page's chunks. Returns the number of chunks removed.
+   */
+  removePage(url: string): number {
+    const before = this.entries.length;
+    this.entries = this.entries.filter((entry) => entry.chunk.url !== url);
+    return before - this.entries.length;
+  }
+
+  /**
+   * The k chunks most similar to the query, best first
+   */
+  async search(
+    query: string,
+    k = 5,
+    options: VectorSearchOptions = {}
+  ): Promise<VectorSearchResult[]> {
+    const [vector] = await this.embedder.embed([query], options.signal);
+    const queryVector = normalize(vector);
+    const urls = options.urls && new Set(options.urls);
+
+    const hits: VectorSearchResult[] = [];
+    for (const entry of this.entries) {
+      if (urls && !urls.has(entry.chunk.url)) {
+        continue;
+      }
+
+      const score = dot(queryVector, entry.vector);
+      if (options.minScore !== undefined && score < options.minScore) {
+        continue;
+      }
+
+      hits.push({
+        id: entry.chunk.id,
+        url: entry.chunk.url,
+        title: entry.title,
+        content: entry.chunk.content,
+        score,
+        chunk: entry.chunk,
+      });
+    }
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  /**
+   * Save the index, vectors and embedder state included, as JSON
+   */
+  async save(path: string): Promise<void> {
+    const { countTokens, ...chunking } = this.chunking;
+    const saved: SavedIndex = {
+      version: FORMAT_VERSION,
+      embedder: {
+        name: this.embedder.name,
+        dimensions: this.embedder.dimensions,
+        state: this.embedder.getState?.(),
+      },
+      chunking,
+      entries: this.entries,
+    };
+
+    await fs.writeFile(path, JSON.stringify(saved));
+  }
+}
+
+/**
+ * Scale a vector to unit length
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(dot(vector, vector));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+/**
+ * Dot product; cosine similarity for unit vectors
+ */
+function dot(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector dimensions differ: ${a.length} and ${b.length}`);
+  }
+
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
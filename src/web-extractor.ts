@@ -1,21 +1,78 @@
-import FirecrawlApp from '@mendable/firecrawl-js';
 import {
   WebExtractorConfig,
+  ExtractionBackend,
+  BackendPage,
+  BackendCrawlOptions,
+  BackendScrapeOptions,
+  RetryPolicy,
+  RateLimitConfig,
+  ChunkOptions,
+  ContentChunk,
+  Tokenizer,
+  LLMProvider,
+  Embedder,
+  BuildIndexOptions,
+  JsonSchema,
+  ExtractStructuredOptions,
+  StructuredResult,
+  SummarizeOptions,
+  AskOptions,
+  SummaryResult,
+  SiteSummary,
+  AnswerResult,
   ExtractedPage,
+  DuplicateExtraction,
   ExtractPageOptions,
   ExtractWebsiteOptions,
+  ExtractSitemapOptions,
+  ExtractPagesOptions,
   ExtractionResult,
   FailedExtraction,
   PageMetadata,
+  ExtractionHooks,
+  Logger,
+  ScreenshotOptions,
+  DocumentPageSpan,
+  ResponseCache,
+  CacheEntry,
 } from './types';
 import {
   validateUrl,
   normalizeUrl,
   deduplicateUrls,
   filterUrlsByPattern,
-  isSameDomain,
 } from './utils/url-utils';
-import { cleanContent, countWords, detectLanguage } from './utils/content-utils';
+import { cleanContent, countWords } from './utils/content-utils';
+import { detectLanguageSections, identifyLanguage } from './utils/language-utils';
+import { chunkPage } from './utils/chunk-utils';
+import { FirecrawlBackend } from './backends/firecrawl-backend';
+import { Crawler, CrawlOutcome } from './crawler';
+import { ChangeTracker } from './change-tracker';
+import { RobotsChecker, RobotsVerdict } from './robots';
+import { SitemapLoader } from './sitemap';
+import {
+  ExtractionStream,
+  StreamItem,
+  StreamStats,
+  isFailedExtraction,
+  summarizeStats,
+} from './extraction-stream';
+import { createConsoleLogger, silentLogger } from './logger';
+import { resolveRetryPolicy, withRetry } from './retry';
+import { AbortError, UnsupportedCapabilityError, toExtractionError } from './errors';
+import { linkAbortController, runWithTimeout } from './abort';
+import { HostRateLimiter, RateLimiterStats } from './rate-limiter';
+import { ApproximateTokenizer } from './tokenizer';
+import { StructuredExtractor } from './structured-extractor';
+import { Summarizer, addUsage, emptyUsage } from './summarizer';
+import { VectorIndex } from './vector-index';
+import { PageDeduplicator } from './page-deduplicator';
+import { fingerprintContent } from './utils/fingerprint-utils';
+import { HashingEmbedder } from './embedders/hashing-embedder';
+import { isDocumentUrl } from './document-extractor';
+import { CacheStats, MemoryCache, createCacheKey } from './response-cache';
+import { promises as fs } from 'fs';
+import { join } from 'path';
 
 /**
  * TermiX Web Extractor SDK
@@ -24,24 +81,81 @@ import { cleanContent, countWords, detectLanguage } from './utils/content-utils'
  * content cleaning, and comprehensive metadata extraction.
  */
 export class WebExtractor {
-  private firecrawl: FirecrawlApp;
-  private config: Required<WebExtractorConfig>;
+  private backend: ExtractionBackend;
+  private config: Required<
+    Omit<
+      WebExtractorConfig,
+      | 'apiKey'
+      | 'backend'
+      | 'hooks'
+      | 'logger'
+      | 'retry'
+      | 'rateLimit'
+      | 'tokenizer'
+      | 'llm'
+      | 'embedder'
+      | 'cache'
+    >
+  >;
+  private hooks: ExtractionHooks;
+  private logger: Logger;
+  private retryPolicy: Required<RetryPolicy>;
+  private rateLimiter: HostRateLimiter;
+  private tokenizer: Tokenizer;
+  private llm?: LLMProvider;
+  private embedder: Embedder;
+  private cache?: { store: ResponseCache; ttl: number; revalidate: boolean };
+  private cacheStats: CacheStats = { hits: 0, misses: 0, revalidations: 0 };
 
   constructor(config: WebExtractorConfig) {
     this.config = {
       baseUrl: config.baseUrl || 'https://api.firecrawl.dev',
       timeout: config.timeout || 30000,
       debug: config.debug || false,
-      ...config,
+      userAgent: config.userAgent || 'WebExtractor/1.0',
     };
+    this.hooks = config.hooks || {};
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    this.rateLimiter = createRateLimiter(config.rateLimit);
+    this.tokenizer = config.tokenizer || new ApproximateTokenizer();
+    this.llm = config.llm;
+    this.embedder = config.embedder || new HashingEmbedder();
+    if (config.cache) {
+      this.cache = {
+        store: config.cache.store || new MemoryCache(),
+        ttl: config.cache.ttl ?? 3600000,
+        revalidate: config.cache.revalidate ?? true,
+      };
+    }
+    this.logger = config.logger || (this.config.debug ? createConsoleLogger() : silentLogger);
 
-    this.firecrawl = new FirecrawlApp({
-      apiKey: this.config.apiKey,
-    });
-
-    if (this.config.debug) {
-      this.log('WebExtractor initialized');
+    if (config.backend) {
+      this.backend = config.backend;
+    } else if (config.apiKey) {
+      this.backend = new FirecrawlBackend({
+        apiKey: config.apiKey,
+        apiUrl: this.config.baseUrl,
+        logger: this.logger,
+      });
+    } else {
+      throw new Error('WebExtractor requires either an apiKey or a backend');
     }
+
+    this.logger.debug('WebExtractor initialized', { backend: this.backend.name });
+  }
+
+  /**
+   * Response cache counters for all extractions of this instance
+   */
+  getCacheStats(): CacheStats {
+    return { ...this.cacheStats };
+  }
+
+  /**
+   * Rate limiter counters for all requests made by this instance
+   */
+  getRateLimitStats(): RateLimiterStats {
+    return this.rateLimiter.stats;
   }
 
   /**
@@ -55,39 +169,60 @@ export class WebExtractor {
       onlyMainContent = true,
       format = 'markdown',
       waitFor,
+      signal,
+      chunking,
     } = options;
 
     // Validate URL
     validateUrl(url);
+    this.assertSupported(options, url);
     const normalizedUrl = normalizeUrl(url);
 
-    this.log(`Extracting page: ${normalizedUrl}`);
+    this.logger.debug(`Extracting page: ${normalizedUrl}`);
+    this.emit('onPageStart', { url });
 
     try {
-      const scrapeOptions: any = {
+      const result = await this.scrape(url, {
         formats: [format],
         onlyMainContent,
-      };
-
-      if (waitFor) {
-        scrapeOptions.waitFor = waitFor;
-      }
-
-      const result = await this.firecrawl.scrapeUrl(url, scrapeOptions) as any;
+        waitFor,
+        userAgent: this.config.userAgent,
+        signal,
+        ...toAssetOptions(options),
+      }, undefined, options);
 
       const content = this.extractContent(result, format);
       const metadata = this.buildMetadata(result, normalizedUrl);
 
-      return {
+      const page: ExtractedPage = {
         title: result.metadata?.title || new URL(url).hostname,
         content: cleanContent(content),
         url: normalizedUrl,
         metadata,
       };
+      if (result.documentPages) {
+        page.documentPages = toDocumentPageSpans(result, format, page.content);
+      }
+      if (chunking) {
+        page.chunks = this.chunk(page, chunking);
+      }
+      await this.attachAssets(page, result, options.includeScreenshot);
+
+      this.emit('onPageExtracted', { url, page });
+      return page;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.log(`Failed to extract page: ${errorMessage}`);
-      throw new Error(`Failed to extract page ${url}: ${errorMessage}`);
+      const extractionError = toExtractionError(error, url);
+      this.logger.warn(`Failed to extract page: ${extractionError.message}`, {
+        url,
+        statusCode: extractionError.statusCode,
+        attempts: extractionError.attempts,
+      });
+      this.emit('onPageFailed', {
+        url,
+        error: extractionError.message,
+        statusCode: extractionError.statusCode,
+      });
+      throw extractionError;
     }
   }
 
@@ -97,158 +232,1063 @@ export class WebExtractor {
   async extractWebsite(
     url: string,
     options: ExtractWebsiteOptions = {}
+  ): Promise<ExtractionResult> {
+    const { maxPages = 10 } = options;
+
+    // Validate URL
+    validateUrl(url);
+    this.assertSupported(options, url);
+    const normalizedUrl = normalizeUrl(url);
+
+    this.logger.info(`Starting website extraction: ${normalizedUrl}`, { maxPages });
+
+    try {
+      const tracker = new ChangeTracker(options.previousManifest);
+      const stream = this.createWebsiteStream(url, options, tracker);
+      const result = await this.collectStream(stream);
+      const complete = !result.aborted && stream.stats.pagesQueued === 0;
+      const { manifest, changes } = tracker.finish(result, stream.unchanged, complete, options.manifestContent);
+
+      if (changes) {
+        this.logger.info('Changes since previous crawl', {
+          added: changes.added.length,
+          modified: changes.modified.length,
+          removed: changes.removed.length,
+          unchanged: changes.unchanged.length,
+        });
+      }
+      return { ...result, manifest, changes };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to extract website: ${errorMessage}`, { url });
+      throw new Error(`Failed to extract website ${url}: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Stream pages of a website as they are extracted.
+   *
+   * Pages are fetched as the consumer iterates; stop early with `break`
+   * or `options.signal`. Running stats are available on the stream.
+   * With `previousManifest`, pages that were not fetched again are left
+   * out and listed in `stream.unchanged`.
+   */
+  streamWebsite(url: string, options: ExtractWebsiteOptions = {}): ExtractionStream {
+    validateUrl(url);
+    this.assertSupported(options, url);
+
+    return this.createWebsiteStream(
+      url,
+      options,
+      options.previousManifest ? new ChangeTracker(options.previousManifest) : undefined
+    );
+  }
+
+  /**
+   * Stream of a website crawl, tracked against the previous manifest when
+   * a tracker is given
+   */
+  private createWebsiteStream(
+    url: string,
+    options: ExtractWebsiteOptions,
+    tracker?: ChangeTracker
+  ): ExtractionStream {
+    const { format = 'markdown', titlePrefix, signal, crawlTimeout, chunking, includeScreenshot } = options;
+
+    const controller = new AbortController();
+    const stream: ExtractionStream = new ExtractionStream(
+      this.abortable(
+        this.crawlOutcomes(
+          url,
+          { ...options, signal: controller.signal },
+          (ms) => stream.recordThrottle(ms),
+          tracker
+        ),
+        controller,
+        signal,
+        crawlTimeout
+      ),
+      (page) => this.attachAssets(
+        this.toExtractedPage(page, format, titlePrefix, chunking),
+        page,
+        includeScreenshot
+      ),
+      (item, stats) => this.reportProgress(item, stats),
+      controller.signal,
+      createDeduplicator(options)
+    );
+    return stream;
+  }
+
+  /**
+   * Extract the pages listed in a site's sitemaps (links are not followed).
+   *
+   * Sitemaps are discovered through robots.txt and /sitemap.xml unless url
+   * points at a sitemap file. Pages are fetched in priority order.
+   */
+  async extractFromSitemap(
+    url: string,
+    options: ExtractSitemapOptions = {}
   ): Promise<ExtractionResult> {
     const {
       maxPages = 10,
-      includeSubdomains = false,
+      format = 'markdown',
       titlePrefix,
+      signal,
+      crawlTimeout,
+      chunking,
+      includeScreenshot,
+    } = options;
+
+    validateUrl(url);
+    this.assertSupported(options, url);
+    this.logger.info(`Starting sitemap extraction: ${normalizeUrl(url)}`, { maxPages });
+
+    try {
+      const controller = new AbortController();
+      const stream: ExtractionStream = new ExtractionStream(
+        this.abortable(
+          this.sitemapOutcomes(
+            url,
+            { ...options, signal: controller.signal },
+            (ms) => stream.recordThrottle(ms)
+          ),
+          controller,
+          signal,
+          crawlTimeout
+        ),
+        (page) => this.attachAssets(
+          this.toExtractedPage(page, format, titlePrefix, chunking),
+          page,
+          includeScreenshot
+        ),
+        (item, stats) => this.reportProgress(item, stats),
+        controller.signal,
+        createDeduplicator(options)
+      );
+      return await this.collectStream(stream);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to extract sitemap: ${errorMessage}`, { url });
+      throw new Error(`Failed to extract sitemap ${url}: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Extract a list of URLs with bounded concurrency.
+   *
+   * URLs are deduplicated after normalization. Invalid or failing URLs are
+   * reported in `failed` instead of rejecting the batch. Pages are returned
+   * in completion order.
+   */
+  async extractPages(
+    urls: string[],
+    options: ExtractPagesOptions = {}
+  ): Promise<ExtractionResult> {
+    const { format = 'markdown', titlePrefix, signal, chunking, includeScreenshot } = options;
+    this.assertSupported(options);
+    const valid: string[] = [];
+    const invalid: FailedExtraction[] = [];
+
+    for (const url of urls) {
+      try {
+        validateUrl(url);
+        valid.push(url);
+      } catch (error) {
+        const extractionError = toExtractionError(error, url);
+        invalid.push({ url, error: extractionError.message, errorType: extractionError.name });
+      }
+    }
+
+    const unique = deduplicateUrls(valid);
+    this.logger.info(`Starting batch extraction of ${unique.length} URLs`, {
+      duplicates: valid.length - unique.length,
+      invalid: invalid.length,
+    });
+
+    const controller = new AbortController();
+    const stream: ExtractionStream = new ExtractionStream(
+      this.abortable(
+        this.batchOutcomes(
+          unique,
+          { ...options, signal: controller.signal },
+          (ms) => stream.recordThrottle(ms)
+        ),
+        controller,
+        signal
+      ),
+      (page) => this.attachAssets(
+        this.toExtractedPage(page, format, titlePrefix, chunking),
+        page,
+        includeScreenshot
+      ),
+      (item, stats) => this.reportProgress(item, stats),
+      controller.signal
+    );
+
+    const result = await this.collectStream(stream);
+    result.failed.unshift(...invalid);
+    result.totalPages += invalid.length;
+    result.stats = summarizeStats({
+      pageCount: result.pages.length,
+      failedCount: result.failed.length,
+      totalWords: result.stats.totalWords,
+      totalTokens: result.stats.totalTokens,
+      duration: result.stats.duration,
+      throttledMs: result.stats.throttledMs,
+      cacheHits: result.stats.cacheHits,
+      cacheMisses: result.stats.cacheMisses,
+      cacheRevalidations: result.stats.cacheRevalidations,
+    });
+
+    return result;
+  }
+
+  /**
+   * Fetch URLs concurrently, yielding outcomes as they complete.
+   * A new fetch starts only when the consumer pulls the next outcome.
+   */
+  private async *batchOutcomes(
+    urls: string[],
+    options: ExtractPagesOptions,
+    onThrottled?: (ms: number) => void
+  ): AsyncGenerator<CrawlOutcome> {
+    const {
+      concurrency = 5,
+      perHostConcurrency = 2,
+      perHostDelay = 0,
+      onlyMainContent = true,
+      format = 'markdown',
+      waitFor,
+      signal,
+    } = options;
+
+    const limiter = new HostRateLimiter({
+      maxConcurrent: perHostConcurrency,
+      minIntervalMs: perHostDelay,
+    });
+    const pending = new Map<number, Promise<{ index: number; outcome: CrawlOutcome }>>();
+    let next = 0;
+
+    const start = (index: number) => {
+      const url = urls[index];
+      const run = async (): Promise<CrawlOutcome> => {
+        let release: (() => void) | undefined;
+        try {
+          const waitStart = Date.now();
+          release = await limiter.acquire(url, signal);
+          recordWait(waitStart, onThrottled);
+          if (signal?.aborted) {
+            throw new AbortError(undefined, { url });
+          }
+          this.emit('onPageStart', { url });
+          const page = await this.scrape(url, {
+            formats: [format],
+            onlyMainContent,
+            waitFor,
+            userAgent: this.config.userAgent,
+            signal,
+            ...toAssetOptions(options),
+          }, onThrottled, options);
+          return { url, depth: 0, queued: urls.length - next, page };
+        } catch (error) {
+          return { url, depth: 0, queued: urls.length - next, error };
+        } finally {
+          release?.();
+        }
+      };
+      pending.set(index, run().then((outcome) => ({ index, outcome })));
+    };
+
+    while (next < urls.length && pending.size < Math.max(1, concurrency)) {
+      start(next++);
+    }
+
+    while (pending.size > 0) {
+      const { index, outcome } = await Promise.race(pending.values());
+      pending.delete(index);
+
+      // Requests cut off by cancellation are not failures
+      if (signal?.aborted) {
+        return;
+      }
+
+      if (next < urls.length) {
+        start(next++);
+      }
+      yield outcome;
+    }
+  }
+
+  /**
+   * Extract a typed record from a page using a JSON Schema.
+   *
+   * Fields are filled from selector and regex rules and page metadata,
+   * then by the LLM (if configured) for anything still missing.
+   */
+  async extractStructured<T = Record<string, unknown>>(
+    url: string,
+    schema: JsonSchema,
+    options: ExtractStructuredOptions = {}
+  ): Promise<StructuredResult<T>> {
+    const page = await this.extractPage(url, {
+      format: 'html',
+      onlyMainContent: false,
+      signal: options.signal,
+    });
+
+    return this.createStructuredExtractor<T>(schema, options).extract(page, options.signal);
+  }
+
+  /**
+   * Extract typed records from already extracted pages, e.g. `result.pages`.
+   * Selector rules only apply to pages extracted with format 'html'.
+   */
+  async extractStructuredFromPages<T = Record<string, unknown>>(
+    pages: ExtractedPage[],
+    schema: JsonSchema,
+    options: ExtractStructuredOptions = {}
+  ): Promise<StructuredResult<T>[]> {
+    const extractor = this.createStructuredExtractor<T>(schema, options);
+    const results: StructuredResult<T>[] = [];
+
+    for (const page of pages) {
+      if (options.signal?.aborted) {
+        throw new AbortError(undefined, { url: page.url });
+      }
+      results.push(await extractor.extract(page, options.signal));
+    }
+
+    return results;
+  }
+
+  /**
+   * Summarize an extracted page with the LLM.
+   * Long pages are summarized chunk by chunk and the summaries combined.
+   */
+  async summarizePage(page: ExtractedPage, options: SummarizeOptions = {}): Promise<SummaryResult> {
+    return this.createSummarizer(options).summarizePage(page, options.signal);
+  }
+
+  /**
+   * Summarize each page of a result, then the site as a whole.
+   * LLM usage is added to `result.stats.llmUsage`.
+   */
+  async summarizeSite(
+    result: ExtractionResult,
+    options: SummarizeOptions = {}
+  ): Promise<SiteSummary> {
+    const summary = await this.createSummarizer(options).summarizeSite(
+      result.pages,
+      options.signal
+    );
+    result.stats.llmUsage = addUsage(result.stats.llmUsage || emptyUsage(), summary.usage);
+    return summary;
+  }
+
+  /**
+   * Answer a question from a result's pages, citing the pages used.
+   * LLM usage is added to `result.stats.llmUsage`.
+   */
+  async askSite(
+    result: ExtractionResult,
+    question: string,
+    options: AskOptions = {}
+  ): Promise<AnswerResult> {
+    const answer = await this.createSummarizer(options).ask(
+      result.pages,
+      question,
+      options.maxChunks,
+      options.signal
+    );
+    result.stats.llmUsage = addUsage(result.stats.llmUsage || emptyUsage(), answer.usage);
+    return answer;
+  }
+
+  /**
+   * Embed the chunks of extracted pages into a searchable vector index.
+   * Pages without chunks are chunked with `options.chunking`.
+   */
+  async buildIndex(
+    source: ExtractionResult | ExtractedPage[],
+    options: BuildIndexOptions = {}
+  ): Promise<VectorIndex> {
+    const pages = Array.isArray(source) ? source : source.pages;
+    const index = new VectorIndex(options.embedder || this.embedder, {
+      batchSize: options.batchSize,
+      chunking: { countTokens: (text) => this.tokenizer.count(text), ...options.chunking },
+    });
+
+    await index.addPages(pages, options.signal);
+    return index;
+  }
+
+  /**
+   * Abort a crawl's controller when the caller's signal aborts or the
+   * crawl timeout elapses (the timer starts on first iteration)
+   */
+  private async *abortable(
+    outcomes: AsyncIterable<CrawlOutcome>,
+    controller: AbortController,
+    signal?: AbortSignal,
+    crawlTimeout?: number
+  ): AsyncGenerator<CrawlOutcome> {
+    const unlink = linkAbortController(controller, signal, crawlTimeout, () =>
+      this.logger.warn(`Crawl timeout of ${crawlTimeout}ms reached, returning partial results`)
+    );
+
+    try {
+      yield* outcomes;
+    } finally {
+      unlink();
+    }
+  }
+
+  /**
+   * Crawl a website, natively or through the backend
+   */
+  private async *crawlOutcomes(
+    url: string,
+    options: ExtractWebsiteOptions,
+    onThrottled?: (ms: number) => void,
+    tracker?: ChangeTracker
+  ): AsyncGenerator<CrawlOutcome> {
+    const {
+      maxPages = 10,
+      includeSubdomains = false,
       onlyMainContent = true,
       format = 'markdown',
       maxDepth = 3,
       followExternalLinks = false,
       includePatterns,
       excludePatterns,
+      crawler: crawlerMode = 'native',
+      respectRobotsTxt = true,
+      useSitemap = false,
+      includeDocuments = false,
+      signal,
     } = options;
 
-    // Validate URL
-    validateUrl(url);
-    const normalizedUrl = normalizeUrl(url);
+    const limit = Math.min(maxPages, 100); // Hard limit
+    const robots = new RobotsChecker(this.config.userAgent, {
+      timeout: this.config.timeout,
+      retry: this.retryPolicy,
+    });
 
-    this.log(`Starting website extraction: ${normalizedUrl} (max ${maxPages} pages)`);
+    if (crawlerMode === 'backend') {
+      const data = await this.crawlWithBackend(url, {
+        formats: [format],
+        onlyMainContent,
+        userAgent: this.config.userAgent,
+        limit,
+        maxDepth,
+        allowExternalLinks: followExternalLinks,
+        allowSubdomains: includeSubdomains,
+        includeDocuments,
+        signal,
+        ...toAssetOptions(options),
+      }, includePatterns, excludePatterns, onThrottled);
 
-    const startTime = Date.now();
-    const pages: ExtractedPage[] = [];
-    const failed: FailedExtraction[] = [];
+      for (const [index, page] of data.entries()) {
+        if (signal?.aborted) {
+          return;
+        }
 
-    try {
-      const crawlOptions: any = {
-        limit: Math.min(maxPages, 100), // Hard limit
-        scrapeOptions: {
+        // Backend crawls can only be checked against robots.txt afterwards
+        const queued = data.length - index - 1;
+        let verdict: RobotsVerdict | undefined;
+        try {
+          verdict = respectRobotsTxt ? await robots.check(page.url, signal) : undefined;
+        } catch (error) {
+          if (signal?.aborted) {
+            return;
+          }
+          throw error;
+        }
+        if (verdict?.error) {
+          yield { url: page.url, depth: 0, queued, error: verdict.error };
+        } else if (verdict && !verdict.allowed) {
+          const reason = verdict.reason || 'Disallowed by robots.txt';
+          yield { url: page.url, depth: 0, queued, skipped: reason };
+        } else {
+          yield { url: page.url, depth: 0, queued, page: tracker ? tracker.observe(page.url, page) : page };
+        }
+      }
+      return;
+    }
+
+    let seeds: string[] = [];
+    if (useSitemap) {
+      const entries = await this.createSitemapLoader(robots).load(url, signal);
+      seeds = entries.map((entry) => entry.url);
+      tracker?.addSitemapEntries(entries);
+      this.logger.debug(`Seeding crawl with ${seeds.length} sitemap URLs`);
+    }
+
+    const crawler = this.createCrawler(
+      { ...options, maxPages: limit },
+      respectRobotsTxt ? robots : undefined,
+      onThrottled,
+      tracker
+    );
+    yield* crawler.crawl(url, seeds);
+  }
+
+  /**
+   * Fetch the pages listed in a site's sitemaps
+   */
+  private async *sitemapOutcomes(
+    url: string,
+    options: ExtractSitemapOptions,
+    onThrottled?: (ms: number) => void
+  ): AsyncGenerator<CrawlOutcome> {
+    const {
+      maxPages = 10,
+      includePatterns,
+      excludePatterns,
+      respectRobotsTxt = true,
+      includeDocuments = false,
+      signal,
+    } = options;
+
+    const robots = new RobotsChecker(this.config.userAgent, {
+      timeout: this.config.timeout,
+      retry: this.retryPolicy,
+    });
+    const entries = await this.createSitemapLoader(robots).load(url, signal);
+    const urls = filterUrlsByPattern(
+      entries.map((entry) => entry.url),
+      includePatterns,
+      excludePatterns
+    ).filter((entryUrl) => includeDocuments || !isDocumentUrl(entryUrl));
+
+    this.logger.debug(`Sitemap lists ${entries.length} URLs, ${urls.length} match patterns`);
+
+    if (urls.length === 0) {
+      return;
+    }
+
+    // Sitemaps (and sitemap indexes) may list pages on other hosts of the
+    // site; the list is the scope, not the first entry's host
+    const crawler = this.createCrawler(
+      { ...options, maxPages: Math.min(maxPages, 100), maxDepth: 0 },
+      respectRobotsTxt ? robots : undefined,
+      onThrottled,
+      undefined,
+      true
+    );
+    yield* crawler.crawl(urls[0], urls.slice(1));
+  }
+
+  /**
+   * Sitemap loader whose requests time out like page requests
+   */
+  private createSitemapLoader(robots: RobotsChecker): SitemapLoader {
+    return new SitemapLoader(this.config.userAgent, robots, { timeout: this.config.timeout });
+  }
+
+  /**
+   * Create a native crawler that scrapes through the backend. With a
+   * change tracker, pages unchanged per the sitemap are not requested and
+   * the rest are requested conditionally when the backend supports it.
+   */
+  private createCrawler(
+    options: ExtractWebsiteOptions,
+    robots?: RobotsChecker,
+    onThrottled?: (ms: number) => void,
+    tracker?: ChangeTracker,
+    unscopedSeeds = false
+  ): Crawler {
+    const {
+      maxPages = 10,
+      includeSubdomains = false,
+      onlyMainContent = true,
+      format = 'markdown',
+      maxDepth = 3,
+      followExternalLinks = false,
+      includePatterns,
+      excludePatterns,
+      includeDocuments = false,
+      signal,
+    } = options;
+
+    return new Crawler(
+      async (pageUrl) => {
+        const unchanged = tracker?.unchangedBySitemap(pageUrl);
+        if (unchanged) {
+          this.logger.debug(`Unchanged per sitemap lastmod: ${pageUrl}`);
+          return unchanged;
+        }
+
+        this.emit('onPageStart', { url: pageUrl });
+        const page = await this.scrape(pageUrl, {
           formats: [format],
           onlyMainContent,
-        },
+          userAgent: this.config.userAgent,
+          includeLinks: maxDepth > 0,
+          signal,
+          ...toAssetOptions(options),
+          ...(tracker && this.backend.capabilities?.revalidation ? tracker.conditions(pageUrl) : {}),
+        }, onThrottled, options);
+        return tracker ? tracker.observe(pageUrl, page) : page;
+      },
+      {
+        maxPages,
         maxDepth,
-      };
-
-      // Domain restrictions
-      if (!followExternalLinks) {
-        crawlOptions.allowExternalLinks = false;
+        includeSubdomains,
+        followExternalLinks,
+        includePatterns,
+        excludePatterns,
+        includeDocuments,
+        unscopedSeeds,
+        robots,
+        signal,
       }
+    );
+  }
 
-      if (!includeSubdomains) {
-        crawlOptions.allowSubdomains = false;
-      }
+  /**
+   * Drain a stream into an extraction result
+   */
+  private async collectStream(stream: ExtractionStream): Promise<ExtractionResult> {
+    const pages: ExtractedPage[] = [];
+    const failed: FailedExtraction[] = [];
 
-      const crawlResult = await this.firecrawl.crawlUrl(url, crawlOptions) as any;
-      const data = crawlResult.data || [];
+    for await (const item of stream) {
+      if (isFailedExtraction(item)) {
+        failed.push(item);
+      } else {
+        pages.push(item);
+      }
+    }
 
-      this.log(`Crawl completed, processing ${data.length} pages`);
+    const { duration } = stream.stats;
+    this.logger.info(`Extraction completed: ${pages.length} pages in ${duration}ms`, {
+      failed: failed.length,
+      skipped: stream.skipped.length,
+      duplicates: stream.duplicates.length,
+    });
 
-      // Extract URLs and filter
-      let urls = data.map((page: any) => page.metadata?.sourceURL || page.url || url);
-      urls = deduplicateUrls(urls);
+    return {
+      pages: mergeDuplicates(pages, stream.duplicates),
+      totalPages: pages.length + failed.length,
+      failed,
+      skipped: stream.skipped,
+      duplicates: stream.duplicates,
+      aborted: stream.stats.aborted,
+      stats: summarizeStats({
+        pageCount: pages.length,
+        failedCount: failed.length,
+        totalWords: pages.reduce((sum, p) => sum + p.metadata.wordCount, 0),
+        totalTokens: pages.reduce((sum, p) => sum + p.metadata.tokenCount, 0),
+        duration,
+        throttledMs: stream.stats.throttledMs,
+        cacheHits: stream.stats.cacheHits,
+        cacheMisses: stream.stats.cacheMisses,
+        cacheRevalidations: stream.stats.cacheRevalidations,
+      }),
+    };
+  }
 
-      if (includePatterns || excludePatterns) {
-        urls = filterUrlsByPattern(urls, includePatterns, excludePatterns);
-      }
+  /**
+   * Scrape a page, through the response cache when one is configured.
+   *
+   * Fresh entries are returned without a request. Expired entries with an
+   * ETag or Last-Modified are revalidated when the backend supports it;
+   * on HTTP 304 the cached page is kept for another ttl.
+   */
+  private async scrape(
+    url: string,
+    options: BackendScrapeOptions,
+    onThrottled?: (ms: number) => void,
+    cacheOptions: Pick<ExtractPageOptions, 'cache' | 'cacheTtl'> = {}
+  ): Promise<BackendPage> {
+    const cache = this.cache;
+    if (!cache || cacheOptions.cache === false) {
+      return this.fetchPage(url, options, onThrottled);
+    }
 
-      // Process each page
-      for (const page of data) {
-        try {
-          const pageUrl = page.metadata?.sourceURL || url;
-          const normalizedPageUrl = normalizeUrl(pageUrl);
+    const key = createCacheKey(url, options);
+    const ttl = cacheOptions.cacheTtl ?? cache.ttl;
+    const entry = await this.readCache(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.cacheStats.hits++;
+      this.logger.debug(`Cache hit: ${url}`);
+      return { ...entry.page, cacheStatus: 'hit' };
+    }
 
-          // Check if URL should be included
-          if (!urls.includes(pageUrl)) {
-            continue;
+    // Only entries with a validator can be revalidated; the caller's own
+    // validators are kept where the entry has none
+    const revalidate = entry && (entry.etag || entry.lastModified) &&
+      cache.revalidate && this.backend.capabilities?.revalidation;
+    const page = await this.fetchPage(
+      url,
+      revalidate
+        ? {
+            ...options,
+            ifNoneMatch: entry.etag ?? options.ifNoneMatch,
+            ifModifiedSince: entry.lastModified ?? options.ifModifiedSince,
           }
+        : options,
+      onThrottled
+    );
 
-          const content = this.extractContent(page, format);
-          const metadata = this.buildMetadata(page, normalizedPageUrl);
+    // A 304 for validators the caller sent (e.g. from a crawl manifest)
+    if (page.notModified && !revalidate) {
+      return page;
+    }
 
-          let title = page.metadata?.title || new URL(pageUrl).pathname;
-          if (titlePrefix) {
-            title = `${titlePrefix} - ${title}`;
-          }
+    const now = Date.now();
+    if (page.notModified && entry) {
+      this.cacheStats.hits++;
+      this.cacheStats.revalidations++;
+      this.logger.debug(`Cache revalidated: ${url}`);
+      await this.writeCache(key, {
+        ...entry,
+        storedAt: now,
+        expiresAt: now + ttl,
+        etag: page.metadata.etag || entry.etag,
+        lastModified: page.metadata.lastModified || entry.lastModified,
+      });
+      return { ...entry.page, cacheStatus: 'revalidated' };
+    }
 
-          pages.push({
-            title,
-            content: cleanContent(content),
-            url: normalizedPageUrl,
-            metadata,
-          });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          this.log(`Failed to process page: ${errorMessage}`);
-          failed.push({
-            url: page.url || 'unknown',
-            error: errorMessage,
-          });
-        }
-      }
+    this.cacheStats.misses++;
+    await this.writeCache(key, {
+      page,
+      storedAt: now,
+      expiresAt: now + ttl,
+      etag: page.metadata.etag,
+      lastModified: page.metadata.lastModified,
+    });
+    return { ...page, cacheStatus: 'miss' };
+  }
 
-      const duration = Date.now() - startTime;
-      const totalWords = pages.reduce((sum, p) => sum + p.metadata.wordCount, 0);
-
-      this.log(`Extraction completed: ${pages.length} pages in ${duration}ms`);
-
-      return {
-        pages,
-        totalPages: pages.length + failed.length,
-        failed,
-        stats: {
-          duration,
-          successRate: (pages.length / (pages.length + failed.length)) * 100,
-          totalWords,
-          avgWordsPerPage: pages.length > 0 ? totalWords / pages.length : 0,
-        },
-      };
+  /**
+   * Cache entry for a key; a failing store counts as a miss
+   */
+  private async readCache(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return await this.cache!.store.get(key);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.log(`Failed to extract website: ${errorMessage}`);
-      throw new Error(`Failed to extract website ${url}: ${errorMessage}`);
+      this.logger.warn(`Cache read failed: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a cache entry; failures are logged, not thrown
+   */
+  private async writeCache(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      await this.cache!.store.set(key, entry);
+    } catch (error) {
+      this.logger.warn(`Cache write failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Scrape a page through the backend, retrying per the retry policy.
+   * Every attempt waits for a rate limit slot first.
+   */
+  private fetchPage(
+    url: string,
+    options: BackendScrapeOptions,
+    onThrottled?: (ms: number) => void
+  ): Promise<BackendPage> {
+    const { timeout } = this.config;
+
+    return withRetry(
+      () =>
+        this.throttled(url, options.signal, onThrottled, () =>
+          runWithTimeout(
+            (signal) => this.backend.scrape(url, { ...options, timeout, signal }),
+            { url, timeoutMs: timeout, signal: options.signal }
+          )
+        ),
+      this.retryPolicy,
+      url,
+      ({ attempt, delayMs, error }) => {
+        this.logger.warn(`Retrying ${url} in ${delayMs}ms: ${error.message}`, { attempt });
+        this.emit('onRetry', { url, attempt, delayMs, error: error.message });
+      },
+      options.signal
+    );
+  }
+
+  /**
+   * Run a request once the rate limiter grants a slot for its host
+   */
+  private async throttled<T>(
+    url: string,
+    signal: AbortSignal | undefined,
+    onThrottled: ((ms: number) => void) | undefined,
+    request: () => Promise<T>
+  ): Promise<T> {
+    const waitStart = Date.now();
+    const release = await this.rateLimiter.acquire(url, signal);
+    recordWait(waitStart, onThrottled);
+
+    try {
+      return await request();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Crawl through the backend, then filter the returned pages
+   */
+  private async crawlWithBackend(
+    url: string,
+    crawlOptions: BackendCrawlOptions,
+    includePatterns?: RegExp[],
+    excludePatterns?: RegExp[],
+    onThrottled?: (ms: number) => void
+  ): Promise<BackendPage[]> {
+    const data = await this.throttled(url, crawlOptions.signal, onThrottled, () =>
+      runWithTimeout(
+        (signal) => this.backend.crawl(url, { ...crawlOptions, signal }),
+        { url, signal: crawlOptions.signal }
+      )
+    );
+
+    this.logger.debug(`Crawl completed, processing ${data.length} pages`);
+
+    // Extract URLs and filter
+    let urls = data.map((page) => page.metadata.sourceURL || page.url);
+    urls = deduplicateUrls(urls);
+
+    if (includePatterns || excludePatterns) {
+      urls = filterUrlsByPattern(urls, includePatterns, excludePatterns);
+    }
+
+    // Backends may return documents the crawl was not asked to follow
+    return data.filter((page) => {
+      const pageUrl = page.metadata.sourceURL || page.url;
+      const isDocument = Boolean(page.metadata.documentType) || isDocumentUrl(pageUrl);
+      return urls.includes(pageUrl) && (crawlOptions.includeDocuments || !isDocument || pageUrl === url);
+    });
+  }
+
+  /**
+   * Convert a crawled backend page to an extracted page
+   */
+  private toExtractedPage(
+    page: BackendPage,
+    format: string,
+    titlePrefix?: string,
+    chunking?: ChunkOptions
+  ): ExtractedPage {
+    const pageUrl = page.metadata.sourceURL || page.url;
+    const normalizedPageUrl = normalizeUrl(pageUrl);
+
+    const content = this.extractContent(page, format);
+    const metadata = this.buildMetadata(page, normalizedPageUrl);
+
+    let title = page.metadata.title || new URL(pageUrl).pathname;
+    if (titlePrefix) {
+      title = `${titlePrefix} - ${title}`;
+    }
+
+    const extracted: ExtractedPage = {
+      title,
+      content: cleanContent(content),
+      url: normalizedPageUrl,
+      metadata,
+    };
+    if (page.documentPages) {
+      extracted.documentPages = toDocumentPageSpans(page, format, extracted.content);
+    }
+    if (chunking) {
+      extracted.chunks = this.chunk(extracted, chunking);
+    }
+
+    return extracted;
+  }
+
+  /**
+   * Throw if the options ask for something the backend cannot do
+   */
+  private assertSupported(
+    options: ExtractPageOptions & Pick<ExtractWebsiteOptions, 'includeDocuments'>,
+    url?: string
+  ): void {
+    const capabilities = this.backend.capabilities || {};
+    if (options.includeScreenshot && !capabilities.screenshots) {
+      throw new UnsupportedCapabilityError(this.backend.name, 'screenshots', { url });
+    }
+    if (options.includeImages && !capabilities.images) {
+      throw new UnsupportedCapabilityError(this.backend.name, 'images', { url });
+    }
+    if (options.includeDocuments && !capabilities.documents) {
+      throw new UnsupportedCapabilityError(this.backend.name, 'documents', { url });
+    }
+  }
+
+  /**
+   * Add the screenshot and images a backend returned to an extracted
+   * page, saving the screenshot to disk when a directory is configured
+   */
+  private async attachAssets(
+    extracted: ExtractedPage,
+    page: BackendPage,
+    includeScreenshot?: boolean | ScreenshotOptions
+  ): Promise<ExtractedPage> {
+    if (page.images) {
+      extracted.images = page.images;
+    }
+
+    if (page.screenshot && includeScreenshot) {
+      const { fullPage = false, directory } = includeScreenshot === true ? {} : includeScreenshot;
+      const { data, mimeType } = page.screenshot;
+      extracted.screenshot = directory
+        ? { path: await saveScreenshot(data, mimeType, extracted.url, directory), mimeType, fullPage }
+        : { data, mimeType, fullPage };
     }
+
+    return extracted;
   }
 
   /**
-   * Extract content from Firecrawl result
+   * Extract content from backend page
    */
-  private extractContent(result: any, format: string): string {
+  private extractContent(result: BackendPage, format: string): string {
     switch (format) {
       case 'markdown':
-        return result.markdown || result.content || '';
+        return result.markdown || '';
       case 'html':
-        return result.html || result.content || '';
+        // Documents have no HTML; Markdown keeps their structure
+        return result.html || (result.metadata.documentType ? result.markdown || '' : '');
       case 'text':
-        return result.text || result.content || '';
+        return result.text || '';
       default:
-        return result.markdown || result.content || '';
+        return result.markdown || '';
     }
   }
 
   /**
    * Build page metadata
    */
-  private buildMetadata(page: any, normalizedUrl: string): PageMetadata {
-    const content = this.extractContent(page, 'markdown');
+  private buildMetadata(page: BackendPage, normalizedUrl: string): PageMetadata {
+    const content = page.markdown || page.text || '';
     const wordCount = countWords(content);
+    const detectedLanguage = identifyLanguage(content);
+    const languageSections = detectLanguageSections(content);
 
     return {
       scrapedAt: new Date(),
       sourceUrl: normalizedUrl,
-      description: page.metadata?.description || page.excerpt || undefined,
+      finalUrl: safeNormalizeUrl(page.url) || normalizedUrl,
+      canonicalUrl: page.metadata.canonicalUrl && safeNormalizeUrl(page.metadata.canonicalUrl),
+      description: page.metadata.description || undefined,
       wordCount,
-      language: page.metadata?.language || detectLanguage(content),
-      statusCode: page.metadata?.statusCode,
+      tokenCount: this.tokenizer.count(content),
+      language: page.metadata.language || detectedLanguage?.language,
+      detectedLanguage,
+      languageSections: new Set(languageSections.map((section) => section.language)).size > 1
+        ? languageSections
+        : undefined,
+      statusCode: page.metadata.statusCode,
+      authors: page.metadata.authors,
+      publishedAt: page.metadata.publishedAt,
+      modifiedAt: page.metadata.modifiedAt,
+      siteName: page.metadata.siteName,
+      image: page.metadata.image,
+      keywords: page.metadata.keywords,
+      openGraph: page.metadata.openGraph,
+      twitter: page.metadata.twitter,
+      jsonLd: page.metadata.jsonLd,
+      contentType: page.metadata.contentType,
+      documentType: page.metadata.documentType,
+      pageCount: page.metadata.pageCount,
+      cacheStatus: page.cacheStatus,
+      fingerprint: fingerprintContent(content),
     };
   }
 
   /**
-   * Log debug messages
+   * Create a structured extractor using the configured tokenizer and LLM
+   */
+  private createStructuredExtractor<T>(
+    schema: JsonSchema,
+    options: ExtractStructuredOptions
+  ): StructuredExtractor<T> {
+    return new StructuredExtractor<T>(schema, {
+      rules: options.rules,
+      llm: options.llm || this.llm,
+      tokenizer: this.tokenizer,
+      maxInputTokens: options.maxInputTokens,
+    });
+  }
+
+  /**
+   * Create a summarizer using the configured tokenizer and LLM
    */
-  private log(message: string): void {
-    if (this.config.debug) {
-      console.log(`[WebExtractor] ${message}`);
+  private createSummarizer(options: SummarizeOptions): Summarizer {
+    const llm = options.llm || this.llm;
+    if (!llm) {
+      throw new Error('Summaries and questions need an LLM provider (config.llm or options.llm)');
+    }
+
+    return new Summarizer(llm, {
+      tokenizer: this.tokenizer,
+      templates: options.templates,
+      maxChunkTokens: options.maxChunkTokens,
+      maxOutputTokens: options.maxOutputTokens,
+    });
+  }
+
+  /**
+   * Chunk a page, counting tokens with the configured tokenizer by default
+   */
+  private chunk(page: ExtractedPage, chunking: ChunkOptions): ContentChunk[] {
+    return chunkPage(page, {
+      countTokens: (text) => this.tokenizer.count(text),
+      ...chunking,
+    });
+  }
+
+  /**
+   * Report a processed crawl URL to the logger and hooks
+   */
+  private reportProgress(item: StreamItem | undefined, stats: StreamStats): void {
+    if (item && isFailedExtraction(item)) {
+      this.logger.warn(`Failed to extract page: ${item.error}`, {
+        url: item.url,
+        statusCode: item.statusCode,
+        attempts: item.attempts,
+      });
+      this.emit('onPageFailed', { url: item.url, error: item.error, statusCode: item.statusCode });
+    } else if (item) {
+      this.emit('onPageExtracted', { url: item.url, page: item });
+    }
+
+    this.emit('onCrawlProgress', {
+      queued: stats.pagesQueued,
+      done: stats.pagesExtracted,
+      failed: stats.pagesFailed,
+      skipped: stats.pagesSkipped,
+    });
+  }
+
+  /**
+   * Call a hook, logging (not propagating) errors it throws
+   */
+  private emit<K extends keyof ExtractionHooks>(
+    name: K,
+    event: Parameters<NonNullable<ExtractionHooks[K]>>[0]
+  ): void {
+    const hook = this.hooks[name] as ((event: unknown) => void) | undefined;
+    if (!hook) {
+      return;
+    }
+
+    try {
+      hook.call(this.hooks, event);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Hook ${name} threw: ${errorMessage}`);
     }
   }
 
@@ -274,3 +1314,124 @@ export class WebExtractor {
    */
   static validateUrl = validateUrl;
 }
+
+/**
+ * Create the instance-wide rate limiter from config
+ */
+function createRateLimiter(config: RateLimitConfig = {}): HostRateLimiter {
+  const toInterval = (perSecond?: number) => (perSecond ? 1000 / perSecond : 0);
+
+  return new HostRateLimiter({
+    maxConcurrent: config.maxConcurrentPerHost || 4,
+    minIntervalMs: toInterval(config.requestsPerSecond),
+    globalMaxConcurrent: config.maxConcurrent || 10,
+    globalMinIntervalMs: toInterval(config.globalRequestsPerSecond),
+    groupBy: config.groupBy,
+  });
+}
+
+/**
+ * Create a duplicate detector unless all deduplication is off
+ */
+function createDeduplicator(options: ExtractWebsiteOptions): PageDeduplicator | undefined {
+  const { dedupeCanonical = true, dedupeContent } = options;
+  if (!dedupeCanonical && dedupeContent === undefined) {
+    return undefined;
+  }
+
+  return new PageDeduplicator({
+    canonical: dedupeCanonical,
+    content: typeof dedupeContent === 'number' ? { threshold: dedupeContent } : dedupeContent,
+  });
+}
+
+/**
+ * Backend options for the screenshot and images a page option asks for
+ */
+function toAssetOptions(options: ExtractPageOptions): Pick<BackendScrapeOptions, 'screenshot' | 'includeImages'> {
+  const { includeScreenshot, includeImages } = options;
+  const fullPage = typeof includeScreenshot === 'object' && includeScreenshot.fullPage;
+
+  return {
+    screenshot: includeScreenshot ? (fullPage ? 'fullPage' : 'viewport') : undefined,
+    includeImages: includeImages || undefined,
+  };
+}
+
+/**
+ * Write a screenshot to a directory, named after the page URL
+ */
+async function saveScreenshot(data: Buffer, mimeType: string, url: string, directory: string): Promise<string> {
+  const extension = mimeType.split('/')[1]?.replace('jpeg', 'jpg').replace(/\W.*$/, '') || 'png';
+  const name = url.replace(/^https?:\/\//, '').replace(/[^a-z0-9.-]+/gi, '_').replace(/^_+|_+$/g, '').slice(0, 150);
+  const path = join(directory, `${name || 'page'}.${extension}`);
+
+  await fs.mkdir(directory, { recursive: true });
+  await fs.writeFile(path, data);
+  return path;
+}
+
+/**
+ * Where each document page falls in the extracted content. Pages are
+ * located in order; empty pages and pages not found are left out.
+ */
+function toDocumentPageSpans(page: BackendPage, format: string, content: string): DocumentPageSpan[] {
+  const spans: DocumentPageSpan[] = [];
+  let offset = 0;
+
+  for (const documentPage of page.documentPages || []) {
+    const text = (format === 'text' ? documentPage.text : documentPage.markdown).trim();
+    const start = text ? content.indexOf(text, offset) : -1;
+    if (start >= 0) {
+      offset = start + text.length;
+      spans.push({ pageNumber: documentPage.pageNumber, startOffset: start, endOffset: offset });
+    }
+  }
+  return spans;
+}
+
+/**
+ * Pages with the URLs of merged duplicates in `metadata.duplicateUrls`;
+ * pages that gained some are copied, since they were already streamed
+ */
+function mergeDuplicates(pages: ExtractedPage[], duplicates: DuplicateExtraction[]): ExtractedPage[] {
+  const merged = new Map<string, string[]>();
+  for (const duplicate of duplicates) {
+    if (duplicate.merged) {
+      merged.set(duplicate.duplicateOf, [...(merged.get(duplicate.duplicateOf) || []), duplicate.url]);
+    }
+  }
+  if (merged.size === 0) {
+    return pages;
+  }
+
+  return pages.map((page) => {
+    const urls = merged.get(page.url);
+    if (!urls) {
+      return page;
+    }
+    const duplicateUrls = [...(page.metadata.duplicateUrls || []), ...urls];
+    return { ...page, metadata: { ...page.metadata, duplicateUrls } };
+  });
+}
+
+/**
+ * Normalize a URL reported by a backend, or undefined if it is invalid
+ */
+function safeNormalizeUrl(url: string): string | undefined {
+  try {
+    return normalizeUrl(url);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Report time spent waiting since waitStart, if any
+ */
+function recordWait(waitStart: number, onThrottled?: (ms: number) => void): void {
+  const waited = Date.now() - waitStart;
+  if (waited > 0) {
+    onThrottled?.(waited);
+  }
+}
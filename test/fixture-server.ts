@@ -0,0 +1,79 @@
+/**
+ * Local HTTP fixture server for offline tests
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface FixtureResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: string | Buffer;
+  /** Delay before responding in milliseconds */
+  delayMs?: number;
+}
+
+export interface FixtureServer {
+  url: string;
+  /** Paths requested so far, in order */
+  requests: string[];
+  close(): Promise<void>;
+}
+
+export type FixtureRoute =
+  | FixtureResponse
+  | string
+  | ((req: http.IncomingMessage) => FixtureResponse | string);
+
+/**
+ * Start a server that answers from a path → response map.
+ * Routes may be functions, e.g. to embed the server URL in a response
+ * or to answer conditional requests.
+ */
+export async function startFixtureServer(
+  routes: Record<string, FixtureRoute>
+): Promise<FixtureServer> {
+  const requests: string[] = [];
+
+  const server = http.createServer((req, res) => {
+    const path = req.url || '/';
+    requests.push(path);
+
+    const entry = routes[path];
+    if (entry === undefined) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found');
+      return;
+    }
+
+    const route = typeof entry === 'function' ? entry(req) : entry;
+    const fixture = typeof route === 'string' ? { body: route } : route;
+    const respond = () => {
+      res.writeHead(fixture.status || 200, {
+        'Content-Type': 'text/html; charset=utf-8',
+        ...fixture.headers,
+      });
+      res.end(fixture.body);
+    };
+
+    if (fixture.delayMs) {
+      const timer = setTimeout(respond, fixture.delayMs);
+      res.on('close', () => clearTimeout(timer));
+    } else {
+      respond();
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
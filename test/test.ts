@@ -5,6 +5,7 @@
 import {
   WebExtractor,
   normalizeUrl,
+  CRAWL_URL_OPTIONS,
   validateUrl,
   deduplicateUrls,
   isSameDomain,
@@ -12,8 +13,75 @@ import {
   filterUrlsByPattern,
   countWords,
   cleanContent,
-  generateExcerpt
+  generateExcerpt,
+  HttpBackend,
+  FirecrawlBackend,
+  silentLogger,
+  parseRobotsTxt,
+  isAllowedByRobots,
+  getCrawlDelay,
+  isFailedExtraction,
+  HttpStatusError,
+  RateLimitError,
+  InvalidUrlError,
+  TimeoutError,
+  AbortError,
+  ExtractionError,
+  classifyError,
+  toExtractionError,
+  HostRateLimiter,
+  chunkPage,
+  chunkText,
+  estimateTokens,
+  fitToBudget,
+  BpeTokenizer,
+  validateSchema,
+  parseHtml,
+  querySelectorAll,
+  getTextContent,
+  MockLLMProvider,
+  OpenAICompatibleProvider,
+  VectorIndex,
+  HashingEmbedder,
+  HttpEmbedder,
+  LshIndex,
+  minHash,
+  minHashSimilarity,
+  simHash,
+  simHashDistance,
+  getPublicSuffix,
+  getRegistrableDomain,
+  extractRootDomain,
+  isSameRootDomain,
+  isSubdomain,
+  PublicSuffixList,
+  extractHtmlMetadata,
+  findJsonLdEntities,
+  normalizeDate,
+  identifyLanguage,
+  detectLanguageSections,
+  getSupportedLanguages,
+  detectLanguage,
+  extractFromHtml,
+  htmlToMarkdown,
+  extractImages,
+  UnsupportedCapabilityError,
+  DocumentParseError,
+  extractDocument,
+  detectDocumentType,
+  MemoryCache,
+  FileSystemCache,
+  createCacheKey,
+  diffLines,
+  hashSections,
+  diffSections,
+  CrawlManifest
 } from '../src';
+import { gzipSync, deflateSync, deflateRawSync, crc32 } from 'zlib';
+import { writeFileSync, unlinkSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { startFixtureServer } from './fixture-server';
 
 console.log('🧪 Testing @anisirji/web-extractor SDK\n');
 
@@ -122,7 +190,1494 @@ try {
   console.log('   ❌ Failed to create instance:', error);
 }
 
-console.log('\n🎉 All unit tests completed!\n');
-console.log('📝 Note: To test actual web scraping, you need:');
-console.log('   1. Set FIRECRAWL_API_KEY environment variable');
-console.log('   2. Run: FIRECRAWL_API_KEY=your_key npm run test:integration\n');
+// Test 9: HTTP Backend (local fixture server)
+async function testHttpBackend() {
+  console.log('\n✅ Test 9: HTTP Backend');
+  const server = await startFixtureServer({
+    '/': '<html lang="en"><head><title>Home</title></head><body><p>Welcome home</p><a href="/about">About</a></body></html>',
+    '/about': '<html><head><title>About</title></head><body><p>About us and the team</p></body></html>'
+  });
+
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend() });
+
+    const page = await extractor.extractPage(`${server.url}/`);
+    console.log('   Title:', page.title);
+    console.log('   Content:', JSON.stringify(page.content));
+    console.log('   Language:', page.metadata.language);
+
+    const result = await extractor.extractWebsite(`${server.url}/`, { maxPages: 5 });
+    console.log('   Crawled pages:', result.pages.map(p => p.title));
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 10: Native Crawler
+async function testNativeCrawler() {
+  console.log('\n✅ Test 10: Native Crawler');
+  const server = await startFixtureServer({
+    '/': '<title>Home</title><a href="/docs/a">A</a><a href="/blog/post">Post</a><a href="/docs/a/">A again</a>',
+    '/docs/a': '<title>Doc A</title><a href="/docs/b">B</a>',
+    '/docs/b': '<title>Doc B</title><a href="/docs/c">C</a>',
+    '/docs/c': '<title>Doc C</title>',
+    '/blog/post': '<title>Post</title>'
+  });
+
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend() });
+    const result = await extractor.extractWebsite(`${server.url}/`, {
+      maxPages: 10,
+      maxDepth: 2,
+      includePatterns: [/\/docs\//]
+    });
+
+    console.log('   Pages (depth ≤ 2, /docs/ only):', result.pages.map(p => p.title));
+    console.log('   Requested paths:', server.requests);
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+
+  const links = await startFixtureServer({
+    '/': '<title>Links</title><a href="/list?page=2&amp;sort=asc">Next</a> <a href=/plain>Plain</a>' +
+      '<script>document.write(\'<a href="/from-script">x</a>\');</script><!-- <a href="/from-comment">y</a> -->',
+    '/list?page=2&sort=asc': '<title>List page 2</title>',
+    '/plain': '<title>Plain</title>'
+  });
+
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend() });
+    const result = await extractor.extractWebsite(`${links.url}/`, { maxPages: 10 });
+    console.log('   Decoded links:', result.pages.map(p => p.title), '- requested:', links.requests.filter(r => r !== '/robots.txt'));
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await links.close();
+  }
+}
+
+// Test 11: robots.txt
+async function testRobotsTxt() {
+  console.log('\n✅ Test 11: robots.txt');
+  const robots = parseRobotsTxt([
+    'User-agent: *',
+    'Disallow: /private',
+    'Allow: /private/public$',
+    'Disallow: /*.pdf$',
+    '',
+    'User-agent: WebExtractor',
+    'Disallow: /no-bots',
+    'Crawl-delay: 0.2'
+  ].join('\n'));
+
+  console.log('   /private/page (generic):', isAllowedByRobots(robots, 'https://example.com/private/page', 'OtherBot'));
+  console.log('   /private/public (generic):', isAllowedByRobots(robots, 'https://example.com/private/public', 'OtherBot'));
+  console.log('   /file.pdf (generic):', isAllowedByRobots(robots, 'https://example.com/file.pdf', 'OtherBot'));
+  console.log('   /no-bots (WebExtractor/1.0):', isAllowedByRobots(robots, 'https://example.com/no-bots', 'WebExtractor/1.0'));
+  console.log('   Crawl-delay (WebExtractor/1.0):', getCrawlDelay(robots, 'WebExtractor/1.0'));
+  const exact = parseRobotsTxt('User-agent: bot\nDisallow: /');
+  console.log('   Exact product token:', isAllowedByRobots(exact, 'https://example.com/', 'MyCrawlerBot/2.0'), isAllowedByRobots(exact, 'https://example.com/', 'Bot/1.0'));
+
+  const server = await startFixtureServer({
+    '/robots.txt': { body: 'User-agent: *\nDisallow: /secret\nCrawl-delay: 0.2', headers: { 'Content-Type': 'text/plain' } },
+    '/': '<title>Home</title><a href="/secret">Secret</a><a href="/open">Open</a>',
+    '/open': '<title>Open</title>',
+    '/secret': '<title>Secret</title>'
+  });
+
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend() });
+    const start = Date.now();
+    const result = await extractor.extractWebsite(`${server.url}/`, { maxPages: 5 });
+    console.log('   Pages:', result.pages.map(p => p.title));
+    console.log('   Skipped:', result.skipped.map(s => `${new URL(s.url).pathname} (${s.reason})`));
+    console.log('   Crawl-delay respected:', Date.now() - start >= 200);
+
+    const optedOut = await extractor.extractWebsite(`${server.url}/`, { maxPages: 5, respectRobotsTxt: false });
+    console.log('   Pages with robots.txt ignored:', optedOut.pages.map(p => p.title));
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+
+  let robotsStatus = 503;
+  let robotsRequests = 0;
+  const flaky = await startFixtureServer({
+    '/robots.txt': () => {
+      robotsRequests++;
+      return robotsRequests === 1 || robotsStatus !== 200 ? { status: 503, body: '' } : 'User-agent: *\nAllow: /';
+    },
+    '/': '<title>Home</title>'
+  });
+
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend(), retry: { maxAttempts: 2, initialDelayMs: 10 } });
+    const down = await extractor.extractWebsite(`${flaky.url}/`);
+    console.log('   Unavailable robots.txt:', down.pages.length, down.skipped.length, down.failed.map(f => f.errorType), '- attempts:', robotsRequests);
+
+    robotsStatus = 200;
+    robotsRequests = 0;
+    const recovered = await extractor.extractWebsite(`${flaky.url}/`);
+    console.log('   Flaky robots.txt retried:', recovered.pages.map(p => p.title), '- attempts:', robotsRequests);
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await flaky.close();
+  }
+}
+
+// Test 12: Sitemaps
+async function testSitemaps() {
+  console.log('\n✅ Test 12: Sitemaps');
+  let server: Awaited<ReturnType<typeof startFixtureServer>> | undefined;
+  const sitemap = (urls: string) => `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls}</urlset>`;
+
+  server = await startFixtureServer({
+    '/robots.txt': () => `User-agent: *\nSitemap: ${server!.url}/sitemap-index.xml`,
+    '/sitemap-index.xml': () => `<sitemapindex><sitemap><loc>${server!.url}/docs.xml.gz</loc></sitemap><sitemap><loc>${server!.url}/blog.xml</loc></sitemap></sitemapindex>`,
+    '/docs.xml.gz': () => ({
+      headers: { 'Content-Type': 'application/gzip' },
+      body: gzipSync(sitemap(`<url><loc>${server!.url}/docs/low</loc><priority>0.2</priority></url><url><loc>${server!.url}/docs/high</loc><lastmod>2024-05-01</lastmod><priority>0.9</priority></url>`))
+    }),
+    '/blog.xml': () => sitemap(`<url><loc>${server!.url}/blog/post</loc></url><url><loc>${server!.url.replace('127.0.0.1', 'localhost')}/blog/other</loc></url>`),
+    '/bomb.xml.gz': { headers: { 'Content-Type': 'application/gzip' }, body: gzipSync(Buffer.alloc(51 * 1024 * 1024, ' ')) },
+    '/': '<title>Home</title>',
+    '/docs/low': '<title>Low</title>',
+    '/docs/high': '<title>High</title>',
+    '/blog/post': '<title>Post</title>',
+    '/blog/other': '<title>Other host</title>'
+  });
+
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend() });
+    const fromSitemap = await extractor.extractFromSitemap(`${server.url}/`, { maxPages: 2 });
+    console.log('   Sitemap pages (priority order, max 2):', fromSitemap.pages.map(p => p.title));
+
+    const filtered = await extractor.extractFromSitemap(`${server.url}/`, { excludePatterns: [/\/docs\//] });
+    console.log('   Sitemap pages excluding /docs/:', filtered.pages.map(p => p.title));
+
+    const seeded = await extractor.extractWebsite(`${server.url}/`, { useSitemap: true });
+    console.log('   Crawl seeded from sitemap:', seeded.pages.map(p => p.title));
+
+    const bomb = await extractor.extractFromSitemap(`${server.url}/bomb.xml.gz`);
+    console.log('   Oversized gzip sitemap ignored:', bomb.pages.length);
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 13: Streaming
+async function testStreaming() {
+  console.log('\n✅ Test 13: Streaming');
+  const server = await startFixtureServer({
+    '/': '<title>Home</title><a href="/a">A</a><a href="/b">B</a><a href="/missing">Missing</a><a href="/c">C</a>',
+    '/a': '<title>A</title><p>one two three</p>',
+    '/b': '<title>B</title><p>four five</p>',
+    '/c': '<title>C</title>'
+  });
+
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend() });
+
+    const stream = extractor.streamWebsite(`${server.url}/`, { maxPages: 10, respectRobotsTxt: false });
+    for await (const item of stream) {
+      const label = isFailedExtraction(item) ? `failed ${new URL(item.url).pathname}` : item.title;
+      console.log(`   Item: ${label} (extracted so far: ${stream.stats.pagesExtracted}, failed: ${stream.stats.pagesFailed})`);
+    }
+    console.log('   Final stats done:', stream.stats.done, '- words:', stream.stats.totalWords);
+
+    const requestsBefore = server.requests.length;
+    const early = extractor.streamWebsite(`${server.url}/`, { maxPages: 10, respectRobotsTxt: false });
+    for await (const item of early) {
+      if (!isFailedExtraction(item) && item.title === 'A') break;
+    }
+    console.log('   Requests after break at A:', server.requests.length - requestsBefore);
+
+    const controller = new AbortController();
+    const aborted = extractor.streamWebsite(`${server.url}/`, { maxPages: 10, respectRobotsTxt: false, signal: controller.signal });
+    let count = 0;
+    for await (const _item of aborted) {
+      if (++count === 2) controller.abort();
+    }
+    console.log('   Items before abort took effect:', count);
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 14: Hooks and Logger
+async function testHooks() {
+  console.log('\n✅ Test 14: Hooks and Logger');
+  const server = await startFixtureServer({
+    '/': '<title>Home</title><a href="/a">A</a><a href="/missing">Missing</a>',
+    '/a': '<title>A</title>'
+  });
+
+  const events: string[] = [];
+  const logs: string[] = [];
+  const record = (level: string) => (message: string) => logs.push(`${level}: ${message}`);
+
+  try {
+    const extractor = new WebExtractor({
+      backend: new HttpBackend(),
+      logger: { debug: record('debug'), info: record('info'), warn: record('warn'), error: record('error') },
+      hooks: {
+        onPageStart: ({ url }) => events.push(`start ${new URL(url).pathname}`),
+        onPageExtracted: ({ page }) => events.push(`extracted ${page.title}`),
+        onPageFailed: ({ url }) => events.push(`failed ${new URL(url).pathname}`),
+        onCrawlProgress: ({ queued, done, failed }) => events.push(`progress q=${queued} d=${done} f=${failed}`)
+      }
+    });
+
+    await extractor.extractWebsite(`${server.url}/`, { respectRobotsTxt: false });
+    console.log('   Events:', events);
+    console.log('   Logged warnings:', logs.filter(l => l.startsWith('warn')).length);
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 15: Retries and Typed Errors
+async function testRetries() {
+  console.log('\n✅ Test 15: Retries and Typed Errors');
+  let flakyHits = 0;
+  const server = await startFixtureServer({
+    '/flaky': () => (++flakyHits < 3 ? { status: 503, body: 'busy' } : '<title>Flaky</title>'),
+    '/limited': { status: 429, headers: { 'Retry-After': '0' }, body: 'slow down' },
+    '/gone': { status: 410, body: 'gone' }
+  });
+
+  const retries: string[] = [];
+  const extractor = new WebExtractor({
+    backend: new HttpBackend(),
+    retry: { maxAttempts: 3, initialDelayMs: 10 },
+    hooks: { onRetry: ({ attempt, delayMs }) => retries.push(`#${attempt} after ${delayMs}ms`) }
+  });
+
+  try {
+    const page = await extractor.extractPage(`${server.url}/flaky`);
+    console.log('   Flaky page:', page.title, '- retries:', retries);
+
+    try {
+      await extractor.extractPage(`${server.url}/limited`);
+    } catch (error) {
+      const e = error as RateLimitError;
+      console.log('   429:', error instanceof RateLimitError, '- status', e.statusCode, '- attempts', e.attempts);
+    }
+
+    try {
+      await extractor.extractPage(`${server.url}/gone`);
+    } catch (error) {
+      const e = error as HttpStatusError;
+      console.log('   410:', error instanceof HttpStatusError, '- status', e.statusCode, '- attempts', e.attempts);
+    }
+
+    try {
+      await extractor.extractPage('ftp://example.com');
+    } catch (error) {
+      console.log('   Invalid URL:', error instanceof InvalidUrlError);
+    }
+
+    const refused = Object.assign(new TypeError('fetch failed'), {
+      cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' })
+    });
+    console.log('   Classified:', classifyError(toExtractionError(refused, server.url)),
+      classifyError(new ExtractionError('Unexpected token < in JSON')));
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 16: Timeouts, Cancellation and baseUrl
+async function testTimeoutsAndCancellation() {
+  console.log('\n✅ Test 16: Timeouts, Cancellation and baseUrl');
+  const server = await startFixtureServer({
+    '/slow': { body: '<title>Slow</title>', delayMs: 2000 },
+    '/robots.txt': { body: '', delayMs: 5000 },
+    '/sitemap.xml': { body: '', delayMs: 5000 },
+    '/': '<title>Home</title><a href="/a">A</a><a href="/slow">Slow</a>',
+    '/a': '<title>A</title>',
+    '/v1/scrape': {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: true, data: { markdown: '# Mocked', metadata: { title: 'Mock Firecrawl', statusCode: 200 } } })
+    }
+  });
+
+  try {
+    const extractor = new WebExtractor({
+      backend: new HttpBackend(),
+      timeout: 100,
+      retry: { maxAttempts: 1 }
+    });
+
+    try {
+      await extractor.extractPage(`${server.url}/slow`);
+    } catch (error) {
+      console.log('   Request timeout:', error instanceof TimeoutError);
+    }
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    try {
+      await extractor.extractPage(`${server.url}/slow`, { signal: controller.signal });
+    } catch (error) {
+      console.log('   Aborted request:', error instanceof AbortError);
+    }
+
+    const patient = new WebExtractor({ backend: new HttpBackend() });
+    const started = Date.now();
+    const partial = await patient.extractWebsite(`${server.url}/`, { respectRobotsTxt: false, crawlTimeout: 300 });
+    console.log('   Crawl timeout partial result:', partial.pages.map(p => p.title), '- aborted:', partial.aborted, '- failed:', partial.failed.length, '- fast:', Date.now() - started < 1000);
+
+    const hungStart = Date.now();
+    const hungRobots = await patient.extractWebsite(`${server.url}/`, { crawlTimeout: 300 });
+    const cancel = new AbortController();
+    setTimeout(() => cancel.abort(), 300);
+    const hungSitemap = await patient.extractWebsite(`${server.url}/`, { respectRobotsTxt: false, useSitemap: true, signal: cancel.signal });
+    const timedOut = await extractor.extractWebsite(`${server.url}/`, { useSitemap: true });
+    console.log('   Hung robots.txt/sitemap:', hungRobots.aborted, hungSitemap.aborted, hungSitemap.pages.length,
+      '- request timeout:', timedOut.failed[0]?.errorType === 'RobotsUnavailableError', '- fast:', Date.now() - hungStart < 2000);
+
+    const firecrawl = new WebExtractor({ apiKey: 'fc-test', baseUrl: server.url });
+    const mocked = await firecrawl.extractPage('https://example.com');
+    console.log('   Firecrawl via baseUrl:', mocked.title, JSON.stringify(mocked.content));
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 17: Batch Extraction
+async function testBatchExtraction() {
+  console.log('\n✅ Test 17: Batch Extraction');
+  const server = await startFixtureServer({
+    '/one': { body: '<title>One</title><p>first page</p>', delayMs: 100 },
+    '/two': { body: '<title>Two</title><p>second page</p>', delayMs: 100 },
+    '/three': { body: '<title>Three</title>', delayMs: 100 },
+    '/four': { body: '<title>Four</title>', delayMs: 100 }
+  });
+
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend(), retry: { maxAttempts: 1 } });
+    const result = await extractor.extractPages([
+      `${server.url}/one`,
+      `${server.url}/one/`,
+      `${server.url}/two`,
+      `${server.url}/missing`,
+      'not a url'
+    ]);
+    console.log('   Pages:', result.pages.map(p => p.title).sort(), '- total:', result.totalPages);
+    console.log('   Failed:', result.failed.map(f => `${f.errorType}${f.statusCode ? ` ${f.statusCode}` : ''}`));
+    console.log('   Success rate:', result.stats.successRate.toFixed(1) + '%');
+
+    const urls = ['/one', '/two', '/three', '/four'].map(path => `${server.url}${path}`);
+    let started = Date.now();
+    await extractor.extractPages(urls, { concurrency: 4, perHostConcurrency: 1 });
+    const serialized = Date.now() - started;
+
+    started = Date.now();
+    await extractor.extractPages(urls, { concurrency: 4, perHostConcurrency: 4 });
+    const parallel = Date.now() - started;
+    console.log('   Per-host limit serializes requests:', serialized >= 400, '- parallel faster:', parallel < serialized);
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 18: Rate Limiting
+async function testRateLimiting() {
+  console.log('\n✅ Test 18: Rate Limiting');
+  const server = await startFixtureServer({
+    '/a': '<title>A</title>',
+    '/b': '<title>B</title>',
+    '/c': '<title>C</title>',
+    '/slow': { body: '<title>Slow</title>', delayMs: 100 }
+  });
+  const localhost = server.url.replace('127.0.0.1', 'localhost');
+
+  try {
+    const polite = new WebExtractor({
+      backend: new HttpBackend(),
+      rateLimit: { requestsPerSecond: 10 }
+    });
+    const urls = ['/a', '/b', '/c'].map(path => `${server.url}${path}`);
+    const result = await polite.extractPages(urls, { perHostConcurrency: 3 });
+    const limiterStats = polite.getRateLimitStats();
+    console.log('   Pages:', result.pages.length, '- spaced out:', result.stats.duration >= 200, '- throttled:', result.stats.throttledMs > 0);
+    console.log('   Limiter:', limiterStats.requests, 'requests,', limiterStats.throttledRequests, 'throttled,', limiterStats.active, 'active');
+
+    const single = new WebExtractor({
+      backend: new HttpBackend(),
+      rateLimit: { maxConcurrent: 1 }
+    });
+    const started = Date.now();
+    await single.extractPages([`${server.url}/slow`, `${localhost}/slow`]);
+    console.log('   Global cap serializes hosts:', Date.now() - started >= 200);
+
+    const limiter = new HostRateLimiter({ maxConcurrent: 1 });
+    const release = await limiter.acquire('https://example.com/a');
+    const controller = new AbortController();
+    const waiting = limiter.acquire('https://example.com/b', controller.signal);
+    controller.abort();
+    try {
+      await waiting;
+    } catch (error) {
+      console.log('   Abort while waiting:', error instanceof AbortError);
+    }
+    release();
+    console.log('   Slot freed after abort:', limiter.stats.active === 0);
+
+    const spaced = new HostRateLimiter({ minIntervalMs: 1000 });
+    (await spaced.acquire('https://a.test/1'))();
+    const pending = spaced.acquire('https://a.test/2');
+    const otherStart = Date.now();
+    (await spaced.acquire('https://b.test/1'))();
+    console.log('   Host spacing stays per host:', Date.now() - otherStart < 100);
+    (await pending)();
+
+    const oneSlot = new HostRateLimiter({ minIntervalMs: 1000, globalMaxConcurrent: 1 });
+    (await oneSlot.acquire('https://a.test/1'))();
+    const spacedStart = Date.now();
+    const queued = oneSlot.acquire('https://a.test/2').then((done) => { done(); return Date.now() - spacedStart; });
+    const singleOther = Date.now();
+    (await oneSlot.acquire('https://b.test/1'))();
+    const otherWait = Date.now() - singleOther;
+    console.log('   Host spacing holds no global slot:', otherWait < 100, '- spaced host waited:', (await queued) >= 900);
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 19: Chunking
+async function testChunking() {
+  console.log('\n✅ Test 19: Chunking');
+  const markdown = [
+    '# Guide',
+    'Intro paragraph about the guide.',
+    '## Install',
+    'Run the installer. Then check the version. Finally restart the shell.',
+    '```bash',
+    'npm install',
+    '',
+    'npm test',
+    '```',
+    '## Usage',
+    '| Option | Default |',
+    '| ------ | ------- |',
+    '| debug  | false   |'
+  ].join('\n');
+  const page = { title: 'Guide', content: markdown, url: 'https://example.com/guide', metadata: { sourceUrl: 'https://example.com/guide', scrapedAt: new Date(), wordCount: 0, tokenCount: 0 } };
+
+  const chunks = chunkPage(page, { maxTokens: 20 });
+  console.log('   Chunks:', chunks.length, '- breadcrumbs:', chunks.map(c => c.headings.join(' > ')));
+  console.log('   Offsets match content:', chunks.every(c => markdown.slice(c.startOffset, c.endOffset) === c.content));
+  console.log('   Code block intact:', chunks.some(c => c.content.includes('npm install\n\nnpm test')));
+  console.log('   Table intact:', chunks.some(c => c.content.includes('| Option | Default |\n| ------ | ------- |\n| debug  | false   |')));
+  console.log('   Stable IDs:', chunkPage(page, { maxTokens: 20 }).map(c => c.id).join() === chunks.map(c => c.id).join());
+
+  const text = 'One two three four five six seven eight nine ten eleven twelve.';
+  const windows = chunkText(text, '', { maxTokens: 4, overlap: 1, strategy: 'fixed', countTokens: t => t.split(/\s+/).length });
+  console.log('   Fixed windows with overlap:', windows.map(c => c.content));
+
+  const server = await startFixtureServer({
+    '/doc': '<title>Doc</title><p>First paragraph.</p><p>Second paragraph.</p>'
+  });
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend() });
+    const extracted = await extractor.extractPage(`${server.url}/doc`, { chunking: { maxTokens: 100 } });
+    console.log('   extractPage chunks:', extracted.chunks?.length, '- url:', extracted.chunks?.[0].url === extracted.url);
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 20: Tokens and Budgets
+async function testTokens() {
+  console.log('\n✅ Test 20: Tokens and Budgets');
+  console.log('   Estimate:', estimateTokens('The quick brown fox jumps over the lazy dog.'), 'tokens');
+
+  const vocabPath = join(tmpdir(), `web-extractor-vocab-${process.pid}.tiktoken`);
+  const merges = ['th', 'the', ' t', ' the', 'fo', ' fo', ' fox'];
+  const vocab = [
+    ...Array.from({ length: 256 }, (_, byte) => `${Buffer.from([byte]).toString('base64')} ${byte}`),
+    ...merges.map((token, i) => `${Buffer.from(token).toString('base64')} ${256 + i}`)
+  ].join('\n');
+  writeFileSync(vocabPath, vocab);
+
+  try {
+    const bpe = await BpeTokenizer.fromFile(vocabPath);
+    const ids = bpe.encode('the the fox');
+    console.log('   BPE ids:', ids, '- roundtrip:', bpe.decode(ids) === 'the the fox');
+
+    const page = (url: string, content: string) => ({ title: url, content, url, metadata: { sourceUrl: url, scrapedAt: new Date(), wordCount: countWords(content), tokenCount: 0 } });
+    const pages = [
+      page('https://example.com/a', 'Cooking pasta takes ten minutes. Salt the water first. Drain and serve.'),
+      page('https://example.com/b', 'Rust ownership rules prevent data races. Borrowing lets code read values without moving them. Lifetimes describe how long references live.'),
+      page('https://example.com/c', 'Gardening needs patience.')
+    ];
+    const counter = { name: 'words', count: (text: string) => countWords(text) };
+
+    const ranked = fitToBudget(pages, 20, { query: 'rust borrowing', tokenizer: counter });
+    console.log('   Rank:', ranked.pages.map(p => p.url.slice(-1)), '- dropped:', ranked.dropped.map(u => u.slice(-1)), '- tokens:', ranked.totalTokens);
+
+    const truncated = fitToBudget(pages, 15, { strategy: 'truncate', tokenizer: counter });
+    console.log('   Truncate:', truncated.pages.map(p => p.url.slice(-1)), '- truncated:', truncated.truncated.map(u => u.slice(-1)), '- tokens:', truncated.totalTokens);
+
+    const summarized = fitToBudget(pages, 24, { strategy: 'summarize', tokenizer: counter });
+    console.log('   Summarize:', summarized.totalTokens <= 24, '- pages kept:', summarized.pages.length);
+    console.log('   Summary of b:', JSON.stringify(summarized.pages.find(p => p.url.endsWith('b'))?.content));
+  } finally {
+    unlinkSync(vocabPath);
+  }
+
+  const server = await startFixtureServer({ '/': '<title>Tokens</title><p>Hello token counting world.</p>' });
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend() });
+    const extracted = await extractor.extractPage(`${server.url}/`);
+    console.log('   Page tokenCount:', extracted.metadata.tokenCount > 0);
+    const result = await extractor.extractPages([`${server.url}/`]);
+    console.log('   Stats totalTokens:', result.stats.totalTokens === extracted.metadata.tokenCount);
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 21: Structured Extraction
+async function testStructuredExtraction() {
+  console.log('\n✅ Test 21: Structured Extraction');
+  const server = await startFixtureServer({
+    '/product': `<html><head><title>Trail Shoe</title></head><body>
+      <h1 class="name">Trail Shoe &amp; Sock</h1>
+      <span class="price" data-currency="USD">$1,299.00</span>
+      <ul class="tags"><li>running<li>outdoor</ul>
+      <p>SKU: TS-42. Ships from Oslo.</p>
+    </body></html>`
+  });
+
+  interface Product { name: string; price: number; currency: string; sku: string; tags: string[]; origin: string; url: string }
+  const schema = {
+    type: 'object' as const,
+    required: ['name', 'price', 'sku', 'origin'],
+    properties: {
+      name: { type: 'string' as const },
+      price: { type: 'number' as const, minimum: 0 },
+      currency: { type: 'string' as const, enum: ['USD', 'EUR'] },
+      sku: { type: 'string' as const, pattern: '^TS-\\d+$' },
+      tags: { type: 'array' as const, items: { type: 'string' as const } },
+      origin: { type: 'string' as const },
+      url: { type: 'string' as const, format: 'uri' }
+    }
+  };
+  const rules = {
+    name: { selector: 'h1.name' },
+    price: { selector: '.price', regex: /\$([\d,.]+)/ },
+    currency: { selector: 'span[data-currency]', attribute: 'data-currency' },
+    sku: { regex: 'SKU:\\s*([A-Z]+-\\d+)' },
+    tags: { selector: 'ul.tags > li' }
+  };
+  const prompts: string[] = [];
+  const llm = {
+    name: 'stub',
+    complete: async ({ prompt }: { prompt: string }) => {
+      prompts.push(prompt);
+      return { text: '```json\n{"origin": "Oslo"}\n```' };
+    }
+  };
+
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend(), llm });
+    const result = await extractor.extractStructured<Product>(`${server.url}/product`, schema, { rules });
+    console.log('   Data:', JSON.stringify(result.data));
+    console.log('   Valid:', result.valid, '- sources:', JSON.stringify(result.sources));
+    console.log('   Confidence:', JSON.stringify(result.confidence));
+    console.log('   LLM asked only for missing fields:', prompts.length === 1 && prompts[0].includes('"origin"') && !prompts[0].includes('"price"'));
+
+    const offline = new WebExtractor({ backend: new HttpBackend() });
+    const pages = await offline.extractPages([`${server.url}/product`]);
+    const [fromMarkdown] = await offline.extractStructuredFromPages<Product>(pages.pages, schema, { rules });
+    console.log('   From text pages:', JSON.stringify(fromMarkdown.data), '- errors:', fromMarkdown.errors.map(e => `${e.path} ${e.message}`));
+
+    const errors = validateSchema({ name: 1, price: -5, extra: true }, { ...schema, additionalProperties: false });
+    console.log('   Validation errors:', errors.map(e => `${e.path} ${e.message}`));
+    console.log('   Selector:', querySelectorAll(parseHtml('<div id="a"><p class="x y">One</p><section><p class="x">Two</p></section></div>'), '#a > p.x, section p').map(getTextContent));
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 22: LLM Summaries and Q&A
+async function testSummaries() {
+  console.log('\n✅ Test 22: LLM Summaries and Q&A');
+  const paragraphs = Array.from({ length: 6 }, (_, i) =>
+    `<p>Section ${i + 1} explains how the tide mill grinds grain. The mill was restored in 1998 by volunteers from the harbour town.</p>`
+  ).join('');
+  const server = await startFixtureServer({
+    '/': '<html><head><title>Tide Mill</title></head><body><h1>Tide Mill</h1><a href="/history">History</a><p>The tide mill opens daily at 10am. Entry costs 5 euros.</p></body></html>',
+    '/history': `<html><head><title>History</title></head><body><h1>History</h1>${paragraphs}</body></html>`,
+    '/v1/chat/completions': {
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        choices: [{ message: { content: 'pong' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 3 }
+      })
+    },
+    '/v1/embeddings': {
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ data: [{ index: 0, embedding: [0.6, 0.8] }] })
+    }
+  });
+
+  const llm = new MockLLMProvider({
+    pricing: { inputPerMillion: 2, outputPerMillion: 8 },
+    respond: ({ prompt }) => {
+      const content = prompt.split(/\n\n/).pop() || '';
+      if (prompt.startsWith('Question:')) {
+        return /opens daily/.test(content) ? 'Opens daily at 10am.' : 'NONE';
+      }
+      return content.split(/(?<=\.)\s/)[0];
+    }
+  });
+
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend(), llm });
+    const result = await extractor.extractWebsite(server.url, { maxPages: 2 });
+
+    const home = result.pages.find(p => p.title === 'Tide Mill')!;
+    const single = await extractor.summarizePage(home);
+    console.log('   Page summary:', JSON.stringify(single.summary), '- requests:', single.usage.requests);
+
+    const history = result.pages.find(p => p.title === 'History')!;
+    const before = llm.requests.length;
+    const mapped = await extractor.summarizePage(history, { maxChunkTokens: 40 });
+    console.log('   Map-reduce requests:', mapped.usage.requests, '- recorded:', llm.requests.length - before === mapped.usage.requests);
+
+    const site = await extractor.summarizeSite(result);
+    console.log('   Site summary pages:', site.pages.length, '- summary:', site.summary.length > 0);
+
+    const answer = await extractor.askSite(result, 'When does the tide mill open?');
+    console.log('   Answer:', JSON.stringify(answer.answer), '- sources:', answer.sources.map(u => new URL(u).pathname));
+    console.log('   Stats llmUsage:', result.stats.llmUsage!.requests === site.usage.requests + answer.usage.requests, '- cost > 0:', result.stats.llmUsage!.cost > 0);
+
+    const custom = await extractor.summarizePage(home, { templates: { summarizeChunk: 'TL;DR {{title}}\n\n{{content}}' } });
+    console.log('   Custom template used:', llm.requests[llm.requests.length - 1].prompt.startsWith('TL;DR Tide Mill'), '-', custom.usage.requests);
+
+    try {
+      await new WebExtractor({ backend: new HttpBackend() }).summarizePage(home);
+    } catch (error) {
+      console.log('   Without LLM:', (error as Error).message);
+    }
+
+    const remote = new OpenAICompatibleProvider({ model: 'test', apiKey: 'key', baseUrl: `${server.url}/v1`, embeddingModel: 'embed' });
+    const completion = await remote.complete({ prompt: 'hi', system: 'be brief' });
+    const embeddings = await remote.embed(['hi']);
+    console.log('   OpenAI-compatible:', completion.text, JSON.stringify(completion.usage), JSON.stringify(embeddings.vectors));
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 23: Embeddings and Vector Index
+async function testVectorIndex() {
+  console.log('\n✅ Test 23: Embeddings and Vector Index');
+  const server = await startFixtureServer({
+    '/': '<html><head><title>Garden Guide</title></head><body><h1>Garden Guide</h1><p>Tips for the garden.</p><a href="/tomatoes">Tomatoes</a> <a href="/compost">Compost</a></body></html>',
+    '/tomatoes': '<html><head><title>Growing Tomatoes</title></head><body><h1>Tomatoes</h1><p>Tomato plants need full sun, deep watering and stakes to support the fruit.</p><h2>Pests</h2><p>Hornworms eat tomato leaves; pick them off by hand.</p></body></html>',
+    '/compost': '<html><head><title>Compost</title></head><body><h1>Compost</h1><p>A compost heap turns kitchen scraps and dry leaves into rich soil. Turn the heap every week.</p></body></html>',
+    '/embed': {
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ embeddings: [[3, 4]] })
+    },
+    '/embed-invalid': {
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ data: [{ index: 0, embedding: 'oops' }] })
+    }
+  });
+  const file = join(tmpdir(), `vector-index-${process.pid}.json`);
+
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend() });
+    const result = await extractor.extractWebsite(server.url, { maxPages: 3 });
+    const index = await extractor.buildIndex(result, { chunking: { maxTokens: 30 } });
+    console.log('   Indexed chunks:', index.size, '- pages:', index.urls.length);
+
+    const [hit] = await index.search('how do I stop hornworms eating my tomato plants', 3);
+    console.log('   Top hit:', hit.title, new URL(hit.url).pathname, '- score:', hit.score.toFixed(2));
+    const compost = await index.search('kitchen scraps', 1, { minScore: 0.1 });
+    console.log('   Kitchen scraps:', compost.map(h => h.title));
+    const filtered = await index.search('tomato', 5, { urls: [`${server.url}/compost`] });
+    console.log('   Filtered to /compost:', filtered.every(h => h.url.endsWith('/compost')));
+
+    await index.save(file);
+    const loaded = await VectorIndex.load(file, new HashingEmbedder());
+    const [reloaded] = await loaded.search('how do I stop hornworms eating my tomato plants', 1);
+    console.log('   Reloaded same hit:', reloaded.id === hit.id, Math.abs(reloaded.score - hit.score) < 1e-9);
+
+    try {
+      await VectorIndex.load(file, new HttpEmbedder({ url: `${server.url}/embed` }));
+    } catch (error) {
+      console.log('   Wrong embedder rejected:', (error as Error).message.startsWith("Index was built with embedder 'hashing'"));
+    }
+
+    console.log('   Removed chunks:', loaded.removePage(`${server.url}/compost`), '- left:', loaded.size);
+    const [a, b] = await new HashingEmbedder({ dimensions: 64 }).embed(['same text', 'same text']);
+    console.log('   Deterministic:', a.length, JSON.stringify(a) === JSON.stringify(b));
+    const remote = await new HttpEmbedder({ url: `${server.url}/embed`, model: 'nomic' }).embed(['hello']);
+    console.log('   HTTP embedder:', JSON.stringify(remote));
+    try {
+      await new HttpEmbedder({ url: `${server.url}/embed-invalid` }).embed(['hello']);
+    } catch (error) {
+      console.log('   Invalid vector rejected:', (error as Error).message);
+    }
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    try { unlinkSync(file); } catch { /* not written */ }
+    await server.close();
+  }
+}
+
+// Test 24: Near-Duplicate Detection
+async function testNearDuplicates() {
+  console.log('\n✅ Test 24: Near-Duplicate Detection');
+  const article = 'Install the command line tool with the package manager of your system. ' +
+    'Then run the init command in an empty folder to create a project with a config file, ' +
+    'a source directory and an example test. The config file sets the output path, the ' +
+    'target runtime and which plugins load at startup. Run the build command to compile.';
+  const page = (title: string, body: string, links = '') =>
+    `<html><head><title>${title}</title></head><body><h1>Getting Started</h1><p>${body}</p>${links}</body></html>`;
+  const server = await startFixtureServer({
+    '/': page('Getting Started', article, '<a href="/print">Print</a> <a href="/de">Deutsch</a> <a href="/faq">FAQ</a>'),
+    '/print': page('Getting Started (print)', `${article} Printed from the docs site.`),
+    '/de': page('Getting Started', article.replace('Install', 'Installiere')),
+    '/faq': page('FAQ', 'Frequently asked questions about licensing, pricing, support hours and refunds for teams.')
+  });
+
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend() });
+    const dropped = await extractor.extractWebsite(server.url, { maxPages: 4, dedupeContent: 0.7 });
+    console.log('   Pages kept:', dropped.pages.map(p => new URL(p.url).pathname).sort());
+    console.log('   Duplicates:', dropped.duplicates.map(d => `${new URL(d.url).pathname} -> ${new URL(d.duplicateOf).pathname}`).sort());
+    console.log('   Similarities >= 0.7:', dropped.duplicates.every(d => d.similarity >= 0.7));
+
+    const merged = await extractor.extractWebsite(server.url, { maxPages: 4, dedupeContent: { threshold: 0.7, action: 'merge' } });
+    const home = merged.pages.find(p => new URL(p.url).pathname === '/')!;
+    console.log('   Merged into home:', (home.metadata.duplicateUrls || []).map((u: string) => new URL(u).pathname).sort());
+
+    const all = await extractor.extractWebsite(server.url, { maxPages: 4 });
+    console.log('   Without dedupe:', all.pages.length, '- duplicates:', all.duplicates.length);
+    const fingerprint = all.pages[0].metadata.fingerprint!;
+    console.log('   Fingerprint:', fingerprint.minHash.length, 'hashes, simHash', /^[0-9a-f]{16}$/.test(fingerprint.simHash));
+
+    const near = `${article} Printed from the docs site.`;
+    console.log('   MinHash similarity near/far:',
+      minHashSimilarity(minHash(article), minHash(near)).toFixed(2),
+      minHashSimilarity(minHash(article), minHash('Frequently asked questions about licensing and refunds')).toFixed(2));
+    console.log('   SimHash distance near/far:',
+      simHashDistance(simHash(article), simHash(near)) < simHashDistance(simHash(article), simHash('Frequently asked questions about licensing and refunds')));
+
+    const lsh = new LshIndex({ bands: 16 });
+    lsh.add('a', minHash(article));
+    lsh.add('b', minHash('Frequently asked questions about licensing and refunds'));
+    console.log('   LSH query:', JSON.stringify(lsh.query(minHash(near), 0.5).map(m => m.key)), '- size:', lsh.size);
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 25: Canonical URLs and Redirects
+async function testCanonicalUrls() {
+  console.log('\n✅ Test 25: Canonical URLs and Redirects');
+  console.log('   Tracking params:', normalizeUrl('https://example.com/a?utm_source=x&id=7&fbclid=abc&UTM_Medium=y', { removeTrackingParams: true }));
+  console.log('   Custom list:', normalizeUrl('https://example.com/a?ref=home&utm_source=x', { removeTrackingParams: true, trackingParams: ['ref'] }));
+  console.log('   Fold www + ports + index:', normalizeUrl('https://WWW.example.com:443/docs/index.html', { ...CRAWL_URL_OPTIONS, foldWww: true }));
+  console.log('   Defaults unchanged:', normalizeUrl('http://www.example.com:80/index.php?gclid=1'));
+
+  const page = (title: string, head = '', links = '') =>
+    `<html><head><title>${title}</title>${head}</head><body><h1>${title}</h1><p>Content of ${title}.</p>${links}</body></html>`;
+  const server = await startFixtureServer({
+    '/': page('Home', '', '<a href="/old">Old</a> <a href="/new">New</a> <a href="/variant">Variant</a> <a href="/guide">Guide</a> <a href="/guide?utm_campaign=launch">Guide</a>'),
+    '/old': { status: 301, headers: { location: '/new' }, body: '' },
+    '/new': page('New'),
+    '/variant': page('Variant', '<link rel="canonical" href="/guide">'),
+    '/guide': page('Guide', '<meta property="og:url" content="/guide">')
+  });
+
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend() });
+    const result = await extractor.extractWebsite(server.url, { maxPages: 10 });
+    const path = (url?: string) => url && new URL(url).pathname;
+    console.log('   Pages:', result.pages.map(p => `${path(p.url)} (final ${path(p.metadata.finalUrl)}, canonical ${path(p.metadata.canonicalUrl) || '-'})`));
+    console.log('   Duplicates:', result.duplicates.map(d => `${path(d.url)} -> ${path(d.duplicateOf)} [${d.reason}]`));
+    console.log('   Tracking link not fetched:', !server.requests.some(r => r.includes('utm_')));
+
+    const all = await extractor.extractWebsite(server.url, { maxPages: 10, dedupeCanonical: false });
+    console.log('   Without canonical dedupe:', all.pages.length, 'pages');
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 26: Public Suffix List
+async function testPublicSuffixes() {
+  console.log('\n✅ Test 26: Public Suffix List');
+  const hosts = ['https://shop.example.co.uk/cart', 'foo.github.io', 'a.b.example.com', 'www.ck', 'x.y.ck', 'co.uk', 'localhost', 'münchen.de', 'http://192.168.0.1:8080', 'http://[::1]/'];
+  for (const host of hosts) {
+    console.log(`   ${host} → suffix ${getPublicSuffix(host)}, domain ${getRegistrableDomain(host)}`);
+  }
+  console.log('   Unicode:', getRegistrableDomain('https://www.xn--mnchen-3ya.de', { unicode: true }));
+  console.log('   Without private rules:', getRegistrableDomain('foo.github.io', { includePrivate: false }));
+  console.log('   Root domain:', extractRootDomain('https://api.shop.example.com.au'), extractRootDomain('http://10.0.0.1'));
+  console.log('   foo.co.uk vs bar.co.uk same site:', isSameRootDomain('https://foo.co.uk', 'https://bar.co.uk'));
+  console.log('   docs vs www same site:', isSameRootDomain('https://docs.example.com', 'https://www.example.com'));
+  console.log('   alice.github.io subdomain of github.io:', isSubdomain('https://alice.github.io', 'https://github.io'));
+
+  const custom = new PublicSuffixList('// ===BEGIN ICANN DOMAINS===\ntest\n*.wild.test\n!keep.wild.test\n// ===END ICANN DOMAINS===');
+  console.log('   Custom list:', custom.size, 'domains,', custom.getRegistrableDomain('a.b.wild.test'), custom.getRegistrableDomain('x.keep.wild.test'));
+}
+
+// Test 27: Rich Page Metadata
+async function testRichMetadata() {
+  console.log('\n✅ Test 27: Rich Page Metadata');
+  const dates = ['2024-03-05', '2024-03-05T10:00:00+01:00', '2024-03-05 10:00', 'Tue, 05 Mar 2024 10:00:00 GMT', 'March 5, 2024', '1709632800', 'soon'];
+  console.log('   Dates:', dates.map(date => `${date} → ${normalizeDate(date)}`));
+
+  const article = `<html lang="en-GB"><head><title>Launch Day</title>
+    <meta name="description" content="We shipped.">
+    <meta name="author" content="By Jane Doe">
+    <meta name="keywords" content="release, crawling">
+    <meta property="og:site_name" content="Example Blog">
+    <meta property="og:image" content="/img/launch.png">
+    <meta property="og:type" content="article">
+    <meta property="article:published_time" content="2024-03-05T10:00:00+01:00">
+    <meta property="article:tag" content="Crawling">
+    <meta name="twitter:card" content="summary_large_image">
+    <meta name="twitter:site" content="@example">
+    <script type="application/ld+json">{"@context": "https://schema.org", "@graph": [
+      {"@type": "BlogPosting", "headline": "Launch Day", "author": [{"@type": "Person", "name": "John Roe"}], "dateModified": "2024-03-06"},
+      {"@type": "BreadcrumbList", "itemListElement": [{"@type": "ListItem", "position": 1, "name": "Blog"}]}
+    ]}</script>
+    <script type="application/ld+json">{ not json</script>
+    </head><body><h1>Launch Day</h1><p>We shipped the release today.</p></body></html>`;
+  const product = `<html><head><title>Widget</title>
+    <script type="application/ld+json">[{"@type": "Product", "name": "Widget", "image": {"@type": "ImageObject", "url": "https://cdn.example.com/widget.png"}, "offers": {"@type": "Offer", "price": "9.99"}}, {"@type": "WebSite", "name": "Widget Store"}]</script>
+    </head><body><h1>Widget</h1><p>Price: <time itemprop="datePublished" datetime="2023-11-02">Nov 2</time></p></body></html>`;
+  const parsed = extractHtmlMetadata(product, 'https://shop.example.com/widget');
+  console.log('   Product:', parsed.siteName, parsed.image, parsed.publishedAt, findJsonLdEntities(parsed.jsonLd || [], 'Product').length);
+
+  const server = await startFixtureServer({ '/post': article });
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend() });
+    const page = await extractor.extractPage(`${server.url}/post`);
+    const { authors, publishedAt, modifiedAt, siteName, image, keywords, openGraph, twitter, jsonLd, language } = page.metadata;
+    console.log('   Authors:', authors);
+    console.log('   Published:', publishedAt, 'modified:', modifiedAt);
+    console.log('   Site:', siteName, 'language:', language);
+    console.log('   Image is absolute:', image === `${server.url}/img/launch.png`);
+    console.log('   Keywords:', keywords);
+    console.log('   OpenGraph:', openGraph);
+    console.log('   Twitter:', twitter);
+    console.log('   JSON-LD types:', (jsonLd || []).map(entity => entity['@type']));
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 28: Language Detection
+async function testLanguageDetection() {
+  console.log('\n✅ Test 28: Language Detection');
+  const samples: Record<string, string> = {
+    en: 'We shipped the new release today and everyone is very happy with the results.',
+    fr: 'Nous avons publié la nouvelle version aujourd’hui et tout le monde est content.',
+    es: 'Hoy publicamos la nueva versión y todos están muy contentos con los resultados.',
+    de: 'Der schnelle braune Fuchs springt über den faulen Hund, während der Bauer zuschaut.',
+    pl: 'Szybki brązowy lis przeskakuje nad leniwym psem, a rolnik patrzy z werandy.',
+    tr: 'Hızlı kahverengi tilki tembel köpeğin üzerinden atlarken çiftçi verandadan izliyor.',
+    ru: 'Быстрая коричневая лиса прыгает через ленивую собаку, пока фермер смотрит с веранды.',
+    uk: 'Швидка коричнева лисиця стрибає через ледачого собаку, поки фермер дивиться з веранди.',
+    ar: 'يقفز الثعلب البني السريع فوق الكلب الكسول بينما يراقب المزارع من الشرفة.',
+    hi: 'तेज़ भूरी लोमड़ी आलसी कुत्ते के ऊपर से कूदती है जबकि किसान बरामदे से देखता है।',
+    ja: '素早い茶色の狐は怠け者の犬を飛び越え、農夫はベランダから見ている。',
+    zh: '敏捷的棕色狐狸跳过了懒狗，农夫在门廊上看着。',
+    ko: '빠른 갈색 여우가 게으른 개를 뛰어넘고 농부는 현관에서 지켜본다.',
+    el: 'Η γρήγορη καφέ αλεπού πηδάει πάνω από τον τεμπέλη σκύλο.',
+  };
+  const misses = Object.entries(samples).filter(([language, text]) => identifyLanguage(text)?.language !== language);
+  console.log(`   Detected ${Object.keys(samples).length - misses.length}/${Object.keys(samples).length}:`, misses.map(([language]) => language));
+  const news: Array<[string, string]> = [
+    ['es', 'El gobierno anunció el martes un nuevo plan para reducir el precio de la vivienda en las grandes ciudades.'],
+    ['es', 'La empresa presentó ayer sus resultados trimestrales, que superaron las previsiones de los analistas.'],
+    ['es', 'Los científicos descubrieron una nueva especie de rana en la selva amazónica durante una expedición.'],
+    ['pt', 'O governo anunciou na terça-feira um novo plano para reduzir o preço da habitação nas grandes cidades.'],
+    ['pt', 'A empresa apresentou ontem os seus resultados trimestrais, que superaram as previsões dos analistas.'],
+    ['pt', 'Os cientistas descobriram uma nova espécie de sapo na floresta amazônica durante uma expedição.'],
+    ['id', 'Pemerintah mengumumkan rencana baru pada hari Selasa untuk menurunkan harga rumah di kota-kota besar.'],
+    ['id', 'Perusahaan itu melaporkan keuntungan yang lebih tinggi dari perkiraan para analis kemarin.'],
+    ['id', 'Saya tidak tahu apakah saya bisa datang tepat waktu untuk makan malam nanti.'],
+    ['nb', 'Regjeringen kunngjorde tirsdag en ny plan for å redusere boligprisene i de store byene.'],
+    ['nb', 'Selskapet la i går fram kvartalstall som var bedre enn analytikerne hadde ventet.'],
+    ['nb', 'Forskerne oppdaget en ny froskeart i regnskogen under en ekspedisjon i fjor.'],
+  ];
+  const newsMisses = news
+    .map(([language, text]) => [language, identifyLanguage(text)] as const)
+    .filter(([language, detection]) => detection?.language !== language)
+    .map(([language, detection]) => `${language} as ${detection?.language} (${detection?.confidence.toFixed(2)})`);
+  console.log(`   News sentences ${news.length - newsMisses.length}/${news.length}:`, newsMisses);
+  console.log('   Russian:', identifyLanguage(samples.ru));
+  console.log('   Short text confidence:', identifyLanguage('Hello world')?.confidence);
+  console.log('   Restricted to en/es:', identifyLanguage(samples.fr, { only: ['en', 'es'] })?.language);
+  console.log('   detectLanguage:', detectLanguage('This is an English text about the web'), detectLanguage('12345 !!!'));
+  const supported = getSupportedLanguages();
+  console.log('   Supported:', Object.values(supported).flat().length, 'languages in', Object.keys(supported).length, 'scripts');
+
+  const mixed = `# Install\n\n${samples.en} Run the installer and follow the steps.\n\n## Deutsch\n\n${samples.de}\n\n${samples.ja}`;
+  const sections = detectLanguageSections(mixed);
+  console.log('   Sections:', sections.map(s => `${s.language} [${s.start}-${s.end}]`), 'cover text:', sections[0].start === 0 && sections[sections.length - 1].end === mixed.length);
+
+  const server = await startFixtureServer({
+    '/de': `<html><head><title>Anleitung</title></head><body><p>${samples.de}</p><p>Bewahren Sie Ihren Schlüssel sicher auf und teilen Sie ihn mit niemandem.</p></body></html>`,
+    '/mixed': `<html lang="en"><head><title>Guide</title></head><body><p>${`${samples.en} `.repeat(8)}</p><p>${`${samples.fr} `.repeat(8)}</p></body></html>`,
+  });
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend() });
+    const german = await extractor.extractPage(`${server.url}/de`);
+    console.log('   German page:', german.metadata.language, german.metadata.detectedLanguage, german.metadata.languageSections);
+    const page = await extractor.extractPage(`${server.url}/mixed`);
+    console.log('   Mixed page:', page.metadata.language, (page.metadata.languageSections || []).map(s => s.language));
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 29: HTML to Markdown
+async function testHtmlToMarkdown() {
+  console.log('\n✅ Test 29: HTML to Markdown');
+  const html = `<html><head><title>Install the CLI</title></head><body>
+    <header><a href="/">Home</a> <a href="/docs">Docs</a></header>
+    <nav><ul><li><a href="/pricing">Pricing</a></li><li><a href="/blog">Blog</a></li></ul></nav>
+    <div class="cookie-banner">We use cookies. <button>Accept</button></div>
+    <div class="layout">
+      <div class="sidebar"><a href="/a">Related A</a> <a href="/b">Related B</a></div>
+      <div class="post-body">
+        <h1>Install the CLI</h1>
+        <p>The <strong>CLI</strong> lets you manage projects, deploy apps, and read logs from your terminal. It runs on Linux, macOS and Windows.</p>
+        <p>See the <a href="../reference/cli.html">CLI reference</a> for every command, or the <em>quick start</em> below.</p>
+        <ol>
+          <li>Download the binary<ul><li>Linux: <code>curl -O</code></li><li><input type="checkbox" checked> macOS</li></ul></li>
+          <li>Log in:<pre><code class="language-bash">cli login\n\ncli deploy --prod</code></pre></li>
+        </ol>
+        <table><tr><th>OS</th><th align="right">Size</th></tr><tr><td>Linux</td><td>12 MB</td></tr><tr><td>Windows | ARM</td><td>14 MB</td></tr></table>
+        <blockquote>Keep it <img src="/img/up.png" alt="up"> to date.</blockquote>
+      </div>
+    </div>
+    <footer>© 2024 Example · <a href="/privacy">Privacy</a></footer>
+  </body></html>`;
+
+  const page = extractFromHtml(html, 'https://example.com/docs/guide/install');
+  console.log('   Title:', page.title, '- links:', page.links.length);
+  console.log(page.markdown.split('\n').map(line => `   | ${line}`).join('\n'));
+  console.log('   Boilerplate removed:', !/cookies|Pricing|Related|Privacy/.test(page.markdown));
+  console.log('   Text:', JSON.stringify(page.text.split('\n')[0]));
+  console.log('   Full page keeps nav:', extractFromHtml(html, 'https://example.com/', { onlyMainContent: false }).markdown.includes('[Pricing](https://example.com/pricing)'));
+  console.log('   Excluded selector:', !extractFromHtml(html, 'https://example.com/', { excludeSelectors: ['table'] }).markdown.includes('| OS |'));
+  const query = extractFromHtml('<p><a href="/list?page=2&amp;sort=asc">Next</a></p>', 'https://example.com/');
+  console.log('   Links match Markdown:', query.links[0], query.markdown.includes(`(${query.links[0]})`));
+  console.log('   Fragment:', htmlToMarkdown('<p>a_b *c* <code>x`y</code></p><hr><h3>End <em> now </em></h3>'));
+
+  const server = await startFixtureServer({ '/install': html });
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend() });
+    const markdown = await extractor.extractPage(`${server.url}/install`);
+    const text = await extractor.extractPage(`${server.url}/install`, { format: 'text', onlyMainContent: false });
+    console.log('   Backend markdown has table:', markdown.content.includes('| Linux | 12 MB |'), '- text has nav:', text.content.includes('Pricing'));
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 30: Screenshots and Images
+async function testScreenshotsAndImages() {
+  console.log('\n✅ Test 30: Screenshots and Images');
+  const html = `<html><head><title>Gallery</title></head><body>
+    <nav><img src="/logo.svg" alt="Logo"></nav>
+    <article>
+      <h1>Harbour Gallery</h1>
+      <p>The harbour at dawn, photographed from the old lighthouse, shows the fishing fleet returning with the morning catch.</p>
+      <figure><img src="img/dawn.jpg" alt="Boats at dawn" width="1200" height="800"><figcaption>Dawn over the harbour</figcaption></figure>
+      <img src="data:image/gif;base64,R0lGOD" data-src="/img/lazy.webp" alt="Lazy">
+      <img srcset="/img/net-400.jpg 400w, /img/net-1600.jpg 1600w" alt="Nets">
+      <img src="/pixel.gif" width="1" height="1">
+      <img src="img/dawn.jpg" alt="Repeat">
+    </article>
+  </body></html>`;
+  const firecrawlDoc = (path: string, screenshot: string) => ({
+    markdown: `# ${path}`,
+    screenshot,
+    metadata: { title: path, sourceURL: `https://example.com${path}`, statusCode: 200 }
+  });
+  const server = await startFixtureServer({
+    '/gallery': html,
+    '/v1/scrape': () => ({
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: true, data: firecrawlDoc('/expired', `${server.url}/expired.png`) })
+    }),
+    '/v1/crawl': { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ success: true, id: 'job' }) },
+    '/v1/crawl/job': () => ({
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        success: true,
+        status: 'completed',
+        data: [firecrawlDoc('/expired', `${server.url}/expired.png`), firecrawlDoc('/inline', 'data:image/png;base64,iVBORw==')]
+      })
+    })
+  });
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+  const http = new HttpBackend();
+  const modes: string[] = [];
+  const renderer = {
+    name: 'renderer',
+    capabilities: { screenshots: true, images: true },
+    scrape: async (url: string, options: any) => {
+      modes.push(options.screenshot);
+      const page = await http.scrape(url, options);
+      return options.screenshot ? { ...page, screenshot: { data: png, mimeType: 'image/png' } } : page;
+    },
+    crawl: (url: string, options: any) => http.crawl(url, options)
+  };
+  const directory = join(tmpdir(), `web-extractor-shots-${process.pid}`);
+
+  try {
+    const plain = new WebExtractor({ backend: http });
+    const page = await plain.extractPage(`${server.url}/gallery`, { includeImages: true });
+    console.log('   Images:', JSON.stringify(page.images));
+    console.log('   Fragment:', JSON.stringify(extractImages('<img src="a.png" width="50%" title=" Map ">', 'https://example.com/docs/')));
+
+    try {
+      await plain.extractPage(`${server.url}/gallery`, { includeScreenshot: true });
+      console.log('   ❌ Screenshot on HttpBackend should fail');
+    } catch (error) {
+      const capabilityError = error as InstanceType<typeof UnsupportedCapabilityError>;
+      console.log('   Unsupported:', capabilityError instanceof UnsupportedCapabilityError, capabilityError.capability, '-', capabilityError.message);
+    }
+
+    const extractor = new WebExtractor({ backend: renderer });
+    const shot = await extractor.extractPage(`${server.url}/gallery`, { includeScreenshot: true });
+    console.log('   Buffer:', Buffer.isBuffer(shot.screenshot?.data), shot.screenshot?.mimeType, shot.screenshot?.fullPage, '- images:', shot.images === undefined);
+
+    const saved = await extractor.extractPages([`${server.url}/gallery`], { includeScreenshot: { fullPage: true, directory } });
+    const file = saved.pages[0].screenshot?.path || '';
+    console.log('   Saved:', file.replace(directory, '<dir>'), readFileSync(file).equals(png), '- no data:', saved.pages[0].screenshot?.data === undefined);
+    console.log('   Backend modes:', modes);
+
+    const warnings: string[] = [];
+    const logger = { ...silentLogger, warn: (message: string) => { warnings.push(message); } };
+    const firecrawl = new FirecrawlBackend({ apiKey: 'fc-test', apiUrl: server.url, logger });
+    const scraped = await firecrawl.scrape('https://example.com/expired', { formats: ['markdown'], screenshot: 'viewport' });
+    const crawled = await firecrawl.crawl('https://example.com', { formats: ['markdown'], screenshot: 'viewport' });
+    console.log('   Failed screenshot download:', scraped.markdown, scraped.screenshot === undefined,
+      '- crawl:', crawled.map((crawledPage) => `${crawledPage.url} ${crawledPage.screenshot ? 'shot' : 'none'}`).join(', '),
+      '- warnings:', warnings.length);
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+    await server.close();
+  }
+}
+
+// Test 31: Documents
+async function testDocuments() {
+  console.log('\n✅ Test 31: Documents');
+
+  // Minimal PDF: Helvetica text in Flate-compressed content streams
+  const buildPdf = (contents: string[], info: string) => {
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${contents.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${contents.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      info,
+    ];
+    const streams: Buffer[] = [];
+    contents.forEach((content, i) => {
+      objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${6 + i * 2} 0 R${i === 1 ? ' /Annots [<< /Subtype /Link /A << /S /URI /URI (https://example.com/tides) >> >>]' : ''} >>`);
+      const data = deflateSync(Buffer.from(content, 'latin1'));
+      streams[objects.length] = data;
+      objects.push(`<< /Length ${data.length} /Filter /FlateDecode >>`);
+    });
+
+    const parts: Buffer[] = [Buffer.from('%PDF-1.4\n')];
+    let size = parts[0].length;
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+      offsets.push(size);
+      const body = streams[i]
+        ? Buffer.concat([Buffer.from(`${i + 1} 0 obj\n${object}\nstream\n`), streams[i], Buffer.from('\nendstream\nendobj\n')])
+        : Buffer.from(`${i + 1} 0 obj\n${object}\nendobj\n`, 'latin1');
+      parts.push(body);
+      size += body.length;
+    });
+    const xref = `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+      offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    parts.push(Buffer.from(`${xref}trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${size}\n%%EOF\n`));
+    return Buffer.concat(parts);
+  };
+
+  // Minimal ZIP of deflated files
+  const buildZip = (files: Record<string, string>) => {
+    const locals: Buffer[] = [];
+    const central: Buffer[] = [];
+    let offset = 0;
+    for (const [name, content] of Object.entries(files)) {
+      const data = Buffer.from(content);
+      const compressed = deflateRawSync(data);
+      const header = Buffer.alloc(30);
+      header.writeUInt32LE(0x04034b50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(8, 8);
+      header.writeUInt32LE(crc32(data), 14);
+      header.writeUInt32LE(compressed.length, 18);
+      header.writeUInt32LE(data.length, 22);
+      header.writeUInt16LE(name.length, 26);
+      const entry = Buffer.alloc(46);
+      entry.writeUInt32LE(0x02014b50, 0);
+      entry.writeUInt16LE(20, 4);
+      entry.writeUInt16LE(20, 6);
+      entry.writeUInt16LE(8, 10);
+      entry.writeUInt32LE(crc32(data), 16);
+      entry.writeUInt32LE(compressed.length, 20);
+      entry.writeUInt32LE(data.length, 24);
+      entry.writeUInt16LE(name.length, 28);
+      entry.writeUInt32LE(offset, 42);
+      locals.push(header, Buffer.from(name), compressed);
+      central.push(entry, Buffer.from(name));
+      offset += 30 + name.length + compressed.length;
+    }
+    const directory = Buffer.concat(central);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Object.keys(files).length, 8);
+    end.writeUInt16LE(Object.keys(files).length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    return Buffer.concat([...locals, directory, end]);
+  };
+
+  const pdf = buildPdf([
+    'BT /F1 24 Tf 72 720 Td (Harbour Tides) Tj ET\n' +
+    'BT /F1 12 Tf 72 680 Td (The harbour authority recorded heavy ferry traf-) Tj 0 -14 Td (fic in spring, with crossings up by a fifth.) Tj ET',
+    'BT /F1 12 Tf 72 720 Td [(Spring) -300 (tides)] TJ ( peak in March and September.) Tj ET',
+  ], '<< /Title (Harbour Tides 2024) /Author (Port Authority; Tide Office) /CreationDate (D:20240301120000Z) >>');
+
+  const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+  const docx = buildZip({
+    'word/document.xml': `<w:document ${W}><w:body>
+      <w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Berth Schedule</w:t></w:r></w:p>
+      <w:p><w:r><w:t xml:space="preserve">Ferries dock at </w:t></w:r><w:r><w:rPr><w:b/></w:rPr><w:t>berth 4</w:t></w:r><w:r><w:t>.</w:t></w:r></w:p>
+      <w:p><w:r><w:br w:type="page"/></w:r></w:p>
+      <w:tbl><w:tr><w:tc><w:p><w:r><w:t>Berth</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Vessel</w:t></w:r></w:p></w:tc></w:tr>
+      <w:tr><w:tc><w:p><w:r><w:t>4</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Ferry</w:t></w:r></w:p></w:tc></w:tr></w:tbl>
+    </w:body></w:document>`,
+    'word/styles.xml': `<w:styles ${W}><w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style></w:styles>`,
+    'docProps/core.xml': '<cp:coreProperties xmlns:cp="x" xmlns:dc="y" xmlns:dcterms="z"><dc:creator>Harbour Master</dc:creator><dcterms:modified>2024-05-02T08:00:00Z</dcterms:modified></cp:coreProperties>',
+  });
+
+  const server = await startFixtureServer({
+    '/': () => `<html><body><main><h1>Harbour</h1><p>Documents about the harbour and its tides.</p>
+      <a href="/tides.pdf">Tides</a> <a href="/berths.docx">Berths</a> <a href="/notes.txt">Notes</a> <a href="/about">About</a></main></body></html>`,
+    '/about': '<html><head><title>About</title></head><body><p>The harbour has served the town for centuries.</p></body></html>',
+    '/tides.pdf': { body: pdf, headers: { 'Content-Type': 'application/pdf' } },
+    '/berths.docx': { body: docx, headers: { 'Content-Type': 'application/octet-stream' } },
+    '/notes.txt': { body: 'Harbour notes\n\nTide tables are posted daily.\fSee https://example.com/notes for archives.', headers: { 'Content-Type': 'text/plain; charset=utf-8' } },
+    '/broken.pdf': { body: 'not a pdf', headers: { 'Content-Type': 'application/pdf' } },
+  });
+
+  try {
+    console.log('   Types:', detectDocumentType('application/pdf', 'https://example.com/a'), detectDocumentType(undefined, 'https://example.com/a.DOCX'), detectDocumentType('text/html', 'https://example.com/a.pdf'));
+
+    const extractor = new WebExtractor({ backend: new HttpBackend(), retry: { maxAttempts: 2, initialDelayMs: 10 } });
+    const report = await extractor.extractPage(`${server.url}/tides.pdf`, { chunking: { maxTokens: 20 } });
+    console.log('   PDF:', report.title, '-', report.metadata.documentType, report.metadata.pageCount, 'pages -', report.metadata.authors, report.metadata.publishedAt);
+    console.log('   PDF content:', JSON.stringify(report.content));
+    console.log('   PDF spans:', JSON.stringify(report.documentPages), '- text format matches:', (await extractor.extractPage(`${server.url}/tides.pdf`, { format: 'text' })).content === report.content.replace('# ', ''));
+    console.log('   Chunk pages:', report.chunks?.map((chunk) => chunk.pageNumbers?.join('+')).join(', '));
+
+    const berths = await extractor.extractPage(`${server.url}/berths.docx`, { format: 'html' });
+    console.log('   DOCX:', berths.title, '-', berths.metadata.documentType, berths.metadata.pageCount, 'pages -', berths.metadata.authors, berths.metadata.modifiedAt);
+    console.log('   DOCX content:', JSON.stringify(berths.content));
+
+    const notes = await extractor.extractPage(`${server.url}/notes.txt`, { format: 'text' });
+    console.log('   Text:', notes.title, '-', notes.metadata.contentType, JSON.stringify(notes.documentPages?.map((span) => notes.content.slice(span.startOffset, span.endOffset))));
+
+    try {
+      await extractor.extractPage(`${server.url}/broken.pdf`);
+      console.log('   ❌ Broken PDF should fail');
+    } catch (error) {
+      const parseError = error as InstanceType<typeof DocumentParseError>;
+      console.log('   Broken:', parseError instanceof DocumentParseError, parseError.attempts, 'attempt -', parseError.message);
+    }
+
+    const bombs: Record<string, Buffer> = {
+      declared: buildZip({ 'word/document.xml': 'x' }),
+      inflated: buildZip({ 'word/document.xml': '0'.repeat(65 * 1024 * 1024) }),
+    };
+    // Central directory sizes: one claims 2GB, the other hides its real size
+    for (const [name, size] of [['declared', 0x7fffffff], ['inflated', 1]] as const) {
+      const zip = bombs[name];
+      zip.writeUInt32LE(size, zip.readUInt32LE(zip.length - 6) + 24);
+    }
+    const pdfBomb = buildPdf([`BT /F1 12 Tf (${'0'.repeat(65 * 1024 * 1024)}) Tj ET`], '<< >>');
+    for (const [name, data, type] of [['ZIP size', bombs.declared, 'docx'], ['ZIP inflate', bombs.inflated, 'docx'], ['PDF stream', pdfBomb, 'pdf']] as const) {
+      try {
+        extractDocument(data, `https://example.com/bomb.${type}`);
+        console.log(`   ❌ ${name} bomb should fail`);
+      } catch (error) {
+        console.log(`   ${name} bomb:`, error instanceof DocumentParseError, '-', (error as Error).message);
+      }
+    }
+
+    const pagesOnly = await extractor.extractWebsite(server.url, { maxPages: 10, maxDepth: 1 });
+    const withDocuments = await extractor.extractWebsite(server.url, { maxPages: 10, maxDepth: 1, includeDocuments: true });
+    const paths = (result: typeof pagesOnly) => result.pages.map((page) => new URL(page.url).pathname).sort();
+    console.log('   Crawl:', paths(pagesOnly), '- with documents:', paths(withDocuments));
+
+    const noDocuments = new WebExtractor({ backend: { name: 'pages', capabilities: {}, scrape: async () => ({ url: '', metadata: {} }), crawl: async () => [] } });
+    try {
+      await noDocuments.extractWebsite(server.url, { includeDocuments: true });
+      console.log('   ❌ includeDocuments without support should fail');
+    } catch (error) {
+      console.log('   Unsupported:', (error as Error).message);
+    }
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+// Test 32: Response Cache
+async function testResponseCache() {
+  console.log('\n✅ Test 32: Response Cache');
+  let version = 1;
+  const article = () => `<html><head><title>Tides v${version}</title></head><body><article><h1>Tides</h1><p>Revision ${version} of the harbour tide table, with high and low water for every day of the month.</p></article></body></html>`;
+  const server = await startFixtureServer({
+    '/tides': (req) => req.headers['if-none-match'] === `"v${version}"`
+      ? { status: 304, body: '', headers: { ETag: `"v${version}"` } }
+      : { body: article(), headers: { ETag: `"v${version}"` } },
+    '/moon': (req) => req.headers['if-modified-since'] === 'Mon, 01 Jul 2024 00:00:00 GMT'
+      ? { status: 304, body: '' }
+      : { body: '<html><head><title>Moon</title></head><body><p>Moon phases for the year.</p></body></html>', headers: { 'Last-Modified': 'Mon, 01 Jul 2024 00:00:00 GMT' } },
+    '/plain': '<html><head><title>Plain</title></head><body><p>No validators here.</p></body></html>',
+  });
+  const directory = join(tmpdir(), `web-extractor-cache-${process.pid}`);
+  const hits = (path: string) => server.requests.filter((request) => request === path).length;
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend(), cache: { ttl: 200 } });
+    const statuses: unknown[] = [];
+    statuses.push((await extractor.extractPage(`${server.url}/tides`)).metadata.cacheStatus);
+    statuses.push((await extractor.extractPage(`${server.url}/tides/`)).metadata.cacheStatus);
+    await wait(250);
+    const revalidated = await extractor.extractPage(`${server.url}/tides`);
+    statuses.push(revalidated.metadata.cacheStatus);
+    version = 2;
+    await wait(250);
+    const changed = await extractor.extractPage(`${server.url}/tides`);
+    statuses.push(changed.metadata.cacheStatus);
+    console.log('   Statuses:', statuses.join(' → '), '- requests:', hits('/tides'), '- title:', revalidated.title, '→', changed.title);
+
+    const bypass = await extractor.extractPage(`${server.url}/tides`, { cache: false });
+    const longLived = await extractor.extractPage(`${server.url}/moon`, { cacheTtl: 1 });
+    await wait(20);
+    const moon = await extractor.extractPage(`${server.url}/moon`);
+    console.log('   Bypass:', bypass.metadata.cacheStatus, hits('/tides'), '- Last-Modified:', longLived.metadata.cacheStatus, '→', moon.metadata.cacheStatus, hits('/moon'));
+    console.log('   Instance stats:', extractor.getCacheStats());
+
+    const batch = await extractor.extractPages([`${server.url}/tides`, `${server.url}/plain`, `${server.url}/moon`]);
+    const { cacheHits, cacheMisses, cacheRevalidations } = batch.stats;
+    console.log('   Batch stats:', { cacheHits, cacheMisses, cacheRevalidations });
+
+    const options = { formats: ['markdown' as const], onlyMainContent: true };
+    console.log('   Keys:', createCacheKey('https://Example.com/a/', options) === createCacheKey('https://example.com/a', options),
+      createCacheKey('https://example.com/a', options) === createCacheKey('https://example.com/a', { ...options, formats: ['text' as const] }));
+
+    const lru = new MemoryCache({ maxEntries: 2 });
+    const entry = (url: string) => ({ page: { url, metadata: {} }, storedAt: 0, expiresAt: 0 });
+    await lru.set('a', entry('a'));
+    await lru.set('b', entry('b'));
+    await lru.get('a');
+    await lru.set('c', entry('c'));
+    console.log('   LRU:', lru.size, (await lru.get('a')) !== undefined, (await lru.get('b')) === undefined);
+
+    const disk = new FileSystemCache({ directory });
+    await disk.set('shot', { ...entry('shot'), page: { url: 'shot', screenshot: { data: Buffer.from([1, 2, 3]), mimeType: 'image/png' }, metadata: {} } });
+    const restored = await disk.get('shot');
+    console.log('   Disk:', Buffer.isBuffer(restored?.page.screenshot?.data), restored?.page.screenshot?.data.equals(Buffer.from([1, 2, 3])), (await disk.get('missing')) === undefined);
+
+    const first = new WebExtractor({ backend: new HttpBackend(), cache: { store: new FileSystemCache({ directory }) } });
+    const second = new WebExtractor({ backend: new HttpBackend(), cache: { store: new FileSystemCache({ directory }) } });
+    const before = hits('/plain');
+    await first.extractPage(`${server.url}/plain`, { format: 'text' });
+    const shared = await second.extractPage(`${server.url}/plain`, { format: 'text' });
+    await disk.clear();
+    console.log('   Shared on disk:', shared.metadata.cacheStatus, hits('/plain') - before, '- cleared:', (await disk.get('shot')) === undefined);
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+    await server.close();
+  }
+}
+
+// Test 33: Incremental Crawls
+async function testIncrementalCrawls() {
+  console.log('\n✅ Test 33: Incremental Crawls');
+  let run = 1;
+  const page = (title: string, body: string) => `<html><head><title>${title}</title></head><body><main>${body}</main></body></html>`;
+  const server = await startFixtureServer({
+    '/': () => page('Home', run === 1
+      ? '<p>Harbour guide.</p><a href="/a">Tides</a> <a href="/b">Ferries</a> <a href="/c">Events</a>'
+      : '<p>Harbour guide.</p><a href="/a">Tides</a> <a href="/b">Ferries</a> <a href="/d">Parking</a>'),
+    '/a': (req) => req.headers['if-none-match'] === '"tides-1"'
+      ? { status: 304, body: '' }
+      : { body: page('Tides', '<h1>Tides</h1><p>High water at noon every day this month.</p>'), headers: { ETag: '"tides-1"' } },
+    '/b': () => page('Ferries', run === 1
+      ? '<h1>Ferries</h1><h2>Summer</h2><p>Boats leave hourly.</p><h2>Winter</h2><p>Boats leave at 9 and 17.</p>'
+      : '<h1>Ferries</h1><h2>Summer</h2><p>Boats leave every 30 minutes.</p><h2>Winter</h2><p>Boats leave at 9 and 17.</p><h2>Fares</h2><p>Adults pay 4 euros.</p>'),
+    '/c': () => run === 1 ? page('Events', '<p>Regatta in August.</p>') : { status: 404, body: 'Not found' },
+    '/d': page('Parking', '<p>Parking by the pier.</p>'),
+    '/sitemap.xml': () => `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"><url><loc>${server.url}/a</loc><lastmod>2024-06-01</lastmod></url></urlset>`,
+    '/v': (req) => {
+      if (req.headers['if-none-match'] === '"v-1"') {
+        conditional++;
+        return { status: 304, body: '' };
+      }
+      return { body: page('Versioned', '<p>Version one.</p>'), headers: run === 3 ? { ETag: '"v-1"' } : {} };
+    },
+  });
+  let conditional = 0;
+  const hits = (path: string) => server.requests.filter((request) => request === path).length;
+  const paths = (urls: string[]) => urls.map((url) => new URL(url).pathname).sort().join(' ');
+
+  try {
+    const extractor = new WebExtractor({ backend: new HttpBackend() });
+    const first = await extractor.extractWebsite(server.url, { maxPages: 10, manifestContent: true });
+    console.log('   First run:', Object.keys(first.manifest!.pages).length, 'pages in manifest - changes:', first.changes);
+
+    run = 2;
+    const previousManifest = JSON.parse(JSON.stringify(first.manifest)) as CrawlManifest;
+    const tidesBefore = hits('/a');
+    const second = await extractor.extractWebsite(server.url, { maxPages: 10, previousManifest, manifestContent: true });
+    const changes = second.changes!;
+    console.log('   Added:', paths(changes.added.map((added) => added.url)),
+      '- modified:', paths(changes.modified.map((change) => change.url)),
+      '- removed:', paths(changes.removed),
+      '- unchanged:', paths(changes.unchanged));
+    console.log('   Pages:', paths(second.pages.map((extracted) => extracted.url)), '- tides requests:', hits('/a') - tidesBefore);
+    const ferries = changes.modified.find((change) => change.url.endsWith('/b'))!;
+    console.log('   Sections:', ferries.sections.map((section) => `${section.change} ${section.heading}`).join(', '));
+    console.log('   Lines:', ferries.lines!.map((line) => `${line.type === 'added' ? '+' : '-'}${line.line} ${line.text}`).join(' | '));
+    console.log('   Tides carried over:', second.manifest!.pages[`${server.url}/a`]?.etag, Boolean(second.manifest!.pages[`${server.url}/a`]?.content));
+
+    const partial = await extractor.extractWebsite(server.url, { maxPages: 1, previousManifest: second.manifest });
+    console.log('   Stopped early:', partial.changes!.removed.length, 'removed -', Object.keys(partial.manifest!.pages).length, 'entries kept');
+
+    const withSitemap = await extractor.extractWebsite(server.url, { maxPages: 10, useSitemap: true, previousManifest: second.manifest });
+    const lastmodBefore = hits('/a');
+    const fromSitemap = await extractor.extractWebsite(server.url, { maxPages: 10, useSitemap: true, previousManifest: withSitemap.manifest });
+    console.log('   Sitemap lastmod:', withSitemap.manifest!.pages[`${server.url}/a`]?.lastmod, '- tides requests:', hits('/a') - lastmodBefore,
+      '- unchanged:', paths(fromSitemap.changes!.unchanged));
+
+    const stream = extractor.streamWebsite(server.url, { maxPages: 10, previousManifest: second.manifest });
+    const streamed: string[] = [];
+    for await (const item of stream) {
+      streamed.push(item.url);
+    }
+    console.log('   Stream:', paths(streamed), '- unchanged:', paths(stream.unchanged), stream.stats.pagesUnchanged);
+
+    // An expired cache entry without validators keeps the manifest's
+    const cached = new WebExtractor({ backend: new HttpBackend(), cache: { ttl: 1 } });
+    await cached.extractWebsite(`${server.url}/v`, { maxPages: 1 });
+    run = 3;
+    const versioned = await extractor.extractWebsite(`${server.url}/v`, { maxPages: 1 });
+    const revalidated = await cached.extractWebsite(`${server.url}/v`, { maxPages: 1, previousManifest: versioned.manifest });
+    console.log('   Manifest validators with cache:', conditional, '- unchanged:', paths(revalidated.changes!.unchanged));
+
+    console.log('   Line diff:', diffLines('one\ntwo\nthree', 'one\n2\nthree\nfour'));
+    console.log('   Section diff:', diffSections(hashSections('# A\nalpha\n# B\nbeta'), hashSections('# A\nalpha\n# C\ngamma')));
+  } catch (error) {
+    console.log('   ❌ Failed:', error);
+  } finally {
+    await server.close();
+  }
+}
+
+async function runAsyncTests() {
+  await testHttpBackend();
+  await testNativeCrawler();
+  await testRobotsTxt();
+  await testSitemaps();
+  await testStreaming();
+  await testHooks();
+  await testRetries();
+  await testTimeoutsAndCancellation();
+  await testBatchExtraction();
+  await testRateLimiting();
+  await testChunking();
+  await testTokens();
+  await testStructuredExtraction();
+  await testSummaries();
+  await testVectorIndex();
+  await testNearDuplicates();
+  await testCanonicalUrls();
+  await testPublicSuffixes();
+  await testRichMetadata();
+  await testLanguageDetection();
+  await testHtmlToMarkdown();
+  await testScreenshotsAndImages();
+  await testDocuments();
+  await testResponseCache();
+  await testIncrementalCrawls();
+
+  console.log('\n🎉 All unit tests completed!\n');
+  console.log('📝 Note: To test actual web scraping, you need:');
+  console.log('   1. Set FIRECRAWL_API_KEY environment variable');
+  console.log('   2. Run: FIRECRAWL_API_KEY=your_key npm run test:integration\n');
+}
+
+runAsyncTests();